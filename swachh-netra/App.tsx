@@ -4,6 +4,7 @@ import { Provider as PaperProvider } from 'react-native-paper';
 import { AuthProvider } from './contexts/AuthContext';
 import Login from './app/screens/auth/Login';
 import Signup from './app/screens/auth/Signup';
+import ActivateAccount from './app/screens/auth/ActivateAccount';
 import AdminDashboard from './app/screens/admin/AdminDashboard';
 import UserManagement from './app/screens/admin/UserManagement';
 import FeederPointManagement from './app/screens/admin/FeederPointManagement';
@@ -14,6 +15,7 @@ import ContractorManagement from './app/screens/admin/ContractorManagement';
 import DriverManagement from './app/screens/admin/DriverManagement';
 import AdminReports from './app/screens/admin/AdminReports';
 import AdminSettings from './app/screens/admin/AdminSettings';
+import AuditLog from './app/screens/admin/AuditLog';
 import SwachhHRManagement from './app/screens/admin/SwachhHRManagement';
 import ContractorDashboard from './app/screens/contractor/ContractorDashboard';
 import DriverApprovals from './app/screens/contractor/DriverApprovals';
@@ -21,6 +23,7 @@ import DriverAssignment from './app/screens/contractor/DriverAssignment';
 import ContractorFeederPoints from './app/screens/contractor/ContractorFeederPoints';
 import ContractorVehicleManagement from './app/screens/contractor/ContractorVehicleManagement';
 import ContractorDailyAssignments from './app/screens/contractor/ContractorDailyAssignments';
+import ContractorRosterTemplates from './app/screens/contractor/ContractorRosterTemplates';
 import DriverDashboard from './app/screens/driver/DriverDashboard';
 import WorkerAttendance from './app/screens/driver/WorkerAttendance';
 import TripRecording from './app/screens/driver/TripRecording';
@@ -34,6 +37,17 @@ import WorkerApprovals from './app/screens/admin/WorkerApprovals';
 import LocationBasedTripStart from './app/screens/driver/LocationBasedTripStart';
 import AttendanceDashboard from './app/screens/admin/AttendanceDashboard';
 import HRAttendanceDashboard from './app/screens/swachh_hr/AttendanceDashboard';
+import ShiftPolicies from './app/screens/swachh_hr/ShiftPolicies';
+import AttendanceCorrections from './app/screens/swachh_hr/AttendanceCorrections';
+import FlaggedAttendance from './app/screens/swachh_hr/FlaggedAttendance';
+import ProxyDetection from './app/screens/swachh_hr/ProxyDetection';
+import WorkerIdCards from './app/screens/swachh_hr/WorkerIdCards';
+import AttendanceCorrectionRequests from './app/screens/common/AttendanceCorrectionRequests';
+import MissedCollections from './app/screens/common/MissedCollections';
+import LeaveManagement from './app/screens/swachh_hr/LeaveManagement';
+import PayrollManagement from './app/screens/swachh_hr/PayrollManagement';
+import WorkerAttendanceCalendar from './app/screens/common/WorkerAttendanceCalendar';
+import MaintenanceGate from './app/components/MaintenanceGate';
 
 
 
@@ -44,42 +58,57 @@ export default function App() {
   return (
     <PaperProvider>
       <AuthProvider>
-        <NavigationContainer>
-          <Stack.Navigator initialRouteName='Login'>
-            <Stack.Screen name='Login' component={Login} options={{ headerShown: false }} />
-            <Stack.Screen name='Signup' component={Signup} options={{ headerShown: false }} />
-            <Stack.Screen name='AdminDashboard' component={AdminDashboard} options={{ headerShown: false }} />
-            <Stack.Screen name='UserManagement' component={UserManagement} options={{ headerShown: false }} />
-            <Stack.Screen name='FeederPointManagement' component={FeederPointManagement} options={{ headerShown: false }} />
-            <Stack.Screen name='FeederPointAssignment' component={FeederPointAssignmentScreen} options={{ headerShown: false }} />
-            <Stack.Screen name='VehicleManagement' component={VehicleManagement} options={{ headerShown: false }} />
-            <Stack.Screen name='VehicleAssignment' component={VehicleAssignmentScreen} options={{ headerShown: false }} />
-            <Stack.Screen name='ContractorManagement' component={ContractorManagement} options={{ headerShown: false }} />
-            <Stack.Screen name='DriverManagement' component={DriverManagement} options={{ headerShown: false }} />
-            <Stack.Screen name='AdminReports' component={AdminReports} options={{ headerShown: false }} />
-            <Stack.Screen name='AdminSettings' component={AdminSettings} options={{ headerShown: false }} />
-            <Stack.Screen name='SwachhHRManagement' component={SwachhHRManagement} options={{ headerShown: false }} />
-            <Stack.Screen name='ContractorDashboard' component={ContractorDashboard} options={{ headerShown: false }} />
-            <Stack.Screen name='DriverApprovals' component={DriverApprovals} options={{ headerShown: false }} />
-            <Stack.Screen name='DriverAssignment' component={DriverAssignment} options={{ headerShown: false }} />
-            <Stack.Screen name='ContractorFeederPoints' component={ContractorFeederPoints} options={{ headerShown: false }} />
-            <Stack.Screen name='ContractorVehicleManagement' component={ContractorVehicleManagement} options={{ headerShown: false }} />
-            <Stack.Screen name='ContractorDailyAssignments' component={ContractorDailyAssignments} options={{ headerShown: false }} />
-            <Stack.Screen name='DriverDashboard' component={DriverDashboard} options={{ headerShown: false }} />
-            <Stack.Screen name='WorkerAttendance' component={WorkerAttendance} options={{ headerShown: false }} />
-            <Stack.Screen name='TripRecording' component={TripRecording} options={{ headerShown: false }} />
-            <Stack.Screen name='ContractorCommunication' component={ContractorCommunication} options={{ headerShown: false }} />
-            <Stack.Screen name='AdminDriverAssignment' component={AdminDriverAssignment} options={{ headerShown: false }} />
-            <Stack.Screen name='ContractorDriverConnectionTest' component={ContractorDriverConnectionTest} options={{ headerShown: false }} />
-            <Stack.Screen name='SwachhHRDashboard' component={SwachhHRDashboard} options={{ headerShown: false }} />
-            <Stack.Screen name='WorkerManagement' component={WorkerManagement} options={{ headerShown: false }} />
-            <Stack.Screen name='WorkerAssignment' component={WorkerAssignment} options={{ headerShown: false }} />
-            <Stack.Screen name='WorkerApprovals' component={WorkerApprovals} options={{ headerShown: false }} />
-            <Stack.Screen name='LocationBasedTripStart' component={LocationBasedTripStart} options={{ headerShown: false }} />
-            <Stack.Screen name='AttendanceDashboard' component={AttendanceDashboard} options={{ headerShown: false }} />
-            <Stack.Screen name='HRAttendanceDashboard' component={HRAttendanceDashboard} options={{ headerShown: false }} />
-          </Stack.Navigator>
-        </NavigationContainer>
+        <MaintenanceGate>
+          <NavigationContainer>
+            <Stack.Navigator initialRouteName='Login'>
+              <Stack.Screen name='Login' component={Login} options={{ headerShown: false }} />
+              <Stack.Screen name='Signup' component={Signup} options={{ headerShown: false }} />
+              <Stack.Screen name='ActivateAccount' component={ActivateAccount} options={{ headerShown: false }} />
+              <Stack.Screen name='AdminDashboard' component={AdminDashboard} options={{ headerShown: false }} />
+              <Stack.Screen name='UserManagement' component={UserManagement} options={{ headerShown: false }} />
+              <Stack.Screen name='FeederPointManagement' component={FeederPointManagement} options={{ headerShown: false }} />
+              <Stack.Screen name='FeederPointAssignment' component={FeederPointAssignmentScreen} options={{ headerShown: false }} />
+              <Stack.Screen name='VehicleManagement' component={VehicleManagement} options={{ headerShown: false }} />
+              <Stack.Screen name='VehicleAssignment' component={VehicleAssignmentScreen} options={{ headerShown: false }} />
+              <Stack.Screen name='ContractorManagement' component={ContractorManagement} options={{ headerShown: false }} />
+              <Stack.Screen name='DriverManagement' component={DriverManagement} options={{ headerShown: false }} />
+              <Stack.Screen name='AdminReports' component={AdminReports} options={{ headerShown: false }} />
+              <Stack.Screen name='AdminSettings' component={AdminSettings} options={{ headerShown: false }} />
+              <Stack.Screen name='AuditLog' component={AuditLog} options={{ headerShown: false }} />
+              <Stack.Screen name='SwachhHRManagement' component={SwachhHRManagement} options={{ headerShown: false }} />
+              <Stack.Screen name='ContractorDashboard' component={ContractorDashboard} options={{ headerShown: false }} />
+              <Stack.Screen name='DriverApprovals' component={DriverApprovals} options={{ headerShown: false }} />
+              <Stack.Screen name='DriverAssignment' component={DriverAssignment} options={{ headerShown: false }} />
+              <Stack.Screen name='ContractorFeederPoints' component={ContractorFeederPoints} options={{ headerShown: false }} />
+              <Stack.Screen name='ContractorVehicleManagement' component={ContractorVehicleManagement} options={{ headerShown: false }} />
+              <Stack.Screen name='ContractorDailyAssignments' component={ContractorDailyAssignments} options={{ headerShown: false }} />
+              <Stack.Screen name='ContractorRosterTemplates' component={ContractorRosterTemplates} options={{ headerShown: false }} />
+              <Stack.Screen name='DriverDashboard' component={DriverDashboard} options={{ headerShown: false }} />
+              <Stack.Screen name='WorkerAttendance' component={WorkerAttendance} options={{ headerShown: false }} />
+              <Stack.Screen name='TripRecording' component={TripRecording} options={{ headerShown: false }} />
+              <Stack.Screen name='ContractorCommunication' component={ContractorCommunication} options={{ headerShown: false }} />
+              <Stack.Screen name='AdminDriverAssignment' component={AdminDriverAssignment} options={{ headerShown: false }} />
+              <Stack.Screen name='ContractorDriverConnectionTest' component={ContractorDriverConnectionTest} options={{ headerShown: false }} />
+              <Stack.Screen name='SwachhHRDashboard' component={SwachhHRDashboard} options={{ headerShown: false }} />
+              <Stack.Screen name='WorkerManagement' component={WorkerManagement} options={{ headerShown: false }} />
+              <Stack.Screen name='WorkerAssignment' component={WorkerAssignment} options={{ headerShown: false }} />
+              <Stack.Screen name='WorkerApprovals' component={WorkerApprovals} options={{ headerShown: false }} />
+              <Stack.Screen name='LocationBasedTripStart' component={LocationBasedTripStart} options={{ headerShown: false }} />
+              <Stack.Screen name='AttendanceDashboard' component={AttendanceDashboard} options={{ headerShown: false }} />
+              <Stack.Screen name='HRAttendanceDashboard' component={HRAttendanceDashboard} options={{ headerShown: false }} />
+              <Stack.Screen name='ShiftPolicies' component={ShiftPolicies} options={{ headerShown: false }} />
+              <Stack.Screen name='AttendanceCorrections' component={AttendanceCorrections} options={{ headerShown: false }} />
+              <Stack.Screen name='FlaggedAttendance' component={FlaggedAttendance} options={{ headerShown: false }} />
+              <Stack.Screen name='ProxyDetection' component={ProxyDetection} options={{ headerShown: false }} />
+              <Stack.Screen name='WorkerIdCards' component={WorkerIdCards} options={{ headerShown: false }} />
+              <Stack.Screen name='AttendanceCorrectionRequests' component={AttendanceCorrectionRequests} options={{ headerShown: false }} />
+              <Stack.Screen name='MissedCollections' component={MissedCollections} options={{ headerShown: false }} />
+              <Stack.Screen name='LeaveManagement' component={LeaveManagement} options={{ headerShown: false }} />
+              <Stack.Screen name='PayrollManagement' component={PayrollManagement} options={{ headerShown: false }} />
+              <Stack.Screen name='WorkerAttendanceCalendar' component={WorkerAttendanceCalendar} options={{ headerShown: false }} />
+            </Stack.Navigator>
+          </NavigationContainer>
+        </MaintenanceGate>
       </AuthProvider>
     </PaperProvider>
   )
@@ -2,6 +2,7 @@
 import { initializeApp } from "firebase/app";
 import { getAuth } from "firebase/auth";
 import { getFirestore } from "firebase/firestore";
+import { getStorage, connectStorageEmulator } from "firebase/storage";
 import Constants from 'expo-constants';
 
 // Get Firebase configuration from environment variables
@@ -40,3 +41,12 @@ const app = initializeApp(firebaseConfig);
 export const FIREBASE_APP = app;
 export const FIREBASE_AUTH = getAuth(FIREBASE_APP);
 export const FIRESTORE_DB = getFirestore(FIREBASE_APP);
+export const FIREBASE_STORAGE = getStorage(FIREBASE_APP);
+
+// Point Storage at the local emulator when one is configured, e.g. "localhost:9199"
+const storageEmulatorHost = process.env.EXPO_PUBLIC_FIREBASE_STORAGE_EMULATOR_HOST;
+if (storageEmulatorHost) {
+  const [host, port] = storageEmulatorHost.split(':');
+  connectStorageEmulator(FIREBASE_STORAGE, host, Number(port) || 9199);
+  console.log('Using Firebase Storage emulator at', storageEmulatorHost);
+}
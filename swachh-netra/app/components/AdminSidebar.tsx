@@ -158,12 +158,68 @@ const AdminSidebar: React.FC<AdminSidebarProps> = ({
           screen: "VehicleAssignment",
           description: "Assign vehicles to contractors"
         },
+        {
+          id: "missed-collections",
+          title: "Missed Collections",
+          icon: "report-problem",
+          screen: "MissedCollections",
+          description: "Points left uncollected"
+        },
         {
           id: "attendance-dashboard",
           title: "Attendance Dashboard",
           icon: "event-available",
           screen: "AttendanceDashboard",
           description: "View worker attendance records"
+        },
+        {
+          id: "shift-policies",
+          title: "Shift Policies",
+          icon: "schedule",
+          screen: "ShiftPolicies",
+          description: "Shift times, grace and half days"
+        },
+        {
+          id: "attendance-corrections",
+          title: "Attendance Corrections",
+          icon: "fact-check",
+          screen: "AttendanceCorrections",
+          description: "Review correction requests"
+        },
+        {
+          id: "flagged-attendance",
+          title: "Flagged Attendance",
+          icon: "wrong-location",
+          screen: "FlaggedAttendance",
+          description: "Marks away from the feeder point"
+        },
+        {
+          id: "proxy-detection",
+          title: "Proxy Attendance Check",
+          icon: "policy",
+          screen: "ProxyDetection",
+          description: "Reused photos and mark bursts"
+        },
+        {
+          id: "worker-id-cards",
+          title: "Worker ID Cards",
+          icon: "badge",
+          screen: "WorkerIdCards",
+          description: "Print QR cards for attendance"
+        },
+        {
+          id: "leave-management",
+          title: "Leave & Holidays",
+          icon: "beach-access",
+          screen: "LeaveManagement",
+          description: "Leave applications and holidays"
+        },
+        {
+          id: "payroll-management",
+          title: "Payroll",
+          icon: "payments",
+          screen: "PayrollManagement",
+          description: "Wage rates, payroll runs and payslips"
         }
       ]
     },
@@ -178,6 +234,13 @@ const AdminSidebar: React.FC<AdminSidebarProps> = ({
           icon: "settings",
           screen: "AdminSettings",
           description: "System configuration"
+        },
+        {
+          id: "audit-log",
+          title: "Audit Log",
+          icon: "history",
+          screen: "AuditLog",
+          description: "Who changed what, and when"
         }
       ]
     }
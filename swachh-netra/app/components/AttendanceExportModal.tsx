@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from "react"
+import { View, StyleSheet, TouchableOpacity, ScrollView, Alert } from "react-native"
+import { Text, Chip, Modal, Portal } from "react-native-paper"
+import { AttendanceExportService, AttendanceExportFormat } from "../../services/AttendanceExportService"
+import {
+  ATTENDANCE_EXPORT_FORMATS,
+  ATTENDANCE_EXPORT_FORMAT_LABELS,
+  AttendanceRecord,
+  attendanceScopeText,
+} from "../../services/domain"
+
+interface AttendanceExportModalProps {
+  visible: boolean
+  records: AttendanceRecord[] // as currently filtered on the dashboard
+  startDate: Date
+  endDate: Date
+  employee?: string
+  onDismiss: () => void
+}
+
+// Distinct id/name pairs, by name
+const optionsOf = (records: AttendanceRecord[], id: (record: AttendanceRecord) => string | undefined, name: (record: AttendanceRecord) => string | undefined) => {
+  const options = new Map<string, string>()
+  records.forEach(record => {
+    const key = id(record)
+    if (key) options.set(key, name(record) || key)
+  })
+  return Array.from(options.entries()).sort((a, b) => a[1].localeCompare(b[1]))
+}
+
+// Exports the dashboard's records, optionally narrowed to one feeder point or driver
+const AttendanceExportModal = ({ visible, records, startDate, endDate, employee, onDismiss }: AttendanceExportModalProps) => {
+  const [format, setFormat] = useState<AttendanceExportFormat>("csv")
+  const [feederPointId, setFeederPointId] = useState<string | null>(null)
+  const [driverId, setDriverId] = useState<string | null>(null)
+  const [exporting, setExporting] = useState(false)
+
+  useEffect(() => {
+    if (!visible) return
+    setFeederPointId(null)
+    setDriverId(null)
+  }, [visible])
+
+  const feederPoints = optionsOf(records, record => record.feederPointId, record => record.feederPointName)
+  const drivers = optionsOf(records, record => record.driverId, record => record.driverName)
+  const selected = records.filter(record =>
+    (!feederPointId || record.feederPointId === feederPointId) && (!driverId || record.driverId === driverId)
+  )
+  const scope = {
+    startDate,
+    endDate,
+    employee: employee?.trim() || undefined,
+    feederPointName: feederPoints.find(([id]) => id === feederPointId)?.[1],
+    driverName: drivers.find(([id]) => id === driverId)?.[1],
+  }
+
+  const exportRecords = async () => {
+    try {
+      setExporting(true)
+      await AttendanceExportService.exportAttendance(selected, format, scope)
+      onDismiss()
+    } catch (error) {
+      Alert.alert("Export Failed", error instanceof Error ? error.message : "Failed to export attendance")
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Portal>
+      <Modal visible={visible} onDismiss={onDismiss} contentContainerStyle={styles.modal}>
+        <ScrollView>
+          <Text style={styles.modalTitle}>Export Attendance</Text>
+          <Text style={styles.modalSubtitle}>{attendanceScopeText(scope)} · {selected.length} records</Text>
+
+          <Text style={styles.formLabel}>Format</Text>
+          <View style={styles.chipRow}>
+            {ATTENDANCE_EXPORT_FORMATS.map(option => (
+              <Chip key={option} selected={format === option} onPress={() => setFormat(option)} style={styles.chip}>
+                {ATTENDANCE_EXPORT_FORMAT_LABELS[option]}
+              </Chip>
+            ))}
+          </View>
+
+          {feederPoints.length > 1 && (
+            <>
+              <Text style={styles.formLabel}>Feeder Point</Text>
+              <View style={styles.chipRow}>
+                <Chip selected={!feederPointId} onPress={() => setFeederPointId(null)} style={styles.chip}>All</Chip>
+                {feederPoints.map(([id, name]) => (
+                  <Chip key={id} selected={feederPointId === id} onPress={() => setFeederPointId(id)} style={styles.chip}>
+                    {name}
+                  </Chip>
+                ))}
+              </View>
+            </>
+          )}
+
+          {drivers.length > 1 && (
+            <>
+              <Text style={styles.formLabel}>Driver</Text>
+              <View style={styles.chipRow}>
+                <Chip selected={!driverId} onPress={() => setDriverId(null)} style={styles.chip}>All</Chip>
+                {drivers.map(([id, name]) => (
+                  <Chip key={id} selected={driverId === id} onPress={() => setDriverId(id)} style={styles.chip}>
+                    {name}
+                  </Chip>
+                ))}
+              </View>
+            </>
+          )}
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onDismiss}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={exportRecords} disabled={exporting || selected.length === 0}>
+              <Text style={styles.saveButtonText}>{exporting ? "Preparing..." : "Export & Share"}</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </Modal>
+    </Portal>
+  )
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    backgroundColor: "#ffffff",
+    margin: 20,
+    padding: 20,
+    borderRadius: 12,
+    maxHeight: "85%",
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    color: "#6b7280",
+    marginTop: 2,
+    marginBottom: 16,
+  },
+  formLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 12,
+  },
+  chip: {
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#f3f4f6",
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  saveButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#3b82f6",
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+})
+
+export default AttendanceExportModal
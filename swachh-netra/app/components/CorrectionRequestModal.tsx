@@ -0,0 +1,270 @@
+import React, { useState, useEffect } from "react"
+import { View, StyleSheet, TouchableOpacity, ScrollView, Image, Alert } from "react-native"
+import { Text, Chip, TextInput, Modal, Portal, ProgressBar } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import * as ImagePicker from "expo-image-picker"
+import { AttendanceCorrectionService, CorrectableAttendance } from "../../services/AttendanceCorrectionService"
+import { AttendanceStatus, parseShiftTime } from "../../services/domain"
+
+// The record being corrected, as the requesting screen knows it
+export interface CorrectableRecord extends CorrectableAttendance {
+  id: string
+  workerName: string
+  attendanceDate: string
+}
+
+interface CorrectionRequestModalProps {
+  record: CorrectableRecord | null
+  requestedBy: string
+  onDismiss: () => void
+  onSubmitted: () => void
+}
+
+const toTimeText = (date?: Date) =>
+  date ? `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}` : ""
+
+// "HH:MM" on the record's day; a check-out earlier than the check-in falls on the next day
+const atTimeOn = (attendanceDate: string, time: string, after?: Date): Date | undefined => {
+  const minutes = parseShiftTime(time)
+  if (minutes === null) return undefined
+  const date = new Date(`${attendanceDate}T00:00:00`)
+  date.setMinutes(minutes)
+  if (after && date <= after) date.setDate(date.getDate() + 1)
+  return date
+}
+
+// Lets a driver or contractor ask HR to change a mark, with a reason and an optional photo
+const CorrectionRequestModal = ({ record, requestedBy, onDismiss, onSubmitted }: CorrectionRequestModalProps) => {
+  const [status, setStatus] = useState<AttendanceStatus>("present")
+  const [checkIn, setCheckIn] = useState("")
+  const [checkOut, setCheckOut] = useState("")
+  const [reason, setReason] = useState("")
+  const [photoUri, setPhotoUri] = useState<string | null>(null)
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!record) return
+    setStatus(record.status)
+    setCheckIn(toTimeText(record.checkInTime))
+    setCheckOut(toTimeText(record.checkOutTime))
+    setReason("")
+    setPhotoUri(null)
+  }, [record])
+
+  const takePhoto = async () => {
+    try {
+      const result = await ImagePicker.launchCameraAsync({ quality: 0.8 })
+      if (!result.canceled) setPhotoUri(result.assets[0].uri)
+    } catch (error) {
+      Alert.alert("Error", "Failed to take photo")
+    }
+  }
+
+  const submit = async () => {
+    if (!record) return
+
+    const requested: Partial<CorrectableAttendance> = { status }
+    if (status === "present") {
+      if (checkIn.trim()) {
+        requested.checkInTime = atTimeOn(record.attendanceDate, checkIn)
+        if (!requested.checkInTime) return Alert.alert("Invalid Time", "Check-in must be HH:MM")
+      }
+      if (checkOut.trim()) {
+        requested.checkOutTime = atTimeOn(record.attendanceDate, checkOut, requested.checkInTime ?? record.checkInTime)
+        if (!requested.checkOutTime) return Alert.alert("Invalid Time", "Check-out must be HH:MM")
+      }
+    }
+
+    try {
+      setSubmitting(true)
+      await AttendanceCorrectionService.requestCorrection({
+        recordId: record.id,
+        requested,
+        reason,
+        requestedBy,
+        evidencePhotoUri: photoUri || undefined,
+        onPhotoUploadProgress: photoUri ? setUploadProgress : undefined,
+      })
+      Alert.alert("Request Sent", "HR will review the correction. The record stays as it is until then.")
+      onSubmitted()
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to send correction request")
+    } finally {
+      setSubmitting(false)
+      setUploadProgress(null)
+    }
+  }
+
+  return (
+    <Portal>
+      <Modal visible={!!record} onDismiss={onDismiss} contentContainerStyle={styles.modal}>
+        <ScrollView>
+          <Text style={styles.modalTitle}>Request Correction</Text>
+          <Text style={styles.modalSubtitle}>{record?.workerName} · {record?.attendanceDate}</Text>
+
+          <Text style={styles.formLabel}>Status</Text>
+          <View style={styles.chipRow}>
+            <Chip selected={status === "present"} onPress={() => setStatus("present")} style={styles.chip}>
+              Present
+            </Chip>
+            <Chip selected={status === "absent"} onPress={() => setStatus("absent")} style={styles.chip}>
+              Absent
+            </Chip>
+          </View>
+
+          {status === "present" && (
+            <View style={styles.formRow}>
+              <TextInput
+                mode="outlined"
+                label="Check-in"
+                placeholder="HH:MM"
+                value={checkIn}
+                onChangeText={setCheckIn}
+                style={[styles.formInput, styles.formColumn]}
+                dense
+              />
+              <TextInput
+                mode="outlined"
+                label="Check-out"
+                placeholder="HH:MM"
+                value={checkOut}
+                onChangeText={setCheckOut}
+                style={[styles.formInput, styles.formColumn]}
+                dense
+              />
+            </View>
+          )}
+
+          <TextInput
+            mode="outlined"
+            label="Reason"
+            placeholder="What was wrong with the mark?"
+            value={reason}
+            onChangeText={setReason}
+            multiline
+            numberOfLines={3}
+            style={styles.formInput}
+          />
+
+          <TouchableOpacity style={styles.photoButton} onPress={takePhoto}>
+            {photoUri ? (
+              <Image source={{ uri: photoUri }} style={styles.photo} />
+            ) : (
+              <MaterialIcons name="add-a-photo" size={24} color="#6b7280" />
+            )}
+            <Text style={styles.photoText}>{photoUri ? "Retake evidence photo" : "Add evidence photo (optional)"}</Text>
+          </TouchableOpacity>
+
+          {uploadProgress !== null && <ProgressBar progress={uploadProgress} color="#3b82f6" style={styles.progress} />}
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onDismiss}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={submit} disabled={submitting}>
+              <Text style={styles.saveButtonText}>{submitting ? "Sending..." : "Send to HR"}</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </Modal>
+    </Portal>
+  )
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    backgroundColor: "#ffffff",
+    margin: 20,
+    padding: 20,
+    borderRadius: 12,
+    maxHeight: "85%",
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    color: "#6b7280",
+    marginTop: 2,
+    marginBottom: 16,
+  },
+  formLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    marginBottom: 12,
+  },
+  chip: {
+    marginRight: 6,
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  formColumn: {
+    flex: 1,
+  },
+  formInput: {
+    marginBottom: 12,
+  },
+  photoButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: "#d1d5db",
+  },
+  photo: {
+    width: 48,
+    height: 48,
+    borderRadius: 6,
+  },
+  photoText: {
+    fontSize: 14,
+    color: "#374151",
+  },
+  progress: {
+    marginTop: 12,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#f3f4f6",
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  saveButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#3b82f6",
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+})
+
+export default CorrectionRequestModal
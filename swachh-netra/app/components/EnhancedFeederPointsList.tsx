@@ -22,6 +22,7 @@ interface AssignedFeederPoint {
   estimatedDuration?: number
   priority?: "high" | "medium" | "low"
   status?: "pending" | "in_progress" | "completed"
+  routeStop?: number
 }
 
 interface EnhancedFeederPointsListProps {
@@ -150,7 +151,13 @@ const EnhancedFeederPointsList = ({
         <View style={styles.feederPointContent}>
           <View style={styles.feederPointHeader}>
             <View style={styles.feederPointTitleRow}>
-              <MaterialIcons name="location-on" size={20} color="#3b82f6" />
+              {item.routeStop ? (
+                <View style={styles.routeStopBadge}>
+                  <Text style={styles.routeStopText}>{item.routeStop}</Text>
+                </View>
+              ) : (
+                <MaterialIcons name="location-on" size={20} color="#3b82f6" />
+              )}
               <Text style={styles.feederPointName}>{item.feederPointName || 'Unknown Location'}</Text>
               {item.priority && (
                 <Chip
@@ -490,6 +497,19 @@ const styles = StyleSheet.create({
   priorityChip: {
     height: 24,
   },
+  routeStopBadge: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: "#3b82f6",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  routeStopText: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#ffffff",
+  },
   priorityChipText: {
     fontSize: 10,
     fontWeight: "600",
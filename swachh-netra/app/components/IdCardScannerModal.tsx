@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from "react"
+import { View, StyleSheet, TouchableOpacity, Modal } from "react-native"
+import { Text } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import { CameraView, useCameraPermissions, BarcodeScanningResult } from "expo-camera"
+import { WorkerIdCardService, ScannedWorker } from "../../services/WorkerIdCardService"
+
+interface IdCardScannerModalProps {
+  visible: boolean
+  driverId: string
+  onScanned: (worker: ScannedWorker) => void
+  onClose: () => void
+}
+
+// Full-screen camera that reads a worker ID card and checks it before handing the worker back
+const IdCardScannerModal = ({ visible, driverId, onScanned, onClose }: IdCardScannerModalProps) => {
+  const [permission, requestPermission] = useCameraPermissions()
+  const [checking, setChecking] = useState(false)
+  const [problem, setProblem] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!visible) return
+    setChecking(false)
+    setProblem(null)
+    if (permission && !permission.granted && permission.canAskAgain) requestPermission()
+  }, [visible, permission?.granted])
+
+  const handleScan = async ({ data }: BarcodeScanningResult) => {
+    setChecking(true)
+    try {
+      onScanned(await WorkerIdCardService.verifyCard(data, driverId))
+    } catch (error) {
+      setProblem((error instanceof Error ? error.message : "This card could not be checked").replace(/^Failed to verify ID card: /, ""))
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  // Scanning pauses while a card is being checked or a problem is shown
+  const scanning = visible && !checking && !problem
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {permission?.granted ? (
+          <CameraView
+            style={styles.camera}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ["qr"] }}
+            onBarcodeScanned={scanning ? handleScan : undefined}
+          />
+        ) : (
+          <View style={[styles.camera, styles.noPermission]}>
+            <MaterialIcons name="no-photography" size={40} color="#9ca3af" />
+            <Text style={styles.noPermissionText}>Camera permission is needed to scan ID cards.</Text>
+            <TouchableOpacity style={styles.actionButton} onPress={requestPermission}>
+              <Text style={styles.actionButtonText}>Allow Camera</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.overlay} pointerEvents="box-none">
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <MaterialIcons name="close" size={30} color="#ffffff" />
+          </TouchableOpacity>
+
+          <View style={styles.frame} pointerEvents="none" />
+
+          <View style={styles.status}>
+            {problem ? (
+              <>
+                <MaterialIcons name="error-outline" size={24} color="#fca5a5" />
+                <Text style={styles.problemText}>{problem}</Text>
+                <TouchableOpacity style={styles.actionButton} onPress={() => setProblem(null)}>
+                  <Text style={styles.actionButtonText}>Scan Again</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <Text style={styles.statusText}>{checking ? "Checking card..." : "Point the camera at the worker's ID card"}</Text>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#000000",
+  },
+  camera: {
+    flex: 1,
+  },
+  noPermission: {
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 32,
+  },
+  noPermissionText: {
+    fontSize: 14,
+    color: "#d1d5db",
+    textAlign: "center",
+    marginTop: 12,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 48,
+  },
+  closeButton: {
+    alignSelf: "flex-end",
+    marginRight: 20,
+    padding: 8,
+  },
+  frame: {
+    width: 240,
+    height: 240,
+    borderWidth: 3,
+    borderColor: "#ffffff",
+    borderRadius: 16,
+  },
+  status: {
+    alignItems: "center",
+    marginHorizontal: 24,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+  },
+  statusText: {
+    fontSize: 14,
+    color: "#ffffff",
+    textAlign: "center",
+  },
+  problemText: {
+    fontSize: 14,
+    color: "#fecaca",
+    textAlign: "center",
+    marginVertical: 8,
+  },
+  actionButton: {
+    marginTop: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: "#059669",
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+})
+
+export default IdCardScannerModal
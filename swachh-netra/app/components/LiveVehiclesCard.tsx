@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from "react"
+import { View, StyleSheet, TouchableOpacity, Linking } from "react-native"
+import { Card, Text } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import { VehicleTrackingService, VehiclePosition } from "../../services/VehicleTrackingService"
+
+interface LiveVehiclesCardProps {
+  vehicleIds: string[] | null // null shows the whole fleet
+  emptyMessage?: string
+}
+
+const formatLastReported = (timestamp: Date, now: Date) => {
+  const minutes = Math.floor((now.getTime() - timestamp.getTime()) / (1000 * 60))
+  const hours = Math.floor(minutes / 60)
+
+  if (minutes < 1) return "Just now"
+  if (minutes < 60) return `${minutes}m ago`
+  if (hours < 24) return `${hours}h ago`
+  return timestamp.toLocaleDateString()
+}
+
+const openInMaps = (position: VehiclePosition) => {
+  if (!position.location) return
+  const { latitude, longitude } = position.location
+  Linking.openURL(`https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`)
+}
+
+// Where each vehicle is and when it last reported, updated live
+const LiveVehiclesCard = ({ vehicleIds, emptyMessage = "No vehicles to track" }: LiveVehiclesCardProps) => {
+  const [positions, setPositions] = useState<VehiclePosition[]>([])
+  const [now, setNow] = useState(new Date())
+  const vehicleKey = vehicleIds ? vehicleIds.join(",") : "all"
+
+  useEffect(() => {
+    const unsubscribe = VehicleTrackingService.subscribeToVehiclePositions(vehicleIds, setPositions)
+    return unsubscribe
+  }, [vehicleKey])
+
+  // Keep "last reported" times current between updates
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const sorted = [...positions].sort((a, b) =>
+    (b.location?.timestamp.getTime() || 0) - (a.location?.timestamp.getTime() || 0)
+  )
+  const liveCount = sorted.filter(position => !VehicleTrackingService.isStale(position.location, now)).length
+
+  return (
+    <Card style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Live Vehicles</Text>
+        <Text style={styles.summary}>{liveCount} of {sorted.length} reporting</Text>
+      </View>
+
+      {sorted.length === 0 ? (
+        <Text style={styles.emptyText}>{emptyMessage}</Text>
+      ) : (
+        sorted.map(position => {
+          const stale = VehicleTrackingService.isStale(position.location, now)
+          return (
+            <View key={position.vehicleId} style={styles.row}>
+              <View style={[styles.statusDot, { backgroundColor: stale ? "#9ca3af" : "#10b981" }]} />
+              <View style={styles.info}>
+                <Text style={styles.vehicleNumber}>{position.vehicleNumber || position.vehicleId}</Text>
+                <Text style={styles.detail}>
+                  {position.location
+                    ? `${position.location.tripId ? "On trip" : "Idle"} • ${formatLastReported(position.location.timestamp, now)}`
+                    : "Never reported"}
+                  {position.driverName ? ` • ${position.driverName}` : ""}
+                </Text>
+              </View>
+              {position.location && (
+                <TouchableOpacity style={styles.mapButton} onPress={() => openInMaps(position)}>
+                  <MaterialIcons name="map" size={20} color="#3b82f6" />
+                </TouchableOpacity>
+              )}
+            </View>
+          )
+        })
+      )}
+    </Card>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    borderRadius: 12,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  summary: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+    textAlign: "center",
+    paddingVertical: 12,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 12,
+  },
+  info: {
+    flex: 1,
+  },
+  vehicleNumber: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  detail: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  mapButton: {
+    padding: 8,
+  },
+})
+
+export default LiveVehiclesCard
@@ -0,0 +1,139 @@
+import React, { ReactNode } from "react"
+import { View, StyleSheet, TouchableOpacity } from "react-native"
+import { Text } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import { useAuth } from "../../contexts/AuthContext"
+import { useMaintenance } from "../hooks/useMaintenance"
+
+interface MaintenanceGateProps {
+  children: ReactNode
+}
+
+const DEFAULT_MESSAGE = "Swachh Netra is being updated. Your pending work is saved on this device and will sync once we are back."
+
+// Covers the app for signed-in non-admins while maintenance is on. The screens
+// underneath stay mounted so that nothing in progress is lost.
+const MaintenanceGate = ({ children }: MaintenanceGateProps) => {
+  const { userData, isAuthenticated, signOut } = useAuth()
+  const status = useMaintenance()
+  const isAdmin = userData?.role === "admin"
+  const locked = !!status?.active && isAuthenticated && !!userData && !isAdmin
+
+  return (
+    <View style={styles.container}>
+      {children}
+
+      {status?.active && isAdmin && (
+        <View style={[styles.banner, styles.activeBanner]} pointerEvents="none">
+          <MaterialIcons name="build" size={16} color="#ffffff" />
+          <Text style={styles.bannerText}>Maintenance mode is on. Only admins can make changes.</Text>
+        </View>
+      )}
+
+      {status?.upcoming && isAuthenticated && !locked && (
+        <View style={[styles.banner, styles.upcomingBanner]} pointerEvents="none">
+          <MaterialIcons name="schedule" size={16} color="#ffffff" />
+          <Text style={styles.bannerText}>
+            Maintenance scheduled from {status.startsAt!.toLocaleString()}
+            {status.endsAt ? ` to ${status.endsAt.toLocaleString()}` : ""}
+          </Text>
+        </View>
+      )}
+
+      {locked && (
+        <View style={styles.overlay}>
+          <MaterialIcons name="engineering" size={64} color="#f59e0b" />
+          <Text style={styles.title}>Under Maintenance</Text>
+          <Text style={styles.message}>{status!.message || DEFAULT_MESSAGE}</Text>
+          {status!.endsAt && (
+            <View style={styles.eta}>
+              <MaterialIcons name="schedule" size={18} color="#6b7280" />
+              <Text style={styles.etaText}>Expected back by {status!.endsAt.toLocaleString()}</Text>
+            </View>
+          )}
+          <TouchableOpacity style={styles.logoutButton} onPress={() => signOut().catch(() => {})}>
+            <MaterialIcons name="logout" size={18} color="#ef4444" />
+            <Text style={styles.logoutText}>Logout</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  banner: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: 0,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  activeBanner: {
+    backgroundColor: "#d97706",
+  },
+  upcomingBanner: {
+    backgroundColor: "#3b82f6",
+  },
+  bannerText: {
+    flex: 1,
+    color: "#ffffff",
+    fontSize: 12,
+    fontWeight: "500",
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "#f8fafc",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#111827",
+    marginTop: 16,
+  },
+  message: {
+    fontSize: 16,
+    color: "#4b5563",
+    textAlign: "center",
+    marginTop: 12,
+    lineHeight: 22,
+  },
+  eta: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 20,
+  },
+  etaText: {
+    fontSize: 14,
+    color: "#6b7280",
+  },
+  logoutButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 32,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#fecaca",
+  },
+  logoutText: {
+    color: "#ef4444",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+})
+
+export default MaintenanceGate
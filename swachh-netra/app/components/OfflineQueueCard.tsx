@@ -0,0 +1,136 @@
+import React from "react"
+import { View, StyleSheet, TouchableOpacity } from "react-native"
+import { Card, Text, Chip } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import { useOfflineQueue } from "../hooks/useOfflineQueue"
+import { OutboxOperation, OutboxStatus } from "../../services/OfflineQueueService"
+
+interface OfflineQueueCardProps {
+  operations?: OutboxOperation[] // only show these kinds of writes
+}
+
+const STATUS_STYLES: Record<OutboxStatus, { label: string, color: string, icon: keyof typeof MaterialIcons.glyphMap }> = {
+  pending: { label: "Waiting", color: "#f59e0b", icon: "cloud-queue" },
+  syncing: { label: "Syncing", color: "#3b82f6", icon: "cloud-upload" },
+  synced: { label: "Synced", color: "#10b981", icon: "cloud-done" },
+  failed: { label: "Failed", color: "#ef4444", icon: "cloud-off" },
+}
+
+// Sync status of driver writes made offline; hidden when there is nothing to show
+const OfflineQueueCard = ({ operations }: OfflineQueueCardProps) => {
+  const { items, pendingCount, syncNow, retry, discard } = useOfflineQueue()
+  const visibleItems = items.filter(item => !operations || operations.includes(item.operation))
+
+  if (visibleItems.length === 0) {
+    return null
+  }
+
+  return (
+    <Card style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Offline Sync</Text>
+        {pendingCount > 0 && (
+          <TouchableOpacity style={styles.syncButton} onPress={syncNow}>
+            <MaterialIcons name="sync" size={18} color="#3b82f6" />
+            <Text style={styles.syncButtonText}>Sync now</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {visibleItems.map(item => {
+        const status = STATUS_STYLES[item.status]
+        return (
+          <View key={item.id} style={styles.item}>
+            <MaterialIcons name={status.icon} size={20} color={status.color} />
+            <View style={styles.itemInfo}>
+              <Text style={styles.itemLabel}>{item.label}</Text>
+              <Text style={styles.itemTime}>{item.createdAt.toLocaleTimeString()}</Text>
+              {item.status === "failed" && item.lastError && (
+                <Text style={styles.itemError}>{item.lastError}</Text>
+              )}
+            </View>
+            {item.status === "failed" ? (
+              <View style={styles.itemActions}>
+                <TouchableOpacity onPress={() => retry(item.id)}>
+                  <MaterialIcons name="refresh" size={22} color="#3b82f6" />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => discard(item.id)}>
+                  <MaterialIcons name="delete-outline" size={22} color="#ef4444" />
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <Chip
+                mode="outlined"
+                style={[styles.statusChip, { backgroundColor: status.color + "20", borderColor: status.color }]}
+                textStyle={{ color: status.color, fontSize: 12 }}
+              >
+                {status.label}
+              </Chip>
+            )}
+          </View>
+        )
+      })}
+    </Card>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+    padding: 16,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  syncButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  syncButtonText: {
+    color: "#3b82f6",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+    gap: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemLabel: {
+    fontSize: 14,
+    color: "#111827",
+  },
+  itemTime: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  itemError: {
+    fontSize: 12,
+    color: "#ef4444",
+    marginTop: 2,
+  },
+  itemActions: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  statusChip: {
+    height: 28,
+  },
+})
+
+export default OfflineQueueCard
@@ -0,0 +1,116 @@
+import React from "react"
+import { View, StyleSheet, TouchableOpacity, Modal, Image } from "react-native"
+import { Text } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import { PhotoEvidence, isRemotePhotoUrl } from "../../services/domain"
+
+interface PhotoEvidenceModalProps {
+  photo: PhotoEvidence | null
+  caption?: string
+  onClose: () => void
+}
+
+// Full-screen view of an evidence photo with where and when it was taken
+const PhotoEvidenceModal = ({ photo, caption, onClose }: PhotoEvidenceModalProps) => (
+  <Modal visible={!!photo} transparent={true} animationType="fade" onRequestClose={onClose}>
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.overlay} onPress={onClose}>
+        {photo && (
+          <View style={styles.content}>
+            {isRemotePhotoUrl(photo.url) ? (
+              <Image source={{ uri: photo.url }} style={styles.image} resizeMode="contain" />
+            ) : (
+              <View style={[styles.image, styles.unavailable]}>
+                <MaterialIcons name="cloud-off" size={40} color="#9ca3af" />
+                <Text style={styles.unavailableText}>
+                  This photo was only saved on the driver's phone and was never uploaded.
+                </Text>
+              </View>
+            )}
+
+            <View style={styles.details}>
+              {caption && <Text style={styles.caption}>{caption}</Text>}
+              {photo.capturedAt && (
+                <View style={styles.detailRow}>
+                  <MaterialIcons name="schedule" size={14} color="#d1d5db" />
+                  <Text style={styles.detailText}>{photo.capturedAt.toLocaleString()}</Text>
+                </View>
+              )}
+              {photo.location && (
+                <View style={styles.detailRow}>
+                  <MaterialIcons name="location-on" size={14} color="#d1d5db" />
+                  <Text style={styles.detailText}>
+                    {photo.location.latitude.toFixed(5)}, {photo.location.longitude.toFixed(5)}
+                  </Text>
+                </View>
+              )}
+            </View>
+
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <MaterialIcons name="close" size={24} color="#ffffff" />
+            </TouchableOpacity>
+          </View>
+        )}
+      </TouchableOpacity>
+    </View>
+  </Modal>
+)
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.9)",
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    position: "relative",
+  },
+  image: {
+    width: 300,
+    height: 400,
+    borderRadius: 8,
+  },
+  unavailable: {
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#1f2937",
+    padding: 24,
+  },
+  unavailableText: {
+    color: "#d1d5db",
+    textAlign: "center",
+    marginTop: 12,
+  },
+  details: {
+    marginTop: 12,
+    gap: 4,
+  },
+  caption: {
+    color: "#ffffff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  detailRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  detailText: {
+    color: "#d1d5db",
+    fontSize: 12,
+  },
+  closeButton: {
+    position: "absolute",
+    top: 10,
+    right: 10,
+    padding: 8,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    borderRadius: 20,
+  },
+})
+
+export default PhotoEvidenceModal
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react'
+import { MaintenanceService, MaintenanceStatus } from '../../services/MaintenanceService'
+import { useSystemSettings } from './useSystemSettings'
+
+// How often a scheduled window is re-checked so that it starts and ends on time
+const CLOCK_INTERVAL_MS = 30000
+
+// Live maintenance status; null until settings have loaded
+export const useMaintenance = (): MaintenanceStatus | null => {
+  const { settings } = useSystemSettings()
+  const [now, setNow] = useState(new Date())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), CLOCK_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  return settings ? MaintenanceService.getStatus(settings, now) : null
+}
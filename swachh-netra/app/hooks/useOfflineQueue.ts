@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react'
+import { AppState } from 'react-native'
+import { OfflineQueueService, OutboxItem } from '../../services/OfflineQueueService'
+
+// How often queued writes are retried while the screen is open
+const RETRY_INTERVAL_MS = 30000
+
+// Outbox items for the driver UI. Queued writes are replayed when the app
+// returns to the foreground and periodically while any are pending.
+export const useOfflineQueue = () => {
+  const [items, setItems] = useState<OutboxItem[]>([])
+
+  useEffect(() => {
+    const unsubscribe = OfflineQueueService.subscribe(setItems)
+    OfflineQueueService.flush()
+
+    const appStateSubscription = AppState.addEventListener('change', state => {
+      if (state === 'active') OfflineQueueService.flush()
+    })
+    const interval = setInterval(() => {
+      OfflineQueueService.flush()
+    }, RETRY_INTERVAL_MS)
+
+    return () => {
+      unsubscribe()
+      appStateSubscription.remove()
+      clearInterval(interval)
+    }
+  }, [])
+
+  return {
+    items,
+    pendingCount: items.filter(item => item.status === 'pending' || item.status === 'syncing').length,
+    failedCount: items.filter(item => item.status === 'failed').length,
+    syncNow: () => OfflineQueueService.flush(),
+    retry: (itemId: string) => OfflineQueueService.retry(itemId),
+    discard: (itemId: string) => OfflineQueueService.discard(itemId),
+  }
+}
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react'
+import { SettingsService, SystemSettings } from '../../services/SettingsService'
+
+// Live system settings; null until the first snapshot arrives
+export const useSystemSettings = () => {
+  const [settings, setSettings] = useState<SystemSettings | null>(null)
+
+  useEffect(() => {
+    const unsubscribe = SettingsService.subscribe(setSettings)
+    return unsubscribe
+  }, [])
+
+  return { settings, loading: settings === null }
+}
@@ -0,0 +1,64 @@
+import { useEffect } from 'react'
+import * as Location from 'expo-location'
+import { VehicleTrackingService, TrackingContext } from '../../services/VehicleTrackingService'
+
+// GPS sampling cadence; the service throttles what actually gets written
+const SAMPLE_INTERVAL_MS = 15000
+const SAMPLE_DISTANCE_METERS = 10
+
+// Report the vehicle's position while a trip is running on this screen.
+// Pass null to stop tracking.
+export const useVehicleTracking = (context: TrackingContext | null) => {
+  const vehicleId = context?.vehicleId
+  const driverId = context?.driverId
+  const tripId = context?.tripId
+
+  useEffect(() => {
+    if (!vehicleId || !driverId) return
+
+    let subscription: Location.LocationSubscription | null = null
+    let stopped = false
+
+    const start = async () => {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync()
+        if (status !== 'granted' || stopped) return
+
+        VehicleTrackingService.resetThrottle(vehicleId)
+        const watcher = await Location.watchPositionAsync(
+          {
+            accuracy: Location.Accuracy.Balanced,
+            timeInterval: SAMPLE_INTERVAL_MS,
+            distanceInterval: SAMPLE_DISTANCE_METERS,
+          },
+          position => {
+            VehicleTrackingService.recordLocation({ vehicleId, driverId, tripId }, {
+              latitude: position.coords.latitude,
+              longitude: position.coords.longitude,
+              accuracy: position.coords.accuracy,
+              speed: position.coords.speed,
+              heading: position.coords.heading,
+              recordedAt: new Date(position.timestamp),
+            })
+          }
+        )
+
+        if (stopped) {
+          watcher.remove()
+        } else {
+          subscription = watcher
+          console.log('📍 [VehicleTracking] Tracking vehicle', vehicleId)
+        }
+      } catch (error) {
+        console.error('❌ [VehicleTracking] Could not start location tracking:', error)
+      }
+    }
+
+    start()
+
+    return () => {
+      stopped = true
+      subscription?.remove()
+    }
+  }, [vehicleId, driverId, tripId])
+}
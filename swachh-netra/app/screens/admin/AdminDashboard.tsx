@@ -18,6 +18,7 @@ import { FIREBASE_AUTH } from "../../../FirebaseConfig"
 import AdminSidebar from "../../components/AdminSidebar"
 import AdminHeader from "../../components/AdminHeader"
 import ProtectedRoute from "../../components/ProtectedRoute"
+import LiveVehiclesCard from "../../components/LiveVehiclesCard"
 import { useRequireAdmin } from "../../hooks/useRequireAuth"
 import { useQuickLogout } from "../../hooks/useLogout"
 
@@ -55,7 +56,7 @@ const AdminDashboard = ({ navigation }: any) => {
 
         // Get current user name
         const users = await ApprovalService.getAllUsers()
-        const currentUser = users.find(u => u.uid === user.uid)
+        const currentUser = users.find(u => u.id === user.uid)
         if (currentUser) {
           setUserName(currentUser.fullName || "Administrator")
         }
@@ -166,6 +167,15 @@ const AdminDashboard = ({ navigation }: any) => {
       bgColor: "#faf5ff",
       category: "System Overview"
     },
+    {
+      title: "Audit Log",
+      description: "Who changed what, and when",
+      screen: "AuditLog",
+      icon: "history",
+      color: "#0f766e",
+      bgColor: "#f0fdfa",
+      category: "System Overview"
+    },
     {
       title: "System Settings",
       description: "System configuration",
@@ -367,6 +377,11 @@ const AdminDashboard = ({ navigation }: any) => {
               </View>
             </Card>
           </View>
+
+          {/* Vehicle Locations */}
+          <View style={styles.section}>
+            <LiveVehiclesCard vehicleIds={null} emptyMessage="No vehicles registered yet" />
+          </View>
         </ScrollView>
 
         {/* Admin Sidebar */}
@@ -16,44 +16,168 @@ import AdminSidebar from "../../components/AdminSidebar"
 import ProtectedRoute from "../../components/ProtectedRoute"
 import { useRequireAdmin } from "../../hooks/useRequireAuth"
 import { useQuickLogout } from "../../hooks/useLogout"
+import { MigrationService, MigrationReport } from "../../../services/MigrationService"
+import { SettingsService, SettingsChange, SystemSettings } from "../../../services/SettingsService"
+import { WorkerAttendanceService } from "../../../services/WorkerAttendanceService"
+import { DEFAULT_SYSTEM_SETTINGS, SettingValue } from "../../../services/domain"
 
-interface SystemSettings {
-  maintenanceMode: boolean
-  allowNewRegistrations: boolean
-  requireApprovalForDrivers: boolean
-  requireApprovalForContractors: boolean
-  maxVehiclesPerContractor: number
-  maxFeederPointsPerContractor: number
-  systemNotifications: boolean
-  emailNotifications: boolean
-  smsNotifications: boolean
+const pad = (value: number) => String(value).padStart(2, "0")
+
+// Maintenance windows are entered as local "YYYY-MM-DD HH:mm"
+const formatDateTimeInput = (date: Date | null) =>
+  date
+    ? `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+    : ""
+
+// null for an empty field, undefined when the text is not a valid date and time
+const parseDateTimeInput = (text: string): Date | null | undefined => {
+  if (!text.trim()) return null
+  const match = text.trim().match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})$/)
+  if (!match) return undefined
+  const [, year, month, day, hours, minutes] = match.map(Number)
+  const date = new Date(year, month - 1, day, hours, minutes)
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : undefined
 }
 
+const formatSettingValue = (value: SettingValue) =>
+  value instanceof Date ? value.toLocaleString() : value === null || value === "" ? "—" : String(value)
+
 const AdminSettings = ({ navigation }: any) => {
   const { hasAccess, userData } = useRequireAdmin(navigation)
   const [sidebarVisible, setSidebarVisible] = useState(false)
   const [loading, setLoading] = useState(false)
-  const [settings, setSettings] = useState<SystemSettings>({
-    maintenanceMode: false,
-    allowNewRegistrations: true,
-    requireApprovalForDrivers: true,
-    requireApprovalForContractors: true,
-    maxVehiclesPerContractor: 10,
-    maxFeederPointsPerContractor: 20,
-    systemNotifications: true,
-    emailNotifications: true,
-    smsNotifications: false,
-  })
+  const [settings, setSettings] = useState<SystemSettings>({ ...DEFAULT_SYSTEM_SETTINGS })
+  const [history, setHistory] = useState<SettingsChange[]>([])
+  const [maintenanceStartText, setMaintenanceStartText] = useState("")
+  const [maintenanceEndText, setMaintenanceEndText] = useState("")
+
+  const [schemaVersion, setSchemaVersion] = useState(0)
+  const [pendingMigrations, setPendingMigrations] = useState(0)
 
   useEffect(() => {
     loadSettings()
+    loadSchemaStatus()
   }, [])
 
+  const loadSchemaStatus = async () => {
+    try {
+      const [currentVersion, pending] = await Promise.all([
+        MigrationService.getCurrentVersion(),
+        MigrationService.getPendingMigrations(),
+      ])
+      setSchemaVersion(currentVersion)
+      setPendingMigrations(pending.length)
+    } catch (error) {
+      console.error("Error loading schema status:", error)
+    }
+  }
+
+  const describeReports = (reports: MigrationReport[]) =>
+    reports.length === 0
+      ? "Nothing to do."
+      : reports.map(report => `#${report.version} ${report.name}: ${report.affected} of ${report.scanned} documents`).join("\n")
+
+  const runMigrations = async (dryRun: boolean) => {
+    try {
+      setLoading(true)
+      const reports = await MigrationService.migrate({ dryRun, appliedBy: userData?.uid })
+      Alert.alert(dryRun ? "Dry Run" : "Migrations Applied", describeReports(reports))
+      await loadSchemaStatus()
+    } catch (error) {
+      console.error("Error running migrations:", error)
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to run migrations")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const rollbackLastMigration = () => {
+    Alert.alert(
+      "Roll Back Migration",
+      `Undo schema migration #${schemaVersion}? Fields it added will be removed.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Roll Back",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              setLoading(true)
+              const reports = await MigrationService.rollback()
+              Alert.alert("Rolled Back", describeReports(reports))
+              await loadSchemaStatus()
+            } catch (error) {
+              console.error("Error rolling back migration:", error)
+              Alert.alert("Error", error instanceof Error ? error.message : "Failed to roll back migration")
+            } finally {
+              setLoading(false)
+            }
+          }
+        }
+      ]
+    )
+  }
+
+  // Preview what the reconciliation would change, then apply it on confirmation
+  const reconcileAttendance = async () => {
+    try {
+      setLoading(true)
+      const preview = await WorkerAttendanceService.reconcileAttendanceRecords({ dryRun: true })
+      setLoading(false)
+
+      if (preview.rewritten === 0 && preview.duplicatesArchived === 0) {
+        Alert.alert("Attendance Records", `All ${preview.scanned} records are up to date.`)
+        return
+      }
+
+      Alert.alert(
+        "Reconcile Attendance",
+        `${preview.rewritten} of ${preview.scanned} records will be rewritten and ` +
+        `${preview.duplicatesArchived} duplicates archived.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Reconcile",
+            onPress: async () => {
+              try {
+                setLoading(true)
+                const report = await WorkerAttendanceService.reconcileAttendanceRecords()
+                Alert.alert(
+                  "Attendance Reconciled",
+                  `Rewrote ${report.rewritten} records and archived ${report.duplicatesArchived} duplicates.`
+                )
+              } catch (error) {
+                console.error("Error reconciling attendance:", error)
+                Alert.alert("Error", error instanceof Error ? error.message : "Failed to reconcile attendance")
+              } finally {
+                setLoading(false)
+              }
+            }
+          }
+        ]
+      )
+    } catch (error) {
+      console.error("Error checking attendance records:", error)
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to check attendance records")
+      setLoading(false)
+    }
+  }
+
+  const applySettings = (nextSettings: SystemSettings) => {
+    setSettings(nextSettings)
+    setMaintenanceStartText(formatDateTimeInput(nextSettings.maintenanceStartsAt))
+    setMaintenanceEndText(formatDateTimeInput(nextSettings.maintenanceEndsAt))
+  }
+
   const loadSettings = async () => {
     try {
       setLoading(true)
-      // TODO: Load settings from Firestore
-      // For now, using default values
+      const [savedSettings, changes] = await Promise.all([
+        SettingsService.getSettings(),
+        SettingsService.getHistory(),
+      ])
+      applySettings(savedSettings)
+      setHistory(changes)
     } catch (error) {
       console.error("Error loading settings:", error)
       Alert.alert("Error", "Failed to load settings")
@@ -63,13 +187,25 @@ const AdminSettings = ({ navigation }: any) => {
   }
 
   const saveSettings = async () => {
+    const maintenanceStartsAt = parseDateTimeInput(maintenanceStartText)
+    const maintenanceEndsAt = parseDateTimeInput(maintenanceEndText)
+    if (maintenanceStartsAt === undefined || maintenanceEndsAt === undefined) {
+      Alert.alert("Invalid Date", "Enter maintenance times as YYYY-MM-DD HH:mm, or leave them empty")
+      return
+    }
+
     try {
       setLoading(true)
-      // TODO: Save settings to Firestore
+      const savedSettings = await SettingsService.updateSettings(
+        { ...settings, maintenanceStartsAt, maintenanceEndsAt },
+        userData?.uid || "admin"
+      )
+      applySettings(savedSettings)
+      setHistory(await SettingsService.getHistory())
       Alert.alert("Success", "Settings saved successfully")
     } catch (error) {
       console.error("Error saving settings:", error)
-      Alert.alert("Error", "Failed to save settings")
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to save settings")
     } finally {
       setLoading(false)
     }
@@ -84,19 +220,18 @@ const AdminSettings = ({ navigation }: any) => {
         {
           text: "Reset",
           style: "destructive",
-          onPress: () => {
-            setSettings({
-              maintenanceMode: false,
-              allowNewRegistrations: true,
-              requireApprovalForDrivers: true,
-              requireApprovalForContractors: true,
-              maxVehiclesPerContractor: 10,
-              maxFeederPointsPerContractor: 20,
-              systemNotifications: true,
-              emailNotifications: true,
-              smsNotifications: false,
-            })
-            Alert.alert("Success", "Settings reset to defaults")
+          onPress: async () => {
+            try {
+              setLoading(true)
+              applySettings(await SettingsService.resetToDefaults(userData?.uid || "admin"))
+              setHistory(await SettingsService.getHistory())
+              Alert.alert("Success", "Settings reset to defaults")
+            } catch (error) {
+              console.error("Error resetting settings:", error)
+              Alert.alert("Error", error instanceof Error ? error.message : "Failed to reset settings")
+            } finally {
+              setLoading(false)
+            }
           }
         }
       ]
@@ -175,7 +310,7 @@ const AdminSettings = ({ navigation }: any) => {
               <MaterialIcons name="menu" size={24} color="#374151" />
             </TouchableOpacity>
             <Text style={styles.headerTitle}>System Settings</Text>
-            <TouchableOpacity style={styles.saveButton} onPress={saveSettings}>
+            <TouchableOpacity style={styles.saveButton} onPress={saveSettings} disabled={loading}>
               <MaterialIcons name="save" size={24} color="#3b82f6" />
             </TouchableOpacity>
           </View>
@@ -193,6 +328,49 @@ const AdminSettings = ({ navigation }: any) => {
                 () => updateSetting("maintenanceMode", !settings.maintenanceMode),
                 "build"
               )}
+              <View style={styles.maintenanceDetails}>
+                <TextInput
+                  label="Message shown to users"
+                  value={settings.maintenanceMessage}
+                  onChangeText={(text) => updateSetting("maintenanceMessage", text)}
+                  mode="outlined"
+                  multiline
+                  dense
+                />
+                <Text style={styles.settingDescription}>
+                  Schedule a window in advance (YYYY-MM-DD HH:mm). The end time is shown to users as the ETA.
+                </Text>
+                <View style={styles.windowRow}>
+                  <TextInput
+                    label="Starts"
+                    value={maintenanceStartText}
+                    onChangeText={setMaintenanceStartText}
+                    placeholder="2025-01-31 22:00"
+                    style={styles.windowInput}
+                    mode="outlined"
+                    dense
+                  />
+                  <TextInput
+                    label="Ends"
+                    value={maintenanceEndText}
+                    onChangeText={setMaintenanceEndText}
+                    placeholder="2025-02-01 02:00"
+                    style={styles.windowInput}
+                    mode="outlined"
+                    dense
+                  />
+                </View>
+                {(maintenanceStartText !== "" || maintenanceEndText !== "") && (
+                  <TouchableOpacity
+                    onPress={() => {
+                      setMaintenanceStartText("")
+                      setMaintenanceEndText("")
+                    }}
+                  >
+                    <Text style={styles.clearWindowText}>Clear schedule</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
               <Divider />
               {renderSettingItem(
                 "Allow New Registrations",
@@ -232,7 +410,7 @@ const AdminSettings = ({ navigation }: any) => {
             <Card style={styles.settingsCard}>
               {renderNumberSetting(
                 "Max Vehicles per Contractor",
-                "Maximum vehicles a contractor can manage",
+                "Maximum vehicles a contractor can manage (0 for no limit)",
                 settings.maxVehiclesPerContractor,
                 (text) => updateSetting("maxVehiclesPerContractor", parseInt(text) || 0),
                 "local-shipping"
@@ -240,7 +418,7 @@ const AdminSettings = ({ navigation }: any) => {
               <Divider />
               {renderNumberSetting(
                 "Max Feeder Points per Contractor",
-                "Maximum feeder points a contractor can manage",
+                "Maximum feeder points a contractor can manage (0 for no limit)",
                 settings.maxFeederPointsPerContractor,
                 (text) => updateSetting("maxFeederPointsPerContractor", parseInt(text) || 0),
                 "location-on"
@@ -248,6 +426,72 @@ const AdminSettings = ({ navigation }: any) => {
             </Card>
           </View>
 
+          {/* Leave Entitlements */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Annual Leave</Text>
+            <Card style={styles.settingsCard}>
+              {renderNumberSetting(
+                "Casual Leave",
+                "Days per worker each calendar year",
+                settings.casualLeavePerYear,
+                (text) => updateSetting("casualLeavePerYear", parseInt(text) || 0),
+                "beach-access"
+              )}
+              <Divider />
+              {renderNumberSetting(
+                "Sick Leave",
+                "Days per worker each calendar year",
+                settings.sickLeavePerYear,
+                (text) => updateSetting("sickLeavePerYear", parseInt(text) || 0),
+                "healing"
+              )}
+              <Divider />
+              {renderNumberSetting(
+                "Earned Leave",
+                "Days per worker each calendar year",
+                settings.earnedLeavePerYear,
+                (text) => updateSetting("earnedLeavePerYear", parseInt(text) || 0),
+                "event-available"
+              )}
+            </Card>
+          </View>
+
+          {/* Attendance Location Checks */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Attendance Location Checks</Text>
+            <Card style={styles.settingsCard}>
+              {renderNumberSetting(
+                "Feeder Point Radius (m)",
+                "Present marks made further from the feeder point are flagged for HR (0 to turn off)",
+                settings.attendanceRadiusMeters,
+                (text) => updateSetting("attendanceRadiusMeters", parseInt(text) || 0),
+                "my-location"
+              )}
+              <Divider />
+              {renderNumberSetting(
+                "Minimum GPS Accuracy (m)",
+                "Marks with a less precise location fix are flagged for HR (0 to turn off)",
+                settings.attendanceMaxAccuracyMeters,
+                (text) => updateSetting("attendanceMaxAccuracyMeters", parseInt(text) || 0),
+                "gps-fixed"
+              )}
+            </Card>
+          </View>
+
+          {/* Missed Collections */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Missed Collections</Text>
+            <Card style={styles.settingsCard}>
+              {renderNumberSetting(
+                "Escalate After (hours)",
+                "Missed collections still unresolved after this long are escalated to admins (0 to turn off)",
+                settings.missedCollectionEscalationHours,
+                (text) => updateSetting("missedCollectionEscalationHours", parseInt(text) || 0),
+                "report-problem"
+              )}
+            </Card>
+          </View>
+
           {/* Notifications */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Notifications</Text>
@@ -278,6 +522,78 @@ const AdminSettings = ({ navigation }: any) => {
             </Card>
           </View>
 
+          {/* Change History */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Change History</Text>
+            <Card style={styles.infoCard}>
+              {history.length === 0 ? (
+                <View style={styles.historyItem}>
+                  <Text style={styles.settingDescription}>Settings have not been changed yet</Text>
+                </View>
+              ) : (
+                history.map(change => (
+                  <View key={change.id} style={styles.historyItem}>
+                    <Text style={styles.historyTime}>
+                      {change.changedAt.toLocaleString()}{change.changedBy === userData?.uid ? " • You" : ""}
+                    </Text>
+                    {Object.entries(change.changes).map(([key, { from, to }]) => (
+                      <Text key={key} style={styles.settingDescription}>
+                        {key}: {formatSettingValue(from)} → {formatSettingValue(to)}
+                      </Text>
+                    ))}
+                  </View>
+                ))
+              )}
+            </Card>
+          </View>
+
+          {/* Database Schema */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Database Schema</Text>
+            <Card style={styles.actionsCard}>
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>Schema Version:</Text>
+                <Text style={styles.infoValue}>
+                  {schemaVersion} ({pendingMigrations} pending)
+                </Text>
+              </View>
+              <Divider />
+              <TouchableOpacity style={styles.actionButton} onPress={() => runMigrations(true)} disabled={loading}>
+                <MaterialIcons name="fact-check" size={24} color="#3b82f6" />
+                <Text style={[styles.actionButtonText, { color: "#3b82f6" }]}>
+                  Dry Run Migrations
+                </Text>
+              </TouchableOpacity>
+              <Divider />
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => runMigrations(false)}
+                disabled={loading || pendingMigrations === 0}
+              >
+                <MaterialIcons name="upgrade" size={24} color="#059669" />
+                <Text style={[styles.actionButtonText, { color: "#059669" }]}>
+                  Apply Pending Migrations
+                </Text>
+              </TouchableOpacity>
+              <Divider />
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={rollbackLastMigration}
+                disabled={loading || schemaVersion === 0}
+              >
+                <MaterialIcons name="undo" size={24} color="#f59e0b" />
+                <Text style={[styles.actionButtonText, { color: "#f59e0b" }]}>
+                  Roll Back Last Migration
+                </Text>
+              </TouchableOpacity>
+              <Divider />
+              <TouchableOpacity style={styles.actionButton} onPress={reconcileAttendance} disabled={loading}>
+                <MaterialIcons name="cleaning-services" size={24} color="#3b82f6" />
+                <Text style={styles.actionButtonText}>Reconcile Attendance Records</Text>
+              </TouchableOpacity>
+            </Card>
+          </View>
+
           {/* Admin Actions */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Admin Actions</Text>
@@ -316,7 +632,7 @@ const AdminSettings = ({ navigation }: any) => {
               </View>
               <View style={styles.infoItem}>
                 <Text style={styles.infoLabel}>Last Updated:</Text>
-                <Text style={styles.infoValue}>{new Date().toLocaleDateString()}</Text>
+                <Text style={styles.infoValue}>{settings.updatedAt ? settings.updatedAt.toLocaleDateString() : "Never"}</Text>
               </View>
             </Card>
           </View>
@@ -418,6 +734,23 @@ const styles = StyleSheet.create({
     width: 80,
     height: 40,
   },
+  maintenanceDetails: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    gap: 8,
+  },
+  windowRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  windowInput: {
+    flex: 1,
+  },
+  clearWindowText: {
+    color: "#3b82f6",
+    fontSize: 13,
+    fontWeight: "500",
+  },
   actionsCard: {
     elevation: 2,
     shadowColor: "#000",
@@ -462,6 +795,17 @@ const styles = StyleSheet.create({
     color: "#111827",
     fontWeight: "500",
   },
+  historyItem: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  historyTime: {
+    fontSize: 12,
+    color: "#111827",
+    fontWeight: "500",
+    marginBottom: 4,
+  },
 })
 
 export default AdminSettings
@@ -8,8 +8,6 @@ import {
   StatusBar,
   Alert,
   RefreshControl,
-  Modal,
-  Image,
 } from "react-native"
 import { Card, Text, Button, Chip, Searchbar, DataTable } from "react-native-paper"
 import { MaterialIcons } from "@expo/vector-icons"
@@ -24,26 +22,17 @@ import {
 import { FIRESTORE_DB } from "../../../FirebaseConfig"
 import { useRequireAuth } from "../../hooks/useRequireAuth"
 import { WorkerAttendanceService } from "../../../services/WorkerAttendanceService"
+import { AttendanceRecord, attendanceFromDoc } from "../../../services/domain"
 import AdminHeader from "../../components/AdminHeader"
 import AdminSidebar from "../../components/AdminSidebar"
+import PhotoEvidenceModal from "../../components/PhotoEvidenceModal"
+import AttendanceExportModal from "../../components/AttendanceExportModal"
 
-interface AttendanceRecord {
+// Rows shown on the dashboard always carry an id and display names
+interface AttendanceRow extends AttendanceRecord {
   id: string
-  workerId: string
-  workerName: string
-  feederPointId: string
   feederPointName: string
-  driverId: string
   driverName: string
-  tripId: string
-  status: 'present' | 'absent'
-  timestamp: Date
-  location: {
-    latitude: number
-    longitude: number
-  }
-  photoUri?: string
-  notes?: string
 }
 
 interface AttendanceStats {
@@ -62,8 +51,8 @@ const AttendanceDashboard = ({ navigation }: any) => {
   const [loading, setLoading] = useState(false)
   const [refreshing, setRefreshing] = useState(false)
   const [searchQuery, setSearchQuery] = useState("")
-  const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([])
-  const [filteredRecords, setFilteredRecords] = useState<AttendanceRecord[]>([])
+  const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRow[]>([])
+  const [filteredRecords, setFilteredRecords] = useState<AttendanceRow[]>([])
   const [stats, setStats] = useState<AttendanceStats>({
     totalRecords: 0,
     presentCount: 0,
@@ -72,7 +61,7 @@ const AttendanceDashboard = ({ navigation }: any) => {
   })
   const [selectedDate, setSelectedDate] = useState(new Date())
   const [sidebarVisible, setSidebarVisible] = useState(false)
-  const [selectedPhoto, setSelectedPhoto] = useState<string | null>(null)
+  const [selectedPhoto, setSelectedPhoto] = useState<AttendanceRow | null>(null)
 
   // Enhanced filtering and management states
   const [viewMode, setViewMode] = useState<'day' | 'range' | 'monthly'>('day')
@@ -80,11 +69,12 @@ const AttendanceDashboard = ({ navigation }: any) => {
   const [endDate, setEndDate] = useState(new Date())
   const [selectedMonth, setSelectedMonth] = useState(new Date())
   const [employeeFilter, setEmployeeFilter] = useState("")
-  const [editingRecord, setEditingRecord] = useState<AttendanceRecord | null>(null)
+  const [editingRecord, setEditingRecord] = useState<AttendanceRow | null>(null)
   const [showEditModal, setShowEditModal] = useState(false)
   const [bulkMode, setBulkMode] = useState(false)
   const [selectedRecords, setSelectedRecords] = useState<Set<string>>(new Set())
   const [showBulkActions, setShowBulkActions] = useState(false)
+  const [showExportModal, setShowExportModal] = useState(false)
   const [showAnalytics, setShowAnalytics] = useState(false)
 
   useEffect(() => {
@@ -115,24 +105,16 @@ const AttendanceDashboard = ({ navigation }: any) => {
       )
 
       const attendanceSnapshot = await getDocs(attendanceQuery)
-      const records: AttendanceRecord[] = []
+      const records: AttendanceRow[] = []
 
       attendanceSnapshot.forEach((doc) => {
         const data = doc.data()
+        const record = attendanceFromDoc(doc.id, data)
         records.push({
+          ...record,
           id: doc.id,
-          workerId: data.workerId || "",
-          workerName: data.workerName || "Unknown Worker",
-          feederPointId: data.feederPointId || "",
-          feederPointName: data.feederPointName || "Unknown Point",
-          driverId: data.driverId || "",
-          driverName: data.driverName || "Unknown Driver",
-          tripId: data.tripId || "",
-          status: data.status || "absent",
-          timestamp: data.timestamp?.toDate() || new Date(),
-          location: data.location || { latitude: 0, longitude: 0 },
-          photoUri: data.photoUri,
-          notes: data.notes
+          feederPointName: record.feederPointName || "Unknown Point",
+          driverName: record.driverName || "Unknown Driver"
         })
       })
 
@@ -217,12 +199,12 @@ const AttendanceDashboard = ({ navigation }: any) => {
   }
 
   // Management functions
-  const handleEditRecord = (record: AttendanceRecord) => {
+  const handleEditRecord = (record: AttendanceRow) => {
     setEditingRecord(record)
     setShowEditModal(true)
   }
 
-  const handleUpdateRecord = async (updatedRecord: AttendanceRecord) => {
+  const handleUpdateRecord = async (updatedRecord: AttendanceRow) => {
     try {
       // Update the record in the database
       await WorkerAttendanceService.updateAttendanceRecord(updatedRecord.id, {
@@ -307,7 +289,11 @@ const AttendanceDashboard = ({ navigation }: any) => {
   }
 
   const exportAttendanceData = () => {
-    Alert.alert("Coming Soon", "Attendance export functionality will be implemented")
+    if (!hasPermission('canExportAttendanceData')) {
+      Alert.alert("Access Denied", "You don't have permission to export attendance data")
+      return
+    }
+    setShowExportModal(true)
   }
 
   if (loading && !refreshing) {
@@ -463,10 +449,10 @@ const AttendanceDashboard = ({ navigation }: any) => {
                     </View>
                   </View>
 
-                  {record.photoUri && (
+                  {record.photo && (
                     <TouchableOpacity
                       style={styles.photoButton}
-                      onPress={() => setSelectedPhoto(record.photoUri!)}
+                      onPress={() => setSelectedPhoto(record)}
                     >
                       <MaterialIcons name="photo" size={16} color="#2563eb" />
                       <Text style={styles.photoButtonText}>View Photo</Text>
@@ -484,31 +470,19 @@ const AttendanceDashboard = ({ navigation }: any) => {
       </ScrollView>
 
       {/* Photo Modal */}
-      <Modal
-        visible={!!selectedPhoto}
-        transparent={true}
-        animationType="fade"
-        onRequestClose={() => setSelectedPhoto(null)}
-      >
-        <View style={styles.photoModalContainer}>
-          <TouchableOpacity
-            style={styles.photoModalOverlay}
-            onPress={() => setSelectedPhoto(null)}
-          >
-            <View style={styles.photoModalContent}>
-              {selectedPhoto && (
-                <Image source={{ uri: selectedPhoto }} style={styles.photoModalImage} />
-              )}
-              <TouchableOpacity
-                style={styles.photoCloseButton}
-                onPress={() => setSelectedPhoto(null)}
-              >
-                <MaterialIcons name="close" size={24} color="#ffffff" />
-              </TouchableOpacity>
-            </View>
-          </TouchableOpacity>
-        </View>
-      </Modal>
+      <PhotoEvidenceModal
+        photo={selectedPhoto?.photo || null}
+        caption={selectedPhoto ? `${selectedPhoto.workerName} · marked by ${selectedPhoto.driverName || "driver"}` : undefined}
+        onClose={() => setSelectedPhoto(null)}
+      />
+
+      <AttendanceExportModal
+        visible={showExportModal}
+        records={filteredRecords}
+        startDate={selectedDate}
+        endDate={selectedDate}
+        onDismiss={() => setShowExportModal(false)}
+      />
 
       <AdminSidebar
         navigation={navigation}
@@ -693,31 +667,6 @@ const styles = StyleSheet.create({
     marginTop: 8,
     fontStyle: "italic",
   },
-  photoModalContainer: {
-    flex: 1,
-    backgroundColor: "rgba(0,0,0,0.9)",
-  },
-  photoModalOverlay: {
-    flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  photoModalContent: {
-    position: "relative",
-  },
-  photoModalImage: {
-    width: 300,
-    height: 400,
-    borderRadius: 8,
-  },
-  photoCloseButton: {
-    position: "absolute",
-    top: 10,
-    right: 10,
-    padding: 8,
-    backgroundColor: "rgba(0,0,0,0.5)",
-    borderRadius: 20,
-  },
 })
 
 export default AttendanceDashboard
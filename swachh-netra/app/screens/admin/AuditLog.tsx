@@ -0,0 +1,448 @@
+import React, { useState, useEffect, useCallback } from "react"
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  Platform,
+  Alert,
+} from "react-native"
+import { Card, Text, Chip, TextInput, Divider } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import ProtectedRoute from "../../components/ProtectedRoute"
+import { useRequireAdmin } from "../../hooks/useRequireAuth"
+import { AuditService, AuditEntityType, AuditEntry } from "../../../services/AuditService"
+import { AUDIT_ENTITY_TYPES } from "../../../services/domain"
+
+const ENTITY_LABELS: { [type in AuditEntityType]: string } = {
+  user: "Users",
+  vehicle: "Vehicles",
+  vehicleAssignment: "Vehicle Assignments",
+  feederPoint: "Feeder Points",
+  feederPointAssignment: "Point Assignments",
+  driverAssignment: "Driver Assignments",
+  rosterTemplate: "Roster Templates",
+  attendance: "Attendance",
+  attendanceCorrection: "Attendance Corrections",
+  workerApproval: "Worker Approvals",
+  approvalRequest: "Registrations",
+  shiftPolicy: "Shift Policies",
+  holiday: "Holidays",
+  leaveApplication: "Leave",
+  wageRate: "Wage Rates",
+  payrollRun: "Payroll",
+  payslip: "Payslips",
+  workerIdCard: "Worker ID Cards",
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DATE_PRESETS = [
+  { label: "Today", days: 1 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+]
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+const formatDateInput = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+// Dates are entered as local "YYYY-MM-DD"; null for an empty field, undefined when invalid
+const parseDateInput = (text: string): Date | null | undefined => {
+  if (!text.trim()) return null
+  const match = text.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (!match) return undefined
+  const [, year, month, day] = match.map(Number)
+  const date = new Date(year, month - 1, day)
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : undefined
+}
+
+const formatAction = (action: string) => action.replace("_", " ").toUpperCase()
+
+const getActionColor = (action: string) => {
+  switch (action) {
+    case "create":
+    case "assign":
+    case "approve": return "#10b981"
+    case "delete":
+    case "unassign":
+    case "reject": return "#ef4444"
+    case "role_change":
+    case "transfer": return "#8b5cf6"
+    default: return "#f59e0b"
+  }
+}
+
+const AuditLog = ({ navigation }: any) => {
+  const { hasAccess } = useRequireAdmin(navigation)
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [entityType, setEntityType] = useState<AuditEntityType | null>(null)
+  const [actorQuery, setActorQuery] = useState("")
+  const [fromText, setFromText] = useState(formatDateInput(new Date(Date.now() - 6 * DAY_MS)))
+  const [toText, setToText] = useState("")
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const loadEntries = useCallback(async () => {
+    const from = parseDateInput(fromText)
+    const to = parseDateInput(toText)
+    if (from === undefined || to === undefined) {
+      Alert.alert("Invalid Date", "Enter dates as YYYY-MM-DD")
+      return
+    }
+
+    try {
+      setEntries(await AuditService.getEntries({
+        entityType: entityType || undefined,
+        from: from || undefined,
+        // Include the whole of the last day
+        to: to ? new Date(to.getTime() + DAY_MS - 1) : undefined,
+      }, 200))
+    } catch (error) {
+      console.error("Error loading audit log:", error)
+      Alert.alert("Error", "Failed to load audit log")
+    }
+  }, [entityType, fromText, toText])
+
+  useEffect(() => {
+    if (!hasAccess) return
+    setLoading(true)
+    loadEntries().finally(() => setLoading(false))
+  }, [hasAccess, entityType])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadEntries()
+    setRefreshing(false)
+  }
+
+  const applyPreset = (days: number) => {
+    setFromText(formatDateInput(new Date(Date.now() - (days - 1) * DAY_MS)))
+    setToText("")
+  }
+
+  // Actors are matched on the loaded entries, by name, id or role
+  const actorLower = actorQuery.trim().toLowerCase()
+  const visibleEntries = actorLower
+    ? entries.filter(entry =>
+      entry.actorName.toLowerCase().includes(actorLower) ||
+      entry.actorId.toLowerCase().includes(actorLower) ||
+      entry.actorRole.toLowerCase().includes(actorLower)
+    )
+    : entries
+
+  const renderEntry = (entry: AuditEntry) => {
+    const expanded = expandedId === entry.id
+    const changes = Object.entries(entry.changes)
+
+    return (
+      <TouchableOpacity
+        key={entry.id}
+        onPress={() => setExpandedId(expanded ? null : entry.id)}
+        activeOpacity={0.7}
+      >
+        <Card style={styles.entryCard}>
+          <View style={styles.entryHeader}>
+            <Chip
+              style={[styles.actionChip, { backgroundColor: `${getActionColor(entry.action)}20` }]}
+              textStyle={[styles.actionText, { color: getActionColor(entry.action) }]}
+            >
+              {formatAction(entry.action)}
+            </Chip>
+            <Text style={styles.entityText}>{ENTITY_LABELS[entry.entityType]}</Text>
+            <MaterialIcons name={expanded ? "expand-less" : "expand-more"} size={20} color="#6b7280" />
+          </View>
+
+          {!!entry.summary && <Text style={styles.summaryText}>{entry.summary}</Text>}
+
+          <View style={styles.metaRow}>
+            <MaterialIcons name="person" size={14} color="#6b7280" />
+            <Text style={styles.metaText}>
+              {entry.actorName || entry.actorId}{entry.actorRole ? ` (${entry.actorRole})` : ""}
+            </Text>
+          </View>
+          <View style={styles.metaRow}>
+            <MaterialIcons name="schedule" size={14} color="#6b7280" />
+            <Text style={styles.metaText}>{entry.timestamp.toLocaleString()}</Text>
+            <MaterialIcons name="smartphone" size={14} color="#6b7280" style={styles.metaIcon} />
+            <Text style={styles.metaText}>{entry.device}</Text>
+          </View>
+
+          {expanded && (
+            <>
+              <Divider style={styles.divider} />
+              <Text style={styles.metaText}>ID: {entry.entityId}</Text>
+              {changes.length === 0 ? (
+                <Text style={styles.metaText}>No field changes recorded</Text>
+              ) : (
+                changes.map(([field, { from, to }]) => (
+                  <Text key={field} style={styles.changeText}>
+                    {field}: {from === null ? "—" : String(from)} → {to === null ? "—" : String(to)}
+                  </Text>
+                ))
+              )}
+            </>
+          )}
+        </Card>
+      </TouchableOpacity>
+    )
+  }
+
+  return (
+    <ProtectedRoute requiredRole="admin" navigation={navigation}>
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <MaterialIcons name="arrow-back" size={24} color="#111827" />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Audit Log</Text>
+            <Text style={styles.headerSubtitle}>Who changed what, and when</Text>
+          </View>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Filters */}
+          <Card style={styles.filterCard}>
+            <Text style={styles.filterLabel}>Entity</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <Chip
+                selected={entityType === null}
+                onPress={() => setEntityType(null)}
+                style={styles.filterChip}
+              >
+                All
+              </Chip>
+              {AUDIT_ENTITY_TYPES.map(type => (
+                <Chip
+                  key={type}
+                  selected={entityType === type}
+                  onPress={() => setEntityType(type)}
+                  style={styles.filterChip}
+                >
+                  {ENTITY_LABELS[type]}
+                </Chip>
+              ))}
+            </ScrollView>
+
+            <Text style={styles.filterLabel}>Date range</Text>
+            <View style={styles.presetRow}>
+              {DATE_PRESETS.map(preset => (
+                <Chip key={preset.label} onPress={() => applyPreset(preset.days)} style={styles.filterChip}>
+                  {preset.label}
+                </Chip>
+              ))}
+            </View>
+            <View style={styles.dateRow}>
+              <TextInput
+                mode="outlined"
+                label="From"
+                placeholder="YYYY-MM-DD"
+                value={fromText}
+                onChangeText={setFromText}
+                style={styles.dateInput}
+                dense
+              />
+              <TextInput
+                mode="outlined"
+                label="To"
+                placeholder="YYYY-MM-DD"
+                value={toText}
+                onChangeText={setToText}
+                style={styles.dateInput}
+                dense
+              />
+            </View>
+
+            <TextInput
+              mode="outlined"
+              label="Actor"
+              placeholder="Name, user ID or role"
+              value={actorQuery}
+              onChangeText={setActorQuery}
+              left={<TextInput.Icon icon="account-search" />}
+              dense
+            />
+
+            <TouchableOpacity style={styles.applyButton} onPress={onRefresh}>
+              <MaterialIcons name="search" size={18} color="#ffffff" />
+              <Text style={styles.applyButtonText}>Search</Text>
+            </TouchableOpacity>
+          </Card>
+
+          {loading ? (
+            <Text style={styles.emptyText}>Loading audit log...</Text>
+          ) : visibleEntries.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="history" size={48} color="#9ca3af" />
+              <Text style={styles.emptyText}>No changes match these filters</Text>
+            </View>
+          ) : (
+            <>
+              <Text style={styles.countText}>{visibleEntries.length} entries</Text>
+              {visibleEntries.map(renderEntry)}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </ProtectedRoute>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  filterCard: {
+    padding: 16,
+    marginBottom: 16,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  filterLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 8,
+    marginTop: 4,
+  },
+  filterChip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  presetRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  dateRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginBottom: 12,
+  },
+  dateInput: {
+    flex: 1,
+  },
+  applyButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    backgroundColor: "#3b82f6",
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 12,
+  },
+  applyButtonText: {
+    color: "#ffffff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  countText: {
+    fontSize: 13,
+    color: "#6b7280",
+    marginBottom: 8,
+  },
+  entryCard: {
+    padding: 14,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  entryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  actionChip: {
+    height: 28,
+  },
+  actionText: {
+    fontSize: 11,
+    fontWeight: "bold",
+  },
+  entityText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  summaryText: {
+    fontSize: 14,
+    color: "#374151",
+    marginTop: 8,
+  },
+  metaRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 6,
+  },
+  metaIcon: {
+    marginLeft: 12,
+  },
+  metaText: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  divider: {
+    marginVertical: 10,
+  },
+  changeText: {
+    fontSize: 13,
+    color: "#111827",
+    marginTop: 4,
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+    textAlign: "center",
+    marginTop: 12,
+  },
+})
+
+export default AuditLog
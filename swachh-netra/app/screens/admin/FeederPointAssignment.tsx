@@ -308,7 +308,7 @@ const FeederPointAssignmentScreen = ({ navigation }: any) => {
       ])
     } catch (error) {
       console.error("Error assigning feeder point:", error)
-      Alert.alert("Error", "Failed to assign feeder point")
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to assign feeder point")
     } finally {
       setLoading(false)
     }
@@ -10,23 +10,62 @@ import {
   Alert,
   Image,
 } from "react-native"
-import { Card, Text, TextInput, Button } from "react-native-paper"
+import { Card, Text, TextInput, Button, Chip, Modal, Portal } from "react-native-paper"
 import { MaterialIcons } from "@expo/vector-icons"
 import * as ImagePicker from "expo-image-picker"
 import * as Location from "expo-location"
 import { FIREBASE_AUTH } from "../../../FirebaseConfig"
 import AdminSidebar from "../../components/AdminSidebar"
 import AdminHeader from "../../components/AdminHeader"
-import { FeederPointService, FeederPoint } from "../../../services/FeederPointService"
+import { FeederPointService, FeederPoint, CollectionSchedule } from "../../../services/FeederPointService"
+import {
+  DEFAULT_COLLECTION_SCHEDULE,
+  WEEKDAY_LABELS,
+  collectionScheduleProblem,
+  formatTimeWindows,
+  parseTimeWindows
+} from "../../../services/domain"
 import ProtectedRoute from "../../components/ProtectedRoute"
 import { useRequireAdmin } from "../../hooks/useRequireAuth"
 
+interface ScheduleForm {
+  tripsPerDay: string
+  timeWindows: string
+  collectionDays: number[]
+}
+
+const toScheduleForm = (schedule: CollectionSchedule = DEFAULT_COLLECTION_SCHEDULE): ScheduleForm => ({
+  tripsPerDay: String(schedule.tripsPerDay),
+  timeWindows: formatTimeWindows(schedule.timeWindows),
+  collectionDays: [...schedule.collectionDays],
+})
+
+// The schedule typed into the form, or why it cannot be saved
+const scheduleFromForm = (form: ScheduleForm): CollectionSchedule | string => {
+  const timeWindows = parseTimeWindows(form.timeWindows)
+  if (!timeWindows) return "Time windows must look like 06:00-10:00, 14:00-18:00"
+  const schedule = {
+    tripsPerDay: Number(form.tripsPerDay),
+    timeWindows,
+    collectionDays: [...form.collectionDays].sort((a, b) => a - b),
+  }
+  return collectionScheduleProblem(schedule) ?? schedule
+}
+
+const describeSchedule = (schedule: CollectionSchedule = DEFAULT_COLLECTION_SCHEDULE) => [
+  `${schedule.tripsPerDay} trip${schedule.tripsPerDay === 1 ? "" : "s"}/day`,
+  schedule.collectionDays.length === 7 ? "Every day" : schedule.collectionDays.map(day => WEEKDAY_LABELS[day]).join(", "),
+  schedule.timeWindows.length > 0 ? formatTimeWindows(schedule.timeWindows) : "Any time",
+].join(" · ")
+
 const FeederPointManagement = ({ navigation }: any) => {
   const { hasAccess, userData } = useRequireAdmin(navigation)
   const [sidebarVisible, setSidebarVisible] = useState(false)
   const [loading, setLoading] = useState(false)
   const [feederPoints, setFeederPoints] = useState<FeederPoint[]>([])
   const [showForm, setShowForm] = useState(false)
+  const [scheduleForm, setScheduleForm] = useState<ScheduleForm>(toScheduleForm())
+  const [schedulePoint, setSchedulePoint] = useState<FeederPoint | null>(null)
 
   // Form state
   const [formData, setFormData] = useState<Partial<FeederPoint>>({
@@ -53,6 +92,7 @@ const FeederPointManagement = ({ navigation }: any) => {
   useEffect(() => {
     if (!showForm) {
       // Reset form when closing
+      setScheduleForm(toScheduleForm())
       setFormData({
         areaName: "",
         areaDescription: "",
@@ -166,6 +206,12 @@ const FeederPointManagement = ({ navigation }: any) => {
       return false
     }
 
+    const schedule = scheduleFromForm(scheduleForm)
+    if (typeof schedule === "string") {
+      Alert.alert("Validation Error", schedule)
+      return false
+    }
+
     return true
   }
 
@@ -179,6 +225,7 @@ const FeederPointManagement = ({ navigation }: any) => {
       const user = FIREBASE_AUTH.currentUser
       const feederPointData = {
         ...formData,
+        collectionSchedule: scheduleFromForm(scheduleForm) as CollectionSchedule,
         createdBy: user?.uid || "admin",
       } as Omit<FeederPoint, "id" | "createdAt" | "isActive">
 
@@ -221,6 +268,78 @@ const FeederPointManagement = ({ navigation }: any) => {
     setFormData(prev => ({ ...prev, [field]: value }))
   }
 
+  const toggleCollectionDay = (day: number) => {
+    setScheduleForm(prev => ({
+      ...prev,
+      collectionDays: prev.collectionDays.includes(day)
+        ? prev.collectionDays.filter(selected => selected !== day)
+        : [...prev.collectionDays, day],
+    }))
+  }
+
+  const openScheduleEditor = (point: FeederPoint) => {
+    setScheduleForm(toScheduleForm(point.collectionSchedule))
+    setSchedulePoint(point)
+  }
+
+  const saveSchedule = async () => {
+    if (!schedulePoint?.id) return
+    const schedule = scheduleFromForm(scheduleForm)
+    if (typeof schedule === "string") {
+      Alert.alert("Validation Error", schedule)
+      return
+    }
+
+    try {
+      setLoading(true)
+      await FeederPointService.updateCollectionSchedule(schedulePoint.id, schedule, userData?.uid || "admin")
+      setSchedulePoint(null)
+      setScheduleForm(toScheduleForm())
+      fetchFeederPoints()
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to update collection schedule")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const renderScheduleFields = () => (
+    <>
+      <TextInput
+        label="Trips per Day *"
+        value={scheduleForm.tripsPerDay}
+        onChangeText={(text) => setScheduleForm(prev => ({ ...prev, tripsPerDay: text }))}
+        style={styles.input}
+        mode="outlined"
+        keyboardType="numeric"
+      />
+
+      <TextInput
+        label="Allowed Time Windows"
+        value={scheduleForm.timeWindows}
+        onChangeText={(text) => setScheduleForm(prev => ({ ...prev, timeWindows: text }))}
+        style={styles.input}
+        mode="outlined"
+        placeholder="e.g., 06:00-10:00, 14:00-18:00"
+      />
+      <Text style={styles.scheduleHint}>Leave empty to allow trips at any time of day</Text>
+
+      <Text style={styles.locationLabel}>Collection Days</Text>
+      <View style={styles.dayChips}>
+        {WEEKDAY_LABELS.map((label, day) => (
+          <Chip
+            key={label}
+            selected={scheduleForm.collectionDays.includes(day)}
+            onPress={() => toggleCollectionDay(day)}
+            style={styles.dayChip}
+          >
+            {label}
+          </Chip>
+        ))}
+      </View>
+    </>
+  )
+
   return (
     <ProtectedRoute requiredRole="admin" navigation={navigation}>
       <SafeAreaView style={styles.container}>
@@ -362,6 +481,14 @@ const FeederPointManagement = ({ navigation }: any) => {
                 </View>
               </Card>
 
+              {/* Collection Schedule */}
+              <Card style={styles.formCard}>
+                <View style={styles.cardContent}>
+                  <Text style={styles.cardTitle}>Collection Schedule</Text>
+                  {renderScheduleFields()}
+                </View>
+              </Card>
+
               {/* Location & Photo */}
               <Card style={styles.formCard}>
                 <View style={styles.cardContent}>
@@ -464,6 +591,13 @@ const FeederPointManagement = ({ navigation }: any) => {
                       <Text style={styles.pointHouseholds}>{point.approximateHouseholds} households</Text>
                       <Text style={styles.pointVehicles}>{point.vehicleTypes}</Text>
                     </View>
+                    <View style={styles.pointSchedule}>
+                      <MaterialIcons name="schedule" size={16} color="#6b7280" />
+                      <Text style={styles.pointScheduleText}>{describeSchedule(point.collectionSchedule)}</Text>
+                      <TouchableOpacity onPress={() => openScheduleEditor(point)}>
+                        <Text style={styles.editScheduleText}>Edit</Text>
+                      </TouchableOpacity>
+                    </View>
                   </View>
                 </Card>
               ))}
@@ -481,6 +615,27 @@ const FeederPointManagement = ({ navigation }: any) => {
           )}
         </ScrollView>
 
+        <Portal>
+          <Modal
+            visible={!!schedulePoint}
+            onDismiss={() => setSchedulePoint(null)}
+            contentContainerStyle={styles.scheduleModal}
+          >
+            <ScrollView>
+              <Text style={styles.cardTitle}>Collection Schedule · {schedulePoint?.feederPointName}</Text>
+              {renderScheduleFields()}
+              <View style={styles.scheduleActions}>
+                <Button mode="outlined" onPress={() => setSchedulePoint(null)} style={styles.photoButton}>
+                  Cancel
+                </Button>
+                <Button mode="contained" onPress={saveSchedule} loading={loading} style={styles.photoButton}>
+                  Save Schedule
+                </Button>
+              </View>
+            </ScrollView>
+          </Modal>
+        </Portal>
+
         {/* Admin Sidebar */}
         <AdminSidebar
           navigation={navigation}
@@ -690,6 +845,52 @@ const styles = StyleSheet.create({
     color: "#f59e0b",
     fontWeight: "500",
   },
+  pointSchedule: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+  },
+  pointScheduleText: {
+    flex: 1,
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  editScheduleText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#3b82f6",
+  },
+  scheduleHint: {
+    fontSize: 12,
+    color: "#9ca3af",
+    marginTop: -12,
+    marginBottom: 16,
+  },
+  dayChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 8,
+  },
+  dayChip: {
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  scheduleModal: {
+    backgroundColor: "#ffffff",
+    margin: 20,
+    padding: 20,
+    borderRadius: 12,
+    maxHeight: "85%",
+  },
+  scheduleActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 12,
+  },
   emptyCard: {
     backgroundColor: "#ffffff",
     borderRadius: 12,
@@ -135,10 +135,10 @@ const SwachhHRManagement = ({ navigation }: { navigation: any }) => {
           email: user.email,
           phone: user.phoneNumber || "",
           role: "swachh_hr" as const,
-          department: "General", // Default since not in UserData interface
+          department: user.department || "General",
           isActive: user.isActive !== false,
-          createdAt: user.createdAt?.toDate?.()?.toISOString?.() || new Date().toISOString(),
-          lastLogin: user.lastLogin?.toDate?.()?.toISOString?.() || "Never",
+          createdAt: user.createdAt.toISOString(),
+          lastLogin: user.lastLogin?.toISOString() || "Never",
         }))
 
       setUsers(swachhHRUsers)
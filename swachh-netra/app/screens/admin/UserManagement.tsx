@@ -21,49 +21,25 @@ import {
     query,
     where,
     orderBy,
-    doc,
-    updateDoc,
-    deleteDoc,
     addDoc,
     setDoc
 } from 'firebase/firestore';
-import { createUserWithEmailAndPassword } from 'firebase/auth';
 import { FIREBASE_AUTH, FIRESTORE_DB } from '../../../FirebaseConfig';
-import { ApprovalService } from '../../../services/ApprovalService';
+import { ApprovalService, ApprovalRequest } from '../../../services/ApprovalService';
+import { User, userFromDoc } from '../../../services/domain';
 import ProtectedRoute from '../../components/ProtectedRoute';
 import { useRequireAdmin } from '../../hooks/useRequireAuth';
+import { presentActivationCode } from '../../utils/activationCode';
 
 const { width, height } = Dimensions.get('window');
 
-interface User {
-    id: string;
-    fullName: string;
-    email: string;
-    phone: string;
-    role: string;
-    isActive: boolean;
-    createdAt: string;
-}
-
-interface ApprovalRequest {
-    id?: string;
-    fullName: string;
-    email: string;
-    phone: string;
-    role: string;
-    password: string;
-    requestedAt: string;
-    status: string;
-    approver: string;
-    approverType: string;
-}
-
 const UserManagement = ({ navigation }: any) => {
     const { hasAccess, userData } = useRequireAdmin(navigation);
     const [refreshing, setRefreshing] = useState(false);
     const [loading, setLoading] = useState(true);
     const [users, setUsers] = useState<User[]>([]);
     const [approvalRequests, setApprovalRequests] = useState<ApprovalRequest[]>([]);
+    const [awaitingActivation, setAwaitingActivation] = useState<ApprovalRequest[]>([]);
     const [selectedTab, setSelectedTab] = useState('overview');
     const [searchQuery, setSearchQuery] = useState('');
     const [roleFilter, setRoleFilter] = useState<string>('all');
@@ -92,6 +68,7 @@ const UserManagement = ({ navigation }: any) => {
         try {
             const usersList = await fetchUsers();
             const requestsList = await fetchApprovalRequests();
+            const awaitingList = await ApprovalService.getAwaitingActivationRequests('admin').catch(() => []);
 
             const stats = {
                 totalUsers: usersList.length,
@@ -105,6 +82,7 @@ const UserManagement = ({ navigation }: any) => {
 
             setUsers(usersList);
             setApprovalRequests(requestsList);
+            setAwaitingActivation(awaitingList);
             setUserStats(stats);
         } catch (error) {
             console.error('Error fetching data:', error);
@@ -121,10 +99,7 @@ const UserManagement = ({ navigation }: any) => {
                 orderBy('createdAt', 'desc')
             );
             const usersSnapshot = await getDocs(usersQuery);
-            return usersSnapshot.docs.map(doc => ({
-                id: doc.id,
-                ...doc.data()
-            })) as User[];
+            return usersSnapshot.docs.map(doc => userFromDoc(doc.id, doc.data()));
         } catch (error) {
             console.error('Error fetching users:', error);
             return [];
@@ -148,8 +123,8 @@ const UserManagement = ({ navigation }: any) => {
                 return;
             }
 
-            await ApprovalService.approveRequest(request.id!, currentUser.uid);
-            Alert.alert('Success', `${request.fullName}'s account has been approved and created.`);
+            const grant = await ApprovalService.approveRequest(request.id!, currentUser.uid);
+            presentActivationCode(grant, request.fullName);
             fetchData();
         } catch (error) {
             console.error('Error approving request:', error);
@@ -157,6 +132,23 @@ const UserManagement = ({ navigation }: any) => {
         }
     };
 
+    const handleReissueCode = async (request: ApprovalRequest) => {
+        try {
+            const currentUser = FIREBASE_AUTH.currentUser;
+            if (!currentUser) {
+                Alert.alert('Error', 'You must be logged in to issue activation codes');
+                return;
+            }
+
+            const grant = await ApprovalService.reissueActivationCode(request.id!, currentUser.uid);
+            presentActivationCode(grant, request.fullName);
+            fetchData();
+        } catch (error) {
+            console.error('Error reissuing activation code:', error);
+            Alert.alert('Error', 'Failed to issue a new activation code');
+        }
+    };
+
     const handleRejectRequest = async (request: ApprovalRequest) => {
         Alert.alert(
             'Reject Request',
@@ -189,10 +181,7 @@ const UserManagement = ({ navigation }: any) => {
 
     const toggleUserStatus = async (user: User) => {
         try {
-            await updateDoc(doc(FIRESTORE_DB, 'users', user.id), {
-                isActive: !user.isActive,
-                updatedAt: new Date().toISOString()
-            });
+            await ApprovalService.updateUserStatus(user.id, !user.isActive);
             Alert.alert('Success', `User ${user.isActive ? 'deactivated' : 'activated'} successfully.`);
             fetchUsers();
         } catch (error) {
@@ -223,7 +212,7 @@ const UserManagement = ({ navigation }: any) => {
                     style: 'destructive',
                     onPress: async () => {
                         try {
-                            await deleteDoc(doc(FIRESTORE_DB, 'users', user.id));
+                            await ApprovalService.deleteUser(user.id);
                             Alert.alert('Success', 'User deleted successfully');
                             fetchUsers();
                         } catch (error) {
@@ -240,10 +229,7 @@ const UserManagement = ({ navigation }: any) => {
         if (!selectedUser || !newRole) return;
 
         try {
-            await updateDoc(doc(FIRESTORE_DB, 'users', selectedUser.id), {
-                role: newRole,
-                updatedAt: new Date().toISOString()
-            });
+            await ApprovalService.updateUserRole(selectedUser.id, newRole);
             Alert.alert('Success', 'User role updated successfully.');
             setShowRoleModal(false);
             setSelectedUser(null);
@@ -407,6 +393,40 @@ const UserManagement = ({ navigation }: any) => {
                     </Card>
                 ))
             )}
+
+            {awaitingActivation.length > 0 && (
+                <>
+                    <Text style={styles.sectionTitle}>Awaiting Activation</Text>
+                    {awaitingActivation.map((request) => {
+                        const expired = !!request.activationExpiresAt && new Date(request.activationExpiresAt) < new Date();
+                        return (
+                            <Card key={request.id} style={styles.requestCard}>
+                                <View style={styles.requestHeader}>
+                                    <View style={styles.requestInfo}>
+                                        <Text style={styles.requestName}>{request.fullName}</Text>
+                                        <Text style={styles.requestDetailText}>{request.email}</Text>
+                                    </View>
+                                    <TouchableOpacity
+                                        style={styles.approveButton}
+                                        onPress={() => handleReissueCode(request)}
+                                    >
+                                        <MaterialIcons name="vpn-key" size={20} color="#fff" />
+                                        <Text style={styles.approveButtonText}>New Code</Text>
+                                    </TouchableOpacity>
+                                </View>
+                                {request.activationExpiresAt && (
+                                    <View style={styles.requestDetailRow}>
+                                        <MaterialIcons name="schedule" size={16} color={expired ? '#ef4444' : '#6b7280'} />
+                                        <Text style={styles.requestDetailText}>
+                                            {expired ? 'Code expired' : 'Code valid until'} {new Date(request.activationExpiresAt).toLocaleDateString()}
+                                        </Text>
+                                    </View>
+                                )}
+                            </Card>
+                        );
+                    })}
+                </>
+            )}
         </View>
     );
 
@@ -414,7 +434,7 @@ const UserManagement = ({ navigation }: any) => {
         const searchLower = searchQuery.toLowerCase();
         const matchesSearch = (user.fullName || '').toLowerCase().includes(searchLower) ||
             (user.email || '').toLowerCase().includes(searchLower) ||
-            (user.phone || '').toLowerCase().includes(searchLower);
+            (user.phoneNumber || '').toLowerCase().includes(searchLower);
         const matchesRole = roleFilter === 'all' || user.role === roleFilter;
         const matchesStatus = statusFilter === 'all' ||
             (statusFilter === 'active' && user.isActive) ||
@@ -520,12 +540,12 @@ const UserManagement = ({ navigation }: any) => {
                             </View>
                             <View style={styles.userDetailRow}>
                                 <MaterialIcons name="phone" size={16} color="#6b7280" />
-                                <Text style={styles.userDetailText}>{user.phone}</Text>
+                                <Text style={styles.userDetailText}>{user.phoneNumber}</Text>
                             </View>
                             <View style={styles.userDetailRow}>
                                 <MaterialIcons name="schedule" size={16} color="#6b7280" />
                                 <Text style={styles.userDetailText}>
-                                    Joined {new Date(user.createdAt).toLocaleDateString()}
+                                    Joined {user.createdAt.toLocaleDateString()}
                                 </Text>
                             </View>
                         </View>
@@ -720,7 +740,7 @@ const UserManagement = ({ navigation }: any) => {
                                         </View>
                                         <View style={styles.userDetailItem}>
                                             <Text style={styles.userDetailLabel}>Phone</Text>
-                                            <Text style={styles.userDetailValue}>{selectedUserDetail.phone}</Text>
+                                            <Text style={styles.userDetailValue}>{selectedUserDetail.phoneNumber}</Text>
                                         </View>
                                     </View>
 
@@ -751,7 +771,7 @@ const UserManagement = ({ navigation }: any) => {
                                         <View style={styles.userDetailItem}>
                                             <Text style={styles.userDetailLabel}>Joined Date</Text>
                                             <Text style={styles.userDetailValue}>
-                                                {new Date(selectedUserDetail.createdAt).toLocaleDateString('en-US', {
+                                                {selectedUserDetail.createdAt.toLocaleDateString('en-US', {
                                                     year: 'numeric',
                                                     month: 'long',
                                                     day: 'numeric'
@@ -915,6 +935,13 @@ const styles = StyleSheet.create({
         marginTop: 8,
     },
     // Request card styles
+    sectionTitle: {
+        fontSize: 16,
+        fontWeight: 'bold',
+        color: '#1f2937',
+        marginTop: 8,
+        marginBottom: 12,
+    },
     requestCard: {
         marginBottom: 16,
         borderRadius: 12,
@@ -401,7 +401,7 @@ const VehicleAssignmentScreen = ({ navigation }: any) => {
       ])
     } catch (error) {
       console.error("Error assigning vehicle:", error)
-      Alert.alert("Error", "Failed to assign vehicle")
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to assign vehicle")
     } finally {
       setLoading(false)
     }
@@ -15,6 +15,7 @@ import { MaterialIcons } from "@expo/vector-icons"
 import { FIREBASE_AUTH } from "../../../FirebaseConfig"
 import AdminSidebar from "../../components/AdminSidebar"
 import { VehicleService, Vehicle } from "../../../services/VehicleService"
+import { parseCoordinates } from "../../../services/domain"
 import ProtectedRoute from "../../components/ProtectedRoute"
 import { useRequireAdmin } from "../../hooks/useRequireAuth"
 
@@ -37,6 +38,7 @@ const VehicleManagement = ({ navigation }: any) => {
     model: "",
     year: "",
     fuelType: "diesel",
+    depot: "",
   })
 
   const vehicleTypes = [
@@ -118,6 +120,11 @@ const VehicleManagement = ({ navigation }: any) => {
       return false
     }
 
+    if (formData.depot.trim() && !parseCoordinates(formData.depot)) {
+      Alert.alert("Validation Error", "Depot must be latitude, longitude (e.g., 19.0760, 72.8777)")
+      return false
+    }
+
     return true
   }
 
@@ -139,6 +146,7 @@ const VehicleManagement = ({ navigation }: any) => {
         model: formData.model.trim(),
         year: formData.year ? formData.year.toString() : new Date().getFullYear().toString(),
         fuelType: formData.fuelType as "diesel" | "petrol" | "electric" | "cng",
+        depot: parseCoordinates(formData.depot),
         registrationDate: new Date(),
         createdBy: user?.uid || "admin",
         isActive: formData.status === "active",
@@ -168,6 +176,7 @@ const VehicleManagement = ({ navigation }: any) => {
         model: "",
         year: "",
         fuelType: "diesel",
+        depot: "",
       })
       fetchVehicles()
     } catch (error) {
@@ -190,6 +199,7 @@ const VehicleManagement = ({ navigation }: any) => {
       model: vehicle.model || "",
       year: vehicle.year ? vehicle.year.toString() : "",
       fuelType: vehicle.fuelType || "diesel",
+      depot: vehicle.depot ? `${vehicle.depot.latitude}, ${vehicle.depot.longitude}` : "",
     })
     setShowForm(true)
   }
@@ -437,6 +447,16 @@ const VehicleManagement = ({ navigation }: any) => {
                     placeholder="e.g., Garbage Truck, Compactor"
                   />
 
+                  <TextInput
+                    label="Depot (latitude, longitude)"
+                    value={formData.depot}
+                    onChangeText={(text) => updateFormField("depot", text)}
+                    style={styles.input}
+                    mode="outlined"
+                    placeholder="e.g., 19.0760, 72.8777"
+                    keyboardType="numbers-and-punctuation"
+                  />
+
                   <View style={styles.statusContainer}>
                     <Text style={styles.statusLabel}>Status</Text>
                     <View style={styles.statusButtons}>
@@ -476,6 +496,7 @@ const VehicleManagement = ({ navigation }: any) => {
                           model: "",
                           year: "",
                           fuelType: "diesel",
+                          depot: "",
                         })
                       }}
                       style={styles.cancelButton}
@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import {
+    Text,
+    TextInput,
+    View,
+    TouchableOpacity,
+    Alert,
+    ActivityIndicator,
+    ScrollView,
+    StatusBar,
+    KeyboardAvoidingView,
+    Platform,
+    StyleSheet
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useNavigation } from '@react-navigation/native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { signOut } from 'firebase/auth';
+import { FIREBASE_AUTH } from '../../../FirebaseConfig';
+import { ApprovalService } from '../../../services/ApprovalService';
+
+// Approved applicants redeem the code from their approver and choose their password here
+const ActivateAccount = () => {
+    const navigation = useNavigation();
+    const [email, setEmail] = useState('');
+    const [code, setCode] = useState('');
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [loading, setLoading] = useState(false);
+
+    const handleActivate = async () => {
+        if (!email || !code || !password) {
+            Alert.alert('Error', 'Please fill in all fields');
+            return;
+        }
+
+        if (password !== confirmPassword) {
+            Alert.alert('Error', 'Passwords do not match');
+            return;
+        }
+
+        if (password.length < 6) {
+            Alert.alert('Error', 'Password should be at least 6 characters long');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            await ApprovalService.activateAccount(email, code, password);
+            // Start from a clean sign-in so the app loads the new profile like any other login
+            await signOut(FIREBASE_AUTH);
+
+            Alert.alert(
+                'Account Activated',
+                'Your account is ready. Sign in with your email and new password.',
+                [{ text: 'OK', onPress: () => navigation.navigate('Login' as never) }]
+            );
+        } catch (error) {
+            console.log('Activation error:', error);
+            Alert.alert('Activation Failed', (error as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const renderInput = (
+        icon: keyof typeof MaterialIcons.glyphMap,
+        label: string,
+        value: string,
+        onChangeText: (value: string) => void,
+        options: Partial<React.ComponentProps<typeof TextInput>> = {}
+    ) => (
+        <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>{label}</Text>
+            <View style={styles.inputWrapper}>
+                <MaterialIcons name={icon} size={20} color="#3b82f6" style={styles.inputIcon} />
+                <TextInput
+                    value={value}
+                    onChangeText={onChangeText}
+                    style={styles.input}
+                    placeholderTextColor="#9ca3af"
+                    autoCapitalize='none'
+                    editable={!loading}
+                    {...options}
+                />
+            </View>
+        </View>
+    );
+
+    return (
+        <KeyboardAvoidingView
+            style={styles.container}
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+            <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+                <LinearGradient
+                    colors={['#0f172a', '#1e293b', '#334155']}
+                    style={styles.header}
+                    start={{ x: 0, y: 0 }}
+                    end={{ x: 1, y: 1 }}
+                >
+                    <MaterialIcons name="vpn-key" size={40} color="#fff" />
+                    <Text style={styles.title}>Activate Your Account</Text>
+                    <Text style={styles.subtitle}>
+                        Enter the activation code you received after your registration was approved
+                    </Text>
+                </LinearGradient>
+
+                <View style={styles.form}>
+                    {renderInput('email', 'Email', email, setEmail, {
+                        placeholder: 'The email you registered with',
+                        keyboardType: 'email-address'
+                    })}
+                    {renderInput('confirmation-number', 'Activation Code', code, setCode, {
+                        placeholder: 'XXXX-XXXX',
+                        autoCapitalize: 'characters'
+                    })}
+                    {renderInput('lock', 'New Password', password, setPassword, {
+                        placeholder: 'Minimum 6 characters',
+                        secureTextEntry: true
+                    })}
+                    {renderInput('lock-outline', 'Confirm Password', confirmPassword, setConfirmPassword, {
+                        placeholder: 'Confirm your password',
+                        secureTextEntry: true
+                    })}
+
+                    <TouchableOpacity
+                        style={[styles.submitButton, loading && styles.buttonDisabled]}
+                        onPress={handleActivate}
+                        disabled={loading}
+                        activeOpacity={0.8}
+                    >
+                        {loading ? (
+                            <ActivityIndicator color="#fff" size="small" />
+                        ) : (
+                            <Text style={styles.submitButtonText}>Activate Account</Text>
+                        )}
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={styles.backLink}
+                        onPress={() => navigation.navigate('Login' as never)}
+                    >
+                        <Text style={styles.backLinkText}>Back to Sign In</Text>
+                    </TouchableOpacity>
+                </View>
+            </ScrollView>
+        </KeyboardAvoidingView>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8fafc',
+    },
+    scrollContainer: {
+        flexGrow: 1,
+    },
+    header: {
+        alignItems: 'center',
+        paddingTop: 80,
+        paddingBottom: 40,
+        paddingHorizontal: 24,
+    },
+    title: {
+        fontSize: 24,
+        fontWeight: 'bold',
+        color: '#fff',
+        marginTop: 16,
+    },
+    subtitle: {
+        fontSize: 14,
+        color: '#cbd5e1',
+        textAlign: 'center',
+        marginTop: 8,
+        lineHeight: 20,
+    },
+    form: {
+        padding: 24,
+    },
+    inputContainer: {
+        marginBottom: 16,
+    },
+    inputLabel: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#374151',
+        marginBottom: 8,
+    },
+    inputWrapper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#fff',
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: '#e5e7eb',
+        paddingHorizontal: 12,
+    },
+    inputIcon: {
+        marginRight: 8,
+    },
+    input: {
+        flex: 1,
+        paddingVertical: 14,
+        fontSize: 16,
+        color: '#111827',
+    },
+    submitButton: {
+        backgroundColor: '#3b82f6',
+        borderRadius: 12,
+        paddingVertical: 16,
+        alignItems: 'center',
+        marginTop: 8,
+    },
+    buttonDisabled: {
+        opacity: 0.6,
+    },
+    submitButtonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    backLink: {
+        alignItems: 'center',
+        marginTop: 20,
+    },
+    backLinkText: {
+        color: '#3b82f6',
+        fontSize: 14,
+        fontWeight: '600',
+    },
+});
+
+export default ActivateAccount;
@@ -609,6 +609,18 @@ const Login = () => {
                                 </Text>
                             </TouchableOpacity>
                         </View>
+
+                        {isLogin && (
+                            <View style={[styles.switchContainer, styles.activationLink]}>
+                                <Text style={styles.switchText}>Approved? </Text>
+                                <TouchableOpacity
+                                    onPress={() => navigation.navigate('ActivateAccount' as never)}
+                                    activeOpacity={0.7}
+                                >
+                                    <Text style={styles.switchButtonText}>Activate your account</Text>
+                                </TouchableOpacity>
+                            </View>
+                        )}
                     </View>
                 </Animated.View>
 
@@ -945,6 +957,9 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         flexWrap: 'wrap',
     },
+    activationLink: {
+        marginTop: 12,
+    },
     switchText: {
         fontSize: 14,
         color: '#666',
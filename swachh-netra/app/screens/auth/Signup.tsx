@@ -16,9 +16,11 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { createUserWithEmailAndPassword } from 'firebase/auth';
-import { doc, setDoc, collection, getDocs, query, where } from 'firebase/firestore';
-import { FIREBASE_AUTH, FIRESTORE_DB } from '../../../FirebaseConfig';
+import { doc, setDoc, collection, getDocs, query, where, FIRESTORE_DB } from '../../../services/firestore';
+import { FIREBASE_AUTH } from '../../../FirebaseConfig';
 import { ApprovalService } from '../../../services/ApprovalService';
+import { SettingsService } from '../../../services/SettingsService';
+import { useSystemSettings } from '../../hooks/useSystemSettings';
 import { StyleSheet } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { MaterialIcons } from '@expo/vector-icons';
@@ -41,6 +43,10 @@ const Signup = () => {
     const [selectedContractor, setSelectedContractor] = useState('');
     const navigation = useNavigation();
     const auth = FIREBASE_AUTH;
+    const { settings } = useSystemSettings();
+    const registrationsClosed = settings !== null && !settings.allowNewRegistrations && formData.role !== 'admin';
+    // Applicants who need approval choose their password later, when they activate their account
+    const needsApproval = formData.role !== 'admin' && (settings === null || SettingsService.requiresApproval(settings, formData.role));
 
     // Animation values
     const fadeAnim = useState(new Animated.Value(0))[0];
@@ -148,17 +154,17 @@ const Signup = () => {
 
     const handleSignup = async () => {
         // Validation
-        if (!formData.fullName || !formData.email || !formData.password || !formData.phone) {
+        if (!formData.fullName || !formData.email || !formData.phone || (!needsApproval && !formData.password)) {
             Alert.alert('Error', 'Please fill in all required fields');
             return;
         }
 
-        if (formData.password !== formData.confirmPassword) {
+        if (!needsApproval && formData.password !== formData.confirmPassword) {
             Alert.alert('Error', 'Passwords do not match');
             return;
         }
 
-        if (formData.password.length < 6) {
+        if (!needsApproval && formData.password.length < 6) {
             Alert.alert('Error', 'Password should be at least 6 characters long');
             return;
         }
@@ -177,8 +183,16 @@ const Signup = () => {
 
         setLoading(true);
         try {
-            // For admin role, create account directly (with secret key validation)
-            if (formData.role === 'admin') {
+            const currentSettings = await SettingsService.assertRegistrationOpen(formData.role);
+
+            // Admins (with secret key validation) and roles that do not need approval get their account directly
+            if (formData.role === 'admin' || !SettingsService.requiresApproval(currentSettings, formData.role)) {
+                if (!formData.password) {
+                    // Approval was switched off while the form was open
+                    Alert.alert('Error', 'Please choose a password for your account');
+                    return;
+                }
+
                 const userCredential = await createUserWithEmailAndPassword(
                     auth,
                     formData.email,
@@ -195,12 +209,13 @@ const Signup = () => {
                     role: formData.role,
                     createdAt: new Date().toISOString(),
                     isActive: true,
-                    permissions: getRolePermissions(formData.role)
+                    permissions: getRolePermissions(formData.role),
+                    ...(formData.role === 'driver' ? { contractorId: selectedContractor } : {})
                 });
 
                 Alert.alert(
                     'Success',
-                    'Admin account created successfully!',
+                    `${roles.find(r => r.value === formData.role)?.label} account created successfully!`,
                     [{ text: 'OK', onPress: () => navigation.navigate('Login' as never) }]
                 );
             } else {
@@ -210,7 +225,6 @@ const Signup = () => {
                     email: formData.email,
                     phone: formData.phone,
                     role: formData.role,
-                    password: formData.password, // Store temporarily for approval
                     requestedAt: new Date().toISOString(),
                     status: 'pending' as const,
                     approver: formData.role === 'driver' ? selectedContractor : 'admin',
@@ -225,7 +239,7 @@ const Signup = () => {
 
                 Alert.alert(
                     'Request Submitted',
-                    `Your ${roles.find(r => r.value === formData.role)?.label} registration request has been submitted for approval by ${approverText}. You will be notified once approved.`,
+                    `Your ${roles.find(r => r.value === formData.role)?.label} registration request has been submitted for approval by ${approverText}. Once approved you will receive an activation code, which you use to set your password.`,
                     [{ text: 'OK', onPress: () => navigation.navigate('Login' as never) }]
                 );
             }
@@ -494,90 +508,98 @@ const Signup = () => {
                     </View>
 
                     {/* Security Section */}
-                    <View style={styles.sectionContainer}>
-                        <Text style={styles.sectionTitle}>
-                            <MaterialIcons name="security" size={18} color="#374151" /> Security Information
-                        </Text>
-
-                        {/* Password Input */}
-                        <View style={styles.inputContainer}>
-                            <Text style={styles.inputLabel}>
-                                <MaterialIcons name="lock" size={16} color="#374151" /> Password
-                            </Text>
-                            <Animated.View style={[
-                                styles.inputWrapper,
-                                focusedField === 'password' && styles.inputWrapperFocused,
-                                {
-                                    transform: [{ scale: focusedField === 'password' ? 1.02 : 1 }],
-                                }
-                            ]}>
-                                <View style={styles.inputIconContainer}>
-                                    <MaterialIcons name="lock" size={20} color="#3b82f6" />
-                                </View>
-                                <TextInput
-                                    secureTextEntry={true}
-                                    value={formData.password}
-                                    style={styles.input}
-                                    placeholder='Create a secure password'
-                                    placeholderTextColor="#9ca3af"
-                                    autoCapitalize='none'
-                                    onChangeText={(value) => updateFormData('password', value)}
-                                    editable={!loading}
-                                    onFocus={() => setFocusedField('password')}
-                                    onBlur={() => setFocusedField('')}
-                                />
-                                {formData.password.length >= 6 && (
-                                    <MaterialIcons
-                                        name="check-circle"
-                                        size={20}
-                                        color="#10b981"
-                                        style={styles.validationIcon}
-                                    />
-                                )}
-                            </Animated.View>
+                    {needsApproval ? (
+                        <View style={styles.sectionContainer}>
                             <Text style={styles.passwordHint}>
-                                <MaterialIcons name="info" size={14} color="#6b7280" /> Minimum 6 characters required
+                                <MaterialIcons name="vpn-key" size={14} color="#6b7280" /> You will set your password after approval, using the activation code your approver gives you.
                             </Text>
                         </View>
-
-                        {/* Confirm Password Input */}
-                        <View style={styles.inputContainer}>
-                            <Text style={styles.inputLabel}>
-                                <MaterialIcons name="lock-outline" size={16} color="#374151" /> Confirm Password
+                    ) : (
+                        <View style={styles.sectionContainer}>
+                            <Text style={styles.sectionTitle}>
+                                <MaterialIcons name="security" size={18} color="#374151" /> Security Information
                             </Text>
-                            <Animated.View style={[
-                                styles.inputWrapper,
-                                focusedField === 'confirmPassword' && styles.inputWrapperFocused,
-                                {
-                                    transform: [{ scale: focusedField === 'confirmPassword' ? 1.02 : 1 }],
-                                }
-                            ]}>
-                                <View style={styles.inputIconContainer}>
-                                    <MaterialIcons name="lock-outline" size={20} color="#3b82f6" />
-                                </View>
-                                <TextInput
-                                    secureTextEntry={true}
-                                    value={formData.confirmPassword}
-                                    style={styles.input}
-                                    placeholder='Confirm your password'
-                                    placeholderTextColor="#9ca3af"
-                                    autoCapitalize='none'
-                                    onChangeText={(value) => updateFormData('confirmPassword', value)}
-                                    editable={!loading}
-                                    onFocus={() => setFocusedField('confirmPassword')}
-                                    onBlur={() => setFocusedField('')}
-                                />
-                                {formData.password === formData.confirmPassword && formData.confirmPassword.length > 0 && (
-                                    <MaterialIcons
-                                        name="check-circle"
-                                        size={20}
-                                        color="#10b981"
-                                        style={styles.validationIcon}
+
+                            {/* Password Input */}
+                            <View style={styles.inputContainer}>
+                                <Text style={styles.inputLabel}>
+                                    <MaterialIcons name="lock" size={16} color="#374151" /> Password
+                                </Text>
+                                <Animated.View style={[
+                                    styles.inputWrapper,
+                                    focusedField === 'password' && styles.inputWrapperFocused,
+                                    {
+                                        transform: [{ scale: focusedField === 'password' ? 1.02 : 1 }],
+                                    }
+                                ]}>
+                                    <View style={styles.inputIconContainer}>
+                                        <MaterialIcons name="lock" size={20} color="#3b82f6" />
+                                    </View>
+                                    <TextInput
+                                        secureTextEntry={true}
+                                        value={formData.password}
+                                        style={styles.input}
+                                        placeholder='Create a secure password'
+                                        placeholderTextColor="#9ca3af"
+                                        autoCapitalize='none'
+                                        onChangeText={(value) => updateFormData('password', value)}
+                                        editable={!loading}
+                                        onFocus={() => setFocusedField('password')}
+                                        onBlur={() => setFocusedField('')}
                                     />
-                                )}
-                            </Animated.View>
+                                    {formData.password.length >= 6 && (
+                                        <MaterialIcons
+                                            name="check-circle"
+                                            size={20}
+                                            color="#10b981"
+                                            style={styles.validationIcon}
+                                        />
+                                    )}
+                                </Animated.View>
+                                <Text style={styles.passwordHint}>
+                                    <MaterialIcons name="info" size={14} color="#6b7280" /> Minimum 6 characters required
+                                </Text>
+                            </View>
+
+                            {/* Confirm Password Input */}
+                            <View style={styles.inputContainer}>
+                                <Text style={styles.inputLabel}>
+                                    <MaterialIcons name="lock-outline" size={16} color="#374151" /> Confirm Password
+                                </Text>
+                                <Animated.View style={[
+                                    styles.inputWrapper,
+                                    focusedField === 'confirmPassword' && styles.inputWrapperFocused,
+                                    {
+                                        transform: [{ scale: focusedField === 'confirmPassword' ? 1.02 : 1 }],
+                                    }
+                                ]}>
+                                    <View style={styles.inputIconContainer}>
+                                        <MaterialIcons name="lock-outline" size={20} color="#3b82f6" />
+                                    </View>
+                                    <TextInput
+                                        secureTextEntry={true}
+                                        value={formData.confirmPassword}
+                                        style={styles.input}
+                                        placeholder='Confirm your password'
+                                        placeholderTextColor="#9ca3af"
+                                        autoCapitalize='none'
+                                        onChangeText={(value) => updateFormData('confirmPassword', value)}
+                                        editable={!loading}
+                                        onFocus={() => setFocusedField('confirmPassword')}
+                                        onBlur={() => setFocusedField('')}
+                                    />
+                                    {formData.password === formData.confirmPassword && formData.confirmPassword.length > 0 && (
+                                        <MaterialIcons
+                                            name="check-circle"
+                                            size={20}
+                                            color="#10b981"
+                                            style={styles.validationIcon}
+                                        />
+                                    )}
+                                </Animated.View>
+                            </View>
                         </View>
-                    </View>
+                    )}
 
                     {/* Role Selection Section */}
                     <View style={styles.sectionContainer}>
@@ -754,11 +776,17 @@ const Signup = () => {
                         </View>
                     )}
 
+                    {registrationsClosed && (
+                        <Text style={styles.registrationsClosedNote}>
+                            <MaterialIcons name="block" size={14} color="#dc2626" /> New registrations are currently closed
+                        </Text>
+                    )}
+
                     {/* Submit Button */}
                     <TouchableOpacity
-                        style={[styles.submitButtonContainer, loading && styles.buttonDisabled]}
+                        style={[styles.submitButtonContainer, (loading || registrationsClosed) && styles.buttonDisabled]}
                         onPress={handleSignup}
-                        disabled={loading}
+                        disabled={loading || registrationsClosed}
                         activeOpacity={0.8}
                     >
                         <LinearGradient
@@ -1133,6 +1161,12 @@ const styles = StyleSheet.create({
         marginBottom: 16,
         lineHeight: 20,
     },
+    registrationsClosedNote: {
+        fontSize: 13,
+        color: '#dc2626',
+        textAlign: 'center',
+        marginBottom: 12,
+    },
     adminSecretNote: {
         fontSize: 12,
         color: '#d97706',
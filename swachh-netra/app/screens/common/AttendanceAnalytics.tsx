@@ -35,6 +35,10 @@ interface AnalyticsData {
     lowAttendanceDays: string[]
     averageCheckInTime: string
     lateArrivalRate: number
+    earlyDepartureRate: number
+    halfDayRate: number
+    averageWorkedHours: number
+    overtimeHours: number
   }
 }
 
@@ -314,6 +318,26 @@ const AttendanceAnalytics = ({ navigation }: any) => {
                 </View>
               </View>
 
+              <View style={styles.insightItem}>
+                <MaterialIcons name="timelapse" size={24} color="#8b5cf6" />
+                <View style={styles.insightContent}>
+                  <Text style={styles.insightTitle}>Early Departures & Half Days</Text>
+                  <Text style={styles.insightText}>
+                    {insights.earlyDepartureRate.toFixed(1)}% leave early, {insights.halfDayRate.toFixed(1)}% count as half days
+                  </Text>
+                </View>
+              </View>
+
+              <View style={styles.insightItem}>
+                <MaterialIcons name="work-history" size={24} color="#0891b2" />
+                <View style={styles.insightContent}>
+                  <Text style={styles.insightTitle}>Worked Hours</Text>
+                  <Text style={styles.insightText}>
+                    {insights.averageWorkedHours.toFixed(1)} hours per checked-out day, {insights.overtimeHours.toFixed(1)} overtime hours in total
+                  </Text>
+                </View>
+              </View>
+
               <View style={styles.insightItem}>
                 <MaterialIcons name="access-time" size={24} color="#3b82f6" />
                 <View style={styles.insightContent}>
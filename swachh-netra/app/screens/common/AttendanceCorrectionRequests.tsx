@@ -0,0 +1,321 @@
+import React, { useState, useEffect, useCallback } from "react"
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  Platform,
+  Alert,
+} from "react-native"
+import { Card, Text, Chip } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import ProtectedRoute from "../../components/ProtectedRoute"
+import CorrectionRequestModal, { CorrectableRecord } from "../../components/CorrectionRequestModal"
+import { useRequireAuth } from "../../hooks/useRequireAuth"
+import {
+  AttendanceCorrectionService,
+  AttendanceCorrection,
+} from "../../../services/AttendanceCorrectionService"
+import { AttendanceRecord, WithId, correctionRequesterRoleOf } from "../../../services/domain"
+
+type Tab = "records" | "requests"
+
+const STATUS_COLORS = {
+  pending: "#f59e0b",
+  approved: "#10b981",
+  rejected: "#ef4444",
+}
+
+const formatTime = (date?: Date) =>
+  date ? date.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" }) : "—"
+
+// Where drivers and contractors pick a recent mark to correct and follow what HR decided
+const AttendanceCorrectionRequests = ({ navigation }: any) => {
+  const { hasAccess, userData } = useRequireAuth(navigation, { requiredPermission: "canRequestAttendanceCorrections" })
+  const [tab, setTab] = useState<Tab>("records")
+  const [records, setRecords] = useState<WithId<AttendanceRecord>[]>([])
+  const [requests, setRequests] = useState<WithId<AttendanceCorrection>[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [correctingRecord, setCorrectingRecord] = useState<CorrectableRecord | null>(null)
+
+  const loadData = useCallback(async () => {
+    if (!userData?.uid) return
+    try {
+      const [recordList, requestList] = await Promise.all([
+        AttendanceCorrectionService.getCorrectableRecords(userData.uid, correctionRequesterRoleOf(userData.role) ?? "driver"),
+        AttendanceCorrectionService.getCorrectionsRequestedBy(userData.uid),
+      ])
+      setRecords(recordList)
+      setRequests(requestList)
+    } catch (error) {
+      console.error("Error loading correction requests:", error)
+      Alert.alert("Error", "Failed to load attendance records")
+    }
+  }, [userData?.uid])
+
+  useEffect(() => {
+    if (!hasAccess) return
+    setLoading(true)
+    loadData().finally(() => setLoading(false))
+  }, [hasAccess, loadData])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadData()
+    setRefreshing(false)
+  }
+
+  const pendingRecordIds = new Set(requests.filter(request => request.status === "pending").map(request => request.recordId))
+
+  const renderRecord = (record: WithId<AttendanceRecord>) => {
+    const pending = pendingRecordIds.has(record.id)
+    return (
+      <Card key={record.id} style={styles.itemCard}>
+        <View style={styles.itemHeader}>
+          <View style={styles.itemTitle}>
+            <Text style={styles.workerName}>{record.workerName}</Text>
+            <Text style={styles.itemMeta}>
+              {record.attendanceDate}{record.feederPointName ? ` · ${record.feederPointName}` : ""}
+            </Text>
+          </View>
+          <Chip
+            style={[styles.statusChip, { backgroundColor: record.status === "present" ? "#10b98120" : "#ef444420" }]}
+            textStyle={[styles.statusChipText, { color: record.status === "present" ? "#10b981" : "#ef4444" }]}
+          >
+            {record.status.toUpperCase()}
+          </Chip>
+        </View>
+        {record.status === "present" && (
+          <Text style={styles.itemDetail}>
+            {formatTime(record.checkInTime ?? record.timestamp)} – {formatTime(record.checkOutTime)}
+          </Text>
+        )}
+        {record.corrections && record.corrections.length > 0 && (
+          <Text style={styles.itemDetail}>Corrected {record.corrections.length} time(s)</Text>
+        )}
+        <TouchableOpacity
+          style={styles.requestButton}
+          disabled={pending}
+          onPress={() => setCorrectingRecord({
+            id: record.id,
+            workerName: record.workerName,
+            attendanceDate: record.attendanceDate,
+            status: record.status,
+            checkInTime: record.checkInTime ?? record.timestamp,
+            checkOutTime: record.checkOutTime,
+          })}
+        >
+          <MaterialIcons name={pending ? "hourglass-empty" : "edit-note"} size={18} color={pending ? "#9ca3af" : "#3b82f6"} />
+          <Text style={[styles.requestButtonText, pending && styles.requestButtonTextDisabled]}>
+            {pending ? "Waiting for HR" : "Request correction"}
+          </Text>
+        </TouchableOpacity>
+      </Card>
+    )
+  }
+
+  const renderRequest = (request: WithId<AttendanceCorrection>) => (
+    <Card key={request.id} style={styles.itemCard}>
+      <View style={styles.itemHeader}>
+        <View style={styles.itemTitle}>
+          <Text style={styles.workerName}>{request.workerName}</Text>
+          <Text style={styles.itemMeta}>{request.attendanceDate} · sent {request.createdAt.toLocaleDateString()}</Text>
+        </View>
+        <Chip
+          style={[styles.statusChip, { backgroundColor: STATUS_COLORS[request.status] + "20" }]}
+          textStyle={[styles.statusChipText, { color: STATUS_COLORS[request.status] }]}
+        >
+          {request.status.toUpperCase()}
+        </Chip>
+      </View>
+      <Text style={styles.itemDetail}>“{request.reason}”</Text>
+      {request.reviewNote && (
+        <Text style={styles.reviewNote}>HR: {request.reviewNote}</Text>
+      )}
+    </Card>
+  )
+
+  const list = tab === "records" ? records : requests
+
+  return (
+    <ProtectedRoute requiredPermission="canRequestAttendanceCorrections" navigation={navigation}>
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <MaterialIcons name="arrow-back" size={24} color="#111827" />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Attendance Corrections</Text>
+            <Text style={styles.headerSubtitle}>Ask HR to fix a mistaken mark</Text>
+          </View>
+        </View>
+
+        <View style={styles.tabs}>
+          <Chip selected={tab === "records"} onPress={() => setTab("records")} style={styles.tabChip}>
+            Last 7 Days
+          </Chip>
+          <Chip selected={tab === "requests"} onPress={() => setTab("requests")} style={styles.tabChip}>
+            My Requests ({requests.length})
+          </Chip>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          showsVerticalScrollIndicator={false}
+        >
+          {loading ? (
+            <Text style={styles.emptyText}>Loading...</Text>
+          ) : list.length === 0 ? (
+            <Card style={styles.emptyCard}>
+              <MaterialIcons name="fact-check" size={48} color="#9ca3af" />
+              <Text style={styles.emptyText}>
+                {tab === "records" ? "No attendance marked in the last 7 days" : "You have not requested any corrections"}
+              </Text>
+            </Card>
+          ) : tab === "records" ? (
+            records.map(renderRecord)
+          ) : (
+            requests.map(renderRequest)
+          )}
+        </ScrollView>
+
+        {userData?.uid && (
+          <CorrectionRequestModal
+            record={correctingRecord}
+            requestedBy={userData.uid}
+            onDismiss={() => setCorrectingRecord(null)}
+            onSubmitted={() => {
+              setCorrectingRecord(null)
+              loadData()
+            }}
+          />
+        )}
+      </SafeAreaView>
+    </ProtectedRoute>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  tabs: {
+    flexDirection: "row",
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  tabChip: {
+    marginRight: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  itemCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  itemHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  itemTitle: {
+    flex: 1,
+  },
+  workerName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  itemDetail: {
+    fontSize: 13,
+    color: "#4b5563",
+    marginTop: 8,
+  },
+  reviewNote: {
+    fontSize: 13,
+    color: "#111827",
+    fontWeight: "500",
+    marginTop: 6,
+  },
+  statusChip: {
+    height: 28,
+  },
+  statusChipText: {
+    fontSize: 11,
+    fontWeight: "bold",
+  },
+  requestButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-end",
+    gap: 4,
+    marginTop: 8,
+    padding: 4,
+  },
+  requestButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#3b82f6",
+  },
+  requestButtonTextDisabled: {
+    color: "#9ca3af",
+  },
+  emptyCard: {
+    padding: 32,
+    alignItems: "center",
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+    textAlign: "center",
+    marginTop: 12,
+  },
+})
+
+export default AttendanceCorrectionRequests
@@ -0,0 +1,417 @@
+import React, { useState, useEffect, useCallback } from "react"
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  Platform,
+  Alert,
+} from "react-native"
+import { Card, Text, Chip, TextInput, Modal, Portal } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import ProtectedRoute from "../../components/ProtectedRoute"
+import { useRequireAuth } from "../../hooks/useRequireAuth"
+import {
+  MissedCollectionService,
+  MissedCollection,
+  MissedCollectionCheck,
+  MissedCollectionRateRow,
+  MISSED_COLLECTION_LOOKBACK_DAYS,
+} from "../../../services/MissedCollectionService"
+import { WithId, formatRouteTime } from "../../../services/domain"
+
+type Tab = "open" | "resolved" | "contractors" | "wards"
+
+const STATUS_COLORS = {
+  open: "#f59e0b",
+  escalated: "#ef4444",
+  resolved: "#10b981",
+}
+
+const rateColor = (rate: number) => rate >= 0.1 ? "#ef4444" : rate > 0 ? "#f59e0b" : "#10b981"
+
+const dueTimeOf = (incident: MissedCollection) =>
+  formatRouteTime(incident.dueBy.getHours() * 60 + incident.dueBy.getMinutes())
+
+// Assigned feeder points that had no completed trip by the end of their window. Admins see every
+// contractor's; a contractor sees their own. Opening the screen runs the check, which also
+// escalates incidents left open too long.
+const MissedCollections = ({ navigation }: any) => {
+  const { hasAccess, userData } = useRequireAuth(navigation, { requiredPermission: "canReviewMissedCollections" })
+  const contractorId = userData?.role === "transport_contractor" ? userData.uid : undefined
+  const [tab, setTab] = useState<Tab>("open")
+  const [check, setCheck] = useState<MissedCollectionCheck | null>(null)
+  const [incidents, setIncidents] = useState<WithId<MissedCollection>[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [resolving, setResolving] = useState<WithId<MissedCollection> | null>(null)
+  const [resolutionNote, setResolutionNote] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const tabs: { key: Tab, label: string }[] = [
+    { key: "open", label: "Open" },
+    { key: "resolved", label: "Resolved" },
+    ...(contractorId ? [] : [{ key: "contractors" as Tab, label: "Contractors" }]),
+    { key: "wards", label: "Wards" },
+  ]
+
+  const loadData = useCallback(async () => {
+    if (!userData?.uid) return
+    try {
+      const result = await MissedCollectionService.runCheck({ contractorId })
+      setCheck(result)
+      setIncidents(await MissedCollectionService.getIncidents({ contractorId }))
+    } catch (error) {
+      console.error("Error checking missed collections:", error)
+      Alert.alert("Error", "Failed to check missed collections")
+    }
+  }, [userData?.uid, contractorId])
+
+  useEffect(() => {
+    if (!hasAccess) return
+    setLoading(true)
+    loadData().finally(() => setLoading(false))
+  }, [hasAccess, loadData])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadData()
+    setRefreshing(false)
+  }
+
+  const resolveIncident = async () => {
+    if (!resolving || !userData?.uid) return
+    try {
+      setSaving(true)
+      await MissedCollectionService.resolveIncident(resolving.id, userData.uid, resolutionNote)
+      setResolving(null)
+      setIncidents(await MissedCollectionService.getIncidents({ contractorId }))
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to resolve the missed collection")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderIncident = (incident: WithId<MissedCollection>) => (
+    <Card key={incident.id} style={styles.itemCard}>
+      <View style={styles.itemHeader}>
+        <View style={styles.itemTitle}>
+          <Text style={styles.itemName}>{incident.feederPointName}</Text>
+          <Text style={styles.itemMeta}>
+            {incident.assignmentDate} · due by {dueTimeOf(incident)}
+            {incident.wardNumber ? ` · Ward ${incident.wardNumber}` : ""}
+          </Text>
+        </View>
+        <Chip
+          style={[styles.statusChip, { backgroundColor: `${STATUS_COLORS[incident.status]}20` }]}
+          textStyle={[styles.statusChipText, { color: STATUS_COLORS[incident.status] }]}
+        >
+          {incident.status.charAt(0).toUpperCase() + incident.status.slice(1)}
+        </Chip>
+      </View>
+      <Text style={styles.itemLine}>Driver: {incident.driverName || incident.driverId}</Text>
+      {!contractorId && (
+        <Text style={styles.itemLine}>Contractor: {incident.contractorName || incident.contractorId}</Text>
+      )}
+      {incident.escalatedAt && (
+        <Text style={styles.itemLine}>Escalated {incident.escalatedAt.toLocaleString()}</Text>
+      )}
+      {incident.status === "resolved" ? (
+        <Text style={styles.itemLine}>Resolved: {incident.resolutionNote}</Text>
+      ) : (
+        <TouchableOpacity
+          style={styles.resolveButton}
+          onPress={() => {
+            setResolving(incident)
+            setResolutionNote("")
+          }}
+        >
+          <MaterialIcons name="check-circle" size={18} color="#10b981" />
+          <Text style={styles.resolveButtonText}>Resolve</Text>
+        </TouchableOpacity>
+      )}
+    </Card>
+  )
+
+  const renderRate = (row: MissedCollectionRateRow) => (
+    <Card key={row.id || "none"} style={styles.itemCard}>
+      <View style={styles.itemHeader}>
+        <View style={styles.itemTitle}>
+          <Text style={styles.itemName}>{row.name}</Text>
+          <Text style={styles.itemMeta}>{row.missed} of {row.due} collections missed</Text>
+        </View>
+        <Text style={[styles.rateText, { color: rateColor(row.missedRate) }]}>
+          {Math.round(row.missedRate * 100)}%
+        </Text>
+      </View>
+    </Card>
+  )
+
+  const renderTab = () => {
+    const lists = {
+      open: incidents.filter(incident => incident.status !== "resolved").map(renderIncident),
+      resolved: incidents.filter(incident => incident.status === "resolved").map(renderIncident),
+      contractors: (check?.rates.contractors ?? []).map(renderRate),
+      wards: (check?.rates.wards ?? []).map(renderRate),
+    }
+    return lists[tab].length > 0 ? lists[tab] : (
+      <Card style={styles.emptyCard}>
+        <MaterialIcons name="task-alt" size={48} color="#9ca3af" />
+        <Text style={styles.emptyText}>
+          {tab === "contractors" || tab === "wards" ? "No collections were due in this period" : "No missed collections"}
+        </Text>
+      </Card>
+    )
+  }
+
+  return (
+    <ProtectedRoute requiredPermission="canReviewMissedCollections" navigation={navigation}>
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <MaterialIcons name="arrow-back" size={24} color="#111827" />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Missed Collections</Text>
+            <Text style={styles.headerSubtitle}>Assigned points with no completed trip in time</Text>
+          </View>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          showsVerticalScrollIndicator={false}
+        >
+          <Card style={styles.summaryCard}>
+            {check ? (
+              <>
+                <Text style={styles.summaryTitle}>
+                  Last {MISSED_COLLECTION_LOOKBACK_DAYS} days: {check.startDate} – {check.endDate}
+                </Text>
+                <Text style={styles.summaryText}>
+                  {check.rates.contractors.reduce((sum, row) => sum + row.missed, 0)} of {check.due} collections missed
+                  {check.raised.length > 0 ? ` · ${check.raised.length} new` : ""}
+                  {check.escalated.length > 0 ? ` · ${check.escalated.length} escalated to admins` : ""}
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.summaryText}>{loading ? "Checking collections..." : "The check could not be run"}</Text>
+            )}
+          </Card>
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.tabs}>
+            {tabs.map(({ key, label }) => (
+              <Chip key={key} selected={tab === key} onPress={() => setTab(key)} style={styles.tabChip}>
+                {label}
+              </Chip>
+            ))}
+          </ScrollView>
+
+          {!loading && renderTab()}
+        </ScrollView>
+
+        <Portal>
+          <Modal visible={resolving !== null} onDismiss={() => setResolving(null)} contentContainerStyle={styles.modal}>
+            <Text style={styles.modalTitle}>Resolve {resolving?.feederPointName}</Text>
+            <Text style={styles.itemMeta}>{resolving?.assignmentDate}</Text>
+            <TextInput
+              mode="outlined"
+              label="What happened"
+              placeholder="Collected late at 19:30 after a breakdown"
+              value={resolutionNote}
+              onChangeText={setResolutionNote}
+              multiline
+              style={styles.noteInput}
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setResolving(null)}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.saveButton} onPress={resolveIncident} disabled={saving}>
+                <Text style={styles.saveButtonText}>{saving ? "Saving..." : "Resolve"}</Text>
+              </TouchableOpacity>
+            </View>
+          </Modal>
+        </Portal>
+      </SafeAreaView>
+    </ProtectedRoute>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  summaryCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  summaryTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  summaryText: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 4,
+  },
+  tabs: {
+    flexDirection: "row",
+    marginBottom: 12,
+  },
+  tabChip: {
+    marginRight: 8,
+  },
+  itemCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  itemHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 8,
+  },
+  itemTitle: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  itemLine: {
+    fontSize: 13,
+    color: "#374151",
+    marginTop: 4,
+  },
+  statusChip: {
+    height: 28,
+  },
+  statusChipText: {
+    fontSize: 11,
+    fontWeight: "bold",
+  },
+  rateText: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  resolveButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-end",
+    gap: 4,
+    padding: 4,
+    marginTop: 8,
+  },
+  resolveButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#10b981",
+  },
+  emptyCard: {
+    padding: 32,
+    alignItems: "center",
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+    textAlign: "center",
+    marginTop: 12,
+  },
+  modal: {
+    backgroundColor: "#ffffff",
+    margin: 20,
+    padding: 20,
+    borderRadius: 12,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  noteInput: {
+    marginTop: 16,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#f3f4f6",
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  saveButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#3b82f6",
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+})
+
+export default MissedCollections
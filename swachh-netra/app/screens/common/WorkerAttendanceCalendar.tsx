@@ -0,0 +1,256 @@
+import React, { useState, useEffect, useCallback } from "react"
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  Platform,
+  Alert,
+} from "react-native"
+import { Card, Text } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import { Calendar, DateData } from "react-native-calendars"
+import ProtectedRoute from "../../components/ProtectedRoute"
+import { useRequireAuth } from "../../hooks/useRequireAuth"
+import { LeaveService, CalendarDay, CalendarDayStatus, LeaveBalances } from "../../../services/LeaveService"
+import { LEAVE_TYPES, LEAVE_TYPE_LABELS, LeaveType, attendanceDayKey } from "../../../services/domain"
+
+const STATUS_STYLES: { [status in CalendarDayStatus]: { label: string, color: string } } = {
+  present: { label: "Present", color: "#10b981" },
+  absent: { label: "Absent", color: "#ef4444" },
+  leave: { label: "Leave", color: "#8b5cf6" },
+  holiday: { label: "Holiday", color: "#f59e0b" },
+  weeklyOff: { label: "Weekly Off", color: "#9ca3af" },
+}
+
+// Month view of one worker's attendance alongside their holidays, leave and weekly offs
+const WorkerAttendanceCalendar = ({ navigation, route }: any) => {
+  const { workerId, workerName } = route.params || {}
+  const { hasAccess } = useRequireAuth(navigation, { requiredPermission: "canViewAllAttendance" })
+  const [month, setMonth] = useState(new Date())
+  const [days, setDays] = useState<{ [date: string]: CalendarDay }>({})
+  const [balances, setBalances] = useState<LeaveBalances | null>(null)
+  const [selectedDate, setSelectedDate] = useState(attendanceDayKey(new Date()))
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+
+  const loadData = useCallback(async () => {
+    if (!workerId) return
+    try {
+      const [calendar, leaveBalances] = await Promise.all([
+        LeaveService.getWorkerCalendar(workerId, month),
+        LeaveService.getLeaveBalances(workerId, month.getFullYear()),
+      ])
+      setDays(calendar)
+      setBalances(leaveBalances)
+    } catch (error) {
+      console.error("Error loading attendance calendar:", error)
+      Alert.alert("Error", "Failed to load attendance calendar")
+    }
+  }, [workerId, month])
+
+  useEffect(() => {
+    if (!hasAccess) return
+    setLoading(true)
+    loadData().finally(() => setLoading(false))
+  }, [hasAccess, loadData])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadData()
+    setRefreshing(false)
+  }
+
+  const onMonthChange = (date: DateData) => setMonth(new Date(date.year, date.month - 1, 1))
+
+  const markedDates: { [date: string]: any } = {}
+  Object.entries(days).forEach(([date, day]) => {
+    markedDates[date] = {
+      customStyles: {
+        container: { backgroundColor: STATUS_STYLES[day.status].color, borderRadius: 6 },
+        text: { color: "#ffffff", fontWeight: "600" },
+      },
+    }
+  })
+  markedDates[selectedDate] = {
+    ...markedDates[selectedDate],
+    customStyles: {
+      container: { ...markedDates[selectedDate]?.customStyles?.container, borderWidth: 2, borderColor: "#111827", borderRadius: 6 },
+      text: markedDates[selectedDate]?.customStyles?.text ?? { color: "#111827" },
+    },
+  }
+
+  const counts = Object.values(days).reduce((totals, day) => {
+    totals[day.status] = (totals[day.status] || 0) + 1
+    return totals
+  }, {} as { [status in CalendarDayStatus]?: number })
+
+  const selectedDay = days[selectedDate]
+  const describeDay = (day: CalendarDay) => {
+    if (day.status === "leave" && day.label) return `${LEAVE_TYPE_LABELS[day.label as LeaveType] ?? day.label} leave`
+    return day.label ? `${STATUS_STYLES[day.status].label}: ${day.label}` : STATUS_STYLES[day.status].label
+  }
+
+  return (
+    <ProtectedRoute requiredPermission="canViewAllAttendance" navigation={navigation}>
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <MaterialIcons name="arrow-back" size={24} color="#111827" />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>{workerName || "Worker"}</Text>
+            <Text style={styles.headerSubtitle}>Attendance Calendar</Text>
+          </View>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          showsVerticalScrollIndicator={false}
+        >
+          <Card style={styles.calendarCard}>
+            <Calendar
+              markingType="custom"
+              markedDates={markedDates}
+              onMonthChange={onMonthChange}
+              onDayPress={(date: DateData) => setSelectedDate(date.dateString)}
+              theme={{ todayTextColor: "#3b82f6", arrowColor: "#3b82f6" }}
+            />
+            <View style={styles.legend}>
+              {(Object.keys(STATUS_STYLES) as CalendarDayStatus[]).map(status => (
+                <View key={status} style={styles.legendItem}>
+                  <View style={[styles.legendSwatch, { backgroundColor: STATUS_STYLES[status].color }]} />
+                  <Text style={styles.legendText}>{STATUS_STYLES[status].label} ({counts[status] || 0})</Text>
+                </View>
+              ))}
+            </View>
+          </Card>
+
+          <Card style={styles.detailCard}>
+            <Text style={styles.cardTitle}>{selectedDate}</Text>
+            <Text style={styles.detailText}>
+              {loading ? "Loading..." : selectedDay ? describeDay(selectedDay) : "Nothing recorded"}
+            </Text>
+          </Card>
+
+          {balances && (
+            <Card style={styles.detailCard}>
+              <Text style={styles.cardTitle}>Leave Balance {month.getFullYear()}</Text>
+              {LEAVE_TYPES.map(leaveType => (
+                <View key={leaveType} style={styles.balanceRow}>
+                  <Text style={styles.balanceType}>{LEAVE_TYPE_LABELS[leaveType]}</Text>
+                  <Text style={styles.balanceValue}>
+                    {balances[leaveType].remaining} of {balances[leaveType].entitled} left
+                    {balances[leaveType].pending > 0 ? ` · ${balances[leaveType].pending} pending` : ""}
+                  </Text>
+                </View>
+              ))}
+            </Card>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </ProtectedRoute>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  calendarCard: {
+    padding: 8,
+    marginBottom: 16,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  legend: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12,
+    padding: 8,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+  },
+  legendText: {
+    fontSize: 12,
+    color: "#374151",
+  },
+  detailCard: {
+    padding: 16,
+    marginBottom: 16,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+    marginBottom: 8,
+  },
+  detailText: {
+    fontSize: 14,
+    color: "#374151",
+  },
+  balanceRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+  },
+  balanceType: {
+    fontSize: 14,
+    color: "#374151",
+  },
+  balanceValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+})
+
+export default WorkerAttendanceCalendar
@@ -12,7 +12,8 @@ import {
 } from "react-native"
 import { Card, Text, Button, Chip, ProgressBar } from "react-native-paper"
 import { MaterialIcons } from "@expo/vector-icons"
-import { WorkerAttendanceService } from "../../../services/WorkerAttendanceService"
+import { WorkerAttendanceService, WorkedDay } from "../../../services/WorkerAttendanceService"
+import { AttendanceCorrectionEntry, AuditValue } from "../../../services/domain"
 import { useRequireAuth } from "../../hooks/useRequireAuth"
 
 const { width } = Dimensions.get("window")
@@ -27,8 +28,13 @@ interface WorkerProfileData {
     attendanceRate: number
     lateArrivals: number
     earlyDepartures: number
+    halfDays: number
     averageCheckInTime: string
+    totalWorkedHours: number
+    averageWorkedHours: number
+    overtimeHours: number
   }
+  workedDays: WorkedDay[]
   trends: {
     weeklyAttendance: { week: string, rate: number }[]
     monthlyAttendance: { month: string, rate: number }[]
@@ -117,7 +123,18 @@ const WorkerAttendanceProfile = ({ navigation, route }: any) => {
     )
   }
 
-  const { worker, statistics, attendanceHistory, trends } = profileData
+  const { worker, statistics, attendanceHistory, workedDays, trends } = profileData
+
+  const formatTime = (date?: Date) =>
+    date ? date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }) : '--:--'
+
+  const formatMinutes = (minutes: number) => `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+
+  // Correction changes store times as ISO strings
+  const formatChangeValue = (field: string, value: AuditValue) => {
+    if (value === null) return '—'
+    return field.endsWith('Time') ? formatTime(new Date(String(value))) : String(value)
+  }
 
   return (
     <SafeAreaView style={styles.container}>
@@ -132,6 +149,12 @@ const WorkerAttendanceProfile = ({ navigation, route }: any) => {
           <Text style={styles.headerTitle}>{workerName || worker?.fullName || 'Worker Profile'}</Text>
           <Text style={styles.headerSubtitle}>Attendance Profile</Text>
         </View>
+        <TouchableOpacity
+          onPress={() => navigation.navigate('WorkerAttendanceCalendar', { workerId, workerName: workerName || worker?.fullName })}
+          style={styles.backButton}
+        >
+          <MaterialIcons name="calendar-month" size={24} color="#2563eb" />
+        </TouchableOpacity>
       </View>
 
       <ScrollView
@@ -215,6 +238,18 @@ const WorkerAttendanceProfile = ({ navigation, route }: any) => {
                 <Text style={styles.statNumber}>{statistics.lateArrivals}</Text>
                 <Text style={styles.statLabel}>Late Arrivals</Text>
               </Card>
+
+              <Card style={styles.statCard}>
+                <MaterialIcons name="logout" size={24} color="#8b5cf6" />
+                <Text style={styles.statNumber}>{statistics.earlyDepartures}</Text>
+                <Text style={styles.statLabel}>Early Departures</Text>
+              </Card>
+
+              <Card style={styles.statCard}>
+                <MaterialIcons name="timelapse" size={24} color="#64748b" />
+                <Text style={styles.statNumber}>{statistics.halfDays}</Text>
+                <Text style={styles.statLabel}>Half Days</Text>
+              </Card>
             </View>
 
             {/* Attendance Rate */}
@@ -234,6 +269,50 @@ const WorkerAttendanceProfile = ({ navigation, route }: any) => {
                 Average Check-in: {statistics.averageCheckInTime}
               </Text>
             </Card>
+
+            {/* Worked Hours */}
+            <View style={styles.statsGrid}>
+              <Card style={styles.statCard}>
+                <MaterialIcons name="work-history" size={24} color="#2563eb" />
+                <Text style={styles.statNumber}>{statistics.totalWorkedHours.toFixed(1)}</Text>
+                <Text style={styles.statLabel}>Hours Worked</Text>
+              </Card>
+
+              <Card style={styles.statCard}>
+                <MaterialIcons name="av-timer" size={24} color="#0891b2" />
+                <Text style={styles.statNumber}>{statistics.averageWorkedHours.toFixed(1)}</Text>
+                <Text style={styles.statLabel}>Avg Hours / Day</Text>
+              </Card>
+
+              <Card style={styles.statCard}>
+                <MaterialIcons name="more-time" size={24} color="#d97706" />
+                <Text style={styles.statNumber}>{statistics.overtimeHours.toFixed(1)}</Text>
+                <Text style={styles.statLabel}>Overtime Hours</Text>
+              </Card>
+            </View>
+
+            <Card style={styles.historyCard}>
+              <Text style={styles.cardTitle}>Check-in / Check-out</Text>
+              <View style={styles.historyList}>
+                {workedDays.slice(0, 14).map(day => (
+                  <View key={day.attendanceDate} style={styles.historyItem}>
+                    <View style={styles.historyDate}>
+                      <Text style={styles.historyDateText}>{formatDate(new Date(`${day.attendanceDate}T00:00:00`))}</Text>
+                      <Text style={styles.workedTimesText}>
+                        {formatTime(day.checkInTime)} – {formatTime(day.checkOutTime)}
+                      </Text>
+                    </View>
+                    <Text style={styles.workedHoursText}>
+                      {day.workedMinutes !== null ? formatMinutes(day.workedMinutes) : 'No check-out'}
+                      {day.overtimeMinutes > 0 ? ` (+${formatMinutes(day.overtimeMinutes)})` : ''}
+                    </Text>
+                  </View>
+                ))}
+                {workedDays.length === 0 && (
+                  <Text style={styles.workedTimesText}>No days worked in this period</Text>
+                )}
+              </View>
+            </Card>
           </>
         )}
 
@@ -243,26 +322,46 @@ const WorkerAttendanceProfile = ({ navigation, route }: any) => {
             <Text style={styles.cardTitle}>Attendance History ({attendanceHistory.length} records)</Text>
             <View style={styles.historyList}>
               {attendanceHistory.slice(0, 20).map((record, index) => (
-                <View key={index} style={styles.historyItem}>
-                  <View style={styles.historyDate}>
-                    <Text style={styles.historyDateText}>{formatDate(record.timestamp)}</Text>
-                  </View>
-                  <View style={styles.historyStatus}>
-                    <MaterialIcons
-                      name={record.status === 'present' ? 'check-circle' : 'cancel'}
-                      size={20}
-                      color={record.status === 'present' ? '#10b981' : '#ef4444'}
-                    />
-                    <Text style={[
-                      styles.historyStatusText,
-                      { color: record.status === 'present' ? '#10b981' : '#ef4444' }
-                    ]}>
-                      {record.status.toUpperCase()}
-                    </Text>
+                <View key={index}>
+                  <View style={styles.historyItem}>
+                    <View style={styles.historyDate}>
+                      <Text style={styles.historyDateText}>{formatDate(record.timestamp)}</Text>
+                      {record.originalMark && (
+                        <Text style={styles.correctedText}>
+                          Corrected · originally {record.originalMark.status}
+                          {record.originalMark.checkInTime ? ` at ${formatTime(record.originalMark.checkInTime)}` : ''}
+                        </Text>
+                      )}
+                    </View>
+                    <View style={styles.historyStatus}>
+                      <MaterialIcons
+                        name={record.status === 'present' ? 'check-circle' : 'cancel'}
+                        size={20}
+                        color={record.status === 'present' ? '#10b981' : '#ef4444'}
+                      />
+                      <Text style={[
+                        styles.historyStatusText,
+                        { color: record.status === 'present' ? '#10b981' : '#ef4444' }
+                      ]}>
+                        {record.status.toUpperCase()}
+                      </Text>
+                    </View>
+                    {record.photoUri && (
+                      <MaterialIcons name="photo" size={16} color="#6b7280" />
+                    )}
                   </View>
-                  {record.photoUri && (
-                    <MaterialIcons name="photo" size={16} color="#6b7280" />
-                  )}
+                  {(record.corrections || []).map((correction: AttendanceCorrectionEntry, correctionIndex: number) => (
+                    <View key={correctionIndex} style={styles.correctionItem}>
+                      {Object.entries(correction.changes).map(([field, { from, to }]) => (
+                        <Text key={field} style={styles.correctionText}>
+                          {field}: {formatChangeValue(field, from)} → {formatChangeValue(field, to)}
+                        </Text>
+                      ))}
+                      <Text style={styles.workedTimesText}>
+                        {correction.reason} · {correction.approvedAt.toLocaleDateString()}
+                      </Text>
+                    </View>
+                  ))}
                 </View>
               ))}
             </View>
@@ -567,6 +666,31 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: "#374151",
   },
+  workedTimesText: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  workedHoursText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  correctedText: {
+    fontSize: 12,
+    color: "#8b5cf6",
+    marginTop: 2,
+  },
+  correctionItem: {
+    paddingVertical: 6,
+    paddingLeft: 12,
+    borderLeftWidth: 2,
+    borderLeftColor: "#8b5cf6",
+  },
+  correctionText: {
+    fontSize: 12,
+    color: "#374151",
+  },
   historyStatus: {
     flexDirection: "row",
     alignItems: "center",
@@ -16,8 +16,18 @@ import { MaterialIcons } from "@expo/vector-icons"
 import { FIREBASE_AUTH } from "../../../FirebaseConfig"
 import { ContractorService } from "../../../services/ContractorService"
 import { FeederPointService, FeederPoint } from "../../../services/FeederPointService"
-import { DailyAssignmentService } from "../../../services/DailyAssignmentService"
+import { DailyAssignmentService, DailyAssignment, AssignmentRoute, RoutePlan } from "../../../services/DailyAssignmentService"
+import { RosterTemplateService } from "../../../services/RosterTemplateService"
 import FirebaseService from "../../../services/FirebaseService"
+import {
+  Coordinates,
+  estimateRoute,
+  formatRouteDistance,
+  formatRouteDuration,
+  formatRouteTime,
+  routeOrderOf,
+  routePointOf,
+} from "../../../services/domain"
 
 interface Driver {
   id: string
@@ -28,18 +38,6 @@ interface Driver {
   assignedVehicleId?: string
 }
 
-interface DailyAssignment {
-  id?: string
-  driverId: string
-  contractorId: string
-  assignmentDate: string // YYYY-MM-DD format
-  feederPointIds: string[]
-  vehicleId?: string
-  status: "active" | "completed" | "cancelled"
-  createdAt: Date
-  updatedAt: Date
-}
-
 interface ContractorDailyAssignmentsProps {
   navigation: any
   route: {
@@ -64,6 +62,10 @@ const ContractorDailyAssignments = ({ navigation, route }: ContractorDailyAssign
   const [selectedDriver, setSelectedDriver] = useState<Driver | null>(null)
   const [selectedFeederPoints, setSelectedFeederPoints] = useState<string[]>([])
   const [assignModalVisible, setAssignModalVisible] = useState(false)
+  const [routePlan, setRoutePlan] = useState<RoutePlan | null>(null)
+  const [routeDepot, setRouteDepot] = useState<Coordinates | undefined>(undefined)
+  const [keptRoute, setKeptRoute] = useState<AssignmentRoute | undefined>(undefined)
+  const [planningRoute, setPlanningRoute] = useState(false)
   const [searchQuery, setSearchQuery] = useState("")
   const [filterStatus, setFilterStatus] = useState<"all" | "assigned" | "unassigned">("all")
 
@@ -85,6 +87,13 @@ const ContractorDailyAssignments = ({ navigation, route }: ContractorDailyAssign
       const feederPointsData = await ContractorService.getContractorFeederPoints(contractorId)
       console.log(`✅ [ContractorDailyAssignments] Feeder points loaded: ${feederPointsData?.length || 0}`)
 
+      // Bring the coming week in line with the roster templates before showing it
+      try {
+        await RosterTemplateService.generateAssignments(contractorId, FIREBASE_AUTH.currentUser?.uid || contractorId)
+      } catch (error) {
+        console.warn("⚠️ [ContractorDailyAssignments] Could not generate assignments from roster templates:", error)
+      }
+
       console.log("📅 [ContractorDailyAssignments] Fetching daily assignments...")
       const assignmentsData = await DailyAssignmentService.getAssignmentsByDate(contractorId, selectedDate)
       console.log(`✅ [ContractorDailyAssignments] Assignments loaded: ${assignmentsData?.length || 0}`)
@@ -140,22 +149,35 @@ const ContractorDailyAssignments = ({ navigation, route }: ContractorDailyAssign
     return dailyAssignments.find(assignment => assignment.driverId === driverId)
   }
 
+  const getFeederPoint = (feederPointId: string): FeederPoint | undefined =>
+    feederPoints.find(fp => fp.id === feederPointId)
+
+  // In the assignment's order, which is the route order once a route was accepted
   const getAssignedFeederPointsForDriver = (driverId: string): FeederPoint[] => {
     const assignment = getDriverAssignment(driverId)
     if (!assignment) return []
-    
-    return feederPoints.filter(fp => assignment.feederPointIds.includes(fp.id!))
+
+    return assignment.feederPointIds.map(getFeederPoint).filter((fp): fp is FeederPoint => !!fp)
   }
 
   const handleAssignDriver = (driver: Driver) => {
     const existingAssignment = getDriverAssignment(driver.id)
     setSelectedDriver(driver)
     setSelectedFeederPoints(existingAssignment?.feederPointIds || [])
+    setRoutePlan(null)
+    setKeptRoute(existingAssignment?.route)
     setAssignModalVisible(true)
   }
 
+  // Any change to the points drops the route planned or accepted for the old ones
+  const changeSelection = (update: (prev: string[]) => string[]) => {
+    setSelectedFeederPoints(update)
+    setRoutePlan(null)
+    setKeptRoute(undefined)
+  }
+
   const handleFeederPointToggle = (feederPointId: string) => {
-    setSelectedFeederPoints(prev => {
+    changeSelection(prev => {
       if (prev.includes(feederPointId)) {
         return prev.filter(id => id !== feederPointId)
       } else {
@@ -164,6 +186,39 @@ const ContractorDailyAssignments = ({ navigation, route }: ContractorDailyAssign
     })
   }
 
+  const handlePlanRoute = async () => {
+    if (!selectedDriver) return
+
+    try {
+      setPlanningRoute(true)
+      const points = selectedFeederPoints.map(getFeederPoint).filter((fp): fp is FeederPoint => !!fp)
+      const { plan, depot } = await DailyAssignmentService.planRoute(points, selectedDriver.assignedVehicleId)
+
+      setRoutePlan(plan)
+      setRouteDepot(depot)
+      setSelectedFeederPoints(routeOrderOf(plan))
+    } catch (error) {
+      console.error("❌ [ContractorDailyAssignments] Error planning route:", error)
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to plan the route")
+    } finally {
+      setPlanningRoute(false)
+    }
+  }
+
+  // Move a stop up or down the planned route and re-estimate it
+  const handleMoveStop = (index: number, offset: -1 | 1) => {
+    if (!routePlan) return
+    const order = routeOrderOf(routePlan)
+    const target = index + offset
+    if (target < 0 || target >= routePlan.stops.length) return
+
+    ;[order[index], order[target]] = [order[target], order[index]]
+    const points = order.map(getFeederPoint).filter((fp): fp is FeederPoint => !!fp)
+    const plan = estimateRoute(points.map(routePointOf), routeDepot)
+    setRoutePlan(plan)
+    setSelectedFeederPoints(routeOrderOf(plan))
+  }
+
   const handleSaveAssignment = async () => {
     if (!selectedDriver) {
       Alert.alert("Error", "No driver selected")
@@ -191,6 +246,16 @@ const ContractorDailyAssignments = ({ navigation, route }: ContractorDailyAssign
         contractorId,
         assignmentDate: selectedDate,
         feederPointIds: selectedFeederPoints,
+        route: routePlan
+          ? {
+            stopIds: routeOrderOf(routePlan),
+            distanceMeters: routePlan.distanceMeters,
+            durationMinutes: routePlan.durationMinutes,
+            lateStopCount: routePlan.lateStopCount,
+            acceptedAt: new Date(),
+            acceptedBy: FIREBASE_AUTH.currentUser?.uid || contractorId
+          }
+          : keptRoute,
         vehicleId: selectedDriver.assignedVehicleId,
         status: "active"
       })
@@ -266,7 +331,16 @@ const ContractorDailyAssignments = ({ navigation, route }: ContractorDailyAssign
 
           {hasAssignment && (
             <View style={styles.assignmentPreview}>
-              <Text style={styles.previewTitle}>Today's Routes:</Text>
+              <Text style={styles.previewTitle}>
+                Today's Routes:{assignment.route
+                  ? ` ${formatRouteDistance(assignment.route.distanceMeters)}, ${formatRouteDuration(assignment.route.durationMinutes)}`
+                  : ""}
+              </Text>
+              {assignment.templateId && (
+                <Text style={styles.rosterNote}>
+                  {assignment.isOverride ? "Edited for this day, roster template not applied" : "From roster template"}
+                </Text>
+              )}
               <View style={styles.feederPointTags}>
                 {assignedFeederPoints.slice(0, 3).map((fp, index) => (
                   <Chip key={fp.id} style={styles.feederPointTag} textStyle={styles.feederPointTagText}>
@@ -315,6 +389,12 @@ const ContractorDailyAssignments = ({ navigation, route }: ContractorDailyAssign
             onPress={() => navigation.goBack()}
           />
           <Text style={styles.headerTitle}>Daily Assignments</Text>
+          <TouchableOpacity
+            onPress={() => navigation.navigate("ContractorRosterTemplates", { contractorId })}
+            style={styles.debugButton}
+          >
+            <MaterialIcons name="event-repeat" size={20} color="#3b82f6" />
+          </TouchableOpacity>
           <TouchableOpacity
             onPress={() => {
               console.log("🐛 [DEBUG] Current state:", {
@@ -482,7 +562,7 @@ const ContractorDailyAssignments = ({ navigation, route }: ContractorDailyAssign
               </Text>
               {selectedFeederPoints.length > 0 && (
                 <TouchableOpacity
-                  onPress={() => setSelectedFeederPoints([])}
+                  onPress={() => changeSelection(() => [])}
                   style={styles.clearButton}
                 >
                   <Text style={styles.clearButtonText}>Clear All</Text>
@@ -494,7 +574,7 @@ const ContractorDailyAssignments = ({ navigation, route }: ContractorDailyAssign
             <View style={styles.bulkActions}>
               <Button
                 mode="outlined"
-                onPress={() => setSelectedFeederPoints(feederPoints.map(fp => fp.id!).filter(Boolean))}
+                onPress={() => changeSelection(() => feederPoints.map(fp => fp.id!).filter(Boolean))}
                 style={styles.bulkButton}
                 labelStyle={styles.bulkButtonText}
               >
@@ -505,7 +585,7 @@ const ContractorDailyAssignments = ({ navigation, route }: ContractorDailyAssign
                 onPress={() => {
                   // Select first 20 points for optimal daily load
                   const firstTwenty = feederPoints.slice(0, 20).map(fp => fp.id!).filter(Boolean)
-                  setSelectedFeederPoints(firstTwenty)
+                  changeSelection(() => firstTwenty)
                 }}
                 style={styles.bulkButton}
                 labelStyle={styles.bulkButtonText}
@@ -514,6 +594,77 @@ const ContractorDailyAssignments = ({ navigation, route }: ContractorDailyAssign
               </Button>
             </View>
 
+            {/* Route */}
+            <View style={styles.routeSection}>
+              <View style={styles.routeHeader}>
+                <Text style={styles.routeTitle}>Route</Text>
+                <Button
+                  mode="outlined"
+                  icon="map-marker-path"
+                  onPress={handlePlanRoute}
+                  loading={planningRoute}
+                  disabled={planningRoute || selectedFeederPoints.length < 2}
+                  style={styles.bulkButton}
+                  labelStyle={styles.bulkButtonText}
+                >
+                  {routePlan ? "Re-plan" : "Plan Route"}
+                </Button>
+              </View>
+
+              {!routePlan && (
+                <Text style={styles.routeHint}>
+                  {keptRoute
+                    ? `Accepted route: ${formatRouteDistance(keptRoute.distanceMeters)}, ${formatRouteDuration(keptRoute.durationMinutes)}`
+                    : "Plan a route to put the selected points in visiting order for the driver."}
+                </Text>
+              )}
+
+              {routePlan && (
+                <>
+                  <Text style={styles.routeSummary}>
+                    {formatRouteDistance(routePlan.distanceMeters)} · {formatRouteDuration(routePlan.durationMinutes)}
+                    {routePlan.lateStopCount > 0 ? ` · ${routePlan.lateStopCount} outside time window` : ""}
+                  </Text>
+                  {!routeDepot && (
+                    <Text style={styles.routeHint}>This vehicle has no depot, so the route starts at the first stop.</Text>
+                  )}
+
+                  {routePlan.stops.map((stop, index) => (
+                    <View key={stop.feederPointId} style={styles.routeStop}>
+                      <Text style={styles.routeStopNumber}>{index + 1}</Text>
+                      <View style={styles.routeStopInfo}>
+                        <Text style={styles.routeStopName}>{getFeederPoint(stop.feederPointId)?.feederPointName}</Text>
+                        <Text style={[styles.routeStopTime, stop.late > 0 && styles.routeStopLate]}>
+                          {formatRouteTime(stop.arrival)}
+                          {stop.wait > 0 ? ` · waits ${stop.wait}m for its window` : ""}
+                          {stop.late > 0 ? ` · ${stop.late}m after its window` : ""}
+                        </Text>
+                      </View>
+                      <TouchableOpacity onPress={() => handleMoveStop(index, -1)} disabled={index === 0}>
+                        <MaterialIcons name="arrow-upward" size={20} color={index === 0 ? "#d1d5db" : "#3b82f6"} />
+                      </TouchableOpacity>
+                      <TouchableOpacity onPress={() => handleMoveStop(index, 1)} disabled={index === routePlan.stops.length - 1}>
+                        <MaterialIcons
+                          name="arrow-downward"
+                          size={20}
+                          color={index === routePlan.stops.length - 1 ? "#d1d5db" : "#3b82f6"}
+                        />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                  {routePlan.unlocatedIds.map(id => (
+                    <View key={id} style={styles.routeStop}>
+                      <MaterialIcons name="location-off" size={18} color="#9ca3af" />
+                      <View style={styles.routeStopInfo}>
+                        <Text style={styles.routeStopName}>{getFeederPoint(id)?.feederPointName}</Text>
+                        <Text style={styles.routeStopTime}>No location, visited last</Text>
+                      </View>
+                    </View>
+                  ))}
+                </>
+              )}
+            </View>
+
             {/* Feeder Points List */}
             <View style={styles.feederPointsList}>
               {feederPoints.map((point) => {
@@ -575,7 +726,7 @@ const ContractorDailyAssignments = ({ navigation, route }: ContractorDailyAssign
                 labelStyle={styles.saveButtonText}
                 disabled={loading}
               >
-                {loading ? "Saving..." : "Save Assignment"}
+                {loading ? "Saving..." : routePlan ? "Accept Route" : "Save Assignment"}
               </Button>
             </View>
           </ScrollView>
@@ -763,6 +914,11 @@ const styles = StyleSheet.create({
     color: "#374151",
     marginBottom: 8,
   },
+  rosterNote: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginBottom: 8,
+  },
   feederPointTags: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -891,6 +1047,63 @@ const styles = StyleSheet.create({
     color: "#3b82f6",
     fontSize: 14,
   },
+  routeSection: {
+    backgroundColor: "#f9fafb",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  routeHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 12,
+  },
+  routeTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  routeSummary: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1e40af",
+    marginTop: 8,
+  },
+  routeHint: {
+    fontSize: 13,
+    color: "#6b7280",
+    marginTop: 8,
+  },
+  routeStop: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  routeStopNumber: {
+    width: 22,
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#3b82f6",
+    textAlign: "center",
+  },
+  routeStopInfo: {
+    flex: 1,
+  },
+  routeStopName: {
+    fontSize: 14,
+    color: "#111827",
+  },
+  routeStopTime: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  routeStopLate: {
+    color: "#ef4444",
+  },
   feederPointsList: {
     marginBottom: 20,
   },
@@ -14,8 +14,10 @@ import {
 import { Card, Text, Button } from "react-native-paper"
 import { MaterialIcons } from "@expo/vector-icons"
 import AdminHeader from "../../components/AdminHeader"
+import LiveVehiclesCard from "../../components/LiveVehiclesCard"
 import { ContractorService, ContractorDashboardStats } from "../../../services/ContractorService"
 import FirebaseService from "../../../services/FirebaseService"
+import { MissedCollectionService } from "../../../services/MissedCollectionService"
 import { useQuickLogout } from "../../hooks/useLogout"
 
 const { width } = Dimensions.get("window")
@@ -43,6 +45,7 @@ const ContractorDashboard = ({ navigation }: any) => {
   })
   const [userName, setUserName] = useState("Contractor")
   const [contractorId, setContractorId] = useState<string | null>(null)
+  const [vehicleIds, setVehicleIds] = useState<string[]>([])
   const [error, setError] = useState<string | null>(null)
 
   const contractorActions = [
@@ -78,6 +81,14 @@ const ContractorDashboard = ({ navigation }: any) => {
       bgColor: "#fffbeb",
       screen: "TripMonitoring",
     },
+    {
+      title: "Missed Collections",
+      description: "Points left uncollected",
+      icon: "report-problem",
+      color: "#ef4444",
+      bgColor: "#fef2f2",
+      screen: "MissedCollections",
+    },
     {
       title: "Worker Attendance",
       description: "View worker attendance records",
@@ -86,6 +97,14 @@ const ContractorDashboard = ({ navigation }: any) => {
       bgColor: "#faf5ff",
       screen: "WorkerAttendance",
     },
+    {
+      title: "Attendance Corrections",
+      description: "Ask HR to fix a worker's mark",
+      icon: "fact-check",
+      color: "#0ea5e9",
+      bgColor: "#f0f9ff",
+      screen: "AttendanceCorrectionRequests",
+    },
     {
       title: "Feeder Points",
       description: "View assigned feeder points",
@@ -123,6 +142,15 @@ const ContractorDashboard = ({ navigation }: any) => {
     return unsubscribe
   }, [contractorId])
 
+  // Vehicles shown on the live location card
+  useEffect(() => {
+    if (!contractorId) return
+
+    ContractorService.getContractorVehicles(contractorId)
+      .then(vehicles => setVehicleIds(vehicles.map(vehicle => vehicle.id)))
+      .catch(error => console.error("Error loading vehicles for tracking:", error))
+  }, [contractorId])
+
   const fetchDashboardData = async () => {
     setLoading(true)
     setError(null)
@@ -134,6 +162,7 @@ const ContractorDashboard = ({ navigation }: any) => {
         if (userData) {
           setUserName(userData.fullName)
           setContractorId(user.uid)
+          MissedCollectionService.runCheckInBackground({ contractorId: user.uid })
 
           // Fetch real-time contractor dashboard data
           const dashboardData = await ContractorService.getContractorDashboardData(user.uid)
@@ -192,9 +221,15 @@ const ContractorDashboard = ({ navigation }: any) => {
       case "TripMonitoring":
         navigation.navigate("TripMonitoring", { contractorId })
         break
+      case "MissedCollections":
+        navigation.navigate("MissedCollections")
+        break
       case "WorkerAttendance":
         navigation.navigate("WorkerAttendance", { contractorId })
         break
+      case "AttendanceCorrectionRequests":
+        navigation.navigate("AttendanceCorrectionRequests")
+        break
       case "FeederPoints":
         navigation.navigate("ContractorFeederPoints", { contractorId })
         break
@@ -397,6 +432,11 @@ const ContractorDashboard = ({ navigation }: any) => {
           </Card>
         </View>
 
+        {/* Vehicle Locations */}
+        <View style={styles.section}>
+          <LiveVehiclesCard vehicleIds={vehicleIds} emptyMessage="No vehicles assigned to you yet" />
+        </View>
+
         {/* Today's Performance */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Today's Performance</Text>
@@ -0,0 +1,688 @@
+import React, { useState, useEffect, useCallback } from "react"
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  Platform,
+  Alert,
+} from "react-native"
+import { Card, Text, Chip, TextInput, Divider, Modal, Portal } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import { FIREBASE_AUTH } from "../../../FirebaseConfig"
+import { ContractorService } from "../../../services/ContractorService"
+import { FeederPoint } from "../../../services/FeederPointService"
+import {
+  RosterTemplateService,
+  RosterTemplateInput,
+  RosterDayAction,
+  RosterDayPlan,
+  RosterTemplate,
+} from "../../../services/RosterTemplateService"
+import { WEEKDAY_LABELS, WithId, assignmentDateOf, describeRosterDays } from "../../../services/domain"
+
+interface Driver {
+  id: string
+  fullName: string
+  assignedVehicleId?: string
+}
+
+// Dates are typed, so an empty end date means the template runs on
+interface TemplateForm {
+  driverId: string
+  feederPointIds: string[]
+  daysOfWeek: number[]
+  effectiveFrom: string
+  effectiveTo: string
+  isActive: boolean
+}
+
+const emptyForm = (): TemplateForm => ({
+  driverId: "",
+  feederPointIds: [],
+  daysOfWeek: [1, 2, 3, 4, 5, 6],
+  effectiveFrom: assignmentDateOf(new Date()),
+  effectiveTo: "",
+  isActive: true,
+})
+
+const toForm = (template: RosterTemplate): TemplateForm => ({
+  driverId: template.driverId,
+  feederPointIds: [...template.feederPointIds],
+  daysOfWeek: [...template.daysOfWeek],
+  effectiveFrom: template.effectiveFrom,
+  effectiveTo: template.effectiveTo || "",
+  isActive: template.isActive,
+})
+
+const ACTION_LABELS: Record<RosterDayAction, { label: string, color: string }> = {
+  create: { label: "To create", color: "#3b82f6" },
+  update: { label: "To update", color: "#f59e0b" },
+  unchanged: { label: "From template", color: "#10b981" },
+  kept: { label: "Set for the day", color: "#6b7280" },
+  remove: { label: "To remove", color: "#ef4444" },
+}
+
+const formatPreviewDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", timeZone: "UTC" })
+
+const ContractorRosterTemplates = ({ navigation, route }: any) => {
+  const { contractorId } = route.params as { contractorId: string }
+  const [templates, setTemplates] = useState<WithId<RosterTemplate>[]>([])
+  const [preview, setPreview] = useState<RosterDayPlan[]>([])
+  const [drivers, setDrivers] = useState<Driver[]>([])
+  const [feederPoints, setFeederPoints] = useState<FeederPoint[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [generating, setGenerating] = useState(false)
+
+  // Editing: null id with an open form means a new template
+  const [formVisible, setFormVisible] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<TemplateForm>(emptyForm())
+
+  const actorId = FIREBASE_AUTH.currentUser?.uid || contractorId
+
+  const loadData = useCallback(async () => {
+    try {
+      const [templateList, previewDays, driverList, feederPointList] = await Promise.all([
+        RosterTemplateService.getTemplates(contractorId),
+        RosterTemplateService.previewDays(contractorId),
+        ContractorService.getContractorDrivers(contractorId),
+        ContractorService.getContractorFeederPoints(contractorId),
+      ])
+      setTemplates(templateList)
+      setPreview(previewDays)
+      setDrivers(driverList || [])
+      setFeederPoints(feederPointList || [])
+    } catch (error) {
+      console.error("❌ [ContractorRosterTemplates] Error loading roster templates:", error)
+      Alert.alert("Error", "Failed to load roster templates")
+    }
+  }, [contractorId])
+
+  useEffect(() => {
+    setLoading(true)
+    loadData().finally(() => setLoading(false))
+  }, [loadData])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadData()
+    setRefreshing(false)
+  }
+
+  const driverName = (driverId: string) => drivers.find(driver => driver.id === driverId)?.fullName || "Unknown driver"
+
+  const openNewTemplate = () => {
+    setEditingId(null)
+    setForm(emptyForm())
+    setFormVisible(true)
+  }
+
+  const openEditTemplate = (template: WithId<RosterTemplate>) => {
+    setEditingId(template.id)
+    setForm(toForm(template))
+    setFormVisible(true)
+  }
+
+  const toggleIn = (field: "daysOfWeek" | "feederPointIds", value: any) => {
+    setForm(prev => {
+      const values = prev[field] as any[]
+      return {
+        ...prev,
+        [field]: values.includes(value) ? values.filter(other => other !== value) : [...values, value],
+      }
+    })
+  }
+
+  const saveTemplate = async () => {
+    const driver = drivers.find(candidate => candidate.id === form.driverId)
+    const input: RosterTemplateInput = {
+      driverId: form.driverId,
+      vehicleId: driver?.assignedVehicleId,
+      feederPointIds: form.feederPointIds,
+      daysOfWeek: form.daysOfWeek,
+      effectiveFrom: form.effectiveFrom.trim(),
+      effectiveTo: form.effectiveTo.trim() || undefined,
+      isActive: form.isActive,
+    }
+
+    try {
+      setSaving(true)
+      await RosterTemplateService.saveTemplate(contractorId, input, actorId, editingId || undefined)
+      setFormVisible(false)
+      await loadData()
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to save roster template")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const confirmDelete = (template: WithId<RosterTemplate>) => {
+    Alert.alert(
+      "Delete Roster Template",
+      `Delete ${driverName(template.driverId)}'s template? Upcoming assignments made from it are removed ` +
+      "the next time assignments are generated; today's and hand-edited ones stay.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await RosterTemplateService.deleteTemplate(template.id, actorId)
+              await loadData()
+            } catch (error) {
+              Alert.alert("Error", error instanceof Error ? error.message : "Failed to delete roster template")
+            }
+          }
+        }
+      ]
+    )
+  }
+
+  const generateAssignments = async () => {
+    try {
+      setGenerating(true)
+      const plans = await RosterTemplateService.generateAssignments(contractorId, actorId)
+      const count = (action: RosterDayAction) => plans.filter(plan => plan.action === action).length
+      Alert.alert(
+        "Assignments Generated",
+        `Created: ${count("create")}\nUpdated: ${count("update")}\nRemoved: ${count("remove")}\nKept as set for the day: ${count("kept")}`
+      )
+      await loadData()
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to generate assignments")
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const pendingChanges = preview.filter(plan => plan.action === "create" || plan.action === "update" || plan.action === "remove").length
+  const previewDates = [...new Set(preview.map(plan => plan.date))]
+
+  const renderTemplate = (template: WithId<RosterTemplate>) => (
+    <Card key={template.id} style={styles.templateCard}>
+      <View style={styles.templateHeader}>
+        <MaterialIcons name="event-repeat" size={22} color="#3b82f6" />
+        <Text style={styles.templateName}>{driverName(template.driverId)}</Text>
+        {!template.isActive && (
+          <Chip style={styles.pausedChip} textStyle={styles.pausedChipText}>Paused</Chip>
+        )}
+      </View>
+      <Text style={styles.templateDays}>{describeRosterDays(template.daysOfWeek)}</Text>
+      <Text style={styles.templateDetail}>{template.feederPointIds.length} feeder points</Text>
+      <Text style={styles.templateDetail}>
+        From {template.effectiveFrom}{template.effectiveTo ? ` to ${template.effectiveTo}` : " onwards"}
+      </Text>
+
+      <Divider style={styles.divider} />
+      <View style={styles.templateActions}>
+        <TouchableOpacity style={styles.templateAction} onPress={() => openEditTemplate(template)}>
+          <MaterialIcons name="edit" size={18} color="#3b82f6" />
+          <Text style={styles.templateActionText}>Edit</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.templateAction} onPress={() => confirmDelete(template)}>
+          <MaterialIcons name="delete" size={18} color="#ef4444" />
+          <Text style={[styles.templateActionText, { color: "#ef4444" }]}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+    </Card>
+  )
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>Roster Templates</Text>
+          <Text style={styles.headerSubtitle}>Weekly routes that become daily assignments</Text>
+        </View>
+        <TouchableOpacity onPress={openNewTemplate} style={styles.addButton}>
+          <MaterialIcons name="add" size={24} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.helpText}>
+          Assignments for the coming week are made from these templates. Editing a day's assignment by hand
+          keeps it as it is, whatever the template says.
+        </Text>
+
+        {loading ? (
+          <Text style={styles.emptyText}>Loading roster templates...</Text>
+        ) : templates.length === 0 ? (
+          <Card style={styles.emptyCard}>
+            <MaterialIcons name="event-repeat" size={48} color="#9ca3af" />
+            <Text style={styles.emptyText}>No roster templates yet. Tap + to add one.</Text>
+          </Card>
+        ) : (
+          templates.map(renderTemplate)
+        )}
+
+        {/* The coming week */}
+        {!loading && preview.length > 0 && (
+          <View style={styles.previewSection}>
+            <View style={styles.previewHeader}>
+              <Text style={styles.sectionTitle}>This Week</Text>
+              <TouchableOpacity
+                style={[styles.generateButton, (generating || pendingChanges === 0) && styles.generateButtonDisabled]}
+                onPress={generateAssignments}
+                disabled={generating || pendingChanges === 0}
+              >
+                <Text style={styles.generateButtonText}>
+                  {generating ? "Generating..." : pendingChanges > 0 ? `Apply ${pendingChanges} Changes` : "Up to Date"}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {previewDates.map(date => (
+              <Card key={date} style={styles.previewCard}>
+                <Text style={styles.previewDate}>{formatPreviewDate(date)}</Text>
+                {preview.filter(plan => plan.date === date).map(plan => (
+                  <View key={`${plan.driverId}-${plan.action}`} style={styles.previewRow}>
+                    <Text style={styles.previewDriver}>{driverName(plan.driverId)}</Text>
+                    <Text style={styles.previewPoints}>{plan.feederPointIds.length} points</Text>
+                    <Text style={[styles.previewAction, { color: ACTION_LABELS[plan.action].color }]}>
+                      {ACTION_LABELS[plan.action].label}
+                    </Text>
+                  </View>
+                ))}
+              </Card>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Modal visible={formVisible} onDismiss={() => setFormVisible(false)} contentContainerStyle={styles.modal}>
+          <ScrollView>
+            <Text style={styles.modalTitle}>{editingId ? "Edit Roster Template" : "New Roster Template"}</Text>
+
+            <Text style={styles.formLabel}>Driver</Text>
+            <View style={styles.chipRow}>
+              {drivers.map(driver => (
+                <Chip
+                  key={driver.id}
+                  selected={form.driverId === driver.id}
+                  onPress={() => setForm(prev => ({ ...prev, driverId: driver.id }))}
+                  style={styles.dayChip}
+                >
+                  {driver.fullName}
+                </Chip>
+              ))}
+            </View>
+
+            <Text style={styles.formLabel}>Days</Text>
+            <View style={styles.chipRow}>
+              {WEEKDAY_LABELS.map((label, day) => (
+                <Chip
+                  key={label}
+                  selected={form.daysOfWeek.includes(day)}
+                  onPress={() => toggleIn("daysOfWeek", day)}
+                  style={styles.dayChip}
+                >
+                  {label}
+                </Chip>
+              ))}
+            </View>
+
+            <View style={styles.formRow}>
+              <View style={styles.formColumn}>
+                <TextInput
+                  mode="outlined"
+                  label="From"
+                  placeholder="YYYY-MM-DD"
+                  value={form.effectiveFrom}
+                  onChangeText={value => setForm(prev => ({ ...prev, effectiveFrom: value }))}
+                  style={styles.formInput}
+                  dense
+                />
+              </View>
+              <View style={styles.formColumn}>
+                <TextInput
+                  mode="outlined"
+                  label="To (optional)"
+                  placeholder="YYYY-MM-DD"
+                  value={form.effectiveTo}
+                  onChangeText={value => setForm(prev => ({ ...prev, effectiveTo: value }))}
+                  style={styles.formInput}
+                  dense
+                />
+              </View>
+            </View>
+
+            <Text style={styles.formLabel}>Feeder points ({form.feederPointIds.length} selected)</Text>
+            <ScrollView style={styles.pointList} nestedScrollEnabled>
+              {feederPoints.map(point => {
+                const selected = form.feederPointIds.includes(point.id!)
+                return (
+                  <TouchableOpacity key={point.id} style={styles.pointRow} onPress={() => toggleIn("feederPointIds", point.id)}>
+                    <MaterialIcons
+                      name={selected ? "check-box" : "check-box-outline-blank"}
+                      size={22}
+                      color={selected ? "#059669" : "#9ca3af"}
+                    />
+                    <View style={styles.pointText}>
+                      <Text style={styles.pointName}>{point.feederPointName}</Text>
+                      <Text style={styles.pointDetail}>{point.areaName}</Text>
+                    </View>
+                  </TouchableOpacity>
+                )
+              })}
+              {feederPoints.length === 0 && <Text style={styles.emptyText}>No feeder points assigned to you</Text>}
+            </ScrollView>
+
+            <Chip
+              icon={form.isActive ? "check" : "pause"}
+              selected={form.isActive}
+              onPress={() => setForm(prev => ({ ...prev, isActive: !prev.isActive }))}
+              style={styles.activeToggle}
+            >
+              {form.isActive ? "Active" : "Paused"}
+            </Chip>
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setFormVisible(false)}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.saveButton} onPress={saveTemplate} disabled={saving}>
+                <Text style={styles.saveButtonText}>{saving ? "Saving..." : "Save"}</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </Modal>
+      </Portal>
+    </SafeAreaView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  addButton: {
+    backgroundColor: "#3b82f6",
+    borderRadius: 20,
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  helpText: {
+    fontSize: 13,
+    color: "#6b7280",
+    marginBottom: 12,
+    lineHeight: 18,
+  },
+  templateCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  templateHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  templateName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  pausedChip: {
+    backgroundColor: "#f3f4f6",
+    height: 28,
+  },
+  pausedChipText: {
+    fontSize: 11,
+    color: "#6b7280",
+    fontWeight: "bold",
+  },
+  templateDays: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#111827",
+    marginVertical: 8,
+  },
+  templateDetail: {
+    fontSize: 13,
+    color: "#4b5563",
+    marginTop: 2,
+  },
+  divider: {
+    marginVertical: 12,
+  },
+  templateActions: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+  },
+  templateAction: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    padding: 4,
+  },
+  templateActionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#3b82f6",
+  },
+  emptyCard: {
+    padding: 32,
+    alignItems: "center",
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+    textAlign: "center",
+    marginTop: 12,
+  },
+  previewSection: {
+    marginTop: 12,
+    marginBottom: 24,
+  },
+  previewHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  generateButton: {
+    backgroundColor: "#3b82f6",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  generateButtonDisabled: {
+    backgroundColor: "#9ca3af",
+  },
+  generateButtonText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+  previewCard: {
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  previewDate: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+    marginBottom: 6,
+  },
+  previewRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 4,
+  },
+  previewDriver: {
+    flex: 1,
+    fontSize: 13,
+    color: "#374151",
+  },
+  previewPoints: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  previewAction: {
+    fontSize: 12,
+    fontWeight: "600",
+    minWidth: 90,
+    textAlign: "right",
+  },
+  modal: {
+    backgroundColor: "#ffffff",
+    margin: 20,
+    padding: 20,
+    borderRadius: 12,
+    maxHeight: "85%",
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#111827",
+    marginBottom: 16,
+  },
+  formInput: {
+    marginBottom: 12,
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  formColumn: {
+    flex: 1,
+  },
+  formLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 8,
+  },
+  dayChip: {
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  pointList: {
+    maxHeight: 240,
+    marginBottom: 8,
+  },
+  pointRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  pointText: {
+    flex: 1,
+  },
+  pointName: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#111827",
+  },
+  pointDetail: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  activeToggle: {
+    alignSelf: "flex-start",
+    marginVertical: 8,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#f3f4f6",
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  saveButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#3b82f6",
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+})
+
+export default ContractorRosterTemplates
@@ -19,12 +19,11 @@ import {
     query,
     where,
     orderBy,
-    doc,
-    updateDoc,
-    setDoc
-} from 'firebase/firestore';
-import { createUserWithEmailAndPassword } from 'firebase/auth';
-import { FIREBASE_AUTH, FIRESTORE_DB } from '../../../FirebaseConfig';
+    FIRESTORE_DB
+} from '../../../services/firestore';
+import { FIREBASE_AUTH } from '../../../FirebaseConfig';
+import { ApprovalService, ApprovalRequest } from '../../../services/ApprovalService';
+import { presentActivationCode } from '../../utils/activationCode';
 
 const { width, height } = Dimensions.get('window');
 
@@ -34,7 +33,6 @@ interface DriverRequest {
     email: string;
     phone: string;
     role: string;
-    password: string;
     requestedAt: string;
     status: string;
     approver: string;
@@ -55,6 +53,7 @@ const DriverApprovals = ({ navigation }: any) => {
     const [refreshing, setRefreshing] = useState(false);
     const [loading, setLoading] = useState(true);
     const [driverRequests, setDriverRequests] = useState<DriverRequest[]>([]);
+    const [awaitingActivation, setAwaitingActivation] = useState<ApprovalRequest[]>([]);
     const [myDrivers, setMyDrivers] = useState<Driver[]>([]);
     const [selectedTab, setSelectedTab] = useState('requests');
     const [contractorId, setContractorId] = useState('');
@@ -85,7 +84,10 @@ const DriverApprovals = ({ navigation }: any) => {
         try {
             await Promise.all([
                 fetchDriverRequests(),
-                fetchMyDrivers()
+                fetchMyDrivers(),
+                ApprovalService.getAwaitingActivationRequests(contractorId)
+                    .then(setAwaitingActivation)
+                    .catch(error => console.error('Error fetching drivers awaiting activation:', error))
             ]);
         } catch (error) {
             console.error('Error fetching data:', error);
@@ -138,37 +140,9 @@ const DriverApprovals = ({ navigation }: any) => {
 
     const handleApproveRequest = async (request: DriverRequest) => {
         try {
-            // Create user account
-            const userCredential = await createUserWithEmailAndPassword(
-                FIREBASE_AUTH,
-                request.email,
-                request.password
-            );
-
-            const user = userCredential.user;
-
-            // Store user data with contractor assignment
-            await setDoc(doc(FIRESTORE_DB, 'users', user.uid), {
-                uid: user.uid,
-                fullName: request.fullName,
-                email: request.email,
-                phone: request.phone,
-                role: request.role,
-                contractorId: contractorId,
-                createdAt: new Date().toISOString(),
-                isActive: true,
-                approvedAt: new Date().toISOString(),
-                approvedBy: contractorId
-            });
-
-            // Update approval request status
-            await updateDoc(doc(FIRESTORE_DB, 'approvalRequests', request.id), {
-                status: 'approved',
-                approvedAt: new Date().toISOString(),
-                approvedBy: contractorId
-            });
-
-            Alert.alert('Success', `${request.fullName} has been approved as your driver.`);
+            // The account is created when the driver redeems the code
+            const grant = await ApprovalService.approveRequest(request.id, contractorId);
+            presentActivationCode(grant, request.fullName);
             fetchData();
         } catch (error) {
             console.error('Error approving request:', error);
@@ -176,6 +150,17 @@ const DriverApprovals = ({ navigation }: any) => {
         }
     };
 
+    const handleReissueCode = async (request: ApprovalRequest) => {
+        try {
+            const grant = await ApprovalService.reissueActivationCode(request.id!, contractorId);
+            presentActivationCode(grant, request.fullName);
+            fetchData();
+        } catch (error) {
+            console.error('Error reissuing activation code:', error);
+            Alert.alert('Error', 'Failed to issue a new activation code');
+        }
+    };
+
     const handleRejectRequest = async (request: DriverRequest) => {
         Alert.alert(
             'Reject Request',
@@ -187,11 +172,7 @@ const DriverApprovals = ({ navigation }: any) => {
                     style: 'destructive',
                     onPress: async () => {
                         try {
-                            await updateDoc(doc(FIRESTORE_DB, 'approvalRequests', request.id), {
-                                status: 'rejected',
-                                rejectedAt: new Date().toISOString(),
-                                rejectedBy: contractorId
-                            });
+                            await ApprovalService.rejectRequest(request.id, contractorId);
                             Alert.alert('Success', 'Driver request has been rejected.');
                             fetchData();
                         } catch (error) {
@@ -206,10 +187,7 @@ const DriverApprovals = ({ navigation }: any) => {
 
     const toggleDriverStatus = async (driver: Driver) => {
         try {
-            await updateDoc(doc(FIRESTORE_DB, 'users', driver.id), {
-                isActive: !driver.isActive,
-                updatedAt: new Date().toISOString()
-            });
+            await ApprovalService.updateUserStatus(driver.id, !driver.isActive);
             Alert.alert('Success', `Driver ${driver.isActive ? 'deactivated' : 'activated'} successfully.`);
             fetchMyDrivers();
         } catch (error) {
@@ -283,6 +261,40 @@ const DriverApprovals = ({ navigation }: any) => {
                     </Card>
                 ))
             )}
+
+            {awaitingActivation.length > 0 && (
+                <>
+                    <Text style={styles.sectionTitle}>Awaiting Activation</Text>
+                    {awaitingActivation.map((request) => {
+                        const expired = !!request.activationExpiresAt && new Date(request.activationExpiresAt) < new Date();
+                        return (
+                            <Card key={request.id} style={styles.requestCard}>
+                                <View style={styles.requestHeader}>
+                                    <View style={styles.requestInfo}>
+                                        <Text style={styles.requestName}>{request.fullName}</Text>
+                                        <Text style={styles.requestDetailText}>{request.email}</Text>
+                                    </View>
+                                    <TouchableOpacity
+                                        style={styles.approveButton}
+                                        onPress={() => handleReissueCode(request)}
+                                    >
+                                        <MaterialIcons name="vpn-key" size={20} color="#fff" />
+                                        <Text style={styles.approveButtonText}>New Code</Text>
+                                    </TouchableOpacity>
+                                </View>
+                                {request.activationExpiresAt && (
+                                    <View style={styles.requestDetailRow}>
+                                        <MaterialIcons name="schedule" size={16} color={expired ? '#ef4444' : '#6b7280'} />
+                                        <Text style={styles.requestDetailText}>
+                                            {expired ? 'Code expired' : 'Code valid until'} {new Date(request.activationExpiresAt).toLocaleDateString()}
+                                        </Text>
+                                    </View>
+                                )}
+                            </Card>
+                        );
+                    })}
+                </>
+            )}
         </View>
     );
 
@@ -515,6 +527,13 @@ const styles = StyleSheet.create({
         textAlign: 'center',
         marginTop: 8,
     },
+    sectionTitle: {
+        fontSize: 16,
+        fontWeight: 'bold',
+        color: '#1f2937',
+        marginTop: 8,
+        marginBottom: 12,
+    },
     requestCard: {
         marginBottom: 16,
         borderRadius: 12,
@@ -15,8 +15,8 @@ import { MaterialIcons } from "@expo/vector-icons"
 import { ContractorService } from "../../../services/ContractorService"
 import { FeederPointService, FeederPoint } from "../../../services/FeederPointService"
 import FirebaseService from "../../../services/FirebaseService"
-import { doc, getDoc } from "firebase/firestore"
-import { FIRESTORE_DB } from "../../../FirebaseConfig"
+import { Vehicle as VehicleRecord, WithId } from "../../../services/domain"
+import { doc, getDoc, FIRESTORE_DB } from "../../../services/firestore"
 
 interface Driver {
   id: string
@@ -28,14 +28,7 @@ interface Driver {
   assignedFeederPointIds?: string[]
 }
 
-interface Vehicle {
-  id: string
-  vehicleNumber: string
-  type: string
-  capacity: number
-  status: string
-  driverId?: string
-}
+type Vehicle = WithId<VehicleRecord>
 
 const DriverAssignment = ({ route, navigation }: any) => {
   const { contractorId } = route.params || {}
@@ -525,7 +518,7 @@ const DriverAssignment = ({ route, navigation }: any) => {
                   >
                     <View style={styles.vehicleInfo}>
                       <Text style={styles.vehicleNumber}>{vehicle.vehicleNumber}</Text>
-                      <Text style={styles.vehicleType}>{vehicle.type} - {vehicle.capacity}kg</Text>
+                      <Text style={styles.vehicleType}>{vehicle.vehicleType} - {vehicle.capacity}kg</Text>
                     </View>
                     {selectedVehicle?.id === vehicle.id && (
                       <MaterialIcons name="check-circle" size={24} color="#059669" />
@@ -663,7 +656,7 @@ const DriverAssignment = ({ route, navigation }: any) => {
                     >
                       <View style={styles.vehicleInfo}>
                         <Text style={styles.vehicleNumber}>{vehicle.vehicleNumber}</Text>
-                        <Text style={styles.vehicleType}>{vehicle.type} - {vehicle.capacity}kg</Text>
+                        <Text style={styles.vehicleType}>{vehicle.vehicleType} - {vehicle.capacity}kg</Text>
                       </View>
                       {selectedVehiclesForTeam.includes(vehicle.id) && (
                         <MaterialIcons name="check-circle" size={24} color="#059669" />
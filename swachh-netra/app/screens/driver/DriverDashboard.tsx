@@ -16,6 +16,7 @@ import { MaterialIcons } from "@expo/vector-icons"
 import ProtectedRoute from "../../components/ProtectedRoute"
 import { useRequireAuth } from "../../hooks/useRequireAuth"
 import { DriverService, DriverDashboardData } from "../../../services/DriverService"
+import { MissedCollectionService } from "../../../services/MissedCollectionService"
 import EnhancedFeederPointsList from "../../components/EnhancedFeederPointsList"
 import { useQuickLogout } from "../../hooks/useLogout"
 
@@ -164,6 +165,8 @@ const DriverDashboard = ({ navigation }: any) => {
 
       setLastUpdated(new Date())
       console.log("✅ [DriverDashboard] Dashboard data loaded successfully")
+
+      MissedCollectionService.runCheckInBackground({ driverId: userData.uid })
     } catch (error) {
       console.error("❌ [DriverDashboard] Error fetching dashboard data:", error)
       Alert.alert("Error", "Failed to load dashboard data. Please try again.")
@@ -232,6 +235,14 @@ const DriverDashboard = ({ navigation }: any) => {
       bgColor: "#eff6ff",
       action: "attendance",
     },
+    {
+      title: "Attendance Corrections",
+      description: "Ask HR to fix a worker's mark",
+      icon: "fact-check",
+      color: "#0ea5e9",
+      bgColor: "#f0f9ff",
+      action: "corrections",
+    },
     {
       title: "Report Issue",
       description: "Report vehicle or route issues",
@@ -275,6 +286,9 @@ const DriverDashboard = ({ navigation }: any) => {
       case "attendance":
         handleWorkerAttendance()
         break
+      case "corrections":
+        navigation.navigate("AttendanceCorrectionRequests")
+        break
       case "reportIssue":
         Alert.alert("Report Issue", "Issue reporting will be implemented soon")
         break
@@ -19,7 +19,10 @@ import {
   LocationData,
   WorkerAttendanceRecord
 } from "../../../services/LocationBasedTripService"
+import { TripRecordingService } from "../../../services/TripRecordingService"
+import { nextTripNumberOf } from "../../../services/domain"
 import { useRequireAuth } from "../../hooks/useRequireAuth"
+import { useVehicleTracking } from "../../hooks/useVehicleTracking"
 
 const { width, height } = Dimensions.get("window")
 
@@ -43,7 +46,7 @@ interface AttendanceStatus {
 
 const LocationBasedTripStart = ({ navigation, route }: any) => {
   const { userData } = useRequireAuth(navigation)
-  const { feederPoint, vehicleId, vehicleNumber } = route.params || {}
+  const { feederPoint, vehicleId } = route.params || {}
 
   const [loading, setLoading] = useState(false)
   const [refreshing, setRefreshing] = useState(false)
@@ -61,6 +64,12 @@ const LocationBasedTripStart = ({ navigation, route }: any) => {
   const [cameraRef, setCameraRef] = useState<CameraView | null>(null)
   const [permission, requestPermission] = useCameraPermissions()
 
+  useVehicleTracking(
+    tripStarted && tripSessionId && vehicleId && userData?.uid
+      ? { vehicleId, driverId: userData.uid, tripId: tripSessionId }
+      : null
+  )
+
   useEffect(() => {
     checkLocationAndLoadData()
   }, [])
@@ -127,16 +136,19 @@ const LocationBasedTripStart = ({ navigation, route }: any) => {
     try {
       setLoading(true)
 
-      const tripId = await LocationBasedTripService.startTripSession(
-        userData.uid,
-        userData.displayName || userData.email || "Unknown Driver",
-        vehicleId,
-        vehicleNumber,
-        feederPoint.id,
+      const todayTrips = await TripRecordingService.getTodayTripsForFeederPoint(userData.uid, feederPoint.id)
+      const trip = await LocationBasedTripService.startTripAtFeederPoint(
+        {
+          driverId: userData.uid,
+          vehicleId,
+          feederPointId: feederPoint.id,
+          contractorId: userData.contractorId || "",
+          tripNumber: nextTripNumberOf(todayTrips)
+        },
         currentLocation
       )
 
-      setTripSessionId(tripId)
+      setTripSessionId(trip.id!)
       setTripStarted(true)
 
       Alert.alert(
@@ -147,7 +159,7 @@ const LocationBasedTripStart = ({ navigation, route }: any) => {
 
     } catch (error) {
       console.error("Error starting trip:", error)
-      Alert.alert("Error", "Failed to start trip. Please try again.")
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to start trip. Please try again.")
     } finally {
       setLoading(false)
     }
@@ -244,8 +256,7 @@ const LocationBasedTripStart = ({ navigation, route }: any) => {
               navigation.navigate('TripRecording', {
                 vehicleId,
                 feederPoints: [feederPoint],
-                driverId: userData.uid,
-                tripSessionId
+                driverId: userData.uid
               })
             }
           }
@@ -16,8 +16,12 @@ import { Card, Text, Button, Chip, FAB, ProgressBar } from "react-native-paper"
 import { MaterialIcons } from "@expo/vector-icons"
 import { Camera } from "expo-camera"
 import * as Location from "expo-location"
-import { TripRecordingService, TripData, TripStatus } from "../../../services/TripRecordingService"
+import { TripRecordingService, TripData, TripEvent, TripStage } from "../../../services/TripRecordingService"
+import { DEFAULT_COLLECTION_SCHEDULE, TRIP_STAGE_LABELS, tripStatusOf } from "../../../services/domain"
 import { useRequireAuth } from "../../hooks/useRequireAuth"
+import { useVehicleTracking } from "../../hooks/useVehicleTracking"
+import OfflineQueueCard from "../../components/OfflineQueueCard"
+import { OfflineQueueService } from "../../../services/OfflineQueueService"
 
 const { width, height } = Dimensions.get("window")
 
@@ -44,6 +48,13 @@ interface TripPhoto {
   type: 'before' | 'during' | 'after'
 }
 
+// The driver's next step at each stage; a departed trip is closed by unloading it
+const NEXT_STEP: { [stage in TripStage]?: { to: TripStage, label: string, icon: string } } = {
+  en_route: { to: "arrived", label: "Arrived at Point", icon: "map-marker-check" },
+  arrived: { to: "collecting", label: "Start Collection", icon: "delete-empty" },
+  collecting: { to: "departed", label: "Depart for Unloading", icon: "truck-delivery" },
+}
+
 const TripRecording = ({ navigation, route }: any) => {
   const { userData } = useRequireAuth(navigation)
   const { vehicleId, feederPoints, driverId } = route.params || {}
@@ -52,7 +63,7 @@ const TripRecording = ({ navigation, route }: any) => {
   const [currentTrip, setCurrentTrip] = useState<TripData | null>(null)
   const [feederPointTrips, setFeederPointTrips] = useState<FeederPointTrip[]>([])
   const [selectedFeederPoint, setSelectedFeederPoint] = useState<FeederPointTrip | null>(null)
-  const [tripStatus, setTripStatus] = useState<TripStatus>('not_started')
+  const [tripEvents, setTripEvents] = useState<TripEvent[]>([])
 
   // Trip data states
   const [wasteWeight, setWasteWeight] = useState("")
@@ -71,6 +82,15 @@ const TripRecording = ({ navigation, route }: any) => {
   const [tripStartTime, setTripStartTime] = useState<Date | null>(null)
   const [elapsedTime, setElapsedTime] = useState(0)
 
+  const stage = currentTrip?.stage
+  const nextStep = stage ? NEXT_STEP[stage] : undefined
+
+  useVehicleTracking(
+    currentTrip && vehicleId
+      ? { vehicleId, driverId, tripId: currentTrip.id }
+      : null
+  )
+
   useEffect(() => {
     if (feederPoints && feederPoints.length > 0) {
       initializeFeederPointTrips()
@@ -79,15 +99,19 @@ const TripRecording = ({ navigation, route }: any) => {
     }
   }, [feederPoints])
 
+  useEffect(() => {
+    if (currentTrip?.id) loadTripEvents(currentTrip.id)
+  }, [currentTrip?.id])
+
   useEffect(() => {
     let interval: NodeJS.Timeout
-    if (tripStatus === 'in_progress' && tripStartTime) {
+    if (currentTrip && tripStartTime) {
       interval = setInterval(() => {
         setElapsedTime(Math.floor((Date.now() - tripStartTime.getTime()) / 1000))
       }, 1000)
     }
     return () => clearInterval(interval)
-  }, [tripStatus, tripStartTime])
+  }, [currentTrip, tripStartTime])
 
   const requestPermissions = async () => {
     try {
@@ -130,6 +154,8 @@ const TripRecording = ({ navigation, route }: any) => {
         const completedTrips = tripData.filter(trip =>
           trip.feederPointId === fp.id && trip.status === 'completed'
         ).length
+        // Set from the feeder point's collection schedule; older callers may not pass it
+        const totalTrips = fp.totalTrips ?? DEFAULT_COLLECTION_SCHEDULE.tripsPerDay
 
         return {
           feederPointId: fp.id,
@@ -139,13 +165,22 @@ const TripRecording = ({ navigation, route }: any) => {
           nearestLandmark: fp.nearestLandmark,
           approximateHouseholds: fp.approximateHouseholds,
           completedTrips,
-          totalTrips: 3,
+          totalTrips,
           currentTripNumber: completedTrips + 1,
-          isActive: completedTrips < 3
+          isActive: completedTrips < totalTrips
         }
       })
 
       setFeederPointTrips(feederPointTrips)
+
+      // Pick up a trip left running, e.g. one started at the feeder point with worker attendance
+      const activeTrip = await TripRecordingService.getActiveTrip(driverId)
+      const activeFeederPoint = activeTrip && feederPointTrips.find(fp => fp.feederPointId === activeTrip.feederPointId)
+      if (activeTrip && activeFeederPoint) {
+        setCurrentTrip(activeTrip)
+        setSelectedFeederPoint({ ...activeFeederPoint, currentTripNumber: activeTrip.tripNumber })
+        setTripStartTime(activeTrip.startTime)
+      }
       console.log("✅ [TripRecording] Feeder point trips initialized")
 
     } catch (error) {
@@ -157,12 +192,12 @@ const TripRecording = ({ navigation, route }: any) => {
   }
 
   const startTrip = async (feederPoint: FeederPointTrip) => {
-    if (feederPoint.completedTrips >= 3) {
-      Alert.alert("Trips Complete", "All 3 trips for this feeder point have been completed today.")
+    if (feederPoint.completedTrips >= feederPoint.totalTrips) {
+      Alert.alert("Trips Complete", `All ${feederPoint.totalTrips} trips for this feeder point have been completed today.`)
       return
     }
 
-    if (tripStatus === 'in_progress') {
+    if (currentTrip) {
       Alert.alert("Trip in Progress", "Please complete the current trip before starting a new one.")
       return
     }
@@ -172,7 +207,7 @@ const TripRecording = ({ navigation, route }: any) => {
 
       await getCurrentLocation()
 
-      const tripData = await TripRecordingService.startTrip({
+      const { trip: tripData, queued } = await OfflineQueueService.startTrip({
         driverId,
         vehicleId,
         feederPointId: feederPoint.feederPointId,
@@ -183,7 +218,6 @@ const TripRecording = ({ navigation, route }: any) => {
 
       setCurrentTrip(tripData)
       setSelectedFeederPoint(feederPoint)
-      setTripStatus('in_progress')
       setTripStartTime(new Date())
       setWasteWeight("")
       setTripPhotos([])
@@ -191,7 +225,7 @@ const TripRecording = ({ navigation, route }: any) => {
 
       Alert.alert(
         "Trip Started",
-        `Trip ${feederPoint.currentTripNumber} started for ${feederPoint.feederPointName}`,
+        `Trip ${feederPoint.currentTripNumber} started for ${feederPoint.feederPointName}${queued ? "\n\nYou are offline. The trip will sync when the connection returns." : ""}`,
         [{ text: "OK" }]
       )
 
@@ -201,6 +235,71 @@ const TripRecording = ({ navigation, route }: any) => {
     }
   }
 
+  const loadTripEvents = async (tripId: string) => {
+    try {
+      setTripEvents(await TripRecordingService.getTripEvents(tripId))
+    } catch (error) {
+      // Offline the timeline keeps the steps taken on this device
+      console.error("❌ [TripRecording] Error loading trip events:", error)
+    }
+  }
+
+  const resetTrip = () => {
+    setCurrentTrip(null)
+    setSelectedFeederPoint(null)
+    setTripEvents([])
+    setTripStartTime(null)
+    setElapsedTime(0)
+    setWasteWeight("")
+    setTripPhotos([])
+    setTripNotes("")
+  }
+
+  const advanceTrip = async (to: TripStage, note?: string): Promise<boolean> => {
+    if (!currentTrip) return false
+
+    try {
+      console.log("➡️ [TripRecording] Moving trip to:", to)
+
+      await getCurrentLocation()
+
+      const actorId = driverId || userData?.uid
+      const location = currentLocation || undefined
+      const { queued } = await OfflineQueueService.advanceTrip(currentTrip.id!, to, { actorId, location, note })
+
+      setTripEvents(prev => [...prev, { tripId: currentTrip.id!, from: currentTrip.stage, to, actorId, at: new Date(), location, note }])
+      setCurrentTrip({ ...currentTrip, stage: to, status: tripStatusOf(to) })
+
+      if (queued) {
+        Alert.alert("Saved Offline", `Trip moved to ${TRIP_STAGE_LABELS[to]}. It will sync when the connection returns.`)
+      }
+      return true
+    } catch (error) {
+      console.error("❌ [TripRecording] Error moving trip:", error)
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to update the trip. Please try again.")
+      return false
+    }
+  }
+
+  const abortTrip = () => {
+    if (!currentTrip || !selectedFeederPoint) return
+
+    Alert.alert(
+      "Abort Trip",
+      `Abort trip ${selectedFeederPoint.currentTripNumber} at ${selectedFeederPoint.feederPointName}? It will not count towards today's trips.`,
+      [
+        { text: "Keep Trip" },
+        {
+          text: "Abort",
+          style: "destructive",
+          onPress: async () => {
+            if (await advanceTrip("aborted", "Aborted by driver")) resetTrip()
+          }
+        }
+      ]
+    )
+  }
+
   const endTrip = async () => {
     if (!currentTrip || !selectedFeederPoint) {
       Alert.alert("Error", "No active trip to end.")
@@ -229,10 +328,10 @@ const TripRecording = ({ navigation, route }: any) => {
 
       await getCurrentLocation()
 
-      await TripRecordingService.endTrip(currentTrip.id!, {
+      const { queued } = await OfflineQueueService.endTrip(currentTrip.id!, {
         endLocation: currentLocation,
         wasteWeight: parseFloat(wasteWeight),
-        photos: tripPhotos.map(photo => photo.uri),
+        photos: tripPhotos.map(photo => ({ uri: photo.uri, capturedAt: photo.timestamp, location: photo.location })),
         notes: tripNotes
       })
 
@@ -243,26 +342,25 @@ const TripRecording = ({ navigation, route }: any) => {
             ...fp,
             completedTrips: fp.completedTrips + 1,
             currentTripNumber: fp.completedTrips + 2,
-            isActive: fp.completedTrips + 1 < 3
+            isActive: fp.completedTrips + 1 < fp.totalTrips
           }
           : fp
       )
       setFeederPointTrips(updatedFeederPoints)
 
-      // Reset trip state
-      setCurrentTrip(null)
-      setSelectedFeederPoint(null)
-      setTripStatus('not_started')
-      setTripStartTime(null)
-      setElapsedTime(0)
-      setWasteWeight("")
-      setTripPhotos([])
-      setTripNotes("")
+      const tripId = currentTrip.id!
+      const hadWorkers = currentTrip.workerIds.length > 0
+      resetTrip()
 
       Alert.alert(
         "Trip Completed",
-        `Trip ${selectedFeederPoint.currentTripNumber} completed successfully!\n\nWaste collected: ${wasteWeight}kg`,
-        [{ text: "OK" }]
+        `Trip ${selectedFeederPoint.currentTripNumber} completed successfully!\n\nWaste collected: ${wasteWeight}kg${queued ? "\n\nSaved offline. It will sync when the connection returns." : ""}`,
+        hadWorkers
+          ? [
+            { text: "Later" },
+            { text: "Check Out Workers", onPress: () => checkOutTripWorkers(tripId) }
+          ]
+          : [{ text: "OK" }]
       )
 
     } catch (error) {
@@ -271,6 +369,25 @@ const TripRecording = ({ navigation, route }: any) => {
     }
   }
 
+  // Workers marked at the start of this trip leave with it
+  const checkOutTripWorkers = async (tripId: string) => {
+    try {
+      const { queued } = await OfflineQueueService.checkOutWorkers({
+        driverId: driverId || userData?.uid,
+        tripId,
+        checkOutTime: new Date(),
+        location: currentLocation || undefined
+      })
+      Alert.alert(
+        "Workers Checked Out",
+        queued ? "Saved offline. It will sync when the connection returns." : "Check-out recorded for the trip's workers."
+      )
+    } catch (error) {
+      console.error("❌ [TripRecording] Error checking out workers:", error)
+      Alert.alert("Error", "Failed to check out workers. You can check them out from Worker Attendance.")
+    }
+  }
+
   const openCamera = (type: 'before' | 'during' | 'after') => {
     if (!cameraPermission) {
       Alert.alert(
@@ -348,7 +465,7 @@ const TripRecording = ({ navigation, route }: any) => {
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Trip Recording</Text>
         <View style={styles.headerRight}>
-          {tripStatus === 'in_progress' && (
+          {currentTrip && (
             <Text style={styles.timerText}>{formatTime(elapsedTime)}</Text>
           )}
         </View>
@@ -366,12 +483,14 @@ const TripRecording = ({ navigation, route }: any) => {
           </View>
         </Card>
 
+        <OfflineQueueCard operations={["startTrip", "advanceTrip", "endTrip", "checkOut"]} />
+
         {/* Current Trip Status */}
-        {tripStatus === 'in_progress' && selectedFeederPoint && (
+        {currentTrip && stage && selectedFeederPoint && (
           <Card style={styles.currentTripCard}>
             <View style={styles.currentTripHeader}>
               <MaterialIcons name="play-circle-filled" size={24} color="#10b981" />
-              <Text style={styles.currentTripTitle}>Trip in Progress</Text>
+              <Text style={styles.currentTripTitle}>{TRIP_STAGE_LABELS[stage]}</Text>
               <Chip mode="outlined" style={styles.activeChip}>
                 Trip {selectedFeederPoint.currentTripNumber}
               </Chip>
@@ -380,20 +499,35 @@ const TripRecording = ({ navigation, route }: any) => {
             <Text style={styles.currentTripLocation}>{selectedFeederPoint.feederPointName}</Text>
             <Text style={styles.currentTripArea}>{selectedFeederPoint.areaName}, Ward {selectedFeederPoint.wardNumber}</Text>
 
+            {tripEvents.length > 0 && (
+              <View style={styles.timeline}>
+                {tripEvents.map((event, index) => (
+                  <View key={event.id || index} style={styles.timelineRow}>
+                    <Text style={styles.timelineTime}>
+                      {event.at.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                    </Text>
+                    <Text style={styles.timelineLabel}>{TRIP_STAGE_LABELS[event.to]}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
             <View style={styles.tripDataSection}>
               <Text style={styles.sectionTitle}>Trip Data</Text>
 
               {/* Waste Weight Input */}
-              <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Waste Weight (kg) *</Text>
-                <TextInput
-                  style={styles.weightInput}
-                  value={wasteWeight}
-                  onChangeText={setWasteWeight}
-                  placeholder="Enter weight in kg"
-                  keyboardType="numeric"
-                />
-              </View>
+              {stage === "departed" && (
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Waste Weight (kg) *</Text>
+                  <TextInput
+                    style={styles.weightInput}
+                    value={wasteWeight}
+                    onChangeText={setWasteWeight}
+                    placeholder="Enter weight in kg"
+                    keyboardType="numeric"
+                  />
+                </View>
+              )}
 
               {/* Photos Section */}
               <View style={styles.photosSection}>
@@ -438,26 +572,42 @@ const TripRecording = ({ navigation, route }: any) => {
               </View>
 
               {/* Notes Input */}
-              <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Notes (Optional)</Text>
-                <TextInput
-                  style={styles.notesInput}
-                  value={tripNotes}
-                  onChangeText={setTripNotes}
-                  placeholder="Add any notes about this trip..."
-                  multiline
-                  numberOfLines={3}
-                />
-              </View>
-
-              {/* End Trip Button */}
-              <Button
-                mode="contained"
-                onPress={endTrip}
-                style={styles.endTripButton}
-                icon="stop"
-              >
-                End Trip
+              {stage === "departed" && (
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Notes (Optional)</Text>
+                  <TextInput
+                    style={styles.notesInput}
+                    value={tripNotes}
+                    onChangeText={setTripNotes}
+                    placeholder="Add any notes about this trip..."
+                    multiline
+                    numberOfLines={3}
+                  />
+                </View>
+              )}
+
+              {/* Next Stage / Unload Button */}
+              {nextStep ? (
+                <Button
+                  mode="contained"
+                  onPress={() => advanceTrip(nextStep.to)}
+                  style={styles.endTripButton}
+                  icon={nextStep.icon}
+                >
+                  {nextStep.label}
+                </Button>
+              ) : (
+                <Button
+                  mode="contained"
+                  onPress={endTrip}
+                  style={styles.endTripButton}
+                  icon="stop"
+                >
+                  Unload & Close Trip
+                </Button>
+              )}
+              <Button mode="text" onPress={abortTrip} textColor="#ef4444">
+                Abort Trip
               </Button>
             </View>
           </Card>
@@ -500,14 +650,14 @@ const TripRecording = ({ navigation, route }: any) => {
                       mode="contained"
                       onPress={() => startTrip(feederPoint)}
                       style={styles.startTripButton}
-                      disabled={tripStatus === 'in_progress'}
+                      disabled={!!currentTrip}
                       icon="play-arrow"
                     >
                       Start Trip {feederPoint.currentTripNumber}
                     </Button>
                   ) : (
                     <Chip mode="outlined" style={styles.completedChip}>
-                      ✅ All trips completed
+                      {feederPoint.totalTrips === 0 ? "No collection today" : "✅ All trips completed"}
                     </Chip>
                   )}
                 </View>
@@ -552,7 +702,7 @@ const TripRecording = ({ navigation, route }: any) => {
       </Modal>
 
       {/* Floating Action Button */}
-      {tripStatus !== 'in_progress' && (
+      {!currentTrip && (
         <FAB
           style={styles.fab}
           icon="play-arrow"
@@ -727,6 +877,26 @@ const styles = StyleSheet.create({
     color: "#6b7280",
     marginTop: 4,
   },
+  timeline: {
+    marginTop: 12,
+    paddingLeft: 12,
+    borderLeftWidth: 2,
+    borderLeftColor: "#d1fae5",
+  },
+  timelineRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 2,
+  },
+  timelineTime: {
+    width: 56,
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  timelineLabel: {
+    fontSize: 13,
+    color: "#374151",
+  },
   endTripButton: {
     backgroundColor: "#ef4444",
     marginTop: 8,
@@ -12,13 +12,18 @@ import {
   Modal,
   Dimensions,
 } from "react-native"
-import { Card, Text, Button, Chip, FAB, Searchbar } from "react-native-paper"
+import { Card, Text, Button, Chip, FAB, Searchbar, ProgressBar } from "react-native-paper"
 import { MaterialIcons } from "@expo/vector-icons"
 import { Camera } from "expo-camera"
 import * as Location from "expo-location"
 import { WorkerAttendanceService, WorkerAttendanceData, AssignedWorker } from "../../../services/WorkerAttendanceService"
+import { ScannedWorker } from "../../../services/WorkerIdCardService"
 import { useRequireAuth } from "../../hooks/useRequireAuth"
 import { useProfessionalAlert } from "../../components/ProfessionalAlert"
+import OfflineQueueCard from "../../components/OfflineQueueCard"
+import CorrectionRequestModal, { CorrectableRecord } from "../../components/CorrectionRequestModal"
+import IdCardScannerModal from "../../components/IdCardScannerModal"
+import { OfflineQueueService } from "../../../services/OfflineQueueService"
 
 const { width, height } = Dimensions.get("window")
 
@@ -28,6 +33,7 @@ interface AttendancePhoto {
   location?: {
     latitude: number
     longitude: number
+    accuracy?: number
   }
 }
 
@@ -53,13 +59,17 @@ const WorkerAttendance = ({ navigation, route }: any) => {
   const [selectedWorker, setSelectedWorker] = useState<AssignedWorker | null>(null)
   const [capturedPhoto, setCapturedPhoto] = useState<AttendancePhoto | null>(null)
   const [cameraRef, setCameraRef] = useState<Camera | null>(null)
+  const [captureMode, setCaptureMode] = useState<'checkIn' | 'checkOut'>('checkIn')
 
   // Location state
-  const [currentLocation, setCurrentLocation] = useState<{ latitude: number, longitude: number } | null>(null)
+  const [currentLocation, setCurrentLocation] = useState<{ latitude: number, longitude: number, accuracy?: number } | null>(null)
 
   // Photo capture settings
   const [isPhotoRequired, setIsPhotoRequired] = useState(true)
   const [showAttendanceOptions, setShowAttendanceOptions] = useState(false)
+  const [photoUploadProgress, setPhotoUploadProgress] = useState<number | null>(null)
+  const [correctingRecord, setCorrectingRecord] = useState<CorrectableRecord | null>(null)
+  const [showIdScanner, setShowIdScanner] = useState(false)
 
   useEffect(() => {
     if (actualDriverId) {
@@ -117,7 +127,8 @@ const WorkerAttendance = ({ navigation, route }: any) => {
       const location = await Location.getCurrentPositionAsync({})
       setCurrentLocation({
         latitude: location.coords.latitude,
-        longitude: location.coords.longitude
+        longitude: location.coords.longitude,
+        accuracy: location.coords.accuracy ?? undefined
       })
     } catch (error) {
       console.error("❌ [WorkerAttendance] Error getting location:", error)
@@ -162,8 +173,22 @@ const WorkerAttendance = ({ navigation, route }: any) => {
     setFilteredWorkers(filtered)
   }
 
+  // A card that passed its checks belongs to a worker on one of this driver's feeder points,
+  // even when today's list has not picked them up yet
+  const handleIdCardScanned = (scanned: ScannedWorker) => {
+    setShowIdScanner(false)
+    const worker = assignedWorkers.find(w => w.workerId === scanned.workerId)
+      ?? { workerId: scanned.workerId, workerName: scanned.workerName, role: "Worker" }
+    if (worker.isPresent !== undefined) {
+      Alert.alert("Already Marked", `${worker.workerName}'s attendance has already been marked today.`)
+      return
+    }
+    handleMarkAttendance(worker)
+  }
+
   const handleMarkAttendance = (worker: AssignedWorker) => {
     setSelectedWorker(worker)
+    setCaptureMode('checkIn')
 
     if (isPhotoRequired) {
       // Photo is required - check camera permission and show camera
@@ -206,6 +231,11 @@ const WorkerAttendance = ({ navigation, route }: any) => {
       setCapturedPhoto(attendancePhoto)
       setShowCamera(false)
 
+      if (captureMode === 'checkOut') {
+        submitCheckOut(selectedWorker, attendancePhoto)
+        return
+      }
+
       // Show confirmation dialog
       showAttendanceConfirmation(attendancePhoto)
 
@@ -292,7 +322,7 @@ const WorkerAttendance = ({ navigation, route }: any) => {
         throw new Error('Driver ID is required')
       }
 
-      await WorkerAttendanceService.markWorkerAttendance({
+      const { queued } = await OfflineQueueService.markWorkerAttendance({
         workerId: selectedWorker.workerId,
         workerName: selectedWorker.workerName,
         driverId: actualDriverId,
@@ -301,7 +331,8 @@ const WorkerAttendance = ({ navigation, route }: any) => {
         checkInTime: new Date(),
         photoUri: photo?.uri,
         location: attendanceLocation,
-        notes: photo ? "Attendance marked with photo" : "Attendance marked without photo"
+        notes: photo ? "Attendance marked with photo" : "Attendance marked without photo",
+        onPhotoUploadProgress: photo ? setPhotoUploadProgress : undefined
       })
 
       // Update local state
@@ -314,7 +345,7 @@ const WorkerAttendance = ({ navigation, route }: any) => {
 
       showAlert({
         title: 'Attendance Marked',
-        message: `${selectedWorker.workerName} marked as ${isPresent ? 'present' : 'absent'}${photo ? ' with photo' : ' without photo'}.`,
+        message: `${selectedWorker.workerName} marked as ${isPresent ? 'present' : 'absent'}${photo ? ' with photo' : ' without photo'}.${queued ? '\n\nYou are offline. It will sync automatically when the connection returns.' : ''}`,
         type: 'success',
         buttons: [{ text: 'OK' }],
       })
@@ -332,9 +363,108 @@ const WorkerAttendance = ({ navigation, route }: any) => {
         type: 'error',
         buttons: [{ text: 'OK' }],
       })
+    } finally {
+      setPhotoUploadProgress(null)
+    }
+  }
+
+  const handleCheckOut = (worker: AssignedWorker) => {
+    setSelectedWorker(worker)
+    setCaptureMode('checkOut')
+
+    Alert.alert(
+      "Check Out",
+      `Record that ${worker.workerName} is leaving now?`,
+      [
+        {
+          text: "Cancel",
+          style: "cancel",
+          onPress: () => {
+            setSelectedWorker(null)
+            setCaptureMode('checkIn')
+          }
+        },
+        {
+          text: "Without Photo",
+          onPress: () => submitCheckOut(worker)
+        },
+        {
+          text: "With Photo",
+          onPress: () => {
+            if (!cameraPermission) {
+              Alert.alert("Camera Permission Required", "Please grant camera permission to capture check-out photos.")
+              setCaptureMode('checkIn')
+              return
+            }
+            setShowCamera(true)
+          }
+        }
+      ]
+    )
+  }
+
+  const submitCheckOut = async (worker: AssignedWorker, photo?: AttendancePhoto) => {
+    try {
+      console.log("🚪 [WorkerAttendance] Checking out:", worker.workerName, "With photo:", !!photo)
+
+      const checkOutTime = new Date()
+      const { queued } = await OfflineQueueService.checkOutWorkers({
+        driverId: actualDriverId,
+        workerId: worker.workerId,
+        workerName: worker.workerName,
+        checkOutTime,
+        photoUri: photo?.uri,
+        location: photo?.location || currentLocation || undefined,
+        onPhotoUploadProgress: photo ? setPhotoUploadProgress : undefined
+      })
+
+      setAssignedWorkers(assignedWorkers.map(candidate =>
+        candidate.workerId === worker.workerId ? { ...candidate, checkOutTime } : candidate
+      ))
+
+      showAlert({
+        title: 'Checked Out',
+        message: `${worker.workerName} checked out at ${checkOutTime.toLocaleTimeString()}.${queued ? '\n\nYou are offline. It will sync automatically when the connection returns.' : ''}`,
+        type: 'success',
+        buttons: [{ text: 'OK' }],
+      })
+    } catch (error) {
+      console.error("❌ [WorkerAttendance] Error checking out:", error)
+      showAlert({
+        title: 'Check-out Error',
+        message: error instanceof Error ? error.message : 'Failed to record check-out. Please try again.',
+        type: 'error',
+        buttons: [{ text: 'OK' }],
+      })
+    } finally {
+      setPhotoUploadProgress(null)
+      setCapturedPhoto(null)
+      setSelectedWorker(null)
+      setCaptureMode('checkIn')
     }
   }
 
+  // Marks already saved can only be changed through HR
+  const handleRequestCorrection = (worker: AssignedWorker) => {
+    if (!worker.attendanceRecordId || !worker.attendanceDate) {
+      Alert.alert("Not Synced Yet", "This mark has not reached the server yet. Try again once it has synced.")
+      return
+    }
+    setCorrectingRecord({
+      id: worker.attendanceRecordId,
+      workerName: worker.workerName,
+      attendanceDate: worker.attendanceDate,
+      status: worker.isPresent ? "present" : "absent",
+      checkInTime: worker.checkInTime,
+      checkOutTime: worker.checkOutTime,
+    })
+  }
+
+  const formatWorkedTime = (checkIn: Date, checkOut: Date) => {
+    const minutes = Math.max(0, Math.floor((checkOut.getTime() - checkIn.getTime()) / 60000))
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+  }
+
   const getAttendanceStats = () => {
     const total = assignedWorkers.length
     const present = assignedWorkers.filter(w => w.isPresent === true).length
@@ -404,6 +534,8 @@ const WorkerAttendance = ({ navigation, route }: any) => {
           </View>
         </Card>
 
+        <OfflineQueueCard operations={["markAttendance", "checkOut"]} />
+
         {/* Photo Settings */}
         <Card style={styles.settingsCard}>
           <Text style={styles.cardTitle}>Attendance Settings</Text>
@@ -436,6 +568,15 @@ const WorkerAttendance = ({ navigation, route }: any) => {
           style={styles.searchBar}
         />
 
+        <Button
+          mode="outlined"
+          icon="qrcode-scan"
+          onPress={() => setShowIdScanner(true)}
+          style={styles.scanButton}
+        >
+          Scan Worker ID Card
+        </Button>
+
         {/* Workers List */}
         <View style={styles.workersSection}>
           <Text style={styles.sectionTitle}>Assigned Workers ({filteredWorkers.length})</Text>
@@ -468,6 +609,13 @@ const WorkerAttendance = ({ navigation, route }: any) => {
                           Check-in: {worker.checkInTime.toLocaleTimeString()}
                         </Text>
                       )}
+
+                      {worker.checkOutTime && (
+                        <Text style={styles.checkOutTime}>
+                          Check-out: {worker.checkOutTime.toLocaleTimeString()}
+                          {worker.checkInTime ? ` (${formatWorkedTime(worker.checkInTime, worker.checkOutTime)})` : ''}
+                        </Text>
+                      )}
                     </View>
 
                     {worker.photoUri && (
@@ -487,6 +635,26 @@ const WorkerAttendance = ({ navigation, route }: any) => {
                       </Button>
                     </View>
                   )}
+
+                  {worker.isPresent !== undefined && (
+                    <TouchableOpacity onPress={() => handleRequestCorrection(worker)} style={styles.correctionLink}>
+                      <MaterialIcons name="edit-note" size={16} color="#6b7280" />
+                      <Text style={styles.correctionLinkText}>Request correction</Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {worker.isPresent === true && !worker.checkOutTime && (
+                    <View style={styles.actionButtons}>
+                      <Button
+                        mode="outlined"
+                        onPress={() => handleCheckOut(worker)}
+                        style={styles.attendanceButton}
+                        icon="logout"
+                      >
+                        Check Out
+                      </Button>
+                    </View>
+                  )}
                 </Card>
               ))}
             </View>
@@ -513,13 +681,16 @@ const WorkerAttendance = ({ navigation, route }: any) => {
             <View style={styles.cameraOverlay}>
               <View style={styles.cameraHeader}>
                 <TouchableOpacity
-                  onPress={() => setShowCamera(false)}
+                  onPress={() => {
+                    setShowCamera(false)
+                    setCaptureMode('checkIn')
+                  }}
                   style={styles.cameraCloseButton}
                 >
                   <MaterialIcons name="close" size={24} color="#ffffff" />
                 </TouchableOpacity>
                 <Text style={styles.cameraTitle}>
-                  Take photo for {selectedWorker?.workerName}
+                  {captureMode === 'checkOut' ? 'Check-out photo for' : 'Take photo for'} {selectedWorker?.workerName}
                 </Text>
               </View>
 
@@ -580,6 +751,19 @@ const WorkerAttendance = ({ navigation, route }: any) => {
         </View>
       </Modal>
 
+      {/* Photo Upload Progress */}
+      <Modal visible={photoUploadProgress !== null} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={styles.attendanceOptionsModal}>
+            <Text style={styles.modalTitle}>Uploading Photo</Text>
+            <Text style={styles.modalSubtitle}>
+              {Math.round((photoUploadProgress || 0) * 100)}% uploaded
+            </Text>
+            <ProgressBar progress={photoUploadProgress || 0} color="#2563eb" />
+          </View>
+        </View>
+      </Modal>
+
       {/* Floating Action Button */}
       <FAB
         style={styles.fab}
@@ -595,6 +779,22 @@ const WorkerAttendance = ({ navigation, route }: any) => {
         }}
       />
 
+      {actualDriverId && (
+        <IdCardScannerModal
+          visible={showIdScanner}
+          driverId={actualDriverId}
+          onScanned={handleIdCardScanned}
+          onClose={() => setShowIdScanner(false)}
+        />
+      )}
+
+      <CorrectionRequestModal
+        record={correctingRecord}
+        requestedBy={actualDriverId}
+        onDismiss={() => setCorrectingRecord(null)}
+        onSubmitted={() => setCorrectingRecord(null)}
+      />
+
       {/* Professional Alert Component */}
       <AlertComponent />
     </SafeAreaView>
@@ -667,6 +867,10 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     elevation: 2,
   },
+  scanButton: {
+    marginBottom: 16,
+    borderColor: "#059669",
+  },
   // Workers section styles
   workersSection: {
     marginBottom: 100, // Space for FAB
@@ -722,6 +926,12 @@ const styles = StyleSheet.create({
     color: "#10b981",
     fontWeight: "500",
   },
+  checkOutTime: {
+    fontSize: 12,
+    color: "#6b7280",
+    fontWeight: "500",
+    marginTop: 2,
+  },
   attendancePhoto: {
     width: 60,
     height: 60,
@@ -735,6 +945,18 @@ const styles = StyleSheet.create({
   attendanceButton: {
     marginTop: 8,
   },
+  correctionLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-end",
+    gap: 4,
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  correctionLinkText: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
   // Empty state styles
   emptyCard: {
     padding: 32,
@@ -0,0 +1,471 @@
+import React, { useState, useEffect, useCallback } from "react"
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  Platform,
+  Alert,
+  Image,
+} from "react-native"
+import { Card, Text, Chip, TextInput, Divider, Modal, Portal } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import ProtectedRoute from "../../components/ProtectedRoute"
+import PhotoEvidenceModal from "../../components/PhotoEvidenceModal"
+import { useRequireAuth } from "../../hooks/useRequireAuth"
+import {
+  AttendanceCorrectionService,
+  AttendanceCorrection,
+  CorrectableAttendance,
+} from "../../../services/AttendanceCorrectionService"
+import { PhotoEvidence, WithId, isRemotePhotoUrl } from "../../../services/domain"
+
+type Tab = "pending" | "reviewed"
+
+const STATUS_COLORS = {
+  pending: "#f59e0b",
+  approved: "#10b981",
+  rejected: "#ef4444",
+}
+
+const REQUESTER_LABELS = {
+  driver: "Driver",
+  transport_contractor: "Contractor",
+}
+
+const formatTime = (date?: Date) =>
+  date ? date.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" }) : "—"
+
+const describe = (value: Partial<CorrectableAttendance>, fallback: CorrectableAttendance) => {
+  const status = value.status ?? fallback.status
+  if (status === "absent") return "Absent"
+  return `Present · ${formatTime(value.checkInTime ?? fallback.checkInTime)} – ${formatTime(value.checkOutTime ?? fallback.checkOutTime)}`
+}
+
+const AttendanceCorrections = ({ navigation }: any) => {
+  const { hasAccess, userData } = useRequireAuth(navigation, { requiredPermission: "canReviewAttendanceCorrections" })
+  const [tab, setTab] = useState<Tab>("pending")
+  const [pending, setPending] = useState<WithId<AttendanceCorrection>[]>([])
+  const [reviewed, setReviewed] = useState<WithId<AttendanceCorrection>[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [viewingPhoto, setViewingPhoto] = useState<PhotoEvidence | null>(null)
+
+  // Rejecting needs a note for the requester
+  const [rejecting, setRejecting] = useState<WithId<AttendanceCorrection> | null>(null)
+  const [rejectNote, setRejectNote] = useState("")
+
+  const loadData = useCallback(async () => {
+    try {
+      const [pendingList, approvedList, rejectedList] = await Promise.all([
+        AttendanceCorrectionService.getPendingCorrections(),
+        AttendanceCorrectionService.getCorrectionsByStatus("approved"),
+        AttendanceCorrectionService.getCorrectionsByStatus("rejected"),
+      ])
+      setPending(pendingList)
+      setReviewed(
+        [...approvedList, ...rejectedList]
+          .sort((a, b) => (b.reviewedAt ?? b.createdAt).getTime() - (a.reviewedAt ?? a.createdAt).getTime())
+          .slice(0, 50)
+      )
+    } catch (error) {
+      console.error("Error loading attendance corrections:", error)
+      Alert.alert("Error", "Failed to load correction requests")
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!hasAccess) return
+    setLoading(true)
+    loadData().finally(() => setLoading(false))
+  }, [hasAccess])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadData()
+    setRefreshing(false)
+  }
+
+  const approve = (correction: WithId<AttendanceCorrection>) => {
+    Alert.alert(
+      "Approve Correction",
+      `Change ${correction.workerName}'s attendance on ${correction.attendanceDate} to ${describe(correction.requested, correction.original)}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Approve",
+          onPress: async () => {
+            try {
+              setBusyId(correction.id)
+              await AttendanceCorrectionService.approveCorrection(correction.id, userData!.uid)
+              await loadData()
+            } catch (error) {
+              Alert.alert("Error", error instanceof Error ? error.message : "Failed to approve correction")
+            } finally {
+              setBusyId(null)
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const confirmReject = async () => {
+    if (!rejecting) return
+    try {
+      setBusyId(rejecting.id)
+      await AttendanceCorrectionService.rejectCorrection(rejecting.id, userData!.uid, rejectNote)
+      setRejecting(null)
+      setRejectNote("")
+      await loadData()
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to reject correction")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const renderCorrection = (correction: WithId<AttendanceCorrection>) => (
+    <Card key={correction.id} style={styles.correctionCard}>
+      <View style={styles.correctionHeader}>
+        <View style={styles.correctionTitle}>
+          <Text style={styles.workerName}>{correction.workerName}</Text>
+          <Text style={styles.correctionMeta}>
+            {correction.attendanceDate} · {REQUESTER_LABELS[correction.requestedByRole]} {correction.requestedByName}
+          </Text>
+        </View>
+        <Chip
+          style={[styles.statusChip, { backgroundColor: STATUS_COLORS[correction.status] + "20" }]}
+          textStyle={[styles.statusChipText, { color: STATUS_COLORS[correction.status] }]}
+        >
+          {correction.status.toUpperCase()}
+        </Chip>
+      </View>
+
+      <View style={styles.changeRow}>
+        <Text style={styles.changeLabel}>Recorded</Text>
+        <Text style={styles.changeValue}>{describe(correction.original, correction.original)}</Text>
+      </View>
+      <View style={styles.changeRow}>
+        <Text style={styles.changeLabel}>Requested</Text>
+        <Text style={[styles.changeValue, styles.requestedValue]}>{describe(correction.requested, correction.original)}</Text>
+      </View>
+
+      <Text style={styles.reason}>“{correction.reason}”</Text>
+
+      {correction.evidencePhoto && (
+        <TouchableOpacity style={styles.evidenceRow} onPress={() => setViewingPhoto(correction.evidencePhoto!)}>
+          {isRemotePhotoUrl(correction.evidencePhoto.url) ? (
+            <Image source={{ uri: correction.evidencePhoto.url }} style={styles.evidenceThumb} />
+          ) : (
+            <MaterialIcons name="photo" size={24} color="#6b7280" />
+          )}
+          <Text style={styles.evidenceText}>View evidence photo</Text>
+        </TouchableOpacity>
+      )}
+
+      {correction.status === "pending" ? (
+        <>
+          <Divider style={styles.divider} />
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.action}
+              onPress={() => setRejecting(correction)}
+              disabled={busyId === correction.id}
+            >
+              <MaterialIcons name="close" size={18} color="#ef4444" />
+              <Text style={[styles.actionText, { color: "#ef4444" }]}>Reject</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.action} onPress={() => approve(correction)} disabled={busyId === correction.id}>
+              <MaterialIcons name="check" size={18} color="#10b981" />
+              <Text style={[styles.actionText, { color: "#10b981" }]}>
+                {busyId === correction.id ? "Saving..." : "Approve"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      ) : (
+        <Text style={styles.reviewText}>
+          {correction.status === "approved" ? "Approved" : "Rejected"} by {correction.reviewedByName || "HR"}
+          {correction.reviewedAt ? ` on ${correction.reviewedAt.toLocaleDateString()}` : ""}
+          {correction.reviewNote ? ` — ${correction.reviewNote}` : ""}
+        </Text>
+      )}
+    </Card>
+  )
+
+  const list = tab === "pending" ? pending : reviewed
+
+  return (
+    <ProtectedRoute requiredPermission="canReviewAttendanceCorrections" navigation={navigation}>
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <MaterialIcons name="arrow-back" size={24} color="#111827" />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Attendance Corrections</Text>
+            <Text style={styles.headerSubtitle}>Changes requested by drivers and contractors</Text>
+          </View>
+        </View>
+
+        <View style={styles.tabs}>
+          <Chip selected={tab === "pending"} onPress={() => setTab("pending")} style={styles.tabChip}>
+            Pending ({pending.length})
+          </Chip>
+          <Chip selected={tab === "reviewed"} onPress={() => setTab("reviewed")} style={styles.tabChip}>
+            Reviewed
+          </Chip>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          showsVerticalScrollIndicator={false}
+        >
+          {loading ? (
+            <Text style={styles.emptyText}>Loading correction requests...</Text>
+          ) : list.length === 0 ? (
+            <Card style={styles.emptyCard}>
+              <MaterialIcons name="fact-check" size={48} color="#9ca3af" />
+              <Text style={styles.emptyText}>
+                {tab === "pending" ? "No corrections waiting for review" : "No reviewed corrections yet"}
+              </Text>
+            </Card>
+          ) : (
+            list.map(renderCorrection)
+          )}
+        </ScrollView>
+
+        <Portal>
+          <Modal visible={rejecting !== null} onDismiss={() => setRejecting(null)} contentContainerStyle={styles.modal}>
+            <Text style={styles.modalTitle}>Reject Correction</Text>
+            <TextInput
+              mode="outlined"
+              label="Note for the requester"
+              value={rejectNote}
+              onChangeText={setRejectNote}
+              multiline
+              numberOfLines={3}
+              style={styles.formInput}
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setRejecting(null)}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.rejectButton} onPress={confirmReject} disabled={busyId !== null}>
+                <Text style={styles.rejectButtonText}>Reject</Text>
+              </TouchableOpacity>
+            </View>
+          </Modal>
+        </Portal>
+
+        <PhotoEvidenceModal photo={viewingPhoto} caption="Correction evidence" onClose={() => setViewingPhoto(null)} />
+      </SafeAreaView>
+    </ProtectedRoute>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  tabs: {
+    flexDirection: "row",
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  tabChip: {
+    marginRight: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  correctionCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  correctionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+  },
+  correctionTitle: {
+    flex: 1,
+  },
+  workerName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  correctionMeta: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  statusChip: {
+    height: 28,
+  },
+  statusChipText: {
+    fontSize: 11,
+    fontWeight: "bold",
+  },
+  changeRow: {
+    flexDirection: "row",
+    marginBottom: 4,
+  },
+  changeLabel: {
+    width: 80,
+    fontSize: 13,
+    color: "#6b7280",
+  },
+  changeValue: {
+    flex: 1,
+    fontSize: 13,
+    color: "#374151",
+  },
+  requestedValue: {
+    fontWeight: "600",
+    color: "#111827",
+  },
+  reason: {
+    fontSize: 13,
+    fontStyle: "italic",
+    color: "#4b5563",
+    marginTop: 8,
+  },
+  evidenceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 10,
+  },
+  evidenceThumb: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+  },
+  evidenceText: {
+    fontSize: 13,
+    color: "#3b82f6",
+    fontWeight: "500",
+  },
+  divider: {
+    marginVertical: 12,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+  },
+  action: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    padding: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  reviewText: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 10,
+  },
+  emptyCard: {
+    padding: 32,
+    alignItems: "center",
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+    textAlign: "center",
+    marginTop: 12,
+  },
+  modal: {
+    backgroundColor: "#ffffff",
+    margin: 20,
+    padding: 20,
+    borderRadius: 12,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#111827",
+    marginBottom: 16,
+  },
+  formInput: {
+    marginBottom: 12,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 4,
+  },
+  cancelButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#f3f4f6",
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  rejectButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#ef4444",
+  },
+  rejectButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+})
+
+export default AttendanceCorrections
@@ -9,45 +9,31 @@ import {
   Alert,
   RefreshControl,
   Modal,
-  Image,
 } from "react-native"
 import { Card, Text, Button, Chip, Searchbar, DataTable } from "react-native-paper"
 import { MaterialIcons } from "@expo/vector-icons"
 import {
   collection,
-  doc,
   query,
   where,
   orderBy,
   getDocs,
-  updateDoc,
-  writeBatch,
-  serverTimestamp,
-  Timestamp
-} from 'firebase/firestore'
-import { FIRESTORE_DB } from "../../../FirebaseConfig"
+  Timestamp,
+  FIRESTORE_DB
+} from "../../../services/firestore"
 import { useRequireAuth } from "../../hooks/useRequireAuth"
 import { WorkerAttendanceService } from "../../../services/WorkerAttendanceService"
+import { AttendanceRecord, attendanceFromDoc } from "../../../services/domain"
 import AdminHeader from "../../components/AdminHeader"
 import AdminSidebar from "../../components/AdminSidebar"
+import PhotoEvidenceModal from "../../components/PhotoEvidenceModal"
+import AttendanceExportModal from "../../components/AttendanceExportModal"
 
-interface AttendanceRecord {
+// Rows shown on the dashboard always carry an id and display names
+interface AttendanceRow extends AttendanceRecord {
   id: string
-  workerId: string
-  workerName: string
-  feederPointId: string
   feederPointName: string
-  driverId: string
   driverName: string
-  tripId: string
-  status: 'present' | 'absent'
-  timestamp: Date
-  location: {
-    latitude: number
-    longitude: number
-  }
-  photoUri?: string
-  notes?: string
 }
 
 interface AttendanceStats {
@@ -66,8 +52,8 @@ const AttendanceDashboard = ({ navigation }: any) => {
   const [loading, setLoading] = useState(false)
   const [refreshing, setRefreshing] = useState(false)
   const [searchQuery, setSearchQuery] = useState("")
-  const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([])
-  const [filteredRecords, setFilteredRecords] = useState<AttendanceRecord[]>([])
+  const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRow[]>([])
+  const [filteredRecords, setFilteredRecords] = useState<AttendanceRow[]>([])
   const [stats, setStats] = useState<AttendanceStats>({
     totalRecords: 0,
     presentCount: 0,
@@ -75,7 +61,7 @@ const AttendanceDashboard = ({ navigation }: any) => {
     attendanceRate: 0
   })
   const [selectedDate, setSelectedDate] = useState(new Date())
-  const [selectedPhoto, setSelectedPhoto] = useState<string | null>(null)
+  const [selectedPhoto, setSelectedPhoto] = useState<AttendanceRow | null>(null)
 
   // Enhanced filtering states
   const [viewMode, setViewMode] = useState<'day' | 'range' | 'monthly'>('day')
@@ -87,11 +73,12 @@ const AttendanceDashboard = ({ navigation }: any) => {
   const [datePickerMode, setDatePickerMode] = useState<'start' | 'end' | 'single' | 'month'>('single')
 
   // Management capabilities states
-  const [editingRecord, setEditingRecord] = useState<AttendanceRecord | null>(null)
+  const [editingRecord, setEditingRecord] = useState<AttendanceRow | null>(null)
   const [showEditModal, setShowEditModal] = useState(false)
   const [bulkMode, setBulkMode] = useState(false)
   const [selectedRecords, setSelectedRecords] = useState<Set<string>>(new Set())
   const [showBulkActions, setShowBulkActions] = useState(false)
+  const [showExportModal, setShowExportModal] = useState(false)
 
   useEffect(() => {
     fetchAttendanceData()
@@ -101,38 +88,45 @@ const AttendanceDashboard = ({ navigation }: any) => {
     filterRecords()
   }, [attendanceRecords, searchQuery, employeeFilter])
 
+  // The period the dashboard shows for the current view mode
+  const getDateRange = () => {
+    let queryStartDate: Date
+    let queryEndDate: Date
+
+    // Determine date range based on view mode
+    switch (viewMode) {
+      case 'day':
+        queryStartDate = new Date(selectedDate)
+        queryStartDate.setHours(0, 0, 0, 0)
+        queryEndDate = new Date(selectedDate)
+        queryEndDate.setHours(23, 59, 59, 999)
+        break
+      case 'range':
+        queryStartDate = new Date(startDate)
+        queryStartDate.setHours(0, 0, 0, 0)
+        queryEndDate = new Date(endDate)
+        queryEndDate.setHours(23, 59, 59, 999)
+        break
+      case 'monthly':
+        queryStartDate = new Date(selectedMonth.getFullYear(), selectedMonth.getMonth(), 1)
+        queryEndDate = new Date(selectedMonth.getFullYear(), selectedMonth.getMonth() + 1, 0, 23, 59, 59, 999)
+        break
+      default:
+        queryStartDate = new Date(selectedDate)
+        queryStartDate.setHours(0, 0, 0, 0)
+        queryEndDate = new Date(selectedDate)
+        queryEndDate.setHours(23, 59, 59, 999)
+    }
+
+    return { queryStartDate, queryEndDate }
+  }
+
   const fetchAttendanceData = async () => {
     try {
       setLoading(true)
       console.log("🔄 [HR AttendanceDashboard] Fetching attendance data for mode:", viewMode)
 
-      let queryStartDate: Date
-      let queryEndDate: Date
-
-      // Determine date range based on view mode
-      switch (viewMode) {
-        case 'day':
-          queryStartDate = new Date(selectedDate)
-          queryStartDate.setHours(0, 0, 0, 0)
-          queryEndDate = new Date(selectedDate)
-          queryEndDate.setHours(23, 59, 59, 999)
-          break
-        case 'range':
-          queryStartDate = new Date(startDate)
-          queryStartDate.setHours(0, 0, 0, 0)
-          queryEndDate = new Date(endDate)
-          queryEndDate.setHours(23, 59, 59, 999)
-          break
-        case 'monthly':
-          queryStartDate = new Date(selectedMonth.getFullYear(), selectedMonth.getMonth(), 1)
-          queryEndDate = new Date(selectedMonth.getFullYear(), selectedMonth.getMonth() + 1, 0, 23, 59, 59, 999)
-          break
-        default:
-          queryStartDate = new Date(selectedDate)
-          queryStartDate.setHours(0, 0, 0, 0)
-          queryEndDate = new Date(selectedDate)
-          queryEndDate.setHours(23, 59, 59, 999)
-      }
+      const { queryStartDate, queryEndDate } = getDateRange()
 
       // Use direct Firestore query like admin dashboard for better reliability
       const attendanceQuery = query(
@@ -143,24 +137,16 @@ const AttendanceDashboard = ({ navigation }: any) => {
       )
 
       const attendanceSnapshot = await getDocs(attendanceQuery)
-      const records: AttendanceRecord[] = []
+      const records: AttendanceRow[] = []
 
       attendanceSnapshot.forEach((doc) => {
         const data = doc.data()
+        const record = attendanceFromDoc(doc.id, data)
         records.push({
+          ...record,
           id: doc.id,
-          workerId: data.workerId || "",
-          workerName: data.workerName || "Unknown Worker",
-          feederPointId: data.feederPointId || "",
-          feederPointName: data.feederPointName || "Unknown Point",
-          driverId: data.driverId || "",
-          driverName: data.driverName || "Unknown Driver",
-          tripId: data.tripId || "",
-          status: data.status || "absent",
-          timestamp: data.timestamp?.toDate() || new Date(),
-          location: data.location || { latitude: 0, longitude: 0 },
-          photoUri: data.photoUri,
-          notes: data.notes
+          feederPointName: record.feederPointName || "Unknown Point",
+          driverName: record.driverName || "Unknown Driver"
         })
       })
 
@@ -255,24 +241,21 @@ const AttendanceDashboard = ({ navigation }: any) => {
   }
 
   // Management functions
-  const handleEditRecord = (record: AttendanceRecord) => {
+  const handleEditRecord = (record: AttendanceRow) => {
     setEditingRecord(record)
     setShowEditModal(true)
   }
 
-  const handleUpdateRecord = async (updatedRecord: AttendanceRecord) => {
+  const handleUpdateRecord = async (updatedRecord: AttendanceRow) => {
     try {
       if (!updatedRecord.id) {
         throw new Error("Record ID is required for update")
       }
 
-      // Update the record in the database using direct Firestore update
-      const recordRef = doc(FIRESTORE_DB, "workerAttendance", updatedRecord.id)
-      await updateDoc(recordRef, {
+      await WorkerAttendanceService.updateAttendanceRecord(updatedRecord.id, {
         status: updatedRecord.status,
         notes: updatedRecord.notes || "",
-        timestamp: Timestamp.fromDate(updatedRecord.timestamp),
-        updatedAt: serverTimestamp()
+        timestamp: updatedRecord.timestamp,
       })
 
       // Update local state
@@ -312,16 +295,7 @@ const AttendanceDashboard = ({ navigation }: any) => {
     try {
       const recordsToUpdate = Array.from(selectedRecords)
 
-      // Use direct Firestore batch update
-      const batch = writeBatch(FIRESTORE_DB)
-      recordsToUpdate.forEach(recordId => {
-        const recordRef = doc(FIRESTORE_DB, "workerAttendance", recordId)
-        batch.update(recordRef, {
-          status: 'present',
-          updatedAt: serverTimestamp()
-        })
-      })
-      await batch.commit()
+      await WorkerAttendanceService.bulkUpdateAttendanceStatus(recordsToUpdate, "present")
 
       // Update local state
       setAttendanceRecords(prev =>
@@ -343,16 +317,7 @@ const AttendanceDashboard = ({ navigation }: any) => {
     try {
       const recordsToUpdate = Array.from(selectedRecords)
 
-      // Use direct Firestore batch update
-      const batch = writeBatch(FIRESTORE_DB)
-      recordsToUpdate.forEach(recordId => {
-        const recordRef = doc(FIRESTORE_DB, "workerAttendance", recordId)
-        batch.update(recordRef, {
-          status: 'absent',
-          updatedAt: serverTimestamp()
-        })
-      })
-      await batch.commit()
+      await WorkerAttendanceService.bulkUpdateAttendanceStatus(recordsToUpdate, "absent")
 
       // Update local state
       setAttendanceRecords(prev =>
@@ -371,9 +336,15 @@ const AttendanceDashboard = ({ navigation }: any) => {
   }
 
   const exportAttendanceData = () => {
-    Alert.alert("Coming Soon", "Attendance export functionality will be implemented")
+    if (!hasPermission('canExportAttendanceData')) {
+      Alert.alert("Access Denied", "You don't have permission to export attendance data")
+      return
+    }
+    setShowExportModal(true)
   }
 
+  const dateRange = getDateRange()
+
   if (loading && !refreshing) {
     return (
       <View style={styles.loadingContainer}>
@@ -744,10 +715,10 @@ const AttendanceDashboard = ({ navigation }: any) => {
                     </View>
                   </View>
 
-                  {record.photoUri && (
+                  {record.photo && (
                     <TouchableOpacity
                       style={styles.photoButton}
-                      onPress={() => setSelectedPhoto(record.photoUri!)}
+                      onPress={() => setSelectedPhoto(record)}
                     >
                       <MaterialIcons name="photo" size={16} color="#2563eb" />
                       <Text style={styles.photoButtonText}>View Photo</Text>
@@ -765,31 +736,20 @@ const AttendanceDashboard = ({ navigation }: any) => {
       </ScrollView>
 
       {/* Photo Modal */}
-      <Modal
-        visible={!!selectedPhoto}
-        transparent={true}
-        animationType="fade"
-        onRequestClose={() => setSelectedPhoto(null)}
-      >
-        <View style={styles.photoModalContainer}>
-          <TouchableOpacity
-            style={styles.photoModalOverlay}
-            onPress={() => setSelectedPhoto(null)}
-          >
-            <View style={styles.photoModalContent}>
-              {selectedPhoto && (
-                <Image source={{ uri: selectedPhoto }} style={styles.photoModalImage} />
-              )}
-              <TouchableOpacity
-                style={styles.photoCloseButton}
-                onPress={() => setSelectedPhoto(null)}
-              >
-                <MaterialIcons name="close" size={24} color="#ffffff" />
-              </TouchableOpacity>
-            </View>
-          </TouchableOpacity>
-        </View>
-      </Modal>
+      <AttendanceExportModal
+        visible={showExportModal}
+        records={filteredRecords}
+        startDate={dateRange.queryStartDate}
+        endDate={dateRange.queryEndDate}
+        employee={employeeFilter}
+        onDismiss={() => setShowExportModal(false)}
+      />
+
+      <PhotoEvidenceModal
+        photo={selectedPhoto?.photo || null}
+        caption={selectedPhoto ? `${selectedPhoto.workerName} · marked by ${selectedPhoto.driverName || "driver"}` : undefined}
+        onClose={() => setSelectedPhoto(null)}
+      />
 
       {/* Edit Record Modal */}
       <Modal visible={showEditModal} transparent animationType="slide">
@@ -1059,31 +1019,6 @@ const styles = StyleSheet.create({
     marginTop: 8,
     fontStyle: "italic",
   },
-  photoModalContainer: {
-    flex: 1,
-    backgroundColor: "rgba(0,0,0,0.9)",
-  },
-  photoModalOverlay: {
-    flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  photoModalContent: {
-    position: "relative",
-  },
-  photoModalImage: {
-    width: 300,
-    height: 400,
-    borderRadius: 8,
-  },
-  photoCloseButton: {
-    position: "absolute",
-    top: 10,
-    right: 10,
-    padding: 8,
-    backgroundColor: "rgba(0,0,0,0.5)",
-    borderRadius: 20,
-  },
   // New styles for enhanced features
   viewModeCard: {
     margin: 16,
@@ -0,0 +1,526 @@
+import React, { useState, useEffect, useCallback } from "react"
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  Platform,
+  Alert,
+  Image,
+  Linking,
+} from "react-native"
+import { Card, Text, Chip, TextInput, Divider, Modal, Portal } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import ProtectedRoute from "../../components/ProtectedRoute"
+import PhotoEvidenceModal from "../../components/PhotoEvidenceModal"
+import { useRequireAuth } from "../../hooks/useRequireAuth"
+import { AttendanceVerificationService } from "../../../services/AttendanceVerificationService"
+import {
+  ATTENDANCE_FLAG_LABELS,
+  AttendanceRecord,
+  PhotoEvidence,
+  WithId,
+  isRemotePhotoUrl,
+} from "../../../services/domain"
+
+type Tab = "pending" | "reviewed"
+
+const STATUS_COLORS = {
+  pending: "#f59e0b",
+  accepted: "#10b981",
+  rejected: "#ef4444",
+}
+
+const formatTime = (date?: Date) =>
+  date ? date.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" }) : "—"
+
+const formatDistance = (meters: number) => meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${meters} m`
+
+// Directions from the feeder point to where the mark was made, or the mark's location alone
+const mapUrlOf = (record: AttendanceRecord): string | null => {
+  const { location } = record
+  if (!location) return null
+  const destination = `${location.latitude},${location.longitude}`
+  const origin = record.verification?.feederPointLocation
+  return origin
+    ? `https://www.google.com/maps/dir/?api=1&origin=${origin.latitude},${origin.longitude}&destination=${destination}`
+    : `https://www.google.com/maps/search/?api=1&query=${destination}`
+}
+
+// Present marks made away from the feeder point or without a reliable GPS fix
+const FlaggedAttendance = ({ navigation }: any) => {
+  const { hasAccess, userData } = useRequireAuth(navigation, { requiredPermission: "canReviewAttendanceCorrections" })
+  const [tab, setTab] = useState<Tab>("pending")
+  const [pending, setPending] = useState<WithId<AttendanceRecord>[]>([])
+  const [reviewed, setReviewed] = useState<WithId<AttendanceRecord>[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [viewingPhoto, setViewingPhoto] = useState<PhotoEvidence | null>(null)
+
+  // Rejecting marks the worker absent and needs a note for the record
+  const [rejecting, setRejecting] = useState<WithId<AttendanceRecord> | null>(null)
+  const [rejectNote, setRejectNote] = useState("")
+
+  const loadData = useCallback(async () => {
+    try {
+      const [pendingList, acceptedList, rejectedList] = await Promise.all([
+        AttendanceVerificationService.getFlaggedAttendance("pending"),
+        AttendanceVerificationService.getFlaggedAttendance("accepted"),
+        AttendanceVerificationService.getFlaggedAttendance("rejected"),
+      ])
+      setPending(pendingList)
+      setReviewed(
+        [...acceptedList, ...rejectedList]
+          .sort((a, b) => (b.verification?.reviewedAt ?? b.timestamp).getTime() - (a.verification?.reviewedAt ?? a.timestamp).getTime())
+          .slice(0, 50)
+      )
+    } catch (error) {
+      console.error("Error loading flagged attendance:", error)
+      Alert.alert("Error", "Failed to load flagged attendance")
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!hasAccess) return
+    setLoading(true)
+    loadData().finally(() => setLoading(false))
+  }, [hasAccess])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadData()
+    setRefreshing(false)
+  }
+
+  const openMap = async (record: AttendanceRecord) => {
+    const url = mapUrlOf(record)
+    if (!url) return
+    try {
+      await Linking.openURL(url)
+    } catch (error) {
+      Alert.alert("Error", "Could not open the map")
+    }
+  }
+
+  const accept = (record: WithId<AttendanceRecord>) => {
+    Alert.alert(
+      "Accept Mark",
+      `Keep ${record.workerName} present on ${record.attendanceDate}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Accept",
+          onPress: async () => {
+            try {
+              setBusyId(record.id)
+              await AttendanceVerificationService.acceptFlaggedMark(record.id, userData!.uid)
+              await loadData()
+            } catch (error) {
+              Alert.alert("Error", error instanceof Error ? error.message : "Failed to accept mark")
+            } finally {
+              setBusyId(null)
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const confirmReject = async () => {
+    if (!rejecting) return
+    try {
+      setBusyId(rejecting.id)
+      await AttendanceVerificationService.rejectFlaggedMark(rejecting.id, userData!.uid, rejectNote)
+      setRejecting(null)
+      setRejectNote("")
+      await loadData()
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to reject mark")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const renderMark = (record: WithId<AttendanceRecord>) => {
+    const verification = record.verification!
+    const reviewStatus = verification.reviewStatus ?? "pending"
+    return (
+      <Card key={record.id} style={styles.markCard}>
+        <View style={styles.markHeader}>
+          <View style={styles.markTitle}>
+            <Text style={styles.workerName}>{record.workerName}</Text>
+            <Text style={styles.markMeta}>
+              {record.attendanceDate} · {formatTime(record.checkInTime ?? record.timestamp)} · Driver {record.driverName || record.driverId}
+            </Text>
+          </View>
+          <Chip
+            style={[styles.statusChip, { backgroundColor: STATUS_COLORS[reviewStatus] + "20" }]}
+            textStyle={[styles.statusChipText, { color: STATUS_COLORS[reviewStatus] }]}
+          >
+            {reviewStatus.toUpperCase()}
+          </Chip>
+        </View>
+
+        <View style={styles.flagRow}>
+          {verification.flags.map(flag => (
+            <Chip key={flag} style={styles.flagChip} textStyle={styles.flagChipText}>
+              {ATTENDANCE_FLAG_LABELS[flag]}
+            </Chip>
+          ))}
+        </View>
+
+        <View style={styles.changeRow}>
+          <Text style={styles.changeLabel}>Feeder point</Text>
+          <Text style={styles.changeValue}>{record.feederPointName || "Not assigned"}</Text>
+        </View>
+        <View style={styles.changeRow}>
+          <Text style={styles.changeLabel}>Distance</Text>
+          <Text style={styles.changeValue}>
+            {verification.distanceMeters !== undefined
+              ? `${formatDistance(verification.distanceMeters)} away${verification.radiusMeters > 0 ? ` (allowed ${formatDistance(verification.radiusMeters)})` : ""}`
+              : "Unknown"}
+          </Text>
+        </View>
+        <View style={styles.changeRow}>
+          <Text style={styles.changeLabel}>GPS accuracy</Text>
+          <Text style={styles.changeValue}>
+            {verification.accuracyMeters !== undefined ? `± ${formatDistance(verification.accuracyMeters)}` : "Not reported"}
+          </Text>
+        </View>
+
+        {record.location && (
+          <TouchableOpacity style={styles.mapRow} onPress={() => openMap(record)}>
+            <MaterialIcons name="map" size={24} color="#3b82f6" />
+            <Text style={styles.mapText}>
+              {verification.feederPointLocation ? "Show on map from feeder point" : "Show on map"}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {record.photo && (
+          <TouchableOpacity style={styles.evidenceRow} onPress={() => setViewingPhoto(record.photo!)}>
+            {isRemotePhotoUrl(record.photo.url) ? (
+              <Image source={{ uri: record.photo.url }} style={styles.evidenceThumb} />
+            ) : (
+              <MaterialIcons name="photo" size={24} color="#6b7280" />
+            )}
+            <Text style={styles.evidenceText}>View attendance photo</Text>
+          </TouchableOpacity>
+        )}
+
+        {reviewStatus === "pending" ? (
+          <>
+            <Divider style={styles.divider} />
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.action} onPress={() => setRejecting(record)} disabled={busyId === record.id}>
+                <MaterialIcons name="close" size={18} color="#ef4444" />
+                <Text style={[styles.actionText, { color: "#ef4444" }]}>Mark Absent</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.action} onPress={() => accept(record)} disabled={busyId === record.id}>
+                <MaterialIcons name="check" size={18} color="#10b981" />
+                <Text style={[styles.actionText, { color: "#10b981" }]}>
+                  {busyId === record.id ? "Saving..." : "Accept"}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : (
+          <Text style={styles.reviewText}>
+            {reviewStatus === "accepted" ? "Accepted" : "Marked absent"} by {verification.reviewedByName || "HR"}
+            {verification.reviewedAt ? ` on ${verification.reviewedAt.toLocaleDateString()}` : ""}
+            {verification.reviewNote ? ` — ${verification.reviewNote}` : ""}
+          </Text>
+        )}
+      </Card>
+    )
+  }
+
+  const list = tab === "pending" ? pending : reviewed
+
+  return (
+    <ProtectedRoute requiredPermission="canReviewAttendanceCorrections" navigation={navigation}>
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <MaterialIcons name="arrow-back" size={24} color="#111827" />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Flagged Attendance</Text>
+            <Text style={styles.headerSubtitle}>Marks made away from the feeder point or without reliable GPS</Text>
+          </View>
+        </View>
+
+        <View style={styles.tabs}>
+          <Chip selected={tab === "pending"} onPress={() => setTab("pending")} style={styles.tabChip}>
+            Pending ({pending.length})
+          </Chip>
+          <Chip selected={tab === "reviewed"} onPress={() => setTab("reviewed")} style={styles.tabChip}>
+            Reviewed
+          </Chip>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          showsVerticalScrollIndicator={false}
+        >
+          {loading ? (
+            <Text style={styles.emptyText}>Loading flagged attendance...</Text>
+          ) : list.length === 0 ? (
+            <Card style={styles.emptyCard}>
+              <MaterialIcons name="wrong-location" size={48} color="#9ca3af" />
+              <Text style={styles.emptyText}>
+                {tab === "pending" ? "No flagged marks waiting for review" : "No reviewed marks yet"}
+              </Text>
+            </Card>
+          ) : (
+            list.map(renderMark)
+          )}
+        </ScrollView>
+
+        <Portal>
+          <Modal visible={rejecting !== null} onDismiss={() => setRejecting(null)} contentContainerStyle={styles.modal}>
+            <Text style={styles.modalTitle}>Mark {rejecting?.workerName} Absent</Text>
+            <TextInput
+              mode="outlined"
+              label="Reason"
+              value={rejectNote}
+              onChangeText={setRejectNote}
+              multiline
+              numberOfLines={3}
+              style={styles.formInput}
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setRejecting(null)}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.rejectButton} onPress={confirmReject} disabled={busyId !== null}>
+                <Text style={styles.rejectButtonText}>Mark Absent</Text>
+              </TouchableOpacity>
+            </View>
+          </Modal>
+        </Portal>
+
+        <PhotoEvidenceModal photo={viewingPhoto} caption="Attendance photo" onClose={() => setViewingPhoto(null)} />
+      </SafeAreaView>
+    </ProtectedRoute>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  tabs: {
+    flexDirection: "row",
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  tabChip: {
+    marginRight: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  markCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  markHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+  },
+  markTitle: {
+    flex: 1,
+  },
+  workerName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  markMeta: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  statusChip: {
+    height: 28,
+  },
+  statusChipText: {
+    fontSize: 11,
+    fontWeight: "bold",
+  },
+  changeRow: {
+    flexDirection: "row",
+    marginBottom: 4,
+  },
+  changeLabel: {
+    width: 90,
+    fontSize: 13,
+    color: "#6b7280",
+  },
+  changeValue: {
+    flex: 1,
+    fontSize: 13,
+    color: "#374151",
+  },
+  flagRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 10,
+  },
+  flagChip: {
+    backgroundColor: "#fef3c7",
+  },
+  flagChipText: {
+    fontSize: 11,
+    color: "#92400e",
+  },
+  mapRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 10,
+  },
+  mapText: {
+    fontSize: 13,
+    color: "#3b82f6",
+    fontWeight: "500",
+  },
+  evidenceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 10,
+  },
+  evidenceThumb: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+  },
+  evidenceText: {
+    fontSize: 13,
+    color: "#3b82f6",
+    fontWeight: "500",
+  },
+  divider: {
+    marginVertical: 12,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+  },
+  action: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    padding: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  reviewText: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 10,
+  },
+  emptyCard: {
+    padding: 32,
+    alignItems: "center",
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+    textAlign: "center",
+    marginTop: 12,
+  },
+  modal: {
+    backgroundColor: "#ffffff",
+    margin: 20,
+    padding: 20,
+    borderRadius: 12,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#111827",
+    marginBottom: 16,
+  },
+  formInput: {
+    marginBottom: 12,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 4,
+  },
+  cancelButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#f3f4f6",
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  rejectButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#ef4444",
+  },
+  rejectButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+})
+
+export default FlaggedAttendance
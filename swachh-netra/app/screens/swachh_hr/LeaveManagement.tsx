@@ -0,0 +1,743 @@
+import React, { useState, useEffect, useCallback } from "react"
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  Platform,
+  Alert,
+} from "react-native"
+import { Card, Text, Chip, TextInput, Divider, Modal, Portal, Searchbar } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import ProtectedRoute from "../../components/ProtectedRoute"
+import { useRequireAuth } from "../../hooks/useRequireAuth"
+import {
+  LeaveService,
+  Holiday,
+  LeaveApplication,
+  LeaveBalances,
+  LeaveStatus,
+  LeaveType,
+} from "../../../services/LeaveService"
+import { WorkerAssignmentService, Worker } from "../../../services/WorkerAssignmentService"
+import { LEAVE_TYPES, LEAVE_TYPE_LABELS, WithId, attendanceDayKey } from "../../../services/domain"
+
+type Tab = "applications" | "holidays"
+
+const STATUS_COLORS: { [status in LeaveStatus]: string } = {
+  pending: "#f59e0b",
+  approved: "#10b981",
+  rejected: "#ef4444",
+  cancelled: "#6b7280",
+}
+
+interface ApplicationForm {
+  worker: Worker | null
+  leaveType: LeaveType
+  startDate: string
+  endDate: string
+  reason: string
+}
+
+const emptyApplication = (): ApplicationForm => ({
+  worker: null,
+  leaveType: "casual",
+  startDate: attendanceDayKey(new Date()),
+  endDate: attendanceDayKey(new Date()),
+  reason: "",
+})
+
+const LeaveManagement = ({ navigation }: any) => {
+  const { hasAccess, userData } = useRequireAuth(navigation, { requiredPermission: "canManageLeave" })
+  const [tab, setTab] = useState<Tab>("applications")
+  const [showAll, setShowAll] = useState(false)
+  const [applications, setApplications] = useState<WithId<LeaveApplication>[]>([])
+  const [holidays, setHolidays] = useState<WithId<Holiday>[]>([])
+  const [workers, setWorkers] = useState<Worker[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  // New application
+  const [applicationVisible, setApplicationVisible] = useState(false)
+  const [application, setApplication] = useState<ApplicationForm>(emptyApplication())
+  const [balances, setBalances] = useState<LeaveBalances | null>(null)
+  const [searchQuery, setSearchQuery] = useState("")
+
+  // New holiday
+  const [holidayVisible, setHolidayVisible] = useState(false)
+  const [holidayDate, setHolidayDate] = useState("")
+  const [holidayName, setHolidayName] = useState("")
+
+  // Rejecting
+  const [rejecting, setRejecting] = useState<WithId<LeaveApplication> | null>(null)
+  const [rejectNote, setRejectNote] = useState("")
+
+  const loadData = useCallback(async () => {
+    try {
+      const [applicationList, holidayList, workerList] = await Promise.all([
+        LeaveService.getLeaveApplications(showAll ? undefined : "pending"),
+        LeaveService.getHolidays(`${new Date().getFullYear()}-01-01`),
+        WorkerAssignmentService.getAllWorkers(),
+      ])
+      setApplications(applicationList)
+      setHolidays(holidayList)
+      setWorkers(workerList)
+    } catch (error) {
+      console.error("Error loading leave data:", error)
+      Alert.alert("Error", "Failed to load leave applications")
+    }
+  }, [showAll])
+
+  useEffect(() => {
+    if (!hasAccess) return
+    setLoading(true)
+    loadData().finally(() => setLoading(false))
+  }, [hasAccess, loadData])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadData()
+    setRefreshing(false)
+  }
+
+  const selectWorker = async (worker: Worker) => {
+    setApplication(prev => ({ ...prev, worker }))
+    setBalances(null)
+    try {
+      setBalances(await LeaveService.getLeaveBalances(worker.id))
+    } catch (error) {
+      console.error("Error loading leave balance:", error)
+    }
+  }
+
+  const submitApplication = async () => {
+    if (!userData?.uid) return
+    try {
+      setSaving(true)
+      await LeaveService.applyForLeave({
+        workerId: application.worker?.id || "",
+        workerName: application.worker?.fullName || "",
+        leaveType: application.leaveType,
+        startDate: application.startDate.trim(),
+        endDate: application.endDate.trim(),
+        reason: application.reason,
+        appliedBy: userData.uid,
+      })
+      setApplicationVisible(false)
+      await loadData()
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to apply for leave")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveHoliday = async () => {
+    if (!userData?.uid) return
+    try {
+      setSaving(true)
+      await LeaveService.saveHoliday(holidayDate.trim(), holidayName, userData.uid)
+      setHolidayVisible(false)
+      await loadData()
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to save holiday")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const confirmDeleteHoliday = (holiday: WithId<Holiday>) => {
+    Alert.alert("Remove Holiday", `Remove ${holiday.name} on ${holiday.date}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          if (!userData?.uid) return
+          try {
+            await LeaveService.deleteHoliday(holiday.date, userData.uid)
+            await loadData()
+          } catch (error) {
+            Alert.alert("Error", error instanceof Error ? error.message : "Failed to remove holiday")
+          }
+        },
+      },
+    ])
+  }
+
+  const approve = (leave: WithId<LeaveApplication>) => {
+    Alert.alert("Approve Leave", `Approve ${leave.leaveDates.length} days of ${LEAVE_TYPE_LABELS[leave.leaveType].toLowerCase()} leave for ${leave.workerName}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Approve",
+        onPress: async () => {
+          if (!userData?.uid) return
+          try {
+            await LeaveService.approveLeave(leave.id, userData.uid)
+            await loadData()
+          } catch (error) {
+            Alert.alert("Error", error instanceof Error ? error.message : "Failed to approve leave")
+          }
+        },
+      },
+    ])
+  }
+
+  const submitRejection = async () => {
+    if (!userData?.uid || !rejecting) return
+    try {
+      setSaving(true)
+      await LeaveService.rejectLeave(rejecting.id, userData.uid, rejectNote)
+      setRejecting(null)
+      await loadData()
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to reject leave")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const cancel = (leave: WithId<LeaveApplication>) => {
+    Alert.alert("Cancel Leave", `Cancel this leave for ${leave.workerName}? The days go back to their balance.`, [
+      { text: "Keep", style: "cancel" },
+      {
+        text: "Cancel Leave",
+        style: "destructive",
+        onPress: async () => {
+          if (!userData?.uid) return
+          try {
+            await LeaveService.cancelLeave(leave.id, userData.uid)
+            await loadData()
+          } catch (error) {
+            Alert.alert("Error", error instanceof Error ? error.message : "Failed to cancel leave")
+          }
+        },
+      },
+    ])
+  }
+
+  const openNew = () => {
+    if (tab === "applications") {
+      setApplication(emptyApplication())
+      setBalances(null)
+      setSearchQuery("")
+      setApplicationVisible(true)
+    } else {
+      setHolidayDate(attendanceDayKey(new Date()))
+      setHolidayName("")
+      setHolidayVisible(true)
+    }
+  }
+
+  const renderApplication = (leave: WithId<LeaveApplication>) => (
+    <Card key={leave.id} style={styles.itemCard}>
+      <View style={styles.itemHeader}>
+        <View style={styles.itemTitle}>
+          <Text style={styles.itemName}>{leave.workerName}</Text>
+          <Text style={styles.itemMeta}>
+            {LEAVE_TYPE_LABELS[leave.leaveType]} · {leave.startDate}
+            {leave.endDate !== leave.startDate ? ` to ${leave.endDate}` : ""} · {leave.leaveDates.length} days
+          </Text>
+        </View>
+        <Chip
+          style={[styles.statusChip, { backgroundColor: STATUS_COLORS[leave.status] + "20" }]}
+          textStyle={[styles.statusChipText, { color: STATUS_COLORS[leave.status] }]}
+        >
+          {leave.status.toUpperCase()}
+        </Chip>
+      </View>
+      <Text style={styles.itemDetail}>{leave.reason}</Text>
+      {leave.reviewNote && <Text style={styles.itemDetail}>Note: {leave.reviewNote}</Text>}
+
+      <Divider style={styles.divider} />
+      <View style={styles.itemActions}>
+        <TouchableOpacity
+          style={styles.itemAction}
+          onPress={() => navigation.navigate("WorkerAttendanceCalendar", { workerId: leave.workerId, workerName: leave.workerName })}
+        >
+          <MaterialIcons name="calendar-month" size={18} color="#3b82f6" />
+          <Text style={styles.itemActionText}>Calendar</Text>
+        </TouchableOpacity>
+        {leave.status === "pending" && (
+          <>
+            <TouchableOpacity style={styles.itemAction} onPress={() => approve(leave)}>
+              <MaterialIcons name="check" size={18} color="#10b981" />
+              <Text style={[styles.itemActionText, { color: "#10b981" }]}>Approve</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.itemAction}
+              onPress={() => {
+                setRejecting(leave)
+                setRejectNote("")
+              }}
+            >
+              <MaterialIcons name="close" size={18} color="#ef4444" />
+              <Text style={[styles.itemActionText, { color: "#ef4444" }]}>Reject</Text>
+            </TouchableOpacity>
+          </>
+        )}
+        {leave.status === "approved" && (
+          <TouchableOpacity style={styles.itemAction} onPress={() => cancel(leave)}>
+            <MaterialIcons name="undo" size={18} color="#6b7280" />
+            <Text style={[styles.itemActionText, { color: "#6b7280" }]}>Cancel</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </Card>
+  )
+
+  const renderHoliday = (holiday: WithId<Holiday>) => (
+    <Card key={holiday.id} style={styles.itemCard}>
+      <View style={styles.itemHeader}>
+        <MaterialIcons name="celebration" size={22} color="#f59e0b" />
+        <View style={styles.itemTitle}>
+          <Text style={styles.itemName}>{holiday.name}</Text>
+          <Text style={styles.itemMeta}>
+            {new Date(`${holiday.date}T00:00:00`).toLocaleDateString("en-US", { weekday: "short", day: "numeric", month: "short", year: "numeric" })}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={() => confirmDeleteHoliday(holiday)}>
+          <MaterialIcons name="delete" size={20} color="#ef4444" />
+        </TouchableOpacity>
+      </View>
+    </Card>
+  )
+
+  const searchLower = searchQuery.trim().toLowerCase()
+  const matchingWorkers = workers
+    .filter(worker => !searchLower || worker.fullName.toLowerCase().includes(searchLower))
+    .slice(0, 20)
+
+  const list = tab === "applications" ? applications : holidays
+
+  return (
+    <ProtectedRoute requiredPermission="canManageLeave" navigation={navigation}>
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <MaterialIcons name="arrow-back" size={24} color="#111827" />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Leave & Holidays</Text>
+            <Text style={styles.headerSubtitle}>Leave applications and the holiday calendar</Text>
+          </View>
+          <TouchableOpacity onPress={openNew} style={styles.addButton}>
+            <MaterialIcons name="add" size={24} color="#ffffff" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.tabs}>
+          <Chip selected={tab === "applications"} onPress={() => setTab("applications")} style={styles.tabChip}>
+            Leave
+          </Chip>
+          <Chip selected={tab === "holidays"} onPress={() => setTab("holidays")} style={styles.tabChip}>
+            Holidays ({holidays.length})
+          </Chip>
+          {tab === "applications" && (
+            <Chip
+              icon={showAll ? "filter-off" : "filter"}
+              onPress={() => setShowAll(prev => !prev)}
+              style={styles.tabChip}
+            >
+              {showAll ? "All" : "Pending"}
+            </Chip>
+          )}
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          showsVerticalScrollIndicator={false}
+        >
+          {loading ? (
+            <Text style={styles.emptyText}>Loading...</Text>
+          ) : list.length === 0 ? (
+            <Card style={styles.emptyCard}>
+              <MaterialIcons name={tab === "applications" ? "beach-access" : "celebration"} size={48} color="#9ca3af" />
+              <Text style={styles.emptyText}>
+                {tab === "applications"
+                  ? showAll ? "No leave applications yet" : "No leave waiting for review"
+                  : "No holidays this year. Tap + to add one."}
+              </Text>
+            </Card>
+          ) : tab === "applications" ? (
+            applications.map(renderApplication)
+          ) : (
+            holidays.map(renderHoliday)
+          )}
+        </ScrollView>
+
+        <Portal>
+          {/* New leave application */}
+          <Modal visible={applicationVisible} onDismiss={() => setApplicationVisible(false)} contentContainerStyle={styles.modal}>
+            <ScrollView>
+              <Text style={styles.modalTitle}>New Leave Application</Text>
+
+              {application.worker ? (
+                <TouchableOpacity style={styles.selectedWorker} onPress={() => setApplication(prev => ({ ...prev, worker: null }))}>
+                  <MaterialIcons name="person" size={20} color="#3b82f6" />
+                  <Text style={styles.itemName}>{application.worker.fullName}</Text>
+                  <MaterialIcons name="close" size={18} color="#6b7280" />
+                </TouchableOpacity>
+              ) : (
+                <>
+                  <Searchbar
+                    placeholder="Search workers"
+                    value={searchQuery}
+                    onChangeText={setSearchQuery}
+                    style={styles.searchbar}
+                  />
+                  <View style={styles.workerList}>
+                    {matchingWorkers.map(worker => (
+                      <TouchableOpacity key={worker.id} style={styles.workerRow} onPress={() => selectWorker(worker)}>
+                        <Text style={styles.workerName}>{worker.fullName}</Text>
+                      </TouchableOpacity>
+                    ))}
+                    {matchingWorkers.length === 0 && <Text style={styles.emptyText}>Nothing found</Text>}
+                  </View>
+                </>
+              )}
+
+              <Text style={styles.formLabel}>Type</Text>
+              <View style={styles.chipRow}>
+                {LEAVE_TYPES.map(leaveType => (
+                  <Chip
+                    key={leaveType}
+                    selected={application.leaveType === leaveType}
+                    onPress={() => setApplication(prev => ({ ...prev, leaveType }))}
+                    style={styles.typeChip}
+                  >
+                    {LEAVE_TYPE_LABELS[leaveType]}
+                    {balances ? ` (${balances[leaveType].remaining - balances[leaveType].pending})` : ""}
+                  </Chip>
+                ))}
+              </View>
+
+              <View style={styles.formRow}>
+                <TextInput
+                  mode="outlined"
+                  label="From"
+                  placeholder="YYYY-MM-DD"
+                  value={application.startDate}
+                  onChangeText={startDate => setApplication(prev => ({ ...prev, startDate }))}
+                  style={[styles.formInput, styles.formColumn]}
+                  dense
+                />
+                <TextInput
+                  mode="outlined"
+                  label="To"
+                  placeholder="YYYY-MM-DD"
+                  value={application.endDate}
+                  onChangeText={endDate => setApplication(prev => ({ ...prev, endDate }))}
+                  style={[styles.formInput, styles.formColumn]}
+                  dense
+                />
+              </View>
+              <TextInput
+                mode="outlined"
+                label="Reason"
+                value={application.reason}
+                onChangeText={reason => setApplication(prev => ({ ...prev, reason }))}
+                multiline
+                style={styles.formInput}
+              />
+              <Text style={styles.helpText}>Holidays and weekly offs in the range are not charged.</Text>
+
+              <View style={styles.modalActions}>
+                <TouchableOpacity style={styles.cancelButton} onPress={() => setApplicationVisible(false)}>
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.saveButton} onPress={submitApplication} disabled={saving}>
+                  <Text style={styles.saveButtonText}>{saving ? "Saving..." : "Submit"}</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </Modal>
+
+          {/* New holiday */}
+          <Modal visible={holidayVisible} onDismiss={() => setHolidayVisible(false)} contentContainerStyle={styles.modal}>
+            <Text style={styles.modalTitle}>Add Holiday</Text>
+            <TextInput
+              mode="outlined"
+              label="Date"
+              placeholder="YYYY-MM-DD"
+              value={holidayDate}
+              onChangeText={setHolidayDate}
+              style={styles.formInput}
+              dense
+            />
+            <TextInput
+              mode="outlined"
+              label="Name"
+              placeholder="Republic Day"
+              value={holidayName}
+              onChangeText={setHolidayName}
+              style={styles.formInput}
+              dense
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setHolidayVisible(false)}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.saveButton} onPress={saveHoliday} disabled={saving}>
+                <Text style={styles.saveButtonText}>{saving ? "Saving..." : "Save"}</Text>
+              </TouchableOpacity>
+            </View>
+          </Modal>
+
+          {/* Reject */}
+          <Modal visible={rejecting !== null} onDismiss={() => setRejecting(null)} contentContainerStyle={styles.modal}>
+            <Text style={styles.modalTitle}>Reject Leave</Text>
+            <Text style={styles.itemMeta}>{rejecting?.workerName} · {rejecting?.startDate} to {rejecting?.endDate}</Text>
+            <TextInput
+              mode="outlined"
+              label="Reason for rejection"
+              value={rejectNote}
+              onChangeText={setRejectNote}
+              multiline
+              style={[styles.formInput, styles.noteInput]}
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setRejecting(null)}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.saveButton, styles.rejectButton]} onPress={submitRejection} disabled={saving}>
+                <Text style={styles.saveButtonText}>{saving ? "Saving..." : "Reject"}</Text>
+              </TouchableOpacity>
+            </View>
+          </Modal>
+        </Portal>
+      </SafeAreaView>
+    </ProtectedRoute>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  addButton: {
+    backgroundColor: "#3b82f6",
+    borderRadius: 20,
+    padding: 8,
+  },
+  tabs: {
+    flexDirection: "row",
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  tabChip: {
+    marginRight: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  itemCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  itemHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  itemTitle: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  itemDetail: {
+    fontSize: 13,
+    color: "#4b5563",
+    marginTop: 8,
+  },
+  statusChip: {
+    height: 28,
+  },
+  statusChipText: {
+    fontSize: 11,
+    fontWeight: "bold",
+  },
+  divider: {
+    marginVertical: 12,
+  },
+  itemActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 16,
+  },
+  itemAction: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  itemActionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#3b82f6",
+  },
+  emptyCard: {
+    padding: 32,
+    alignItems: "center",
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+    textAlign: "center",
+    marginTop: 12,
+  },
+  helpText: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginBottom: 8,
+  },
+  modal: {
+    backgroundColor: "#ffffff",
+    margin: 20,
+    padding: 20,
+    borderRadius: 12,
+    maxHeight: "85%",
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#111827",
+    marginBottom: 16,
+  },
+  searchbar: {
+    marginBottom: 8,
+    elevation: 0,
+    backgroundColor: "#f3f4f6",
+  },
+  workerList: {
+    maxHeight: 200,
+    marginBottom: 12,
+  },
+  workerRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  workerName: {
+    fontSize: 14,
+    color: "#111827",
+  },
+  selectedWorker: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    padding: 12,
+    marginBottom: 12,
+    borderRadius: 8,
+    backgroundColor: "#eff6ff",
+  },
+  formLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 12,
+  },
+  typeChip: {
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  formColumn: {
+    flex: 1,
+  },
+  formInput: {
+    marginBottom: 12,
+  },
+  noteInput: {
+    marginTop: 12,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#f3f4f6",
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  saveButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#3b82f6",
+  },
+  rejectButton: {
+    backgroundColor: "#ef4444",
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+})
+
+export default LeaveManagement
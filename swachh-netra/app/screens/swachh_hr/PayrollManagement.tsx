@@ -0,0 +1,767 @@
+import React, { useState, useEffect, useCallback } from "react"
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  Platform,
+  Alert,
+  Share,
+} from "react-native"
+import { Card, Text, Chip, TextInput, Divider, Modal, Portal } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import ProtectedRoute from "../../components/ProtectedRoute"
+import { useRequireAuth } from "../../hooks/useRequireAuth"
+import { PayrollService, PayrollRun, Payslip, WageRate } from "../../../services/PayrollService"
+import { WithId, bankTransferFileOf, formatMoney, monthKeyOf, payslipText } from "../../../services/domain"
+
+type Tab = "run" | "rates"
+
+interface RateForm {
+  category: string
+  dailyRate: string
+  overtimeHourlyRate: string
+  deductionPercent: string
+}
+
+const emptyRate = (): RateForm => ({ category: "", dailyRate: "", overtimeHourlyRate: "", deductionPercent: "0" })
+
+const shiftMonth = (month: string, by: number): string => {
+  const [year, monthNumber] = month.split("-").map(Number)
+  return monthKeyOf(new Date(year, monthNumber - 1 + by, 1))
+}
+
+const monthLabel = (month: string): string =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString("en-US", { month: "long", year: "numeric" })
+
+const PayrollManagement = ({ navigation }: any) => {
+  const { hasAccess, userData } = useRequireAuth(navigation, { requiredPermission: "canManagePayroll" })
+  const [tab, setTab] = useState<Tab>("run")
+  const [month, setMonth] = useState(shiftMonth(monthKeyOf(new Date()), -1))
+  const [run, setRun] = useState<WithId<PayrollRun> | null>(null)
+  const [payslips, setPayslips] = useState<WithId<Payslip>[]>([])
+  const [rates, setRates] = useState<WithId<WageRate>[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  // Wage rate form
+  const [rateVisible, setRateVisible] = useState(false)
+  const [rateForm, setRateForm] = useState<RateForm>(emptyRate())
+
+  // Payslip detail
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [deductionLabel, setDeductionLabel] = useState("")
+  const [deductionAmount, setDeductionAmount] = useState("")
+
+  const loadData = useCallback(async () => {
+    try {
+      const [monthRun, monthPayslips, rateList] = await Promise.all([
+        PayrollService.getPayrollRun(month),
+        PayrollService.getPayslips(month),
+        PayrollService.getWageRates(),
+      ])
+      setRun(monthRun)
+      setPayslips(monthPayslips)
+      setRates(rateList)
+    } catch (error) {
+      console.error("Error loading payroll:", error)
+      Alert.alert("Error", "Failed to load payroll")
+    }
+  }, [month])
+
+  useEffect(() => {
+    if (!hasAccess) return
+    setLoading(true)
+    loadData().finally(() => setLoading(false))
+  }, [hasAccess, loadData])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadData()
+    setRefreshing(false)
+  }
+
+  const locked = run?.status === "approved"
+  const selected = payslips.find(payslip => payslip.id === selectedId) ?? null
+
+  const generate = () => {
+    const message = run
+      ? `Regenerate payroll for ${monthLabel(month)}? Pay is worked out again from attendance; deductions added by hand are kept.`
+      : `Generate payroll for ${monthLabel(month)} from attendance?`
+    Alert.alert(run ? "Regenerate Payroll" : "Generate Payroll", message, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: run ? "Regenerate" : "Generate",
+        onPress: async () => {
+          if (!userData?.uid) return
+          try {
+            setSaving(true)
+            await PayrollService.generatePayrollRun(month, userData.uid)
+            await loadData()
+          } catch (error) {
+            Alert.alert("Error", error instanceof Error ? error.message : "Failed to generate payroll")
+          } finally {
+            setSaving(false)
+          }
+        },
+      },
+    ])
+  }
+
+  const approve = () => {
+    if (!run) return
+    Alert.alert(
+      "Approve Payroll",
+      `Approve ${formatMoney(run.totalNet)} for ${run.workerCount} workers? The run is locked once approved.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Approve",
+          onPress: async () => {
+            if (!userData?.uid) return
+            try {
+              await PayrollService.approvePayrollRun(month, userData.uid)
+              await loadData()
+            } catch (error) {
+              Alert.alert("Error", error instanceof Error ? error.message : "Failed to approve payroll")
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const shareBankFile = async () => {
+    const { csv, missingBankDetails } = bankTransferFileOf(payslips)
+    try {
+      await Share.share({ title: `Wages ${month}.csv`, message: csv })
+      if (missingBankDetails.length > 0) {
+        Alert.alert(
+          "Missing Bank Details",
+          `${missingBankDetails.map(payslip => payslip.workerName).join(", ")} must be paid separately.`
+        )
+      }
+    } catch (error) {
+      console.error("Error sharing bank transfer file:", error)
+    }
+  }
+
+  const sharePayslip = async (payslip: Payslip) => {
+    try {
+      await Share.share({ title: `Payslip ${payslip.month} - ${payslip.workerName}`, message: payslipText(payslip) })
+    } catch (error) {
+      console.error("Error sharing payslip:", error)
+    }
+  }
+
+  const addDeduction = async () => {
+    if (!userData?.uid || !selected) return
+    try {
+      setSaving(true)
+      await PayrollService.addDeduction(selected.id, { label: deductionLabel, amount: Number(deductionAmount) || 0 }, userData.uid)
+      setDeductionLabel("")
+      setDeductionAmount("")
+      await loadData()
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to add deduction")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeDeduction = async (index: number) => {
+    if (!userData?.uid || !selected) return
+    try {
+      await PayrollService.removeDeduction(selected.id, index, userData.uid)
+      await loadData()
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to remove deduction")
+    }
+  }
+
+  const openRate = (rate?: WageRate) => {
+    setRateForm(rate
+      ? {
+        category: rate.category,
+        dailyRate: String(rate.dailyRate),
+        overtimeHourlyRate: String(rate.overtimeHourlyRate),
+        deductionPercent: String(rate.deductionPercent),
+      }
+      : emptyRate())
+    setRateVisible(true)
+  }
+
+  const saveRate = async () => {
+    if (!userData?.uid) return
+    try {
+      setSaving(true)
+      await PayrollService.saveWageRate({
+        category: rateForm.category,
+        dailyRate: Number(rateForm.dailyRate) || 0,
+        overtimeHourlyRate: Number(rateForm.overtimeHourlyRate) || 0,
+        deductionPercent: Number(rateForm.deductionPercent) || 0,
+      }, userData.uid)
+      setRateVisible(false)
+      await loadData()
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to save wage rate")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const confirmDeleteRate = (rate: WithId<WageRate>) => {
+    Alert.alert("Remove Wage Rate", `Remove the rate for ${rate.category}? Workers in this category are left out of new payroll runs.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          if (!userData?.uid) return
+          try {
+            await PayrollService.deleteWageRate(rate.id, userData.uid)
+            await loadData()
+          } catch (error) {
+            Alert.alert("Error", error instanceof Error ? error.message : "Failed to remove wage rate")
+          }
+        },
+      },
+    ])
+  }
+
+  const renderPayslip = (payslip: WithId<Payslip>) => (
+    <TouchableOpacity key={payslip.id} onPress={() => setSelectedId(payslip.id)}>
+      <Card style={styles.itemCard}>
+        <View style={styles.itemHeader}>
+          <View style={styles.itemTitle}>
+            <Text style={styles.itemName}>{payslip.workerName}</Text>
+            <Text style={styles.itemMeta}>
+              {payslip.category} · {payslip.presentDays} days
+              {payslip.halfDays > 0 ? ` + ${payslip.halfDays} half` : ""}
+              {payslip.leaveDays > 0 ? ` · ${payslip.leaveDays} leave` : ""}
+              {payslip.overtimeHours > 0 ? ` · ${payslip.overtimeHours}h OT` : ""}
+            </Text>
+          </View>
+          <View style={styles.amountColumn}>
+            <Text style={styles.amount}>{formatMoney(payslip.netPay)}</Text>
+            {!payslip.bankAccountNumber && <Text style={styles.warningText}>No bank details</Text>}
+          </View>
+        </View>
+      </Card>
+    </TouchableOpacity>
+  )
+
+  const renderRate = (rate: WithId<WageRate>) => (
+    <Card key={rate.id} style={styles.itemCard}>
+      <View style={styles.itemHeader}>
+        <MaterialIcons name="payments" size={22} color="#8b5cf6" />
+        <View style={styles.itemTitle}>
+          <Text style={styles.itemName}>{rate.category}</Text>
+          <Text style={styles.itemMeta}>
+            {formatMoney(rate.dailyRate)}/day · {formatMoney(rate.overtimeHourlyRate)}/OT hour · {rate.deductionPercent}% deduction
+          </Text>
+        </View>
+        <TouchableOpacity onPress={() => openRate(rate)}>
+          <MaterialIcons name="edit" size={20} color="#3b82f6" />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => confirmDeleteRate(rate)}>
+          <MaterialIcons name="delete" size={20} color="#ef4444" />
+        </TouchableOpacity>
+      </View>
+    </Card>
+  )
+
+  const detailRow = (label: string, value: string, emphasis?: boolean) => (
+    <View style={styles.detailRow}>
+      <Text style={emphasis ? styles.detailLabelStrong : styles.detailLabel}>{label}</Text>
+      <Text style={emphasis ? styles.detailValueStrong : styles.detailValue}>{value}</Text>
+    </View>
+  )
+
+  return (
+    <ProtectedRoute requiredPermission="canManagePayroll" navigation={navigation}>
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <MaterialIcons name="arrow-back" size={24} color="#111827" />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Payroll</Text>
+            <Text style={styles.headerSubtitle}>Monthly wages from attendance</Text>
+          </View>
+          {tab === "rates" && (
+            <TouchableOpacity onPress={() => openRate()} style={styles.addButton}>
+              <MaterialIcons name="add" size={24} color="#ffffff" />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.tabs}>
+          <Chip selected={tab === "run"} onPress={() => setTab("run")} style={styles.tabChip}>
+            Monthly Run
+          </Chip>
+          <Chip selected={tab === "rates"} onPress={() => setTab("rates")} style={styles.tabChip}>
+            Wage Rates ({rates.length})
+          </Chip>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          showsVerticalScrollIndicator={false}
+        >
+          {loading ? (
+            <Text style={styles.emptyText}>Loading...</Text>
+          ) : tab === "rates" ? (
+            rates.length === 0 ? (
+              <Card style={styles.emptyCard}>
+                <MaterialIcons name="payments" size={48} color="#9ca3af" />
+                <Text style={styles.emptyText}>No wage rates yet. Tap + to add a rate for each worker category.</Text>
+              </Card>
+            ) : (
+              rates.map(renderRate)
+            )
+          ) : (
+            <>
+              <View style={styles.monthPicker}>
+                <TouchableOpacity onPress={() => setMonth(prev => shiftMonth(prev, -1))}>
+                  <MaterialIcons name="chevron-left" size={28} color="#111827" />
+                </TouchableOpacity>
+                <Text style={styles.monthText}>{monthLabel(month)}</Text>
+                <TouchableOpacity onPress={() => setMonth(prev => shiftMonth(prev, 1))}>
+                  <MaterialIcons name="chevron-right" size={28} color="#111827" />
+                </TouchableOpacity>
+              </View>
+
+              <Card style={styles.itemCard}>
+                <View style={styles.itemHeader}>
+                  <Text style={[styles.itemName, styles.itemTitle]}>
+                    {run ? `${run.workerCount} payslips` : "Not generated yet"}
+                  </Text>
+                  {run && (
+                    <Chip
+                      style={[styles.statusChip, { backgroundColor: locked ? "#10b98120" : "#f59e0b20" }]}
+                      textStyle={[styles.statusChipText, { color: locked ? "#10b981" : "#f59e0b" }]}
+                    >
+                      {locked ? "APPROVED" : "DRAFT"}
+                    </Chip>
+                  )}
+                </View>
+                {run && (
+                  <>
+                    {detailRow("Gross pay", formatMoney(run.totalGross))}
+                    {detailRow("Deductions", formatMoney(run.totalDeductions))}
+                    {detailRow("Net pay", formatMoney(run.totalNet), true)}
+                    {run.skippedWorkers.length > 0 && (
+                      <Text style={styles.warningText}>
+                        Left out: {run.skippedWorkers.map(worker => `${worker.workerName} (${worker.reason})`).join(", ")}
+                      </Text>
+                    )}
+                  </>
+                )}
+
+                <Divider style={styles.divider} />
+                <View style={styles.itemActions}>
+                  {!locked && (
+                    <TouchableOpacity style={styles.itemAction} onPress={generate} disabled={saving}>
+                      <MaterialIcons name="calculate" size={18} color="#3b82f6" />
+                      <Text style={styles.itemActionText}>{saving ? "Working..." : run ? "Regenerate" : "Generate"}</Text>
+                    </TouchableOpacity>
+                  )}
+                  {run && !locked && (
+                    <TouchableOpacity style={styles.itemAction} onPress={approve}>
+                      <MaterialIcons name="lock" size={18} color="#10b981" />
+                      <Text style={[styles.itemActionText, { color: "#10b981" }]}>Approve</Text>
+                    </TouchableOpacity>
+                  )}
+                  {locked && (
+                    <TouchableOpacity style={styles.itemAction} onPress={shareBankFile}>
+                      <MaterialIcons name="account-balance" size={18} color="#3b82f6" />
+                      <Text style={styles.itemActionText}>Bank File</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </Card>
+
+              {payslips.map(renderPayslip)}
+            </>
+          )}
+        </ScrollView>
+
+        <Portal>
+          {/* Wage rate */}
+          <Modal visible={rateVisible} onDismiss={() => setRateVisible(false)} contentContainerStyle={styles.modal}>
+            <Text style={styles.modalTitle}>Wage Rate</Text>
+            <TextInput
+              mode="outlined"
+              label="Worker category"
+              placeholder="Sweeper"
+              value={rateForm.category}
+              onChangeText={category => setRateForm(prev => ({ ...prev, category }))}
+              style={styles.formInput}
+              dense
+            />
+            <View style={styles.formRow}>
+              <TextInput
+                mode="outlined"
+                label="Daily rate (₹)"
+                value={rateForm.dailyRate}
+                onChangeText={dailyRate => setRateForm(prev => ({ ...prev, dailyRate }))}
+                keyboardType="numeric"
+                style={[styles.formInput, styles.formColumn]}
+                dense
+              />
+              <TextInput
+                mode="outlined"
+                label="Overtime / hour (₹)"
+                value={rateForm.overtimeHourlyRate}
+                onChangeText={overtimeHourlyRate => setRateForm(prev => ({ ...prev, overtimeHourlyRate }))}
+                keyboardType="numeric"
+                style={[styles.formInput, styles.formColumn]}
+                dense
+              />
+            </View>
+            <TextInput
+              mode="outlined"
+              label="Statutory deduction (%)"
+              value={rateForm.deductionPercent}
+              onChangeText={deductionPercent => setRateForm(prev => ({ ...prev, deductionPercent }))}
+              keyboardType="numeric"
+              style={styles.formInput}
+              dense
+            />
+            <Text style={styles.helpText}>Workers are matched to a rate by the category on their worker profile.</Text>
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setRateVisible(false)}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.saveButton} onPress={saveRate} disabled={saving}>
+                <Text style={styles.saveButtonText}>{saving ? "Saving..." : "Save"}</Text>
+              </TouchableOpacity>
+            </View>
+          </Modal>
+
+          {/* Payslip */}
+          <Modal visible={selected !== null} onDismiss={() => setSelectedId(null)} contentContainerStyle={styles.modal}>
+            {selected && (
+              <ScrollView>
+                <Text style={styles.modalTitle}>{selected.workerName}</Text>
+                <Text style={styles.itemMeta}>
+                  {monthLabel(selected.month)} · {selected.category}
+                  {selected.employeeId ? ` · ${selected.employeeId}` : ""}
+                </Text>
+
+                <Divider style={styles.divider} />
+                {detailRow("Days present", String(selected.presentDays))}
+                {detailRow("Half days", String(selected.halfDays))}
+                {detailRow("Paid leave days", String(selected.leaveDays))}
+                {detailRow("Absent days", String(selected.absentDays))}
+                {detailRow("Overtime hours", String(selected.overtimeHours))}
+
+                <Divider style={styles.divider} />
+                {detailRow(`Basic (${formatMoney(selected.dailyRate)}/day)`, formatMoney(selected.basePay))}
+                {detailRow("Overtime", formatMoney(selected.overtimePay))}
+                {detailRow("Leave", formatMoney(selected.leavePay))}
+                {detailRow("Gross pay", formatMoney(selected.grossPay), true)}
+
+                <Divider style={styles.divider} />
+                {detailRow(`Statutory (${selected.deductionPercent}%)`, formatMoney(selected.statutoryDeduction))}
+                {selected.deductions.map((deduction, index) => (
+                  <View key={`${deduction.label}-${index}`} style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>{deduction.label}</Text>
+                    <View style={styles.deductionValue}>
+                      <Text style={styles.detailValue}>{formatMoney(deduction.amount)}</Text>
+                      {!locked && (
+                        <TouchableOpacity onPress={() => removeDeduction(index)}>
+                          <MaterialIcons name="close" size={16} color="#ef4444" />
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  </View>
+                ))}
+                {detailRow("Net pay", formatMoney(selected.netPay), true)}
+
+                {!locked && (
+                  <View style={[styles.formRow, styles.deductionForm]}>
+                    <TextInput
+                      mode="outlined"
+                      label="Deduction"
+                      placeholder="Advance"
+                      value={deductionLabel}
+                      onChangeText={setDeductionLabel}
+                      style={[styles.formInput, styles.formColumn]}
+                      dense
+                    />
+                    <TextInput
+                      mode="outlined"
+                      label="₹"
+                      value={deductionAmount}
+                      onChangeText={setDeductionAmount}
+                      keyboardType="numeric"
+                      style={[styles.formInput, styles.amountInput]}
+                      dense
+                    />
+                    <TouchableOpacity style={styles.addDeductionButton} onPress={addDeduction} disabled={saving}>
+                      <MaterialIcons name="add" size={20} color="#ffffff" />
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                <View style={styles.modalActions}>
+                  <TouchableOpacity style={styles.cancelButton} onPress={() => setSelectedId(null)}>
+                    <Text style={styles.cancelButtonText}>Close</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.saveButton} onPress={() => sharePayslip(selected)}>
+                    <Text style={styles.saveButtonText}>Share Payslip</Text>
+                  </TouchableOpacity>
+                </View>
+              </ScrollView>
+            )}
+          </Modal>
+        </Portal>
+      </SafeAreaView>
+    </ProtectedRoute>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  addButton: {
+    backgroundColor: "#3b82f6",
+    borderRadius: 20,
+    padding: 8,
+  },
+  tabs: {
+    flexDirection: "row",
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  tabChip: {
+    marginRight: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  monthPicker: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+  },
+  monthText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  itemCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  itemHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  itemTitle: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  amountColumn: {
+    alignItems: "flex-end",
+  },
+  amount: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  warningText: {
+    fontSize: 12,
+    color: "#d97706",
+    marginTop: 8,
+  },
+  statusChip: {
+    height: 28,
+  },
+  statusChipText: {
+    fontSize: 11,
+    fontWeight: "bold",
+  },
+  divider: {
+    marginVertical: 12,
+  },
+  itemActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 16,
+  },
+  itemAction: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  itemActionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#3b82f6",
+  },
+  detailRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: "#4b5563",
+  },
+  detailValue: {
+    fontSize: 14,
+    color: "#111827",
+  },
+  detailLabelStrong: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  detailValueStrong: {
+    fontSize: 14,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  deductionValue: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  deductionForm: {
+    alignItems: "center",
+    marginTop: 12,
+  },
+  amountInput: {
+    width: 90,
+  },
+  addDeductionButton: {
+    backgroundColor: "#3b82f6",
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 12,
+  },
+  emptyCard: {
+    padding: 32,
+    alignItems: "center",
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+    textAlign: "center",
+    marginTop: 12,
+  },
+  helpText: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginBottom: 8,
+  },
+  modal: {
+    backgroundColor: "#ffffff",
+    margin: 20,
+    padding: 20,
+    borderRadius: 12,
+    maxHeight: "85%",
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#111827",
+    marginBottom: 4,
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  formColumn: {
+    flex: 1,
+  },
+  formInput: {
+    marginBottom: 12,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#f3f4f6",
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  saveButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#3b82f6",
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+})
+
+export default PayrollManagement
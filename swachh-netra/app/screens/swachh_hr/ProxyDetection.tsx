@@ -0,0 +1,380 @@
+import React, { useState, useEffect, useCallback } from "react"
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  Platform,
+  Alert,
+  Image,
+} from "react-native"
+import { Card, Text, Chip } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import ProtectedRoute from "../../components/ProtectedRoute"
+import { useRequireAuth } from "../../hooks/useRequireAuth"
+import {
+  ProxyDetectionService,
+  ProxyDetectionReport,
+  FraudReportRow,
+  DuplicatePhotoGroup,
+  MarkBurst,
+} from "../../../services/ProxyDetectionService"
+import { WithId, isRemotePhotoUrl } from "../../../services/domain"
+
+type Tab = "drivers" | "contractors" | "photos" | "bursts"
+
+const TABS: { key: Tab, label: string }[] = [
+  { key: "drivers", label: "Drivers" },
+  { key: "contractors", label: "Contractors" },
+  { key: "photos", label: "Reused Photos" },
+  { key: "bursts", label: "Mark Bursts" },
+]
+
+const PERIODS = [7, 30]
+
+const formatTime = (date: Date) => date.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", second: "2-digit" })
+
+const rateColor = (rate: number) => rate >= 0.2 ? "#ef4444" : rate > 0 ? "#f59e0b" : "#10b981"
+
+// Reused attendance photos and crews marked in seconds, per driver and contractor
+const ProxyDetection = ({ navigation }: any) => {
+  const { hasAccess, userData } = useRequireAuth(navigation, { requiredPermission: "canReviewAttendanceCorrections" })
+  const [tab, setTab] = useState<Tab>("drivers")
+  const [periodDays, setPeriodDays] = useState(7)
+  const [report, setReport] = useState<WithId<ProxyDetectionReport> | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [running, setRunning] = useState(false)
+
+  const loadData = useCallback(async () => {
+    try {
+      setReport(await ProxyDetectionService.getLatestReport())
+    } catch (error) {
+      console.error("Error loading proxy detection report:", error)
+      Alert.alert("Error", "Failed to load the proxy attendance report")
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!hasAccess) return
+    setLoading(true)
+    loadData().finally(() => setLoading(false))
+  }, [hasAccess])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadData()
+    setRefreshing(false)
+  }
+
+  const runDetection = async () => {
+    const endDate = new Date()
+    const startDate = new Date(endDate)
+    startDate.setDate(startDate.getDate() - periodDays)
+    startDate.setHours(0, 0, 0, 0)
+
+    try {
+      setRunning(true)
+      setReport(await ProxyDetectionService.runDetection(startDate, endDate, userData!.uid))
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to run the check")
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const renderRow = (row: FraudReportRow) => (
+    <Card key={row.id} style={styles.markCard}>
+      <View style={styles.markHeader}>
+        <View style={styles.markTitle}>
+          <Text style={styles.workerName}>{row.name}</Text>
+          <Text style={styles.markMeta}>{row.marks} present marks</Text>
+        </View>
+        <Text style={[styles.rateText, { color: rateColor(row.suspiciousRate) }]}>
+          {Math.round(row.suspiciousRate * 100)}%
+        </Text>
+      </View>
+      <View style={styles.statsRow}>
+        <View style={styles.stat}>
+          <Text style={styles.statValue}>{row.duplicatePhotoMarks}</Text>
+          <Text style={styles.statLabel}>Reused photo</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statValue}>{row.burstMarks}</Text>
+          <Text style={styles.statLabel}>In a burst</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statValue}>{row.suspiciousMarks}</Text>
+          <Text style={styles.statLabel}>Suspicious</Text>
+        </View>
+      </View>
+    </Card>
+  )
+
+  const renderGroup = (group: DuplicatePhotoGroup) => (
+    <Card key={group.marks[0].recordId} style={styles.markCard}>
+      <Text style={styles.workerName}>Same photo on {group.marks.length} marks</Text>
+      {group.marks.map(mark => (
+        <Text key={mark.recordId} style={styles.markLine}>
+          {mark.attendanceDate} · {mark.workerName} · by {mark.driverName || mark.driverId}
+        </Text>
+      ))}
+      <View style={styles.thumbRow}>
+        {group.marks
+          .filter(mark => mark.photoUrl && isRemotePhotoUrl(mark.photoUrl))
+          .slice(0, 4)
+          .map(mark => <Image key={mark.recordId} source={{ uri: mark.photoUrl }} style={styles.evidenceThumb} />)}
+      </View>
+    </Card>
+  )
+
+  const renderBurst = (burst: MarkBurst) => (
+    <Card key={`${burst.driverId}_${burst.startedAt.getTime()}`} style={styles.markCard}>
+      <Text style={styles.workerName}>{burst.marks.length} workers marked by {burst.driverName || burst.driverId}</Text>
+      <Text style={styles.markMeta}>
+        {burst.startedAt.toLocaleDateString()} · {formatTime(burst.startedAt)} – {formatTime(burst.endedAt)}
+      </Text>
+      <Text style={styles.markLine}>{burst.marks.map(mark => mark.workerName).join(", ")}</Text>
+    </Card>
+  )
+
+  const renderTab = () => {
+    if (!report) return null
+    const lists = {
+      drivers: report.drivers.map(renderRow),
+      contractors: report.contractors.map(renderRow),
+      photos: report.duplicateGroups.map(renderGroup),
+      bursts: report.bursts.map(renderBurst),
+    }
+    return lists[tab].length > 0 ? lists[tab] : (
+      <Card style={styles.emptyCard}>
+        <MaterialIcons name="verified-user" size={48} color="#9ca3af" />
+        <Text style={styles.emptyText}>Nothing suspicious found</Text>
+      </Card>
+    )
+  }
+
+  return (
+    <ProtectedRoute requiredPermission="canReviewAttendanceCorrections" navigation={navigation}>
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <MaterialIcons name="arrow-back" size={24} color="#111827" />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Proxy Attendance Check</Text>
+            <Text style={styles.headerSubtitle}>Reused photos and crews marked in seconds</Text>
+          </View>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          showsVerticalScrollIndicator={false}
+        >
+          <Card style={styles.summaryCard}>
+            {report ? (
+              <>
+                <Text style={styles.summaryTitle}>
+                  {report.startDate.toLocaleDateString()} – {report.endDate.toLocaleDateString()}
+                </Text>
+                <Text style={styles.summaryText}>
+                  {report.recordsScanned} marks checked · {report.photosHashed} photos hashed
+                  {report.photosUnreadable > 0 ? ` · ${report.photosUnreadable} could not be read` : ""}
+                  {` · run ${report.createdAt.toLocaleString()}`}
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.summaryText}>{loading ? "Loading the last check..." : "No check has been run yet"}</Text>
+            )}
+            <View style={styles.periodRow}>
+              {PERIODS.map(days => (
+                <Chip key={days} selected={periodDays === days} onPress={() => setPeriodDays(days)} style={styles.tabChip}>
+                  Last {days} days
+                </Chip>
+              ))}
+              <TouchableOpacity style={styles.runButton} onPress={runDetection} disabled={running}>
+                <MaterialIcons name="policy" size={18} color="#ffffff" />
+                <Text style={styles.runButtonText}>{running ? "Checking..." : "Run Check"}</Text>
+              </TouchableOpacity>
+            </View>
+          </Card>
+
+          {report && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.tabs}>
+              {TABS.map(({ key, label }) => (
+                <Chip key={key} selected={tab === key} onPress={() => setTab(key)} style={styles.tabChip}>
+                  {label}
+                </Chip>
+              ))}
+            </ScrollView>
+          )}
+
+          {renderTab()}
+        </ScrollView>
+      </SafeAreaView>
+    </ProtectedRoute>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  tabs: {
+    flexDirection: "row",
+    marginBottom: 12,
+  },
+  tabChip: {
+    marginRight: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  summaryCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  summaryTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  summaryText: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 4,
+  },
+  periodRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 12,
+  },
+  runButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginLeft: "auto",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: "#3b82f6",
+  },
+  runButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+  statsRow: {
+    flexDirection: "row",
+    marginTop: 10,
+  },
+  stat: {
+    flex: 1,
+    alignItems: "center",
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  statLabel: {
+    fontSize: 11,
+    color: "#6b7280",
+  },
+  rateText: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  markLine: {
+    fontSize: 13,
+    color: "#374151",
+    marginTop: 4,
+  },
+  thumbRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 10,
+  },
+  markCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  markHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+  },
+  markTitle: {
+    flex: 1,
+  },
+  workerName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  markMeta: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  evidenceThumb: {
+    width: 56,
+    height: 56,
+    borderRadius: 6,
+  },
+  emptyCard: {
+    padding: 32,
+    alignItems: "center",
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+    textAlign: "center",
+    marginTop: 12,
+  },
+})
+
+export default ProxyDetection
@@ -0,0 +1,636 @@
+import React, { useState, useEffect, useCallback } from "react"
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  Platform,
+  Alert,
+} from "react-native"
+import { Card, Text, Chip, TextInput, Divider, Modal, Portal, Searchbar } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import ProtectedRoute from "../../components/ProtectedRoute"
+import { useRequireAuth } from "../../hooks/useRequireAuth"
+import {
+  ShiftPolicyService,
+  ShiftAssignment,
+  ShiftAssignmentTarget,
+  ShiftPolicy,
+  ShiftPolicyInput,
+} from "../../../services/ShiftPolicyService"
+import { WorkerAssignmentService, Worker, FeederPointSummary } from "../../../services/WorkerAssignmentService"
+import { STANDARD_SHIFT_POLICY, WEEKDAY_LABELS, WithId } from "../../../services/domain"
+
+// Form state keeps numbers as text so that fields can be cleared while typing
+interface PolicyForm {
+  name: string
+  startTime: string
+  endTime: string
+  graceMinutes: string
+  halfDayLateMinutes: string
+  halfDayMinimumHours: string
+  weeklyOffs: number[]
+  isDefault: boolean
+}
+
+const toForm = (policy: ShiftPolicy): PolicyForm => ({
+  name: policy.name,
+  startTime: policy.startTime,
+  endTime: policy.endTime,
+  graceMinutes: String(policy.graceMinutes),
+  halfDayLateMinutes: String(policy.halfDayLateMinutes),
+  halfDayMinimumHours: String(policy.halfDayMinimumHours),
+  weeklyOffs: [...policy.weeklyOffs],
+  isDefault: policy.isDefault,
+})
+
+const fromForm = (form: PolicyForm): ShiftPolicyInput => ({
+  name: form.name,
+  startTime: form.startTime,
+  endTime: form.endTime,
+  graceMinutes: Number(form.graceMinutes),
+  halfDayLateMinutes: Number(form.halfDayLateMinutes),
+  halfDayMinimumHours: Number(form.halfDayMinimumHours),
+  weeklyOffs: form.weeklyOffs,
+  isDefault: form.isDefault,
+})
+
+const describeWeeklyOffs = (days: number[]) =>
+  days.length > 0 ? days.map(day => WEEKDAY_LABELS[day]).join(", ") : "None"
+
+const ShiftPolicies = ({ navigation }: any) => {
+  const { hasAccess, userData } = useRequireAuth(navigation, { requiredPermission: "canManageAttendancePolicies" })
+  const [policies, setPolicies] = useState<WithId<ShiftPolicy>[]>([])
+  const [assignments, setAssignments] = useState<WithId<ShiftAssignment>[]>([])
+  const [workers, setWorkers] = useState<Worker[]>([])
+  const [feederPoints, setFeederPoints] = useState<FeederPointSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  // Editing: null id with an open form means a new policy
+  const [formVisible, setFormVisible] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<PolicyForm>(toForm({ ...STANDARD_SHIFT_POLICY, isDefault: false }))
+
+  // Assigning
+  const [assigningPolicy, setAssigningPolicy] = useState<WithId<ShiftPolicy> | null>(null)
+  const [assignTarget, setAssignTarget] = useState<ShiftAssignmentTarget>("worker")
+  const [searchQuery, setSearchQuery] = useState("")
+
+  const loadData = useCallback(async () => {
+    try {
+      const [policyList, assignmentList, workerList, feederPointList] = await Promise.all([
+        ShiftPolicyService.getPolicies(),
+        ShiftPolicyService.getAssignments(),
+        WorkerAssignmentService.getAllWorkers(),
+        WorkerAssignmentService.getAllFeederPoints(),
+      ])
+      setPolicies(policyList)
+      setAssignments(assignmentList)
+      setWorkers(workerList)
+      setFeederPoints(feederPointList)
+    } catch (error) {
+      console.error("Error loading shift policies:", error)
+      Alert.alert("Error", "Failed to load shift policies")
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!hasAccess) return
+    setLoading(true)
+    loadData().finally(() => setLoading(false))
+  }, [hasAccess])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadData()
+    setRefreshing(false)
+  }
+
+  const openNewPolicy = () => {
+    setEditingId(null)
+    setForm(toForm({ ...STANDARD_SHIFT_POLICY, name: "", isDefault: policies.length === 0 }))
+    setFormVisible(true)
+  }
+
+  const openEditPolicy = (policy: WithId<ShiftPolicy>) => {
+    setEditingId(policy.id)
+    setForm(toForm(policy))
+    setFormVisible(true)
+  }
+
+  const toggleWeeklyOff = (day: number) => {
+    setForm(prev => ({
+      ...prev,
+      weeklyOffs: prev.weeklyOffs.includes(day)
+        ? prev.weeklyOffs.filter(off => off !== day)
+        : [...prev.weeklyOffs, day],
+    }))
+  }
+
+  const savePolicy = async () => {
+    if (!userData?.uid) return
+    try {
+      setSaving(true)
+      await ShiftPolicyService.savePolicy(fromForm(form), userData.uid, editingId || undefined)
+      setFormVisible(false)
+      await loadData()
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to save shift policy")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const confirmDelete = (policy: WithId<ShiftPolicy>) => {
+    const assigned = assignments.filter(assignment => assignment.policyId === policy.id).length
+    Alert.alert(
+      "Delete Shift Policy",
+      `Delete "${policy.name}"?` +
+      (assigned > 0 ? ` Its ${assigned} assignments will fall back to their feeder point or the default policy.` : ""),
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await ShiftPolicyService.deletePolicy(policy.id)
+              await loadData()
+            } catch (error) {
+              Alert.alert("Error", error instanceof Error ? error.message : "Failed to delete shift policy")
+            }
+          }
+        }
+      ]
+    )
+  }
+
+  const policyIdFor = (targetType: ShiftAssignmentTarget, targetId: string) =>
+    assignments.find(assignment => assignment.targetType === targetType && assignment.targetId === targetId)?.policyId
+
+  const policyName = (policyId?: string) => policies.find(policy => policy.id === policyId)?.name
+
+  // Tapping a worker or point assigns it to the open policy, or clears it if it already has that policy
+  const toggleAssignment = async (targetId: string) => {
+    if (!assigningPolicy || !userData?.uid) return
+    const current = policyIdFor(assignTarget, targetId)
+    try {
+      await ShiftPolicyService.assignPolicy(
+        assignTarget,
+        targetId,
+        current === assigningPolicy.id ? null : assigningPolicy.id,
+        userData.uid
+      )
+      setAssignments(await ShiftPolicyService.getAssignments())
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to update assignment")
+    }
+  }
+
+  const renderPolicy = (policy: WithId<ShiftPolicy>) => {
+    const assignedWorkers = assignments.filter(a => a.policyId === policy.id && a.targetType === "worker").length
+    const assignedPoints = assignments.filter(a => a.policyId === policy.id && a.targetType === "feederPoint").length
+
+    return (
+      <Card key={policy.id} style={styles.policyCard}>
+        <View style={styles.policyHeader}>
+          <MaterialIcons name="schedule" size={22} color="#3b82f6" />
+          <Text style={styles.policyName}>{policy.name}</Text>
+          {policy.isDefault && (
+            <Chip style={styles.defaultChip} textStyle={styles.defaultChipText}>Default</Chip>
+          )}
+        </View>
+        <Text style={styles.policyTimes}>{policy.startTime} – {policy.endTime}</Text>
+        <Text style={styles.policyDetail}>Grace: {policy.graceMinutes} min</Text>
+        <Text style={styles.policyDetail}>
+          Half day: {policy.halfDayLateMinutes} min late or under {policy.halfDayMinimumHours} h worked
+        </Text>
+        <Text style={styles.policyDetail}>Weekly off: {describeWeeklyOffs(policy.weeklyOffs)}</Text>
+        <Text style={styles.policyDetail}>
+          Assigned to {assignedWorkers} workers and {assignedPoints} feeder points
+        </Text>
+
+        <Divider style={styles.divider} />
+        <View style={styles.policyActions}>
+          <TouchableOpacity style={styles.policyAction} onPress={() => openEditPolicy(policy)}>
+            <MaterialIcons name="edit" size={18} color="#3b82f6" />
+            <Text style={styles.policyActionText}>Edit</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.policyAction}
+            onPress={() => {
+              setAssigningPolicy(policy)
+              setSearchQuery("")
+            }}
+          >
+            <MaterialIcons name="person-add" size={18} color="#059669" />
+            <Text style={[styles.policyActionText, { color: "#059669" }]}>Assign</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.policyAction} onPress={() => confirmDelete(policy)}>
+            <MaterialIcons name="delete" size={18} color="#ef4444" />
+            <Text style={[styles.policyActionText, { color: "#ef4444" }]}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </Card>
+    )
+  }
+
+  const searchLower = searchQuery.trim().toLowerCase()
+  const assignTargets = assignTarget === "worker"
+    ? workers
+      .filter(worker => !searchLower || worker.fullName.toLowerCase().includes(searchLower))
+      .map(worker => ({ id: worker.id, name: worker.fullName, detail: worker.phoneNumber }))
+    : feederPoints
+      .filter(point => !searchLower || point.feederPointName.toLowerCase().includes(searchLower))
+      .map(point => ({ id: point.id, name: point.feederPointName, detail: point.areaName }))
+
+  const renderField = (label: string, field: keyof PolicyForm, options: { placeholder?: string, numeric?: boolean } = {}) => (
+    <TextInput
+      mode="outlined"
+      label={label}
+      placeholder={options.placeholder}
+      value={String(form[field])}
+      onChangeText={value => setForm(prev => ({ ...prev, [field]: value }))}
+      keyboardType={options.numeric ? "numeric" : "default"}
+      style={styles.formInput}
+      dense
+    />
+  )
+
+  return (
+    <ProtectedRoute requiredPermission="canManageAttendancePolicies" navigation={navigation}>
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <MaterialIcons name="arrow-back" size={24} color="#111827" />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Shift Policies</Text>
+            <Text style={styles.headerSubtitle}>Shift times, lateness and half-day rules</Text>
+          </View>
+          <TouchableOpacity onPress={openNewPolicy} style={styles.addButton}>
+            <MaterialIcons name="add" size={24} color="#ffffff" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={styles.helpText}>
+            A worker's own policy applies first, then their feeder point's, then the default.
+            {!policies.some(policy => policy.isDefault) &&
+              ` Without a default, ${STANDARD_SHIFT_POLICY.startTime}–${STANDARD_SHIFT_POLICY.endTime} is used.`}
+          </Text>
+
+          {loading ? (
+            <Text style={styles.emptyText}>Loading shift policies...</Text>
+          ) : policies.length === 0 ? (
+            <Card style={styles.emptyCard}>
+              <MaterialIcons name="schedule" size={48} color="#9ca3af" />
+              <Text style={styles.emptyText}>No shift policies yet. Tap + to add one.</Text>
+            </Card>
+          ) : (
+            policies.map(renderPolicy)
+          )}
+        </ScrollView>
+
+        <Portal>
+          {/* Create / edit */}
+          <Modal visible={formVisible} onDismiss={() => setFormVisible(false)} contentContainerStyle={styles.modal}>
+            <ScrollView>
+              <Text style={styles.modalTitle}>{editingId ? "Edit Shift Policy" : "New Shift Policy"}</Text>
+              {renderField("Name", "name", { placeholder: "Morning Shift" })}
+              <View style={styles.formRow}>
+                <View style={styles.formColumn}>{renderField("Start", "startTime", { placeholder: "HH:MM" })}</View>
+                <View style={styles.formColumn}>{renderField("End", "endTime", { placeholder: "HH:MM" })}</View>
+              </View>
+              {renderField("Grace minutes", "graceMinutes", { numeric: true })}
+              <View style={styles.formRow}>
+                <View style={styles.formColumn}>
+                  {renderField("Half day if late by (min)", "halfDayLateMinutes", { numeric: true })}
+                </View>
+                <View style={styles.formColumn}>
+                  {renderField("Half day under (hours)", "halfDayMinimumHours", { numeric: true })}
+                </View>
+              </View>
+
+              <Text style={styles.formLabel}>Weekly offs</Text>
+              <View style={styles.chipRow}>
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <Chip
+                    key={label}
+                    selected={form.weeklyOffs.includes(day)}
+                    onPress={() => toggleWeeklyOff(day)}
+                    style={styles.dayChip}
+                  >
+                    {label}
+                  </Chip>
+                ))}
+              </View>
+
+              <Chip
+                icon={form.isDefault ? "check" : "star-outline"}
+                selected={form.isDefault}
+                onPress={() => setForm(prev => ({ ...prev, isDefault: !prev.isDefault }))}
+                style={styles.defaultToggle}
+              >
+                Default for everyone without an assignment
+              </Chip>
+
+              <View style={styles.modalActions}>
+                <TouchableOpacity style={styles.cancelButton} onPress={() => setFormVisible(false)}>
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.saveButton} onPress={savePolicy} disabled={saving}>
+                  <Text style={styles.saveButtonText}>{saving ? "Saving..." : "Save"}</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </Modal>
+
+          {/* Assign */}
+          <Modal
+            visible={assigningPolicy !== null}
+            onDismiss={() => setAssigningPolicy(null)}
+            contentContainerStyle={styles.modal}
+          >
+            <Text style={styles.modalTitle}>Assign {assigningPolicy?.name}</Text>
+            <View style={styles.chipRow}>
+              <Chip selected={assignTarget === "worker"} onPress={() => setAssignTarget("worker")} style={styles.dayChip}>
+                Workers
+              </Chip>
+              <Chip
+                selected={assignTarget === "feederPoint"}
+                onPress={() => setAssignTarget("feederPoint")}
+                style={styles.dayChip}
+              >
+                Feeder Points
+              </Chip>
+            </View>
+            <Searchbar
+              placeholder={assignTarget === "worker" ? "Search workers" : "Search feeder points"}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              style={styles.searchbar}
+            />
+            <ScrollView style={styles.assignList}>
+              {assignTargets.map(target => {
+                const currentPolicyId = policyIdFor(assignTarget, target.id)
+                const assignedHere = currentPolicyId === assigningPolicy?.id
+                return (
+                  <TouchableOpacity key={target.id} style={styles.assignRow} onPress={() => toggleAssignment(target.id)}>
+                    <MaterialIcons
+                      name={assignedHere ? "check-box" : "check-box-outline-blank"}
+                      size={22}
+                      color={assignedHere ? "#059669" : "#9ca3af"}
+                    />
+                    <View style={styles.assignText}>
+                      <Text style={styles.assignName}>{target.name}</Text>
+                      <Text style={styles.assignDetail}>
+                        {currentPolicyId && !assignedHere
+                          ? `Currently: ${policyName(currentPolicyId) || "Unknown policy"}`
+                          : target.detail || " "}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                )
+              })}
+              {assignTargets.length === 0 && <Text style={styles.emptyText}>Nothing found</Text>}
+            </ScrollView>
+            <TouchableOpacity style={styles.saveButton} onPress={() => setAssigningPolicy(null)}>
+              <Text style={styles.saveButtonText}>Done</Text>
+            </TouchableOpacity>
+          </Modal>
+        </Portal>
+      </SafeAreaView>
+    </ProtectedRoute>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  addButton: {
+    backgroundColor: "#3b82f6",
+    borderRadius: 20,
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  helpText: {
+    fontSize: 13,
+    color: "#6b7280",
+    marginBottom: 12,
+    lineHeight: 18,
+  },
+  policyCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  policyHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  policyName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  defaultChip: {
+    backgroundColor: "#eff6ff",
+    height: 28,
+  },
+  defaultChipText: {
+    fontSize: 11,
+    color: "#3b82f6",
+    fontWeight: "bold",
+  },
+  policyTimes: {
+    fontSize: 22,
+    fontWeight: "bold",
+    color: "#111827",
+    marginVertical: 8,
+  },
+  policyDetail: {
+    fontSize: 13,
+    color: "#4b5563",
+    marginTop: 2,
+  },
+  divider: {
+    marginVertical: 12,
+  },
+  policyActions: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+  },
+  policyAction: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    padding: 4,
+  },
+  policyActionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#3b82f6",
+  },
+  emptyCard: {
+    padding: 32,
+    alignItems: "center",
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+    textAlign: "center",
+    marginTop: 12,
+  },
+  modal: {
+    backgroundColor: "#ffffff",
+    margin: 20,
+    padding: 20,
+    borderRadius: 12,
+    maxHeight: "85%",
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#111827",
+    marginBottom: 16,
+  },
+  formInput: {
+    marginBottom: 12,
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  formColumn: {
+    flex: 1,
+  },
+  formLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 8,
+  },
+  dayChip: {
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  defaultToggle: {
+    alignSelf: "flex-start",
+    marginVertical: 8,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#f3f4f6",
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  saveButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: "#3b82f6",
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+  searchbar: {
+    marginBottom: 8,
+    elevation: 0,
+    backgroundColor: "#f3f4f6",
+  },
+  assignList: {
+    maxHeight: 360,
+    marginBottom: 12,
+  },
+  assignRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  assignText: {
+    flex: 1,
+  },
+  assignName: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#111827",
+  },
+  assignDetail: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+})
+
+export default ShiftPolicies
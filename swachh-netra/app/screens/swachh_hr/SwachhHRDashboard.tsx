@@ -64,6 +64,54 @@ const SwachhHRDashboard = ({ navigation }: any) => {
       bgColor: "#f0fdf4",
       screen: "HRAttendanceDashboard",
     },
+    {
+      title: "Shift Policies",
+      description: "Shift times, grace and half days",
+      icon: "schedule",
+      color: "#0ea5e9",
+      bgColor: "#f0f9ff",
+      screen: "ShiftPolicies",
+    },
+    {
+      title: "Attendance Corrections",
+      description: "Review correction requests",
+      icon: "fact-check",
+      color: "#8b5cf6",
+      bgColor: "#f5f3ff",
+      screen: "AttendanceCorrections",
+    },
+    {
+      title: "Flagged Attendance",
+      description: "Marks away from the feeder point",
+      icon: "wrong-location",
+      color: "#ef4444",
+      bgColor: "#fef2f2",
+      screen: "FlaggedAttendance",
+    },
+    {
+      title: "Proxy Attendance Check",
+      description: "Reused photos and mark bursts",
+      icon: "policy",
+      color: "#dc2626",
+      bgColor: "#fef2f2",
+      screen: "ProxyDetection",
+    },
+    {
+      title: "Worker ID Cards",
+      description: "Print QR cards for attendance",
+      icon: "badge",
+      color: "#059669",
+      bgColor: "#ecfdf5",
+      screen: "WorkerIdCards",
+    },
+    {
+      title: "Leave & Holidays",
+      description: "Leave applications and holidays",
+      icon: "beach-access",
+      color: "#f59e0b",
+      bgColor: "#fffbeb",
+      screen: "LeaveManagement",
+    },
     {
       title: "Performance Reports",
       description: "View worker performance",
@@ -195,9 +243,29 @@ const SwachhHRDashboard = ({ navigation }: any) => {
       case "HRAttendanceDashboard":
         navigation.navigate("HRAttendanceDashboard")
         break
+      case "ShiftPolicies":
+        navigation.navigate("ShiftPolicies")
+        break
+      case "AttendanceCorrections":
+        navigation.navigate("AttendanceCorrections")
+        break
+      case "FlaggedAttendance":
+        navigation.navigate("FlaggedAttendance")
+        break
+      case "ProxyDetection":
+        navigation.navigate("ProxyDetection")
+        break
+      case "WorkerIdCards":
+        navigation.navigate("WorkerIdCards")
+        break
+      case "LeaveManagement":
+        navigation.navigate("LeaveManagement")
+        break
+      case "PayrollManagement":
+        navigation.navigate("PayrollManagement")
+        break
       case "AttendanceTracking":
       case "PerformanceReports":
-      case "PayrollManagement":
         Alert.alert("Coming Soon", `${screen} functionality will be implemented soon`)
         break
       default:
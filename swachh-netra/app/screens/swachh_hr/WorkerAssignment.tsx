@@ -12,7 +12,7 @@ import {
 } from "react-native"
 import { Card, Text, Button, Chip, Modal, Portal, Searchbar } from "react-native-paper"
 import { MaterialIcons } from "@expo/vector-icons"
-import { WorkerAssignmentService, Worker, FeederPoint } from "../../../services/WorkerAssignmentService"
+import { WorkerAssignmentService, Worker, FeederPointSummary } from "../../../services/WorkerAssignmentService"
 import { useAuth } from "../../../contexts/AuthContext"
 
 const WorkerAssignment = ({ navigation }: any) => {
@@ -22,11 +22,11 @@ const WorkerAssignment = ({ navigation }: any) => {
 
   // Data states
   const [workers, setWorkers] = useState<Worker[]>([])
-  const [feederPoints, setFeederPoints] = useState<FeederPoint[]>([])
+  const [feederPoints, setFeederPoints] = useState<FeederPointSummary[]>([])
   const [searchQuery, setSearchQuery] = useState("")
 
   // Assignment states
-  const [selectedFeederPoint, setSelectedFeederPoint] = useState<FeederPoint | null>(null)
+  const [selectedFeederPoint, setSelectedFeederPoint] = useState<FeederPointSummary | null>(null)
   const [selectedWorkers, setSelectedWorkers] = useState<string[]>([])
   const [assignModalVisible, setAssignModalVisible] = useState(false)
   const [viewMode, setViewMode] = useState<'feederPoints' | 'workers'>('feederPoints')
@@ -90,7 +90,7 @@ const WorkerAssignment = ({ navigation }: any) => {
     fetchData()
   }
 
-  const handleFeederPointSelect = (feederPoint: FeederPoint) => {
+  const handleFeederPointSelect = (feederPoint: FeederPointSummary) => {
     setSelectedFeederPoint(feederPoint)
     setSelectedWorkers(feederPoint.assignedWorkerIds || [])
     setAssignModalVisible(true)
@@ -213,7 +213,7 @@ const WorkerAssignment = ({ navigation }: any) => {
     return name.includes(query) || email.includes(query)
   })
 
-  const renderFeederPointCard = ({ item }: { item: FeederPoint }) => {
+  const renderFeederPointCard = ({ item }: { item: FeederPointSummary }) => {
     const assignedWorkers = workers.filter(w => item.assignedWorkerIds?.includes(w.id))
 
     return (
@@ -0,0 +1,332 @@
+import React, { useState, useEffect, useCallback } from "react"
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  Platform,
+  Alert,
+} from "react-native"
+import { Card, Text, Chip, TextInput } from "react-native-paper"
+import { MaterialIcons } from "@expo/vector-icons"
+import ProtectedRoute from "../../components/ProtectedRoute"
+import { useRequireAuth } from "../../hooks/useRequireAuth"
+import { WorkerService, WorkerData } from "../../../services/WorkerService"
+import { WorkerIdCardService } from "../../../services/WorkerIdCardService"
+import { maskAadhaar } from "../../../services/domain"
+
+// Printable worker ID cards with a signed QR code that drivers scan to mark attendance
+const WorkerIdCards = ({ navigation }: any) => {
+  const { hasAccess, userData } = useRequireAuth(navigation, { requiredPermission: "canIssueWorkerIdCards" })
+  const [workers, setWorkers] = useState<WorkerData[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [search, setSearch] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [printing, setPrinting] = useState(false)
+
+  const loadData = useCallback(async () => {
+    try {
+      const list = await WorkerService.getActiveWorkers()
+      setWorkers(list.sort((a, b) => a.fullName.localeCompare(b.fullName)))
+    } catch (error) {
+      console.error("Error loading workers:", error)
+      Alert.alert("Error", "Failed to load workers")
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!hasAccess) return
+    setLoading(true)
+    loadData().finally(() => setLoading(false))
+  }, [hasAccess])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadData()
+    setRefreshing(false)
+  }
+
+  const query = search.trim().toLowerCase()
+  const visible = workers.filter(worker =>
+    !query ||
+    worker.fullName.toLowerCase().includes(query) ||
+    (worker.employeeId || "").toLowerCase().includes(query) ||
+    worker.feederPoint.toLowerCase().includes(query)
+  )
+
+  const toggle = (workerId: string) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (next.has(workerId)) next.delete(workerId)
+      else next.add(workerId)
+      return next
+    })
+  }
+
+  const print = async (chosen: WorkerData[], reissue: boolean) => {
+    try {
+      setPrinting(true)
+      const cards = await WorkerIdCardService.issueCards(chosen, userData!.uid, reissue)
+      await loadData()
+      await WorkerIdCardService.printCards(cards)
+      setSelected(new Set())
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to print ID cards")
+    } finally {
+      setPrinting(false)
+    }
+  }
+
+  const reissue = (worker: WorkerData) => {
+    Alert.alert(
+      "Reissue Card",
+      `${worker.fullName}'s current card will stop working. Print a new card?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Reissue", style: "destructive", onPress: () => print([worker], true) },
+      ]
+    )
+  }
+
+  const renderWorker = (worker: WorkerData) => {
+    const isSelected = selected.has(worker.id!)
+    return (
+      <TouchableOpacity key={worker.id} onPress={() => toggle(worker.id!)} activeOpacity={0.8}>
+        <Card style={[styles.markCard, isSelected && styles.selectedCard]}>
+          <View style={styles.markHeader}>
+            <MaterialIcons name={isSelected ? "check-box" : "check-box-outline-blank"} size={24} color={isSelected ? "#059669" : "#9ca3af"} />
+            <View style={styles.markTitle}>
+              <Text style={styles.workerName}>{worker.fullName}</Text>
+              <Text style={styles.markMeta}>
+                {worker.employeeId ? `${worker.employeeId} · ` : ""}{worker.feederPoint} · Aadhaar {maskAadhaar(worker.aadhaarNumber)}
+              </Text>
+            </View>
+            {worker.idCardSerial ? (
+              <TouchableOpacity onPress={() => reissue(worker)} disabled={printing}>
+                <Chip style={[styles.statusChip, { backgroundColor: "#10b98120" }]} textStyle={[styles.statusChipText, { color: "#10b981" }]}>
+                  CARD {worker.idCardSerial}
+                </Chip>
+              </TouchableOpacity>
+            ) : (
+              <Chip style={[styles.statusChip, { backgroundColor: "#f59e0b20" }]} textStyle={[styles.statusChipText, { color: "#f59e0b" }]}>
+                NO CARD
+              </Chip>
+            )}
+          </View>
+        </Card>
+      </TouchableOpacity>
+    )
+  }
+
+  const chosen = workers.filter(worker => selected.has(worker.id!))
+
+  return (
+    <ProtectedRoute requiredPermission="canIssueWorkerIdCards" navigation={navigation}>
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <MaterialIcons name="arrow-back" size={24} color="#111827" />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Worker ID Cards</Text>
+            <Text style={styles.headerSubtitle}>Tap a card chip to reissue a lost card</Text>
+          </View>
+        </View>
+
+        <View style={styles.toolbar}>
+          <TextInput
+            mode="outlined"
+            dense
+            placeholder="Search by name, employee ID or feeder point"
+            value={search}
+            onChangeText={setSearch}
+            style={styles.searchInput}
+          />
+        </View>
+        <View style={styles.selectionRow}>
+          <Text style={styles.selectionText}>{selected.size} selected</Text>
+          <TouchableOpacity onPress={() => setSelected(new Set(visible.map(worker => worker.id!)))}>
+            <Text style={styles.linkText}>Select all shown</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          showsVerticalScrollIndicator={false}
+        >
+          {loading ? (
+            <Text style={styles.emptyText}>Loading workers...</Text>
+          ) : visible.length === 0 ? (
+            <Card style={styles.emptyCard}>
+              <MaterialIcons name="badge" size={48} color="#9ca3af" />
+              <Text style={styles.emptyText}>No workers found</Text>
+            </Card>
+          ) : (
+            visible.map(renderWorker)
+          )}
+        </ScrollView>
+
+        <TouchableOpacity
+          style={[styles.printButton, (chosen.length === 0 || printing) && { opacity: 0.5 }]}
+          onPress={() => print(chosen, false)}
+          disabled={chosen.length === 0 || printing}
+        >
+          <MaterialIcons name="print" size={20} color="#ffffff" />
+          <Text style={styles.printButtonText}>
+            {printing ? "Preparing..." : `Print ${chosen.length || ""} ID Card${chosen.length === 1 ? "" : "s"}`}
+          </Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    </ProtectedRoute>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  toolbar: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  searchInput: {
+    flex: 1,
+    backgroundColor: "#ffffff",
+  },
+  selectionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  selectionText: {
+    fontSize: 13,
+    color: "#6b7280",
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#3b82f6",
+  },
+  printButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    margin: 16,
+    paddingVertical: 14,
+    borderRadius: 10,
+    backgroundColor: "#059669",
+  },
+  printButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+  markCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  markHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+  },
+  markTitle: {
+    flex: 1,
+  },
+  workerName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  markMeta: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  selectedCard: {
+    borderWidth: 2,
+    borderColor: "#059669",
+  },
+  statusChip: {
+    height: 28,
+  },
+  statusChipText: {
+    fontSize: 11,
+    fontWeight: "bold",
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+  },
+  action: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    padding: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  emptyCard: {
+    padding: 32,
+    alignItems: "center",
+    borderRadius: 12,
+    backgroundColor: "#ffffff",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+    textAlign: "center",
+    marginTop: 12,
+  },
+})
+
+export default WorkerIdCards
@@ -41,6 +41,9 @@ const WorkerManagement = ({ navigation }: any) => {
     shiftTiming: "",
     employeeId: "",
     aadhaarNumber: "",
+    category: "",
+    bankAccountNumber: "",
+    ifscCode: "",
   })
 
   const [stats, setStats] = useState({
@@ -112,6 +115,9 @@ const WorkerManagement = ({ navigation }: any) => {
       shiftTiming: "",
       employeeId: "",
       aadhaarNumber: "",
+      category: "",
+      bankAccountNumber: "",
+      ifscCode: "",
     })
   }
 
@@ -170,6 +176,9 @@ const WorkerManagement = ({ navigation }: any) => {
       shiftTiming: worker.shiftTiming,
       employeeId: worker.employeeId || "",
       aadhaarNumber: worker.aadhaarNumber,
+      category: worker.category || "",
+      bankAccountNumber: worker.bankAccountNumber || "",
+      ifscCode: worker.ifscCode || "",
     })
     setShowEditModal(true)
   }
@@ -319,6 +328,12 @@ const WorkerManagement = ({ navigation }: any) => {
             <Text style={styles.detailValue}>{item.employeeId}</Text>
           </View>
         )}
+        {item.category && (
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Category:</Text>
+            <Text style={styles.detailValue}>{item.category}</Text>
+          </View>
+        )}
       </View>
     </Card>
   )
@@ -528,6 +543,43 @@ const WorkerManagement = ({ navigation }: any) => {
               </View>
             </View>
 
+            <View style={styles.formSection}>
+              <Text style={styles.formSectionTitle}>Payroll Details</Text>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Category (Optional)</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={formData.category}
+                  onChangeText={(text) => setFormData({...formData, category: text})}
+                  placeholder="e.g. Sweeper, Loader"
+                />
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Bank Account Number (Optional)</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={formData.bankAccountNumber}
+                  onChangeText={(text) => setFormData({...formData, bankAccountNumber: text})}
+                  placeholder="Account for wage transfers"
+                  keyboardType="numeric"
+                />
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>IFSC Code (Optional)</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={formData.ifscCode}
+                  onChangeText={(text) => setFormData({...formData, ifscCode: text.toUpperCase()})}
+                  placeholder="e.g. SBIN0001234"
+                  autoCapitalize="characters"
+                  maxLength={11}
+                />
+              </View>
+            </View>
+
             <View style={styles.modalActions}>
               <Button
                 mode="outlined"
@@ -655,6 +707,43 @@ const WorkerManagement = ({ navigation }: any) => {
               </View>
             </View>
 
+            <View style={styles.formSection}>
+              <Text style={styles.formSectionTitle}>Payroll Details</Text>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Category (Optional)</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={formData.category}
+                  onChangeText={(text) => setFormData({...formData, category: text})}
+                  placeholder="e.g. Sweeper, Loader"
+                />
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Bank Account Number (Optional)</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={formData.bankAccountNumber}
+                  onChangeText={(text) => setFormData({...formData, bankAccountNumber: text})}
+                  placeholder="Account for wage transfers"
+                  keyboardType="numeric"
+                />
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>IFSC Code (Optional)</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={formData.ifscCode}
+                  onChangeText={(text) => setFormData({...formData, ifscCode: text.toUpperCase()})}
+                  placeholder="e.g. SBIN0001234"
+                  autoCapitalize="characters"
+                  maxLength={11}
+                />
+              </View>
+            </View>
+
             <View style={styles.modalActions}>
               <Button
                 mode="outlined"
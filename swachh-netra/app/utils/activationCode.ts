@@ -0,0 +1,26 @@
+import { Alert, Share } from "react-native"
+import { ActivationGrant } from "../../services/ApprovalService"
+
+// Show a freshly issued activation code to the approver and offer to send it to the applicant.
+// The code is not stored anywhere readable, so this is the only time it can be seen.
+export const presentActivationCode = (grant: ActivationGrant, applicantName: string, onDone?: () => void) => {
+  const expires = new Date(grant.expiresAt).toLocaleDateString()
+  const message =
+    `Your Swachh Netra account has been approved. Open the app, tap "Activate your account" and enter ` +
+    `${grant.email} with the code ${grant.code} to set your password. The code is valid until ${expires}.`
+
+  Alert.alert(
+    "Activation Code",
+    `Give ${applicantName} this code so they can set their password:\n\n${grant.code}\n\nValid until ${expires}. It will not be shown again.`,
+    [
+      {
+        text: "Share",
+        onPress: () => {
+          Share.share({ message }).catch(error => console.error("Error sharing activation code:", error))
+          onDone?.()
+        },
+      },
+      { text: "Done", onPress: onDone },
+    ]
+  )
+}
@@ -5,6 +5,8 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 import { FIREBASE_AUTH } from '../FirebaseConfig';
 import FirebaseService, { UserData } from '../services/FirebaseService';
+import { MaintenanceService } from '../services/MaintenanceService';
+import { AuditService } from '../services/AuditService';
 
 interface AuthContextType {
   user: User | null;
@@ -291,6 +293,24 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     loadInitialData();
   }, []);
 
+  // Enforce maintenance mode for the lifetime of the app
+  useEffect(() => MaintenanceService.start(), []);
+
+  // Writes are only blocked for signed-in non-admins
+  useEffect(() => {
+    MaintenanceService.setSessionRole(userData?.role || null);
+  }, [userData?.role]);
+
+  // Audit entries are attributed to whoever is signed in on this device
+  useEffect(() => {
+    AuditService.setSession(userData ? {
+      actorId: userData.uid,
+      actorName: userData.fullName,
+      actorRole: userData.role,
+      device: `${Platform.OS} ${Platform.Version}`
+    } : null);
+  }, [userData?.uid, userData?.fullName, userData?.role]);
+
   // Role checking functions
   const hasRole = (role: string): boolean => {
     return userData?.role === role;
@@ -329,7 +349,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           canBulkUpdateAttendance: true,
           canExportAttendanceData: true,
           canManageAttendancePolicies: true,
-          canFilterAttendanceByEmployee: true
+          canFilterAttendanceByEmployee: true,
+          canReviewAttendanceCorrections: true,
+          canManageLeave: true,
+          canManagePayroll: true,
+          canIssueWorkerIdCards: true,
+          canReviewMissedCollections: true
         };
       case 'transport_contractor':
         return {
@@ -339,7 +364,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           canManageVehicles: true,
           canApproveDrivers: false, // Cannot approve drivers
           canAssignVehiclesToDrivers: true, // Can assign vehicles to already assigned drivers
-          canViewAssignedDriverAttendance: true
+          canViewAssignedDriverAttendance: true,
+          canRequestAttendanceCorrections: true,
+          canReviewMissedCollections: true
         };
       case 'swachh_hr':
         return {
@@ -352,14 +379,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           canExportAttendanceData: true,
           canEditAttendanceRecords: true,
           canBulkUpdateAttendance: true,
-          canManageAttendancePolicies: true
+          canManageAttendancePolicies: true,
+          canReviewAttendanceCorrections: true,
+          canManageLeave: true,
+          canManagePayroll: true,
+          canIssueWorkerIdCards: true
         };
       case 'driver':
       default:
         return {
           canSubmitReports: true,
           canViewAssignedRoutes: true,
-          canUpdateStatus: true
+          canUpdateStatus: true,
+          canRequestAttendanceCorrections: true
         };
     }
   };
@@ -10,18 +10,24 @@ import {
     where,
     orderBy,
     serverTimestamp,
-    setDoc
-} from 'firebase/firestore';
+    writeBatch,
+    deleteField,
+    FIRESTORE_DB
+} from './firestore';
 import { createUserWithEmailAndPassword } from 'firebase/auth';
-import { FIREBASE_AUTH, FIRESTORE_DB } from '../FirebaseConfig';
+import type * as ExpoCrypto from 'expo-crypto';
+import { FIREBASE_AUTH } from '../FirebaseConfig';
+import { RolePermissions, User, userFromDoc } from './domain';
+import { AuditService } from './AuditService';
 
+// Applicants never hand over a password. Approval issues a one-time activation code,
+// and the applicant chooses their password when they redeem it on their own device.
 export interface ApprovalRequest {
     id?: string;
     fullName: string;
     email: string;
     phone: string;
     role: string;
-    password: string;
     requestedAt: string;
     status: 'pending' | 'approved' | 'rejected';
     approver: string;
@@ -30,22 +36,44 @@ export interface ApprovalRequest {
     approvedBy?: string;
     rejectedAt?: string;
     rejectedBy?: string;
+    activationTokenId?: string; // id of the activationTokens document until the code is redeemed
+    activationExpiresAt?: string;
+    activatedAt?: string;
+    userId?: string;
 }
 
-export interface User {
-    uid: string;
-    fullName: string;
+// Handed to the approver to pass on to the applicant; only its hash is stored
+export interface ActivationGrant {
+    code: string;
     email: string;
-    phone: string;
-    role: string;
-    isActive: boolean;
-    createdAt: string;
-    contractorId?: string;
-    permissions?: any;
-    approvedAt?: string;
-    approvedBy?: string;
+    expiresAt: string;
 }
 
+// One document per outstanding code, keyed by the SHA-256 of the code
+const ACTIVATION_TOKENS = 'activationTokens';
+const ACTIVATION_VALIDITY_MS = 7 * 24 * 60 * 60 * 1000;
+
+// No 0/O or 1/I, so codes survive being read out over the phone. 32 symbols divide 256 evenly.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+// Native module, only needed to generate and hash activation codes
+const crypto = (): typeof ExpoCrypto => require('expo-crypto');
+
+const normalizeCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const generateCode = (): string => {
+    const code = Array.from(crypto().getRandomBytes(CODE_LENGTH), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+};
+
+const hashCode = (code: string): Promise<string> =>
+    crypto().digestStringAsync(crypto().CryptoDigestAlgorithm.SHA256, normalizeCode(code));
+
+export type { User } from './domain';
+
 export class ApprovalService {
     // Create approval request
     static async createApprovalRequest(requestData: Omit<ApprovalRequest, 'id'>): Promise<string> {
@@ -104,62 +132,190 @@ export class ApprovalService {
         }
     }
 
-    // Approve request and create user
-    static async approveRequest(requestId: string, approverId: string): Promise<void> {
+    // Approve a request and issue the activation code the applicant redeems to create their account
+    static async approveRequest(requestId: string, approverId: string): Promise<ActivationGrant> {
         try {
-            // Get the approval request
-            const requestDoc = await getDoc(doc(FIRESTORE_DB, 'approvalRequests', requestId));
-            if (!requestDoc.exists()) {
-                throw new Error('Approval request not found');
+            const requestData = await this.getRequest(requestId);
+            if (requestData.status !== 'pending') {
+                throw new Error('Only pending requests can be approved');
             }
 
-            const requestData = requestDoc.data() as ApprovalRequest;
+            const grant = await this.issueActivationCode(requestId, requestData, {
+                status: 'approved',
+                approvedAt: new Date().toISOString(),
+                approvedBy: approverId
+            }, approverId);
+            await AuditService.record({
+                action: 'approve',
+                entityType: 'approvalRequest',
+                entityId: requestId,
+                before: { status: requestData.status, role: requestData.role, email: requestData.email },
+                after: { status: 'approved', role: requestData.role, email: requestData.email },
+                summary: `Approved ${requestData.fullName} as ${requestData.role}`,
+                actorId: approverId
+            });
+
+            console.log('✅ Request approved, activation code issued');
+            return grant;
+        } catch (error) {
+            console.error('❌ Error approving request:', error);
+            throw error;
+        }
+    }
 
-            // Create user account
-            const userCredential = await createUserWithEmailAndPassword(
-                FIREBASE_AUTH,
-                requestData.email,
-                requestData.password
+    // Replace a lost or expired activation code; the previous code stops working
+    static async reissueActivationCode(requestId: string, approverId: string): Promise<ActivationGrant> {
+        try {
+            const requestData = await this.getRequest(requestId);
+            if (requestData.status !== 'approved' || requestData.activatedAt) {
+                throw new Error('Only approved requests awaiting activation can get a new code');
+            }
+
+            const grant = await this.issueActivationCode(requestId, requestData, {}, approverId);
+            console.log('✅ Activation code reissued');
+            return grant;
+        } catch (error) {
+            console.error('❌ Error reissuing activation code:', error);
+            throw error;
+        }
+    }
+
+    // Approved requests whose applicant has not activated their account yet
+    static async getAwaitingActivationRequests(approverId: string): Promise<ApprovalRequest[]> {
+        try {
+            const q = query(
+                collection(FIRESTORE_DB, 'approvalRequests'),
+                where('status', '==', 'approved'),
+                where('approver', '==', approverId)
             );
+            const querySnapshot = await getDocs(q);
+            return querySnapshot.docs
+                .map(doc => ({ id: doc.id, ...doc.data() }) as ApprovalRequest)
+                .filter(request => !request.activatedAt)
+                .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+        } catch (error) {
+            console.error('❌ Error fetching requests awaiting activation:', error);
+            throw error;
+        }
+    }
 
-            const user = userCredential.user;
+    // Redeem an activation code on the applicant's device: creates the account with the
+    // password they choose now, which also signs them in. Returns the new user id.
+    static async activateAccount(email: string, code: string, password: string): Promise<string> {
+        try {
+            const tokenId = await hashCode(code);
+            const tokenDoc = await getDoc(doc(FIRESTORE_DB, ACTIVATION_TOKENS, tokenId));
+            const token = tokenDoc.exists() ? tokenDoc.data() : null;
 
-            // Prepare user data
-            const userData: User = {
-                uid: user.uid,
-                fullName: requestData.fullName,
-                email: requestData.email,
-                phone: requestData.phone,
-                role: requestData.role,
-                isActive: true,
-                createdAt: new Date().toISOString(),
-                approvedAt: new Date().toISOString(),
-                approvedBy: approverId,
-                permissions: this.getRolePermissions(requestData.role)
-            };
+            if (!token || token.email !== normalizeEmail(email)) {
+                throw new Error('The activation code or email is not valid');
+            }
+            if (new Date(token.expiresAt).getTime() < Date.now()) {
+                throw new Error('This activation code has expired. Ask your approver for a new one');
+            }
 
-            // Add contractor assignment for drivers
-            if (requestData.role === 'driver' && requestData.approver) {
-                userData.contractorId = requestData.approver;
+            const requestData = await this.getRequest(token.requestId);
+            if (requestData.status !== 'approved' || requestData.activatedAt) {
+                throw new Error('This activation code has already been used');
             }
 
-            // Store user data
-            await setDoc(doc(FIRESTORE_DB, 'users', user.uid), userData);
+            const userCredential = await createUserWithEmailAndPassword(FIREBASE_AUTH, requestData.email, password);
+            const user = userCredential.user;
+            const activatedAt = new Date().toISOString();
 
-            // Update approval request status
-            await updateDoc(doc(FIRESTORE_DB, 'approvalRequests', requestId), {
-                status: 'approved',
-                approvedAt: new Date().toISOString(),
-                approvedBy: approverId
-            });
+            try {
+                await this.commitActivation(user.uid, tokenId, token.requestId, requestData, activatedAt);
+            } catch (error) {
+                // Without its user document the Auth account is unusable and would block the
+                // email on retry, so drop it and leave the code redeemable
+                await user.delete().catch(deleteError =>
+                    console.error('❌ Error removing account after failed activation:', deleteError)
+                );
+                throw error;
+            }
 
-            console.log('✅ Request approved and user created successfully');
+            console.log('✅ Account activated');
+            return user.uid;
         } catch (error) {
-            console.error('❌ Error approving request:', error);
+            console.error('❌ Error activating account:', error);
             throw error;
         }
     }
 
+    // Write the user document and spend the code together
+    private static async commitActivation(
+        uid: string,
+        tokenId: string,
+        requestId: string,
+        requestData: ApprovalRequest,
+        activatedAt: string
+    ): Promise<void> {
+        const batch = writeBatch(FIRESTORE_DB);
+        batch.set(doc(FIRESTORE_DB, 'users', uid), {
+            uid,
+            fullName: requestData.fullName,
+            email: requestData.email,
+            phone: requestData.phone,
+            role: requestData.role,
+            isActive: true,
+            createdAt: activatedAt,
+            approvedAt: requestData.approvedAt,
+            approvedBy: requestData.approvedBy,
+            permissions: this.getRolePermissions(requestData.role),
+            // Add contractor assignment for drivers
+            ...(requestData.role === 'driver' && requestData.approver ? { contractorId: requestData.approver } : {})
+        });
+        batch.update(doc(FIRESTORE_DB, 'approvalRequests', requestId), {
+            activatedAt,
+            userId: uid,
+            activationTokenId: deleteField(),
+            activationExpiresAt: deleteField()
+        });
+        batch.delete(doc(FIRESTORE_DB, ACTIVATION_TOKENS, tokenId));
+        await batch.commit();
+    }
+
+    private static async getRequest(requestId: string): Promise<ApprovalRequest> {
+        const requestDoc = await getDoc(doc(FIRESTORE_DB, 'approvalRequests', requestId));
+        if (!requestDoc.exists()) {
+            throw new Error('Approval request not found');
+        }
+        return { id: requestDoc.id, ...requestDoc.data() } as ApprovalRequest;
+    }
+
+    // Store a fresh code's hash, drop any earlier code and make sure no password lingers on the request
+    private static async issueActivationCode(
+        requestId: string,
+        requestData: ApprovalRequest,
+        requestUpdates: Partial<ApprovalRequest>,
+        issuedBy: string
+    ): Promise<ActivationGrant> {
+        const code = generateCode();
+        const tokenId = await hashCode(code);
+        const expiresAt = new Date(Date.now() + ACTIVATION_VALIDITY_MS).toISOString();
+
+        const batch = writeBatch(FIRESTORE_DB);
+        if (requestData.activationTokenId) {
+            batch.delete(doc(FIRESTORE_DB, ACTIVATION_TOKENS, requestData.activationTokenId));
+        }
+        batch.set(doc(FIRESTORE_DB, ACTIVATION_TOKENS, tokenId), {
+            requestId,
+            email: normalizeEmail(requestData.email),
+            expiresAt,
+            issuedBy,
+            issuedAt: new Date().toISOString()
+        });
+        batch.update(doc(FIRESTORE_DB, 'approvalRequests', requestId), {
+            ...requestUpdates,
+            activationTokenId: tokenId,
+            activationExpiresAt: expiresAt,
+            password: deleteField()
+        });
+        await batch.commit();
+
+        return { code, email: requestData.email, expiresAt };
+    }
+
     // Reject request
     static async rejectRequest(requestId: string, rejectorId: string): Promise<void> {
         try {
@@ -168,6 +324,14 @@ export class ApprovalService {
                 rejectedAt: new Date().toISOString(),
                 rejectedBy: rejectorId
             });
+            await AuditService.record({
+                action: 'reject',
+                entityType: 'approvalRequest',
+                entityId: requestId,
+                before: { status: 'pending' },
+                after: { status: 'rejected' },
+                actorId: rejectorId
+            });
             console.log('✅ Request rejected successfully');
         } catch (error) {
             console.error('❌ Error rejecting request:', error);
@@ -183,10 +347,7 @@ export class ApprovalService {
                 orderBy('createdAt', 'desc')
             );
             const querySnapshot = await getDocs(q);
-            return querySnapshot.docs.map(doc => ({
-                id: doc.id,
-                ...doc.data()
-            } as unknown as User));
+            return querySnapshot.docs.map(doc => userFromDoc(doc.id, doc.data()));
         } catch (error) {
             console.error('❌ Error fetching users:', error);
             throw error;
@@ -203,10 +364,7 @@ export class ApprovalService {
                 orderBy('createdAt', 'desc')
             );
             const querySnapshot = await getDocs(q);
-            return querySnapshot.docs.map(doc => ({
-                id: doc.id,
-                ...doc.data()
-            } as unknown as User));
+            return querySnapshot.docs.map(doc => userFromDoc(doc.id, doc.data()));
         } catch (error) {
             console.error('❌ Error fetching users by role:', error);
             throw error;
@@ -223,10 +381,7 @@ export class ApprovalService {
                 orderBy('createdAt', 'desc')
             );
             const querySnapshot = await getDocs(q);
-            return querySnapshot.docs.map(doc => ({
-                id: doc.id,
-                ...doc.data()
-            } as unknown as User));
+            return querySnapshot.docs.map(doc => userFromDoc(doc.id, doc.data()));
         } catch (error) {
             console.error('❌ Error fetching drivers by contractor:', error);
             throw error;
@@ -240,6 +395,13 @@ export class ApprovalService {
                 isActive,
                 updatedAt: new Date().toISOString()
             });
+            await AuditService.record({
+                action: 'status_change',
+                entityType: 'user',
+                entityId: userId,
+                before: { isActive: !isActive },
+                after: { isActive }
+            });
             console.log('✅ User status updated successfully');
         } catch (error) {
             console.error('❌ Error updating user status:', error);
@@ -247,6 +409,48 @@ export class ApprovalService {
         }
     }
 
+    // Change a user's role
+    static async updateUserRole(userId: string, role: string): Promise<void> {
+        try {
+            const before = await AuditService.snapshot('users', userId);
+            await updateDoc(doc(FIRESTORE_DB, 'users', userId), {
+                role,
+                updatedAt: new Date().toISOString()
+            });
+            await AuditService.record({
+                action: 'role_change',
+                entityType: 'user',
+                entityId: userId,
+                before: { role: before?.role ?? null },
+                after: { role },
+                summary: before?.fullName ? `Changed role of ${before.fullName}` : undefined
+            });
+            console.log('✅ User role updated successfully');
+        } catch (error) {
+            console.error('❌ Error updating user role:', error);
+            throw error;
+        }
+    }
+
+    // Permanently remove a user's profile
+    static async deleteUser(userId: string): Promise<void> {
+        try {
+            const before = await AuditService.snapshot('users', userId);
+            await deleteDoc(doc(FIRESTORE_DB, 'users', userId));
+            await AuditService.record({
+                action: 'delete',
+                entityType: 'user',
+                entityId: userId,
+                before: before && { fullName: before.fullName, email: before.email, role: before.role },
+                summary: before?.fullName ? `Deleted ${before.fullName}` : undefined
+            });
+            console.log('✅ User deleted successfully');
+        } catch (error) {
+            console.error('❌ Error deleting user:', error);
+            throw error;
+        }
+    }
+
     // Get user statistics
     static async getUserStatistics(): Promise<any> {
         try {
@@ -269,7 +473,7 @@ export class ApprovalService {
     }
 
     // Get role permissions
-    static getRolePermissions(role: string): any {
+    static getRolePermissions(role: string): RolePermissions {
         switch (role) {
             case 'admin':
                 return {
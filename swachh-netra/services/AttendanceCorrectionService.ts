@@ -0,0 +1,322 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  writeBatch,
+  runTransaction,
+  Timestamp,
+  serverTimestamp,
+  arrayUnion,
+  Transaction,
+  FIRESTORE_DB
+} from "./firestore"
+import {
+  AttendanceCorrection,
+  AttendanceRecord,
+  CorrectableAttendance,
+  CorrectionRequesterRole,
+  CorrectionStatus,
+  WithId,
+  attendanceFromDoc,
+  correctableToData,
+  correctionEntryToData,
+  correctionFields,
+  correctionFromDoc,
+  correctionProblem,
+  correctionRequesterRoleOf,
+  diffAuditFields,
+  displayNameOf,
+  isRemotePhotoUrl,
+  photoEvidenceToData
+} from "./domain"
+import { PhotoStorageService } from "./PhotoStorageService"
+import { AuditService } from "./AuditService"
+
+export type {
+  AttendanceCorrection,
+  AttendanceCorrectionEntry,
+  CorrectableAttendance,
+  CorrectionRequesterRole,
+  CorrectionStatus
+} from "./domain"
+
+const CORRECTIONS_COLLECTION = "attendanceCorrections"
+const ATTENDANCE_COLLECTION = "workerAttendance"
+
+// How far back drivers and contractors can pick a mark to correct
+const CORRECTION_WINDOW_DAYS = 7
+
+export interface CorrectionRequestParams {
+  recordId: string
+  requested: Partial<CorrectableAttendance>
+  reason: string
+  requestedBy: string
+  evidencePhotoUri?: string // local file, uploaded to storage before the request is written
+  onPhotoUploadProgress?: (fraction: number) => void
+}
+
+const byNewest = (a: AttendanceCorrection, b: AttendanceCorrection) => b.createdAt.getTime() - a.createdAt.getTime()
+
+export class AttendanceCorrectionService {
+  // Drivers may correct marks they made; contractors, marks made by their drivers.
+  // A record has at most one pending request at a time.
+  static async requestCorrection(params: CorrectionRequestParams): Promise<string> {
+    try {
+      console.log("📝 [AttendanceCorrectionService] Requesting correction for record:", params.recordId)
+
+      const [recordDoc, requesterDoc] = await Promise.all([
+        getDoc(doc(FIRESTORE_DB, ATTENDANCE_COLLECTION, params.recordId)),
+        getDoc(doc(FIRESTORE_DB, "users", params.requestedBy)),
+      ])
+      if (!recordDoc.exists()) throw new Error("Attendance record not found")
+      if (!requesterDoc.exists()) throw new Error("Requester not found")
+
+      const record = attendanceFromDoc(recordDoc.id, recordDoc.data())
+      const requester = requesterDoc.data()
+      const role = correctionRequesterRoleOf(requester.role)
+      if (!role) throw new Error("Only drivers and contractors can request corrections")
+      if (role === "driver" && record.driverId !== params.requestedBy) {
+        throw new Error("Drivers can only correct attendance they marked")
+      }
+      if (role === "transport_contractor" && record.contractorId !== params.requestedBy) {
+        throw new Error("Contractors can only correct attendance marked by their drivers")
+      }
+
+      const original: CorrectableAttendance = {
+        status: record.status,
+        checkInTime: record.checkInTime,
+        checkOutTime: record.checkOutTime,
+      }
+      const problem = correctionProblem(original, params.requested, params.reason)
+      if (problem) throw new Error(problem)
+
+      const pending = await getDocs(query(
+        collection(FIRESTORE_DB, CORRECTIONS_COLLECTION),
+        where("recordId", "==", params.recordId),
+        where("status", "==", "pending")
+      ))
+      if (!pending.empty) throw new Error("A correction for this record is already waiting for review")
+
+      const evidencePhoto = params.evidencePhotoUri && !isRemotePhotoUrl(params.evidencePhotoUri)
+        ? await PhotoStorageService.uploadPhoto(
+          params.evidencePhotoUri,
+          PhotoStorageService.pathFor(`attendanceCorrections/${params.requestedBy}`),
+          { uploadedBy: params.requestedBy, onProgress: params.onPhotoUploadProgress }
+        )
+        : undefined
+
+      const correctionRef = doc(collection(FIRESTORE_DB, CORRECTIONS_COLLECTION))
+      const batch = writeBatch(FIRESTORE_DB)
+      batch.set(correctionRef, {
+        recordId: record.id,
+        workerId: record.workerId,
+        workerName: record.workerName,
+        attendanceDate: record.attendanceDate,
+        driverId: record.driverId,
+        contractorId: record.contractorId || null,
+        original: correctableToData(original),
+        requested: correctableToData(params.requested),
+        reason: params.reason.trim(),
+        evidencePhoto: evidencePhoto ? photoEvidenceToData(evidencePhoto) : null,
+        status: "pending",
+        requestedBy: params.requestedBy,
+        requestedByName: displayNameOf(requester),
+        requestedByRole: role,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      })
+      AuditService.addToBatch(batch, {
+        action: "create",
+        entityType: "attendanceCorrection",
+        entityId: correctionRef.id,
+        after: { recordId: record.id, ...correctableToData(params.requested) },
+        summary: `${record.workerName} on ${record.attendanceDate}: ${params.reason.trim()}`,
+        actorId: params.requestedBy,
+      })
+      await batch.commit()
+
+      console.log("✅ [AttendanceCorrectionService] Correction requested:", correctionRef.id)
+      return correctionRef.id
+    } catch (error) {
+      console.error("❌ [AttendanceCorrectionService] Error requesting correction:", error)
+      throw new Error(`Failed to request correction: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Recent marks the user may raise a correction for: a driver's own, or those of a contractor's drivers
+  static async getCorrectableRecords(userId: string, role: CorrectionRequesterRole): Promise<WithId<AttendanceRecord>[]> {
+    try {
+      const since = new Date()
+      since.setHours(0, 0, 0, 0)
+      since.setDate(since.getDate() - (CORRECTION_WINDOW_DAYS - 1))
+
+      const snapshot = await getDocs(query(
+        collection(FIRESTORE_DB, ATTENDANCE_COLLECTION),
+        where(role === "driver" ? "driverId" : "contractorId", "==", userId),
+        where("timestamp", ">=", Timestamp.fromDate(since)),
+        orderBy("timestamp", "desc")
+      ))
+      return snapshot.docs
+        .filter(recordDoc => recordDoc.data().workerId)
+        .map(recordDoc => attendanceFromDoc(recordDoc.id, recordDoc.data()))
+    } catch (error) {
+      console.error("❌ [AttendanceCorrectionService] Error fetching correctable records:", error)
+      throw new Error(`Failed to fetch attendance records: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // HR's review queue, oldest first so that nothing waits longer than it has to
+  static async getPendingCorrections(): Promise<WithId<AttendanceCorrection>[]> {
+    const corrections = await this.getCorrections(where("status", "==", "pending"))
+    return corrections.reverse()
+  }
+
+  static async getCorrectionsByStatus(status: CorrectionStatus): Promise<WithId<AttendanceCorrection>[]> {
+    return this.getCorrections(where("status", "==", status))
+  }
+
+  static async getCorrectionsRequestedBy(userId: string): Promise<WithId<AttendanceCorrection>[]> {
+    return this.getCorrections(where("requestedBy", "==", userId))
+  }
+
+  static async getCorrectionsForWorker(workerId: string): Promise<WithId<AttendanceCorrection>[]> {
+    return this.getCorrections(where("workerId", "==", workerId))
+  }
+
+  // Apply the requested change. The record keeps its first mark in originalMark and
+  // gains an entry in its corrections list; the request is closed in the same transaction,
+  // so a second reviewer acting at the same time finds it already approved.
+  static async approveCorrection(correctionId: string, reviewerId: string, reviewNote?: string): Promise<void> {
+    try {
+      const reviewerName = await this.reviewerNameOf(reviewerId)
+
+      await runTransaction(FIRESTORE_DB, async (transaction) => {
+        const correction = await this.getPendingCorrection(transaction, correctionId)
+        const recordRef = doc(FIRESTORE_DB, ATTENDANCE_COLLECTION, correction.recordId)
+        const recordDoc = await transaction.get(recordRef)
+        if (!recordDoc.exists()) throw new Error("Attendance record no longer exists")
+
+        const data = recordDoc.data()
+        const record = attendanceFromDoc(recordDoc.id, data)
+        const current: CorrectableAttendance = {
+          status: record.status,
+          checkInTime: record.checkInTime,
+          checkOutTime: record.checkOutTime,
+        }
+        const fields = correctionFields(current, correction.requested)
+        const changes = diffAuditFields(correctableToData(current), { ...correctableToData(current), ...fields })
+
+        transaction.update(recordRef, {
+          ...fields,
+          ...(data.originalMark ? {} : { originalMark: correctableToData(correction.original) }),
+          corrections: arrayUnion(correctionEntryToData({
+            correctionId,
+            changes,
+            reason: correction.reason,
+            requestedBy: correction.requestedBy,
+            approvedBy: reviewerId,
+            approvedAt: new Date(),
+          })),
+          updatedAt: serverTimestamp(),
+        })
+        transaction.update(doc(FIRESTORE_DB, CORRECTIONS_COLLECTION, correctionId), {
+          status: "approved",
+          reviewedBy: reviewerId,
+          reviewedByName: reviewerName,
+          reviewNote: reviewNote?.trim() || null,
+          reviewedAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        })
+        AuditService.addToTransaction(transaction, {
+          action: "update",
+          entityType: "attendance",
+          entityId: correction.recordId,
+          before: correctableToData(current),
+          after: { ...correctableToData(current), ...fields },
+          summary: `Correction ${correctionId} approved`,
+          actorId: reviewerId,
+        })
+        AuditService.addToTransaction(transaction, {
+          action: "approve",
+          entityType: "attendanceCorrection",
+          entityId: correctionId,
+          before: { status: "pending" },
+          after: { status: "approved" },
+          actorId: reviewerId,
+        })
+      })
+
+      console.log("✅ [AttendanceCorrectionService] Correction approved:", correctionId)
+    } catch (error) {
+      console.error("❌ [AttendanceCorrectionService] Error approving correction:", error)
+      throw new Error(`Failed to approve correction: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // The record is left as it is; the requester sees the note
+  static async rejectCorrection(correctionId: string, reviewerId: string, reviewNote: string): Promise<void> {
+    try {
+      if (!reviewNote.trim()) throw new Error("A note explaining the rejection is required")
+      const reviewerName = await this.reviewerNameOf(reviewerId)
+
+      await runTransaction(FIRESTORE_DB, async (transaction) => {
+        await this.getPendingCorrection(transaction, correctionId)
+
+        transaction.update(doc(FIRESTORE_DB, CORRECTIONS_COLLECTION, correctionId), {
+          status: "rejected",
+          reviewedBy: reviewerId,
+          reviewedByName: reviewerName,
+          reviewNote: reviewNote.trim(),
+          reviewedAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        })
+        AuditService.addToTransaction(transaction, {
+          action: "reject",
+          entityType: "attendanceCorrection",
+          entityId: correctionId,
+          before: { status: "pending" },
+          after: { status: "rejected" },
+          summary: reviewNote.trim(),
+          actorId: reviewerId,
+        })
+      })
+
+      console.log("✅ [AttendanceCorrectionService] Correction rejected:", correctionId)
+    } catch (error) {
+      console.error("❌ [AttendanceCorrectionService] Error rejecting correction:", error)
+      throw new Error(`Failed to reject correction: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Read inside the review's transaction so that the pending check holds when it commits
+  private static async getPendingCorrection(transaction: Transaction, correctionId: string): Promise<WithId<AttendanceCorrection>> {
+    const correctionDoc = await transaction.get(doc(FIRESTORE_DB, CORRECTIONS_COLLECTION, correctionId))
+    if (!correctionDoc.exists()) throw new Error("Correction request not found")
+
+    const correction = correctionFromDoc(correctionDoc.id, correctionDoc.data())
+    if (correction.status !== "pending") throw new Error(`Correction request was already ${correction.status}`)
+    return correction
+  }
+
+  private static async reviewerNameOf(reviewerId: string): Promise<string> {
+    const reviewerDoc = await getDoc(doc(FIRESTORE_DB, "users", reviewerId))
+    return displayNameOf(reviewerDoc.exists() ? reviewerDoc.data() : undefined, "")
+  }
+
+  // Sorted here rather than in the query so that no composite index is needed
+  private static async getCorrections(...constraints: ReturnType<typeof where>[]): Promise<WithId<AttendanceCorrection>[]> {
+    try {
+      const snapshot = await getDocs(query(collection(FIRESTORE_DB, CORRECTIONS_COLLECTION), ...constraints))
+      return snapshot.docs
+        .map(correctionDoc => correctionFromDoc(correctionDoc.id, correctionDoc.data()))
+        .sort(byNewest)
+    } catch (error) {
+      console.error("❌ [AttendanceCorrectionService] Error fetching corrections:", error)
+      throw new Error(`Failed to fetch attendance corrections: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+}
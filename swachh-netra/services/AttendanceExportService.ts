@@ -0,0 +1,103 @@
+import { File, Paths } from "expo-file-system"
+import * as Print from "expo-print"
+import * as Sharing from "expo-sharing"
+import * as XLSX from "xlsx"
+import {
+  ATTENDANCE_EXPORT_HEADER,
+  AttendanceExportFormat,
+  AttendanceExportScope,
+  AttendanceRecord,
+  attendanceCsvOf,
+  attendanceExportFileName,
+  attendanceExportRowsOf,
+  attendanceScopeText,
+  musterRollHtml,
+  musterRollOf,
+  musterRollSheetOf
+} from "./domain"
+
+export type { AttendanceExportFormat, AttendanceExportScope } from "./domain"
+
+const MIME_TYPES: Record<AttendanceExportFormat, string> = {
+  csv: "text/csv",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf",
+}
+
+const UTIS: Record<AttendanceExportFormat, string> = {
+  csv: "public.comma-separated-values-text",
+  xlsx: "org.openxmlformats.spreadsheetml.sheet",
+  pdf: "com.adobe.pdf",
+}
+
+// Landscape A4 at 72 PPI, so that a month of day columns fits across the page
+const MUSTER_ROLL_PAGE = { width: 842, height: 595 }
+
+export class AttendanceExportService {
+  // Build the file on the device and hand it to the OS share sheet. Returns the file's uri.
+  static async exportAttendance(
+    records: AttendanceRecord[],
+    format: AttendanceExportFormat,
+    scope: AttendanceExportScope
+  ): Promise<string> {
+    try {
+      if (records.length === 0) throw new Error("There are no attendance records to export")
+      console.log("📤 [AttendanceExportService] Exporting", records.length, "records as", format)
+
+      const uri = format === "pdf"
+        ? await this.writePdf(records, scope)
+        : this.writeFile(attendanceExportFileName(scope, format), format === "csv"
+          ? attendanceCsvOf(records)
+          : this.workbookOf(records, scope))
+
+      if (!(await Sharing.isAvailableAsync())) throw new Error("Sharing is not available on this device")
+      await Sharing.shareAsync(uri, {
+        mimeType: MIME_TYPES[format],
+        UTI: UTIS[format],
+        dialogTitle: `Attendance ${attendanceScopeText(scope)}`,
+      })
+
+      console.log("✅ [AttendanceExportService] Shared", uri)
+      return uri
+    } catch (error) {
+      console.error("❌ [AttendanceExportService] Error exporting attendance:", error)
+      throw new Error(`Failed to export attendance: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // The records sheet plus a muster roll sheet, as xlsx bytes
+  private static workbookOf(records: AttendanceRecord[], scope: AttendanceExportScope): Uint8Array {
+    const workbook = XLSX.utils.book_new()
+    const recordsSheet = XLSX.utils.aoa_to_sheet([
+      [`Attendance ${attendanceScopeText(scope)}`],
+      [],
+      ATTENDANCE_EXPORT_HEADER,
+      ...attendanceExportRowsOf(records),
+    ])
+    XLSX.utils.book_append_sheet(workbook, recordsSheet, "Attendance")
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet(musterRollSheetOf(musterRollOf(records, scope.startDate, scope.endDate))),
+      "Muster Roll"
+    )
+    return new Uint8Array(XLSX.write(workbook, { type: "array", bookType: "xlsx" }))
+  }
+
+  // Printing writes to a randomly named file; it is moved under a readable name before sharing
+  private static async writePdf(records: AttendanceRecord[], scope: AttendanceExportScope): Promise<string> {
+    const html = musterRollHtml(musterRollOf(records, scope.startDate, scope.endDate), scope)
+    const { uri } = await Print.printToFileAsync({ html, ...MUSTER_ROLL_PAGE })
+    const printed = new File(uri)
+    const named = new File(Paths.cache, attendanceExportFileName(scope, "pdf"))
+    if (named.exists) named.delete()
+    printed.move(named)
+    return named.uri
+  }
+
+  private static writeFile(name: string, content: string | Uint8Array): string {
+    const file = new File(Paths.cache, name)
+    file.create({ overwrite: true })
+    file.write(content)
+    return file.uri
+  }
+}
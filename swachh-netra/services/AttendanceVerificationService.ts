@@ -0,0 +1,142 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  serverTimestamp,
+  arrayUnion,
+  FIRESTORE_DB
+} from "./firestore"
+import {
+  AttendanceRecord,
+  CorrectableAttendance,
+  FlagReviewStatus,
+  WithId,
+  attendanceFromDoc,
+  correctableToData,
+  correctionEntryToData,
+  diffAuditFields,
+  displayNameOf
+} from "./domain"
+import { AuditService } from "./AuditService"
+
+export type { AttendanceFlag, AttendanceVerification, FlagReviewStatus } from "./domain"
+
+const ATTENDANCE_COLLECTION = "workerAttendance"
+
+// HR's queue of present marks that failed the feeder point check when they were recorded
+export class AttendanceVerificationService {
+  // Flagged marks in one review state, most recent first
+  static async getFlaggedAttendance(reviewStatus: FlagReviewStatus = "pending"): Promise<WithId<AttendanceRecord>[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(FIRESTORE_DB, ATTENDANCE_COLLECTION),
+        where("verification.reviewStatus", "==", reviewStatus)
+      ))
+      return snapshot.docs
+        .map(recordDoc => attendanceFromDoc(recordDoc.id, recordDoc.data()))
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+    } catch (error) {
+      console.error("❌ [AttendanceVerificationService] Error fetching flagged attendance:", error)
+      throw new Error(`Failed to fetch flagged attendance: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // The mark stands as recorded
+  static async acceptFlaggedMark(recordId: string, reviewerId: string, reviewNote?: string): Promise<void> {
+    try {
+      const { ref } = await this.getPendingMark(recordId)
+      const reviewFields = await this.reviewFields("accepted", reviewerId, reviewNote?.trim() || null)
+
+      const batch = writeBatch(FIRESTORE_DB)
+      batch.update(ref, {
+        ...reviewFields,
+        updatedAt: serverTimestamp(),
+      })
+      AuditService.addToBatch(batch, {
+        action: "approve",
+        entityType: "attendance",
+        entityId: recordId,
+        before: { reviewStatus: "pending" },
+        after: { reviewStatus: "accepted" },
+        summary: reviewNote?.trim() || "Flagged mark accepted",
+        actorId: reviewerId,
+      })
+      await batch.commit()
+
+      console.log("✅ [AttendanceVerificationService] Flagged mark accepted:", recordId)
+    } catch (error) {
+      console.error("❌ [AttendanceVerificationService] Error accepting flagged mark:", error)
+      throw new Error(`Failed to accept flagged mark: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // The worker is marked absent for the slot; the mark as recorded is kept as the original
+  // and the change is listed with the record's corrections
+  static async rejectFlaggedMark(recordId: string, reviewerId: string, reviewNote: string): Promise<void> {
+    try {
+      if (!reviewNote.trim()) throw new Error("A note explaining the rejection is required")
+      const { ref, data, record } = await this.getPendingMark(recordId)
+      const reviewFields = await this.reviewFields("rejected", reviewerId, reviewNote.trim())
+
+      const current: CorrectableAttendance = {
+        status: record.status,
+        checkInTime: record.checkInTime,
+        checkOutTime: record.checkOutTime,
+      }
+      const changes = diffAuditFields({ status: record.status }, { status: "absent" })
+
+      const batch = writeBatch(FIRESTORE_DB)
+      batch.update(ref, {
+        status: "absent",
+        ...(data.originalMark ? {} : { originalMark: correctableToData(current) }),
+        corrections: arrayUnion(correctionEntryToData({
+          changes,
+          reason: reviewNote.trim(),
+          approvedBy: reviewerId,
+          approvedAt: new Date(),
+        })),
+        ...reviewFields,
+        updatedAt: serverTimestamp(),
+      })
+      AuditService.addToBatch(batch, {
+        action: "reject",
+        entityType: "attendance",
+        entityId: recordId,
+        before: { status: record.status },
+        after: { status: "absent" },
+        summary: reviewNote.trim(),
+        actorId: reviewerId,
+      })
+      await batch.commit()
+
+      console.log("✅ [AttendanceVerificationService] Flagged mark rejected:", recordId)
+    } catch (error) {
+      console.error("❌ [AttendanceVerificationService] Error rejecting flagged mark:", error)
+      throw new Error(`Failed to reject flagged mark: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  private static async reviewFields(reviewStatus: FlagReviewStatus, reviewerId: string, reviewNote: string | null) {
+    const reviewerDoc = await getDoc(doc(FIRESTORE_DB, "users", reviewerId))
+    return {
+      "verification.reviewStatus": reviewStatus,
+      "verification.reviewedBy": reviewerId,
+      "verification.reviewedByName": displayNameOf(reviewerDoc.exists() ? reviewerDoc.data() : undefined, ""),
+      "verification.reviewNote": reviewNote,
+      "verification.reviewedAt": serverTimestamp(),
+    }
+  }
+
+  private static async getPendingMark(recordId: string) {
+    const recordDoc = await getDoc(doc(FIRESTORE_DB, ATTENDANCE_COLLECTION, recordId))
+    if (!recordDoc.exists()) throw new Error("Attendance record not found")
+    const data = recordDoc.data()
+    const record = attendanceFromDoc(recordDoc.id, data)
+    if (record.verification?.reviewStatus !== "pending") throw new Error("This mark is not waiting for review")
+    return { ref: recordDoc.ref, data, record }
+  }
+}
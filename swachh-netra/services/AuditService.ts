@@ -0,0 +1,144 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  addDoc,
+  serverTimestamp,
+  Timestamp,
+  QueryConstraint,
+  Transaction,
+  WriteBatch,
+  FIRESTORE_DB
+} from "./firestore"
+import {
+  AuditAction,
+  AuditEntityType,
+  AuditEntry,
+  DocumentFields,
+  auditEntryFromDoc,
+  diffAuditFields
+} from "./domain"
+
+export type { AuditAction, AuditChanges, AuditEntityType, AuditEntry } from "./domain"
+
+const AUDIT_COLLECTION = "auditLog"
+
+// Who is making changes from this device; set by the auth context
+export interface AuditSession {
+  actorId: string
+  actorName: string
+  actorRole: string
+  device: string
+}
+
+export interface AuditEvent {
+  action: AuditAction
+  entityType: AuditEntityType
+  entityId: string
+  before?: DocumentFields | null // null or omitted when the entity did not exist
+  after?: DocumentFields | null // null or omitted when the entity was removed
+  summary?: string
+  actorId?: string // defaults to the signed-in user
+}
+
+export interface AuditFilters {
+  entityType?: AuditEntityType
+  entityId?: string
+  actorId?: string
+  from?: Date
+  to?: Date
+}
+
+export class AuditService {
+  private static session: AuditSession | null = null
+
+  static setSession(session: AuditSession | null): void {
+    this.session = session
+  }
+
+  // The signed-in user, for writes that name who made them outside the audit log
+  static currentActorId(): string {
+    return this.session?.actorId || "system"
+  }
+
+  // Current contents of a document, for use as the "before" side of an event
+  static async snapshot(collectionPath: string, id: string): Promise<DocumentFields | null> {
+    try {
+      const snapshot = await getDoc(doc(FIRESTORE_DB, collectionPath, id))
+      return snapshot.exists() ? snapshot.data() : null
+    } catch (error) {
+      console.error("❌ [AuditService] Error reading document for audit:", error)
+      return null
+    }
+  }
+
+  // Record an event after the change it describes has been written. A failure here
+  // is logged rather than thrown: the change itself has already happened.
+  static async record(event: AuditEvent): Promise<void> {
+    try {
+      await addDoc(collection(FIRESTORE_DB, AUDIT_COLLECTION), this.toData(event))
+    } catch (error) {
+      console.error("❌ [AuditService] Error recording audit entry:", error)
+    }
+  }
+
+  // Record an event as part of a batch, so that it is written together with the change
+  static addToBatch(batch: WriteBatch, event: AuditEvent): void {
+    batch.set(doc(collection(FIRESTORE_DB, AUDIT_COLLECTION)), this.toData(event))
+  }
+
+  static addToTransaction(transaction: Transaction, event: AuditEvent): void {
+    transaction.set(doc(collection(FIRESTORE_DB, AUDIT_COLLECTION)), this.toData(event))
+  }
+
+  // Newest entries first. Every filter is applied by the query, so the limit never hides matches.
+  static async getEntries(filters: AuditFilters = {}, maxEntries: number = 100): Promise<AuditEntry[]> {
+    try {
+      const constraints: QueryConstraint[] = []
+      if (filters.entityType) constraints.push(where("entityType", "==", filters.entityType))
+      if (filters.entityId) constraints.push(where("entityId", "==", filters.entityId))
+      if (filters.actorId) constraints.push(where("actorId", "==", filters.actorId))
+      if (filters.from) constraints.push(where("timestamp", ">=", Timestamp.fromDate(filters.from)))
+      if (filters.to) constraints.push(where("timestamp", "<=", Timestamp.fromDate(filters.to)))
+
+      const snapshot = await getDocs(query(
+        collection(FIRESTORE_DB, AUDIT_COLLECTION),
+        ...constraints,
+        orderBy("timestamp", "desc"),
+        limit(maxEntries)
+      ))
+      return snapshot.docs.map(entryDoc => auditEntryFromDoc(entryDoc.id, entryDoc.data()))
+    } catch (error) {
+      console.error("❌ [AuditService] Error fetching audit entries:", error)
+      throw new Error(`Failed to fetch audit log: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  static async getEntityHistory(entityType: AuditEntityType, entityId: string): Promise<AuditEntry[]> {
+    return this.getEntries({ entityType, entityId })
+  }
+
+  private static toData(event: AuditEvent): DocumentFields {
+    const session = this.session
+    const actorId = event.actorId || this.currentActorId()
+
+    return {
+      actorId,
+      // Name and role describe the session user; an explicit actor may be someone else
+      actorName: session && session.actorId === actorId ? session.actorName : "",
+      actorRole: session && session.actorId === actorId ? session.actorRole : "",
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      changes: diffAuditFields(event.before ?? null, event.after ?? null),
+      summary: event.summary || "",
+      device: session?.device || "unknown",
+      timestamp: serverTimestamp(),
+    }
+  }
+}
@@ -11,9 +11,9 @@ import {
   onSnapshot,
   Timestamp,
   serverTimestamp,
-  limit
-} from "firebase/firestore"
-import { FIRESTORE_DB } from "../FirebaseConfig"
+  limit,
+  FIRESTORE_DB
+} from "./firestore"
 
 // Communication interfaces
 export interface Message {
@@ -110,8 +110,7 @@ export class ContractorCommunicationService {
         const data = doc.data()
         
         // Only include messages between this specific driver and contractor
-        if ((data.senderId === driverId && data.receiverId === contractorId) ||
-            (data.senderId === contractorId && data.receiverId === driverId)) {
+        if (this.isInThread(data, driverId, contractorId)) {
           messages.push({
             id: doc.id,
             senderId: data.senderId,
@@ -228,8 +227,7 @@ export class ContractorCommunicationService {
         const data = doc.data()
         
         // Only include messages between this specific driver and contractor
-        if ((data.senderId === driverId && data.receiverId === contractorId) ||
-            (data.senderId === contractorId && data.receiverId === driverId)) {
+        if (this.isInThread(data, driverId, contractorId)) {
           messages.push({
             id: doc.id,
             senderId: data.senderId,
@@ -257,7 +255,8 @@ export class ContractorCommunicationService {
     }
   }
 
-  // Send system message (automated messages)
+  // Send system message (automated messages). It is addressed to the contractor and shows
+  // in their thread with the driver, so both of them see it.
   static async sendSystemMessage(
     driverId: string,
     contractorId: string,
@@ -265,7 +264,7 @@ export class ContractorCommunicationService {
     priority: 'normal' | 'urgent' = 'normal'
   ): Promise<void> {
     try {
-      await this.sendMessage({
+      await addDoc(collection(FIRESTORE_DB, "messages"), {
         senderId: 'system',
         senderName: 'System',
         senderRole: 'admin',
@@ -273,7 +272,14 @@ export class ContractorCommunicationService {
         receiverRole: 'contractor',
         message,
         messageType: 'system',
-        priority
+        priority,
+        status: 'sent',
+        driverId,
+        contractorId,
+        participants: ['system', driverId, contractorId],
+        timestamp: serverTimestamp(),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
       })
     } catch (error) {
       console.error("❌ [ContractorCommunicationService] Error sending system message:", error)
@@ -300,6 +306,15 @@ export class ContractorCommunicationService {
     }
   }
 
+  // Messages the two exchanged, and system messages sent to their thread
+  private static isInThread(data: any, driverId: string, contractorId: string): boolean {
+    if (data.messageType === 'system' && data.senderId === 'system') {
+      return data.driverId === driverId && data.contractorId === contractorId
+    }
+    return (data.senderId === driverId && data.receiverId === contractorId) ||
+      (data.senderId === contractorId && data.receiverId === driverId)
+  }
+
   // Send location update to contractor
   static async sendLocationUpdate(
     driverId: string,
@@ -9,9 +9,9 @@ import {
   onSnapshot,
   Timestamp,
   updateDoc,
-  serverTimestamp
-} from "firebase/firestore"
-import { FIRESTORE_DB } from "../FirebaseConfig"
+  serverTimestamp,
+  FIRESTORE_DB
+} from "./firestore"
 
 // Connection verification interfaces
 export interface ConnectionTestResult {
@@ -13,82 +13,27 @@ import {
   serverTimestamp,
   Timestamp,
   writeBatch,
-} from "firebase/firestore"
-import { FIRESTORE_DB } from "../FirebaseConfig"
+  FIRESTORE_DB,
+} from "./firestore"
 import { DailyAssignmentService } from "./DailyAssignmentService"
 import { FeederPointService, FeederPoint, FeederPointAssignment } from "./FeederPointService"
+import { AuditService } from "./AuditService"
+import {
+  AttendanceRecord,
+  TripRecord,
+  User,
+  Vehicle,
+  WithId,
+  attendanceFromDoc,
+  displayNameOf,
+  tripFromDoc,
+  vehicleFromDoc,
+} from "./domain"
 
 // Enhanced interfaces for contractor operations
-export interface ContractorData {
-  id: string
-  fullName: string
-  email: string
-  phoneNumber?: string
-  role: "transport_contractor"
-  isActive: boolean
-  createdAt: Timestamp
-  updatedAt: Timestamp
-  lastLogin?: Timestamp
-  // Contractor-specific fields
-  companyName?: string
-  licenseNumber?: string
-  address?: string
-  serviceAreas?: string[]
-}
-
-export interface VehicleAssignment {
-  id?: string
-  vehicleId: string
-  contractorId: string
-  driverId?: string
-  assignedAt: Date
-  assignedBy: string
-  status: "assigned" | "unassigned" | "in_use" | "maintenance"
-  notes?: string
-}
-
-export interface DriverAssignment {
-  id?: string
-  driverId: string
-  contractorId: string
-  vehicleId?: string
-  feederPointIds: string[]
-  assignedAt: Date
-  assignedBy: string
-  status: "active" | "inactive"
-  shiftType: "morning" | "afternoon" | "evening" | "night"
-  notes?: string
-}
-
-export interface TripRecord {
-  id?: string
-  driverId: string
-  vehicleId: string
-  feederPointId: string
-  contractorId: string
-  tripNumber: number // 1, 2, or 3 (3 trips per day per feeder point)
-  startTime: Date
-  endTime?: Date
-  wasteWeight?: number
-  workerAttendance: WorkerAttendance[]
-  status: "pending" | "in_progress" | "completed" | "cancelled"
-  gpsCoordinates?: {
-    start: { latitude: number; longitude: number }
-    end?: { latitude: number; longitude: number }
-  }
-  photos?: string[]
-  notes?: string
-  createdAt: Date
-}
-
-export interface WorkerAttendance {
-  workerId: string
-  workerName: string
-  isPresent: boolean
-  checkInTime?: Date
-  photoUrl?: string
-  notes?: string
-}
+export type { TripRecord, VehicleAssignment } from "./domain"
+export type ContractorData = User & { role: "transport_contractor" }
+export type WorkerAttendance = AttendanceRecord
 
 export interface ContractorDashboardStats {
   totalDrivers: number
@@ -141,7 +86,7 @@ export class ContractorService {
       const completedTrips = tripsData.filter(t => t.status === "completed").length
       const pendingTrips = tripsData.filter(t => t.status === "pending").length
 
-      const presentWorkers = attendanceData.filter(w => w.isPresent).length
+      const presentWorkers = attendanceData.filter(w => w.status === "present").length
 
       return {
         totalDrivers: driversData.length,
@@ -193,7 +138,7 @@ export class ContractorService {
   }
 
   // Get vehicles assigned to contractor
-  static async getContractorVehicles(contractorId: string) {
+  static async getContractorVehicles(contractorId: string): Promise<WithId<Vehicle>[]> {
     try {
       console.log(`🚗 Fetching vehicles for contractor: ${contractorId}`)
 
@@ -254,17 +199,10 @@ export class ContractorService {
 
           if (directVehiclesSnapshot.size > 0) {
             console.log(`📋 Found ${directVehiclesSnapshot.size} directly assigned vehicles`)
-            const directVehicles: any[] = []
+            const directVehicles: WithId<Vehicle>[] = []
             directVehiclesSnapshot.forEach((doc) => {
               const data = doc.data()
-              directVehicles.push({
-                id: doc.id,
-                ...data,
-                createdAt: data.createdAt || new Date(),
-                registrationDate: data.registrationDate || new Date(),
-                isActive: data.isActive !== undefined ? data.isActive : true,
-                status: data.status || "active"
-              })
+              directVehicles.push(vehicleFromDoc(doc.id, data))
             })
             return directVehicles
           }
@@ -278,7 +216,7 @@ export class ContractorService {
 
       // Get the actual vehicle details
       const vehiclesRef = collection(FIRESTORE_DB, "vehicles")
-      const vehicles: any[] = []
+      const vehicles: WithId<Vehicle>[] = []
 
       // Fetch vehicles in batches (Firestore 'in' query limit is 10)
       const batchSize = 10
@@ -289,15 +227,7 @@ export class ContractorService {
 
         vehiclesSnapshot.forEach((doc) => {
           const data = doc.data()
-          vehicles.push({
-            id: doc.id,
-            ...data,
-            // Ensure required fields have defaults
-            createdAt: data.createdAt || new Date(),
-            registrationDate: data.registrationDate || new Date(),
-            isActive: data.isActive !== undefined ? data.isActive : true,
-            status: data.status || "active"
-          })
+          vehicles.push(vehicleFromDoc(doc.id, data))
         })
       }
 
@@ -373,14 +303,7 @@ export class ContractorService {
       const trips: TripRecord[] = []
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        trips.push({
-          id: doc.id,
-          ...data,
-          // Convert Firestore Timestamps back to Date objects for easier handling
-          startTime: data.startTime?.toDate?.() || new Date(),
-          endTime: data.endTime?.toDate?.() || undefined,
-          createdAt: data.createdAt?.toDate?.() || new Date(),
-        } as TripRecord)
+        trips.push(tripFromDoc(doc.id, data))
       })
 
       return trips
@@ -407,8 +330,8 @@ export class ContractorService {
       const q = query(
         attendanceRef,
         where("contractorId", "==", contractorId),
-        where("date", ">=", todayTimestamp),
-        where("date", "<", tomorrowTimestamp)
+        where("timestamp", ">=", todayTimestamp),
+        where("timestamp", "<", tomorrowTimestamp)
       )
       const querySnapshot = await getDocs(q)
 
@@ -417,17 +340,10 @@ export class ContractorService {
         const data = doc.data()
         // Handle different data structures
         if (data.workers && Array.isArray(data.workers)) {
-          attendance.push(...data.workers)
+          attendance.push(...data.workers.map((worker: any) => attendanceFromDoc(doc.id, { ...data, ...worker })))
         } else if (data.workerId) {
           // Single worker attendance record
-          attendance.push({
-            workerId: data.workerId,
-            workerName: data.workerName || "Unknown",
-            isPresent: data.isPresent || false,
-            checkInTime: data.checkInTime?.toDate?.() || undefined,
-            photoUrl: data.photoUrl || undefined,
-            notes: data.notes || undefined,
-          })
+          attendance.push(attendanceFromDoc(doc.id, data))
         }
       })
 
@@ -506,6 +422,9 @@ export class ContractorService {
       const vehicleAssignmentRef = doc(collection(FIRESTORE_DB, "vehicleAssignments"))
       const vehicleAssignment = {
         vehicleId,
+        assignedTo: driverId,
+        assignedBy: contractorId,
+        assignmentType: "contractor_to_driver",
         driverId,
         contractorId,
         assignedAt: serverTimestamp(),
@@ -513,19 +432,36 @@ export class ContractorService {
         updatedAt: serverTimestamp()
       }
       batch.set(vehicleAssignmentRef, vehicleAssignment)
+      AuditService.addToBatch(batch, {
+        action: "assign",
+        entityType: "vehicleAssignment",
+        entityId: vehicleAssignmentRef.id,
+        after: { vehicleId, driverId, contractorId, assignmentType: "contractor_to_driver", status: "active" },
+        actorId: assignedBy || contractorId,
+      })
 
       // Create feeder point assignment records
+      const newFeederPointAssignmentIds = new Set<string>()
       for (const feederPointId of feederPointIds) {
         const feederPointAssignmentRef = doc(collection(FIRESTORE_DB, "feederPointAssignments"))
+        newFeederPointAssignmentIds.add(feederPointAssignmentRef.id)
         const feederPointAssignment = {
           feederPointId,
           driverId,
           contractorId,
           assignedAt: serverTimestamp(),
+          assignedBy: contractorId,
           status: "active",
           updatedAt: serverTimestamp()
         }
         batch.set(feederPointAssignmentRef, feederPointAssignment)
+        AuditService.addToBatch(batch, {
+          action: "assign",
+          entityType: "feederPointAssignment",
+          entityId: feederPointAssignmentRef.id,
+          after: { feederPointId, driverId, contractorId, status: "active" },
+          actorId: assignedBy || contractorId,
+        })
       }
 
       // Update driver with assigned vehicle and feeder points only
@@ -558,7 +494,7 @@ export class ContractorService {
       try {
         const today = new Date().toISOString().split('T')[0]
         const driverData = driverDoc.data()
-        const driverName = driverData.fullName || driverData.displayName || driverData.name || "Unknown Driver"
+        const driverName = displayNameOf(driverData, "Unknown Driver")
 
         console.log("🔄 [ContractorService] Creating daily assignment for today:", {
           driverId,
@@ -582,7 +518,7 @@ export class ContractorService {
           await deleteDoc(docSnapshot.ref)
         }
 
-        // Clean up existing feeder point assignments
+        // Clean up existing feeder point assignments (keeping the ones created above)
         console.log("🧹 [ContractorService] Cleaning up existing feeder point assignments...")
         const existingFPQuery = query(
           collection(FIRESTORE_DB, "feederPointAssignments"),
@@ -592,6 +528,7 @@ export class ContractorService {
         const existingFPSnapshot = await getDocs(existingFPQuery)
 
         for (const docSnapshot of existingFPSnapshot.docs) {
+          if (newFeederPointAssignmentIds.has(docSnapshot.id)) continue
           console.log("🗑️ [ContractorService] Deleting old feeder point assignment:", docSnapshot.id)
           await deleteDoc(docSnapshot.ref)
         }
@@ -600,11 +537,9 @@ export class ContractorService {
         console.log("🔄 [ContractorService] Creating new daily assignment")
         await DailyAssignmentService.createOrUpdateAssignment({
           driverId,
-          driverName,
           vehicleId,
           feederPointIds,
           assignmentDate: today,
-          shiftType: "morning",
           assignedBy: contractorId,
           contractorId
         })
@@ -12,32 +12,36 @@ import {
   Timestamp,
   serverTimestamp,
   deleteDoc,
-  writeBatch
-} from "firebase/firestore"
-import { FIRESTORE_DB } from "../FirebaseConfig"
-
-export interface DailyAssignment {
-  id?: string
-  driverId: string
-  contractorId: string
-  assignmentDate: string // YYYY-MM-DD format
-  feederPointIds: string[]
-  vehicleId?: string
-  status: "active" | "completed" | "cancelled"
-  createdAt: Date
-  updatedAt: Date
-  assignedBy: string
-  notes?: string
-}
+  writeBatch,
+  FIRESTORE_DB
+} from "./firestore"
+import {
+  AssignmentRoute,
+  Coordinates,
+  DailyAssignment,
+  DailyAssignmentStatus,
+  FeederPoint,
+  RoutePlan,
+  assignmentDateOf,
+  dailyAssignmentFromDoc,
+  planRoute,
+  routePointOf,
+} from "./domain"
+import { VehicleService } from "./VehicleService"
+import { RosterTemplateService } from "./RosterTemplateService"
+
+export type { AssignmentRoute, DailyAssignment, RoutePlan } from "./domain"
 
 export interface CreateDailyAssignmentParams {
   driverId: string
   contractorId: string
   assignmentDate: string
   feederPointIds: string[]
+  route?: AssignmentRoute // when set, feederPointIds are in its order
   vehicleId?: string
-  status?: "active" | "completed" | "cancelled"
+  status?: DailyAssignmentStatus
   notes?: string
+  assignedBy?: string // defaults to the contractor
 }
 
 export interface DailyAssignmentWithDetails extends DailyAssignment {
@@ -67,17 +71,20 @@ export class DailyAssignmentService {
         contractorId: params.contractorId,
         assignmentDate: params.assignmentDate,
         feederPointIds: params.feederPointIds,
+        route: params.route || null,
         vehicleId: params.vehicleId || null,
         status: params.status || "active",
         notes: params.notes || "",
-        assignedBy: params.contractorId,
+        assignedBy: params.assignedBy || params.contractorId,
         updatedAt: new Date()
       }
 
       if (existingAssignment) {
-        // Update existing assignment
+        // Update existing assignment; one generated from a roster template becomes an
+        // override for the day, which the template no longer changes
         await updateDoc(doc(FIRESTORE_DB, "dailyAssignments", existingAssignment.id!), {
           ...assignmentData,
+          ...(existingAssignment.templateId && { isOverride: true }),
           updatedAt: serverTimestamp()
         })
         console.log("✅ [DailyAssignmentService] Assignment updated:", existingAssignment.id)
@@ -98,6 +105,25 @@ export class DailyAssignmentService {
     }
   }
 
+  /**
+   * Order feeder points into a route that starts and ends at the vehicle's depot. Vehicles
+   * without a depot start at the first stop. The depot is returned so that the route can be
+   * re-estimated offline as the contractor reorders it.
+   */
+  static async planRoute(feederPoints: FeederPoint[], vehicleId?: string): Promise<{ plan: RoutePlan, depot?: Coordinates }> {
+    try {
+      const vehicle = vehicleId ? await VehicleService.getVehicleById(vehicleId) : null
+      const depot = vehicle?.depot ?? undefined
+      const plan = planRoute(feederPoints.map(routePointOf), depot)
+
+      console.log(`🗺️ [DailyAssignmentService] Planned route of ${plan.stops.length} stops, ${plan.distanceMeters}m`)
+      return { plan, depot }
+    } catch (error) {
+      console.error("❌ [DailyAssignmentService] Error planning route:", error)
+      throw new Error(`Failed to plan route: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
   /**
    * Get all assignments for a contractor on a specific date
    */
@@ -117,12 +143,7 @@ export class DailyAssignmentService {
 
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        assignments.push({
-          id: doc.id,
-          ...data,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        } as DailyAssignment)
+        assignments.push(dailyAssignmentFromDoc(doc.id, data))
       })
 
       console.log(`✅ [DailyAssignmentService] Found ${assignments.length} assignments`)
@@ -171,12 +192,7 @@ export class DailyAssignmentService {
         contractorId: data.contractorId
       })
 
-      return {
-        id: doc.id,
-        ...data,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        updatedAt: data.updatedAt?.toDate() || new Date()
-      } as DailyAssignment
+      return dailyAssignmentFromDoc(doc.id, data)
     } catch (error) {
       console.error("❌ [DailyAssignmentService] Error fetching driver assignment:", error)
       return null
@@ -207,12 +223,7 @@ export class DailyAssignmentService {
 
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        assignments.push({
-          id: doc.id,
-          ...data,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        } as DailyAssignment)
+        assignments.push(dailyAssignmentFromDoc(doc.id, data))
       })
 
       console.log(`✅ [DailyAssignmentService] Found ${assignments.length} assignments for driver`)
@@ -224,12 +235,22 @@ export class DailyAssignmentService {
   }
 
   /**
-   * Get today's assignment for a driver
+   * Get today's assignment for a driver, generating it from the driver's roster template
+   * when nobody has yet
    */
   static async getTodayAssignment(driverId: string): Promise<DailyAssignment | null> {
-    const today = new Date().toISOString().split('T')[0]
+    const today = assignmentDateOf(new Date())
     console.log("📅 [DailyAssignmentService] Getting today's assignment for driver:", driverId, "date:", today)
-    const result = await this.getDriverAssignmentByDate(driverId, today)
+    let result = await this.getDriverAssignmentByDate(driverId, today)
+    if (!result) {
+      try {
+        if (await RosterTemplateService.generateDriverDay(driverId, today)) {
+          result = await this.getDriverAssignmentByDate(driverId, today)
+        }
+      } catch (error) {
+        console.warn("⚠️ [DailyAssignmentService] Could not generate today's assignment from the roster:", error)
+      }
+    }
     console.log("📋 [DailyAssignmentService] Today's assignment result:", {
       found: !!result,
       assignmentId: result?.id,
@@ -317,12 +338,7 @@ export class DailyAssignmentService {
       const assignments: DailyAssignment[] = []
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        assignments.push({
-          id: doc.id,
-          ...data,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        } as DailyAssignment)
+        assignments.push(dailyAssignmentFromDoc(doc.id, data))
       })
       callback(assignments)
     })
@@ -345,12 +361,7 @@ export class DailyAssignmentService {
       const assignments: DailyAssignment[] = []
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        assignments.push({
-          id: doc.id,
-          ...data,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        } as DailyAssignment)
+        assignments.push(dailyAssignmentFromDoc(doc.id, data))
       })
       callback(assignments)
     })
@@ -12,9 +12,10 @@ import {
   Timestamp,
   serverTimestamp,
   deleteDoc,
-  writeBatch
-} from "firebase/firestore"
-import { FIRESTORE_DB } from "../FirebaseConfig"
+  writeBatch,
+  FIRESTORE_DB
+} from "./firestore"
+import { AuditService } from "./AuditService"
 
 // Driver Assignment interfaces
 export interface DriverAssignmentData {
@@ -144,6 +145,20 @@ export class DriverAssignmentService {
         updatedAt: serverTimestamp()
       }
       batch.set(assignmentRef, assignmentData)
+      AuditService.addToBatch(batch, {
+        action: "assign",
+        entityType: "driverAssignment",
+        entityId: assignmentRef.id,
+        after: {
+          driverId: params.driverId,
+          driverName: assignmentData.driverName,
+          contractorId: params.contractorId,
+          contractorName: assignmentData.contractorName,
+          status: "active",
+          notes: assignmentData.notes,
+        },
+        actorId: params.assignedBy,
+      })
 
       // Commit the transaction
       await batch.commit()
@@ -245,6 +260,14 @@ export class DriverAssignmentService {
           status: 'terminated',
           updatedAt: serverTimestamp()
         })
+        const { driverId, contractorId, contractorName, status } = doc.data()
+        AuditService.addToBatch(batch, {
+          action: "unassign",
+          entityType: "driverAssignment",
+          entityId: doc.id,
+          before: { driverId, contractorId, contractorName, status },
+          after: { driverId, contractorId, contractorName, status: "terminated" },
+        })
       })
 
       // Commit the batch
@@ -504,6 +527,9 @@ export class DriverAssignmentService {
     try {
       console.log("🔄 [DriverAssignmentService] Transferring driver:", driverId, "to contractor:", newContractorId)
 
+      const driverDoc = await getDoc(doc(FIRESTORE_DB, "users", driverId))
+      const previous = driverDoc.exists() ? driverDoc.data() : {}
+
       // First unassign from current contractor
       await this.unassignDriver(driverId)
 
@@ -515,6 +541,16 @@ export class DriverAssignmentService {
         notes: "Driver transferred"
       })
 
+      await AuditService.record({
+        action: "transfer",
+        entityType: "user",
+        entityId: driverId,
+        before: { contractorId: previous.contractorId ?? null },
+        after: { contractorId: newContractorId },
+        summary: `Transferred ${previous.fullName || "driver"} to another contractor`,
+        actorId: transferredBy,
+      })
+
       console.log("✅ [DriverAssignmentService] Driver transferred successfully")
 
     } catch (error) {
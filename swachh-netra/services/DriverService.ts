@@ -10,11 +10,21 @@ import {
   Timestamp,
   limit,
   updateDoc,
-  serverTimestamp
-} from "firebase/firestore"
-import { FIRESTORE_DB } from "../FirebaseConfig"
+  serverTimestamp,
+  FIRESTORE_DB
+} from "./firestore"
 import { FeederPointService, FeederPoint } from "./FeederPointService"
 import { DailyAssignmentService } from "./DailyAssignmentService"
+import {
+  AttendanceRecord,
+  CollectionSchedule,
+  DEFAULT_COLLECTION_SCHEDULE,
+  attendanceStatusOf,
+  nextTripWindowOf,
+  parseShiftTime,
+  routeStopNumberOf,
+  scheduledTripsOn
+} from "./domain"
 
 // Driver-specific interfaces
 export interface DriverDashboardData {
@@ -69,33 +79,11 @@ export interface AssignedFeederPoint {
   estimatedDuration?: number
   priority?: "high" | "medium" | "low"
   status?: "pending" | "in_progress" | "completed"
+  routeStop?: number // position on the route the contractor accepted, from 1
 }
 
-export interface TripRecord {
-  id?: string
-  driverId: string
-  vehicleId: string
-  feederPointId: string
-  contractorId: string
-  tripNumber: number // 1, 2, or 3 (3 trips per day per feeder point)
-  startTime: Date
-  endTime?: Date
-  wasteWeight?: number
-  status: "pending" | "in_progress" | "completed" | "cancelled"
-  workerIds: string[]
-  photos?: string[]
-  notes?: string
-  createdAt: Date
-}
-
-export interface WorkerAttendance {
-  workerId: string
-  workerName: string
-  isPresent: boolean
-  checkInTime?: Date
-  photoUrl?: string
-  notes?: string
-}
+export type { TripRecord } from "./domain"
+export type WorkerAttendance = AttendanceRecord
 
 export class DriverService {
   // Get comprehensive driver dashboard data
@@ -121,7 +109,7 @@ export class DriverService {
       console.log("📍 [DriverService] Assigned feeder points:", assignedFeederPoints.length)
 
       // Get today's trip statistics
-      const todayTrips = await this.getTodayTripStats(driverId)
+      const todayTrips = this.withScheduledTrips(await this.getTodayTripStats(driverId), assignedFeederPoints)
       console.log("📊 [DriverService] Today's trips:", todayTrips)
 
       // Get assigned workers attendance
@@ -254,6 +242,7 @@ export class DriverService {
 
             // Get today's trip count for this feeder point
             const completedTrips = await this.getTodayCompletedTrips(driverId, fpId)
+            const schedule = feederPoint.collectionSchedule ?? DEFAULT_COLLECTION_SCHEDULE
 
             feederPoints.push({
               id: feederPoint.id!,
@@ -263,8 +252,8 @@ export class DriverService {
               nearestLandmark: feederPoint.nearestLandmark,
               approximateHouseholds: feederPoint.approximateHouseholds,
               completedTrips,
-              totalTrips: 3, // 3 trips per day per feeder point
-              nextTripTime: this.calculateNextTripTime(completedTrips),
+              totalTrips: scheduledTripsOn(schedule, new Date()),
+              nextTripTime: this.calculateNextTripTime(completedTrips, schedule),
               estimatedDuration: 45 // minutes per trip
             })
           } else {
@@ -352,8 +341,8 @@ export class DriverService {
       const q = query(
         attendanceRef,
         where("driverId", "==", driverId),
-        where("date", ">=", todayTimestamp),
-        where("date", "<", tomorrowTimestamp)
+        where("timestamp", ">=", todayTimestamp),
+        where("timestamp", "<", tomorrowTimestamp)
       )
 
       const querySnapshot = await getDocs(q)
@@ -366,6 +355,9 @@ export class DriverService {
         if (attendance.workers && Array.isArray(attendance.workers)) {
           totalWorkers += attendance.workers.length
           presentWorkers += attendance.workers.filter((w: any) => w.isPresent).length
+        } else if (attendance.workerId) {
+          totalWorkers++
+          if (attendanceStatusOf(attendance) === "present") presentWorkers++
         }
       })
 
@@ -494,15 +486,26 @@ export class DriverService {
   }
 
   // Helper method to calculate next trip time
-  static calculateNextTripTime(completedTrips: number): string {
+  static calculateNextTripTime(completedTrips: number, schedule: CollectionSchedule = DEFAULT_COLLECTION_SCHEDULE): string {
     const now = new Date()
     const currentHour = now.getHours()
 
-    // Morning shift: 6 AM - 2 PM, Evening shift: 2 PM - 10 PM
-    if (completedTrips >= 3) {
+    if (scheduledTripsOn(schedule, now) === 0) {
+      return "No collection today"
+    }
+    if (completedTrips >= schedule.tripsPerDay) {
       return "All trips completed"
     }
 
+    // Feeder points with time windows are collected in the next window still open today
+    if (schedule.timeWindows.length > 0) {
+      const window = nextTripWindowOf(schedule, now)
+      if (!window) return "No window left today"
+      return now.getHours() * 60 + now.getMinutes() >= (parseShiftTime(window.start) ?? 0) ? `Now, until ${window.end}` : window.start
+    }
+
+    // Morning shift: 6 AM - 2 PM, Evening shift: 2 PM - 10 PM
+
     if (currentHour < 14) {
       // Morning shift
       const nextTripHour = 6 + (completedTrips * 2.5) // Trips every 2.5 hours
@@ -771,7 +774,8 @@ export class DriverService {
       // Convert to AssignedFeederPoint format with progress tracking
       const assignedFeederPoints: AssignedFeederPoint[] = validFeederPoints.map((fp, index) => {
         const completedTrips = tripsByFeederPoint[fp.id!] || 0
-        const totalTrips = 3 // Standard 3 trips per day per feeder point
+        const schedule = fp.collectionSchedule ?? DEFAULT_COLLECTION_SCHEDULE
+        const totalTrips = scheduledTripsOn(schedule, new Date())
 
         return {
           id: fp.id!,
@@ -782,14 +786,20 @@ export class DriverService {
           approximateHouseholds: fp.approximateHouseholds,
           completedTrips,
           totalTrips,
-          nextTripTime: this.calculateNextTripTime(completedTrips),
+          nextTripTime: this.calculateNextTripTime(completedTrips, schedule),
           estimatedDuration: 45, // Default 45 minutes per trip
           priority: this.calculatePriority(index, validFeederPoints.length),
           status: completedTrips >= totalTrips ? "completed" :
-            completedTrips > 0 ? "in_progress" : "pending"
+            completedTrips > 0 ? "in_progress" : "pending",
+          routeStop: routeStopNumberOf(todayAssignment.route, todayAssignment.feederPointIds, fp.id!)
         }
       })
 
+      // Follow the accepted route, with any point it does not list at the end
+      if (todayAssignment.route) {
+        assignedFeederPoints.sort((a, b) => (a.routeStop ?? Infinity) - (b.routeStop ?? Infinity))
+      }
+
       console.log(`✅ [DriverService] Found ${assignedFeederPoints.length} assigned feeder points for today`)
       return assignedFeederPoints
 
@@ -799,6 +809,17 @@ export class DriverService {
     }
   }
 
+  // Count the trips the feeder points' schedules call for today, so that trips not yet started
+  // show as pending; trips beyond the schedule still count
+  private static withScheduledTrips(
+    stats: DriverDashboardData["todayTrips"],
+    feederPoints: AssignedFeederPoint[]
+  ): DriverDashboardData["todayTrips"] {
+    const scheduled = feederPoints.reduce((sum, fp) => sum + fp.totalTrips, 0)
+    const total = Math.max(stats.total, scheduled)
+    return { ...stats, total, pending: total - stats.completed }
+  }
+
   // Calculate priority based on position in list and other factors
   private static calculatePriority(index: number, total: number): "high" | "medium" | "low" {
     const ratio = index / total
@@ -821,6 +842,7 @@ export class DriverService {
       // Return enhanced data with today's specific assignments
       return {
         ...basicData,
+        todayTrips: this.withScheduledTrips(await this.getTodayTripStats(driverId), todayAssignedFeederPoints),
         assignedFeederPoints: todayAssignedFeederPoints
       }
 
@@ -11,41 +11,20 @@ import {
   orderBy,
   limit,
   Timestamp,
-} from "firebase/firestore"
-import { FIRESTORE_DB } from "../FirebaseConfig"
-
-export interface FeederPoint {
-  id?: string
-  areaName: string
-  areaDescription: string
-  wardNumber: string
-  populationDensity: string
-  accessibility: string
-  additionalDetails: string
-  kothiName: string
-  feederPointName: string
-  nearestLandmark: string
-  approximateHouseholds: string
-  vehicleTypes: string
-  locationPhoto: string
-  coordinates: {
-    latitude: number
-    longitude: number
-  }
-  createdAt: Date
-  createdBy: string
-  isActive: boolean
-}
-
-export interface FeederPointAssignment {
-  id?: string
-  feederPointId: string
-  contractorId: string
-  assignedAt: Date
-  assignedBy: string
-  status: "active" | "inactive"
-  notes?: string
-}
+  FIRESTORE_DB,
+} from "./firestore"
+import {
+  CollectionSchedule,
+  FeederPoint,
+  FeederPointAssignment,
+  collectionScheduleProblem,
+  feederPointAssignmentFromDoc,
+  feederPointFromDoc
+} from "./domain"
+import { SettingsService } from "./SettingsService"
+import { AuditService } from "./AuditService"
+
+export type { CollectionSchedule, FeederPoint, FeederPointAssignment, TripTimeWindow } from "./domain"
 
 export interface AssignmentWithDetails extends FeederPointAssignment {
   feederPoint?: FeederPoint
@@ -77,7 +56,7 @@ export class FeederPointService {
 
       const feederPoints: FeederPoint[] = []
       querySnapshot.forEach((doc) => {
-        feederPoints.push({ id: doc.id, ...doc.data() } as FeederPoint)
+        feederPoints.push(feederPointFromDoc(doc.id, doc.data()))
       })
 
       return feederPoints
@@ -102,7 +81,7 @@ export class FeederPointService {
           areaName: data?.areaName,
           wardNumber: data?.wardNumber
         })
-        return { id: feederPointDoc.id, ...data } as FeederPoint
+        return feederPointFromDoc(feederPointDoc.id, data)
       } else {
         console.log(`❌ [FeederPointService] Feeder point not found: ${id}`)
         return null
@@ -126,6 +105,34 @@ export class FeederPointService {
     }
   }
 
+  // Trips per day, time windows and collection days; trip validation reads them from here
+  static async updateCollectionSchedule(id: string, schedule: CollectionSchedule, updatedBy: string): Promise<void> {
+    try {
+      const problem = collectionScheduleProblem(schedule)
+      if (problem) throw new Error(problem)
+
+      const before = await AuditService.snapshot("feederPoints", id)
+      if (!before) throw new Error("Feeder point not found")
+      await updateDoc(doc(FIRESTORE_DB, "feederPoints", id), {
+        collectionSchedule: schedule,
+        updatedAt: new Date(),
+        updatedBy,
+      })
+      await AuditService.record({
+        action: "update",
+        entityType: "feederPoint",
+        entityId: id,
+        before: { collectionSchedule: before.collectionSchedule ?? null },
+        after: { collectionSchedule: schedule },
+        summary: `Collection schedule of ${before.feederPointName || id} set to ${schedule.tripsPerDay} trips per day`,
+        actorId: updatedBy,
+      })
+    } catch (error) {
+      console.error("❌ [FeederPointService] Error updating collection schedule:", error)
+      throw new Error(`Failed to update collection schedule: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
   static async deleteFeederPoint(id: string): Promise<void> {
     try {
       // Soft delete - mark as inactive
@@ -143,14 +150,28 @@ export class FeederPointService {
   // Assignment CRUD Operations
   static async createAssignment(assignmentData: Omit<FeederPointAssignment, "id" | "assignedAt">): Promise<string> {
     try {
+      if (assignmentData.status === "active") {
+        // Contractor-to-driver records share the collection and carry a driverId
+        const current = await this.getAssignmentsByContractor(assignmentData.contractorId)
+        const heldFeederPoints = new Set(current.filter(a => !a.driverId).map(a => a.feederPointId))
+        await SettingsService.assertWithinContractorLimit("feederPoints", heldFeederPoints.size)
+      }
+
       const docRef = await addDoc(collection(FIRESTORE_DB, "feederPointAssignments"), {
         ...assignmentData,
         assignedAt: new Date(),
       })
+      await AuditService.record({
+        action: "assign",
+        entityType: "feederPointAssignment",
+        entityId: docRef.id,
+        after: assignmentData,
+        actorId: assignmentData.assignedBy,
+      })
       return docRef.id
     } catch (error) {
       console.error("Error creating assignment:", error)
-      throw new Error("Failed to create assignment")
+      throw new Error(`Failed to create assignment: ${error instanceof Error ? error.message : "Unknown error"}`)
     }
   }
 
@@ -162,7 +183,7 @@ export class FeederPointService {
 
       const assignments: FeederPointAssignment[] = []
       querySnapshot.forEach((doc) => {
-        assignments.push({ id: doc.id, ...doc.data() } as FeederPointAssignment)
+        assignments.push(feederPointAssignmentFromDoc(doc.id, doc.data()))
       })
 
       return assignments
@@ -180,7 +201,7 @@ export class FeederPointService {
 
       const assignments: FeederPointAssignment[] = []
       querySnapshot.forEach((doc) => {
-        assignments.push({ id: doc.id, ...doc.data() } as FeederPointAssignment)
+        assignments.push(feederPointAssignmentFromDoc(doc.id, doc.data()))
       })
 
       return assignments
@@ -219,12 +240,7 @@ export class FeederPointService {
       const assignments: FeederPointAssignment[] = []
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        assignments.push({
-          id: doc.id,
-          ...data,
-          assignedAt: data.assignedAt || new Date(),
-          status: data.status || "active"
-        } as FeederPointAssignment)
+        assignments.push(feederPointAssignmentFromDoc(doc.id, { status: "active", ...data }))
       })
 
       console.log(`📋 Found ${assignments.length} assignments for contractor ${contractorId}`)
@@ -234,9 +250,7 @@ export class FeederPointService {
 
       // Sort manually if orderBy failed
       assignments.sort((a, b) => {
-        const dateA = a.assignedAt instanceof Date ? a.assignedAt : new Date(a.assignedAt)
-        const dateB = b.assignedAt instanceof Date ? b.assignedAt : new Date(b.assignedAt)
-        return dateB.getTime() - dateA.getTime()
+        return b.assignedAt.getTime() - a.assignedAt.getTime()
       })
 
       return assignments
@@ -254,12 +268,7 @@ export class FeederPointService {
           const data = doc.data()
           // Filter manually for this contractor and active status
           if (data.contractorId === contractorId && data.status === "active") {
-            assignments.push({
-              id: doc.id,
-              ...data,
-              assignedAt: data.assignedAt || new Date(),
-              status: data.status || "active"
-            } as FeederPointAssignment)
+            assignments.push(feederPointAssignmentFromDoc(doc.id, { status: "active", ...data }))
           }
         })
 
@@ -275,11 +284,19 @@ export class FeederPointService {
 
   static async updateAssignment(id: string, updates: Partial<FeederPointAssignment>): Promise<void> {
     try {
+      const before = await AuditService.snapshot("feederPointAssignments", id)
       const assignmentRef = doc(FIRESTORE_DB, "feederPointAssignments", id)
       await updateDoc(assignmentRef, {
         ...updates,
         updatedAt: new Date(),
       })
+      await AuditService.record({
+        action: updates.status && updates.status !== before?.status ? "status_change" : "update",
+        entityType: "feederPointAssignment",
+        entityId: id,
+        before,
+        after: { ...before, ...updates },
+      })
     } catch (error) {
       console.error("Error updating assignment:", error)
       throw new Error("Failed to update assignment")
@@ -288,7 +305,9 @@ export class FeederPointService {
 
   static async deleteAssignment(id: string): Promise<void> {
     try {
+      const before = await AuditService.snapshot("feederPointAssignments", id)
       await deleteDoc(doc(FIRESTORE_DB, "feederPointAssignments", id))
+      await AuditService.record({ action: "unassign", entityType: "feederPointAssignment", entityId: id, before })
     } catch (error) {
       console.error("Error deleting assignment:", error)
       throw new Error("Failed to delete assignment")
@@ -343,7 +362,7 @@ export class FeederPointService {
 
       const feederPoints: FeederPoint[] = []
       querySnapshot.forEach((doc) => {
-        feederPoints.push({ id: doc.id, ...doc.data() } as FeederPoint)
+        feederPoints.push(feederPointFromDoc(doc.id, doc.data()))
       })
 
       return feederPoints
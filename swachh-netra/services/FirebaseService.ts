@@ -17,11 +17,11 @@ import {
   arrayRemove,
   writeBatch,
   runTransaction,
-  Timestamp
-} from 'firebase/firestore';
-// TODO: Add Firebase Storage and Realtime Database imports when needed
+  Timestamp,
+  FIRESTORE_DB
+} from './firestore';
+// TODO: Add Firebase Realtime Database imports when needed
 // import { ref, set, get, update, remove, onValue, off, push, serverTimestamp as rtdbServerTimestamp } from 'firebase/database';
-// import { ref as storageRef, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
 import {
   createUserWithEmailAndPassword,
   signInWithEmailAndPassword,
@@ -30,33 +30,21 @@ import {
   sendPasswordResetEmail,
   User
 } from 'firebase/auth';
-import { FIRESTORE_DB, FIREBASE_AUTH } from '../FirebaseConfig';
+import { FIREBASE_AUTH } from '../FirebaseConfig';
+import { PhotoStorageService } from './PhotoStorageService';
+import { SettingsService } from './SettingsService';
+import { VehicleTrackingService } from './VehicleTrackingService';
+import { DocumentFields, User as DomainUser, Vehicle, VehicleLocation, isContractorRole, userFromDoc, vehicleFromDoc } from './domain';
 
 // Types
-export interface UserData {
+export interface UserData extends DomainUser {
   uid: string;
-  email: string;
-  fullName: string;
-  role: 'admin' | 'contractor' | 'driver' | 'swachh_hr';
-  phoneNumber?: string;
-  address?: string;
-  isActive: boolean;
-  createdAt: Timestamp;
-  updatedAt: Timestamp;
-  lastLogin?: Timestamp;
   deviceInfo?: {
     deviceId: string;
     platform: string;
     version: string;
   };
   ipAddresses?: string[];
-  // Role-specific fields
-  contractorId?: string; // For drivers - which contractor they belong to
-  assignedVehicleId?: string; // For drivers - assigned vehicle
-  assignedFeederPointIds?: string[]; // For drivers - assigned feeder points
-  companyName?: string; // For contractors
-  licenseNumber?: string; // For contractors
-  serviceAreas?: string[]; // For contractors
 }
 
 export interface ReportData {
@@ -79,24 +67,7 @@ export interface ReportData {
   resolvedAt?: Timestamp;
 }
 
-export interface VehicleData {
-  id: string;
-  vehicleNumber: string;
-  type: 'truck' | 'van' | 'compactor' | 'tipper';
-  capacity: number;
-  driverId?: string;
-  contractorId: string;
-  status: 'active' | 'maintenance' | 'inactive';
-  location?: {
-    latitude: number;
-    longitude: number;
-    timestamp: Timestamp;
-  };
-  fuelLevel?: number;
-  maintenanceSchedule?: Timestamp;
-  createdAt: Timestamp;
-  updatedAt: Timestamp;
-}
+export type VehicleData = Vehicle;
 
 export interface RouteData {
   id: string;
@@ -118,9 +89,21 @@ export interface RouteData {
 }
 
 class FirebaseService {
+  // Users documents are keyed by their auth uid
+  private toUserData(id: string, data: DocumentFields): UserData {
+    return {
+      ...userFromDoc(id, data),
+      uid: data.uid || id,
+      deviceInfo: data.deviceInfo || undefined,
+      ipAddresses: data.ipAddresses || []
+    };
+  }
+
   // Authentication Methods
   async signUp(email: string, password: string, userData: Partial<UserData>) {
     try {
+      await SettingsService.assertRegistrationOpen(userData.role || '');
+
       const userCredential = await createUserWithEmailAndPassword(FIREBASE_AUTH, email, password);
       const user = userCredential.user;
 
@@ -130,7 +113,7 @@ class FirebaseService {
       });
 
       // Save user data to Firestore
-      const userDocData: UserData = {
+      const userDocData = {
         uid: user.uid,
         email: user.email!,
         fullName: userData.fullName!,
@@ -138,15 +121,17 @@ class FirebaseService {
         phoneNumber: userData.phoneNumber,
         address: userData.address,
         isActive: true,
-        createdAt: serverTimestamp() as Timestamp,
-        updatedAt: serverTimestamp() as Timestamp,
         deviceInfo: userData.deviceInfo,
         ipAddresses: userData.ipAddresses || []
       };
 
-      await setDoc(doc(FIRESTORE_DB, 'users', user.uid), userDocData);
+      await setDoc(doc(FIRESTORE_DB, 'users', user.uid), {
+        ...userDocData,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
 
-      return { user, userData: userDocData };
+      return { user, userData: this.toUserData(user.uid, { ...userDocData, createdAt: new Date(), updatedAt: new Date() }) };
     } catch (error) {
       console.error('Signup error:', error);
       throw error;
@@ -194,7 +179,7 @@ class FirebaseService {
   async getUserData(uid: string): Promise<UserData | null> {
     try {
       const userDoc = await getDoc(doc(FIRESTORE_DB, 'users', uid));
-      return userDoc.exists() ? userDoc.data() as UserData : null;
+      return userDoc.exists() ? this.toUserData(userDoc.id, userDoc.data()) : null;
     } catch (error) {
       console.error('Get user data error:', error);
       throw error;
@@ -222,7 +207,7 @@ class FirebaseService {
       } else {
         querySnapshot = await getDocs(collection(FIRESTORE_DB, 'users'));
       }
-      return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as unknown as UserData));
+      return querySnapshot.docs.map(doc => this.toUserData(doc.id, doc.data()));
     } catch (error) {
       console.error('Get all users error:', error);
       throw error;
@@ -234,7 +219,7 @@ class FirebaseService {
     const unsubscribe = onSnapshot(
       doc(FIRESTORE_DB, 'users', uid),
       (doc) => {
-        callback(doc.exists() ? doc.data() as UserData : null);
+        callback(doc.exists() ? this.toUserData(doc.id, doc.data()) : null);
       },
       (error) => {
         console.error('User subscription error:', error);
@@ -315,12 +300,14 @@ class FirebaseService {
     }
   }
 
-  // Image Upload - TODO: Add Firebase Storage configuration
-  async uploadImage(imageUri: string, path: string): Promise<string> {
+  // Image Upload - compressed, retried and stored in Firebase Storage
+  async uploadImage(imageUri: string, path: string, onProgress?: (fraction: number) => void): Promise<string> {
     try {
-      // TODO: Implement Firebase Storage upload
-      console.warn('Image upload not implemented - Firebase Storage not configured');
-      return 'placeholder-image-url';
+      const photo = await PhotoStorageService.uploadPhoto(imageUri, path, {
+        uploadedBy: FIREBASE_AUTH.currentUser?.uid || 'unknown',
+        onProgress
+      });
+      return photo.url;
     } catch (error) {
       console.error('Image upload error:', error);
       throw error;
@@ -329,29 +316,28 @@ class FirebaseService {
 
   async deleteImage(imagePath: string) {
     try {
-      // TODO: Implement Firebase Storage delete
-      console.warn('Image delete not implemented - Firebase Storage not configured');
+      await PhotoStorageService.deletePhoto(imagePath);
     } catch (error) {
       console.error('Image delete error:', error);
       throw error;
     }
   }
 
-  // Real-time location tracking - TODO: Add Firebase Realtime Database configuration
+  // Real-time location tracking (throttled; see VehicleTrackingService)
   async updateVehicleLocation(vehicleId: string, location: { latitude: number; longitude: number }) {
     try {
-      // TODO: Implement Realtime Database location tracking
-      console.warn('Location tracking not implemented - Firebase Realtime Database not configured');
+      await VehicleTrackingService.recordLocation(
+        { vehicleId, driverId: FIREBASE_AUTH.currentUser?.uid || 'unknown' },
+        location
+      );
     } catch (error) {
       console.error('Update vehicle location error:', error);
       throw error;
     }
   }
 
-  subscribeToVehicleLocation(vehicleId: string, callback: (location: any) => void) {
-    // TODO: Implement Realtime Database subscription
-    console.warn('Location subscription not implemented - Firebase Realtime Database not configured');
-    return () => { }; // Return empty unsubscribe function
+  subscribeToVehicleLocation(vehicleId: string, callback: (location: VehicleLocation | null) => void) {
+    return VehicleTrackingService.subscribeToVehicleLocation(vehicleId, callback);
   }
 
   // Batch operations
@@ -378,16 +364,16 @@ class FirebaseService {
         getDocs(collection(FIRESTORE_DB, 'vehicles'))
       ]);
 
-      const users = usersSnapshot.docs.map(doc => doc.data() as UserData);
+      const users = usersSnapshot.docs.map(doc => this.toUserData(doc.id, doc.data()));
       const reports = reportsSnapshot.docs.map(doc => doc.data() as ReportData);
-      const vehicles = vehiclesSnapshot.docs.map(doc => doc.data() as VehicleData);
+      const vehicles = vehiclesSnapshot.docs.map(doc => vehicleFromDoc(doc.id, doc.data()));
 
       return {
         totalUsers: users.length,
         activeUsers: users.filter(u => u.isActive).length,
         usersByRole: {
           admin: users.filter(u => u.role === 'admin').length,
-          contractor: users.filter(u => u.role === 'contractor').length,
+          contractor: users.filter(u => isContractorRole(u.role)).length,
           driver: users.filter(u => u.role === 'driver').length,
           swachh_hr: users.filter(u => u.role === 'swachh_hr').length
         },
@@ -0,0 +1,406 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  writeBatch,
+  Timestamp,
+  serverTimestamp,
+  FIRESTORE_DB
+} from "./firestore"
+import {
+  AttendanceStatus,
+  CalendarDayStatus,
+  Holiday,
+  LeaveApplication,
+  LeaveBalances,
+  LeaveStatus,
+  LeaveType,
+  NonWorkingReason,
+  WithId,
+  attendanceDaysOf,
+  attendanceDayKey,
+  attendanceFromDoc,
+  calendarDayStatusOf,
+  daysBetween,
+  holidayFromDoc,
+  isDayKey,
+  leaveApplicationFromDoc,
+  leaveApplicationProblem,
+  leaveBalancesOf,
+  leaveEntitlementsOf,
+  nonWorkingReasonOf
+} from "./domain"
+import { SettingsService } from "./SettingsService"
+import { ShiftPolicyResolver, ShiftPolicyService } from "./ShiftPolicyService"
+import { AuditService } from "./AuditService"
+
+export type {
+  CalendarDayStatus,
+  Holiday,
+  LeaveApplication,
+  LeaveBalance,
+  LeaveBalances,
+  LeaveStatus,
+  LeaveType,
+  NonWorkingReason
+} from "./domain"
+
+const HOLIDAYS_COLLECTION = "holidays"
+const LEAVE_COLLECTION = "leaveApplications"
+
+export interface LeaveApplicationParams {
+  workerId: string
+  workerName: string
+  leaveType: LeaveType
+  startDate: string
+  endDate: string
+  reason: string
+  appliedBy: string
+}
+
+// Why a worker was not expected at work on a day, or null for a working day
+export type NonWorkingDayResolver = (record: { workerId: string, attendanceDate: string, feederPointId?: string }) => NonWorkingReason | null
+
+export interface CalendarDay {
+  status: CalendarDayStatus
+  label?: string // holiday name or leave type
+}
+
+const byNewest = (a: LeaveApplication, b: LeaveApplication) => b.createdAt.getTime() - a.createdAt.getTime()
+
+export class LeaveService {
+  // Holidays between two "YYYY-MM-DD" days inclusive, or every holiday when no range is given
+  static async getHolidays(startDate?: string, endDate?: string): Promise<WithId<Holiday>[]> {
+    try {
+      const constraints = [
+        ...(startDate ? [where("date", ">=", startDate)] : []),
+        ...(endDate ? [where("date", "<=", endDate)] : []),
+      ]
+      const snapshot = await getDocs(query(collection(FIRESTORE_DB, HOLIDAYS_COLLECTION), ...constraints, orderBy("date", "asc")))
+      return snapshot.docs.map(holidayDoc => holidayFromDoc(holidayDoc.id, holidayDoc.data()))
+    } catch (error) {
+      console.error("❌ [LeaveService] Error fetching holidays:", error)
+      throw new Error(`Failed to fetch holidays: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Add a holiday, or rename the one already on that date
+  static async saveHoliday(date: string, name: string, savedBy: string): Promise<void> {
+    try {
+      if (!isDayKey(date)) throw new Error("Date must be YYYY-MM-DD")
+      if (!name.trim()) throw new Error("Holiday name is required")
+
+      const before = await AuditService.snapshot(HOLIDAYS_COLLECTION, date)
+      const batch = writeBatch(FIRESTORE_DB)
+      batch.set(doc(FIRESTORE_DB, HOLIDAYS_COLLECTION, date), {
+        date,
+        name: name.trim(),
+        createdBy: before?.createdBy || savedBy,
+        ...(before ? {} : { createdAt: serverTimestamp() }),
+        updatedAt: serverTimestamp(),
+      }, { merge: true })
+      AuditService.addToBatch(batch, {
+        action: before ? "update" : "create",
+        entityType: "holiday",
+        entityId: date,
+        before: before && { name: before.name },
+        after: { name: name.trim() },
+        actorId: savedBy,
+      })
+      await batch.commit()
+      console.log("✅ [LeaveService] Saved holiday:", date)
+    } catch (error) {
+      console.error("❌ [LeaveService] Error saving holiday:", error)
+      throw new Error(`Failed to save holiday: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  static async deleteHoliday(date: string, deletedBy: string): Promise<void> {
+    try {
+      const before = await AuditService.snapshot(HOLIDAYS_COLLECTION, date)
+      if (!before) throw new Error("Holiday not found")
+
+      const batch = writeBatch(FIRESTORE_DB)
+      batch.delete(doc(FIRESTORE_DB, HOLIDAYS_COLLECTION, date))
+      AuditService.addToBatch(batch, {
+        action: "delete",
+        entityType: "holiday",
+        entityId: date,
+        before: { name: before.name },
+        actorId: deletedBy,
+      })
+      await batch.commit()
+      console.log("✅ [LeaveService] Deleted holiday:", date)
+    } catch (error) {
+      console.error("❌ [LeaveService] Error deleting holiday:", error)
+      throw new Error(`Failed to delete holiday: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Record a leave application for HR to review. Only the working days in the range are
+  // charged, and they must fit in what is left of the worker's balance after other pending leave.
+  static async applyForLeave(params: LeaveApplicationParams): Promise<string> {
+    try {
+      console.log("🌴 [LeaveService] Applying for leave:", params.workerId, params.startDate, params.endDate)
+
+      const validRange = isDayKey(params.startDate) && isDayKey(params.endDate) && params.startDate <= params.endDate
+      const leaveDates = validRange ? await this.workingDaysFor(params.workerId, params.startDate, params.endDate) : []
+      const problem = leaveApplicationProblem(params, leaveDates)
+      if (problem) throw new Error(problem)
+
+      const existing = await this.getWorkerLeave(params.workerId)
+      const takenDates = new Set(existing
+        .filter(application => application.status === "pending" || application.status === "approved")
+        .flatMap(application => application.leaveDates))
+      const clash = leaveDates.find(date => takenDates.has(date))
+      if (clash) throw new Error(`The worker already has leave on ${clash}`)
+
+      await this.assertWithinBalance(params.leaveType, leaveDates, existing, true)
+
+      const applicationRef = doc(collection(FIRESTORE_DB, LEAVE_COLLECTION))
+      const batch = writeBatch(FIRESTORE_DB)
+      batch.set(applicationRef, {
+        workerId: params.workerId,
+        workerName: params.workerName,
+        leaveType: params.leaveType,
+        startDate: params.startDate,
+        endDate: params.endDate,
+        leaveDates,
+        reason: params.reason.trim(),
+        status: "pending",
+        appliedBy: params.appliedBy,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      })
+      AuditService.addToBatch(batch, {
+        action: "create",
+        entityType: "leaveApplication",
+        entityId: applicationRef.id,
+        after: { workerId: params.workerId, leaveType: params.leaveType, days: leaveDates.length, status: "pending" },
+        summary: `${params.workerName}: ${params.startDate} to ${params.endDate}`,
+        actorId: params.appliedBy,
+      })
+      await batch.commit()
+
+      console.log("✅ [LeaveService] Leave application created:", applicationRef.id)
+      return applicationRef.id
+    } catch (error) {
+      console.error("❌ [LeaveService] Error applying for leave:", error)
+      throw new Error(`Failed to apply for leave: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  static async getLeaveApplications(status?: LeaveStatus): Promise<WithId<LeaveApplication>[]> {
+    return this.getApplications(...(status ? [where("status", "==", status)] : []))
+  }
+
+  static async getWorkerLeave(workerId: string): Promise<WithId<LeaveApplication>[]> {
+    return this.getApplications(where("workerId", "==", workerId))
+  }
+
+  // Approving checks the balance again, since another application may have been approved meanwhile
+  static async approveLeave(applicationId: string, reviewerId: string, reviewNote?: string): Promise<void> {
+    try {
+      const application = await this.getApplication(applicationId)
+      if (application.status !== "pending") throw new Error(`Leave application was already ${application.status}`)
+
+      const others = (await this.getWorkerLeave(application.workerId)).filter(other => other.id !== applicationId)
+      await this.assertWithinBalance(application.leaveType, application.leaveDates, others, false)
+
+      await this.review(application, "approved", reviewerId, reviewNote, "approve")
+      console.log("✅ [LeaveService] Leave approved:", applicationId)
+    } catch (error) {
+      console.error("❌ [LeaveService] Error approving leave:", error)
+      throw new Error(`Failed to approve leave: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  static async rejectLeave(applicationId: string, reviewerId: string, reviewNote: string): Promise<void> {
+    try {
+      if (!reviewNote.trim()) throw new Error("A note explaining the rejection is required")
+      const application = await this.getApplication(applicationId)
+      if (application.status !== "pending") throw new Error(`Leave application was already ${application.status}`)
+
+      await this.review(application, "rejected", reviewerId, reviewNote, "reject")
+      console.log("✅ [LeaveService] Leave rejected:", applicationId)
+    } catch (error) {
+      console.error("❌ [LeaveService] Error rejecting leave:", error)
+      throw new Error(`Failed to reject leave: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Withdraw pending or approved leave; the days go back to the worker's balance
+  static async cancelLeave(applicationId: string, cancelledBy: string): Promise<void> {
+    try {
+      const application = await this.getApplication(applicationId)
+      if (application.status !== "pending" && application.status !== "approved") {
+        throw new Error(`Leave application was already ${application.status}`)
+      }
+
+      await this.review(application, "cancelled", cancelledBy, undefined, "status_change")
+      console.log("✅ [LeaveService] Leave cancelled:", applicationId)
+    } catch (error) {
+      console.error("❌ [LeaveService] Error cancelling leave:", error)
+      throw new Error(`Failed to cancel leave: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  static async getLeaveBalances(workerId: string, year: number = new Date().getFullYear()): Promise<LeaveBalances> {
+    const [applications, settings] = await Promise.all([this.getWorkerLeave(workerId), SettingsService.getSettings()])
+    return leaveBalancesOf(applications, leaveEntitlementsOf(settings), year)
+  }
+
+  // Loads holidays and approved leave for a period once so that a whole report can be judged.
+  // Pass the report's policy resolver to avoid loading shift policies twice.
+  static async getNonWorkingDayResolver(
+    startDate: Date,
+    endDate: Date,
+    policyFor?: ShiftPolicyResolver
+  ): Promise<NonWorkingDayResolver> {
+    const [holidays, approved, resolvePolicy] = await Promise.all([
+      this.getHolidays(attendanceDayKey(startDate), attendanceDayKey(endDate)),
+      this.getLeaveApplications("approved"),
+      policyFor ? Promise.resolve(policyFor) : ShiftPolicyService.getPolicyResolver(),
+    ])
+    const holidayDates = new Set(holidays.map(holiday => holiday.date))
+    const leaveByWorker = new Map<string, Set<string>>()
+    approved.forEach(application => {
+      const dates = leaveByWorker.get(application.workerId) ?? new Set<string>()
+      application.leaveDates.forEach(date => dates.add(date))
+      leaveByWorker.set(application.workerId, dates)
+    })
+
+    return record => nonWorkingReasonOf(
+      record.attendanceDate,
+      holidayDates,
+      leaveByWorker.get(record.workerId) ?? new Set(),
+      resolvePolicy(record).weeklyOffs
+    )
+  }
+
+  // What to show for each day of the month containing the given date, keyed by "YYYY-MM-DD".
+  // Days after today only show holidays, leave and weekly offs.
+  static async getWorkerCalendar(workerId: string, month: Date): Promise<{ [date: string]: CalendarDay }> {
+    try {
+      const firstDay = new Date(month.getFullYear(), month.getMonth(), 1)
+      const lastDay = new Date(month.getFullYear(), month.getMonth() + 1, 0, 23, 59, 59, 999)
+
+      const [attendanceSnapshot, holidays, applications, policyFor] = await Promise.all([
+        getDocs(query(
+          collection(FIRESTORE_DB, "workerAttendance"),
+          where("workerId", "==", workerId),
+          where("timestamp", ">=", Timestamp.fromDate(firstDay)),
+          where("timestamp", "<=", Timestamp.fromDate(lastDay))
+        )),
+        this.getHolidays(attendanceDayKey(firstDay), attendanceDayKey(lastDay)),
+        this.getWorkerLeave(workerId),
+        ShiftPolicyService.getPolicyResolver(),
+      ])
+
+      const records = attendanceSnapshot.docs.map(recordDoc => attendanceFromDoc(recordDoc.id, recordDoc.data()))
+      const marked = new Map<string, AttendanceStatus>(attendanceDaysOf(records).map(day => [day.attendanceDate, day.status]))
+      const holidayNames = new Map(holidays.map(holiday => [holiday.date, holiday.name]))
+      const leaveTypes = new Map<string, LeaveType>()
+      applications
+        .filter(application => application.status === "approved")
+        .forEach(application => application.leaveDates.forEach(date => leaveTypes.set(date, application.leaveType)))
+      const { weeklyOffs } = policyFor({ workerId, feederPointId: records[0]?.feederPointId })
+
+      const calendar: { [date: string]: CalendarDay } = {}
+      daysBetween(attendanceDayKey(firstDay), attendanceDayKey(lastDay)).forEach(date => {
+        const reason = nonWorkingReasonOf(date, new Set(holidayNames.keys()), new Set(leaveTypes.keys()), weeklyOffs)
+        const status = calendarDayStatusOf(marked.get(date), reason)
+        if (!status) return
+        calendar[date] = {
+          status,
+          label: status === "holiday" ? holidayNames.get(date) : status === "leave" ? leaveTypes.get(date) : undefined,
+        }
+      })
+      return calendar
+    } catch (error) {
+      console.error("❌ [LeaveService] Error building attendance calendar:", error)
+      throw new Error(`Failed to load attendance calendar: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Days in the range that are neither holidays nor the worker's weekly offs
+  private static async workingDaysFor(workerId: string, startDate: string, endDate: string): Promise<string[]> {
+    const [holidays, policyFor] = await Promise.all([
+      this.getHolidays(startDate, endDate),
+      ShiftPolicyService.getPolicyResolver(),
+    ])
+    const holidayDates = new Set(holidays.map(holiday => holiday.date))
+    const { weeklyOffs } = policyFor({ workerId })
+    return daysBetween(startDate, endDate)
+      .filter(date => nonWorkingReasonOf(date, holidayDates, new Set(), weeklyOffs) === null)
+  }
+
+  // Pending leave is counted too when applying, so that two applications cannot share the same days
+  private static async assertWithinBalance(
+    leaveType: LeaveType,
+    leaveDates: string[],
+    otherApplications: LeaveApplication[],
+    includePending: boolean
+  ): Promise<void> {
+    const settings = await SettingsService.getSettings()
+    const years = Array.from(new Set(leaveDates.map(date => Number(date.slice(0, 4)))))
+    years.forEach(year => {
+      const balance = leaveBalancesOf(otherApplications, leaveEntitlementsOf(settings), year)[leaveType]
+      const available = balance.remaining - (includePending ? balance.pending : 0)
+      const requested = leaveDates.filter(date => date.startsWith(`${year}-`)).length
+      if (requested > available) {
+        throw new Error(`Only ${Math.max(0, available)} ${leaveType} leave days left in ${year}`)
+      }
+    })
+  }
+
+  private static async review(
+    application: WithId<LeaveApplication>,
+    status: LeaveStatus,
+    reviewerId: string,
+    reviewNote: string | undefined,
+    action: "approve" | "reject" | "status_change"
+  ): Promise<void> {
+    const batch = writeBatch(FIRESTORE_DB)
+    batch.update(doc(FIRESTORE_DB, LEAVE_COLLECTION, application.id), {
+      status,
+      reviewedBy: reviewerId,
+      reviewNote: reviewNote?.trim() || null,
+      reviewedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    })
+    AuditService.addToBatch(batch, {
+      action,
+      entityType: "leaveApplication",
+      entityId: application.id,
+      before: { status: application.status },
+      after: { status },
+      summary: reviewNote?.trim() || `${application.workerName}: ${application.leaveDates.length} days`,
+      actorId: reviewerId,
+    })
+    await batch.commit()
+  }
+
+  private static async getApplication(applicationId: string): Promise<WithId<LeaveApplication>> {
+    const applicationDoc = await getDoc(doc(FIRESTORE_DB, LEAVE_COLLECTION, applicationId))
+    if (!applicationDoc.exists()) throw new Error("Leave application not found")
+    return leaveApplicationFromDoc(applicationDoc.id, applicationDoc.data())
+  }
+
+  // Sorted here rather than in the query so that no composite index is needed
+  private static async getApplications(...constraints: ReturnType<typeof where>[]): Promise<WithId<LeaveApplication>[]> {
+    try {
+      const snapshot = await getDocs(query(collection(FIRESTORE_DB, LEAVE_COLLECTION), ...constraints))
+      return snapshot.docs
+        .map(applicationDoc => leaveApplicationFromDoc(applicationDoc.id, applicationDoc.data()))
+        .sort(byNewest)
+    } catch (error) {
+      console.error("❌ [LeaveService] Error fetching leave applications:", error)
+      throw new Error(`Failed to fetch leave applications: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+}
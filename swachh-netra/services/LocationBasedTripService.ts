@@ -1,7 +1,6 @@
 import {
   collection,
   doc,
-  addDoc,
   updateDoc,
   getDoc,
   getDocs,
@@ -9,10 +8,14 @@ import {
   where,
   orderBy,
   serverTimestamp,
-  Timestamp
-} from 'firebase/firestore'
-import { FIRESTORE_DB } from '../FirebaseConfig'
+  arrayUnion,
+  arrayRemove,
+  FIRESTORE_DB
+} from './firestore'
 import * as Location from 'expo-location'
+import { AttendanceRecord, attendanceFromDoc, distanceInMeters, feederPointFromDoc, isKnownLocation } from './domain'
+import { WorkerAttendanceService } from './WorkerAttendanceService'
+import { TripRecordingService, TripData, StartTripParams } from './TripRecordingService'
 
 export interface LocationData {
   latitude: number
@@ -21,46 +24,7 @@ export interface LocationData {
   timestamp: Date
 }
 
-export interface WorkerAttendanceRecord {
-  id?: string
-  workerId: string
-  workerName: string
-  feederPointId: string
-  feederPointName: string
-  driverId: string
-  driverName: string
-  tripId: string
-  status: 'present' | 'absent'
-  timestamp: Date
-  location: LocationData
-  photoUri?: string
-  notes?: string
-  createdAt: Date
-  updatedAt: Date
-}
-
-export interface TripSession {
-  id?: string
-  driverId: string
-  driverName: string
-  vehicleId: string
-  vehicleNumber: string
-  feederPointId: string
-  feederPointName: string
-  areaName: string
-  wardNumber: string
-  startLocation: LocationData
-  endLocation?: LocationData
-  startTime: Date
-  endTime?: Date
-  status: 'started' | 'in_progress' | 'completed' | 'cancelled'
-  workerAttendanceRecords: string[] // Array of attendance record IDs
-  totalWorkers: number
-  presentWorkers: number
-  absentWorkers: number
-  createdAt: Date
-  updatedAt: Date
-}
+export type WorkerAttendanceRecord = AttendanceRecord
 
 export class LocationBasedTripService {
   private static readonly PROXIMITY_THRESHOLD = 100 // 100 meters
@@ -72,18 +36,7 @@ export class LocationBasedTripService {
     lat2: number,
     lon2: number
   ): number {
-    const R = 6371e3 // Earth's radius in meters
-    const φ1 = lat1 * Math.PI / 180
-    const φ2 = lat2 * Math.PI / 180
-    const Δφ = (lat2 - lat1) * Math.PI / 180
-    const Δλ = (lon2 - lon1) * Math.PI / 180
-
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) *
-      Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-
-    return R * c // Distance in meters
+    return distanceInMeters({ latitude: lat1, longitude: lon1 }, { latitude: lat2, longitude: lon2 })
   }
 
   // Check if driver is within proximity of feeder point
@@ -100,11 +53,10 @@ export class LocationBasedTripService {
       }
 
       const feederPointData = feederPointDoc.data()
+      const { coordinates } = feederPointFromDoc(feederPointDoc.id, feederPointData)
 
       // Check if feeder point has GPS coordinates
-      if (!feederPointData.gpsCoordinates ||
-        !feederPointData.gpsCoordinates.latitude ||
-        !feederPointData.gpsCoordinates.longitude) {
+      if (!isKnownLocation(coordinates)) {
         console.warn("⚠️ [LocationBasedTripService] Feeder point has no GPS coordinates, allowing trip start")
         return {
           isWithinRange: true,
@@ -116,8 +68,8 @@ export class LocationBasedTripService {
       const distance = this.calculateDistance(
         currentLocation.latitude,
         currentLocation.longitude,
-        feederPointData.gpsCoordinates.latitude,
-        feederPointData.gpsCoordinates.longitude
+        coordinates.latitude,
+        coordinates.longitude
       )
 
       console.log(`📍 [LocationBasedTripService] Distance to feeder point: ${distance.toFixed(2)}m`)
@@ -210,55 +162,28 @@ export class LocationBasedTripService {
     }
   }
 
-  // Start a trip session
-  static async startTripSession(
-    driverId: string,
-    driverName: string,
-    vehicleId: string,
-    vehicleNumber: string,
-    feederPointId: string,
+  // Start a trip at the feeder point the driver is standing at: the trip is started and
+  // marked arrived straight away, so that worker attendance can be taken against it
+  static async startTripAtFeederPoint(
+    params: Omit<StartTripParams, 'startLocation' | 'startedAt'>,
     location: LocationData
-  ): Promise<string> {
+  ): Promise<TripData> {
     try {
-      console.log("🚀 [LocationBasedTripService] Starting trip session...")
-
-      // Get feeder point details
-      const feederPointDoc = await getDoc(doc(FIRESTORE_DB, "feederPoints", feederPointId))
-      if (!feederPointDoc.exists()) {
-        throw new Error("Feeder point not found")
-      }
-
-      const feederPointData = feederPointDoc.data()
-
-      // Get assigned workers count
-      const assignedWorkers = await this.getAssignedWorkers(feederPointId)
+      console.log("🚀 [LocationBasedTripService] Starting trip at feeder point:", params.feederPointId)
 
-      const tripSession: Omit<TripSession, "id"> = {
-        driverId,
-        driverName,
-        vehicleId,
-        vehicleNumber,
-        feederPointId,
-        feederPointName: feederPointData.feederPointName || "Unknown Point",
-        areaName: feederPointData.areaName || "",
-        wardNumber: String(feederPointData.wardNumber || ""),
-        startLocation: location,
-        startTime: new Date(),
-        status: 'started',
-        workerAttendanceRecords: [],
-        totalWorkers: assignedWorkers.length,
-        presentWorkers: 0,
-        absentWorkers: 0,
-        createdAt: new Date(),
-        updatedAt: new Date()
+      const { isWithinRange, distance } = await this.checkProximityToFeederPoint(params.feederPointId, location)
+      if (!isWithinRange) {
+        throw new Error(`You are ${distance.toFixed(0)}m from the feeder point; trips start within ${this.PROXIMITY_THRESHOLD}m`)
       }
 
-      const docRef = await addDoc(collection(FIRESTORE_DB, "tripSessions"), tripSession)
+      const coordinates = { latitude: location.latitude, longitude: location.longitude }
+      const trip = await TripRecordingService.startTrip({ ...params, startLocation: coordinates })
+      const arrived = await TripRecordingService.advanceTrip(trip.id!, 'arrived', { actorId: params.driverId, location: coordinates })
 
-      console.log("✅ [LocationBasedTripService] Trip session started:", docRef.id)
-      return docRef.id
+      console.log("✅ [LocationBasedTripService] Trip started at feeder point:", trip.id)
+      return arrived
     } catch (error) {
-      console.error("❌ [LocationBasedTripService] Error starting trip session:", error)
+      console.error("❌ [LocationBasedTripService] Error starting trip:", error)
       throw error
     }
   }
@@ -280,58 +205,34 @@ export class LocationBasedTripService {
     try {
       console.log(`📝 [LocationBasedTripService] Recording attendance for ${workerName}: ${status}`)
 
-      // Validate and sanitize data before submitting to Firestore
-      const sanitizedData = {
-        workerId: workerId || "",
-        workerName: workerName || "",
-        feederPointId: feederPointId || "",
-        feederPointName: feederPointName || "",
-        driverId: driverId || "",
-        driverName: driverName || "",
-        tripId: tripId || "",
+      const { id, previousStatus } = await WorkerAttendanceService.recordAttendance({
+        workerId,
+        workerName,
+        driverId,
+        driverName: driverName || undefined,
+        feederPointId: feederPointId || undefined,
+        feederPointName: feederPointName || undefined,
+        tripId,
         status,
         timestamp: new Date(),
-        location: location || { latitude: 0, longitude: 0, timestamp: new Date() },
-        photoUri: photoUri || null, // Use null instead of undefined for optional fields
-        notes: notes || "", // Default to empty string instead of undefined
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }
-
-      console.log("📋 [LocationBasedTripService] Sanitized attendance data:", {
-        workerId: sanitizedData.workerId,
-        workerName: sanitizedData.workerName,
-        status: sanitizedData.status,
-        hasPhoto: !!sanitizedData.photoUri,
-        hasNotes: !!sanitizedData.notes,
-        hasLocation: !!sanitizedData.location
+        location: location
+          ? { latitude: location.latitude, longitude: location.longitude, accuracy: location.accuracy }
+          : undefined,
+        photoUri,
+        notes,
       })
 
-      const attendanceRecord: Omit<WorkerAttendanceRecord, "id"> = sanitizedData
-
-      const docRef = await addDoc(collection(FIRESTORE_DB, "workerAttendance"), attendanceRecord)
-
-      // Update trip session with attendance record
-      const tripRef = doc(FIRESTORE_DB, "tripSessions", tripId)
-      const tripDoc = await getDoc(tripRef)
-
-      if (tripDoc.exists()) {
-        const tripData = tripDoc.data()
-        const updatedRecords = [...(tripData.workerAttendanceRecords || []), docRef.id]
-        const presentCount = status === 'present' ? (tripData.presentWorkers || 0) + 1 : (tripData.presentWorkers || 0)
-        const absentCount = status === 'absent' ? (tripData.absentWorkers || 0) + 1 : (tripData.absentWorkers || 0)
-
+      // The trip's crew is the workers marked present on it; a re-mark as absent takes them off
+      const tripRef = doc(FIRESTORE_DB, "tripRecords", tripId)
+      if (status !== previousStatus && (await getDoc(tripRef)).exists()) {
         await updateDoc(tripRef, {
-          workerAttendanceRecords: updatedRecords,
-          presentWorkers: presentCount,
-          absentWorkers: absentCount,
-          status: 'in_progress',
+          workerIds: status === 'present' ? arrayUnion(workerId) : arrayRemove(workerId),
           updatedAt: serverTimestamp()
         })
       }
 
-      console.log("✅ [LocationBasedTripService] Attendance recorded:", docRef.id)
-      return docRef.id
+      console.log("✅ [LocationBasedTripService] Attendance recorded:", id)
+      return id
     } catch (error) {
       console.error("❌ [LocationBasedTripService] Error recording attendance:", error)
       throw error
@@ -352,13 +253,7 @@ export class LocationBasedTripService {
 
       attendanceSnapshot.forEach((doc) => {
         const data = doc.data()
-        records.push({
-          id: doc.id,
-          ...data,
-          timestamp: data.timestamp?.toDate() || new Date(),
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        } as WorkerAttendanceRecord)
+        records.push(attendanceFromDoc(doc.id, data))
       })
 
       return records
@@ -367,24 +262,4 @@ export class LocationBasedTripService {
       throw error
     }
   }
-
-  // Complete trip session
-  static async completeTripSession(tripId: string, endLocation: LocationData): Promise<void> {
-    try {
-      console.log("🏁 [LocationBasedTripService] Completing trip session:", tripId)
-
-      const tripRef = doc(FIRESTORE_DB, "tripSessions", tripId)
-      await updateDoc(tripRef, {
-        endLocation,
-        endTime: new Date(),
-        status: 'completed',
-        updatedAt: serverTimestamp()
-      })
-
-      console.log("✅ [LocationBasedTripService] Trip session completed")
-    } catch (error) {
-      console.error("❌ [LocationBasedTripService] Error completing trip session:", error)
-      throw error
-    }
-  }
 }
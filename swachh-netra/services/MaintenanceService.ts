@@ -0,0 +1,74 @@
+import { setWriteGuard } from "./firestore"
+import { SettingsService, SystemSettings } from "./SettingsService"
+
+export const MAINTENANCE_ERROR_MESSAGE = "The system is under maintenance. Please try again once it is back."
+
+export interface MaintenanceStatus {
+  active: boolean
+  upcoming: boolean // a scheduled window that has not started yet
+  message: string
+  startsAt: Date | null
+  endsAt: Date | null // ETA shown to users
+}
+
+export const isMaintenanceError = (error: unknown): boolean =>
+  error instanceof Error && error.message.includes("under maintenance")
+
+export class MaintenanceService {
+  private static settings: SystemSettings | null = null
+  private static sessionRole: string | null = null
+  private static unsubscribe: (() => void) | null = null
+
+  // Maintenance is on while the switch is set or while inside a scheduled window
+  static getStatus(settings: SystemSettings, now: Date = new Date()): MaintenanceStatus {
+    const { maintenanceStartsAt: startsAt, maintenanceEndsAt: endsAt } = settings
+    const inWindow = !!startsAt && now >= startsAt && (!endsAt || now < endsAt)
+
+    return {
+      active: settings.maintenanceMode || inWindow,
+      upcoming: !settings.maintenanceMode && !!startsAt && now < startsAt,
+      message: settings.maintenanceMessage,
+      startsAt,
+      endsAt,
+    }
+  }
+
+  // Follow the settings document and reject non-admin writes while maintenance is on.
+  // Safe to call more than once; returns a function that stops enforcement.
+  static start(): () => void {
+    if (!this.unsubscribe) {
+      setWriteGuard(() => this.assertWritable())
+      this.unsubscribe = SettingsService.subscribe(settings => {
+        this.settings = settings
+      })
+      console.log("✅ [MaintenanceService] Enforcing maintenance mode")
+    }
+    return () => this.stop()
+  }
+
+  static stop(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    this.settings = null
+    setWriteGuard(null)
+  }
+
+  // Role of the signed-in user, or null when nobody is signed in
+  static setSessionRole(role: string | null): void {
+    this.sessionRole = role
+  }
+
+  // Admins keep full access during maintenance; so does sign-in, which happens before a session exists
+  static isWriteBlocked(now: Date = new Date()): boolean {
+    if (!this.settings || !this.sessionRole || this.sessionRole === "admin") {
+      return false
+    }
+    return this.getStatus(this.settings, now).active
+  }
+
+  static assertWritable(): void {
+    if (this.isWriteBlocked()) {
+      throw new Error(MAINTENANCE_ERROR_MESSAGE)
+    }
+  }
+}
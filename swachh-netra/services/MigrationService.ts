@@ -0,0 +1,157 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  serverTimestamp,
+  FIRESTORE_DB
+} from "./firestore"
+import { toOptionalDate } from "./domain"
+import { MIGRATIONS, Migration } from "./migrations"
+
+// One marker document per applied migration, keyed by its zero-padded version
+const SCHEMA_COLLECTION = "schemaVersion"
+
+export interface AppliedMigration {
+  version: number
+  name: string
+  appliedAt?: Date
+  appliedBy?: string
+  affected: number
+}
+
+export interface MigrationReport {
+  version: number
+  name: string
+  direction: "up" | "down"
+  dryRun: boolean
+  scanned: number
+  affected: number
+}
+
+export interface MigrateOptions {
+  dryRun?: boolean
+  targetVersion?: number // defaults to the latest migration
+  appliedBy?: string
+}
+
+export interface RollbackOptions {
+  dryRun?: boolean
+  targetVersion?: number // defaults to undoing only the latest applied migration
+}
+
+const markerId = (version: number) => String(version).padStart(3, "0")
+
+export class MigrationService {
+  // Migrations sorted by version; duplicate versions are a programming error
+  static orderMigrations(migrations: Migration[] = MIGRATIONS): Migration[] {
+    const ordered = [...migrations].sort((a, b) => a.version - b.version)
+    ordered.forEach((migration, index) => {
+      if (index > 0 && ordered[index - 1].version === migration.version) {
+        throw new Error(`Duplicate migration version ${migration.version}`)
+      }
+    })
+    return ordered
+  }
+
+  static async getAppliedMigrations(): Promise<AppliedMigration[]> {
+    const snapshot = await getDocs(collection(FIRESTORE_DB, SCHEMA_COLLECTION))
+    return snapshot.docs
+      .map(docSnapshot => {
+        const data = docSnapshot.data()
+        return {
+          version: Number(data.version),
+          name: data.name || "",
+          appliedAt: toOptionalDate(data.appliedAt),
+          appliedBy: data.appliedBy || undefined,
+          affected: Number(data.affected) || 0,
+        }
+      })
+      .sort((a, b) => a.version - b.version)
+  }
+
+  static async getCurrentVersion(): Promise<number> {
+    const applied = await this.getAppliedMigrations()
+    return applied.length > 0 ? applied[applied.length - 1].version : 0
+  }
+
+  static async getPendingMigrations(migrations: Migration[] = MIGRATIONS): Promise<Migration[]> {
+    const applied = new Set((await this.getAppliedMigrations()).map(migration => migration.version))
+    return this.orderMigrations(migrations).filter(migration => !applied.has(migration.version))
+  }
+
+  // Run pending migrations in order. Each one is recorded as soon as it succeeds,
+  // so a failure part-way leaves the earlier ones applied and the rest pending.
+  static async migrate(options: MigrateOptions = {}, migrations: Migration[] = MIGRATIONS): Promise<MigrationReport[]> {
+    const dryRun = options.dryRun === true
+    const pending = (await this.getPendingMigrations(migrations))
+      .filter(migration => options.targetVersion === undefined || migration.version <= options.targetVersion)
+
+    console.log(`🔄 [MigrationService] ${dryRun ? "Dry run of" : "Applying"} ${pending.length} migration(s)`)
+
+    const reports: MigrationReport[] = []
+    for (const migration of pending) {
+      try {
+        const result = await migration.up({ dryRun })
+
+        if (!dryRun) {
+          await setDoc(doc(FIRESTORE_DB, SCHEMA_COLLECTION, markerId(migration.version)), {
+            version: migration.version,
+            name: migration.name,
+            appliedAt: serverTimestamp(),
+            appliedBy: options.appliedBy || "unknown",
+            affected: result.affected,
+          })
+        }
+
+        console.log(`✅ [MigrationService] ${markerId(migration.version)} ${migration.name}: ${result.affected}/${result.scanned} documents`)
+        reports.push({ version: migration.version, name: migration.name, direction: "up", dryRun, ...result })
+      } catch (error) {
+        console.error(`❌ [MigrationService] Migration ${migration.version} failed:`, error)
+        throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    return reports
+  }
+
+  // Undo applied migrations newest first, down to (but not including) the target version
+  static async rollback(options: RollbackOptions = {}, migrations: Migration[] = MIGRATIONS): Promise<MigrationReport[]> {
+    const dryRun = options.dryRun === true
+    const applied = await this.getAppliedMigrations()
+    if (applied.length === 0) {
+      return []
+    }
+
+    const targetVersion = options.targetVersion ?? applied[applied.length - 1].version - 1
+    const byVersion = new Map(this.orderMigrations(migrations).map(migration => [migration.version, migration]))
+    const toUndo = applied.filter(migration => migration.version > targetVersion).reverse()
+
+    console.log(`🔄 [MigrationService] ${dryRun ? "Dry run of rolling" : "Rolling"} back ${toUndo.length} migration(s)`)
+
+    const reports: MigrationReport[] = []
+    for (const appliedMigration of toUndo) {
+      const migration = byVersion.get(appliedMigration.version)
+      if (!migration) {
+        throw new Error(`Cannot roll back migration ${appliedMigration.version}: it is not defined in this build`)
+      }
+
+      try {
+        const result = await migration.down({ dryRun })
+
+        if (!dryRun) {
+          await deleteDoc(doc(FIRESTORE_DB, SCHEMA_COLLECTION, markerId(migration.version)))
+        }
+
+        console.log(`✅ [MigrationService] Rolled back ${markerId(migration.version)} ${migration.name}: ${result.affected} documents`)
+        reports.push({ version: migration.version, name: migration.name, direction: "down", dryRun, ...result })
+      } catch (error) {
+        console.error(`❌ [MigrationService] Rollback of ${migration.version} failed:`, error)
+        throw new Error(`Rollback of migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    return reports
+  }
+}
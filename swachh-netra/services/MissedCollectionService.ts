@@ -0,0 +1,312 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  runTransaction,
+  Timestamp,
+  serverTimestamp,
+  FIRESTORE_DB
+} from "./firestore"
+import {
+  FeederPoint,
+  MissedCollection,
+  MissedCollectionRates,
+  MissedCollectionStatus,
+  WithId,
+  addDaysToAssignmentDate,
+  assignmentDateOf,
+  collectionDuesOf,
+  dailyAssignmentFromDoc,
+  displayNameOf,
+  feederPointFromDoc,
+  findMissedCollections,
+  missedCollectionEscalationOf,
+  missedCollectionFromDoc,
+  missedCollectionIdOf,
+  missedCollectionNoticeOf,
+  missedCollectionRatesOf,
+  missedCollectionToData,
+  missedCollectionsToEscalate,
+  tripFromDoc
+} from "./domain"
+import { ContractorCommunicationService } from "./ContractorCommunicationService"
+import { SettingsService } from "./SettingsService"
+
+export type {
+  CollectionDue,
+  MissedCollection,
+  MissedCollectionRateRow,
+  MissedCollectionRates,
+  MissedCollectionStatus
+} from "./domain"
+
+const INCIDENTS_COLLECTION = "missedCollections"
+
+// Days checked by default, today included
+export const MISSED_COLLECTION_LOOKBACK_DAYS = 7
+
+// A dashboard load checks a contractor or driver again only after this long
+const BACKGROUND_CHECK_INTERVAL_MS = 30 * 60 * 1000
+
+// Whose assignments a check covers; everyone's when both are left out
+interface CheckScope {
+  contractorId?: string
+  driverId?: string
+}
+
+export interface MissedCollectionCheck {
+  startDate: string
+  endDate: string
+  due: number
+  raised: WithId<MissedCollection>[]
+  escalated: WithId<MissedCollection>[]
+  rates: MissedCollectionRates
+}
+
+export class MissedCollectionService {
+  private static lastBackgroundCheck = new Map<string, number>()
+
+  // Run the check for a contractor, or for a driver's own assignments, without waiting for it.
+  // The app has no server to run it on a schedule, so the driver and contractor dashboards call
+  // this as they load; runCheck only raises and escalates what is new, and repeat calls within
+  // the interval are skipped.
+  static runCheckInBackground(
+    scope: { contractorId: string } | { driverId: string },
+    now: Date = new Date()
+  ): Promise<MissedCollectionCheck | null> {
+    const [kind, id] = "driverId" in scope ? ["driver", scope.driverId] : ["contractor", scope.contractorId]
+    const key = `${kind}:${id}`
+    const lastRun = this.lastBackgroundCheck.get(key)
+    if (!id || (lastRun !== undefined && now.getTime() - lastRun < BACKGROUND_CHECK_INTERVAL_MS)) {
+      return Promise.resolve(null)
+    }
+
+    this.lastBackgroundCheck.set(key, now.getTime())
+    return this.runCheck({ ...scope, now }).catch(error => {
+      this.lastBackgroundCheck.delete(key)
+      console.warn("⚠️ [MissedCollectionService] Background check failed for", key, error)
+      return null
+    })
+  }
+
+  // Compare the days' assignments with their trips, raise an incident for each feeder point that
+  // had no completed trip by the end of its window and tell its driver and contractor, then
+  // escalate incidents left open for too long to the admins. Checking a day again only raises
+  // what is new. With a contractorId only that contractor's assignments are checked; with a
+  // driverId only that driver's, and escalation is left to contractor and admin sessions.
+  static async runCheck(options: {
+    startDate?: string
+    endDate?: string
+    contractorId?: string
+    driverId?: string
+    now?: Date
+  } = {}): Promise<MissedCollectionCheck> {
+    const now = options.now ?? new Date()
+    const endDate = options.endDate ?? assignmentDateOf(now)
+    const startDate = options.startDate ?? addDaysToAssignmentDate(endDate, 1 - MISSED_COLLECTION_LOOKBACK_DAYS)
+
+    try {
+      console.log(`🔎 [MissedCollectionService] Checking collections from ${startDate} to ${endDate}`)
+
+      const scope: CheckScope = { contractorId: options.contractorId, driverId: options.driverId }
+      const assignments = await this.getAssignmentsBetween(startDate, endDate, scope)
+      const feederPoints = await this.getFeederPoints(assignments.flatMap(assignment => assignment.feederPointIds))
+      const dues = collectionDuesOf(assignments, feederPoints, now)
+      const trips = await this.getTripsBetween(startDate, endDate, scope)
+      const missed = findMissedCollections(dues, trips)
+
+      const existing = await this.getIncidents({ startDate, endDate, ...scope })
+      const known = new Set(existing.map(incident => incident.id))
+      const names = await this.userNamesOf(dues.flatMap(due => [due.driverId, due.contractorId]))
+      const raised: WithId<MissedCollection>[] = []
+      for (const due of missed.filter(due => !known.has(missedCollectionIdOf(due)))) {
+        const incident: WithId<MissedCollection> = {
+          ...due,
+          id: missedCollectionIdOf(due),
+          driverName: names[due.driverId],
+          contractorName: names[due.contractorId],
+          status: "open",
+          detectedAt: now,
+        }
+        if (await this.createIncident(incident, now)) raised.push(incident)
+      }
+
+      // Only the incidents this run created are announced, so a check running on another
+      // device at the same time does not message the driver and contractor again
+      for (const incident of raised) {
+        await ContractorCommunicationService.sendSystemMessage(
+          incident.driverId,
+          incident.contractorId,
+          missedCollectionNoticeOf(incident),
+          "urgent"
+        )
+      }
+
+      const escalated = options.driverId ? [] : await this.escalate([...existing, ...raised], now)
+
+      console.log(`✅ [MissedCollectionService] ${missed.length} of ${dues.length} collections missed, ${raised.length} new, ${escalated.length} escalated`)
+      return {
+        startDate,
+        endDate,
+        due: dues.length,
+        raised,
+        escalated,
+        rates: missedCollectionRatesOf(dues, new Set(missed.map(missedCollectionIdOf)), names),
+      }
+    } catch (error) {
+      console.error("❌ [MissedCollectionService] Error checking missed collections:", error)
+      throw new Error(`Failed to check missed collections: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Newest day first
+  static async getIncidents(filters: {
+    startDate?: string
+    endDate?: string
+    contractorId?: string
+    driverId?: string
+    status?: MissedCollectionStatus
+  } = {}): Promise<WithId<MissedCollection>[]> {
+    try {
+      const constraints = [
+        ...this.scopeConstraints(filters),
+        ...(filters.startDate ? [where("assignmentDate", ">=", filters.startDate)] : []),
+        ...(filters.endDate ? [where("assignmentDate", "<=", filters.endDate)] : []),
+      ]
+      const snapshot = await getDocs(query(collection(FIRESTORE_DB, INCIDENTS_COLLECTION), ...constraints))
+      return snapshot.docs
+        .map(incidentDoc => missedCollectionFromDoc(incidentDoc.id, incidentDoc.data()))
+        .filter(incident => !filters.status || incident.status === filters.status)
+        .sort((a, b) => b.assignmentDate.localeCompare(a.assignmentDate) || a.feederPointName.localeCompare(b.feederPointName))
+    } catch (error) {
+      console.error("❌ [MissedCollectionService] Error fetching missed collections:", error)
+      throw new Error(`Failed to fetch missed collections: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  static async resolveIncident(incidentId: string, resolvedBy: string, note: string): Promise<void> {
+    try {
+      if (!note.trim()) throw new Error("Say how the missed collection was resolved")
+      const incidentRef = doc(FIRESTORE_DB, INCIDENTS_COLLECTION, incidentId)
+      const snapshot = await getDoc(incidentRef)
+      if (!snapshot.exists()) throw new Error("Missed collection not found")
+      if (snapshot.data().status === "resolved") throw new Error("This missed collection is already resolved")
+
+      await updateDoc(incidentRef, {
+        status: "resolved",
+        resolvedAt: serverTimestamp(),
+        resolvedBy,
+        resolutionNote: note.trim(),
+      })
+      console.log("✅ [MissedCollectionService] Resolved missed collection:", incidentId)
+    } catch (error) {
+      console.error("❌ [MissedCollectionService] Error resolving missed collection:", error)
+      throw new Error(`Failed to resolve missed collection: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Write the incident unless it already exists; false when another check raised it first
+  private static async createIncident(incident: WithId<MissedCollection>, now: Date): Promise<boolean> {
+    const incidentRef = doc(FIRESTORE_DB, INCIDENTS_COLLECTION, incident.id)
+    return runTransaction(FIRESTORE_DB, async (transaction) => {
+      if ((await transaction.get(incidentRef)).exists()) return false
+      transaction.set(incidentRef, { ...missedCollectionToData(incident), detectedAt: Timestamp.fromDate(now) })
+      return true
+    })
+  }
+
+  // Mark overdue incidents escalated and send the admins one message listing the ones this
+  // run escalated; an incident another check escalated or resolved meanwhile is left alone
+  private static async escalate(incidents: WithId<MissedCollection>[], now: Date): Promise<WithId<MissedCollection>[]> {
+    const settings = await SettingsService.getSettings()
+    const overdue = missedCollectionsToEscalate(incidents, now, settings.missedCollectionEscalationHours)
+
+    const escalated: WithId<MissedCollection>[] = []
+    for (const incident of overdue) {
+      const incidentRef = doc(FIRESTORE_DB, INCIDENTS_COLLECTION, incident.id)
+      const escalatedNow = await runTransaction(FIRESTORE_DB, async (transaction) => {
+        const snapshot = await transaction.get(incidentRef)
+        if (!snapshot.exists() || snapshot.data().status !== "open") return false
+        transaction.update(incidentRef, { status: "escalated", escalatedAt: Timestamp.fromDate(now) })
+        return true
+      })
+      if (escalatedNow) escalated.push({ ...incident, status: "escalated", escalatedAt: now })
+    }
+    if (escalated.length === 0) return []
+
+    const admins = await getDocs(query(collection(FIRESTORE_DB, "users"), where("role", "==", "admin")))
+    const message = missedCollectionEscalationOf(escalated)
+    for (const admin of admins.docs) {
+      try {
+        await ContractorCommunicationService.sendMessage({
+          senderId: "system",
+          senderName: "System",
+          senderRole: "admin",
+          receiverId: admin.id,
+          receiverRole: "admin",
+          message,
+          messageType: "system",
+          priority: "urgent",
+        })
+      } catch (error) {
+        console.warn("⚠️ [MissedCollectionService] Could not notify admin", admin.id, error)
+      }
+    }
+
+    return escalated
+  }
+
+  private static scopeConstraints(scope: CheckScope) {
+    return [
+      ...(scope.contractorId ? [where("contractorId", "==", scope.contractorId)] : []),
+      ...(scope.driverId ? [where("driverId", "==", scope.driverId)] : []),
+    ]
+  }
+
+  private static async getAssignmentsBetween(startDate: string, endDate: string, scope: CheckScope) {
+    const snapshot = await getDocs(query(
+      collection(FIRESTORE_DB, "dailyAssignments"),
+      ...this.scopeConstraints(scope),
+      where("assignmentDate", ">=", startDate),
+      where("assignmentDate", "<=", endDate)
+    ))
+    return snapshot.docs.map(assignmentDoc => dailyAssignmentFromDoc(assignmentDoc.id, assignmentDoc.data()))
+  }
+
+  // Trips started from the local start of the first day up to the end of the last
+  private static async getTripsBetween(startDate: string, endDate: string, scope: CheckScope) {
+    const [startYear, startMonth, startDay] = startDate.split("-").map(Number)
+    const [endYear, endMonth, endDay] = endDate.split("-").map(Number)
+    const snapshot = await getDocs(query(
+      collection(FIRESTORE_DB, "tripRecords"),
+      ...this.scopeConstraints(scope),
+      where("startTime", ">=", Timestamp.fromDate(new Date(startYear, startMonth - 1, startDay))),
+      where("startTime", "<", Timestamp.fromDate(new Date(endYear, endMonth - 1, endDay + 1)))
+    ))
+    return snapshot.docs.map(tripDoc => tripFromDoc(tripDoc.id, tripDoc.data()))
+  }
+
+  private static async getFeederPoints(feederPointIds: string[]): Promise<{ [feederPointId: string]: FeederPoint }> {
+    const ids = Array.from(new Set(feederPointIds))
+    const pointDocs = await Promise.all(ids.map(id => getDoc(doc(FIRESTORE_DB, "feederPoints", id))))
+    const feederPoints: { [feederPointId: string]: FeederPoint } = {}
+    pointDocs.forEach(pointDoc => {
+      if (pointDoc.exists()) feederPoints[pointDoc.id] = feederPointFromDoc(pointDoc.id, pointDoc.data())
+    })
+    return feederPoints
+  }
+
+  private static async userNamesOf(userIds: string[]): Promise<{ [userId: string]: string }> {
+    const ids = Array.from(new Set(userIds.filter(Boolean)))
+    const userDocs = await Promise.all(ids.map(id => getDoc(doc(FIRESTORE_DB, "users", id))))
+    const names: { [userId: string]: string } = {}
+    userDocs.forEach(userDoc => {
+      if (userDoc.exists()) names[userDoc.id] = displayNameOf(userDoc.data(), userDoc.id)
+    })
+    return names
+  }
+}
@@ -0,0 +1,332 @@
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import { collection, doc, FIRESTORE_DB } from "./firestore"
+import { WorkerAttendanceService, MarkAttendanceParams, CheckOutParams } from "./WorkerAttendanceService"
+import { TripRecordingService, TripData, TripStage, StartTripParams, EndTripParams, AdvanceTripParams } from "./TripRecordingService"
+import { MaintenanceService, isMaintenanceError } from "./MaintenanceService"
+import { TRIP_STAGE_LABELS } from "./domain"
+
+// Driver field writes made without connectivity, or during maintenance, wait here in order until they can be replayed
+const OUTBOX_KEY = "offlineOutbox"
+
+// An online write that has not been acknowledged by then is treated as offline
+const ONLINE_TIMEOUT_MS = 15000
+
+// Synced items stay visible in the driver UI for a day
+const SYNCED_RETENTION_MS = 24 * 60 * 60 * 1000
+
+// Payload fields that are Dates and must be revived after a round trip through JSON
+const DATE_FIELDS = ["checkInTime", "checkOutTime", "recordedAt", "startedAt", "advancedAt", "endedAt", "capturedAt"]
+
+export type OutboxOperation = "markAttendance" | "checkOut" | "startTrip" | "advanceTrip" | "endTrip"
+export type OutboxStatus = "pending" | "syncing" | "synced" | "failed"
+
+export interface OutboxPayloads {
+  markAttendance: MarkAttendanceParams
+  checkOut: CheckOutParams
+  startTrip: StartTripParams
+  advanceTrip: AdvanceTripParams & { tripId: string, to: TripStage }
+  endTrip: EndTripParams & { tripId: string }
+}
+
+export interface OutboxItem<K extends OutboxOperation = OutboxOperation> {
+  id: string
+  operation: K
+  payload: OutboxPayloads[K]
+  dedupeKey: string
+  label: string
+  createdAt: Date // client time the driver performed the action
+  status: OutboxStatus
+  attempts: number
+  lastError?: string
+  syncedAt?: Date
+}
+
+export interface SubmitResult {
+  queued: boolean // true when the write is waiting in the outbox
+  itemId?: string
+}
+
+export type OutboxListener = (items: OutboxItem[]) => void
+
+const isConnectivityError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : String(error)
+  return /offline|unavailable|network|timed out|failed to fetch|deadline|retry-limit-exceeded/i.test(message)
+}
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("Request timed out")), ms)
+    promise.then(
+      value => { clearTimeout(timer); resolve(value) },
+      error => { clearTimeout(timer); reject(error) }
+    )
+  })
+
+export class OfflineQueueService {
+  private static listeners = new Set<OutboxListener>()
+  private static flushing: Promise<void> | null = null
+
+  // Mark attendance now, or queue it if the device is offline
+  static async markWorkerAttendance(params: MarkAttendanceParams): Promise<SubmitResult> {
+    const payload = { ...params, recordedAt: params.recordedAt || new Date() }
+    return this.submit("markAttendance", payload, `${params.workerName} marked ${params.isPresent ? "present" : "absent"}`)
+  }
+
+  // Check a worker, or everyone present on a trip, out now, or queue it
+  static async checkOutWorkers(params: CheckOutParams): Promise<SubmitResult> {
+    const label = params.workerId ? `${params.workerName || "Worker"} checked out` : "Trip workers checked out"
+    return this.submit("checkOut", params, label)
+  }
+
+  // Start a trip now, or queue it. The trip id is assigned on the device so that
+  // a queued endTrip can refer to it and a replay cannot create a second trip.
+  static async startTrip(params: StartTripParams): Promise<SubmitResult & { trip: TripData }> {
+    const payload = {
+      ...params,
+      tripId: params.tripId || doc(collection(FIRESTORE_DB, "tripRecords")).id,
+      startedAt: params.startedAt || new Date(),
+    }
+    const result = await this.submit("startTrip", payload, `Trip ${params.tripNumber} started`)
+
+    const trip: TripData = {
+      id: payload.tripId,
+      driverId: payload.driverId,
+      vehicleId: payload.vehicleId,
+      feederPointId: payload.feederPointId,
+      contractorId: payload.contractorId,
+      tripNumber: payload.tripNumber,
+      stage: "en_route",
+      status: "in_progress",
+      startTime: payload.startedAt,
+      startLocation: payload.startLocation,
+      photos: [],
+      workerIds: payload.workerIds || [],
+      createdAt: payload.startedAt,
+      updatedAt: payload.startedAt,
+    }
+    return { ...result, trip }
+  }
+
+  // Move a trip to its next stage now, or queue it behind the writes before it
+  static async advanceTrip(tripId: string, to: TripStage, params: AdvanceTripParams): Promise<SubmitResult> {
+    const payload = { ...params, tripId, to, advancedAt: params.advancedAt || new Date() }
+    return this.submit("advanceTrip", payload, `Trip moved to ${TRIP_STAGE_LABELS[to]}`)
+  }
+
+  // End a trip now, or queue it behind its startTrip
+  static async endTrip(tripId: string, params: EndTripParams): Promise<SubmitResult> {
+    const payload = { ...params, tripId, endedAt: params.endedAt || new Date() }
+    return this.submit("endTrip", payload, `Trip ended (${params.wasteWeight}kg)`)
+  }
+
+  static async getItems(): Promise<OutboxItem[]> {
+    try {
+      const stored = await AsyncStorage.getItem(OUTBOX_KEY)
+      if (!stored) return []
+
+      return JSON.parse(stored, (key, value) =>
+        (DATE_FIELDS.includes(key) || key === "createdAt" || key === "syncedAt") && typeof value === "string"
+          ? new Date(value)
+          : value
+      )
+    } catch (error) {
+      console.error("❌ [OfflineQueueService] Error reading outbox:", error)
+      return []
+    }
+  }
+
+  static async getPendingCount(): Promise<number> {
+    const items = await this.getItems()
+    return items.filter(item => item.status === "pending").length
+  }
+
+  // Listen to outbox changes; the listener is called with the current items straight away
+  static subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener)
+    this.getItems().then(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // Replay pending writes oldest first. Stops at the first connectivity failure so that
+  // later writes never overtake earlier ones; other failures are parked as "failed".
+  static async flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.replayPending().finally(() => {
+        this.flushing = null
+      })
+    }
+    return this.flushing
+  }
+
+  // Put a failed item back in the queue and try again
+  static async retry(itemId: string): Promise<void> {
+    const items = await this.getItems()
+    await this.saveItems(items.map(item =>
+      item.id === itemId && item.status === "failed" ? { ...item, status: "pending", lastError: undefined } : item
+    ))
+    await this.flush()
+  }
+
+  // Drop an item the driver has given up on
+  static async discard(itemId: string): Promise<void> {
+    const items = await this.getItems()
+    await this.saveItems(items.filter(item => item.id !== itemId || item.status === "syncing"))
+  }
+
+  private static async submit<K extends OutboxOperation>(
+    operation: K,
+    payload: OutboxPayloads[K],
+    label: string
+  ): Promise<SubmitResult> {
+    const items = await this.getItems()
+
+    // Go straight to the server unless earlier writes are still waiting, which must land first
+    if (MaintenanceService.isWriteBlocked()) {
+      console.warn(`🛠️ [OfflineQueueService] Maintenance in progress, queueing ${operation}`)
+    } else if (!items.some(item => item.status === "pending" || item.status === "syncing")) {
+      try {
+        await withTimeout(this.execute(operation, payload), ONLINE_TIMEOUT_MS)
+        return { queued: false }
+      } catch (error) {
+        if (!isConnectivityError(error) && !isMaintenanceError(error)) throw error
+        console.warn(`📴 [OfflineQueueService] Cannot write now, queueing ${operation}:`, error instanceof Error ? error.message : error)
+      }
+    }
+
+    const itemId = await this.enqueue(operation, payload, label)
+    return { queued: true, itemId }
+  }
+
+  private static async enqueue<K extends OutboxOperation>(
+    operation: K,
+    payload: OutboxPayloads[K],
+    label: string
+  ): Promise<string> {
+    const items = await this.getItems()
+    const dedupeKey = this.dedupeKeyOf(operation, payload)
+
+    // A newer write for the same thing replaces one that has not been sent yet
+    const duplicate = items.find(item => item.dedupeKey === dedupeKey && item.status === "pending")
+    if (duplicate) {
+      await this.saveItems(items.map(item =>
+        item.id === duplicate.id ? { ...item, payload, label } : item
+      ))
+      console.log("🔁 [OfflineQueueService] Replaced queued", operation, duplicate.id)
+      return duplicate.id
+    }
+
+    const item: OutboxItem<K> = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      operation,
+      payload,
+      dedupeKey,
+      label,
+      createdAt: new Date(),
+      status: "pending",
+      attempts: 0,
+    }
+    await this.saveItems([...items, item])
+    console.log("📥 [OfflineQueueService] Queued", operation, item.id)
+    return item.id
+  }
+
+  private static dedupeKeyOf<K extends OutboxOperation>(operation: K, payload: OutboxPayloads[K]): string {
+    if (operation === "markAttendance") {
+      const params = payload as MarkAttendanceParams
+      return `markAttendance:${params.driverId}:${params.workerId}:${dayKey(params.recordedAt || params.checkInTime)}`
+    }
+    if (operation === "checkOut") {
+      const params = payload as CheckOutParams
+      return `checkOut:${params.driverId}:${params.workerId || "trip"}:${params.tripId || dayKey(params.checkOutTime)}`
+    }
+    if (operation === "startTrip") {
+      return `startTrip:${(payload as StartTripParams).tripId}`
+    }
+    if (operation === "advanceTrip") {
+      const params = payload as OutboxPayloads["advanceTrip"]
+      return `advanceTrip:${params.tripId}:${params.to}`
+    }
+    return `endTrip:${(payload as OutboxPayloads["endTrip"]).tripId}`
+  }
+
+  private static async execute<K extends OutboxOperation>(operation: K, payload: OutboxPayloads[K]): Promise<void> {
+    switch (operation) {
+      case "markAttendance":
+        await WorkerAttendanceService.markWorkerAttendance(payload as MarkAttendanceParams)
+        break
+      case "checkOut":
+        await WorkerAttendanceService.recordCheckOut(payload as CheckOutParams)
+        break
+      case "startTrip":
+        await TripRecordingService.startTrip(payload as StartTripParams)
+        break
+      case "advanceTrip": {
+        const { tripId, to, ...params } = payload as OutboxPayloads["advanceTrip"]
+        await TripRecordingService.advanceTrip(tripId, to, params)
+        break
+      }
+      case "endTrip": {
+        const { tripId, ...params } = payload as OutboxPayloads["endTrip"]
+        await TripRecordingService.endTrip(tripId, params)
+        break
+      }
+    }
+  }
+
+  private static async replayPending(): Promise<void> {
+    // Nothing else replays while this runs, so a "syncing" item was interrupted
+    // (e.g. the app was closed mid-write); replaying it is safe
+    let items = (await this.getItems()).map(item =>
+      item.status === "syncing" ? { ...item, status: "pending" as OutboxStatus } : item
+    )
+    const pendingIds = items.filter(item => item.status === "pending").map(item => item.id)
+    if (pendingIds.length === 0) return
+
+    // Held until maintenance ends; the next flush after that replays them
+    if (MaintenanceService.isWriteBlocked()) {
+      console.log("🛠️ [OfflineQueueService] Maintenance in progress, holding", pendingIds.length, "queued write(s)")
+      return
+    }
+
+    console.log("🔄 [OfflineQueueService] Replaying", pendingIds.length, "queued write(s)")
+
+    const update = async (itemId: string, changes: Partial<OutboxItem>) => {
+      // Re-read so that items queued while this write was in flight are kept
+      items = (await this.getItems()).map(item => (item.id === itemId ? { ...item, ...changes } : item))
+      await this.saveItems(items)
+    }
+
+    for (const itemId of pendingIds) {
+      const item = items.find(candidate => candidate.id === itemId)
+      if (!item || item.status !== "pending") continue
+
+      await update(itemId, { status: "syncing", attempts: item.attempts + 1 })
+      try {
+        await withTimeout(this.execute(item.operation, item.payload), ONLINE_TIMEOUT_MS)
+        await update(itemId, { status: "synced", syncedAt: new Date(), lastError: undefined })
+        console.log("✅ [OfflineQueueService] Synced", item.operation, itemId)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error"
+        if (isConnectivityError(error) || isMaintenanceError(error)) {
+          await update(itemId, { status: "pending", lastError: message })
+          console.warn("📴 [OfflineQueueService] Cannot write yet, pausing replay:", message)
+          return
+        }
+        await update(itemId, { status: "failed", lastError: message })
+        console.error("❌ [OfflineQueueService] Failed to replay", item.operation, itemId, message)
+      }
+    }
+  }
+
+  private static async saveItems(items: OutboxItem[]): Promise<void> {
+    const cutoff = Date.now() - SYNCED_RETENTION_MS
+    const kept = items.filter(item => item.status !== "synced" || (item.syncedAt?.getTime() ?? 0) > cutoff)
+
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(kept))
+    this.listeners.forEach(listener => listener(kept))
+  }
+}
@@ -0,0 +1,350 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  Timestamp,
+  serverTimestamp,
+  FIRESTORE_DB
+} from "./firestore"
+import {
+  PayrollDeduction,
+  PayrollRun,
+  Payslip,
+  SkippedWorker,
+  WageRate,
+  WithId,
+  attendanceDaysOf,
+  attendanceFromDoc,
+  deductionProblem,
+  isMonthKey,
+  monthRangeOf,
+  payrollRunFromDoc,
+  payrollTotalsOf,
+  payslipEarningsOf,
+  payslipFromDoc,
+  payslipId,
+  payslipTotalsOf,
+  roundMoney,
+  wageRateFromDoc,
+  wageRateId,
+  wageRateProblem
+} from "./domain"
+import { WorkerService } from "./WorkerService"
+import { LeaveService } from "./LeaveService"
+import { ShiftPolicyService } from "./ShiftPolicyService"
+import { AuditService } from "./AuditService"
+
+export type { PayrollDeduction, PayrollRun, PayrollRunStatus, Payslip, SkippedWorker, WageRate } from "./domain"
+
+const RATES_COLLECTION = "wageRates"
+const RUNS_COLLECTION = "payrollRuns"
+const PAYSLIPS_COLLECTION = "payslips"
+
+export type WageRateInput = Pick<WageRate, "category" | "dailyRate" | "overtimeHourlyRate" | "deductionPercent">
+
+export class PayrollService {
+  static async getWageRates(): Promise<WithId<WageRate>[]> {
+    try {
+      const snapshot = await getDocs(collection(FIRESTORE_DB, RATES_COLLECTION))
+      return snapshot.docs
+        .map(rateDoc => wageRateFromDoc(rateDoc.id, rateDoc.data()))
+        .sort((a, b) => a.category.localeCompare(b.category))
+    } catch (error) {
+      console.error("❌ [PayrollService] Error fetching wage rates:", error)
+      throw new Error(`Failed to fetch wage rates: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Add the rate for a category, or replace it. Runs already generated keep the rates they were made with.
+  static async saveWageRate(rate: WageRateInput, updatedBy: string): Promise<void> {
+    try {
+      const problem = wageRateProblem(rate)
+      if (problem) throw new Error(problem)
+
+      const rateId = wageRateId(rate.category)
+      const before = await AuditService.snapshot(RATES_COLLECTION, rateId)
+      const fields = {
+        category: rate.category.trim(),
+        dailyRate: roundMoney(rate.dailyRate),
+        overtimeHourlyRate: roundMoney(rate.overtimeHourlyRate),
+        deductionPercent: rate.deductionPercent,
+      }
+
+      const batch = writeBatch(FIRESTORE_DB)
+      batch.set(doc(FIRESTORE_DB, RATES_COLLECTION, rateId), { ...fields, updatedBy, updatedAt: serverTimestamp() })
+      AuditService.addToBatch(batch, {
+        action: before ? "update" : "create",
+        entityType: "wageRate",
+        entityId: rateId,
+        before: before && {
+          dailyRate: before.dailyRate,
+          overtimeHourlyRate: before.overtimeHourlyRate,
+          deductionPercent: before.deductionPercent,
+        },
+        after: fields,
+        actorId: updatedBy,
+      })
+      await batch.commit()
+      console.log("✅ [PayrollService] Saved wage rate:", rateId)
+    } catch (error) {
+      console.error("❌ [PayrollService] Error saving wage rate:", error)
+      throw new Error(`Failed to save wage rate: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  static async deleteWageRate(rateId: string, deletedBy: string): Promise<void> {
+    try {
+      const before = await AuditService.snapshot(RATES_COLLECTION, rateId)
+      if (!before) throw new Error("Wage rate not found")
+
+      const batch = writeBatch(FIRESTORE_DB)
+      batch.delete(doc(FIRESTORE_DB, RATES_COLLECTION, rateId))
+      AuditService.addToBatch(batch, {
+        action: "delete",
+        entityType: "wageRate",
+        entityId: rateId,
+        before: { category: before.category, dailyRate: before.dailyRate },
+        actorId: deletedBy,
+      })
+      await batch.commit()
+      console.log("✅ [PayrollService] Deleted wage rate:", rateId)
+    } catch (error) {
+      console.error("❌ [PayrollService] Error deleting wage rate:", error)
+      throw new Error(`Failed to delete wage rate: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  static async getPayrollRun(month: string): Promise<WithId<PayrollRun> | null> {
+    try {
+      const runDoc = await getDoc(doc(FIRESTORE_DB, RUNS_COLLECTION, month))
+      return runDoc.exists() ? payrollRunFromDoc(runDoc.id, runDoc.data()) : null
+    } catch (error) {
+      console.error("❌ [PayrollService] Error fetching payroll run:", error)
+      throw new Error(`Failed to fetch payroll run: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  static async getPayslips(month: string): Promise<WithId<Payslip>[]> {
+    try {
+      const snapshot = await getDocs(query(collection(FIRESTORE_DB, PAYSLIPS_COLLECTION), where("month", "==", month)))
+      return snapshot.docs
+        .map(payslipDoc => payslipFromDoc(payslipDoc.id, payslipDoc.data()))
+        .sort((a, b) => a.workerName.localeCompare(b.workerName))
+    } catch (error) {
+      console.error("❌ [PayrollService] Error fetching payslips:", error)
+      throw new Error(`Failed to fetch payslips: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Work out every worker's pay for the month from their attendance, approved leave and the
+  // rate for their category. Generating again replaces the draft but keeps deductions added by hand.
+  // Inactive workers are paid only for a month in which they have attendance.
+  static async generatePayrollRun(month: string, generatedBy: string): Promise<WithId<PayrollRun>> {
+    try {
+      if (!isMonthKey(month)) throw new Error("Month must be YYYY-MM")
+      console.log("💰 [PayrollService] Generating payroll for", month)
+
+      const existingRun = await this.getPayrollRun(month)
+      if (existingRun?.status === "approved") throw new Error(`Payroll for ${month} is approved and locked`)
+
+      const { startDate, endDate } = monthRangeOf(month)
+      const policyFor = await ShiftPolicyService.getPolicyResolver()
+      const [workers, rates, attendanceSnapshot, approvedLeave, nonWorkingReasonOf, existingPayslips] = await Promise.all([
+        WorkerService.getAllWorkersIncludingInactive(),
+        this.getWageRates(),
+        getDocs(query(
+          collection(FIRESTORE_DB, "workerAttendance"),
+          where("timestamp", ">=", Timestamp.fromDate(startDate)),
+          where("timestamp", "<=", Timestamp.fromDate(endDate))
+        )),
+        LeaveService.getLeaveApplications("approved"),
+        LeaveService.getNonWorkingDayResolver(startDate, endDate, policyFor),
+        this.getPayslips(month),
+      ])
+
+      const records = attendanceSnapshot.docs.map(recordDoc => attendanceFromDoc(recordDoc.id, recordDoc.data()))
+      const days = attendanceDaysOf(records)
+      const ratesById = new Map(rates.map(rate => [rate.id, rate]))
+      const deductionsByWorker = new Map(existingPayslips.map(payslip => [payslip.workerId, payslip.deductions]))
+
+      const payslips: Payslip[] = []
+      const skippedWorkers: SkippedWorker[] = []
+      workers.forEach(worker => {
+        if (!worker.id) return
+        const workerDays = days.filter(day => day.workerId === worker.id)
+        if (!worker.isActive && workerDays.length === 0) return
+
+        const rate = worker.category ? ratesById.get(wageRateId(worker.category)) : undefined
+        if (!rate) {
+          skippedWorkers.push({
+            workerId: worker.id,
+            workerName: worker.fullName,
+            reason: worker.category ? `No wage rate for ${worker.category}` : "No wage category",
+          })
+          return
+        }
+
+        const leaveDates = approvedLeave
+          .filter(application => application.workerId === worker.id)
+          .flatMap(application => application.leaveDates)
+          .filter(date => date.startsWith(`${month}-`))
+        const earnings = payslipEarningsOf(
+          workerDays,
+          leaveDates,
+          day => nonWorkingReasonOf(day) === null,
+          day => policyFor(day),
+          rate
+        )
+        const deductions = deductionsByWorker.get(worker.id) ?? []
+
+        payslips.push({
+          month,
+          workerId: worker.id,
+          workerName: worker.fullName,
+          ...(worker.employeeId ? { employeeId: worker.employeeId } : {}),
+          category: rate.category,
+          ...(worker.bankAccountNumber ? { bankAccountNumber: worker.bankAccountNumber } : {}),
+          ...(worker.ifscCode ? { ifscCode: worker.ifscCode } : {}),
+          dailyRate: rate.dailyRate,
+          overtimeHourlyRate: rate.overtimeHourlyRate,
+          deductionPercent: rate.deductionPercent,
+          ...earnings,
+          deductions,
+          ...payslipTotalsOf(earnings.grossPay, rate.deductionPercent, deductions),
+        })
+      })
+
+      const totals = payrollTotalsOf(payslips)
+      const batch = writeBatch(FIRESTORE_DB)
+      const keptIds = new Set(payslips.map(payslip => payslipId(month, payslip.workerId)))
+      existingPayslips
+        .filter(payslip => !keptIds.has(payslip.id))
+        .forEach(payslip => batch.delete(doc(FIRESTORE_DB, PAYSLIPS_COLLECTION, payslip.id)))
+      payslips.forEach(payslip => batch.set(doc(FIRESTORE_DB, PAYSLIPS_COLLECTION, payslipId(month, payslip.workerId)), payslip))
+      batch.set(doc(FIRESTORE_DB, RUNS_COLLECTION, month), {
+        month,
+        status: "draft",
+        ...totals,
+        skippedWorkers,
+        generatedBy,
+        generatedAt: serverTimestamp(),
+      })
+      AuditService.addToBatch(batch, {
+        action: existingRun ? "update" : "create",
+        entityType: "payrollRun",
+        entityId: month,
+        before: existingRun && { workerCount: existingRun.workerCount, totalNet: existingRun.totalNet },
+        after: { workerCount: totals.workerCount, totalNet: totals.totalNet, status: "draft" },
+        summary: skippedWorkers.length > 0 ? `${skippedWorkers.length} workers skipped` : undefined,
+        actorId: generatedBy,
+      })
+      await batch.commit()
+
+      console.log("✅ [PayrollService] Generated payroll for", month, "-", payslips.length, "payslips")
+      return { id: month, month, status: "draft", ...totals, skippedWorkers, generatedBy, generatedAt: new Date() }
+    } catch (error) {
+      console.error("❌ [PayrollService] Error generating payroll:", error)
+      throw new Error(`Failed to generate payroll: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  static async addDeduction(payslipId: string, deduction: PayrollDeduction, addedBy: string): Promise<void> {
+    try {
+      const problem = deductionProblem(deduction)
+      if (problem) throw new Error(problem)
+
+      const payslip = await this.getDraftPayslip(payslipId)
+      const deductions = [...payslip.deductions, { label: deduction.label.trim(), amount: roundMoney(deduction.amount) }]
+      await this.updateDeductions(payslip, deductions, addedBy, `Added ${deduction.label.trim()}`)
+      console.log("✅ [PayrollService] Added deduction to", payslipId)
+    } catch (error) {
+      console.error("❌ [PayrollService] Error adding deduction:", error)
+      throw new Error(`Failed to add deduction: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  static async removeDeduction(payslipId: string, index: number, removedBy: string): Promise<void> {
+    try {
+      const payslip = await this.getDraftPayslip(payslipId)
+      const removed = payslip.deductions[index]
+      if (!removed) throw new Error("Deduction not found")
+
+      const deductions = payslip.deductions.filter((_, position) => position !== index)
+      await this.updateDeductions(payslip, deductions, removedBy, `Removed ${removed.label}`)
+      console.log("✅ [PayrollService] Removed deduction from", payslipId)
+    } catch (error) {
+      console.error("❌ [PayrollService] Error removing deduction:", error)
+      throw new Error(`Failed to remove deduction: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Lock the run; its payslips can no longer change
+  static async approvePayrollRun(month: string, approvedBy: string): Promise<void> {
+    try {
+      const run = await this.getPayrollRun(month)
+      if (!run) throw new Error(`No payroll has been generated for ${month}`)
+      if (run.status === "approved") throw new Error(`Payroll for ${month} is already approved`)
+      if (run.workerCount === 0) throw new Error("There are no payslips to approve")
+
+      const batch = writeBatch(FIRESTORE_DB)
+      batch.update(doc(FIRESTORE_DB, RUNS_COLLECTION, month), {
+        status: "approved",
+        approvedBy,
+        approvedAt: serverTimestamp(),
+      })
+      AuditService.addToBatch(batch, {
+        action: "approve",
+        entityType: "payrollRun",
+        entityId: month,
+        before: { status: run.status },
+        after: { status: "approved", totalNet: run.totalNet },
+        actorId: approvedBy,
+      })
+      await batch.commit()
+      console.log("✅ [PayrollService] Approved payroll for", month)
+    } catch (error) {
+      console.error("❌ [PayrollService] Error approving payroll:", error)
+      throw new Error(`Failed to approve payroll: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  private static async getDraftPayslip(id: string): Promise<WithId<Payslip>> {
+    const payslipDoc = await getDoc(doc(FIRESTORE_DB, PAYSLIPS_COLLECTION, id))
+    if (!payslipDoc.exists()) throw new Error("Payslip not found")
+    const payslip = payslipFromDoc(payslipDoc.id, payslipDoc.data())
+
+    const run = await this.getPayrollRun(payslip.month)
+    if (run?.status === "approved") throw new Error(`Payroll for ${payslip.month} is approved and locked`)
+    return payslip
+  }
+
+  // Rewrites the payslip's totals and the run's totals together
+  private static async updateDeductions(
+    payslip: WithId<Payslip>,
+    deductions: PayrollDeduction[],
+    actorId: string,
+    summary: string
+  ): Promise<void> {
+    const totals = payslipTotalsOf(payslip.grossPay, payslip.deductionPercent, deductions)
+    const runPayslips = (await this.getPayslips(payslip.month))
+      .map(other => other.id === payslip.id ? { ...other, ...totals, deductions } : other)
+
+    const batch = writeBatch(FIRESTORE_DB)
+    batch.update(doc(FIRESTORE_DB, PAYSLIPS_COLLECTION, payslip.id), { deductions, ...totals })
+    batch.update(doc(FIRESTORE_DB, RUNS_COLLECTION, payslip.month), payrollTotalsOf(runPayslips))
+    AuditService.addToBatch(batch, {
+      action: "update",
+      entityType: "payslip",
+      entityId: payslip.id,
+      before: { totalDeductions: payslip.totalDeductions, netPay: payslip.netPay },
+      after: { totalDeductions: totals.totalDeductions, netPay: totals.netPay },
+      summary: `${payslip.workerName}: ${summary}`,
+      actorId,
+    })
+    await batch.commit()
+  }
+}
@@ -0,0 +1,134 @@
+import type * as ImageManipulatorModule from "expo-image-manipulator"
+import { uploadFile, deleteFile } from "./storage"
+import { Coordinates, PhotoEvidence, isRemotePhotoUrl } from "./domain"
+
+// Evidence photos are downscaled so uploads stay small on mobile data
+const MAX_DIMENSION = 1280
+const JPEG_QUALITY = 0.6
+
+const MAX_UPLOAD_ATTEMPTS = 3
+const RETRY_BASE_DELAY_MS = 1000
+
+// Errors that retrying will not fix
+const PERMANENT_ERRORS = /unauthorized|unauthenticated|quota-exceeded|invalid-argument|canceled/i
+
+export interface PhotoCapture {
+  uri: string
+  capturedAt?: Date
+  location?: Coordinates | null
+}
+
+export interface PhotoUploadOptions {
+  uploadedBy: string
+  capturedAt?: Date
+  location?: Coordinates | null
+  onProgress?: (fraction: number) => void
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+export class PhotoStorageService {
+  // Storage path for a new photo in a folder such as "attendance/<driverId>"
+  static pathFor(folder: string, capturedAt: Date = new Date()): string {
+    return `${folder}/${capturedAt.getTime()}-${Math.random().toString(36).slice(2, 8)}.jpg`
+  }
+
+  // Downscale and re-encode a captured photo. Falls back to the original file
+  // rather than losing the evidence if the device cannot process it.
+  static async compressPhoto(localUri: string): Promise<{ uri: string, width?: number, height?: number }> {
+    try {
+      // Native module; trip and attendance services import this file in tests that never compress
+      const { ImageManipulator, SaveFormat }: typeof ImageManipulatorModule = require("expo-image-manipulator")
+      const image = await ImageManipulator.manipulate(localUri).renderAsync()
+      const scale = Math.min(1, MAX_DIMENSION / Math.max(image.width, image.height))
+      const resized = scale < 1
+        ? await ImageManipulator.manipulate(localUri).resize({ width: Math.round(image.width * scale) }).renderAsync()
+        : image
+
+      const result = await resized.saveAsync({ compress: JPEG_QUALITY, format: SaveFormat.JPEG })
+      return { uri: result.uri, width: result.width, height: result.height }
+    } catch (error) {
+      console.warn("⚠️ [PhotoStorageService] Could not compress photo, uploading original:", error)
+      return { uri: localUri }
+    }
+  }
+
+  // Compress and upload a photo, retrying transient failures with backoff
+  static async uploadPhoto(localUri: string, storagePath: string, options: PhotoUploadOptions): Promise<PhotoEvidence> {
+    const capturedAt = options.capturedAt || new Date()
+    const compressed = await this.compressPhoto(localUri)
+
+    const customMetadata: { [key: string]: string } = {
+      uploadedBy: options.uploadedBy,
+      capturedAt: capturedAt.toISOString(),
+    }
+    if (options.location) {
+      customMetadata.latitude = String(options.location.latitude)
+      customMetadata.longitude = String(options.location.longitude)
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        console.log(`📤 [PhotoStorageService] Uploading ${storagePath} (attempt ${attempt})`)
+        const url = await uploadFile(storagePath, compressed.uri, {
+          contentType: "image/jpeg",
+          customMetadata,
+          onProgress: options.onProgress,
+        })
+
+        console.log("✅ [PhotoStorageService] Uploaded", storagePath)
+        return {
+          url,
+          storagePath,
+          capturedAt,
+          location: options.location || undefined,
+          uploadedBy: options.uploadedBy,
+          width: compressed.width,
+          height: compressed.height,
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error"
+        if (attempt >= MAX_UPLOAD_ATTEMPTS || PERMANENT_ERRORS.test(message)) {
+          console.error("❌ [PhotoStorageService] Error uploading photo:", error)
+          throw new Error(`Failed to upload photo: ${message}`)
+        }
+        console.warn(`⚠️ [PhotoStorageService] Upload attempt ${attempt} failed, retrying:`, message)
+        await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1))
+      }
+    }
+  }
+
+  // Upload photos one after another, reporting overall progress. Photos that
+  // already have a durable URL (e.g. on a replayed write) are kept as they are.
+  static async uploadPhotos(photos: (string | PhotoCapture)[], folder: string, options: PhotoUploadOptions): Promise<PhotoEvidence[]> {
+    const uploaded: PhotoEvidence[] = []
+
+    for (const [index, photo] of photos.entries()) {
+      const capture: PhotoCapture = typeof photo === "string" ? { uri: photo } : photo
+      if (isRemotePhotoUrl(capture.uri)) {
+        uploaded.push({ url: capture.uri, capturedAt: capture.capturedAt, location: capture.location || undefined })
+        continue
+      }
+
+      const capturedAt = capture.capturedAt || options.capturedAt || new Date()
+      uploaded.push(await this.uploadPhoto(capture.uri, this.pathFor(folder, capturedAt), {
+        ...options,
+        capturedAt,
+        location: capture.location || options.location,
+        onProgress: fraction => options.onProgress?.((index + fraction) / photos.length),
+      }))
+    }
+
+    return uploaded
+  }
+
+  static async deletePhoto(storagePath: string): Promise<void> {
+    try {
+      await deleteFile(storagePath)
+      console.log("🗑️ [PhotoStorageService] Deleted", storagePath)
+    } catch (error) {
+      console.error("❌ [PhotoStorageService] Error deleting photo:", error)
+      throw new Error(`Failed to delete photo: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import type * as FileSystemModule from "expo-file-system"
+import type * as ImageManipulatorModule from "expo-image-manipulator"
+import * as JPEG from "jpeg-js"
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  addDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  writeBatch,
+  Timestamp,
+  serverTimestamp,
+  FIRESTORE_DB
+} from "./firestore"
+import {
+  DEFAULT_PROXY_DETECTION_RULES,
+  PHOTO_HASH_SIZE,
+  ProxyDetectionReport,
+  ProxyDetectionRules,
+  WithId,
+  attendanceFromDoc,
+  differenceHashOf,
+  displayNameOf,
+  findDuplicatePhotos,
+  findMarkBursts,
+  fraudReportOf,
+  grayscaleOf,
+  isRemotePhotoUrl,
+  proxyDetectionReportFromDoc,
+  proxyDetectionReportToData,
+  proxyMarkOf
+} from "./domain"
+
+export type {
+  DuplicatePhotoGroup,
+  FraudReportRow,
+  MarkBurst,
+  ProxyDetectionReport,
+  ProxyDetectionRules,
+  ProxyMark
+} from "./domain"
+
+const ATTENDANCE_COLLECTION = "workerAttendance"
+const REPORTS_COLLECTION = "proxyDetectionReports"
+
+// Hashes saved per batch, well under Firestore's 500 operation cap
+const HASH_BATCH_SIZE = 200
+
+// A report is one document, so very long lists are cut to stay under Firestore's size limit
+const MAX_REPORTED_FINDINGS = 100
+
+export class ProxyDetectionService {
+  // Perceptual hash of a stored photo. The photo is downloaded, shrunk to a 9x8 thumbnail
+  // and hashed from its pixels; the downloaded copy is removed afterwards.
+  static async hashPhoto(url: string): Promise<string> {
+    // Native modules, only needed to hash a photo; the detection rules themselves run without them
+    const { File, Paths }: typeof FileSystemModule = require("expo-file-system")
+    const { ImageManipulator, SaveFormat }: typeof ImageManipulatorModule = require("expo-image-manipulator")
+
+    const download = new File(Paths.cache, `proxy-check-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.jpg`)
+    try {
+      await File.downloadFileAsync(url, download)
+      const thumbnail = await ImageManipulator.manipulate(download.uri).resize(PHOTO_HASH_SIZE).renderAsync()
+      const { base64 } = await thumbnail.saveAsync({ base64: true, compress: 1, format: SaveFormat.JPEG })
+      if (!base64) throw new Error("Photo could not be read")
+
+      const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+      const { data } = JPEG.decode(bytes, { useTArray: true, formatAsRGBA: true })
+      return differenceHashOf(grayscaleOf(data))
+    } finally {
+      if (download.exists) download.delete()
+    }
+  }
+
+  // Hash the photos of every present mark in the period that has not been hashed yet, look
+  // for reused photos and mark bursts, and save the findings as a report
+  static async runDetection(
+    startDate: Date,
+    endDate: Date,
+    runBy: string,
+    rules: ProxyDetectionRules = DEFAULT_PROXY_DETECTION_RULES
+  ): Promise<WithId<ProxyDetectionReport>> {
+    try {
+      console.log("🔎 [ProxyDetectionService] Checking attendance from", startDate.toDateString(), "to", endDate.toDateString())
+
+      const snapshot = await getDocs(query(
+        collection(FIRESTORE_DB, ATTENDANCE_COLLECTION),
+        where("timestamp", ">=", Timestamp.fromDate(startDate)),
+        where("timestamp", "<=", Timestamp.fromDate(endDate))
+      ))
+      const records = snapshot.docs
+        .map(recordDoc => attendanceFromDoc(recordDoc.id, recordDoc.data()))
+        .filter(record => record.status === "present")
+
+      // One photo at a time keeps memory low on the phone running the check
+      const hashes: { [recordId: string]: string } = {}
+      let photosUnreadable = 0
+      for (const record of records) {
+        const url = record.photo?.url ?? record.photoUri
+        if (record.photoHash || !url || !isRemotePhotoUrl(url)) continue
+        try {
+          hashes[record.id] = await this.hashPhoto(url)
+        } catch (error) {
+          photosUnreadable++
+          console.warn("⚠️ [ProxyDetectionService] Could not hash photo of record", record.id, error)
+        }
+      }
+      await this.saveHashes(hashes)
+
+      const marks = records.map(record => proxyMarkOf({ ...record, photoHash: hashes[record.id] ?? record.photoHash }))
+      const duplicateGroups = findDuplicatePhotos(marks, rules.maxHashDistance)
+      const bursts = findMarkBursts(marks, rules)
+      const contractorNames = await this.contractorNamesOf(marks.map(mark => mark.contractorId))
+
+      const report: ProxyDetectionReport = {
+        startDate,
+        endDate,
+        recordsScanned: records.length,
+        photosHashed: Object.keys(hashes).length,
+        photosUnreadable,
+        duplicateGroups: duplicateGroups.slice(0, MAX_REPORTED_FINDINGS),
+        bursts: bursts.slice(0, MAX_REPORTED_FINDINGS),
+        ...fraudReportOf(marks, duplicateGroups, bursts, contractorNames),
+        runBy,
+        createdAt: new Date(),
+      }
+      const reportRef = await addDoc(collection(FIRESTORE_DB, REPORTS_COLLECTION), {
+        ...proxyDetectionReportToData(report),
+        createdAt: serverTimestamp(),
+      })
+
+      console.log("✅ [ProxyDetectionService] Found", duplicateGroups.length, "reused photos and", bursts.length, "mark bursts")
+      return { ...report, id: reportRef.id }
+    } catch (error) {
+      console.error("❌ [ProxyDetectionService] Error running proxy detection:", error)
+      throw new Error(`Failed to run proxy detection: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  static async getLatestReport(): Promise<WithId<ProxyDetectionReport> | null> {
+    try {
+      const snapshot = await getDocs(query(collection(FIRESTORE_DB, REPORTS_COLLECTION), orderBy("createdAt", "desc"), limit(1)))
+      const latest = snapshot.docs[0]
+      return latest ? proxyDetectionReportFromDoc(latest.id, latest.data()) : null
+    } catch (error) {
+      console.error("❌ [ProxyDetectionService] Error fetching proxy detection report:", error)
+      throw new Error(`Failed to fetch proxy detection report: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Hashes are kept on the records so that later runs skip photos already seen
+  private static async saveHashes(hashes: { [recordId: string]: string }): Promise<void> {
+    const entries = Object.entries(hashes)
+    for (let start = 0; start < entries.length; start += HASH_BATCH_SIZE) {
+      const batch = writeBatch(FIRESTORE_DB)
+      entries.slice(start, start + HASH_BATCH_SIZE).forEach(([recordId, hash]) =>
+        batch.update(doc(FIRESTORE_DB, ATTENDANCE_COLLECTION, recordId), { photoHash: hash })
+      )
+      await batch.commit()
+    }
+  }
+
+  private static async contractorNamesOf(contractorIds: (string | undefined)[]): Promise<{ [contractorId: string]: string }> {
+    const ids = Array.from(new Set(contractorIds.filter((id): id is string => !!id)))
+    const userDocs = await Promise.all(ids.map(id => getDoc(doc(FIRESTORE_DB, "users", id))))
+    const names: { [contractorId: string]: string } = {}
+    userDocs.forEach(userDoc => {
+      if (userDoc.exists()) names[userDoc.id] = displayNameOf(userDoc.data(), userDoc.id)
+    })
+    return names
+  }
+}
@@ -0,0 +1,271 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  writeBatch,
+  serverTimestamp,
+  FIRESTORE_DB
+} from "./firestore"
+import {
+  DocumentFields,
+  RosterDayPlan,
+  RosterTemplate,
+  WithId,
+  addDaysToAssignmentDate,
+  assignmentDateOf,
+  dailyAssignmentFromDoc,
+  planRosterDays,
+  rosterAssignmentIdOf,
+  rosterTemplateFromDoc,
+  rosterTemplateProblem,
+  rosterTemplatesOverlap
+} from "./domain"
+import { AuditService } from "./AuditService"
+
+export type { RosterDayAction, RosterDayPlan, RosterTemplate } from "./domain"
+
+const TEMPLATES_COLLECTION = "rosterTemplates"
+const ASSIGNMENTS_COLLECTION = "dailyAssignments"
+const AUDITED_FIELDS = ["driverId", "vehicleId", "feederPointIds", "daysOfWeek", "effectiveFrom", "effectiveTo", "isActive"]
+
+// Recorded as assignedBy on days a driver's device generates; templateId names the template
+const ROSTER_ASSIGNER = "roster"
+
+// How many days ahead assignments are generated, today included
+export const ROSTER_HORIZON_DAYS = 7
+
+export type RosterTemplateInput = Omit<RosterTemplate, "id" | "contractorId" | "updatedBy" | "createdAt" | "updatedAt">
+
+export class RosterTemplateService {
+  static async getTemplates(contractorId: string): Promise<WithId<RosterTemplate>[]> {
+    try {
+      const snapshot = await getDocs(query(collection(FIRESTORE_DB, TEMPLATES_COLLECTION), where("contractorId", "==", contractorId)))
+      return snapshot.docs
+        .map(templateDoc => rosterTemplateFromDoc(templateDoc.id, templateDoc.data()))
+        .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+    } catch (error) {
+      console.error("❌ [RosterTemplateService] Error fetching roster templates:", error)
+      throw new Error(`Failed to fetch roster templates: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Create a template, or update it when an id is given. A driver can have only one template
+  // on any day, so one that overlaps another of the driver's active templates is refused.
+  static async saveTemplate(
+    contractorId: string,
+    template: RosterTemplateInput,
+    updatedBy: string,
+    templateId?: string
+  ): Promise<string> {
+    try {
+      const problem = rosterTemplateProblem(template)
+      if (problem) throw new Error(problem)
+
+      const templateRef = templateId
+        ? doc(FIRESTORE_DB, TEMPLATES_COLLECTION, templateId)
+        : doc(collection(FIRESTORE_DB, TEMPLATES_COLLECTION))
+      const before = templateId ? await AuditService.snapshot(TEMPLATES_COLLECTION, templateId) : null
+      if (templateId && !before) throw new Error("Roster template not found")
+
+      const fields = {
+        contractorId,
+        driverId: template.driverId,
+        vehicleId: template.vehicleId || null,
+        feederPointIds: template.feederPointIds,
+        daysOfWeek: [...template.daysOfWeek].sort(),
+        effectiveFrom: template.effectiveFrom,
+        effectiveTo: template.effectiveTo || null,
+        isActive: template.isActive,
+      }
+
+      const others = await this.getTemplates(contractorId)
+      const candidate = rosterTemplateFromDoc(templateRef.id, fields)
+      if (others.some(other => other.id !== templateRef.id && rosterTemplatesOverlap(other, candidate))) {
+        throw new Error("This driver already has a template on some of these days")
+      }
+
+      const batch = writeBatch(FIRESTORE_DB)
+      batch.set(templateRef, {
+        ...fields,
+        updatedBy,
+        updatedAt: serverTimestamp(),
+        ...(before ? {} : { createdAt: serverTimestamp() }),
+      }, { merge: true })
+      AuditService.addToBatch(batch, {
+        action: before ? "update" : "create",
+        entityType: "rosterTemplate",
+        entityId: templateRef.id,
+        before: before && this.auditFields(before),
+        after: this.auditFields(fields),
+        actorId: updatedBy,
+      })
+      await batch.commit()
+
+      console.log("✅ [RosterTemplateService] Saved roster template:", templateRef.id)
+      return templateRef.id
+    } catch (error) {
+      console.error("❌ [RosterTemplateService] Error saving roster template:", error)
+      throw new Error(`Failed to save roster template: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Assignments already generated from the template stay until assignments are next generated,
+  // which removes those for days not yet under way
+  static async deleteTemplate(templateId: string, actorId: string): Promise<void> {
+    try {
+      const before = await AuditService.snapshot(TEMPLATES_COLLECTION, templateId)
+
+      const batch = writeBatch(FIRESTORE_DB)
+      batch.delete(doc(FIRESTORE_DB, TEMPLATES_COLLECTION, templateId))
+      AuditService.addToBatch(batch, {
+        action: "delete",
+        entityType: "rosterTemplate",
+        entityId: templateId,
+        before: before && this.auditFields(before),
+        actorId,
+      })
+      await batch.commit()
+      console.log("✅ [RosterTemplateService] Deleted roster template:", templateId)
+    } catch (error) {
+      console.error("❌ [RosterTemplateService] Error deleting roster template:", error)
+      throw new Error(`Failed to delete roster template: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // What generating the coming days would do, without writing anything
+  static async previewDays(
+    contractorId: string,
+    startDate: string = assignmentDateOf(new Date()),
+    days: number = ROSTER_HORIZON_DAYS
+  ): Promise<RosterDayPlan[]> {
+    try {
+      const dates = Array.from({ length: days }, (_, offset) => addDaysToAssignmentDate(startDate, offset))
+      const [templates, assignments] = await Promise.all([
+        this.getTemplates(contractorId),
+        this.getAssignmentsBetween(contractorId, dates[0], dates[dates.length - 1]),
+      ])
+      return planRosterDays(templates, assignments, dates, assignmentDateOf(new Date()))
+    } catch (error) {
+      console.error("❌ [RosterTemplateService] Error previewing roster:", error)
+      throw new Error(`Failed to preview roster: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Bring the coming days' dailyAssignments in line with the templates. Assignments made or
+  // edited by hand for a day are left alone; see planRosterDays.
+  static async generateAssignments(
+    contractorId: string,
+    updatedBy: string,
+    startDate: string = assignmentDateOf(new Date()),
+    days: number = ROSTER_HORIZON_DAYS
+  ): Promise<RosterDayPlan[]> {
+    try {
+      const plans = await this.previewDays(contractorId, startDate, days)
+      const changes = plans.filter(plan => plan.action === "create" || plan.action === "update" || plan.action === "remove")
+      if (changes.length === 0) return plans
+
+      const batch = writeBatch(FIRESTORE_DB)
+      changes.forEach(plan => {
+        if (plan.action === "remove") {
+          batch.delete(doc(FIRESTORE_DB, ASSIGNMENTS_COLLECTION, plan.assignmentId!))
+          return
+        }
+
+        if (plan.action === "update") {
+          batch.update(doc(FIRESTORE_DB, ASSIGNMENTS_COLLECTION, plan.assignmentId!), this.planFields(plan))
+        } else {
+          batch.set(
+            doc(FIRESTORE_DB, ASSIGNMENTS_COLLECTION, rosterAssignmentIdOf(plan.driverId, plan.date)),
+            this.newAssignmentData(plan, contractorId, updatedBy)
+          )
+        }
+      })
+      await batch.commit()
+
+      console.log(`✅ [RosterTemplateService] Applied ${changes.length} roster changes from ${startDate}`)
+      return plans
+    } catch (error) {
+      console.error("❌ [RosterTemplateService] Error generating assignments:", error)
+      throw new Error(`Failed to generate assignments: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Create the driver's assignment for the day from their template when there is none yet, so
+  // that the roster reaches drivers whose contractor has not opened the app to generate it.
+  // Returns whether one was created.
+  static async generateDriverDay(driverId: string, date: string = assignmentDateOf(new Date())): Promise<boolean> {
+    try {
+      const [templatesSnapshot, assignmentsSnapshot] = await Promise.all([
+        getDocs(query(collection(FIRESTORE_DB, TEMPLATES_COLLECTION), where("driverId", "==", driverId))),
+        getDocs(query(
+          collection(FIRESTORE_DB, ASSIGNMENTS_COLLECTION),
+          where("driverId", "==", driverId),
+          where("assignmentDate", "==", date)
+        )),
+      ])
+      const templates = templatesSnapshot.docs.map(templateDoc => rosterTemplateFromDoc(templateDoc.id, templateDoc.data()))
+      const assignments = assignmentsSnapshot.docs.map(assignmentDoc => dailyAssignmentFromDoc(assignmentDoc.id, assignmentDoc.data()))
+      const plan = planRosterDays(templates, assignments, [date], assignmentDateOf(new Date()))
+        .find(dayPlan => dayPlan.action === "create")
+      const template = plan && templates.find(candidate => candidate.id === plan.templateId)
+      if (!plan || !template) return false
+
+      const assignmentRef = doc(FIRESTORE_DB, ASSIGNMENTS_COLLECTION, rosterAssignmentIdOf(driverId, date))
+      const created = await runTransaction(FIRESTORE_DB, async (transaction) => {
+        if ((await transaction.get(assignmentRef)).exists()) return false
+        transaction.set(assignmentRef, this.newAssignmentData(plan, template.contractorId, ROSTER_ASSIGNER))
+        return true
+      })
+      if (created) console.log(`✅ [RosterTemplateService] Generated ${date} for driver ${driverId} from template ${template.id}`)
+      return created
+    } catch (error) {
+      console.error("❌ [RosterTemplateService] Error generating the driver's day:", error)
+      throw new Error(`Failed to generate assignment: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  private static planFields(plan: RosterDayPlan): DocumentFields {
+    return {
+      feederPointIds: plan.feederPointIds,
+      vehicleId: plan.vehicleId || null,
+      templateId: plan.templateId,
+      ...(plan.keepsRoute ? {} : { route: null }),
+      updatedAt: serverTimestamp(),
+    }
+  }
+
+  private static newAssignmentData(plan: RosterDayPlan, contractorId: string, assignedBy: string): DocumentFields {
+    return {
+      ...this.planFields(plan),
+      driverId: plan.driverId,
+      contractorId,
+      assignmentDate: plan.date,
+      status: "active",
+      notes: "",
+      assignedBy,
+      isOverride: false,
+      createdAt: serverTimestamp(),
+    }
+  }
+
+  private static async getAssignmentsBetween(contractorId: string, from: string, to: string) {
+    const snapshot = await getDocs(query(
+      collection(FIRESTORE_DB, ASSIGNMENTS_COLLECTION),
+      where("contractorId", "==", contractorId),
+      where("assignmentDate", ">=", from),
+      where("assignmentDate", "<=", to)
+    ))
+    return snapshot.docs.map(assignmentDoc => dailyAssignmentFromDoc(assignmentDoc.id, assignmentDoc.data()))
+  }
+
+  private static auditFields(data: DocumentFields): DocumentFields {
+    const fields: DocumentFields = {}
+    AUDITED_FIELDS.forEach(field => {
+      fields[field] = Array.isArray(data[field]) ? data[field].join(",") : data[field] ?? null
+    })
+    return fields
+  }
+}
@@ -0,0 +1,157 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  orderBy,
+  limit,
+  onSnapshot,
+  writeBatch,
+  serverTimestamp,
+  FIRESTORE_DB
+} from "./firestore"
+import {
+  DATE_SETTING_KEYS,
+  DEFAULT_SYSTEM_SETTINGS,
+  SYSTEM_SETTING_KEYS,
+  SettingValue,
+  SettingsChange,
+  SystemSettings,
+  SystemSettingsUpdate,
+  isSameSettingValue,
+  settingsChangeFromDoc,
+  systemSettingsFromData
+} from "./domain"
+
+export type { SettingValue, SettingsChange, SystemSettings, SystemSettingsUpdate } from "./domain"
+
+const SETTINGS_DOC = ["systemSettings", "current"] as const
+const HISTORY_COLLECTION = "systemSettingsHistory"
+
+const settingsRef = () => doc(FIRESTORE_DB, ...SETTINGS_DOC)
+
+export class SettingsService {
+  // Current settings; defaults when the document has never been saved or cannot be read
+  static async getSettings(): Promise<SystemSettings> {
+    try {
+      const snapshot = await getDoc(settingsRef())
+      return systemSettingsFromData(snapshot.exists() ? snapshot.data() : undefined)
+    } catch (error) {
+      console.error("❌ [SettingsService] Error loading settings, using defaults:", error)
+      return systemSettingsFromData(undefined)
+    }
+  }
+
+  // Live settings; the callback fires with defaults until an admin saves them
+  static subscribe(callback: (settings: SystemSettings) => void): () => void {
+    return onSnapshot(
+      settingsRef(),
+      snapshot => callback(systemSettingsFromData(snapshot.exists() ? snapshot.data() : undefined)),
+      error => {
+        console.error("❌ [SettingsService] Settings subscription error:", error)
+        callback(systemSettingsFromData(undefined))
+      }
+    )
+  }
+
+  // Save changed settings and record what changed, and by whom, in the history
+  static async updateSettings(updates: SystemSettingsUpdate, changedBy: string): Promise<SystemSettings> {
+    try {
+      const current = await this.getSettings()
+      const changes: SettingsChange["changes"] = {}
+      const fields: { [key: string]: SettingValue } = {}
+
+      SYSTEM_SETTING_KEYS.forEach(key => {
+        const value = updates[key]
+        if (value === undefined || isSameSettingValue(value, current[key] as SettingValue)) return
+        if (DATE_SETTING_KEYS.includes(key)) {
+          if (value !== null && !(value instanceof Date && !isNaN(value.getTime()))) {
+            throw new Error(`Invalid date for ${key}`)
+          }
+        } else if (typeof value !== typeof DEFAULT_SYSTEM_SETTINGS[key]) {
+          throw new Error(`Invalid value for ${key}`)
+        }
+        if (typeof value === "number" && (!Number.isInteger(value) || value < 0)) {
+          throw new Error(`${key} must be a whole number of 0 or more`)
+        }
+        changes[key] = { from: current[key] as SettingValue, to: value }
+        fields[key] = value
+      })
+
+      if (Object.keys(changes).length === 0) {
+        return current
+      }
+
+      const next = { ...current, ...fields } as SystemSettings
+      if (next.maintenanceStartsAt && next.maintenanceEndsAt && next.maintenanceEndsAt <= next.maintenanceStartsAt) {
+        throw new Error("Maintenance must end after it starts")
+      }
+
+      const batch = writeBatch(FIRESTORE_DB)
+      batch.set(settingsRef(), { ...fields, updatedAt: serverTimestamp(), updatedBy: changedBy }, { merge: true })
+      batch.set(doc(collection(FIRESTORE_DB, HISTORY_COLLECTION)), {
+        changedBy,
+        changedAt: serverTimestamp(),
+        changes,
+      })
+      await batch.commit()
+
+      console.log(`✅ [SettingsService] Updated ${Object.keys(changes).join(", ")}`)
+      return { ...next, updatedBy: changedBy, updatedAt: new Date() }
+    } catch (error) {
+      console.error("❌ [SettingsService] Error updating settings:", error)
+      throw new Error(`Failed to save settings: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  static async resetToDefaults(changedBy: string): Promise<SystemSettings> {
+    const defaults: SystemSettingsUpdate = {}
+    SYSTEM_SETTING_KEYS.forEach(key => { (defaults as any)[key] = DEFAULT_SYSTEM_SETTINGS[key] })
+    return this.updateSettings(defaults, changedBy)
+  }
+
+  // Most recent changes first
+  static async getHistory(maxEntries: number = 20): Promise<SettingsChange[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(FIRESTORE_DB, HISTORY_COLLECTION),
+        orderBy("changedAt", "desc"),
+        limit(maxEntries)
+      ))
+      return snapshot.docs.map(changeDoc => settingsChangeFromDoc(changeDoc.id, changeDoc.data()))
+    } catch (error) {
+      console.error("❌ [SettingsService] Error fetching settings history:", error)
+      return []
+    }
+  }
+
+  // Throws when sign-ups are closed, otherwise returns the settings the decision was based on.
+  // Admin accounts are created with the secret key and are never blocked or queued.
+  static async assertRegistrationOpen(role: string): Promise<SystemSettings> {
+    const settings = await this.getSettings()
+    if (role !== "admin" && !settings.allowNewRegistrations) {
+      throw new Error("New registrations are currently closed. Please contact the administrator.")
+    }
+    return settings
+  }
+
+  static requiresApproval(settings: SystemSettings, role: string): boolean {
+    if (role === "driver") return settings.requireApprovalForDrivers
+    if (role === "transport_contractor") return settings.requireApprovalForContractors
+    return role !== "admin"
+  }
+
+  // Throws when a contractor already holds the configured maximum of vehicles or feeder points
+  static async assertWithinContractorLimit(
+    resource: "vehicles" | "feederPoints",
+    currentCount: number
+  ): Promise<void> {
+    const settings = await this.getSettings()
+    const maximum = resource === "vehicles" ? settings.maxVehiclesPerContractor : settings.maxFeederPointsPerContractor
+    if (maximum > 0 && currentCount >= maximum) {
+      const label = resource === "vehicles" ? "vehicles" : "feeder points"
+      throw new Error(`Contractor already has the maximum of ${maximum} ${label} allowed by system settings`)
+    }
+  }
+}
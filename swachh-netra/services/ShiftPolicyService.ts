@@ -0,0 +1,201 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  serverTimestamp,
+  FIRESTORE_DB
+} from "./firestore"
+import {
+  DocumentFields,
+  STANDARD_SHIFT_POLICY,
+  ShiftAssignment,
+  ShiftAssignmentTarget,
+  ShiftPolicy,
+  WithId,
+  shiftAssignmentFromDoc,
+  shiftAssignmentId,
+  shiftPolicyFromDoc,
+  shiftPolicyProblem
+} from "./domain"
+import { AuditService } from "./AuditService"
+
+export type { AttendanceEvaluation, ShiftAssignment, ShiftAssignmentTarget, ShiftPolicy } from "./domain"
+
+const POLICIES_COLLECTION = "shiftPolicies"
+const ASSIGNMENTS_COLLECTION = "shiftAssignments"
+const AUDITED_FIELDS = ["name", "startTime", "endTime", "graceMinutes", "halfDayLateMinutes", "halfDayMinimumHours", "isDefault"]
+
+export type ShiftPolicyInput = Omit<ShiftPolicy, "id" | "updatedBy" | "createdAt" | "updatedAt">
+
+// The policy that applies to an attendance record
+export type ShiftPolicyResolver = (record: { workerId: string, feederPointId?: string }) => ShiftPolicy
+
+export class ShiftPolicyService {
+  static async getPolicies(): Promise<WithId<ShiftPolicy>[]> {
+    try {
+      const snapshot = await getDocs(collection(FIRESTORE_DB, POLICIES_COLLECTION))
+      return snapshot.docs
+        .map(policyDoc => shiftPolicyFromDoc(policyDoc.id, policyDoc.data()))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    } catch (error) {
+      console.error("❌ [ShiftPolicyService] Error fetching shift policies:", error)
+      throw new Error(`Failed to fetch shift policies: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Create a policy, or update it when an id is given. Making a policy the default
+  // takes that role away from the previous default in the same write.
+  static async savePolicy(policy: ShiftPolicyInput, updatedBy: string, policyId?: string): Promise<string> {
+    try {
+      const problem = shiftPolicyProblem(policy)
+      if (problem) throw new Error(problem)
+
+      const policyRef = policyId
+        ? doc(FIRESTORE_DB, POLICIES_COLLECTION, policyId)
+        : doc(collection(FIRESTORE_DB, POLICIES_COLLECTION))
+      const before = policyId ? await AuditService.snapshot(POLICIES_COLLECTION, policyId) : null
+      if (policyId && !before) throw new Error("Shift policy not found")
+
+      const fields = {
+        name: policy.name.trim(),
+        startTime: policy.startTime.trim(),
+        endTime: policy.endTime.trim(),
+        graceMinutes: policy.graceMinutes,
+        halfDayLateMinutes: policy.halfDayLateMinutes,
+        halfDayMinimumHours: policy.halfDayMinimumHours,
+        weeklyOffs: [...policy.weeklyOffs].sort(),
+        isDefault: policy.isDefault,
+      }
+
+      const batch = writeBatch(FIRESTORE_DB)
+      if (policy.isDefault) {
+        const defaults = await getDocs(query(collection(FIRESTORE_DB, POLICIES_COLLECTION), where("isDefault", "==", true)))
+        defaults.docs
+          .filter(defaultDoc => defaultDoc.id !== policyRef.id)
+          .forEach(defaultDoc => batch.update(defaultDoc.ref, { isDefault: false, updatedAt: serverTimestamp() }))
+      }
+      batch.set(policyRef, {
+        ...fields,
+        updatedBy,
+        updatedAt: serverTimestamp(),
+        ...(before ? {} : { createdAt: serverTimestamp() }),
+      }, { merge: true })
+      AuditService.addToBatch(batch, {
+        action: before ? "update" : "create",
+        entityType: "shiftPolicy",
+        entityId: policyRef.id,
+        before: before && this.auditFields(before),
+        after: this.auditFields(fields),
+        actorId: updatedBy,
+      })
+      await batch.commit()
+
+      console.log("✅ [ShiftPolicyService] Saved shift policy:", fields.name)
+      return policyRef.id
+    } catch (error) {
+      console.error("❌ [ShiftPolicyService] Error saving shift policy:", error)
+      throw new Error(`Failed to save shift policy: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Remove a policy together with its assignments; those workers fall back to the next policy in line
+  static async deletePolicy(policyId: string): Promise<void> {
+    try {
+      const before = await AuditService.snapshot(POLICIES_COLLECTION, policyId)
+      const assignments = await getDocs(query(collection(FIRESTORE_DB, ASSIGNMENTS_COLLECTION), where("policyId", "==", policyId)))
+
+      const batch = writeBatch(FIRESTORE_DB)
+      assignments.docs.forEach(assignmentDoc => batch.delete(assignmentDoc.ref))
+      batch.delete(doc(FIRESTORE_DB, POLICIES_COLLECTION, policyId))
+      AuditService.addToBatch(batch, {
+        action: "delete",
+        entityType: "shiftPolicy",
+        entityId: policyId,
+        before: before && { name: before.name, assignments: assignments.size },
+        summary: `Removed with ${assignments.size} assignments`,
+      })
+      await batch.commit()
+      console.log("✅ [ShiftPolicyService] Deleted shift policy:", policyId)
+    } catch (error) {
+      console.error("❌ [ShiftPolicyService] Error deleting shift policy:", error)
+      throw new Error(`Failed to delete shift policy: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  static async getAssignments(): Promise<WithId<ShiftAssignment>[]> {
+    try {
+      const snapshot = await getDocs(collection(FIRESTORE_DB, ASSIGNMENTS_COLLECTION))
+      return snapshot.docs.map(assignmentDoc => shiftAssignmentFromDoc(assignmentDoc.id, assignmentDoc.data()))
+    } catch (error) {
+      console.error("❌ [ShiftPolicyService] Error fetching shift assignments:", error)
+      throw new Error(`Failed to fetch shift assignments: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Give a worker or feeder point its own policy; null removes the assignment
+  static async assignPolicy(
+    targetType: ShiftAssignmentTarget,
+    targetId: string,
+    policyId: string | null,
+    assignedBy: string
+  ): Promise<void> {
+    try {
+      const assignmentRef = doc(FIRESTORE_DB, ASSIGNMENTS_COLLECTION, shiftAssignmentId(targetType, targetId))
+      const existing = await getDoc(assignmentRef)
+      const previousPolicyId: string | null = existing.exists() ? existing.data().policyId : null
+      if (previousPolicyId === policyId) return
+
+      if (policyId) {
+        const policy = await getDoc(doc(FIRESTORE_DB, POLICIES_COLLECTION, policyId))
+        if (!policy.exists()) throw new Error("Shift policy not found")
+      }
+
+      const batch = writeBatch(FIRESTORE_DB)
+      if (policyId) {
+        batch.set(assignmentRef, { targetType, targetId, policyId, assignedBy, assignedAt: serverTimestamp() })
+      } else {
+        batch.delete(assignmentRef)
+      }
+      AuditService.addToBatch(batch, {
+        action: policyId ? "assign" : "unassign",
+        entityType: "shiftPolicy",
+        entityId: policyId || previousPolicyId!,
+        before: { policyId: previousPolicyId },
+        after: { policyId },
+        summary: `${targetType === "worker" ? "Worker" : "Feeder point"} ${targetId}`,
+        actorId: assignedBy,
+      })
+      await batch.commit()
+      console.log(`✅ [ShiftPolicyService] ${policyId ? "Assigned" : "Cleared"} shift policy for ${targetType} ${targetId}`)
+    } catch (error) {
+      console.error("❌ [ShiftPolicyService] Error assigning shift policy:", error)
+      throw new Error(`Failed to assign shift policy: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Loads every policy and assignment once so that a whole report can be evaluated.
+  // A worker's own policy wins over their feeder point's, which wins over the default.
+  static async getPolicyResolver(): Promise<ShiftPolicyResolver> {
+    const [policies, assignments] = await Promise.all([this.getPolicies(), this.getAssignments()])
+    const policiesById = new Map(policies.map(policy => [policy.id, policy]))
+    const policyFor = (targetType: ShiftAssignmentTarget, targetId?: string): ShiftPolicy | undefined => {
+      if (!targetId) return undefined
+      const assignment = assignments.find(candidate => candidate.id === shiftAssignmentId(targetType, targetId))
+      return assignment ? policiesById.get(assignment.policyId) : undefined
+    }
+    const fallback = policies.find(policy => policy.isDefault) ?? STANDARD_SHIFT_POLICY
+
+    return record => policyFor("worker", record.workerId) ?? policyFor("feederPoint", record.feederPointId) ?? fallback
+  }
+
+  private static auditFields(data: DocumentFields): DocumentFields {
+    const fields: DocumentFields = {}
+    AUDITED_FIELDS.forEach(field => { fields[field] = data[field] })
+    fields.weeklyOffs = Array.isArray(data.weeklyOffs) ? data.weeklyOffs.join(",") : null
+    return fields
+  }
+}
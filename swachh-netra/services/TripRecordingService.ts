@@ -3,47 +3,44 @@ import {
   doc,
   getDoc,
   getDocs,
-  setDoc,
-  addDoc,
-  updateDoc,
   query,
   where,
   orderBy,
   onSnapshot,
   Timestamp,
   serverTimestamp,
-  limit
-} from "firebase/firestore"
-import { FIRESTORE_DB } from "../FirebaseConfig"
+  limit,
+  runTransaction,
+  writeBatch,
+  FIRESTORE_DB
+} from "./firestore"
+
+import {
+  CollectionSchedule,
+  Coordinates,
+  DocumentFields,
+  TripEvent,
+  TripRecord,
+  TripStage,
+  WithId,
+  collectionScheduleFromData,
+  compareTripEvents,
+  photoEvidenceToData,
+  tripEventFromDoc,
+  tripEventToData,
+  tripFromDoc,
+  tripScheduleProblem,
+  tripStatusOf,
+  tripTransitionProblem
+} from "./domain"
+import { PhotoCapture, PhotoStorageService } from "./PhotoStorageService"
 
 // Trip Recording interfaces
-export type TripStatus = 'not_started' | 'in_progress' | 'completed' | 'cancelled'
+export type { TripEvent, TripStage, TripStatus } from "./domain"
+export type TripData = TripRecord
 
-export interface TripData {
-  id?: string
-  driverId: string
-  vehicleId: string
-  feederPointId: string
-  contractorId: string
-  tripNumber: number // 1, 2, or 3 (3 trips per day per feeder point)
-  status: TripStatus
-  startTime: Date
-  endTime?: Date
-  startLocation?: {
-    latitude: number
-    longitude: number
-  }
-  endLocation?: {
-    latitude: number
-    longitude: number
-  }
-  wasteWeight?: number // in kg
-  photos?: string[] // photo URLs
-  notes?: string
-  workerIds?: string[] // workers assigned to this trip
-  createdAt: Date
-  updatedAt: Date
-}
+const TRIPS_COLLECTION = "tripRecords"
+const EVENTS_COLLECTION = "tripEvents"
 
 export interface StartTripParams {
   driverId: string
@@ -51,22 +48,27 @@ export interface StartTripParams {
   feederPointId: string
   tripNumber: number
   contractorId: string
-  startLocation?: {
-    latitude: number
-    longitude: number
-  }
+  startLocation?: Coordinates
   workerIds?: string[]
+  tripId?: string // client-assigned id; starting the same trip twice returns the first
+  startedAt?: Date // client time, for trips started offline and replayed later
 }
 
 export interface EndTripParams {
-  endLocation?: {
-    latitude: number
-    longitude: number
-  }
+  endLocation?: Coordinates
   wasteWeight: number
-  photos?: string[]
+  photos?: (string | PhotoCapture)[] // local files, uploaded to storage when the trip ends
   notes?: string
   workerIds?: string[]
+  endedAt?: Date // client time, for trips ended offline and replayed later
+  onPhotoUploadProgress?: (fraction: number) => void
+}
+
+export interface AdvanceTripParams {
+  actorId: string
+  location?: Coordinates
+  note?: string
+  advancedAt?: Date // client time, for stage changes made offline and replayed later
 }
 
 export interface TripStatistics {
@@ -106,25 +108,7 @@ export class TripRecordingService {
 
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        trips.push({
-          id: doc.id,
-          driverId: data.driverId,
-          vehicleId: data.vehicleId,
-          feederPointId: data.feederPointId,
-          contractorId: data.contractorId,
-          tripNumber: data.tripNumber,
-          status: data.status,
-          startTime: data.startTime?.toDate() || new Date(),
-          endTime: data.endTime?.toDate(),
-          startLocation: data.startLocation,
-          endLocation: data.endLocation,
-          wasteWeight: data.wasteWeight,
-          photos: data.photos || [],
-          notes: data.notes,
-          workerIds: data.workerIds || [],
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        })
+        trips.push(tripFromDoc(doc.id, data))
       })
 
       console.log("✅ [TripRecordingService] Found", trips.length, "trips for today")
@@ -141,16 +125,34 @@ export class TripRecordingService {
     try {
       console.log("🚀 [TripRecordingService] Starting trip for feeder point:", params.feederPointId)
 
-      // Validate that this trip number is allowed (max 3 per day per feeder point)
-      const todayTrips = await this.getTodayTripsForFeederPoint(params.driverId, params.feederPointId)
-      const existingTripNumbers = todayTrips.map(trip => trip.tripNumber)
+      // A replayed start for a trip that already reached the server is a no-op
+      const tripRef = params.tripId
+        ? doc(FIRESTORE_DB, "tripRecords", params.tripId)
+        : doc(collection(FIRESTORE_DB, "tripRecords"))
+      if (params.tripId) {
+        const existingTrip = await getDoc(tripRef)
+        if (existingTrip.exists()) {
+          console.log("ℹ️ [TripRecordingService] Trip already started:", params.tripId)
+          return tripFromDoc(existingTrip.id, existingTrip.data())
+        }
+      }
+
+      // Validate that this trip number is allowed by the feeder point's collection schedule
+      const startedAt = params.startedAt || new Date()
+      const [todayTrips, schedule] = await Promise.all([
+        this.getTodayTripsForFeederPoint(params.driverId, params.feederPointId),
+        this.getCollectionSchedule(params.feederPointId),
+      ])
+      // A cancelled or aborted trip leaves its number free for the trip that replaces it
+      const existingTripNumbers = todayTrips.filter(trip => trip.status !== "cancelled").map(trip => trip.tripNumber)
 
       if (existingTripNumbers.includes(params.tripNumber)) {
         throw new Error(`Trip ${params.tripNumber} already completed for this feeder point today`)
       }
 
-      if (params.tripNumber > 3) {
-        throw new Error("Maximum 3 trips per day per feeder point allowed")
+      const scheduleProblem = tripScheduleProblem(schedule, params.tripNumber, startedAt)
+      if (scheduleProblem) {
+        throw new Error(scheduleProblem)
       }
 
       // Check if driver has any active trips
@@ -165,21 +167,34 @@ export class TripRecordingService {
         feederPointId: params.feederPointId,
         contractorId: params.contractorId,
         tripNumber: params.tripNumber,
-        status: 'in_progress',
-        startTime: new Date(),
+        stage: "en_route",
+        status: tripStatusOf("en_route"),
+        startTime: startedAt,
         startLocation: params.startLocation,
+        photos: [],
         workerIds: params.workerIds || [],
-        createdAt: new Date(),
+        createdAt: startedAt,
         updatedAt: new Date()
       }
 
-      // Save to Firebase
-      const tripRef = await addDoc(collection(FIRESTORE_DB, "tripRecords"), {
+      // Save to Firebase, together with the event that opens the trip's history
+      const batch = writeBatch(FIRESTORE_DB)
+      batch.set(tripRef, {
         ...tripData,
-        startTime: serverTimestamp(),
-        createdAt: serverTimestamp(),
+        startLocation: params.startLocation || null,
+        startTime: params.startedAt ? Timestamp.fromDate(params.startedAt) : serverTimestamp(),
+        createdAt: params.startedAt ? Timestamp.fromDate(params.startedAt) : serverTimestamp(),
         updatedAt: serverTimestamp()
       })
+      batch.set(doc(collection(FIRESTORE_DB, EVENTS_COLLECTION)), tripEventToData({
+        tripId: tripRef.id,
+        from: null,
+        to: "en_route",
+        actorId: params.driverId,
+        at: startedAt,
+        location: params.startLocation,
+      }))
+      await batch.commit()
 
       const savedTrip: TripData = {
         id: tripRef.id,
@@ -195,7 +210,65 @@ export class TripRecordingService {
     }
   }
 
-  // End a trip
+  // Move a trip on to its next stage. The trip is re-read inside a transaction so that two
+  // devices cannot both move it; asking for the stage it is already at does nothing, which
+  // makes replays of queued stage changes safe.
+  static async advanceTrip(tripId: string, to: TripStage, params: AdvanceTripParams): Promise<TripData> {
+    try {
+      console.log("➡️ [TripRecordingService] Moving trip", tripId, "to", to)
+
+      const trip = await runTransaction(FIRESTORE_DB, async (transaction) => {
+        const tripRef = doc(FIRESTORE_DB, TRIPS_COLLECTION, tripId)
+        const tripDoc = await transaction.get(tripRef)
+        if (!tripDoc.exists()) {
+          throw new Error("Trip not found")
+        }
+
+        const current = tripFromDoc(tripDoc.id, tripDoc.data())
+        if (current.stage === to) return current
+
+        const problem = tripTransitionProblem(current.stage, to)
+        if (problem) throw new Error(problem)
+
+        const changes = { stage: to, status: tripStatusOf(to), updatedAt: new Date() }
+        transaction.update(tripRef, { ...changes, updatedAt: serverTimestamp() })
+        transaction.set(doc(collection(FIRESTORE_DB, EVENTS_COLLECTION)), tripEventToData({
+          tripId,
+          from: current.stage,
+          to,
+          actorId: params.actorId,
+          at: params.advancedAt || new Date(),
+          location: params.location,
+          note: params.note,
+        }))
+        return { ...current, ...changes }
+      })
+
+      console.log("✅ [TripRecordingService] Trip", tripId, "is now", trip.stage)
+      return trip
+
+    } catch (error) {
+      console.error("❌ [TripRecordingService] Error moving trip:", error)
+      throw new Error(`Failed to update trip: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // The trip's history, oldest first
+  static async getTripEvents(tripId: string): Promise<WithId<TripEvent>[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(FIRESTORE_DB, EVENTS_COLLECTION),
+        where("tripId", "==", tripId)
+      ))
+      return snapshot.docs.map(eventDoc => tripEventFromDoc(eventDoc.id, eventDoc.data())).sort(compareTripEvents)
+    } catch (error) {
+      console.error("❌ [TripRecordingService] Error fetching trip events:", error)
+      throw new Error(`Failed to fetch trip history: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // End a trip once it has left the feeder point: the load is unloaded with its weight and
+  // photos, and the trip is closed
   static async endTrip(tripId: string, params: EndTripParams): Promise<void> {
     try {
       console.log("🏁 [TripRecordingService] Ending trip:", tripId)
@@ -211,27 +284,66 @@ export class TripRecordingService {
         throw new Error("Trip not found")
       }
 
+      // Checked here so that no photos are uploaded for a trip that cannot end, and again
+      // when the trip is closed
       const tripData = tripDoc.data()
-      if (tripData.status !== 'in_progress') {
-        throw new Error("Trip is not in progress")
+      if (this.endingStageOf(tripData, params.endedAt) === null) {
+        console.log("ℹ️ [TripRecordingService] Trip already ended:", tripId)
+        return
       }
 
       // Calculate trip duration
       const startTime = tripData.startTime?.toDate() || new Date()
-      const endTime = new Date()
+      const endTime = params.endedAt || new Date()
       const durationMinutes = Math.floor((endTime.getTime() - startTime.getTime()) / (1000 * 60))
 
-      await updateDoc(tripRef, {
-        status: 'completed',
-        endTime: serverTimestamp(),
-        endLocation: params.endLocation,
-        wasteWeight: params.wasteWeight,
-        photos: params.photos || [],
-        notes: params.notes || "",
-        workerIds: params.workerIds || tripData.workerIds || [],
-        updatedAt: serverTimestamp()
+      const photoEvidence = await PhotoStorageService.uploadPhotos(params.photos || [], `trips/${tripId}`, {
+        uploadedBy: tripData.driverId,
+        capturedAt: endTime,
+        location: params.endLocation,
+        onProgress: params.onPhotoUploadProgress,
+      })
+
+      const ended = await runTransaction(FIRESTORE_DB, async (transaction) => {
+        const currentDoc = await transaction.get(tripRef)
+        if (!currentDoc.exists()) {
+          throw new Error("Trip not found")
+        }
+
+        const current = currentDoc.data()
+        const stage = this.endingStageOf(current, params.endedAt)
+        if (stage === null) return false
+
+        transaction.update(tripRef, {
+          stage: "closed",
+          status: tripStatusOf("closed"),
+          endTime: params.endedAt ? Timestamp.fromDate(params.endedAt) : serverTimestamp(),
+          endLocation: params.endLocation || null,
+          wasteWeight: params.wasteWeight,
+          photos: photoEvidence.map(photo => photo.url),
+          photoEvidence: photoEvidence.map(photoEvidenceToData),
+          notes: params.notes || "",
+          workerIds: params.workerIds || current.workerIds || [],
+          updatedAt: serverTimestamp()
+        })
+        const stages: [TripStage, TripStage][] = [[stage, "unloaded"], ["unloaded", "closed"]]
+        stages.forEach(([from, to]) => transaction.set(doc(collection(FIRESTORE_DB, EVENTS_COLLECTION)), tripEventToData({
+          tripId,
+          from,
+          to,
+          actorId: current.driverId,
+          at: endTime,
+          location: params.endLocation,
+          note: to === "unloaded" ? `${params.wasteWeight}kg` : undefined,
+        })))
+        return true
       })
 
+      if (!ended) {
+        console.log("ℹ️ [TripRecordingService] Trip already ended:", tripId)
+        return
+      }
+
       console.log("✅ [TripRecordingService] Trip completed successfully. Duration:", durationMinutes, "minutes")
 
     } catch (error) {
@@ -260,25 +372,7 @@ export class TripRecordingService {
       const doc = querySnapshot.docs[0]
       const data = doc.data()
 
-      return {
-        id: doc.id,
-        driverId: data.driverId,
-        vehicleId: data.vehicleId,
-        feederPointId: data.feederPointId,
-        contractorId: data.contractorId,
-        tripNumber: data.tripNumber,
-        status: data.status,
-        startTime: data.startTime?.toDate() || new Date(),
-        endTime: data.endTime?.toDate(),
-        startLocation: data.startLocation,
-        endLocation: data.endLocation,
-        wasteWeight: data.wasteWeight,
-        photos: data.photos || [],
-        notes: data.notes,
-        workerIds: data.workerIds || [],
-        createdAt: data.createdAt?.toDate() || new Date(),
-        updatedAt: data.updatedAt?.toDate() || new Date()
-      }
+      return tripFromDoc(doc.id, data)
 
     } catch (error) {
       console.error("❌ [TripRecordingService] Error getting active trip:", error)
@@ -312,25 +406,7 @@ export class TripRecordingService {
 
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        trips.push({
-          id: doc.id,
-          driverId: data.driverId,
-          vehicleId: data.vehicleId,
-          feederPointId: data.feederPointId,
-          contractorId: data.contractorId,
-          tripNumber: data.tripNumber,
-          status: data.status,
-          startTime: data.startTime?.toDate() || new Date(),
-          endTime: data.endTime?.toDate(),
-          startLocation: data.startLocation,
-          endLocation: data.endLocation,
-          wasteWeight: data.wasteWeight,
-          photos: data.photos || [],
-          notes: data.notes,
-          workerIds: data.workerIds || [],
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        })
+        trips.push(tripFromDoc(doc.id, data))
       })
 
       return trips
@@ -341,35 +417,11 @@ export class TripRecordingService {
     }
   }
 
-  // Cancel an active trip
-  static async cancelTrip(tripId: string, reason?: string): Promise<void> {
-    try {
-      console.log("❌ [TripRecordingService] Cancelling trip:", tripId)
-
-      const tripRef = doc(FIRESTORE_DB, "tripRecords", tripId)
-      const tripDoc = await getDoc(tripRef)
-
-      if (!tripDoc.exists()) {
-        throw new Error("Trip not found")
-      }
-
-      const tripData = tripDoc.data()
-      if (tripData.status !== 'in_progress') {
-        throw new Error("Only in-progress trips can be cancelled")
-      }
-
-      await updateDoc(tripRef, {
-        status: 'cancelled',
-        notes: reason ? `Cancelled: ${reason}` : "Trip cancelled",
-        updatedAt: serverTimestamp()
-      })
-
-      console.log("✅ [TripRecordingService] Trip cancelled successfully")
-
-    } catch (error) {
-      console.error("❌ [TripRecordingService] Error cancelling trip:", error)
-      throw new Error(`Failed to cancel trip: ${error instanceof Error ? error.message : 'Unknown error'}`)
-    }
+  // Call off a trip: one still planned is cancelled, one already under way is aborted
+  static async cancelTrip(tripId: string, actorId: string, reason?: string): Promise<TripData> {
+    const tripDoc = await getDoc(doc(FIRESTORE_DB, TRIPS_COLLECTION, tripId))
+    const stage = tripDoc.exists() ? tripFromDoc(tripDoc.id, tripDoc.data()).stage : "planned"
+    return this.advanceTrip(tripId, stage === "planned" ? "cancelled" : "aborted", { actorId, note: reason })
   }
 
   // Get trip statistics for a driver
@@ -392,25 +444,7 @@ export class TripRecordingService {
 
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        trips.push({
-          id: doc.id,
-          driverId: data.driverId,
-          vehicleId: data.vehicleId,
-          feederPointId: data.feederPointId,
-          contractorId: data.contractorId,
-          tripNumber: data.tripNumber,
-          status: data.status,
-          startTime: data.startTime?.toDate() || new Date(),
-          endTime: data.endTime?.toDate(),
-          startLocation: data.startLocation,
-          endLocation: data.endLocation,
-          wasteWeight: data.wasteWeight,
-          photos: data.photos || [],
-          notes: data.notes,
-          workerIds: data.workerIds || [],
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        })
+        trips.push(tripFromDoc(doc.id, data))
       })
 
       // Calculate statistics
@@ -486,25 +520,7 @@ export class TripRecordingService {
 
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        trips.push({
-          id: doc.id,
-          driverId: data.driverId,
-          vehicleId: data.vehicleId,
-          feederPointId: data.feederPointId,
-          contractorId: data.contractorId,
-          tripNumber: data.tripNumber,
-          status: data.status,
-          startTime: data.startTime?.toDate() || new Date(),
-          endTime: data.endTime?.toDate(),
-          startLocation: data.startLocation,
-          endLocation: data.endLocation,
-          wasteWeight: data.wasteWeight,
-          photos: data.photos || [],
-          notes: data.notes,
-          workerIds: data.workerIds || [],
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        })
+        trips.push(tripFromDoc(doc.id, data))
       })
 
       callback(trips)
@@ -533,7 +549,7 @@ export class TripRecordingService {
 
       // Check if this trip number is already completed today
       const todayTrips = await this.getTodayTripsForFeederPoint(driverId, feederPointId)
-      const existingTripNumbers = todayTrips.map(trip => trip.tripNumber)
+      const existingTripNumbers = todayTrips.filter(trip => trip.status !== "cancelled").map(trip => trip.tripNumber)
 
       if (existingTripNumbers.includes(tripNumber)) {
         return {
@@ -542,11 +558,12 @@ export class TripRecordingService {
         }
       }
 
-      // Check if maximum trips per day exceeded
-      if (tripNumber > 3) {
+      // Check the feeder point's collection schedule: days, trips per day and time windows
+      const scheduleProblem = tripScheduleProblem(await this.getCollectionSchedule(feederPointId), tripNumber, new Date())
+      if (scheduleProblem) {
         return {
           isValid: false,
-          message: "Maximum 3 trips per day per feeder point allowed"
+          message: scheduleProblem
         }
       }
 
@@ -569,4 +586,24 @@ export class TripRecordingService {
       }
     }
   }
+
+  // The stage a trip is ended from, or null when this same end was already recorded (a
+  // replayed offline write). Throws when the trip cannot be ended from where it is.
+  private static endingStageOf(tripData: DocumentFields, endedAt?: Date): TripStage | null {
+    if (tripData.status === 'completed' && endedAt && tripData.endTime?.toMillis() === endedAt.getTime()) {
+      return null
+    }
+    const stage = tripFromDoc("", tripData).stage
+    const problem = tripTransitionProblem(stage, "unloaded")
+    if (problem) {
+      throw new Error(stage === "collecting" ? "Depart from the feeder point before ending the trip" : problem)
+    }
+    return stage
+  }
+
+  // The feeder point's collection schedule, or the default one when it has none
+  private static async getCollectionSchedule(feederPointId: string): Promise<CollectionSchedule> {
+    const feederPointDoc = await getDoc(doc(FIRESTORE_DB, "feederPoints", feederPointId))
+    return collectionScheduleFromData(feederPointDoc.exists() ? feederPointDoc.data().collectionSchedule : undefined)
+  }
 }
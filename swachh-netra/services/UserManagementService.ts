@@ -8,28 +8,13 @@ import {
   query,
   where,
   orderBy,
-  Timestamp
-} from "firebase/firestore"
-import { FIRESTORE_DB } from "../FirebaseConfig"
+  Timestamp,
+  FIRESTORE_DB
+} from "./firestore"
+import { User, isContractorRole, isUserRole, userFromDoc } from "./domain"
+import { AuditService } from "./AuditService"
 
-export interface User {
-  id: string
-  fullName: string
-  email: string
-  phone: string
-  role: "admin" | "swachh_hr" | "contractor" | "driver"
-  isActive: boolean
-  createdAt: string
-  lastLogin?: string
-  department?: string
-  permissions?: string[]
-  assignedVehicles?: string[]
-  assignedFeederPoints?: string[]
-  contractorId?: string
-  profileImage?: string
-  address?: string
-  emergencyContact?: string
-}
+export type { User } from "./domain"
 
 export interface UserStats {
   totalUsers: number
@@ -60,60 +45,60 @@ class UserManagementService {
       id: "1",
       fullName: "Priya Sharma",
       email: "priya.sharma@swachhnetra.com",
-      phone: "+91 98765 43210",
+      phoneNumber: "+91 98765 43210",
       role: "swachh_hr",
       department: "Human Resources",
       isActive: true,
-      createdAt: "2024-01-15",
-      lastLogin: "2024-01-20",
-      permissions: ["user_management", "reports", "attendance"],
+      createdAt: new Date("2024-01-15"),
+      lastLogin: new Date("2024-01-20"),
+      permissions: { user_management: true, reports: true, attendance: true },
     },
     {
       id: "2",
       fullName: "Rajesh Kumar",
       email: "rajesh.kumar@swachhnetra.com",
-      phone: "+91 87654 32109",
+      phoneNumber: "+91 87654 32109",
       role: "swachh_hr",
       department: "Operations",
       isActive: true,
-      createdAt: "2024-01-10",
-      lastLogin: "2024-01-19",
-      permissions: ["operations", "scheduling", "reports"],
+      createdAt: new Date("2024-01-10"),
+      lastLogin: new Date("2024-01-19"),
+      permissions: { operations: true, scheduling: true, reports: true },
     },
     {
       id: "3",
       fullName: "Anita Patel",
       email: "anita.patel@swachhnetra.com",
-      phone: "+91 76543 21098",
+      phoneNumber: "+91 76543 21098",
       role: "swachh_hr",
       department: "Training",
       isActive: false,
-      createdAt: "2024-01-05",
-      permissions: ["training", "documentation"],
+      createdAt: new Date("2024-01-05"),
+      permissions: { training: true, documentation: true },
     },
     {
       id: "4",
       fullName: "Admin User",
       email: "admin@swachhnetra.com",
-      phone: "+91 99999 99999",
+      phoneNumber: "+91 99999 99999",
       role: "admin",
       department: "Administration",
       isActive: true,
-      createdAt: "2024-01-01",
-      lastLogin: "2024-01-21",
-      permissions: ["all"],
+      createdAt: new Date("2024-01-01"),
+      lastLogin: new Date("2024-01-21"),
+      permissions: { all: true },
     },
     {
       id: "5",
       fullName: "John Contractor",
       email: "john@contractor.com",
-      phone: "+91 88888 88888",
+      phoneNumber: "+91 88888 88888",
       role: "contractor",
       department: "Fleet Management",
       isActive: true,
-      createdAt: "2024-01-12",
-      lastLogin: "2024-01-20",
-      permissions: ["fleet", "drivers"],
+      createdAt: new Date("2024-01-12"),
+      lastLogin: new Date("2024-01-20"),
+      permissions: { fleet: true, drivers: true },
     },
   ]
 
@@ -132,7 +117,7 @@ class UserManagementService {
       }
 
       // Sort by creation date (newest first)
-      users.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      users.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
 
       return users
     } catch (error) {
@@ -168,10 +153,7 @@ class UserManagementService {
         orderBy("createdAt", "desc")
       )
       const querySnapshot = await getDocs(q)
-      return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      } as User))
+      return querySnapshot.docs.map(doc => userFromDoc(doc.id, doc.data()))
     } catch (error) {
       console.error("Error fetching users by role:", error)
       throw new Error(`Failed to fetch ${role} users`)
@@ -217,8 +199,12 @@ class UserManagementService {
         throw new Error("User not found")
       }
 
+      if (!isUserRole(newRole)) {
+        throw new Error(`Unknown role: ${newRole}`)
+      }
+
       // Update user role
-      await this.updateUser(userId, { role: newRole as any })
+      await this.updateUser(userId, { role: newRole })
 
       // Log the role change
       await this.logRoleChange({
@@ -300,10 +286,10 @@ class UserManagementService {
         activeUsers: users.filter(u => u.isActive).length,
         adminUsers: users.filter(u => u.role === "admin").length,
         swachhHRUsers: users.filter(u => u.role === "swachh_hr").length,
-        contractorUsers: users.filter(u => u.role === "contractor").length,
+        contractorUsers: users.filter(u => isContractorRole(u.role)).length,
         driverUsers: users.filter(u => u.role === "driver").length,
         recentLogins: users.filter(u => u.lastLogin &&
-          new Date(u.lastLogin) > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
+          u.lastLogin.getTime() > Date.now() - 7 * 24 * 60 * 60 * 1000
         ).length,
         pendingApprovals: users.filter(u => !u.isActive && u.role === "driver").length
       }
@@ -326,7 +312,7 @@ class UserManagementService {
       return users.filter(user =>
         user.fullName.toLowerCase().includes(query) ||
         user.email.toLowerCase().includes(query) ||
-        user.phone.includes(query) ||
+        (user.phoneNumber || "").includes(query) ||
         (user.department && user.department.toLowerCase().includes(query))
       )
     } catch (error) {
@@ -339,13 +325,16 @@ class UserManagementService {
    * Log role change
    */
   private async logRoleChange(logData: Omit<RoleChangeLog, "id">): Promise<void> {
-    try {
-      // In a real implementation, you would add this to Firestore
-      console.log("Role change logged:", logData)
-    } catch (error) {
-      console.error("Error logging role change:", error)
-      // Don't throw here as it's not critical
-    }
+    // Recorded in the shared audit log; AuditService never throws
+    await AuditService.record({
+      action: "role_change",
+      entityType: "user",
+      entityId: logData.userId,
+      before: { role: logData.previousRole },
+      after: { role: logData.newRole },
+      summary: logData.reason,
+      actorId: logData.changedBy,
+    })
   }
 
   /**
@@ -353,9 +342,22 @@ class UserManagementService {
    */
   async getRoleChangeHistory(userId: string): Promise<RoleChangeLog[]> {
     try {
-      // In a real implementation, you would query Firestore
-      // For now, return empty array
-      return []
+      const [entries, user] = await Promise.all([
+        AuditService.getEntityHistory("user", userId),
+        this.getUserById(userId),
+      ])
+      return entries
+        .filter(entry => entry.action === "role_change")
+        .map(entry => ({
+          id: entry.id,
+          userId,
+          userName: user?.fullName || "",
+          previousRole: String(entry.changes.role?.from ?? ""),
+          newRole: String(entry.changes.role?.to ?? ""),
+          changedBy: entry.actorId,
+          changedAt: entry.timestamp.toISOString(),
+          reason: entry.summary || undefined,
+        }))
     } catch (error) {
       console.error("Error fetching role change history:", error)
       throw new Error("Failed to fetch role change history")
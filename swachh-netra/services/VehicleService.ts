@@ -9,42 +9,13 @@ import {
   where,
   orderBy,
   Timestamp,
-} from "firebase/firestore"
-import { FIRESTORE_DB } from "../FirebaseConfig"
-
-export interface Vehicle {
-  id?: string
-  vehicleNumber: string
-  vehicleName: string
-  capacity: number
-  vehicleType: string
-  registrationDate: Date
-  status: "active" | "inactive" | "maintenance"
-  createdAt: Date
-  createdBy: string
-  isActive: boolean
-  // Extended vehicle details
-  manufacturer?: string
-  model?: string
-  year?: string
-  fuelType?: "diesel" | "petrol" | "electric" | "cng"
-  // Assignment tracking
-  assignedToContractor?: string
-  assignedToDriver?: string
-  contractorName?: string
-  driverName?: string
-}
+  FIRESTORE_DB,
+} from "./firestore"
+import { Vehicle, VehicleAssignment, vehicleAssignmentFromDoc, vehicleFromDoc } from "./domain"
+import { SettingsService } from "./SettingsService"
+import { AuditService } from "./AuditService"
 
-export interface VehicleAssignment {
-  id?: string
-  vehicleId: string
-  assignedTo: string // contractor or driver ID
-  assignedBy: string // admin or contractor ID
-  assignmentType: "admin_to_contractor" | "contractor_to_driver"
-  assignedAt: Date
-  status: "active" | "inactive"
-  notes?: string
-}
+export type { Vehicle, VehicleAssignment } from "./domain"
 
 export interface VehicleWithAssignment extends Vehicle {
   isAssigned?: boolean
@@ -87,22 +58,12 @@ export class VehicleService {
       const vehicles: Vehicle[] = []
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        vehicles.push({
-          id: doc.id,
-          ...data,
-          // Ensure required fields have defaults
-          createdAt: data.createdAt || new Date(),
-          registrationDate: data.registrationDate || new Date(),
-          isActive: data.isActive !== undefined ? data.isActive : true,
-          status: data.status || "active"
-        } as Vehicle)
+        vehicles.push(vehicleFromDoc(doc.id, data))
       })
 
       // Sort manually if orderBy failed
       vehicles.sort((a, b) => {
-        const dateA = a.createdAt instanceof Date ? a.createdAt : new Date(a.createdAt)
-        const dateB = b.createdAt instanceof Date ? b.createdAt : new Date(b.createdAt)
-        return dateB.getTime() - dateA.getTime()
+        return b.createdAt.getTime() - a.createdAt.getTime()
       })
 
       return vehicles
@@ -118,14 +79,7 @@ export class VehicleService {
         const vehicles: Vehicle[] = []
         querySnapshot.forEach((doc) => {
           const data = doc.data()
-          vehicles.push({
-            id: doc.id,
-            ...data,
-            createdAt: data.createdAt || new Date(),
-            registrationDate: data.registrationDate || new Date(),
-            isActive: data.isActive !== undefined ? data.isActive : true,
-            status: data.status || "active"
-          } as Vehicle)
+          vehicles.push(vehicleFromDoc(doc.id, data))
         })
 
         // Filter active vehicles manually
@@ -145,7 +99,7 @@ export class VehicleService {
 
       if (!querySnapshot.empty) {
         const doc = querySnapshot.docs[0]
-        return { id: doc.id, ...doc.data() } as Vehicle
+        return vehicleFromDoc(doc.id, doc.data())
       }
 
       return null
@@ -157,11 +111,13 @@ export class VehicleService {
 
   static async updateVehicle(id: string, updates: Partial<Vehicle>): Promise<void> {
     try {
+      const before = await AuditService.snapshot("vehicles", id)
       const vehicleRef = doc(FIRESTORE_DB, "vehicles", id)
       await updateDoc(vehicleRef, {
         ...updates,
         updatedAt: new Date(),
       })
+      await AuditService.record({ action: "update", entityType: "vehicle", entityId: id, before, after: { ...before, ...updates } })
     } catch (error) {
       console.error("Error updating vehicle:", error)
       throw new Error("Failed to update vehicle")
@@ -185,6 +141,13 @@ export class VehicleService {
         isActive: newStatus === "active",
         updatedAt: new Date(),
       })
+      await AuditService.record({
+        action: "status_change",
+        entityType: "vehicle",
+        entityId: vehicleId,
+        before: { status: vehicle.status, isActive: vehicle.isActive },
+        after: { status: newStatus, isActive: newStatus === "active" },
+      })
     } catch (error) {
       console.error("Error toggling vehicle status:", error)
       throw new Error("Failed to toggle vehicle status")
@@ -210,6 +173,7 @@ export class VehicleService {
         isActive: false,
         deletedAt: new Date(),
       })
+      await AuditService.record({ action: "delete", entityType: "vehicle", entityId: id, before: { isActive: true }, after: { isActive: false } })
     } catch (error) {
       console.error("Error deleting vehicle:", error)
       throw new Error("Failed to delete vehicle")
@@ -219,14 +183,26 @@ export class VehicleService {
   // Vehicle Assignment Operations
   static async createVehicleAssignment(assignmentData: Omit<VehicleAssignment, "id" | "assignedAt">): Promise<string> {
     try {
+      if (assignmentData.assignmentType === "admin_to_contractor" && assignmentData.status === "active") {
+        const current = await this.getVehicleAssignmentsByContractor(assignmentData.assignedTo)
+        await SettingsService.assertWithinContractorLimit("vehicles", current.length)
+      }
+
       const docRef = await addDoc(collection(FIRESTORE_DB, "vehicleAssignments"), {
         ...assignmentData,
         assignedAt: new Date(),
       })
+      await AuditService.record({
+        action: "assign",
+        entityType: "vehicleAssignment",
+        entityId: docRef.id,
+        after: assignmentData,
+        actorId: assignmentData.assignedBy,
+      })
       return docRef.id
     } catch (error) {
       console.error("Error creating vehicle assignment:", error)
-      throw new Error("Failed to create vehicle assignment")
+      throw new Error(`Failed to create vehicle assignment: ${error instanceof Error ? error.message : "Unknown error"}`)
     }
   }
 
@@ -238,7 +214,7 @@ export class VehicleService {
 
       const assignments: VehicleAssignment[] = []
       querySnapshot.forEach((doc) => {
-        assignments.push({ id: doc.id, ...doc.data() } as VehicleAssignment)
+        assignments.push(vehicleAssignmentFromDoc(doc.id, doc.data()))
       })
 
       return assignments
@@ -256,7 +232,7 @@ export class VehicleService {
 
       const assignments: VehicleAssignment[] = []
       querySnapshot.forEach((doc) => {
-        assignments.push({ id: doc.id, ...doc.data() } as VehicleAssignment)
+        assignments.push(vehicleAssignmentFromDoc(doc.id, doc.data()))
       })
 
       return assignments
@@ -280,7 +256,7 @@ export class VehicleService {
 
       const assignments: VehicleAssignment[] = []
       querySnapshot.forEach((doc) => {
-        assignments.push({ id: doc.id, ...doc.data() } as VehicleAssignment)
+        assignments.push(vehicleAssignmentFromDoc(doc.id, doc.data()))
       })
 
       return assignments
@@ -304,7 +280,7 @@ export class VehicleService {
 
       const assignments: VehicleAssignment[] = []
       querySnapshot.forEach((doc) => {
-        assignments.push({ id: doc.id, ...doc.data() } as VehicleAssignment)
+        assignments.push(vehicleAssignmentFromDoc(doc.id, doc.data()))
       })
 
       return assignments
@@ -316,11 +292,19 @@ export class VehicleService {
 
   static async updateVehicleAssignment(id: string, updates: Partial<VehicleAssignment>): Promise<void> {
     try {
+      const before = await AuditService.snapshot("vehicleAssignments", id)
       const assignmentRef = doc(FIRESTORE_DB, "vehicleAssignments", id)
       await updateDoc(assignmentRef, {
         ...updates,
         updatedAt: new Date(),
       })
+      await AuditService.record({
+        action: updates.status && updates.status !== before?.status ? "status_change" : "update",
+        entityType: "vehicleAssignment",
+        entityId: id,
+        before,
+        after: { ...before, ...updates },
+      })
     } catch (error) {
       console.error("Error updating vehicle assignment:", error)
       throw new Error("Failed to update vehicle assignment")
@@ -329,7 +313,9 @@ export class VehicleService {
 
   static async deleteVehicleAssignment(id: string): Promise<void> {
     try {
+      const before = await AuditService.snapshot("vehicleAssignments", id)
       await deleteDoc(doc(FIRESTORE_DB, "vehicleAssignments", id))
+      await AuditService.record({ action: "unassign", entityType: "vehicleAssignment", entityId: id, before })
     } catch (error) {
       console.error("Error deleting vehicle assignment:", error)
       throw new Error("Failed to delete vehicle assignment")
@@ -385,7 +371,7 @@ export class VehicleService {
 
       const vehicles: Vehicle[] = []
       querySnapshot.forEach((doc) => {
-        vehicles.push({ id: doc.id, ...doc.data() } as Vehicle)
+        vehicles.push(vehicleFromDoc(doc.id, doc.data()))
       })
 
       return vehicles
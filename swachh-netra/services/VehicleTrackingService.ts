@@ -0,0 +1,223 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  Timestamp,
+  FIRESTORE_DB
+} from "./firestore"
+import { Coordinates, VehicleLocation, distanceInMeters, toDate, vehicleFromDoc } from "./domain"
+
+// Write throttling: at most one write per vehicle every 30 seconds, and a
+// stationary vehicle only re-reports every 2 minutes to show it is still online
+const MIN_WRITE_INTERVAL_MS = 30 * 1000
+const STATIONARY_INTERVAL_MS = 2 * 60 * 1000
+const MIN_MOVEMENT_METERS = 25
+
+// A vehicle that has not reported for this long is shown as offline
+export const STALE_LOCATION_MS = 10 * 60 * 1000
+
+const BREADCRUMBS_COLLECTION = "tripBreadcrumbs"
+
+export interface LocationSample extends Coordinates {
+  accuracy?: number | null
+  speed?: number | null
+  heading?: number | null
+  recordedAt?: Date
+}
+
+export interface TrackingContext {
+  vehicleId: string
+  driverId: string
+  tripId?: string
+}
+
+// One point of the path a vehicle took during a trip
+export interface Breadcrumb extends Coordinates {
+  id: string
+  tripId: string
+  vehicleId: string
+  driverId: string
+  accuracy?: number
+  recordedAt: Date
+}
+
+export interface VehiclePosition {
+  vehicleId: string
+  vehicleNumber: string
+  driverName?: string
+  location?: VehicleLocation
+}
+
+export class VehicleTrackingService {
+  private static lastWrites = new Map<string, { position: Coordinates, at: number }>()
+
+  // Whether a sample should be written given the last one written for the vehicle
+  static shouldRecord(vehicleId: string, sample: LocationSample): boolean {
+    const last = this.lastWrites.get(vehicleId)
+    if (!last) return true
+
+    const elapsed = (sample.recordedAt || new Date()).getTime() - last.at
+    if (elapsed < MIN_WRITE_INTERVAL_MS) return false
+
+    return elapsed >= STATIONARY_INTERVAL_MS || distanceInMeters(last.position, sample) >= MIN_MOVEMENT_METERS
+  }
+
+  // Store a sampled position as the vehicle's latest location and, during a trip,
+  // append it to the trip's breadcrumb trail. Returns false when throttled.
+  static async recordLocation(context: TrackingContext, sample: LocationSample): Promise<boolean> {
+    if (!this.shouldRecord(context.vehicleId, sample)) {
+      return false
+    }
+
+    const recordedAt = sample.recordedAt || new Date()
+    const fields = {
+      latitude: sample.latitude,
+      longitude: sample.longitude,
+      accuracy: sample.accuracy ?? null,
+      speed: sample.speed ?? null,
+      heading: sample.heading ?? null,
+    }
+
+    try {
+      // Claim the slot before writing so that overlapping samples are not written twice
+      this.lastWrites.set(context.vehicleId, { position: sample, at: recordedAt.getTime() })
+
+      await updateDoc(doc(FIRESTORE_DB, "vehicles", context.vehicleId), {
+        location: {
+          ...fields,
+          timestamp: Timestamp.fromDate(recordedAt),
+          driverId: context.driverId,
+          tripId: context.tripId || null,
+        },
+      })
+
+      if (context.tripId) {
+        await addDoc(collection(FIRESTORE_DB, BREADCRUMBS_COLLECTION), {
+          ...fields,
+          tripId: context.tripId,
+          vehicleId: context.vehicleId,
+          driverId: context.driverId,
+          recordedAt: Timestamp.fromDate(recordedAt),
+        })
+      }
+
+      return true
+    } catch (error) {
+      // Positions are only useful while fresh, so a failed write is dropped rather than queued
+      this.lastWrites.delete(context.vehicleId)
+      console.error("❌ [VehicleTrackingService] Error recording location:", error)
+      return false
+    }
+  }
+
+  // Forget throttling state, e.g. when a new trip starts
+  static resetThrottle(vehicleId?: string): void {
+    if (vehicleId) {
+      this.lastWrites.delete(vehicleId)
+    } else {
+      this.lastWrites.clear()
+    }
+  }
+
+  // Breadcrumb trail of a trip in the order it was driven
+  static async getTripBreadcrumbs(tripId: string): Promise<Breadcrumb[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(FIRESTORE_DB, BREADCRUMBS_COLLECTION),
+        where("tripId", "==", tripId),
+        orderBy("recordedAt", "asc")
+      ))
+
+      return snapshot.docs.map(breadcrumbDoc => {
+        const data = breadcrumbDoc.data()
+        return {
+          id: breadcrumbDoc.id,
+          tripId: data.tripId,
+          vehicleId: data.vehicleId,
+          driverId: data.driverId,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          accuracy: typeof data.accuracy === "number" ? data.accuracy : undefined,
+          recordedAt: toDate(data.recordedAt),
+        }
+      })
+    } catch (error) {
+      console.error("❌ [VehicleTrackingService] Error fetching breadcrumbs:", error)
+      return []
+    }
+  }
+
+  // Live location of one vehicle (null until it first reports)
+  static subscribeToVehicleLocation(
+    vehicleId: string,
+    callback: (location: VehicleLocation | null) => void
+  ): () => void {
+    return onSnapshot(
+      doc(FIRESTORE_DB, "vehicles", vehicleId),
+      snapshot => {
+        callback(snapshot.exists() ? vehicleFromDoc(snapshot.id, snapshot.data()).location || null : null)
+      },
+      error => {
+        console.error("❌ [VehicleTrackingService] Vehicle location subscription error:", error)
+        callback(null)
+      }
+    )
+  }
+
+  // Live positions of the given vehicles, or of the whole fleet when no ids are given
+  static subscribeToVehiclePositions(
+    vehicleIds: string[] | null,
+    callback: (positions: VehiclePosition[]) => void
+  ): () => void {
+    const toPosition = (id: string, data: any): VehiclePosition => {
+      const vehicle = vehicleFromDoc(id, data)
+      return {
+        vehicleId: id,
+        vehicleNumber: vehicle.vehicleNumber,
+        driverName: vehicle.driverName,
+        location: vehicle.location,
+      }
+    }
+
+    if (vehicleIds === null) {
+      return onSnapshot(
+        collection(FIRESTORE_DB, "vehicles"),
+        snapshot => callback(snapshot.docs.map(vehicleDoc => toPosition(vehicleDoc.id, vehicleDoc.data()))),
+        error => {
+          console.error("❌ [VehicleTrackingService] Fleet location subscription error:", error)
+          callback([])
+        }
+      )
+    }
+
+    // One listener per vehicle; contractors only run a handful
+    const positions = new Map<string, VehiclePosition>()
+    const emit = () => callback(vehicleIds.map(id => positions.get(id)).filter((p): p is VehiclePosition => !!p))
+    const unsubscribers = vehicleIds.map(vehicleId =>
+      onSnapshot(
+        doc(FIRESTORE_DB, "vehicles", vehicleId),
+        snapshot => {
+          if (snapshot.exists()) {
+            positions.set(vehicleId, toPosition(vehicleId, snapshot.data()))
+          } else {
+            positions.delete(vehicleId)
+          }
+          emit()
+        },
+        error => console.error("❌ [VehicleTrackingService] Vehicle location subscription error:", error)
+      )
+    )
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+  }
+
+  static isStale(location: VehicleLocation | undefined, now: Date = new Date()): boolean {
+    return !location || now.getTime() - location.timestamp.getTime() > STALE_LOCATION_MS
+  }
+}
@@ -6,25 +6,12 @@ import {
   query,
   where,
   serverTimestamp,
-  writeBatch
-} from "firebase/firestore"
-import { FIRESTORE_DB } from "../FirebaseConfig"
-
-export interface WorkerAssignment {
-  id?: string
-  workerId: string
-  workerName: string
-  feederPointId: string
-  feederPointName: string
-  areaName: string
-  assignedBy: string
-  assignedAt: Date
-  status: "active" | "inactive"
-  shiftType: "morning" | "afternoon" | "evening"
-  notes?: string
-  createdAt: Date
-  updatedAt: Date
-}
+  writeBatch,
+  FIRESTORE_DB
+} from "./firestore"
+import { FeederPoint, WorkerAssignment, workerAssignmentFromDoc } from "./domain"
+
+export type { WorkerAssignment } from "./domain"
 
 export interface Worker {
   id: string
@@ -37,16 +24,11 @@ export interface Worker {
   createdAt: Date
 }
 
-export interface FeederPoint {
-  id: string
-  feederPointName: string
-  areaName: string
-  wardNumber: string
-  nearestLandmark: string
-  approximateHouseholds: string
-  isActive: boolean
-  assignedWorkerIds?: string[]
-}
+// Feeder point fields shown on the worker assignment screen
+export type FeederPointSummary = { id: string } & Pick<
+  FeederPoint,
+  "feederPointName" | "areaName" | "wardNumber" | "nearestLandmark" | "approximateHouseholds" | "isActive" | "assignedWorkerIds"
+>
 
 export class WorkerAssignmentService {
   // Get all workers
@@ -112,12 +94,12 @@ export class WorkerAssignmentService {
   }
 
   // Get all feeder points
-  static async getAllFeederPoints(): Promise<FeederPoint[]> {
+  static async getAllFeederPoints(): Promise<FeederPointSummary[]> {
     try {
       console.log("🔄 [WorkerAssignmentService] Fetching all feeder points...")
 
       const feederPointsSnapshot = await getDocs(collection(FIRESTORE_DB, "feederPoints"))
-      const feederPoints: FeederPoint[] = []
+      const feederPoints: FeederPointSummary[] = []
 
       feederPointsSnapshot.forEach((doc) => {
         try {
@@ -432,31 +414,7 @@ export class WorkerAssignmentService {
       assignmentsSnapshot.forEach((doc) => {
         try {
           const data = doc.data()
-
-          // Safe date conversion function
-          const safeToDate = (dateField: any): Date => {
-            if (!dateField) return new Date()
-            if (typeof dateField.toDate === 'function') return dateField.toDate()
-            if (dateField instanceof Date) return dateField
-            if (typeof dateField === 'string') return new Date(dateField)
-            return new Date()
-          }
-
-          assignments.push({
-            id: doc.id,
-            workerId: data.workerId || "",
-            workerName: data.workerName || "Unknown Worker",
-            feederPointId: data.feederPointId || "",
-            feederPointName: data.feederPointName || "Unknown Point",
-            areaName: data.areaName || "",
-            assignedBy: data.assignedBy || "",
-            assignedAt: safeToDate(data.assignedAt),
-            status: data.status || "active",
-            shiftType: data.shiftType || "morning",
-            notes: data.notes || "",
-            createdAt: safeToDate(data.createdAt),
-            updatedAt: safeToDate(data.updatedAt)
-          } as WorkerAssignment)
+          assignments.push(workerAssignmentFromDoc(doc.id, data))
         } catch (docError) {
           console.warn(`⚠️ [WorkerAssignmentService] Error processing assignment document ${doc.id}:`, docError)
           // Continue processing other documents
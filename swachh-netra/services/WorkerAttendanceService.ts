@@ -4,7 +4,6 @@ import {
   getDoc,
   getDocs,
   setDoc,
-  addDoc,
   query,
   where,
   orderBy,
@@ -12,9 +11,40 @@ import {
   Timestamp,
   serverTimestamp,
   updateDoc,
-  writeBatch
-} from "firebase/firestore"
-import { FIRESTORE_DB } from "../FirebaseConfig"
+  writeBatch,
+  arrayUnion,
+  DocumentReference,
+  WriteBatch,
+  FIRESTORE_DB
+} from "./firestore"
+import {
+  AttendanceRecord,
+  AttendanceStatus,
+  DocumentFields,
+  PhotoEvidence,
+  attendanceDaysOf,
+  attendanceDayKey,
+  attendanceFromDoc,
+  attendanceLocationToData,
+  attendanceSlotKey,
+  attendanceStatusOf,
+  attendanceToData,
+  correctableToData,
+  correctionEntryToData,
+  diffAuditFields,
+  displayNameOf,
+  evaluateAttendance,
+  feederPointFromDoc,
+  geofenceRulesOf,
+  isRemotePhotoUrl,
+  photoEvidenceToData,
+  verifyAttendanceLocation
+} from "./domain"
+import { PhotoStorageService } from "./PhotoStorageService"
+import { ShiftPolicyResolver, ShiftPolicyService } from "./ShiftPolicyService"
+import { LeaveService } from "./LeaveService"
+import { SettingsService } from "./SettingsService"
+import { AuditService } from "./AuditService"
 
 // Worker Attendance interfaces
 export interface AssignedWorker {
@@ -22,8 +52,11 @@ export interface AssignedWorker {
   workerName: string
   role: string
   phoneNumber?: string
+  attendanceRecordId?: string // today's record, once the worker has been marked
+  attendanceDate?: string
   isPresent?: boolean
   checkInTime?: Date
+  checkOutTime?: Date
   photoUri?: string
   location?: {
     latitude: number
@@ -45,43 +78,72 @@ export interface WorkerAttendanceData {
   lastUpdated: Date
 }
 
-export interface AttendanceRecord {
-  id?: string
+export type { AttendanceRecord } from "./domain"
+
+export interface MarkAttendanceParams {
   workerId: string
   workerName: string
   driverId: string
-  driverName: string
   vehicleId?: string
-  contractorId?: string
-  feederPointId: string
-  feederPointName: string
-  status: 'present' | 'absent'
-  timestamp: Date
-  photoUri?: string
+  isPresent: boolean
+  checkInTime: Date
+  recordedAt?: Date // when the driver marked it; earlier than now for replayed offline marks
+  photoUri?: string // local file, uploaded to storage before the record is written
   location?: {
     latitude: number
     longitude: number
+    accuracy?: number // meters, as reported by the GPS fix
   }
   notes?: string
-  createdAt?: Date
-  updatedAt?: Date
+  onPhotoUploadProgress?: (fraction: number) => void
 }
 
-export interface MarkAttendanceParams {
-  workerId: string
-  workerName: string
+// What a driver flow knows when it marks a worker; the day and bookkeeping fields are derived
+export type AttendanceMark = Omit<
+  AttendanceRecord,
+  "id" | "attendanceDate" | "checkOutTime" | "checkOutPhotoUri" | "checkOutPhoto" | "checkOutLocation" | "createdAt" | "updatedAt"
+>
+
+export interface CheckOutParams {
   driverId: string
-  vehicleId?: string
-  isPresent: boolean
-  checkInTime: Date
-  photoUri?: string
+  workerId?: string // leave out to check out everyone marked present on tripId
+  workerName?: string
+  tripId?: string
+  checkOutTime: Date
+  photoUri?: string // local file, uploaded to storage before the record is written
   location?: {
     latitude: number
     longitude: number
   }
-  notes?: string
+  onPhotoUploadProgress?: (fraction: number) => void
 }
 
+// A worker's first check-in and last check-out on one day
+export interface WorkedDay {
+  attendanceDate: string
+  checkInTime?: Date
+  checkOutTime?: Date
+  workedMinutes: number | null
+  overtimeMinutes: number
+}
+
+export interface AttendanceWriteResult {
+  id: string
+  previousStatus: AttendanceStatus | null // null when the mark created the record
+}
+
+export interface AttendanceReconciliationReport {
+  scanned: number
+  rewritten: number // records given the current fields
+  duplicatesArchived: number // extra records for an already-filled slot, moved aside
+}
+
+const ATTENDANCE_COLLECTION = "workerAttendance"
+const DUPLICATES_COLLECTION = "workerAttendanceDuplicates"
+
+// Writes per batch; Firestore caps a batch at 500 operations and an archived duplicate takes two
+const RECONCILE_BATCH_SIZE = 200
+
 export class WorkerAttendanceService {
   // Get driver's worker attendance data for today
   static async getDriverWorkerAttendance(driverId: string): Promise<WorkerAttendanceData> {
@@ -112,8 +174,11 @@ export class WorkerAttendanceService {
         return {
           ...worker,
           
-          isPresent: attendanceRecord?.isPresent,
+          attendanceRecordId: attendanceRecord?.id,
+          attendanceDate: attendanceRecord?.attendanceDate,
+          isPresent: attendanceRecord ? attendanceRecord.status === "present" : undefined,
           checkInTime: attendanceRecord?.checkInTime,
+          checkOutTime: attendanceRecord?.checkOutTime,
           photoUri: attendanceRecord?.photoUri,
           location: attendanceRecord?.location,
           notes: attendanceRecord?.notes
@@ -231,9 +296,9 @@ export class WorkerAttendanceService {
       const q = query(
         attendanceRef,
         where("driverId", "==", driverId),
-        where("date", ">=", todayTimestamp),
-        where("date", "<", tomorrowTimestamp),
-        orderBy("date", "desc")
+        where("timestamp", ">=", todayTimestamp),
+        where("timestamp", "<", tomorrowTimestamp),
+        orderBy("timestamp", "desc")
       )
 
       const querySnapshot = await getDocs(q)
@@ -241,23 +306,7 @@ export class WorkerAttendanceService {
 
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        attendanceRecords.push({
-          id: doc.id,
-          workerId: data.workerId,
-          workerName: data.workerName,
-          driverId: data.driverId,
-          vehicleId: data.vehicleId,
-          contractorId: data.contractorId,
-          date: data.date?.toDate() || new Date(),
-          isPresent: data.isPresent,
-          checkInTime: data.checkInTime?.toDate(),
-          checkOutTime: data.checkOutTime?.toDate(),
-          photoUri: data.photoUri,
-          location: data.location,
-          notes: data.notes,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        })
+        attendanceRecords.push(attendanceFromDoc(doc.id, data))
       })
 
       return attendanceRecords
@@ -273,92 +322,282 @@ export class WorkerAttendanceService {
     try {
       console.log("💾 [WorkerAttendanceService] Marking attendance for worker:", params.workerName, "with photo:", !!params.photoUri)
 
-      // Validate attendance data - ensure we have either photo or location for verification
-      if (!params.photoUri && !params.location) {
-        console.warn("⚠️ [WorkerAttendanceService] Attendance marked without photo or location verification")
-      }
+      const checkInTime = params.checkInTime || new Date()
+      const recordedAt = params.recordedAt || new Date()
+      let photoUri = params.photoUri || undefined
 
-      // Validate and sanitize input parameters
-      const sanitizedParams = {
-        workerId: params.workerId || "",
-        workerName: params.workerName || "",
-        driverId: params.driverId || "",
-        vehicleId: params.vehicleId || null,
-        isPresent: params.isPresent,
-        checkInTime: params.checkInTime || new Date(),
-        photoUri: params.photoUri || null, // Use null instead of undefined
-        location: params.location || null, // Use null instead of undefined
-        notes: params.notes || "" // Default to empty string
-      }
+      // Get driver's contractor ID
+      const driverDoc = await getDoc(doc(FIRESTORE_DB, "users", params.driverId))
+      const driverData = driverDoc.data()
 
-      console.log("📋 [WorkerAttendanceService] Sanitized params:", {
-        workerId: sanitizedParams.workerId,
-        workerName: sanitizedParams.workerName,
-        isPresent: sanitizedParams.isPresent,
-        hasPhoto: !!sanitizedParams.photoUri,
-        hasLocation: !!sanitizedParams.location,
-        hasNotes: !!sanitizedParams.notes
+      // Store a durable copy of the photo so that HR and admins can view it
+      const photo = await this.uploadAttendancePhoto(photoUri, params.driverId, recordedAt, checkInTime, params.location, params.onPhotoUploadProgress)
+      if (photo) photoUri = photo.url
+
+      const { previousStatus } = await this.recordAttendance({
+        workerId: params.workerId,
+        workerName: params.workerName,
+        driverId: params.driverId,
+        driverName: driverData ? displayNameOf(driverData, "") || undefined : undefined,
+        vehicleId: params.vehicleId,
+        contractorId: driverData?.contractorId,
+        status: params.isPresent ? "present" : "absent",
+        timestamp: recordedAt,
+        checkInTime,
+        photoUri,
+        photo,
+        location: params.location,
+        notes: params.notes,
       })
 
-      // Get driver's contractor ID
-      const driverDoc = await getDoc(doc(FIRESTORE_DB, "users", sanitizedParams.driverId))
-      const driverData = driverDoc.data()
+      console.log(previousStatus
+        ? "✅ [WorkerAttendanceService] Updated existing attendance record"
+        : "✅ [WorkerAttendanceService] Created new attendance record")
+    } catch (error) {
+      console.error("❌ [WorkerAttendanceService] Error marking attendance:", error)
+      throw new Error(`Failed to mark worker attendance: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
 
-      const attendanceRecord: Omit<AttendanceRecord, "id"> = {
-        workerId: sanitizedParams.workerId,
-        workerName: sanitizedParams.workerName,
-        driverId: sanitizedParams.driverId,
-        vehicleId: sanitizedParams.vehicleId,
-        contractorId: driverData?.contractorId || null,
-        date: Timestamp.fromDate(new Date()) as any,
-        isPresent: sanitizedParams.isPresent,
-        checkInTime: sanitizedParams.checkInTime ? Timestamp.fromDate(sanitizedParams.checkInTime) as any : null,
-        photoUri: sanitizedParams.photoUri,
-        location: sanitizedParams.location,
-        notes: sanitizedParams.notes,
-        createdAt: serverTimestamp() as any,
-        updatedAt: serverTimestamp() as any
-      }
+  // The one write path for attendance marks, used by both the daily and the trip flow.
+  // A worker has a single record per day and trip: marking again overwrites it, so retried
+  // and replayed offline marks never add a second record. Present marks are checked against
+  // the feeder point and kept, flagged for HR review, when they fail the check. A photo still
+  // on the device is uploaded first, so the record never holds a local file path.
+  static async recordAttendance(mark: AttendanceMark): Promise<AttendanceWriteResult> {
+    const attendanceDate = attendanceDayKey(mark.timestamp)
+    const existing = await this.findAttendanceSlot(mark.workerId, attendanceDate, mark.tripId)
+    const photo = mark.photo ?? await this.uploadAttendancePhoto(
+      mark.photoUri,
+      mark.driverId,
+      mark.timestamp,
+      mark.checkInTime ?? mark.timestamp,
+      mark.location
+    )
+    const withPhoto = photo ? { ...mark, photoUri: photo.url, photo } : mark
+    const verified = mark.status === "present" ? await this.verifyMark(withPhoto) : { ...withPhoto, verification: undefined }
+    const data = attendanceToData({ ...verified, attendanceDate })
 
-      // Check if attendance already exists for today
-      const today = new Date()
-      today.setHours(0, 0, 0, 0)
-      const todayTimestamp = Timestamp.fromDate(today)
-      const tomorrow = new Date(today)
-      tomorrow.setDate(tomorrow.getDate() + 1)
-      const tomorrowTimestamp = Timestamp.fromDate(tomorrow)
+    if (existing) {
+      await updateDoc(existing.ref, { ...data, updatedAt: serverTimestamp() })
+      return { id: existing.id, previousStatus: attendanceStatusOf(existing.data()) }
+    }
 
-      const existingQuery = query(
-        collection(FIRESTORE_DB, "workerAttendance"),
-        where("workerId", "==", params.workerId),
-        where("driverId", "==", params.driverId),
-        where("date", ">=", todayTimestamp),
-        where("date", "<", tomorrowTimestamp)
+    // A fixed id per slot means two devices marking at once still end up with one record
+    const recordRef = doc(FIRESTORE_DB, ATTENDANCE_COLLECTION, attendanceSlotKey(mark.workerId, attendanceDate, mark.tripId))
+    await setDoc(recordRef, { ...data, createdAt: serverTimestamp(), updatedAt: serverTimestamp() })
+    return { id: recordRef.id, previousStatus: null }
+  }
+
+  // Compare a present mark's location with its feeder point, or with the worker's assigned
+  // one when the mark does not name it, under the radius and accuracy from settings
+  private static async verifyMark(mark: AttendanceMark): Promise<AttendanceMark> {
+    let { feederPointId, feederPointName } = mark
+    if (!feederPointId) {
+      const assignments = await getDocs(query(
+        collection(FIRESTORE_DB, "workerAssignments"),
+        where("workerId", "==", mark.workerId),
+        where("status", "==", "active")
+      ))
+      const assignment = assignments.docs[0]?.data()
+      feederPointId = assignment?.feederPointId || undefined
+      feederPointName = assignment?.feederPointName || undefined
+    }
+
+    const [feederPointDoc, settings] = await Promise.all([
+      feederPointId ? getDoc(doc(FIRESTORE_DB, "feederPoints", feederPointId)) : Promise.resolve(null),
+      SettingsService.getSettings(),
+    ])
+    const feederPoint = feederPointDoc?.exists() ? feederPointFromDoc(feederPointDoc.id, feederPointDoc.data()) : undefined
+    const verification = verifyAttendanceLocation(mark.location, feederPoint?.coordinates, geofenceRulesOf(settings))
+
+    if (verification.flags.length > 0) {
+      console.warn("⚠️ [WorkerAttendanceService] Attendance for", mark.workerName, "flagged for review:", verification.flags.join(", "))
+    }
+    return {
+      ...mark,
+      feederPointId,
+      feederPointName: feederPointName || feederPoint?.feederPointName,
+      verification,
+    }
+  }
+
+  // Record when workers left, at the end of a trip or of their shift. With a workerId, the
+  // worker's record for the trip, or else for the day, is checked out; a check-out shortly
+  // after midnight closes the previous day's record when today has none. With only a tripId,
+  // every worker still present on that trip is checked out. Checking out again moves the time.
+  static async recordCheckOut(params: CheckOutParams): Promise<number> {
+    try {
+      console.log("🚪 [WorkerAttendanceService] Recording check-out:", params.workerName || params.workerId || `trip ${params.tripId}`)
+
+      const targets = params.workerId
+        ? [await this.findCheckOutRecord(params.workerId, params.checkOutTime, params.tripId)]
+        : await this.findTripCheckOutRecords(params.tripId)
+
+      targets.forEach(target => {
+        const record = attendanceFromDoc(target.id, target.data())
+        if (record.status !== "present") throw new Error(`${record.workerName} is not marked present`)
+        if ((record.checkInTime ?? record.timestamp) > params.checkOutTime) {
+          throw new Error(`Check-out for ${record.workerName} is before their check-in`)
+        }
+      })
+      if (targets.length === 0) return 0
+
+      let checkOutPhotoUri = params.photoUri || null
+      const checkOutPhoto = await this.uploadAttendancePhoto(
+        params.photoUri,
+        params.driverId,
+        params.checkOutTime,
+        params.checkOutTime,
+        params.location,
+        params.onPhotoUploadProgress
       )
+      if (checkOutPhoto) checkOutPhotoUri = checkOutPhoto.url
 
-      const existingSnapshot = await getDocs(existingQuery)
-
-      if (!existingSnapshot.empty) {
-        // Update existing record with sanitized data
-        const existingDoc = existingSnapshot.docs[0]
-        await updateDoc(existingDoc.ref, {
-          isPresent: sanitizedParams.isPresent,
-          checkInTime: sanitizedParams.checkInTime ? Timestamp.fromDate(sanitizedParams.checkInTime) : null,
-          photoUri: sanitizedParams.photoUri,
-          location: sanitizedParams.location,
-          notes: sanitizedParams.notes,
-          updatedAt: serverTimestamp()
+      const batch = writeBatch(FIRESTORE_DB)
+      targets.forEach(target => batch.update(target.ref, {
+        checkOutTime: params.checkOutTime,
+        checkOutPhotoUri,
+        checkOutPhoto: checkOutPhoto ? photoEvidenceToData(checkOutPhoto) : null,
+        checkOutLocation: params.location ? attendanceLocationToData(params.location) : null,
+        updatedAt: serverTimestamp(),
+      }))
+      await batch.commit()
+
+      console.log("✅ [WorkerAttendanceService] Checked out", targets.length, "worker(s)")
+      return targets.length
+    } catch (error) {
+      console.error("❌ [WorkerAttendanceService] Error recording check-out:", error)
+      throw new Error(`Failed to record check-out: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  private static async findCheckOutRecord(workerId: string, checkOutTime: Date, tripId?: string) {
+    const previousDay = new Date(checkOutTime)
+    previousDay.setDate(previousDay.getDate() - 1)
+
+    for (const day of [checkOutTime, previousDay]) {
+      const snapshot = await getDocs(query(
+        collection(FIRESTORE_DB, ATTENDANCE_COLLECTION),
+        where("workerId", "==", workerId),
+        where("attendanceDate", "==", attendanceDayKey(day))
+      ))
+      const records = snapshot.docs.filter(recordDoc => !tripId || recordDoc.data().tripId === tripId)
+      const open = records.filter(recordDoc => !recordDoc.data().checkOutTime)
+      if (day === previousDay && open.length === 0) continue
+
+      // Prefer the day's own record, then the latest trip the worker was marked on
+      const candidates = open.length > 0 ? open : records
+      const byLatest = candidates
+        .map(recordDoc => ({ recordDoc, record: attendanceFromDoc(recordDoc.id, recordDoc.data()) }))
+        .sort((a, b) => Number(!b.record.tripId) - Number(!a.record.tripId) || b.record.timestamp.getTime() - a.record.timestamp.getTime())
+      if (byLatest.length > 0) return byLatest[0].recordDoc
+    }
+    throw new Error("No attendance marked for this worker")
+  }
+
+  private static async findTripCheckOutRecords(tripId?: string) {
+    if (!tripId) throw new Error("A worker or trip is required")
+
+    const snapshot = await getDocs(query(collection(FIRESTORE_DB, ATTENDANCE_COLLECTION), where("tripId", "==", tripId)))
+    return snapshot.docs.filter(recordDoc => attendanceStatusOf(recordDoc.data()) === "present" && !recordDoc.data().checkOutTime)
+  }
+
+  private static async uploadAttendancePhoto(
+    photoUri: string | undefined,
+    driverId: string,
+    recordedAt: Date,
+    capturedAt: Date,
+    location?: { latitude: number, longitude: number },
+    onProgress?: (fraction: number) => void
+  ): Promise<PhotoEvidence | undefined> {
+    if (!photoUri || isRemotePhotoUrl(photoUri)) return undefined
+    return PhotoStorageService.uploadPhoto(
+      photoUri,
+      PhotoStorageService.pathFor(`attendance/${driverId}`, recordedAt),
+      {
+        uploadedBy: driverId,
+        capturedAt,
+        location: location ? { latitude: location.latitude, longitude: location.longitude } : null,
+        onProgress,
+      }
+    )
+  }
+
+  // Reconciled legacy records keep their generated ids, so the slot is found by its fields
+  private static async findAttendanceSlot(workerId: string, attendanceDate: string, tripId?: string) {
+    const snapshot = await getDocs(query(
+      collection(FIRESTORE_DB, ATTENDANCE_COLLECTION),
+      where("workerId", "==", workerId),
+      where("attendanceDate", "==", attendanceDate)
+    ))
+    return snapshot.docs.find(recordDoc => (recordDoc.data().tripId || null) === (tripId || null)) ?? null
+  }
+
+  // Rewrite records from older app versions into the current format and archive duplicate
+  // marks, so that queries on timestamp see every record and count each slot once.
+  // Safe to run repeatedly: records that are already current and unique are left alone.
+  static async reconcileAttendanceRecords(options: { dryRun?: boolean } = {}): Promise<AttendanceReconciliationReport> {
+    try {
+      console.log("🧹 [WorkerAttendanceService] Reconciling attendance records", options.dryRun ? "(dry run)" : "")
+
+      const snapshot = await getDocs(collection(FIRESTORE_DB, ATTENDANCE_COLLECTION))
+      const writes: ((batch: WriteBatch) => void)[] = []
+      const slots = new Map<string, { ref: DocumentReference, data: DocumentFields, record: AttendanceRecord }[]>()
+      let rewritten = 0
+      let duplicatesArchived = 0
+
+      snapshot.docs.forEach(recordDoc => {
+        const data = recordDoc.data()
+        // Per-driver documents holding a workers array predate individual records
+        if (!data.workerId) return
+
+        const record = attendanceFromDoc(recordDoc.id, data)
+        const key = attendanceSlotKey(record.workerId, record.attendanceDate, record.tripId)
+        slots.set(key, [...(slots.get(key) || []), { ref: recordDoc.ref, data, record }])
+      })
+
+      slots.forEach(entries => {
+        // The most recently changed record wins; the others are kept aside for reference
+        const [kept, ...duplicates] = [...entries].sort((a, b) =>
+          (b.record.updatedAt ?? b.record.timestamp).getTime() - (a.record.updatedAt ?? a.record.timestamp).getTime())
+
+        const patch: DocumentFields = {}
+        if (kept.data.status !== kept.record.status) patch.status = kept.record.status
+        if (kept.data.timestamp === undefined) patch.timestamp = kept.record.timestamp
+        if (kept.data.attendanceDate !== kept.record.attendanceDate) patch.attendanceDate = kept.record.attendanceDate
+        if (Object.keys(patch).length > 0) {
+          rewritten++
+          writes.push(batch => batch.update(kept.ref, patch))
+        }
+
+        duplicates.forEach(duplicate => {
+          duplicatesArchived++
+          writes.push(batch => {
+            batch.set(doc(FIRESTORE_DB, DUPLICATES_COLLECTION, duplicate.ref.id), {
+              ...duplicate.data,
+              duplicateOf: kept.ref.id,
+              archivedAt: serverTimestamp(),
+            })
+            batch.delete(duplicate.ref)
+          })
         })
-        console.log("✅ [WorkerAttendanceService] Updated existing attendance record")
-      } else {
-        // Create new record
-        await addDoc(collection(FIRESTORE_DB, "workerAttendance"), attendanceRecord)
-        console.log("✅ [WorkerAttendanceService] Created new attendance record")
+      })
+
+      if (!options.dryRun) {
+        for (let i = 0; i < writes.length; i += RECONCILE_BATCH_SIZE) {
+          const batch = writeBatch(FIRESTORE_DB)
+          writes.slice(i, i + RECONCILE_BATCH_SIZE).forEach(write => write(batch))
+          await batch.commit()
+        }
       }
 
+      const report = { scanned: snapshot.size, rewritten, duplicatesArchived }
+      console.log("✅ [WorkerAttendanceService] Attendance reconciliation complete:", report)
+      return report
     } catch (error) {
-      console.error("❌ [WorkerAttendanceService] Error marking attendance:", error)
-      throw new Error("Failed to mark worker attendance")
+      console.error("❌ [WorkerAttendanceService] Error reconciling attendance records:", error)
+      throw new Error(`Failed to reconcile attendance records: ${error instanceof Error ? error.message : "Unknown error"}`)
     }
   }
 
@@ -378,7 +617,10 @@ export class WorkerAttendanceService {
 
       if (updates.status) updateData.status = updates.status
       if (updates.notes !== undefined) updateData.notes = updates.notes || "" // Ensure notes is never undefined
-      if (updates.timestamp) updateData.timestamp = Timestamp.fromDate(updates.timestamp)
+      if (updates.timestamp) {
+        updateData.timestamp = Timestamp.fromDate(updates.timestamp)
+        updateData.attendanceDate = attendanceDayKey(updates.timestamp)
+      }
 
       console.log("📋 [WorkerAttendanceService] Sanitized update data:", {
         recordId,
@@ -387,7 +629,23 @@ export class WorkerAttendanceService {
         hasTimestamp: !!updateData.timestamp
       })
 
+      const before = await AuditService.snapshot("workerAttendance", recordId)
+      Object.assign(updateData, this.directEditHistory(before, {
+        status: updates.status,
+        timestamp: updates.timestamp,
+      }, updates.notes || "Edited by HR"))
       await updateDoc(doc(FIRESTORE_DB, "workerAttendance", recordId), updateData)
+      await AuditService.record({
+        action: "update",
+        entityType: "attendance",
+        entityId: recordId,
+        before: before && { status: before.status, notes: before.notes, timestamp: before.timestamp },
+        after: {
+          status: updates.status ?? before?.status,
+          notes: updates.notes !== undefined ? updateData.notes : before?.notes,
+          timestamp: updates.timestamp ?? before?.timestamp,
+        },
+      })
       console.log("✅ [WorkerAttendanceService] Attendance record updated successfully")
     } catch (error) {
       console.error("❌ [WorkerAttendanceService] Error updating attendance record:", error)
@@ -400,14 +658,24 @@ export class WorkerAttendanceService {
     try {
       console.log("📋 [WorkerAttendanceService] Bulk updating", recordIds.length, "records to", status)
 
+      const previous = await Promise.all(recordIds.map(recordId => AuditService.snapshot("workerAttendance", recordId)))
       const batch = writeBatch(FIRESTORE_DB)
 
-      recordIds.forEach(recordId => {
+      recordIds.forEach((recordId, index) => {
         const recordRef = doc(FIRESTORE_DB, "workerAttendance", recordId)
         batch.update(recordRef, {
           status,
+          ...this.directEditHistory(previous[index], { status }, "Bulk status update"),
           updatedAt: serverTimestamp()
         })
+        AuditService.addToBatch(batch, {
+          action: "status_change",
+          entityType: "attendance",
+          entityId: recordId,
+          before: { status: previous[index]?.status ?? null },
+          after: { status },
+          summary: `Bulk update of ${recordIds.length} records`,
+        })
       })
 
       await batch.commit()
@@ -418,6 +686,45 @@ export class WorkerAttendanceService {
     }
   }
 
+  // Rates leave out absences on holidays, approved leave and weekly offs; turning up on one still counts
+  private static async withoutExcusedAbsences(
+    records: AttendanceRecord[],
+    startDate: Date,
+    endDate: Date,
+    policyFor?: ShiftPolicyResolver
+  ): Promise<AttendanceRecord[]> {
+    const nonWorkingReason = await LeaveService.getNonWorkingDayResolver(startDate, endDate, policyFor)
+    return records.filter(record => record.status === "present" || !nonWorkingReason(record))
+  }
+
+  // HR edits skip the correction workflow but still leave their trace on the record:
+  // the first mark is kept in originalMark and the change joins the corrections list
+  private static directEditHistory(before: DocumentFields | null, edits: DocumentFields, reason: string): DocumentFields {
+    if (!before) return {}
+    const after: DocumentFields = { ...before }
+    Object.entries(edits).forEach(([field, value]) => {
+      if (value !== undefined) after[field] = value
+    })
+    const changes = diffAuditFields(
+      { status: attendanceStatusOf(before), timestamp: before.timestamp },
+      { status: after.status, timestamp: after.timestamp }
+    )
+    if (Object.keys(changes).length === 0) return {}
+
+    const record = attendanceFromDoc("", before)
+    return {
+      ...(before.originalMark
+        ? {}
+        : { originalMark: correctableToData({ status: record.status, checkInTime: record.checkInTime, checkOutTime: record.checkOutTime }) }),
+      corrections: arrayUnion(correctionEntryToData({
+        changes,
+        reason,
+        approvedBy: AuditService.currentActorId(),
+        approvedAt: new Date(),
+      })),
+    }
+  }
+
   // Get worker attendance profile with statistics
   static async getWorkerAttendanceProfile(workerId: string, dateRange?: {
     startDate: Date
@@ -432,8 +739,13 @@ export class WorkerAttendanceService {
       attendanceRate: number
       lateArrivals: number
       earlyDepartures: number
+      halfDays: number
       averageCheckInTime: string
+      totalWorkedHours: number
+      averageWorkedHours: number // over the days the worker checked out
+      overtimeHours: number
     }
+    workedDays: WorkedDay[] // most recent first
     trends: {
       weeklyAttendance: { week: string, rate: number }[]
       monthlyAttendance: { month: string, rate: number }[]
@@ -454,9 +766,9 @@ export class WorkerAttendanceService {
       const attendanceQuery = query(
         collection(FIRESTORE_DB, "workerAttendance"),
         where("workerId", "==", workerId),
-        where("date", ">=", Timestamp.fromDate(startDate)),
-        where("date", "<=", Timestamp.fromDate(endDate)),
-        orderBy("date", "desc")
+        where("timestamp", ">=", Timestamp.fromDate(startDate)),
+        where("timestamp", "<=", Timestamp.fromDate(endDate)),
+        orderBy("timestamp", "desc")
       )
 
       const attendanceSnapshot = await getDocs(attendanceQuery)
@@ -464,39 +776,40 @@ export class WorkerAttendanceService {
 
       attendanceSnapshot.forEach((doc) => {
         const data = doc.data()
-        attendanceHistory.push({
-          id: doc.id,
-          workerId: data.workerId,
-          workerName: data.workerName,
-          feederPointId: data.feederPointId || "",
-          feederPointName: data.feederPointName || "",
-          driverId: data.driverId,
-          driverName: data.driverName || "",
-          tripId: data.tripId || "",
-          status: data.isPresent ? 'present' : 'absent',
-          timestamp: data.date?.toDate() || new Date(),
-          location: data.location || { latitude: 0, longitude: 0 },
-          photoUri: data.photoUri,
-          notes: data.notes
-        })
+        attendanceHistory.push(attendanceFromDoc(doc.id, data))
       })
 
-      // Calculate statistics
-      const totalDays = attendanceHistory.length
-      const presentDays = attendanceHistory.filter(record => record.status === 'present').length
+      // Judge each day against the worker's shift policy; marks on several trips make one day
+      const policyFor = await ShiftPolicyService.getPolicyResolver()
+      const nonWorkingReason = await LeaveService.getNonWorkingDayResolver(startDate, endDate, policyFor)
+      const days = attendanceDaysOf(attendanceHistory)
+      const evaluations = days.map(day => evaluateAttendance(day, policyFor(day)))
+
+      // Calculate statistics; an absence on a holiday, leave or weekly off is not a missed working day
+      const totalDays = days.filter(day => day.status === 'present' || !nonWorkingReason(day)).length
+      const presentDays = days.filter(day => day.status === 'present').length
       const absentDays = totalDays - presentDays
       const attendanceRate = totalDays > 0 ? (presentDays / totalDays) * 100 : 0
 
-      // Calculate late arrivals and early departures (simplified logic)
-      const lateArrivals = attendanceHistory.filter(record => {
-        if (record.status === 'present' && record.timestamp) {
-          const hour = record.timestamp.getHours()
-          return hour > 9 // Assuming work starts at 9 AM
-        }
-        return false
-      }).length
-
-      const earlyDepartures = 0 // Would need check-out time data
+      const lateArrivals = evaluations.filter(evaluation => evaluation.late).length
+      const earlyDepartures = evaluations.filter(evaluation => evaluation.earlyDeparture).length
+      const halfDays = evaluations.filter(evaluation => evaluation.halfDay).length
+
+      // Worked hours only count days with a check-out
+      const workedDays: WorkedDay[] = days
+        .map((day, index) => ({
+          attendanceDate: day.attendanceDate,
+          checkInTime: day.checkInTime,
+          checkOutTime: day.checkOutTime,
+          workedMinutes: evaluations[index].workedMinutes,
+          overtimeMinutes: evaluations[index].overtimeMinutes,
+        }))
+        .filter((_, index) => days[index].status === 'present')
+        .sort((a, b) => b.attendanceDate.localeCompare(a.attendanceDate))
+      const checkedOutDays = workedDays.filter(day => day.workedMinutes !== null)
+      const totalWorkedHours = checkedOutDays.reduce((sum, day) => sum + day.workedMinutes!, 0) / 60
+      const averageWorkedHours = checkedOutDays.length > 0 ? totalWorkedHours / checkedOutDays.length : 0
+      const overtimeHours = workedDays.reduce((sum, day) => sum + day.overtimeMinutes, 0) / 60
 
       // Calculate average check-in time
       const checkInTimes = attendanceHistory
@@ -520,6 +833,7 @@ export class WorkerAttendanceService {
       const monthGroups = new Map<string, { present: number, total: number }>()
 
       attendanceHistory.forEach(record => {
+        if (record.status !== 'present' && nonWorkingReason(record)) return
         const date = record.timestamp
         const weekKey = `Week ${Math.ceil(date.getDate() / 7)}`
         const monthKey = date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
@@ -565,8 +879,13 @@ export class WorkerAttendanceService {
           attendanceRate,
           lateArrivals,
           earlyDepartures,
-          averageCheckInTime
+          halfDays,
+          averageCheckInTime,
+          totalWorkedHours,
+          averageWorkedHours,
+          overtimeHours
         },
+        workedDays,
         trends: {
           weeklyAttendance,
           monthlyAttendance
@@ -600,6 +919,10 @@ export class WorkerAttendanceService {
       lowAttendanceDays: string[]
       averageCheckInTime: string
       lateArrivalRate: number
+      earlyDepartureRate: number
+      halfDayRate: number
+      averageWorkedHours: number // per worker-day with a check-out
+      overtimeHours: number
     }
   }> {
     try {
@@ -608,31 +931,27 @@ export class WorkerAttendanceService {
       // Get all attendance records for the date range
       const attendanceQuery = query(
         collection(FIRESTORE_DB, "workerAttendance"),
-        where("date", ">=", Timestamp.fromDate(dateRange.startDate)),
-        where("date", "<=", Timestamp.fromDate(dateRange.endDate)),
-        orderBy("date", "asc")
+        where("timestamp", ">=", Timestamp.fromDate(dateRange.startDate)),
+        where("timestamp", "<=", Timestamp.fromDate(dateRange.endDate)),
+        orderBy("timestamp", "asc")
       )
 
       const attendanceSnapshot = await getDocs(attendanceQuery)
-      const records: any[] = []
+      const allRecords: AttendanceRecord[] = []
 
       attendanceSnapshot.forEach((doc) => {
         const data = doc.data()
-        records.push({
-          id: doc.id,
-          workerId: data.workerId,
-          workerName: data.workerName,
-          isPresent: data.isPresent,
-          date: data.date?.toDate(),
-          checkInTime: data.checkInTime?.toDate()
-        })
+        allRecords.push(attendanceFromDoc(doc.id, data))
       })
 
+      const policyFor = await ShiftPolicyService.getPolicyResolver()
+      const records = await this.withoutExcusedAbsences(allRecords, dateRange.startDate, dateRange.endDate, policyFor)
+
       // Calculate overview statistics
       const uniqueWorkers = new Set(records.map(r => r.workerId))
       const totalWorkers = uniqueWorkers.size
       const totalRecords = records.length
-      const presentRecords = records.filter(r => r.isPresent).length
+      const presentRecords = records.filter(r => r.status === "present").length
       const averageAttendanceRate = totalRecords > 0 ? (presentRecords / totalRecords) * 100 : 0
 
       // Calculate worker performance
@@ -648,7 +967,7 @@ export class WorkerAttendanceService {
         }
         const stats = workerStats.get(record.workerId)!
         stats.total++
-        if (record.isPresent) stats.present++
+        if (record.status === "present") stats.present++
       })
 
       const workerPerformance = Array.from(workerStats.entries()).map(([workerId, stats]) => ({
@@ -669,12 +988,12 @@ export class WorkerAttendanceService {
       const dailyStats = new Map<string, { present: number, absent: number }>()
 
       records.forEach(record => {
-        const dateKey = record.date.toDateString()
+        const dateKey = record.timestamp.toDateString()
         if (!dailyStats.has(dateKey)) {
           dailyStats.set(dateKey, { present: 0, absent: 0 })
         }
         const dayStats = dailyStats.get(dateKey)!
-        if (record.isPresent) {
+        if (record.status === "present") {
           dayStats.present++
         } else {
           dayStats.absent++
@@ -695,8 +1014,8 @@ export class WorkerAttendanceService {
 
       // Calculate average check-in time
       const checkInTimes = records
-        .filter(r => r.isPresent && r.checkInTime)
-        .map(r => r.checkInTime.getHours() * 60 + r.checkInTime.getMinutes())
+        .filter(r => r.status === "present" && r.checkInTime)
+        .map(r => r.checkInTime!.getHours() * 60 + r.checkInTime!.getMinutes())
 
       const avgMinutes = checkInTimes.length > 0
         ? checkInTimes.reduce((sum, time) => sum + time, 0) / checkInTimes.length
@@ -706,15 +1025,21 @@ export class WorkerAttendanceService {
       const avgMins = Math.floor(avgMinutes % 60)
       const averageCheckInTime = `${avgHours.toString().padStart(2, '0')}:${avgMins.toString().padStart(2, '0')}`
 
-      // Calculate late arrival rate (assuming work starts at 9 AM)
-      const lateArrivals = records.filter(r => {
-        if (r.isPresent && r.checkInTime) {
-          return r.checkInTime.getHours() > 9
-        }
-        return false
-      }).length
+      // Late, early and half-day rates per worker-day against each worker's shift policy
+      const evaluations = attendanceDaysOf(records)
+        .filter(day => day.status === "present")
+        .map(day => evaluateAttendance(day, policyFor(day)))
+      const rateOf = (count: number) => evaluations.length > 0 ? (count / evaluations.length) * 100 : 0
+
+      const lateArrivalRate = rateOf(evaluations.filter(e => e.late).length)
+      const earlyDepartureRate = rateOf(evaluations.filter(e => e.earlyDeparture).length)
+      const halfDayRate = rateOf(evaluations.filter(e => e.halfDay).length)
 
-      const lateArrivalRate = presentRecords > 0 ? (lateArrivals / presentRecords) * 100 : 0
+      const checkedOut = evaluations.filter(e => e.workedMinutes !== null)
+      const averageWorkedHours = checkedOut.length > 0
+        ? checkedOut.reduce((sum, e) => sum + e.workedMinutes!, 0) / checkedOut.length / 60
+        : 0
+      const overtimeHours = evaluations.reduce((sum, e) => sum + e.overtimeMinutes, 0) / 60
 
       return {
         overview: {
@@ -733,7 +1058,11 @@ export class WorkerAttendanceService {
           peakAttendanceDays,
           lowAttendanceDays,
           averageCheckInTime,
-          lateArrivalRate
+          lateArrivalRate,
+          earlyDepartureRate,
+          halfDayRate,
+          averageWorkedHours,
+          overtimeHours
         }
       }
     } catch (error) {
@@ -789,7 +1118,7 @@ export class WorkerAttendanceService {
     const attendanceQuery = query(
       collection(FIRESTORE_DB, "workerAttendance"),
       where("driverId", "==", driverId),
-      where("date", ">=", todayTimestamp)
+      where("timestamp", ">=", todayTimestamp)
     )
 
     const unsubscribe = onSnapshot(attendanceQuery, () => {
@@ -823,34 +1152,19 @@ export class WorkerAttendanceService {
       const q = query(
         attendanceRef,
         where("driverId", "==", driverId),
-        where("date", ">=", startTimestamp),
-        where("date", "<=", endTimestamp),
-        orderBy("date", "desc")
+        where("timestamp", ">=", startTimestamp),
+        where("timestamp", "<=", endTimestamp),
+        orderBy("timestamp", "desc")
       )
 
       const querySnapshot = await getDocs(q)
-      const records: AttendanceRecord[] = []
+      const fetchedRecords: AttendanceRecord[] = []
 
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        records.push({
-          id: doc.id,
-          workerId: data.workerId,
-          workerName: data.workerName,
-          driverId: data.driverId,
-          vehicleId: data.vehicleId,
-          contractorId: data.contractorId,
-          date: data.date?.toDate() || new Date(),
-          isPresent: data.isPresent,
-          checkInTime: data.checkInTime?.toDate(),
-          checkOutTime: data.checkOutTime?.toDate(),
-          photoUri: data.photoUri,
-          location: data.location,
-          notes: data.notes,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        })
+        fetchedRecords.push(attendanceFromDoc(doc.id, data))
       })
+      const records = await this.withoutExcusedAbsences(fetchedRecords, startDate, endDate)
 
       // Calculate statistics
       const workerStats: { [workerId: string]: { present: number; absent: number; total: number } } = {}
@@ -863,7 +1177,7 @@ export class WorkerAttendanceService {
         }
 
         workerStats[record.workerId].total++
-        if (record.isPresent) {
+        if (record.status === "present") {
           workerStats[record.workerId].present++
           totalPresent++
         } else {
@@ -963,20 +1277,7 @@ export class WorkerAttendanceService {
       const records: AttendanceRecord[] = []
       querySnapshot.forEach((doc) => {
         const data = doc.data()
-        records.push({
-          id: doc.id,
-          workerId: data.workerId,
-          workerName: data.workerName,
-          driverId: data.driverId,
-          driverName: data.driverName,
-          feederPointId: data.feederPointId,
-          feederPointName: data.feederPointName,
-          status: data.status,
-          timestamp: data.timestamp?.toDate() || new Date(),
-          photoUri: data.photoUri,
-          location: data.location,
-          notes: data.notes
-        })
+        records.push(attendanceFromDoc(doc.id, data))
       })
 
       console.log(`✅ [WorkerAttendanceService] Retrieved ${records.length} attendance records for ${userRole}`)
@@ -1009,7 +1310,11 @@ export class WorkerAttendanceService {
         throw new Error("Insufficient permissions to access attendance statistics")
       }
 
-      const records = await this.getAttendanceForHRAndAdmin(userRole, startDate, endDate)
+      const records = await this.withoutExcusedAbsences(
+        await this.getAttendanceForHRAndAdmin(userRole, startDate, endDate),
+        startDate,
+        endDate
+      )
 
       const totalRecords = records.length
       const presentCount = records.filter(r => r.status === 'present').length
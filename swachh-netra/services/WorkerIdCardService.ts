@@ -0,0 +1,206 @@
+import type * as ExpoCrypto from "expo-crypto"
+import * as Print from "expo-print"
+import * as Sharing from "expo-sharing"
+import QRCode from "qrcode"
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  writeBatch,
+  serverTimestamp,
+  FIRESTORE_DB
+} from "./firestore"
+import {
+  ID_CARD_SIGNATURE_LENGTH,
+  WorkerIdCard,
+  idCardPayloadOf,
+  idCardSigningInput,
+  idCardsHtml,
+  maskAadhaar,
+  parseIdCardPayload
+} from "./domain"
+import { WorkerData } from "./WorkerService"
+import { DailyAssignmentService } from "./DailyAssignmentService"
+import { AuditService } from "./AuditService"
+
+export type { WorkerIdCard } from "./domain"
+
+// The worker a scanned card belongs to, once it has passed every check
+export interface ScannedWorker {
+  workerId: string
+  workerName: string
+  feederPointId: string
+  feederPointName?: string
+}
+
+// The signing key, created the first time cards are issued. Only HR and admins need to read it:
+// scans are checked against the signature hash on the worker's record.
+const SIGNING_KEY_DOC = ["idCardKeys", "current"] as const
+
+const CARD_ISSUER = "Swachh Netra · Sanitation Worker"
+
+// Native module, only needed to create signing keys, sign cards and check scanned ones
+const crypto = (): typeof ExpoCrypto => require("expo-crypto")
+
+export class WorkerIdCardService {
+  // Give each worker a card. Workers who already hold one keep its serial unless reissue is
+  // set, which retires the card they hold (for a lost or damaged card).
+  static async issueCards(workers: WorkerData[], issuedBy: string, reissue: boolean = false): Promise<WorkerIdCard[]> {
+    try {
+      if (workers.some(worker => !worker.id)) throw new Error("Workers must be saved before cards are issued")
+      const key = await this.getOrCreateSigningKey()
+
+      const batch = writeBatch(FIRESTORE_DB)
+      const cards: WorkerIdCard[] = []
+      for (const worker of workers) {
+        const serial = reissue || !worker.idCardSerial ? (worker.idCardSerial ?? 0) + 1 : worker.idCardSerial
+        const signature = await this.sign(key, worker.id!, serial)
+        const signatureHash = await this.sha256(signature)
+        cards.push({
+          workerId: worker.id!,
+          fullName: worker.fullName,
+          employeeId: worker.employeeId || undefined,
+          category: worker.category || undefined,
+          zone: worker.zone,
+          ward: worker.ward,
+          feederPoint: worker.feederPoint,
+          maskedAadhaar: maskAadhaar(worker.aadhaarNumber),
+          serial,
+          payload: idCardPayloadOf({ workerId: worker.id!, serial, signature }),
+        })
+
+        if (serial === worker.idCardSerial) {
+          // A card printed before scans were checked by hash gains one when it is printed again
+          if (worker.idCardSignatureHash !== signatureHash) {
+            batch.update(doc(FIRESTORE_DB, "workers", worker.id!), { idCardSignatureHash: signatureHash })
+          }
+          continue
+        }
+        batch.update(doc(FIRESTORE_DB, "workers", worker.id!), {
+          idCardSerial: serial,
+          idCardSignatureHash: signatureHash,
+          idCardIssuedAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          updatedBy: issuedBy,
+        })
+        AuditService.addToBatch(batch, {
+          action: worker.idCardSerial ? "update" : "create",
+          entityType: "workerIdCard",
+          entityId: worker.id!,
+          before: worker.idCardSerial ? { serial: worker.idCardSerial } : null,
+          after: { serial },
+          summary: `ID card ${serial} issued to ${worker.fullName}`,
+          actorId: issuedBy,
+        })
+      }
+      await batch.commit()
+
+      console.log("✅ [WorkerIdCardService] Issued", cards.length, "ID cards")
+      return cards
+    } catch (error) {
+      console.error("❌ [WorkerIdCardService] Error issuing ID cards:", error)
+      throw new Error(`Failed to issue ID cards: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Print the cards to a PDF and hand it to the share sheet
+  static async printCards(cards: WorkerIdCard[]): Promise<void> {
+    try {
+      if (cards.length === 0) throw new Error("Select at least one worker")
+      const rendered = await Promise.all(cards.map(async card => ({
+        card,
+        qrSvg: await QRCode.toString(card.payload, { type: "svg", margin: 0, errorCorrectionLevel: "M" }),
+      })))
+
+      const { uri } = await Print.printToFileAsync({ html: idCardsHtml(rendered, CARD_ISSUER) })
+      if (!(await Sharing.isAvailableAsync())) throw new Error("Sharing is not available on this device")
+      await Sharing.shareAsync(uri, { mimeType: "application/pdf", UTI: "com.adobe.pdf", dialogTitle: "Worker ID cards" })
+    } catch (error) {
+      console.error("❌ [WorkerIdCardService] Error printing ID cards:", error)
+      throw new Error(`Failed to print ID cards: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Check a scanned code: it must be a genuine, current card of an active worker assigned
+  // to one of the driver's feeder points for today
+  static async verifyCard(scannedText: string, driverId: string): Promise<ScannedWorker> {
+    try {
+      const claim = parseIdCardPayload(scannedText)
+      if (!claim) throw new Error("This is not a worker ID card")
+
+      const workerDoc = await getDoc(doc(FIRESTORE_DB, "workers", claim.workerId))
+      if (!workerDoc.exists()) throw new Error("This card's worker no longer exists")
+      const worker = workerDoc.data() as WorkerData
+      if (worker.idCardSerial !== claim.serial) throw new Error(`This card has been replaced by a newer card for ${worker.fullName}`)
+      if (!worker.idCardSignatureHash) throw new Error(`${worker.fullName}'s card must be printed again before it can be scanned`)
+      if ((await this.sha256(claim.signature)) !== worker.idCardSignatureHash) throw new Error("This card is not genuine")
+      if (worker.isActive === false) throw new Error(`${worker.fullName} is not an active worker`)
+
+      const [driverFeederPointIds, workerAssignments] = await Promise.all([
+        this.getDriverFeederPointIds(driverId),
+        getDocs(query(
+          collection(FIRESTORE_DB, "workerAssignments"),
+          where("workerId", "==", claim.workerId),
+          where("status", "==", "active")
+        )),
+      ])
+      const assignment = workerAssignments.docs
+        .map(assignmentDoc => assignmentDoc.data())
+        .find(data => driverFeederPointIds.has(data.feederPointId))
+      if (!assignment) throw new Error(`${worker.fullName} is not assigned to your feeder points`)
+
+      return {
+        workerId: claim.workerId,
+        workerName: worker.fullName,
+        feederPointId: assignment.feederPointId,
+        feederPointName: assignment.feederPointName || undefined,
+      }
+    } catch (error) {
+      console.error("❌ [WorkerIdCardService] Error verifying ID card:", error)
+      throw new Error(`Failed to verify ID card: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Feeder points on the driver's assignment for today and those assigned to them standing
+  private static async getDriverFeederPointIds(driverId: string): Promise<Set<string>> {
+    const [today, standing] = await Promise.all([
+      DailyAssignmentService.getTodayAssignment(driverId),
+      getDocs(query(
+        collection(FIRESTORE_DB, "feederPointAssignments"),
+        where("driverId", "==", driverId),
+        where("status", "==", "active")
+      )),
+    ])
+    return new Set([
+      ...(today?.status === "active" ? today.feederPointIds : []),
+      ...standing.docs.map(assignmentDoc => assignmentDoc.data().feederPointId as string),
+    ])
+  }
+
+  // In a transaction, so that two HR users issuing their first cards at once end up with the
+  // same key and neither invalidates the cards the other printed
+  private static async getOrCreateSigningKey(): Promise<string> {
+    const keyRef = doc(FIRESTORE_DB, ...SIGNING_KEY_DOC)
+    return runTransaction(FIRESTORE_DB, async (transaction) => {
+      const keyDoc = await transaction.get(keyRef)
+      if (keyDoc.exists()) return keyDoc.data().key as string
+
+      const key = Array.from(crypto().getRandomBytes(32), byte => byte.toString(16).padStart(2, "0")).join("")
+      transaction.set(keyRef, { key, createdAt: serverTimestamp() })
+      return key
+    })
+  }
+
+  private static async sign(key: string, workerId: string, serial: number): Promise<string> {
+    const digest = await this.sha256(idCardSigningInput(key, workerId, serial))
+    return digest.slice(0, ID_CARD_SIGNATURE_LENGTH)
+  }
+
+  private static sha256(value: string): Promise<string> {
+    return crypto().digestStringAsync(crypto().CryptoDigestAlgorithm.SHA256, value)
+  }
+}
@@ -10,9 +10,10 @@ import {
     where,
     orderBy,
     serverTimestamp,
-    setDoc
-} from 'firebase/firestore';
-import { FIRESTORE_DB } from '../FirebaseConfig';
+    setDoc,
+    FIRESTORE_DB
+} from './firestore';
+import { AuditService } from './AuditService';
 
 export interface WorkerData {
     id?: string;
@@ -24,6 +25,12 @@ export interface WorkerData {
     shiftTiming: string;
     employeeId?: string; // Optional field
     aadhaarNumber: string; // Mandatory field
+    category?: string; // wage category used by payroll, e.g. "Sweeper"
+    bankAccountNumber?: string;
+    ifscCode?: string;
+    idCardSerial?: number; // serial of the worker's current ID card; older cards are refused
+    idCardSignatureHash?: string; // SHA-256 of the current card's signature, to check scans against
+    idCardIssuedAt?: string;
     isActive: boolean;
     createdAt: string;
     createdBy: string;
@@ -227,6 +234,15 @@ export class WorkerService {
                 approvedAt: new Date().toISOString(),
                 approvedBy: approverId
             });
+            await AuditService.record({
+                action: 'approve',
+                entityType: 'workerApproval',
+                entityId: requestId,
+                before: { status: requestData.status, type: requestData.type, workerId: requestData.workerId },
+                after: { status: 'approved', type: requestData.type, workerId: requestData.workerId },
+                summary: `Approved ${requestData.type.replace('worker_', '')} of ${requestData.workerData?.fullName || 'worker'}`,
+                actorId: approverId
+            });
 
             console.log('✅ Worker request approved successfully');
         } catch (error) {
@@ -244,6 +260,14 @@ export class WorkerService {
                 rejectedBy: rejectorId,
                 reason: reason || 'No reason provided'
             });
+            await AuditService.record({
+                action: 'reject',
+                entityType: 'workerApproval',
+                entityId: requestId,
+                before: { status: 'pending' },
+                after: { status: 'rejected', reason: reason || 'No reason provided' },
+                actorId: rejectorId
+            });
             console.log('✅ Worker request rejected successfully');
         } catch (error) {
             console.error('❌ Error rejecting worker request:', error);
@@ -0,0 +1,135 @@
+import { ApprovalService } from "../ApprovalService"
+import { MigrationService } from "../MigrationService"
+import { setWriteGuard } from "../firestore"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+const mockCreateUser = jest.fn()
+jest.mock("firebase/auth", () => ({
+  createUserWithEmailAndPassword: (...args: unknown[]) => mockCreateUser(...args),
+}))
+jest.mock("../../FirebaseConfig", () => ({ FIREBASE_AUTH: {} }))
+jest.mock("expo-crypto", () => {
+  const nodeCrypto = jest.requireActual("crypto")
+  return {
+    CryptoDigestAlgorithm: { SHA256: "SHA-256" },
+    getRandomBytes: (count: number) => new Uint8Array(nodeCrypto.randomBytes(count)),
+    digestStringAsync: async (_algorithm: string, value: string) =>
+      nodeCrypto.createHash("sha256").update(value).digest("hex"),
+  }
+})
+
+describe("ApprovalService", () => {
+  const store = useMemoryFirestore()
+
+  const seedRequest = (id: string, fields: object = {}) =>
+    store.seed("approvalRequests", id, {
+      fullName: "Ravi Kumar",
+      email: "Ravi@Example.com",
+      phone: "9876543210",
+      role: "driver",
+      requestedAt: "2024-05-01T08:00:00.000Z",
+      status: "pending",
+      approver: "contractor1",
+      approverType: "contractor",
+      ...fields,
+    })
+
+  beforeEach(() => {
+    mockCreateUser.mockReset()
+    mockCreateUser.mockResolvedValue({ user: { uid: "driver1" } })
+  })
+
+  it("issues an activation code on approval and keeps only its hash", async () => {
+    seedRequest("r1", { password: "legacy-secret" })
+
+    const grant = await ApprovalService.approveRequest("r1", "contractor1")
+
+    expect(grant.code).toMatch(/^[A-Z2-9]{4}-[A-Z2-9]{4}$/)
+    const request = store.read("approvalRequests/r1")!
+    expect(request).toMatchObject({ status: "approved", approvedBy: "contractor1" })
+    expect(request.password).toBeUndefined()
+    expect(request.activationTokenId).not.toContain(grant.code.replace("-", ""))
+    expect(store.list("activationTokens")).toHaveLength(1)
+    expect(JSON.stringify(store.list("activationTokens"))).not.toContain(grant.code)
+    expect(mockCreateUser).not.toHaveBeenCalled()
+  })
+
+  it("creates the account when the applicant redeems the code", async () => {
+    seedRequest("r1")
+    const grant = await ApprovalService.approveRequest("r1", "contractor1")
+
+    const uid = await ApprovalService.activateAccount(" ravi@example.com", grant.code.toLowerCase(), "chosen-pass")
+
+    expect(uid).toBe("driver1")
+    expect(mockCreateUser).toHaveBeenCalledWith({}, "Ravi@Example.com", "chosen-pass")
+    expect(store.read("users/driver1")).toMatchObject({ role: "driver", contractorId: "contractor1", isActive: true })
+    expect(store.read("approvalRequests/r1")).toMatchObject({ userId: "driver1" })
+    expect(store.read("approvalRequests/r1")!.activationTokenId).toBeUndefined()
+    expect(store.list("activationTokens")).toHaveLength(0)
+
+    await expect(ApprovalService.activateAccount("ravi@example.com", grant.code, "again"))
+      .rejects.toThrow("not valid")
+  })
+
+  it("removes the new login and keeps the code redeemable when saving the account fails", async () => {
+    seedRequest("r1")
+    const grant = await ApprovalService.approveRequest("r1", "contractor1")
+    const deleteUser = jest.fn().mockResolvedValue(undefined)
+    mockCreateUser.mockImplementationOnce(async () => {
+      setWriteGuard(() => { throw new Error("Writes are paused") })
+      return { user: { uid: "driver1", delete: deleteUser } }
+    })
+
+    try {
+      await expect(ApprovalService.activateAccount("ravi@example.com", grant.code, "chosen-pass"))
+        .rejects.toThrow("Writes are paused")
+    } finally {
+      setWriteGuard(null)
+    }
+
+    expect(deleteUser).toHaveBeenCalled()
+    expect(store.read("users/driver1")).toBeUndefined()
+    expect(store.list("activationTokens")).toHaveLength(1)
+
+    expect(await ApprovalService.activateAccount("ravi@example.com", grant.code, "chosen-pass")).toBe("driver1")
+    expect(store.read("users/driver1")).toMatchObject({ role: "driver" })
+  })
+
+  it("rejects a code presented with another email", async () => {
+    seedRequest("r1")
+    const grant = await ApprovalService.approveRequest("r1", "contractor1")
+
+    await expect(ApprovalService.activateAccount("someone@example.com", grant.code, "chosen-pass"))
+      .rejects.toThrow("The activation code or email is not valid")
+    expect(mockCreateUser).not.toHaveBeenCalled()
+  })
+
+  it("rejects expired codes and lets the approver issue a replacement", async () => {
+    seedRequest("r1")
+    const first = await ApprovalService.approveRequest("r1", "contractor1")
+    const [{ id: tokenId, ...token }] = store.list("activationTokens")
+    store.seed("activationTokens", tokenId, { ...token, expiresAt: "2024-01-01T00:00:00.000Z" })
+
+    await expect(ApprovalService.activateAccount("ravi@example.com", first.code, "chosen-pass"))
+      .rejects.toThrow("expired")
+
+    const second = await ApprovalService.reissueActivationCode("r1", "contractor1")
+    await expect(ApprovalService.activateAccount("ravi@example.com", first.code, "chosen-pass"))
+      .rejects.toThrow("not valid")
+    expect(await ApprovalService.getAwaitingActivationRequests("contractor1")).toHaveLength(1)
+
+    await ApprovalService.activateAccount("ravi@example.com", second.code, "chosen-pass")
+    expect(await ApprovalService.getAwaitingActivationRequests("contractor1")).toHaveLength(0)
+  })
+
+  it("purges passwords left on existing requests", async () => {
+    seedRequest("r1", { password: "legacy-secret" })
+    seedRequest("r2", { status: "approved", password: "another-secret" })
+    seedRequest("r3")
+
+    await MigrationService.migrate()
+
+    expect(store.list("approvalRequests").every(request => request.password === undefined)).toBe(true)
+    expect(store.read("schemaVersion/004")).toMatchObject({ name: "purgeApprovalPasswords", affected: 2 })
+  })
+})
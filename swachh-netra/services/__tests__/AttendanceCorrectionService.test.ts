@@ -0,0 +1,129 @@
+import { AttendanceCorrectionService } from "../AttendanceCorrectionService"
+import { AuditService } from "../AuditService"
+import { WorkerAttendanceService } from "../WorkerAttendanceService"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+describe("AttendanceCorrectionService", () => {
+  const store = useMemoryFirestore()
+  const markedAt = new Date()
+  const attendanceDate = `${markedAt.getFullYear()}-${String(markedAt.getMonth() + 1).padStart(2, "0")}-${String(markedAt.getDate()).padStart(2, "0")}`
+
+  beforeEach(() => {
+    store.seed("users", "driver-1", { role: "driver", fullName: "Ravi", contractorId: "contractor-1" })
+    store.seed("users", "driver-2", { role: "driver", fullName: "Mohan", contractorId: "contractor-2" })
+    store.seed("users", "contractor-1", { role: "transport_contractor", fullName: "Kiran Transport" })
+    store.seed("users", "hr-1", { role: "swachh_hr", fullName: "Meera HR" })
+    store.seed("workerAttendance", "record-1", {
+      workerId: "worker-1", workerName: "Sunita Devi", driverId: "driver-1", contractorId: "contractor-1",
+      status: "absent", timestamp: markedAt, attendanceDate,
+    })
+  })
+
+  afterEach(() => AuditService.setSession(null))
+
+  const requestPresent = (requestedBy = "driver-1") => AttendanceCorrectionService.requestCorrection({
+    recordId: "record-1",
+    requested: { status: "present" },
+    reason: "Worker arrived after I marked the team",
+    requestedBy,
+  })
+
+  it("applies an approved correction and keeps the original mark on the record", async () => {
+    const correctionId = await requestPresent()
+    expect(store.read("workerAttendance/record-1")?.status).toBe("absent")
+
+    await AttendanceCorrectionService.approveCorrection(correctionId, "hr-1", "Confirmed with supervisor")
+
+    const record = store.read("workerAttendance/record-1")
+    expect(record).toMatchObject({
+      status: "present",
+      originalMark: { status: "absent" },
+      corrections: [expect.objectContaining({
+        correctionId,
+        changes: { status: { from: "absent", to: "present" } },
+        requestedBy: "driver-1",
+        approvedBy: "hr-1",
+      })],
+    })
+    expect(store.read(`attendanceCorrections/${correctionId}`)).toMatchObject({
+      status: "approved", reviewedBy: "hr-1", reviewedByName: "Meera HR", reviewNote: "Confirmed with supervisor",
+    })
+    expect(store.list("auditLog").map(entry => `${entry.entityType}:${entry.action}`)).toEqual(
+      expect.arrayContaining(["attendanceCorrection:create", "attendance:update", "attendanceCorrection:approve"])
+    )
+  })
+
+  it("applies a correction only once when two reviewers approve it together", async () => {
+    const correctionId = await requestPresent()
+
+    const results = await Promise.allSettled([
+      AttendanceCorrectionService.approveCorrection(correctionId, "hr-1"),
+      AttendanceCorrectionService.approveCorrection(correctionId, "hr-1"),
+    ])
+
+    expect(results.map(result => result.status).sort()).toEqual(["fulfilled", "rejected"])
+    expect(store.read("workerAttendance/record-1")?.corrections).toHaveLength(1)
+    expect(store.list("auditLog").filter(entry => entry.action === "approve")).toHaveLength(1)
+  })
+
+  it("leaves the record untouched when HR rejects the request", async () => {
+    const correctionId = await requestPresent("contractor-1")
+
+    await expect(AttendanceCorrectionService.rejectCorrection(correctionId, "hr-1", " ")).rejects.toThrow("note")
+    await AttendanceCorrectionService.rejectCorrection(correctionId, "hr-1", "Photo shows an empty feeder point")
+
+    expect(store.read("workerAttendance/record-1")).toMatchObject({ status: "absent" })
+    expect(store.read("workerAttendance/record-1")?.corrections).toBeUndefined()
+    expect(store.read(`attendanceCorrections/${correctionId}`)).toMatchObject({ status: "rejected", requestedByRole: "transport_contractor" })
+    await expect(AttendanceCorrectionService.approveCorrection(correctionId, "hr-1")).rejects.toThrow("already rejected")
+  })
+
+  it("accepts contractors stored under the short role name", async () => {
+    store.seed("users", "contractor-1", { role: "contractor", fullName: "Kiran Transport" })
+
+    const correctionId = await requestPresent("contractor-1")
+
+    expect(store.read(`attendanceCorrections/${correctionId}`)).toMatchObject({ requestedByRole: "transport_contractor" })
+  })
+
+  it("only lets the marking driver or their contractor ask for a correction", async () => {
+    await expect(requestPresent("driver-2")).rejects.toThrow("Drivers can only correct attendance they marked")
+    await expect(requestPresent("hr-1")).rejects.toThrow("Only drivers and contractors")
+    expect(store.list("attendanceCorrections")).toHaveLength(0)
+  })
+
+  it("refuses a second request while one is pending, and requests that change nothing", async () => {
+    await expect(AttendanceCorrectionService.requestCorrection({
+      recordId: "record-1", requested: { status: "absent" }, reason: "Just checking", requestedBy: "driver-1",
+    })).rejects.toThrow("matches the current record")
+
+    await requestPresent()
+    await expect(requestPresent("contractor-1")).rejects.toThrow("already waiting for review")
+  })
+
+  it("lists a requester's recent marks and their requests", async () => {
+    await requestPresent()
+
+    const records = await AttendanceCorrectionService.getCorrectableRecords("contractor-1", "transport_contractor")
+    const requests = await AttendanceCorrectionService.getCorrectionsRequestedBy("driver-1")
+
+    expect(records.map(record => record.id)).toEqual(["record-1"])
+    expect(requests).toEqual([expect.objectContaining({ recordId: "record-1", status: "pending", original: { status: "absent" } })])
+  })
+
+  it("keeps a history entry when HR edits a record directly", async () => {
+    AuditService.setSession({ actorId: "hr-1", actorName: "Meera HR", actorRole: "swachh_hr", device: "web" })
+
+    await WorkerAttendanceService.updateAttendanceRecord("record-1", { status: "present", notes: "Seen on CCTV" })
+
+    expect(store.read("workerAttendance/record-1")).toMatchObject({
+      status: "present",
+      originalMark: { status: "absent" },
+      corrections: [expect.objectContaining({
+        changes: { status: { from: "absent", to: "present" } },
+        reason: "Seen on CCTV",
+        approvedBy: "hr-1",
+      })],
+    })
+  })
+})
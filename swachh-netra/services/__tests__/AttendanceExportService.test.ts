@@ -0,0 +1,129 @@
+import * as XLSX from "xlsx"
+import { AttendanceExportService } from "../AttendanceExportService"
+import { AttendanceRecord, musterRollOf } from "../domain"
+
+const written: { [uri: string]: string | Uint8Array } = {}
+const mockShareAsync = jest.fn()
+const mockPrintToFileAsync = jest.fn()
+
+jest.mock("expo-file-system", () => ({
+  Paths: { cache: "file:///cache" },
+  File: class {
+    uri: string
+    constructor(...parts: any[]) {
+      this.uri = parts.join("/")
+    }
+    get exists() {
+      return this.uri in written
+    }
+    create() {}
+    delete() {
+      delete written[this.uri]
+    }
+    write(content: string | Uint8Array) {
+      written[this.uri] = content
+    }
+    move(destination: { uri: string }) {
+      written[destination.uri] = written[this.uri]
+      delete written[this.uri]
+    }
+  },
+}))
+jest.mock("expo-sharing", () => ({
+  isAvailableAsync: async () => true,
+  shareAsync: (...args: any[]) => mockShareAsync(...args),
+}))
+jest.mock("expo-print", () => ({
+  printToFileAsync: (...args: any[]) => mockPrintToFileAsync(...args),
+}))
+
+const at = (day: string, time: string) => new Date(`${day}T${time}:00`)
+
+const record = (fields: Partial<AttendanceRecord> & Pick<AttendanceRecord, "workerId" | "workerName" | "attendanceDate" | "status">): AttendanceRecord => ({
+  driverId: "d1",
+  driverName: "Ramesh",
+  feederPointName: "Ward 4 Market",
+  timestamp: at(fields.attendanceDate, "07:05"),
+  ...fields,
+})
+
+const records = [
+  record({ workerId: "w2", workerName: "Sunita Devi", attendanceDate: "2024-05-02", status: "absent", notes: "Sick, informed" }),
+  record({ workerId: "w1", workerName: "Anil Kumar", attendanceDate: "2024-05-02", status: "present", checkOutTime: at("2024-05-02", "15:30") }),
+  record({ workerId: "w1", workerName: "Anil Kumar", attendanceDate: "2024-05-01", status: "present" }),
+  record({ workerId: "w2", workerName: "Sunita Devi", attendanceDate: "2024-05-01", status: "present" }),
+  // A second trip on the same day; the muster roll shows one mark
+  record({ workerId: "w2", workerName: "Sunita Devi", attendanceDate: "2024-05-01", status: "absent", tripId: "t2" }),
+]
+
+const scope = { startDate: at("2024-05-01", "00:00"), endDate: at("2024-05-03", "23:59"), feederPointName: "Ward 4 Market" }
+
+describe("AttendanceExportService", () => {
+  beforeEach(() => {
+    Object.keys(written).forEach(uri => delete written[uri])
+    mockShareAsync.mockReset()
+    mockPrintToFileAsync.mockReset()
+    jest.spyOn(console, "log").mockImplementation(() => {})
+    jest.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("writes a CSV of the records and shares it", async () => {
+    const uri = await AttendanceExportService.exportAttendance(records, "csv", scope)
+
+    expect(uri).toBe("file:///cache/attendance_2024-05-01_to_2024-05-03.csv")
+    const lines = (written[uri] as string).split("\n")
+    expect(lines[0]).toBe("Date,Worker,Worker ID,Status,Check In,Check Out,Feeder Point,Driver,Notes,Corrected")
+    expect(lines[1]).toBe("2024-05-01,Anil Kumar,w1,Present,07:05,,Ward 4 Market,Ramesh,,")
+    expect(lines[4]).toBe("2024-05-02,Anil Kumar,w1,Present,07:05,15:30,Ward 4 Market,Ramesh,,")
+    expect(lines[5]).toBe("2024-05-02,Sunita Devi,w2,Absent,,,Ward 4 Market,Ramesh,\"Sick, informed\",")
+    expect(mockShareAsync).toHaveBeenCalledWith(uri, expect.objectContaining({
+      mimeType: "text/csv",
+      dialogTitle: "Attendance 2024-05-01 to 2024-05-03 · Feeder point: Ward 4 Market",
+    }))
+  })
+
+  it("writes a workbook with the records and a muster roll sheet", async () => {
+    const uri = await AttendanceExportService.exportAttendance(records, "xlsx", scope)
+
+    const workbook = XLSX.read(written[uri], { type: "array" })
+    expect(workbook.SheetNames).toEqual(["Attendance", "Muster Roll"])
+    const muster = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets["Muster Roll"], { header: 1 })
+    expect(muster).toEqual([
+      ["Worker", "01", "02", "03", "Present", "Absent"],
+      ["Anil Kumar", "P", "P", "", "2", "0"],
+      ["Sunita Devi", "P", "A", "", "1", "1"],
+    ])
+  })
+
+  it("prints the muster roll to a PDF named after the period", async () => {
+    mockPrintToFileAsync.mockImplementation(async () => {
+      written["file:///cache/Print/abc.pdf"] = "%PDF"
+      return { uri: "file:///cache/Print/abc.pdf" }
+    })
+
+    const uri = await AttendanceExportService.exportAttendance(records, "pdf", scope)
+
+    expect(uri).toBe("file:///cache/attendance_2024-05-01_to_2024-05-03.pdf")
+    expect(written[uri]).toBe("%PDF")
+    const { html } = mockPrintToFileAsync.mock.calls[0][0]
+    expect(html).toContain("Muster Roll")
+    expect(html).toContain("<td>Sunita Devi</td><td>P</td><td class=\"absent\">A</td>")
+    expect(mockShareAsync).toHaveBeenCalledWith(uri, expect.objectContaining({ mimeType: "application/pdf" }))
+  })
+
+  it("refuses to export nothing", async () => {
+    await expect(AttendanceExportService.exportAttendance([], "csv", scope)).rejects.toThrow("no attendance records")
+    expect(mockShareAsync).not.toHaveBeenCalled()
+  })
+
+  it("counts a worker once per day on the muster roll", () => {
+    const roll = musterRollOf(records, scope.startDate, scope.endDate)
+
+    expect(roll.days).toEqual(["2024-05-01", "2024-05-02", "2024-05-03"])
+    expect(roll.rows.map(row => [row.workerName, row.present, row.absent])).toEqual([["Anil Kumar", 2, 0], ["Sunita Devi", 1, 1]])
+  })
+})
@@ -0,0 +1,106 @@
+import { AttendanceVerificationService } from "../AttendanceVerificationService"
+import { WorkerAttendanceService } from "../WorkerAttendanceService"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+describe("AttendanceVerificationService", () => {
+  const store = useMemoryFirestore()
+
+  const mark = (location?: { latitude: number, longitude: number, accuracy?: number }, isPresent = true) =>
+    WorkerAttendanceService.markWorkerAttendance({
+      workerId: "worker-1",
+      workerName: "Sunita Devi",
+      driverId: "driver-1",
+      isPresent,
+      checkInTime: new Date(),
+      location,
+    })
+
+  const recorded = () => store.list("workerAttendance")[0]
+
+  beforeEach(() => {
+    store.seed("users", "driver-1", { role: "driver", fullName: "Ravi" })
+    store.seed("users", "hr-1", { role: "swachh_hr", fullName: "Meena" })
+    store.seed("feederPoints", "fp-1", { feederPointName: "Sector 4", coordinates: { latitude: 28.61, longitude: 77.2 } })
+    store.seed("workerAssignments", "assignment-1", {
+      workerId: "worker-1", feederPointId: "fp-1", feederPointName: "Sector 4", status: "active",
+    })
+  })
+
+  it("accepts a mark made at the assigned feeder point without flags", async () => {
+    await mark({ latitude: 28.6101, longitude: 77.2, accuracy: 12 })
+
+    expect(recorded()).toMatchObject({
+      feederPointId: "fp-1",
+      feederPointName: "Sector 4",
+      verification: { flags: [], distanceMeters: 11, accuracyMeters: 12, radiusMeters: 200, reviewStatus: null },
+    })
+    expect(await AttendanceVerificationService.getFlaggedAttendance()).toEqual([])
+  })
+
+  it("flags marks away from the feeder point, without GPS or with a poor fix", async () => {
+    await mark({ latitude: 28.615, longitude: 77.2, accuracy: 250 })
+    expect(recorded()).toMatchObject({
+      status: "present",
+      verification: { flags: ["outOfRange", "lowAccuracy"], distanceMeters: 556, reviewStatus: "pending" },
+    })
+
+    await mark(undefined)
+    expect(recorded().verification).toMatchObject({ flags: ["missingLocation"], distanceMeters: null, reviewStatus: "pending" })
+
+    const [flagged] = await AttendanceVerificationService.getFlaggedAttendance()
+    expect(flagged.verification).toMatchObject({ flags: ["missingLocation"], feederPointLocation: { latitude: 28.61, longitude: 77.2 } })
+  })
+
+  it("flags a mark at a feeder point saved at 0,0 instead of measuring the distance to it", async () => {
+    store.seed("feederPoints", "fp-1", { feederPointName: "Sector 4", coordinates: { latitude: 0, longitude: 0 } })
+
+    await mark({ latitude: 28.61, longitude: 77.2, accuracy: 12 })
+
+    expect(recorded().verification).toMatchObject({
+      flags: ["unlocatedFeederPoint"],
+      distanceMeters: null,
+      feederPointLocation: null,
+      reviewStatus: "pending",
+    })
+  })
+
+  it("follows the radius from settings and does not check absent marks", async () => {
+    store.seed("systemSettings", "current", { attendanceRadiusMeters: 0, attendanceMaxAccuracyMeters: 0 })
+    await mark({ latitude: 28.7, longitude: 77.2, accuracy: 500 })
+    expect(recorded().verification).toMatchObject({ flags: [], reviewStatus: null })
+
+    await mark(undefined, false)
+    expect(recorded().verification).toBeNull()
+  })
+
+  it("keeps an accepted mark as present", async () => {
+    await mark(undefined)
+    const id = recorded().id
+
+    await AttendanceVerificationService.acceptFlaggedMark(id, "hr-1", "Phone GPS was off")
+
+    expect(store.read(`workerAttendance/${id}`)).toMatchObject({
+      status: "present",
+      verification: { reviewStatus: "accepted", reviewedBy: "hr-1", reviewedByName: "Meena", reviewNote: "Phone GPS was off" },
+    })
+    expect(await AttendanceVerificationService.getFlaggedAttendance()).toEqual([])
+    await expect(AttendanceVerificationService.acceptFlaggedMark(id, "hr-1")).rejects.toThrow("not waiting for review")
+  })
+
+  it("marks a rejected mark absent and keeps the original", async () => {
+    await mark({ latitude: 28.7, longitude: 77.2 })
+    const id = recorded().id
+
+    await expect(AttendanceVerificationService.rejectFlaggedMark(id, "hr-1", " ")).rejects.toThrow("note")
+    await AttendanceVerificationService.rejectFlaggedMark(id, "hr-1", "Marked from the depot")
+
+    const record = store.read(`workerAttendance/${id}`)
+    expect(record).toMatchObject({
+      status: "absent",
+      originalMark: { status: "present" },
+      corrections: [expect.objectContaining({ reason: "Marked from the depot", approvedBy: "hr-1" })],
+      verification: { reviewStatus: "rejected", reviewNote: "Marked from the depot" },
+    })
+    expect(store.list("auditLog")).toEqual([expect.objectContaining({ action: "reject", entityType: "attendance", entityId: id })])
+  })
+})
@@ -0,0 +1,104 @@
+import { AuditService } from "../AuditService"
+import { DriverAssignmentService } from "../DriverAssignmentService"
+import { VehicleService } from "../VehicleService"
+import { WorkerAttendanceService } from "../WorkerAttendanceService"
+import { MemoryTimestamp } from "../firestore/MemoryFirestore"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+describe("AuditService", () => {
+  const store = useMemoryFirestore()
+
+  beforeEach(() => {
+    AuditService.setSession({ actorId: "admin-1", actorName: "Asha Admin", actorRole: "admin", device: "android 34" })
+  })
+
+  afterEach(() => AuditService.setSession(null))
+
+  it("records who changed which fields from which device", async () => {
+    await AuditService.record({
+      action: "update",
+      entityType: "vehicle",
+      entityId: "vehicle-1",
+      before: { status: "active", capacity: 5, updatedAt: new Date("2024-05-01") },
+      after: { status: "maintenance", capacity: 5, updatedAt: new Date("2024-05-02") },
+    })
+
+    const [entry] = await AuditService.getEntries()
+    expect(entry).toMatchObject({
+      actorId: "admin-1",
+      actorName: "Asha Admin",
+      actorRole: "admin",
+      device: "android 34",
+      action: "update",
+      entityType: "vehicle",
+      entityId: "vehicle-1",
+      changes: { status: { from: "active", to: "maintenance" } },
+    })
+  })
+
+  it("does not attribute the session's name to a different explicit actor", async () => {
+    await AuditService.record({ action: "approve", entityType: "workerApproval", entityId: "r1", actorId: "hr-2" })
+
+    const [entry] = await AuditService.getEntries()
+    expect(entry).toMatchObject({ actorId: "hr-2", actorName: "", actorRole: "" })
+  })
+
+  it("logs vehicle assignment changes with the previous values", async () => {
+    store.seed("vehicleAssignments", "va-1", { vehicleId: "vehicle-1", assignedTo: "contractor-1", status: "active" })
+
+    await VehicleService.updateVehicleAssignment("va-1", { status: "inactive" })
+
+    const [entry] = await AuditService.getEntityHistory("vehicleAssignment", "va-1")
+    expect(entry.action).toBe("status_change")
+    expect(entry.changes).toEqual({ status: { from: "active", to: "inactive" } })
+  })
+
+  it("logs each step of a driver transfer", async () => {
+    store.seed("users", "admin-1", { role: "admin", fullName: "Asha Admin" })
+    store.seed("users", "driver-1", { role: "driver", fullName: "Ravi", contractorId: "contractor-1" })
+    store.seed("users", "contractor-1", { role: "transport_contractor", fullName: "Mehta Transport" })
+    store.seed("users", "contractor-2", { role: "transport_contractor", fullName: "Shah Logistics" })
+    store.seed("driverAssignments", "da-1", { driverId: "driver-1", contractorId: "contractor-1", status: "active" })
+
+    await DriverAssignmentService.transferDriver("driver-1", "contractor-2", "admin-1")
+
+    const entries = await AuditService.getEntries()
+    expect(entries.map(entry => entry.action).sort()).toEqual(["assign", "transfer", "unassign"])
+    expect(entries.find(entry => entry.action === "transfer")).toMatchObject({
+      entityType: "user",
+      entityId: "driver-1",
+      changes: { contractorId: { from: "contractor-1", to: "contractor-2" } },
+    })
+    expect(entries.find(entry => entry.action === "unassign")).toMatchObject({
+      entityId: "da-1",
+      changes: { status: { from: "active", to: "terminated" } },
+    })
+  })
+
+  it("writes bulk attendance edits and their audit entries together", async () => {
+    store.seed("workerAttendance", "a1", { workerId: "w1", status: "absent" })
+    store.seed("workerAttendance", "a2", { workerId: "w2", status: "present" })
+
+    await WorkerAttendanceService.bulkUpdateAttendanceStatus(["a1", "a2"], "present")
+
+    const entries = await AuditService.getEntries({ entityType: "attendance" })
+    expect(entries).toHaveLength(2)
+    expect(entries.find(entry => entry.entityId === "a1")!.changes).toEqual({ status: { from: "absent", to: "present" } })
+    expect(entries.find(entry => entry.entityId === "a2")!.changes).toEqual({})
+  })
+
+  it("filters by entity, actor and date range", async () => {
+    const at = (iso: string) => MemoryTimestamp.fromDate(new Date(iso))
+    store.seed("auditLog", "e1", { actorId: "admin-1", action: "update", entityType: "vehicle", entityId: "v1", timestamp: at("2024-05-01T10:00:00Z") })
+    store.seed("auditLog", "e2", { actorId: "hr-1", action: "update", entityType: "attendance", entityId: "a1", timestamp: at("2024-05-02T10:00:00Z") })
+    store.seed("auditLog", "e3", { actorId: "admin-1", action: "assign", entityType: "vehicle", entityId: "v2", timestamp: at("2024-05-03T10:00:00Z") })
+
+    const ids = async (filters: Parameters<typeof AuditService.getEntries>[0]) =>
+      (await AuditService.getEntries(filters)).map(entry => entry.id)
+
+    expect(await ids({})).toEqual(["e3", "e2", "e1"])
+    expect(await ids({ entityType: "vehicle" })).toEqual(["e3", "e1"])
+    expect(await ids({ actorId: "hr-1" })).toEqual(["e2"])
+    expect(await ids({ from: new Date("2024-05-02T00:00:00Z"), to: new Date("2024-05-02T23:59:59Z") })).toEqual(["e2"])
+  })
+})
@@ -0,0 +1,73 @@
+import { ContractorService } from "../ContractorService"
+import { DailyAssignmentService } from "../DailyAssignmentService"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+describe("ContractorService.assignVehicleToDriver", () => {
+  const store = useMemoryFirestore()
+
+  beforeEach(() => {
+    store.seed("users", "contractor-1", { role: "transport_contractor", fullName: "Mehta Transport" })
+    store.seed("users", "driver-1", { role: "driver", displayName: "Ravi", contractorId: "contractor-1" })
+    store.seed("vehicles", "vehicle-1", { vehicleNumber: "MH12AB1234", status: "active" })
+    store.seed("feederPoints", "fp-1", { feederPointName: "Market Yard", isActive: true })
+    store.seed("feederPoints", "fp-2", { feederPointName: "Bus Stand", isActive: true })
+  })
+
+  it("links the vehicle, driver and feeder points", async () => {
+    await ContractorService.assignVehicleToDriver("contractor-1", "vehicle-1", "driver-1", ["fp-1", "fp-2"])
+
+    expect(store.read("vehicles/vehicle-1")).toMatchObject({ driverId: "driver-1", status: "assigned" })
+    expect(store.read("users/driver-1")).toMatchObject({
+      assignedVehicleId: "vehicle-1",
+      assignedFeederPointIds: ["fp-1", "fp-2"],
+    })
+
+    const vehicleAssignments = store.list("vehicleAssignments")
+    expect(vehicleAssignments).toHaveLength(1)
+    expect(vehicleAssignments[0]).toMatchObject({ vehicleId: "vehicle-1", driverId: "driver-1", contractorId: "contractor-1" })
+
+    const feederPointAssignments = store.list("feederPointAssignments")
+    expect(feederPointAssignments.map(a => a.feederPointId).sort()).toEqual(["fp-1", "fp-2"])
+    feederPointAssignments.forEach(assignment => expect(assignment.driverId).toBe("driver-1"))
+  })
+
+  it("creates today's daily assignment for the driver", async () => {
+    await ContractorService.assignVehicleToDriver("contractor-1", "vehicle-1", "driver-1", ["fp-1", "fp-2"])
+
+    const assignment = await DailyAssignmentService.getTodayAssignment("driver-1")
+    expect(assignment).toMatchObject({
+      contractorId: "contractor-1",
+      vehicleId: "vehicle-1",
+      feederPointIds: ["fp-1", "fp-2"],
+      status: "active",
+    })
+  })
+
+  it("replaces an earlier daily assignment for the same day", async () => {
+    await ContractorService.assignVehicleToDriver("contractor-1", "vehicle-1", "driver-1", ["fp-1"])
+    await ContractorService.assignVehicleToDriver("contractor-1", "vehicle-1", "driver-1", ["fp-1", "fp-2"])
+
+    const today = new Date().toISOString().split('T')[0]
+    const dailyAssignments = store.list("dailyAssignments").filter(a => a.assignmentDate === today)
+    expect(dailyAssignments).toHaveLength(1)
+    expect(dailyAssignments[0].feederPointIds).toEqual(["fp-1", "fp-2"])
+    expect(store.list("feederPointAssignments")).toHaveLength(2)
+  })
+
+  it("refuses drivers that belong to another contractor", async () => {
+    store.seed("users", "driver-2", { role: "driver", contractorId: "contractor-2" })
+
+    await expect(
+      ContractorService.assignVehicleToDriver("contractor-1", "vehicle-1", "driver-2", ["fp-1"])
+    ).rejects.toThrow("Driver must be assigned to this contractor")
+    expect(store.list("vehicleAssignments")).toHaveLength(0)
+  })
+
+  it("refuses a vehicle already driven by someone else", async () => {
+    store.seed("vehicles", "vehicle-2", { vehicleNumber: "MH12CD5678", driverId: "driver-9" })
+
+    await expect(
+      ContractorService.assignVehicleToDriver("contractor-1", "vehicle-2", "driver-1", ["fp-1"])
+    ).rejects.toThrow("Vehicle is already assigned to another driver")
+  })
+})
@@ -0,0 +1,119 @@
+import { DailyAssignmentService } from "../DailyAssignmentService"
+import { Vehicle, VehicleService } from "../VehicleService"
+import { Coordinates, estimateRoute, feederPointFromDoc, routeOrderOf, routePointOf, routeStopNumberOf } from "../domain"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+// About a kilometre of latitude
+const KM = 0.009
+const depot = { latitude: 19, longitude: 72.8 }
+
+const feederPoint = (id: string, kmNorth: number, timeWindows: { start: string, end: string }[] = [], kmEast: number = 0) =>
+  feederPointFromDoc(id, {
+    feederPointName: `Point ${id}`,
+    coordinates: { latitude: depot.latitude + kmNorth * KM, longitude: depot.longitude + kmEast * KM },
+    collectionSchedule: { tripsPerDay: 1, timeWindows, collectionDays: [0, 1, 2, 3, 4, 5, 6] },
+  })
+
+const vehicle = (vehicleDepot?: Coordinates): Vehicle => ({
+  id: "vehicle-1",
+  vehicleNumber: "MH01AB1234",
+  vehicleName: "Tipper 1",
+  capacity: 5,
+  vehicleType: "tipper",
+  registrationDate: new Date("2024-01-01"),
+  status: "active",
+  createdAt: new Date("2024-01-01"),
+  createdBy: "admin-1",
+  isActive: true,
+  depot: vehicleDepot,
+})
+
+describe("DailyAssignmentService", () => {
+  const store = useMemoryFirestore()
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe("route planning", () => {
+    beforeEach(() => {
+      jest.spyOn(VehicleService, "getVehicleById").mockResolvedValue(vehicle(depot))
+    })
+
+    it("orders the points outwards from the vehicle's depot and estimates the day", async () => {
+      const points = [feederPoint("c", 3), feederPoint("a", 1), feederPoint("d", 4), feederPoint("b", 2)]
+
+      const { plan, depot: planned } = await DailyAssignmentService.planRoute(points, "vehicle-1")
+
+      expect(planned).toEqual(depot)
+      expect(routeOrderOf(plan)).toEqual(["a", "b", "c", "d"])
+      // 4km out and back at 1.3 road km per km, 20 km/h, plus 15 minutes at each of the 4 stops
+      expect(plan.distanceMeters).toBeGreaterThan(10300)
+      expect(plan.distanceMeters).toBeLessThan(10500)
+      expect(plan.durationMinutes).toBe(91)
+      expect(plan.stops[0]).toMatchObject({ feederPointId: "a", arrival: 6 * 60 + 4, wait: 0, late: 0 })
+    })
+
+    it("visits a point before its time window closes even when another point is nearer", async () => {
+      const points = [feederPoint("near", 0.5), feederPoint("early", -1, [{ start: "06:00", end: "06:10" }])]
+
+      const { plan } = await DailyAssignmentService.planRoute(points, "vehicle-1")
+      expect(routeOrderOf(plan)).toEqual(["early", "near"])
+      expect(plan.lateStopCount).toBe(0)
+
+      const reordered = estimateRoute([points[0], points[1]].map(routePointOf), depot)
+      expect(reordered.lateStopCount).toBe(1)
+      expect(reordered.stops[1].late).toBeGreaterThan(10)
+    })
+
+    it("reverses part of the nearest-first order when that shortens the day", async () => {
+      const points = [feederPoint("a", 1.5, [], -3.5), feederPoint("b", 1.5, [], -0.5), feederPoint("c", 3.5, [], 2.5), feederPoint("d", -3)]
+
+      const { plan } = await DailyAssignmentService.planRoute(points, "vehicle-1")
+
+      // Always going to the nearest point gives b, a, d, c
+      const nearestFirst = estimateRoute(["b", "a", "d", "c"].map(id => routePointOf(points.find(point => point.id === id)!)), depot)
+      expect(routeOrderOf(plan)).toEqual(["d", "a", "b", "c"])
+      expect(plan.durationMinutes).toBeLessThan(nearestFirst.durationMinutes)
+    })
+
+    it("starts at the first stop without a depot and leaves points without a location for last", async () => {
+      jest.spyOn(VehicleService, "getVehicleById").mockResolvedValue(vehicle())
+      const unlocated = feederPointFromDoc("x", { feederPointName: "Point x", coordinates: { latitude: 0, longitude: 0 } })
+
+      const { plan, depot: planned } = await DailyAssignmentService.planRoute([unlocated, feederPoint("a", 1), feederPoint("b", 2)], "vehicle-1")
+
+      expect(planned).toBeUndefined()
+      expect(plan.stops[0]).toMatchObject({ distanceMeters: 0, arrival: 6 * 60 })
+      expect(plan.unlocatedIds).toEqual(["x"])
+      expect(routeOrderOf(plan)[2]).toBe("x")
+    })
+  })
+
+  it("saves the accepted route with the assignment in route order", async () => {
+    const acceptedAt = new Date("2024-05-01T05:30:00Z")
+    await DailyAssignmentService.createOrUpdateAssignment({
+      driverId: "driver-1",
+      contractorId: "contractor-1",
+      assignmentDate: "2024-05-01",
+      feederPointIds: ["b", "a"],
+      route: { stopIds: ["b", "a"], distanceMeters: 5200, durationMinutes: 70, lateStopCount: 0, acceptedAt, acceptedBy: "contractor-1" },
+    })
+
+    const assignment = await DailyAssignmentService.getDriverAssignmentByDate("driver-1", "2024-05-01")
+    expect(assignment).toMatchObject({
+      feederPointIds: ["b", "a"],
+      route: { stopIds: ["b", "a"], distanceMeters: 5200, durationMinutes: 70, acceptedAt, acceptedBy: "contractor-1" },
+    })
+    expect(store.list("dailyAssignments")).toHaveLength(1)
+  })
+
+  it("numbers each point by its place on the accepted route", () => {
+    const route = { stopIds: ["c", "a", "b"], distanceMeters: 0, durationMinutes: 0, lateStopCount: 0, acceptedAt: new Date(), acceptedBy: "contractor-1" }
+
+    // A point dropped from the list does not shift the numbers of those after it
+    expect(["a", "b"].map(id => routeStopNumberOf(route, ["a", "b"], id))).toEqual([2, 3])
+    expect(routeStopNumberOf({ ...route, stopIds: [] }, ["b", "a"], "a")).toBe(2)
+    expect(routeStopNumberOf(undefined, ["a"], "a")).toBeUndefined()
+  })
+})
@@ -0,0 +1,103 @@
+import { LeaveService } from "../LeaveService"
+import { SettingsService } from "../SettingsService"
+import { WorkerAttendanceService } from "../WorkerAttendanceService"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+describe("LeaveService", () => {
+  const store = useMemoryFirestore()
+
+  const apply = (startDate: string, endDate: string, leaveType: "casual" | "sick" | "earned" = "casual") =>
+    LeaveService.applyForLeave({
+      workerId: "w1", workerName: "Sunita Devi", leaveType, startDate, endDate, reason: "Family function", appliedBy: "hr-1",
+    })
+
+  // Without saved shift policies every worker has Sunday off; 2024-05-05 is a Sunday
+  beforeEach(async () => {
+    await LeaveService.saveHoliday("2024-05-01", "Labour Day", "hr-1")
+  })
+
+  it("charges only the working days in the range", async () => {
+    const id = await apply("2024-04-30", "2024-05-06")
+
+    const [application] = await LeaveService.getWorkerLeave("w1")
+    expect(application).toMatchObject({ id, status: "pending" })
+    expect(application.leaveDates).toEqual(["2024-04-30", "2024-05-02", "2024-05-03", "2024-05-04", "2024-05-06"])
+  })
+
+  it("refuses overlapping leave and leave beyond the balance", async () => {
+    await SettingsService.updateSettings({ sickLeavePerYear: 2 }, "admin-1")
+    await apply("2024-05-02", "2024-05-03")
+
+    await expect(apply("2024-05-03", "2024-05-04", "sick")).rejects.toThrow("already has leave on 2024-05-03")
+    await expect(apply("2024-05-06", "2024-05-08", "sick")).rejects.toThrow("Only 2 sick leave days left in 2024")
+    await expect(apply("2024-05-05", "2024-05-05")).rejects.toThrow("all holidays or weekly offs")
+  })
+
+  it("moves days from pending to used on approval and back on cancellation", async () => {
+    const id = await apply("2024-05-02", "2024-05-03")
+    expect((await LeaveService.getLeaveBalances("w1", 2024)).casual).toEqual({ entitled: 12, used: 0, pending: 2, remaining: 12 })
+
+    await LeaveService.approveLeave(id, "hr-1")
+    expect((await LeaveService.getLeaveBalances("w1", 2024)).casual).toEqual({ entitled: 12, used: 2, pending: 0, remaining: 10 })
+
+    await LeaveService.cancelLeave(id, "hr-1")
+    expect((await LeaveService.getLeaveBalances("w1", 2024)).casual.remaining).toBe(12)
+    expect(store.list("auditLog").map(entry => entry.action)).toEqual(
+      expect.arrayContaining(["create", "approve", "status_change"])
+    )
+  })
+
+  it("requires a note to reject and keeps rejected days out of the balance", async () => {
+    const id = await apply("2024-05-02", "2024-05-02", "earned")
+
+    await expect(LeaveService.rejectLeave(id, "hr-1", "")).rejects.toThrow("note")
+    await LeaveService.rejectLeave(id, "hr-1", "Peak collection week")
+
+    expect((await LeaveService.getLeaveBalances("w1", 2024)).earned).toMatchObject({ used: 0, pending: 0 })
+    await expect(LeaveService.approveLeave(id, "hr-1")).rejects.toThrow("already rejected")
+  })
+
+  it("shows attendance, leave, holidays and weekly offs on the calendar", async () => {
+    const at = (day: string) => new Date(`${day}T09:00:00`)
+    store.seed("workerAttendance", "a1", { workerId: "w1", driverId: "d1", status: "present", timestamp: at("2024-05-01"), attendanceDate: "2024-05-01" })
+    store.seed("workerAttendance", "a2", { workerId: "w1", driverId: "d1", status: "absent", timestamp: at("2024-05-02"), attendanceDate: "2024-05-02" })
+    store.seed("workerAttendance", "a3", { workerId: "w1", driverId: "d1", status: "absent", timestamp: at("2024-05-03"), attendanceDate: "2024-05-03" })
+    await LeaveService.approveLeave(await apply("2024-05-03", "2024-05-03", "sick"), "hr-1")
+
+    const calendar = await LeaveService.getWorkerCalendar("w1", new Date("2024-05-15T12:00:00"))
+
+    expect(calendar["2024-05-01"]).toEqual({ status: "present" })
+    expect(calendar["2024-05-02"]).toEqual({ status: "absent" })
+    expect(calendar["2024-05-03"]).toEqual({ status: "leave", label: "sick" })
+    expect(calendar["2024-05-05"]).toEqual({ status: "weeklyOff" })
+    expect(calendar["2024-05-06"]).toBeUndefined()
+
+    await LeaveService.saveHoliday("2024-05-02", "Local Festival", "hr-1")
+    expect((await LeaveService.getWorkerCalendar("w1", new Date("2024-05-15T12:00:00")))["2024-05-02"])
+      .toEqual({ status: "holiday", label: "Local Festival" })
+  })
+
+  it("keeps absences on non-working days out of attendance rates", async () => {
+    const mark = (id: string, workerId: string, day: string, status: string) =>
+      store.seed("workerAttendance", id, {
+        workerId, workerName: workerId, driverId: "d1", status, timestamp: new Date(`${day}T09:00:00`), attendanceDate: day,
+      })
+    mark("a1", "w1", "2024-05-01", "absent") // holiday
+    mark("a2", "w1", "2024-05-02", "present")
+    mark("a3", "w1", "2024-05-03", "absent") // approved leave
+    mark("a4", "w1", "2024-05-05", "absent") // weekly off
+    mark("a5", "w2", "2024-05-06", "absent")
+    await LeaveService.approveLeave(await apply("2024-05-03", "2024-05-03"), "hr-1")
+
+    const range = { startDate: new Date("2024-05-01T00:00:00"), endDate: new Date("2024-05-07T23:59:59") }
+    const analytics = await WorkerAttendanceService.getAttendanceAnalytics(range)
+    const statistics = await WorkerAttendanceService.getAttendanceStatistics("d1", range.startDate, range.endDate)
+
+    expect(analytics.overview.totalRecords).toBe(2)
+    expect(analytics.overview.averageAttendanceRate).toBe(50)
+    expect(statistics.workerStats).toEqual({
+      w1: { present: 1, absent: 0, total: 1 },
+      w2: { present: 0, absent: 1, total: 1 },
+    })
+  })
+})
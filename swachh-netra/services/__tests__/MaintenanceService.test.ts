@@ -0,0 +1,86 @@
+import { MaintenanceService } from "../MaintenanceService"
+import { SettingsService } from "../SettingsService"
+import { DEFAULT_SYSTEM_SETTINGS } from "../domain"
+import { flushListeners, useMemoryFirestore } from "./helpers/memoryFirestore"
+
+describe("MaintenanceService", () => {
+  const store = useMemoryFirestore()
+  const at = (time: string) => new Date(`2024-05-01T${time}:00`)
+
+  afterEach(() => {
+    MaintenanceService.stop()
+    MaintenanceService.setSessionRole(null)
+  })
+
+  describe("getStatus", () => {
+    const window = { ...DEFAULT_SYSTEM_SETTINGS, maintenanceStartsAt: at("22:00"), maintenanceEndsAt: at("23:30") }
+
+    it("follows a scheduled window", () => {
+      expect(MaintenanceService.getStatus(window, at("21:00"))).toMatchObject({ active: false, upcoming: true })
+      expect(MaintenanceService.getStatus(window, at("22:00"))).toMatchObject({ active: true, upcoming: false })
+      expect(MaintenanceService.getStatus(window, at("23:30"))).toMatchObject({ active: false, upcoming: false })
+    })
+
+    it("is on whenever the switch is set, with the window end as the ETA", () => {
+      const status = MaintenanceService.getStatus({ ...window, maintenanceMode: true }, at("09:00"))
+      expect(status).toMatchObject({ active: true, upcoming: false, endsAt: at("23:30") })
+    })
+  })
+
+  describe("write guard", () => {
+    const turnOn = async () => {
+      store.seed("systemSettings", "current", { maintenanceMode: true, maintenanceMessage: "Upgrading servers" })
+      MaintenanceService.start()
+      await flushListeners()
+    }
+
+    it("blocks writes from signed-in non-admins", async () => {
+      await turnOn()
+      MaintenanceService.setSessionRole("transport_contractor")
+
+      await expect(SettingsService.updateSettings({ smsNotifications: true }, "c1")).rejects.toThrow("under maintenance")
+      expect(store.read("systemSettings/current")!.smsNotifications).toBeUndefined()
+    })
+
+    it("lets admins and signed-out users write", async () => {
+      await turnOn()
+
+      await SettingsService.updateSettings({ smsNotifications: true }, "anonymous")
+      MaintenanceService.setSessionRole("admin")
+      await SettingsService.updateSettings({ maintenanceMode: false }, "admin-1")
+
+      expect(store.read("systemSettings/current")).toMatchObject({ smsNotifications: true, maintenanceMode: false })
+    })
+
+    it("lifts the block when maintenance is switched off or enforcement stops", async () => {
+      await turnOn()
+      MaintenanceService.setSessionRole("driver")
+      expect(MaintenanceService.isWriteBlocked()).toBe(true)
+
+      store.seed("systemSettings", "current", { maintenanceMode: false })
+      await flushListeners()
+      expect(MaintenanceService.isWriteBlocked()).toBe(false)
+
+      store.seed("systemSettings", "current", { maintenanceMode: true })
+      await flushListeners()
+      MaintenanceService.stop()
+      expect(MaintenanceService.isWriteBlocked()).toBe(false)
+    })
+  })
+
+  it("rejects a window that ends before it starts", async () => {
+    await expect(SettingsService.updateSettings({
+      maintenanceStartsAt: at("22:00"),
+      maintenanceEndsAt: at("21:00"),
+    }, "admin-1")).rejects.toThrow("Maintenance must end after it starts")
+  })
+
+  it("records scheduled windows in the settings history as dates", async () => {
+    await SettingsService.updateSettings({ maintenanceStartsAt: at("22:00") }, "admin-1")
+
+    const settings = await SettingsService.getSettings()
+    const [change] = await SettingsService.getHistory()
+    expect(settings.maintenanceStartsAt).toEqual(at("22:00"))
+    expect(change.changes.maintenanceStartsAt).toEqual({ from: null, to: at("22:00") })
+  })
+})
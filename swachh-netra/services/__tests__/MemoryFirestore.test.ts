@@ -0,0 +1,143 @@
+import {
+  FIRESTORE_DB,
+  Timestamp,
+  addDoc,
+  arrayUnion,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from "../firestore"
+import { flushListeners, useMemoryFirestore } from "./helpers/memoryFirestore"
+
+describe("MemoryFirestore", () => {
+  const store = useMemoryFirestore()
+
+  it("filters, orders and limits queries", async () => {
+    store.seed("users", "d1", { role: "driver", fullName: "Ravi", rating: 4 })
+    store.seed("users", "d2", { role: "driver", fullName: "Anil", rating: 5 })
+    store.seed("users", "d3", { role: "driver", fullName: "Kiran" })
+    store.seed("users", "c1", { role: "transport_contractor", fullName: "Mehta", rating: 3 })
+
+    const snapshot = await getDocs(query(
+      collection(FIRESTORE_DB, "users"),
+      where("role", "==", "driver"),
+      orderBy("rating", "desc"),
+      limit(5)
+    ))
+
+    // Documents missing the ordered field are excluded, as in Firestore
+    expect(snapshot.docs.map(d => d.id)).toEqual(["d2", "d1"])
+  })
+
+  it("supports in, array-contains and document id filters", async () => {
+    store.seed("feederPoints", "fp1", { wards: ["A", "B"] })
+    store.seed("feederPoints", "fp2", { wards: ["C"] })
+    store.seed("feederPoints", "fp3", { wards: [] })
+
+    const byWard = await getDocs(query(collection(FIRESTORE_DB, "feederPoints"), where("wards", "array-contains", "C")))
+    const byId = await getDocs(query(collection(FIRESTORE_DB, "feederPoints"), where("__name__", "in", ["fp1", "fp3"])))
+
+    expect(byWard.docs.map(d => d.id)).toEqual(["fp2"])
+    expect(byId.docs.map(d => d.id)).toEqual(["fp1", "fp3"])
+  })
+
+  it("stores Dates as Timestamps and compares them in range filters", async () => {
+    const morning = new Date("2024-05-01T08:00:00Z")
+    const evening = new Date("2024-05-01T18:00:00Z")
+    await addDoc(collection(FIRESTORE_DB, "workerAttendance"), { date: Timestamp.fromDate(morning) })
+    await addDoc(collection(FIRESTORE_DB, "workerAttendance"), { date: evening })
+
+    const snapshot = await getDocs(query(
+      collection(FIRESTORE_DB, "workerAttendance"),
+      where("date", ">=", Timestamp.fromDate(new Date("2024-05-01T12:00:00Z")))
+    ))
+
+    expect(snapshot.size).toBe(1)
+    expect(snapshot.docs[0].data().date.toDate()).toEqual(evening)
+  })
+
+  it("rejects undefined field values like the SDK", async () => {
+    await expect(setDoc(doc(FIRESTORE_DB, "tripRecords", "t1"), { notes: undefined }))
+      .rejects.toThrow("Unsupported field value: undefined")
+  })
+
+  it("applies field transforms on update", async () => {
+    store.seed("vehicles", "v1", { tripCount: 2, tags: ["compactor"] })
+
+    await updateDoc(doc(FIRESTORE_DB, "vehicles", "v1"), {
+      tripCount: increment(1),
+      tags: arrayUnion("compactor", "night"),
+      "location.latitude": 19.07,
+      updatedAt: serverTimestamp(),
+    })
+
+    const data = store.read("vehicles/v1")!
+    expect(data.tripCount).toBe(3)
+    expect(data.tags).toEqual(["compactor", "night"])
+    expect(data.location).toEqual({ latitude: 19.07 })
+    expect(typeof data.updatedAt.toDate).toBe("function")
+  })
+
+  it("commits write batches atomically", async () => {
+    store.seed("users", "d1", { role: "driver" })
+
+    const batch = writeBatch(FIRESTORE_DB)
+    batch.update(doc(FIRESTORE_DB, "users", "d1"), { assignedVehicleId: "v1" })
+    batch.update(doc(FIRESTORE_DB, "users", "missing"), { assignedVehicleId: "v1" })
+
+    await expect(batch.commit()).rejects.toThrow("No document to update")
+    expect(store.read("users/d1")!.assignedVehicleId).toBeUndefined()
+  })
+
+  it("runs transactions against a consistent read", async () => {
+    store.seed("counters", "trips", { value: 1 })
+
+    const next = await runTransaction(FIRESTORE_DB, async transaction => {
+      const snapshot = await transaction.get(doc(FIRESTORE_DB, "counters", "trips"))
+      const value = snapshot.data()!.value + 1
+      transaction.update(doc(FIRESTORE_DB, "counters", "trips"), { value })
+      return value
+    })
+
+    expect(next).toBe(2)
+    expect(store.read("counters/trips")!.value).toBe(2)
+  })
+
+  it("notifies query and document listeners after writes", async () => {
+    const sizes: number[] = []
+    const names: (string | undefined)[] = []
+
+    const stopQuery = onSnapshot(
+      query(collection(FIRESTORE_DB, "users"), where("role", "==", "driver")),
+      snapshot => { sizes.push(snapshot.size) }
+    )
+    const stopDoc = onSnapshot(doc(FIRESTORE_DB, "users", "d1"), snapshot => {
+      names.push(snapshot.data()?.fullName)
+    })
+    await flushListeners()
+
+    await setDoc(doc(FIRESTORE_DB, "users", "d1"), { role: "driver", fullName: "Ravi" })
+    await flushListeners()
+
+    stopQuery()
+    stopDoc()
+    await setDoc(doc(FIRESTORE_DB, "users", "d2"), { role: "driver" })
+    await flushListeners()
+
+    expect(sizes).toEqual([0, 1])
+    expect(names).toEqual([undefined, "Ravi"])
+    expect((await getDoc(doc(FIRESTORE_DB, "users", "d2"))).exists()).toBe(true)
+  })
+})
@@ -0,0 +1,70 @@
+import { MemoryTimestamp } from "../firestore/MemoryFirestore"
+import { MigrationService } from "../MigrationService"
+import { BACKFILL_FIELD, MIGRATIONS } from "../migrations"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+describe("MigrationService", () => {
+  const store = useMemoryFirestore()
+  const may1 = MemoryTimestamp.fromDate(new Date("2024-05-01T08:00:00Z"))
+
+  const seedLegacyData = () => {
+    store.seed("feederPoints", "fp1", { feederPointName: "Market", gpsCoordinates: { latitude: 19.07, longitude: 72.87 } })
+    store.seed("feederPoints", "fp2", { feederPointName: "Depot", coordinates: { latitude: 19.1, longitude: 72.9 } })
+    store.seed("workerAttendance", "a1", { workerId: "w1", isPresent: true, date: may1 })
+    store.seed("workerAttendance", "a2", { workerId: "w2", status: "absent", timestamp: may1 })
+  }
+
+  it("reports affected documents on a dry run without writing", async () => {
+    seedLegacyData()
+
+    const reports = await MigrationService.migrate({ dryRun: true })
+
+    expect(reports.map(report => [report.name, report.scanned, report.affected])).toEqual([
+      ["feederPointCoordinates", 2, 1],
+      ["attendanceStatus", 2, 2],
+      ["vehicleAssignmentFields", 0, 0],
+      ["purgeApprovalPasswords", 0, 0],
+    ])
+    expect(store.read("feederPoints/fp1")!.coordinates).toBeUndefined()
+    expect(store.list("schemaVersion")).toHaveLength(0)
+  })
+
+  it("backfills canonical fields and records the schema version", async () => {
+    seedLegacyData()
+
+    await MigrationService.migrate({ appliedBy: "admin1" })
+
+    expect(store.read("feederPoints/fp1")!.coordinates).toEqual({ latitude: 19.07, longitude: 72.87 })
+    expect(store.read("feederPoints/fp2")![BACKFILL_FIELD]).toBeUndefined()
+    expect(store.read("workerAttendance/a1")).toMatchObject({ status: "present", isPresent: true })
+    expect(store.read("workerAttendance/a2")).toMatchObject({ status: "absent", isPresent: false })
+    expect(store.read("workerAttendance/a2")!.date.toDate()).toEqual(may1.toDate())
+    expect(await MigrationService.getCurrentVersion()).toBe(MIGRATIONS.length)
+    expect(store.read("schemaVersion/001")).toMatchObject({ name: "feederPointCoordinates", appliedBy: "admin1", affected: 1 })
+  })
+
+  it("does nothing when run again", async () => {
+    seedLegacyData()
+    await MigrationService.migrate()
+
+    expect(await MigrationService.getPendingMigrations()).toHaveLength(0)
+    expect(await MigrationService.migrate()).toEqual([])
+  })
+
+  it("rolls back only the fields a migration added", async () => {
+    seedLegacyData()
+    await MigrationService.migrate({ targetVersion: 1 })
+
+    const reports = await MigrationService.rollback()
+
+    expect(reports).toMatchObject([{ version: 1, direction: "down", affected: 1 }])
+    expect(store.read("feederPoints/fp1")).toEqual({ feederPointName: "Market", gpsCoordinates: { latitude: 19.07, longitude: 72.87 } })
+    expect(store.read("feederPoints/fp2")!.coordinates).toEqual({ latitude: 19.1, longitude: 72.9 })
+    expect(await MigrationService.getCurrentVersion()).toBe(0)
+  })
+
+  it("rejects duplicate migration versions", () => {
+    expect(() => MigrationService.orderMigrations([MIGRATIONS[0], MIGRATIONS[0]]))
+      .toThrow("Duplicate migration version 1")
+  })
+})
@@ -0,0 +1,208 @@
+import { MissedCollectionService } from "../MissedCollectionService"
+import { ContractorCommunicationService } from "../ContractorCommunicationService"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6]
+const DAY = "2026-03-10"
+const at = (hours: number, minutes: number = 0) => new Date(2026, 2, 10, hours, minutes)
+
+describe("MissedCollectionService", () => {
+  const store = useMemoryFirestore()
+
+  const check = (now: Date = at(12)) => MissedCollectionService.runCheck({ startDate: DAY, endDate: DAY, now })
+
+  const seedTrip = (id: string, feederPointId: string, endedAt: Date, stage: string = "closed") =>
+    store.seed("tripRecords", id, {
+      driverId: "driver-1",
+      contractorId: "contractor-1",
+      feederPointId,
+      tripNumber: 1,
+      stage,
+      status: stage === "closed" ? "completed" : "in_progress",
+      startTime: at(7),
+      endTime: endedAt,
+      updatedAt: endedAt,
+    })
+
+  beforeEach(() => {
+    const morning = { tripsPerDay: 1, timeWindows: [{ start: "06:00", end: "10:00" }], collectionDays: EVERY_DAY }
+    store.seed("feederPoints", "fp-1", { feederPointName: "Gandhi Chowk", wardNumber: "4", collectionSchedule: morning })
+    store.seed("feederPoints", "fp-2", { feederPointName: "Station Road", wardNumber: "7", collectionSchedule: morning })
+    store.seed("users", "driver-1", { fullName: "Ravi Kumar", role: "driver" })
+    store.seed("users", "contractor-1", { fullName: "Shree Transport", role: "transport_contractor" })
+    store.seed("users", "admin-1", { fullName: "Admin", role: "admin" })
+    store.seed("dailyAssignments", "assignment-1", {
+      driverId: "driver-1",
+      contractorId: "contractor-1",
+      assignmentDate: DAY,
+      feederPointIds: ["fp-1", "fp-2"],
+      status: "active",
+    })
+  })
+
+  it("raises an incident for a point with no completed trip by the end of its window", async () => {
+    seedTrip("trip-1", "fp-1", at(9, 30))
+
+    const result = await check()
+
+    expect(result.due).toBe(2)
+    expect(result.raised.map(incident => incident.feederPointId)).toEqual(["fp-2"])
+    expect(store.read("missedCollections/assignment-1_fp-2")).toMatchObject({
+      assignmentDate: DAY,
+      driverId: "driver-1",
+      driverName: "Ravi Kumar",
+      contractorId: "contractor-1",
+      contractorName: "Shree Transport",
+      wardNumber: "7",
+      status: "open",
+    })
+  })
+
+  it("counts a trip closed after the window or never closed as missed", async () => {
+    seedTrip("trip-1", "fp-1", at(11))
+    seedTrip("trip-2", "fp-2", at(9), "in_progress")
+
+    const result = await check()
+
+    expect(result.raised.map(incident => incident.feederPointId).sort()).toEqual(["fp-1", "fp-2"])
+  })
+
+  it("does not check points whose window has not ended yet", async () => {
+    const result = await check(at(9))
+
+    expect(result.due).toBe(0)
+    expect(store.list("missedCollections")).toHaveLength(0)
+  })
+
+  it("tells the driver and contractor in their thread", async () => {
+    await check()
+
+    const messages = await ContractorCommunicationService.getMessages("driver-1", "contractor-1")
+    expect(messages).toHaveLength(2)
+    expect(messages[0]).toMatchObject({ senderId: "system", messageType: "system", priority: "urgent" })
+    expect(messages.map(message => message.message).join("\n")).toContain("Station Road had no completed trip by 10:00")
+  })
+
+  it("does not raise or message the same incident twice", async () => {
+    await check()
+    await check(at(13))
+
+    expect(store.list("missedCollections")).toHaveLength(2)
+    expect(store.list("messages")).toHaveLength(2)
+  })
+
+  it("raises and messages each incident once when two checks run at the same time", async () => {
+    const [first, second] = await Promise.all([check(), check()])
+
+    expect([...first.raised, ...second.raised].map(incident => incident.id).sort())
+      .toEqual(["assignment-1_fp-1", "assignment-1_fp-2"])
+    expect(store.list("missedCollections")).toHaveLength(2)
+    expect(store.list("messages")).toHaveLength(2)
+  })
+
+  it("escalates and reports each incident to admins once when two checks run at the same time", async () => {
+    store.seed("systemSettings", "current", { missedCollectionEscalationHours: 2 })
+    await check()
+
+    const [first, second] = await Promise.all([check(at(14)), check(at(14))])
+
+    expect([...first.escalated, ...second.escalated].map(incident => incident.id).sort())
+      .toEqual(["assignment-1_fp-1", "assignment-1_fp-2"])
+    const escalatingRuns = [first, second].filter(result => result.escalated.length > 0)
+    expect(store.list("messages").filter(message => message.receiverId === "admin-1")).toHaveLength(escalatingRuns.length)
+  })
+
+  it("escalates incidents left open past the configured delay to admins", async () => {
+    store.seed("systemSettings", "current", { missedCollectionEscalationHours: 2 })
+    await check()
+
+    expect((await check(at(13))).escalated).toHaveLength(0)
+
+    const result = await check(at(14))
+    expect(result.escalated.map(incident => incident.feederPointId).sort()).toEqual(["fp-1", "fp-2"])
+    expect(store.read("missedCollections/assignment-1_fp-1")).toMatchObject({ status: "escalated" })
+    const adminMessages = store.list("messages").filter(message => message.receiverId === "admin-1")
+    expect(adminMessages).toHaveLength(1)
+    expect(adminMessages[0].message).toContain("2 missed collections have not been resolved")
+
+    expect((await check(at(20))).escalated).toHaveLength(0)
+  })
+
+  it("never escalates when the delay is 0", async () => {
+    store.seed("systemSettings", "current", { missedCollectionEscalationHours: 0 })
+    await check()
+
+    expect((await check(at(23))).escalated).toHaveLength(0)
+  })
+
+  it("reports missed rates per contractor and ward", async () => {
+    seedTrip("trip-1", "fp-1", at(9, 30))
+
+    const { rates } = await check()
+
+    expect(rates.contractors).toEqual([
+      { id: "contractor-1", name: "Shree Transport", due: 2, missed: 1, missedRate: 0.5 },
+    ])
+    expect(rates.wards).toEqual([
+      { id: "7", name: "Ward 7", due: 1, missed: 1, missedRate: 1 },
+      { id: "4", name: "Ward 4", due: 1, missed: 0, missedRate: 0 },
+    ])
+  })
+
+  it("only checks one contractor's assignments and trips when asked", async () => {
+    seedTrip("trip-1", "fp-1", at(9, 30))
+    store.seed("dailyAssignments", "assignment-2", {
+      driverId: "driver-2",
+      contractorId: "contractor-2",
+      assignmentDate: DAY,
+      feederPointIds: ["fp-1"],
+      status: "active",
+    })
+
+    const result = await MissedCollectionService.runCheck({ startDate: DAY, endDate: DAY, contractorId: "contractor-2", now: at(12) })
+
+    expect(result.raised.map(incident => incident.id)).toEqual(["assignment-2_fp-1"])
+  })
+
+  it("checks only a driver's own assignments and leaves escalation to other sessions", async () => {
+    store.seed("systemSettings", "current", { missedCollectionEscalationHours: 2 })
+    store.seed("dailyAssignments", "assignment-2", {
+      driverId: "driver-2",
+      contractorId: "contractor-1",
+      assignmentDate: DAY,
+      feederPointIds: ["fp-1"],
+      status: "active",
+    })
+    const driverCheck = (now: Date) => MissedCollectionService.runCheck({ startDate: DAY, endDate: DAY, driverId: "driver-1", now })
+
+    expect((await driverCheck(at(12))).raised.map(incident => incident.id).sort()).toEqual(["assignment-1_fp-1", "assignment-1_fp-2"])
+    expect((await driverCheck(at(14))).escalated).toHaveLength(0)
+    expect(store.read("missedCollections/assignment-1_fp-1")).toMatchObject({ status: "open" })
+    expect(store.list("messages").filter(message => message.receiverId === "admin-1")).toHaveLength(0)
+  })
+
+  it("runs the dashboard check at most once per half hour for a contractor", async () => {
+    store.seed("systemSettings", "current", { missedCollectionEscalationHours: 0 })
+    const background = (now: Date) => MissedCollectionService.runCheckInBackground({ contractorId: "contractor-1" }, now)
+
+    expect((await background(at(12)))?.raised).toHaveLength(2)
+    expect(await background(at(12, 20))).toBeNull()
+    expect(await background(at(12, 40))).toMatchObject({ raised: [] })
+    expect(store.list("missedCollections")).toHaveLength(2)
+  })
+
+  it("resolves an incident with a note, and only once", async () => {
+    await check()
+
+    await expect(MissedCollectionService.resolveIncident("assignment-1_fp-1", "contractor-1", " "))
+      .rejects.toThrow("Say how the missed collection was resolved")
+    await MissedCollectionService.resolveIncident("assignment-1_fp-1", "contractor-1", "Collected at 11:00 after a puncture")
+
+    expect(await MissedCollectionService.getIncidents({ status: "resolved" })).toEqual([
+      expect.objectContaining({ id: "assignment-1_fp-1", resolvedBy: "contractor-1", resolutionNote: "Collected at 11:00 after a puncture" }),
+    ])
+    await expect(MissedCollectionService.resolveIncident("assignment-1_fp-1", "contractor-1", "Again"))
+      .rejects.toThrow("already resolved")
+    expect((await check(at(23))).escalated.map(incident => incident.id)).toEqual(["assignment-1_fp-2"])
+  })
+})
@@ -0,0 +1,147 @@
+import { OfflineQueueService } from "../OfflineQueueService"
+import { TripRecordingService } from "../TripRecordingService"
+import { WorkerAttendanceService } from "../WorkerAttendanceService"
+import { MaintenanceService } from "../MaintenanceService"
+import { flushListeners, useMemoryFirestore } from "./helpers/memoryFirestore"
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+)
+
+const AsyncStorage = require("@react-native-async-storage/async-storage")
+
+describe("OfflineQueueService", () => {
+  const store = useMemoryFirestore()
+  const offline = () => Promise.reject(new Error("Failed to get document because the client is offline."))
+  const morning = new Date("2024-05-01T07:30:00")
+
+  const attendance = (workerId: string, isPresent: boolean) => ({
+    workerId,
+    workerName: `Worker ${workerId}`,
+    driverId: "d1",
+    isPresent,
+    checkInTime: morning,
+    recordedAt: morning,
+  })
+
+  beforeEach(async () => {
+    await AsyncStorage.clear()
+    store.seed("users", "d1", { role: "driver", contractorId: "c1" })
+  })
+
+  it("writes straight through when online", async () => {
+    const result = await OfflineQueueService.markWorkerAttendance(attendance("w1", true))
+
+    expect(result.queued).toBe(false)
+    expect(store.list("workerAttendance")).toHaveLength(1)
+    expect(await OfflineQueueService.getItems()).toEqual([])
+  })
+
+  it("queues attendance offline, keeps the latest mark per worker and replays it with the client time", async () => {
+    const mark = jest.spyOn(WorkerAttendanceService, "markWorkerAttendance").mockImplementation(offline)
+
+    await OfflineQueueService.markWorkerAttendance(attendance("w1", true))
+    await OfflineQueueService.markWorkerAttendance(attendance("w1", false))
+    await OfflineQueueService.markWorkerAttendance(attendance("w2", true))
+
+    const queued = await OfflineQueueService.getItems()
+    expect(queued.map(item => [item.label, item.status])).toEqual([
+      ["Worker w1 marked absent", "pending"],
+      ["Worker w2 marked present", "pending"],
+    ])
+    expect(queued[0].payload).toMatchObject({ checkInTime: morning })
+
+    mark.mockRestore()
+    await OfflineQueueService.flush()
+
+    const records = store.list("workerAttendance").sort((a, b) => a.workerId.localeCompare(b.workerId))
+    expect(records.map(record => [record.workerId, record.status])).toEqual([["w1", "absent"], ["w2", "present"]])
+    expect(records[0].timestamp.toDate()).toEqual(morning)
+    expect((await OfflineQueueService.getItems()).every(item => item.status === "synced")).toBe(true)
+  })
+
+  it("replays a trip started and ended offline as a single completed trip", async () => {
+    const start = jest.spyOn(TripRecordingService, "startTrip").mockImplementation(offline)
+
+    const { trip, queued } = await OfflineQueueService.startTrip({
+      driverId: "d1",
+      vehicleId: "v1",
+      feederPointId: "fp1",
+      tripNumber: 1,
+      contractorId: "c1",
+      startLocation: { latitude: 19.07, longitude: 72.87 },
+      startedAt: morning,
+    })
+    // Queued behind the start even though they would reach the server themselves
+    const steps = []
+    for (const to of ["arrived", "collecting", "departed"] as const) {
+      steps.push(await OfflineQueueService.advanceTrip(trip.id!, to, { actorId: "d1" }))
+    }
+    const end = await OfflineQueueService.endTrip(trip.id!, { wasteWeight: 120, endedAt: new Date(morning.getTime() + 45 * 60000) })
+
+    expect(queued).toBe(true)
+    expect(steps.every(step => step.queued)).toBe(true)
+    expect(end.queued).toBe(true)
+
+    start.mockRestore()
+    await OfflineQueueService.flush()
+    // A replay after a lost acknowledgement must not start or end the trip again
+    await TripRecordingService.startTrip({ driverId: "d1", vehicleId: "v1", feederPointId: "fp1", tripNumber: 1, contractorId: "c1", tripId: trip.id })
+
+    const trips = store.list("tripRecords")
+    expect(trips).toHaveLength(1)
+    expect(trips[0].id).toBe(trip.id)
+    expect(trips[0]).toMatchObject({ stage: "closed", status: "completed", wasteWeight: 120 })
+    expect(trips[0].startTime.toDate()).toEqual(morning)
+    expect(store.list("tripEvents").map(event => event.to)).toEqual(["en_route", "arrived", "collecting", "departed", "unloaded", "closed"])
+  })
+
+  it("surfaces validation errors instead of queueing them", async () => {
+    await expect(OfflineQueueService.endTrip("missing", { wasteWeight: 10 })).rejects.toThrow("Trip not found")
+    expect(await OfflineQueueService.getItems()).toEqual([])
+  })
+
+  it("parks writes the server rejects and carries on with the rest", async () => {
+    const end = jest.spyOn(TripRecordingService, "endTrip").mockImplementation(offline)
+    const mark = jest.spyOn(WorkerAttendanceService, "markWorkerAttendance").mockImplementation(offline)
+    await OfflineQueueService.endTrip("missing", { wasteWeight: 10 })
+    await OfflineQueueService.markWorkerAttendance(attendance("w1", true))
+    end.mockRestore()
+    mark.mockRestore()
+
+    await OfflineQueueService.flush()
+
+    const items = await OfflineQueueService.getItems()
+    expect(items.map(item => item.status)).toEqual(["failed", "synced"])
+    expect(items[0].lastError).toContain("Trip not found")
+
+    await OfflineQueueService.discard(items[0].id)
+    expect(await OfflineQueueService.getItems()).toHaveLength(1)
+  })
+
+  it("holds driver writes during maintenance and replays them once it ends", async () => {
+    store.seed("systemSettings", "current", { maintenanceMode: true })
+    MaintenanceService.start()
+    MaintenanceService.setSessionRole("driver")
+    await flushListeners()
+
+    try {
+      const result = await OfflineQueueService.markWorkerAttendance(attendance("w1", true))
+      await OfflineQueueService.flush()
+
+      expect(result.queued).toBe(true)
+      expect(store.list("workerAttendance")).toHaveLength(0)
+      expect((await OfflineQueueService.getItems())[0].status).toBe("pending")
+
+      store.seed("systemSettings", "current", { maintenanceMode: false })
+      await flushListeners()
+      await OfflineQueueService.flush()
+
+      expect(store.list("workerAttendance")).toHaveLength(1)
+      expect((await OfflineQueueService.getItems())[0].status).toBe("synced")
+    } finally {
+      MaintenanceService.stop()
+      MaintenanceService.setSessionRole(null)
+    }
+  })
+})
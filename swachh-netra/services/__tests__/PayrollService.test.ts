@@ -0,0 +1,129 @@
+import { PayrollService } from "../PayrollService"
+import { LeaveService } from "../LeaveService"
+import { bankTransferFileOf, payslipId } from "../domain"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+describe("PayrollService", () => {
+  const store = useMemoryFirestore()
+
+  const worker = (id: string, fields: object = {}) =>
+    store.seed("workers", id, {
+      fullName: id, isActive: true, createdAt: "2024-01-01T00:00:00.000Z", aadhaarNumber: "123412341234", ...fields,
+    })
+  const mark = (id: string, day: string, status: string, checkIn?: string, checkOut?: string) =>
+    store.seed("workerAttendance", id, {
+      workerId: "w1", workerName: "Sunita Devi", driverId: "d1", status, attendanceDate: day,
+      timestamp: new Date(`${day}T${checkIn || "09:00"}:00`),
+      ...(checkIn ? { checkInTime: new Date(`${day}T${checkIn}:00`) } : {}),
+      ...(checkOut ? { checkOutTime: new Date(`${day}T${checkOut}:00`) } : {}),
+    })
+
+  // Without saved shift policies the standard 09:00-17:00 shift applies with Sunday off
+  beforeEach(async () => {
+    worker("w1", { fullName: "Sunita Devi", category: "Sweeper", employeeId: "EMP-1", bankAccountNumber: "1234567890", ifscCode: "SBIN0001234" })
+    await PayrollService.saveWageRate({ category: "Sweeper", dailyRate: 500, overtimeHourlyRate: 80, deductionPercent: 10 }, "hr-1")
+  })
+
+  it("pays worked days, half days, overtime and approved leave from attendance", async () => {
+    worker("w2", { fullName: "No Category" })
+    worker("w3", { fullName: "Unrated", category: "Loader" })
+    worker("w4", { fullName: "Left Last Year", category: "Sweeper", isActive: false })
+    await LeaveService.saveHoliday("2024-05-01", "Labour Day", "hr-1")
+    mark("a1", "2024-05-01", "absent") // holiday
+    mark("a2", "2024-05-02", "present", "09:00", "19:00") // two hours overtime
+    mark("a3", "2024-05-03", "present", "11:30") // late enough for a half day
+    mark("a4", "2024-05-05", "absent") // weekly off
+    mark("a5", "2024-05-06", "absent")
+    mark("a6", "2024-05-07", "absent") // on leave
+    const leaveId = await LeaveService.applyForLeave({
+      workerId: "w1", workerName: "Sunita Devi", leaveType: "casual", startDate: "2024-05-07", endDate: "2024-05-07", reason: "Fever", appliedBy: "hr-1",
+    })
+    await LeaveService.approveLeave(leaveId, "hr-1")
+
+    const run = await PayrollService.generatePayrollRun("2024-05", "hr-1")
+    const [payslip] = await PayrollService.getPayslips("2024-05")
+
+    expect(payslip).toMatchObject({
+      id: payslipId("2024-05", "w1"),
+      presentDays: 1,
+      halfDays: 1,
+      leaveDays: 1,
+      absentDays: 1,
+      overtimeHours: 2,
+      basePay: 750,
+      overtimePay: 160,
+      leavePay: 500,
+      grossPay: 1410,
+      statutoryDeduction: 141,
+      netPay: 1269,
+    })
+    expect(run).toMatchObject({ status: "draft", workerCount: 1, totalGross: 1410, totalNet: 1269 })
+    expect(run.skippedWorkers).toEqual([
+      { workerId: "w2", workerName: "No Category", reason: "No wage category" },
+      { workerId: "w3", workerName: "Unrated", reason: "No wage rate for Loader" },
+    ])
+  })
+
+  it("keeps manual deductions when the draft is regenerated", async () => {
+    mark("a1", "2024-05-02", "present", "09:00", "17:00")
+    await PayrollService.generatePayrollRun("2024-05", "hr-1")
+    const id = payslipId("2024-05", "w1")
+
+    await expect(PayrollService.addDeduction(id, { label: "Advance", amount: 0 }, "hr-1")).rejects.toThrow("more than zero")
+    await PayrollService.addDeduction(id, { label: "Advance", amount: 100 }, "hr-1")
+    expect(await PayrollService.getPayrollRun("2024-05")).toMatchObject({ totalDeductions: 150, totalNet: 350 })
+
+    mark("a2", "2024-05-03", "present", "09:00", "17:00")
+    await PayrollService.generatePayrollRun("2024-05", "hr-1")
+
+    const [payslip] = await PayrollService.getPayslips("2024-05")
+    expect(payslip.deductions).toEqual([{ label: "Advance", amount: 100 }])
+    expect(payslip).toMatchObject({ grossPay: 1000, totalDeductions: 200, netPay: 800 })
+  })
+
+  it("locks the run once approved", async () => {
+    mark("a1", "2024-05-02", "present", "09:00", "17:00")
+    await PayrollService.generatePayrollRun("2024-05", "hr-1")
+    await PayrollService.approvePayrollRun("2024-05", "admin-1")
+
+    expect(await PayrollService.getPayrollRun("2024-05")).toMatchObject({ status: "approved", approvedBy: "admin-1" })
+    await expect(PayrollService.generatePayrollRun("2024-05", "hr-1")).rejects.toThrow("approved and locked")
+    await expect(PayrollService.addDeduction(payslipId("2024-05", "w1"), { label: "Fine", amount: 50 }, "hr-1"))
+      .rejects.toThrow("approved and locked")
+    await expect(PayrollService.approvePayrollRun("2024-05", "admin-1")).rejects.toThrow("already approved")
+    expect(store.list("auditLog").map(entry => entry.entityType)).toEqual(expect.arrayContaining(["wageRate", "payrollRun"]))
+  })
+
+  it("rejects incomplete wage rates", async () => {
+    await expect(PayrollService.saveWageRate({ category: " ", dailyRate: 500, overtimeHourlyRate: 0, deductionPercent: 0 }, "hr-1"))
+      .rejects.toThrow("Category is required")
+    await expect(PayrollService.saveWageRate({ category: "Loader", dailyRate: 0, overtimeHourlyRate: 0, deductionPercent: 0 }, "hr-1"))
+      .rejects.toThrow("Daily rate")
+    await expect(PayrollService.saveWageRate({ category: "Loader", dailyRate: 400, overtimeHourlyRate: 0, deductionPercent: 120 }, "hr-1"))
+      .rejects.toThrow("between 0 and 100")
+  })
+
+  it("builds the bank transfer file from payable workers with bank details", async () => {
+    mark("a1", "2024-05-02", "present", "09:00", "17:00")
+    worker("w2", { fullName: "Kumar, Ravi", category: "Sweeper", bankAccountNumber: "998877", ifscCode: "HDFC0000001" })
+    worker("w3", { fullName: "Cash Only", category: "Sweeper" })
+    store.seed("workerAttendance", "b1", {
+      workerId: "w2", workerName: "Kumar, Ravi", driverId: "d1", status: "present", attendanceDate: "2024-05-02",
+      timestamp: new Date("2024-05-02T09:00:00"), checkOutTime: new Date("2024-05-02T17:00:00"),
+    })
+    store.seed("workerAttendance", "c1", {
+      workerId: "w3", workerName: "Cash Only", driverId: "d1", status: "present", attendanceDate: "2024-05-02",
+      timestamp: new Date("2024-05-02T09:00:00"), checkOutTime: new Date("2024-05-02T17:00:00"),
+    })
+    await PayrollService.generatePayrollRun("2024-05", "hr-1")
+
+    const { csv, missingBankDetails } = bankTransferFileOf(await PayrollService.getPayslips("2024-05"))
+
+    expect(csv.split("\n")).toEqual([
+      "Employee ID,Beneficiary Name,Account Number,IFSC,Amount,Narration",
+      "w2,\"Kumar, Ravi\",998877,HDFC0000001,450.00,Wages 2024-05",
+      "EMP-1,Sunita Devi,1234567890,SBIN0001234,450.00,Wages 2024-05",
+    ])
+    expect(missingBankDetails.map(payslip => payslip.workerId)).toEqual(["w3"])
+  })
+})
@@ -0,0 +1,122 @@
+import { LocationBasedTripService } from "../LocationBasedTripService"
+import { PhotoStorageService } from "../PhotoStorageService"
+import { TripRecordingService } from "../TripRecordingService"
+import { WorkerAttendanceService } from "../WorkerAttendanceService"
+import { attendanceFromDoc } from "../domain"
+import { MemoryStorage } from "../storage/MemoryStorage"
+import * as storage from "../storage"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+import { useMemoryStorage } from "./helpers/memoryStorage"
+
+// Camera photos are 4000x3000; the manipulator reports whatever size it was resized to
+const mockResize = jest.fn()
+jest.mock("expo-image-manipulator", () => ({
+  SaveFormat: { JPEG: "jpeg" },
+  ImageManipulator: {
+    manipulate: (uri: string) => {
+      let size = { width: 4000, height: 3000 }
+      const context = {
+        resize: (target: { width: number }) => {
+          mockResize(target)
+          size = { width: target.width, height: Math.round(target.width * 0.75) }
+          return context
+        },
+        renderAsync: async () => ({
+          ...size,
+          saveAsync: async () => ({ uri: uri.replace(".jpg", "-small.jpg"), ...size }),
+        }),
+      }
+      return context
+    },
+  },
+}), { virtual: true })
+jest.mock("expo-location", () => ({}))
+
+describe("PhotoStorageService", () => {
+  const store = useMemoryFirestore()
+  const files = useMemoryStorage()
+  const capturedAt = new Date("2024-05-01T07:30:00Z")
+
+  it("downscales photos before uploading them with capture metadata", async () => {
+    const progress: number[] = []
+
+    const photo = await PhotoStorageService.uploadPhoto("file:///cache/photo.jpg", "attendance/d1/1.jpg", {
+      uploadedBy: "d1",
+      capturedAt,
+      location: { latitude: 19.07, longitude: 72.87 },
+      onProgress: fraction => progress.push(fraction),
+    })
+
+    expect(mockResize).toHaveBeenCalledWith({ width: 1280 })
+    expect(photo).toMatchObject({ url: MemoryStorage.urlFor("attendance/d1/1.jpg"), width: 1280, height: 960, uploadedBy: "d1" })
+    expect(files.read("attendance/d1/1.jpg")).toEqual({
+      localUri: "file:///cache/photo-small.jpg",
+      contentType: "image/jpeg",
+      customMetadata: { uploadedBy: "d1", capturedAt: capturedAt.toISOString(), latitude: "19.07", longitude: "72.87" },
+    })
+    expect(progress[progress.length - 1]).toBe(1)
+  })
+
+  it("retries transient upload failures but not permission errors", async () => {
+    const upload = jest.spyOn(storage, "uploadFile")
+      .mockRejectedValueOnce(new Error("Firebase Storage: An unknown error occurred (storage/unknown)"))
+
+    await PhotoStorageService.uploadPhoto("file:///cache/a.jpg", "trips/t1/a.jpg", { uploadedBy: "d1" })
+    expect(upload).toHaveBeenCalledTimes(2)
+
+    upload.mockClear()
+    upload.mockRejectedValueOnce(new Error("User does not have permission (storage/unauthorized)"))
+    await expect(PhotoStorageService.uploadPhoto("file:///cache/b.jpg", "trips/t1/b.jpg", { uploadedBy: "d1" }))
+      .rejects.toThrow("Failed to upload photo: User does not have permission")
+    expect(upload).toHaveBeenCalledTimes(1)
+  })
+
+  it("stores the uploaded attendance photo instead of the device path", async () => {
+    store.seed("users", "d1", { role: "driver" })
+
+    await WorkerAttendanceService.markWorkerAttendance({
+      workerId: "w1",
+      workerName: "Sita",
+      driverId: "d1",
+      isPresent: true,
+      checkInTime: capturedAt,
+      photoUri: "file:///cache/sita.jpg",
+      location: { latitude: 19.07, longitude: 72.87 },
+    })
+
+    const [stored] = store.list("workerAttendance")
+    const record = attendanceFromDoc(stored.id, stored)
+    expect(record.photoUri).toMatch(/^https:\/\/storage\.test\/attendance%2Fd1%2F/)
+    expect(record.photo).toMatchObject({ url: record.photoUri, capturedAt, uploadedBy: "d1", location: { latitude: 19.07, longitude: 72.87 } })
+    expect(files.paths()).toHaveLength(1)
+  })
+
+  it("uploads the photo of a worker marked at the start of a trip", async () => {
+    store.seed("tripRecords", "t1", { driverId: "d1", stage: "arrived", status: "in_progress", workerIds: [] })
+    const location = { latitude: 19.07, longitude: 72.87, timestamp: capturedAt }
+
+    const id = await LocationBasedTripService.recordWorkerAttendance(
+      "t1", "w1", "Sita", "fp-1", "Sector 4", "d1", "Ravi", "present", location, "file:///cache/sita.jpg"
+    )
+
+    const record = attendanceFromDoc(id, store.read(`workerAttendance/${id}`)!)
+    expect(record.photoUri).toMatch(/^https:\/\/storage\.test\/attendance%2Fd1%2F/)
+    expect(record.photo).toMatchObject({ url: record.photoUri, uploadedBy: "d1", location: { latitude: 19.07, longitude: 72.87 } })
+    expect(files.paths()).toHaveLength(1)
+  })
+
+  it("uploads trip photos when the trip ends", async () => {
+    store.seed("tripRecords", "t1", { driverId: "d1", status: "in_progress", startTime: capturedAt })
+
+    await TripRecordingService.endTrip("t1", {
+      wasteWeight: 80,
+      photos: ["file:///cache/before.jpg", { uri: "file:///cache/after.jpg", capturedAt }],
+    })
+
+    const trip = store.read("tripRecords/t1")!
+    expect(trip.photos).toHaveLength(2)
+    expect(trip.photos.every((url: string) => url.startsWith("https://storage.test/trips%2Ft1%2F"))).toBe(true)
+    expect(trip.photoEvidence[1].capturedAt.toDate()).toEqual(capturedAt)
+    expect(files.paths()).toHaveLength(2)
+  })
+})
@@ -0,0 +1,104 @@
+import { ProxyDetectionService } from "../ProxyDetectionService"
+import { attendanceDayKey, differenceHashOf, hashDistance } from "../domain"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+const at = (day: string, time: string) => new Date(`${day}T${time}`)
+
+// Photos named after the hash their pixels would give
+const PHOTO_HASHES: { [url: string]: string } = {
+  "https://photos/crew.jpg": "f0e1d2c3b4a59687",
+  "https://photos/crew-recompressed.jpg": "f0e1d2c3b4a59686",
+  "https://photos/anil.jpg": "0123456789abcdef",
+  "https://photos/sunita.jpg": "fedcba9876543210",
+}
+
+describe("ProxyDetectionService", () => {
+  const store = useMemoryFirestore()
+  let hashPhoto: jest.SpyInstance
+
+  const seedMark = (id: string, fields: Record<string, any>) => store.seed("workerAttendance", id, {
+    driverId: "driver-1",
+    driverName: "Ravi",
+    contractorId: "contractor-1",
+    status: "present",
+    location: { latitude: 28.61, longitude: 77.2 },
+    ...fields,
+    attendanceDate: attendanceDayKey(fields.timestamp),
+  })
+
+  beforeEach(() => {
+    hashPhoto = jest.spyOn(ProxyDetectionService, "hashPhoto").mockImplementation(async url => {
+      if (!PHOTO_HASHES[url]) throw new Error("Photo could not be read")
+      return PHOTO_HASHES[url]
+    })
+    store.seed("users", "contractor-1", { role: "transport_contractor", fullName: "Green Fleet" })
+  })
+
+  it("hashes photos once and groups the same photo used for different workers and days", async () => {
+    seedMark("a1", { workerId: "w1", workerName: "Anil", timestamp: at("2024-05-01", "07:00:00"), photoUri: "https://photos/crew.jpg" })
+    seedMark("a2", { workerId: "w2", workerName: "Sunita", timestamp: at("2024-05-01", "09:00:00"), photoUri: "https://photos/crew-recompressed.jpg" })
+    seedMark("a3", { workerId: "w1", workerName: "Anil", timestamp: at("2024-05-02", "07:00:00"), photoUri: "https://photos/anil.jpg" })
+    seedMark("a4", { workerId: "w2", workerName: "Sunita", timestamp: at("2024-05-02", "07:30:00"), photoUri: "https://photos/sunita.jpg", photoHash: "fedcba9876543210" })
+    seedMark("a5", { workerId: "w3", workerName: "Mohan", timestamp: at("2024-05-02", "08:00:00"), photoUri: "https://photos/missing.jpg" })
+
+    const report = await ProxyDetectionService.runDetection(at("2024-05-01", "00:00:00"), at("2024-05-02", "23:59:59"), "hr-1")
+
+    expect(hashPhoto).toHaveBeenCalledTimes(4)
+    expect(report).toMatchObject({ recordsScanned: 5, photosHashed: 3, photosUnreadable: 1 })
+    expect(store.read("workerAttendance/a1")?.photoHash).toBe("f0e1d2c3b4a59687")
+    expect(report.duplicateGroups).toHaveLength(1)
+    expect(report.duplicateGroups[0].marks.map(mark => mark.recordId)).toEqual(["a1", "a2"])
+
+    expect(await ProxyDetectionService.getLatestReport()).toMatchObject({
+      id: report.id,
+      duplicateGroups: [{ marks: [{ recordId: "a1", workerName: "Anil" }, { recordId: "a2" }] }],
+      drivers: [{ id: "driver-1", name: "Ravi", marks: 5, duplicatePhotoMarks: 2, suspiciousMarks: 2, suspiciousRate: 0.4 }],
+      contractors: [{ id: "contractor-1", name: "Green Fleet", suspiciousMarks: 2 }],
+    })
+  })
+
+  it("flags a crew marked within a minute from one spot but not one spread over the shift", async () => {
+    const crew = ["w1", "w2", "w3", "w4"]
+    crew.forEach((workerId, index) => seedMark(`burst-${workerId}`, {
+      workerId, workerName: workerId, timestamp: at("2024-05-01", `07:00:${String(index * 10).padStart(2, "0")}`),
+    }))
+    crew.forEach((workerId, index) => seedMark(`spread-${workerId}`, {
+      workerId, workerName: workerId, driverId: "driver-2", driverName: "Kiran", timestamp: at("2024-05-01", `07:0${index * 2}:00`),
+    }))
+    // Same minute but at another feeder point, so not one spot
+    seedMark("elsewhere", {
+      workerId: "w5", workerName: "w5", driverId: "driver-3", driverName: "Arun", timestamp: at("2024-05-01", "07:00:00"),
+    })
+    crew.slice(0, 3).forEach((workerId, index) => seedMark(`far-${workerId}`, {
+      workerId, workerName: workerId, driverId: "driver-3", driverName: "Arun", timestamp: at("2024-05-01", `07:00:0${index + 1}`),
+      location: { latitude: 28.62, longitude: 77.2 },
+    }))
+
+    const report = await ProxyDetectionService.runDetection(at("2024-05-01", "00:00:00"), at("2024-05-01", "23:59:59"), "hr-1")
+
+    expect(report.bursts).toHaveLength(1)
+    expect(report.bursts[0]).toMatchObject({ driverId: "driver-1", startedAt: at("2024-05-01", "07:00:00"), endedAt: at("2024-05-01", "07:00:30") })
+    expect(report.drivers.map(row => [row.id, row.burstMarks])).toEqual([["driver-1", 4], ["driver-3", 0], ["driver-2", 0]])
+  })
+
+  it("ignores absent marks and photos that never reached storage", async () => {
+    seedMark("a1", { workerId: "w1", workerName: "Anil", status: "absent", timestamp: at("2024-05-01", "07:00:00"), photoUri: "https://photos/crew.jpg" })
+    seedMark("a2", { workerId: "w2", workerName: "Sunita", timestamp: at("2024-05-01", "07:00:00"), photoUri: "file:///local/crew.jpg" })
+
+    const report = await ProxyDetectionService.runDetection(at("2024-05-01", "00:00:00"), at("2024-05-01", "23:59:59"), "hr-1")
+
+    expect(hashPhoto).not.toHaveBeenCalled()
+    expect(report).toMatchObject({ recordsScanned: 1, photosHashed: 0, duplicateGroups: [] })
+  })
+
+  it("hashes a thumbnail by the brightness steps between neighbouring pixels", () => {
+    const gradient = Array.from({ length: 72 }, (_, index) => 255 - (index % 9) * 20)
+    const lighter = gradient.map(value => Math.min(255, value + 10))
+    const flipped = [...gradient].reverse()
+
+    expect(differenceHashOf(gradient)).toBe("ffffffffffffffff")
+    expect(hashDistance(differenceHashOf(gradient), differenceHashOf(lighter))).toBe(0)
+    expect(hashDistance(differenceHashOf(gradient), differenceHashOf(flipped))).toBe(64)
+    expect(() => differenceHashOf([1, 2, 3])).toThrow("Expected 72 pixels")
+  })
+})
@@ -0,0 +1,165 @@
+import { RosterTemplateService, RosterTemplateInput } from "../RosterTemplateService"
+import { DailyAssignmentService } from "../DailyAssignmentService"
+import { addDaysToAssignmentDate, assignmentDateOf, weekdayOfAssignmentDate } from "../domain"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6]
+const today = assignmentDateOf(new Date())
+const inDays = (days: number) => addDaysToAssignmentDate(today, days)
+
+const weekly = (overrides: Partial<RosterTemplateInput> = {}): RosterTemplateInput => ({
+  driverId: "driver-1",
+  vehicleId: "vehicle-1",
+  feederPointIds: ["fp-1", "fp-2"],
+  daysOfWeek: EVERY_DAY,
+  effectiveFrom: today,
+  isActive: true,
+  ...overrides,
+})
+
+describe("RosterTemplateService", () => {
+  const store = useMemoryFirestore()
+
+  const assignmentOn = (date: string, driverId: string = "driver-1") =>
+    DailyAssignmentService.getDriverAssignmentByDate(driverId, date)
+
+  it("generates the coming week from a template and leaves it alone when nothing changed", async () => {
+    const templateId = await RosterTemplateService.saveTemplate("contractor-1", weekly(), "contractor-1")
+
+    const plans = await RosterTemplateService.generateAssignments("contractor-1", "contractor-1")
+
+    expect(plans.map(plan => plan.action)).toEqual(Array(7).fill("create"))
+    expect(store.list("dailyAssignments")).toHaveLength(7)
+    expect(await assignmentOn(inDays(6))).toMatchObject({
+      contractorId: "contractor-1",
+      feederPointIds: ["fp-1", "fp-2"],
+      vehicleId: "vehicle-1",
+      templateId,
+      isOverride: false,
+    })
+
+    const writes = store.writes
+    const again = await RosterTemplateService.generateAssignments("contractor-1", "contractor-1")
+    expect(again.map(plan => plan.action)).toEqual(["kept", ...Array(6).fill("unchanged")])
+    expect(store.writes).toBe(writes)
+  })
+
+  it("fills in today's assignment when the driver asks for it and nobody generated the roster", async () => {
+    const templateId = await RosterTemplateService.saveTemplate("contractor-1", weekly(), "contractor-1")
+
+    const assignment = await DailyAssignmentService.getTodayAssignment("driver-1")
+
+    expect(assignment).toMatchObject({ assignmentDate: today, contractorId: "contractor-1", feederPointIds: ["fp-1", "fp-2"], templateId })
+    expect(store.read(`dailyAssignments/driver-1_${today}`)).toMatchObject({ assignedBy: "roster" })
+    await DailyAssignmentService.getTodayAssignment("driver-1")
+    expect(store.list("dailyAssignments")).toHaveLength(1)
+    expect(await DailyAssignmentService.getTodayAssignment("driver-2")).toBeNull()
+  })
+
+  it("ends up with one assignment when the driver and contractor generate the same day at once", async () => {
+    await RosterTemplateService.saveTemplate("contractor-1", weekly(), "contractor-1")
+
+    await Promise.all([
+      DailyAssignmentService.getTodayAssignment("driver-1"),
+      RosterTemplateService.generateAssignments("contractor-1", "contractor-1"),
+    ])
+
+    expect(store.list("dailyAssignments").filter(assignment => assignment.assignmentDate === today)).toHaveLength(1)
+  })
+
+  it("only generates the template's days of the week", async () => {
+    await RosterTemplateService.saveTemplate(
+      "contractor-1",
+      weekly({ daysOfWeek: [weekdayOfAssignmentDate(inDays(1))] }),
+      "contractor-1"
+    )
+
+    const plans = await RosterTemplateService.generateAssignments("contractor-1", "contractor-1")
+
+    expect(plans.map(plan => plan.date)).toEqual([inDays(1)])
+  })
+
+  it("keeps a day edited by hand when the template changes", async () => {
+    const templateId = await RosterTemplateService.saveTemplate("contractor-1", weekly(), "contractor-1")
+    await RosterTemplateService.generateAssignments("contractor-1", "contractor-1")
+    await DailyAssignmentService.createOrUpdateAssignment({
+      driverId: "driver-1",
+      contractorId: "contractor-1",
+      assignmentDate: inDays(2),
+      feederPointIds: ["fp-9"],
+    })
+
+    await RosterTemplateService.saveTemplate("contractor-1", weekly({ feederPointIds: ["fp-3"] }), "contractor-1", templateId)
+    const preview = await RosterTemplateService.previewDays("contractor-1")
+    expect(preview.find(plan => plan.date === inDays(2))?.action).toBe("kept")
+    await RosterTemplateService.generateAssignments("contractor-1", "contractor-1")
+
+    expect(await assignmentOn(inDays(2))).toMatchObject({ feederPointIds: ["fp-9"], isOverride: true })
+    expect((await assignmentOn(inDays(3)))?.feederPointIds).toEqual(["fp-3"])
+    // Today is under way, so the template change does not reach it
+    expect((await assignmentOn(today))?.feederPointIds).toEqual(["fp-1", "fp-2"])
+  })
+
+  it("keeps a day's accepted route until the template changes its vehicle or points", async () => {
+    const templateId = await RosterTemplateService.saveTemplate("contractor-1", weekly(), "contractor-1")
+    await RosterTemplateService.generateAssignments("contractor-1", "contractor-1")
+    const generated = store.list("dailyAssignments").find(assignment => assignment.assignmentDate === inDays(2))!
+    const { id, ...fields } = generated
+    const accepted = {
+      ...fields,
+      feederPointIds: ["fp-2", "fp-1"],
+      route: { stopIds: ["fp-2", "fp-1"], distanceMeters: 4000, durationMinutes: 50, lateStopCount: 0, acceptedAt: new Date(), acceptedBy: "contractor-1" },
+    }
+    store.seed("dailyAssignments", id, accepted)
+
+    await RosterTemplateService.saveTemplate("contractor-1", weekly({ effectiveTo: inDays(30) }), "contractor-1", templateId)
+    await RosterTemplateService.generateAssignments("contractor-1", "contractor-1")
+    expect(await assignmentOn(inDays(2))).toMatchObject({
+      feederPointIds: ["fp-2", "fp-1"],
+      route: expect.objectContaining({ stopIds: ["fp-2", "fp-1"] }),
+    })
+
+    await RosterTemplateService.saveTemplate("contractor-1", weekly({ vehicleId: "vehicle-2" }), "contractor-1", templateId)
+    await RosterTemplateService.generateAssignments("contractor-1", "contractor-1")
+    const revehicled = await assignmentOn(inDays(2))
+    expect(revehicled).toMatchObject({ vehicleId: "vehicle-2", feederPointIds: ["fp-1", "fp-2"] })
+    expect(revehicled?.route).toBeUndefined()
+
+    store.seed("dailyAssignments", id, { ...accepted, vehicleId: "vehicle-2" })
+    await RosterTemplateService.saveTemplate("contractor-1", weekly({ vehicleId: "vehicle-2", feederPointIds: ["fp-1", "fp-3"] }), "contractor-1", templateId)
+    await RosterTemplateService.generateAssignments("contractor-1", "contractor-1")
+    const repointed = await assignmentOn(inDays(2))
+    expect(repointed?.feederPointIds).toEqual(["fp-1", "fp-3"])
+    expect(repointed?.route).toBeUndefined()
+  })
+
+  it("removes upcoming generated assignments once their template is gone", async () => {
+    const templateId = await RosterTemplateService.saveTemplate("contractor-1", weekly(), "contractor-1")
+    await RosterTemplateService.generateAssignments("contractor-1", "contractor-1")
+    await DailyAssignmentService.createOrUpdateAssignment({
+      driverId: "driver-1",
+      contractorId: "contractor-1",
+      assignmentDate: inDays(4),
+      feederPointIds: ["fp-1"],
+    })
+
+    await RosterTemplateService.deleteTemplate(templateId, "contractor-1")
+    await RosterTemplateService.generateAssignments("contractor-1", "contractor-1")
+
+    expect(store.list("dailyAssignments").map(assignment => assignment.assignmentDate).sort())
+      .toEqual([today, inDays(4)])
+    expect(store.list("auditLog").map(entry => entry.action)).toEqual(["create", "delete"])
+  })
+
+  it("refuses a template that overlaps another of the driver's", async () => {
+    await RosterTemplateService.saveTemplate("contractor-1", weekly({ daysOfWeek: [1, 2, 3] }), "contractor-1")
+
+    await expect(RosterTemplateService.saveTemplate("contractor-1", weekly({ daysOfWeek: [3, 4] }), "contractor-1"))
+      .rejects.toThrow("This driver already has a template on some of these days")
+    await expect(RosterTemplateService.saveTemplate("contractor-1", weekly({ daysOfWeek: [4, 5] }), "contractor-1"))
+      .resolves.toEqual(expect.any(String))
+    await expect(RosterTemplateService.saveTemplate("contractor-1", weekly({ effectiveTo: inDays(-1) }), "contractor-1"))
+      .rejects.toThrow("End date must not be before the start date")
+    expect(store.list("rosterTemplates")).toHaveLength(2)
+  })
+})
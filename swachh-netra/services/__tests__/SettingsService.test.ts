@@ -0,0 +1,118 @@
+import { SettingsService, SystemSettings } from "../SettingsService"
+import { VehicleService } from "../VehicleService"
+import { FeederPointService } from "../FeederPointService"
+import { DEFAULT_SYSTEM_SETTINGS } from "../domain"
+import { flushListeners, useMemoryFirestore } from "./helpers/memoryFirestore"
+
+describe("SettingsService", () => {
+  const store = useMemoryFirestore()
+
+  it("falls back to defaults until settings are saved", async () => {
+    expect(await SettingsService.getSettings()).toMatchObject(DEFAULT_SYSTEM_SETTINGS)
+  })
+
+  it("persists only changed settings and records them in the history", async () => {
+    await SettingsService.updateSettings({ allowNewRegistrations: false, maxVehiclesPerContractor: 10 }, "admin-1")
+    await SettingsService.updateSettings({ maxVehiclesPerContractor: 3 }, "admin-2")
+    await SettingsService.updateSettings({ maxVehiclesPerContractor: 3 }, "admin-2") // no change, no entry
+
+    expect(store.read("systemSettings/current")).toMatchObject({
+      allowNewRegistrations: false,
+      maxVehiclesPerContractor: 3,
+      updatedBy: "admin-2",
+    })
+
+    const history = await SettingsService.getHistory()
+    expect(history).toHaveLength(2)
+    expect(history.map(change => change.changedBy).sort()).toEqual(["admin-1", "admin-2"])
+    expect(history.find(change => change.changedBy === "admin-1")!.changes).toEqual({
+      allowNewRegistrations: { from: true, to: false },
+    })
+  })
+
+  it("rejects invalid limits", async () => {
+    await expect(SettingsService.updateSettings({ maxFeederPointsPerContractor: -1 }, "admin-1"))
+      .rejects.toThrow("maxFeederPointsPerContractor must be a whole number")
+    expect(store.read("systemSettings/current")).toBeUndefined()
+  })
+
+  it("streams saved settings to subscribers", async () => {
+    const received: SystemSettings[] = []
+    const unsubscribe = SettingsService.subscribe(settings => { received.push(settings) })
+    await flushListeners()
+
+    await SettingsService.updateSettings({ maintenanceMode: true }, "admin-1")
+    await flushListeners()
+    unsubscribe()
+
+    expect(received[0].maintenanceMode).toBe(false)
+    expect(received[received.length - 1].maintenanceMode).toBe(true)
+  })
+
+  it("closes registration for everyone but admins", async () => {
+    await SettingsService.updateSettings({ allowNewRegistrations: false }, "admin-1")
+
+    await expect(SettingsService.assertRegistrationOpen("driver")).rejects.toThrow("New registrations are currently closed")
+    await expect(SettingsService.assertRegistrationOpen("admin")).resolves.toMatchObject({ allowNewRegistrations: false })
+  })
+
+  it("skips approval only for the roles configured to", async () => {
+    const settings = { ...DEFAULT_SYSTEM_SETTINGS, requireApprovalForDrivers: false }
+
+    expect(SettingsService.requiresApproval(settings, "driver")).toBe(false)
+    expect(SettingsService.requiresApproval(settings, "transport_contractor")).toBe(true)
+    expect(SettingsService.requiresApproval(settings, "swachh_hr")).toBe(true)
+  })
+})
+
+describe("per-contractor limits", () => {
+  const store = useMemoryFirestore()
+
+  beforeEach(async () => {
+    await SettingsService.updateSettings({ maxVehiclesPerContractor: 1, maxFeederPointsPerContractor: 2 }, "admin-1")
+  })
+
+  const assignVehicle = (vehicleId: string) => VehicleService.createVehicleAssignment({
+    vehicleId,
+    assignedTo: "contractor-1",
+    assignedBy: "admin",
+    assignmentType: "admin_to_contractor",
+    status: "active",
+  })
+
+  const assignFeederPoint = (feederPointId: string) => FeederPointService.createAssignment({
+    feederPointId,
+    contractorId: "contractor-1",
+    assignedBy: "admin",
+    status: "active",
+  })
+
+  it("rejects vehicle assignments beyond the maximum", async () => {
+    await assignVehicle("vehicle-1")
+
+    await expect(assignVehicle("vehicle-2")).rejects.toThrow("Contractor already has the maximum of 1 vehicles")
+    expect(store.list("vehicleAssignments")).toHaveLength(1)
+  })
+
+  it("rejects feeder point assignments beyond the maximum, ignoring driver assignments", async () => {
+    store.seed("feederPointAssignments", "driver-fp", {
+      feederPointId: "fp-1",
+      contractorId: "contractor-1",
+      driverId: "driver-1",
+      status: "active",
+      assignedAt: new Date(),
+    })
+    await assignFeederPoint("fp-1")
+    await assignFeederPoint("fp-2")
+
+    await expect(assignFeederPoint("fp-3")).rejects.toThrow("maximum of 2 feeder points")
+  })
+
+  it("does not limit contractors when the maximum is 0", async () => {
+    await SettingsService.updateSettings({ maxVehiclesPerContractor: 0 }, "admin-1")
+
+    await assignVehicle("vehicle-1")
+    await assignVehicle("vehicle-2")
+    expect(store.list("vehicleAssignments")).toHaveLength(2)
+  })
+})
@@ -0,0 +1,132 @@
+import { ShiftPolicyService, ShiftPolicyInput } from "../ShiftPolicyService"
+import { WorkerAttendanceService } from "../WorkerAttendanceService"
+import { AuditService } from "../AuditService"
+import { STANDARD_SHIFT_POLICY, evaluateAttendance } from "../domain"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+const morning: ShiftPolicyInput = {
+  name: "Morning",
+  startTime: "06:00",
+  endTime: "14:00",
+  graceMinutes: 10,
+  halfDayLateMinutes: 90,
+  halfDayMinimumHours: 4,
+  weeklyOffs: [0],
+  isDefault: false,
+}
+
+// 2024-05-01 is a Wednesday; times are local
+const at = (time: string, day: string = "2024-05-01") => new Date(`${day}T${time}:00`)
+
+describe("evaluateAttendance", () => {
+  const present = (checkIn: string, checkOut?: string, day?: string) => ({
+    status: "present" as const,
+    timestamp: at(checkIn, day),
+    checkInTime: at(checkIn, day),
+    checkOutTime: checkOut ? at(checkOut, day) : undefined,
+  })
+
+  it("allows the grace period before an arrival counts as late", () => {
+    expect(evaluateAttendance(present("06:10"), morning)).toMatchObject({ late: false, lateMinutes: 10 })
+    expect(evaluateAttendance(present("06:11"), morning)).toMatchObject({ late: true, halfDay: false })
+  })
+
+  it("counts very late arrivals and short days as half days", () => {
+    expect(evaluateAttendance(present("07:30"), morning).halfDay).toBe(true)
+    expect(evaluateAttendance(present("06:00", "09:30"), morning)).toMatchObject({ earlyDeparture: true, halfDay: true })
+    expect(evaluateAttendance(present("06:00", "13:55"), morning)).toMatchObject({ earlyDeparture: false, halfDay: false })
+  })
+
+  it("measures an overnight shift from the evening it started", () => {
+    const night = { ...morning, startTime: "22:00", endTime: "06:00" }
+
+    expect(evaluateAttendance(present("22:05"), night).late).toBe(false)
+    expect(evaluateAttendance(present("00:30", undefined, "2024-05-02"), night)).toMatchObject({ late: true, lateMinutes: 150 })
+  })
+
+  it("flags weekly offs and never marks an absence late", () => {
+    const absentOnSunday = { status: "absent" as const, timestamp: at("10:00", "2024-05-05") }
+    expect(evaluateAttendance(absentOnSunday, morning)).toEqual({
+      weeklyOff: true, late: false, lateMinutes: 0, earlyDeparture: false, halfDay: false, workedMinutes: null, overtimeMinutes: 0,
+    })
+  })
+
+  it("measures worked time and overtime from check-in to check-out", () => {
+    expect(evaluateAttendance(present("05:45", "15:00"), morning)).toMatchObject({ workedMinutes: 555, overtimeMinutes: 75 })
+    expect(evaluateAttendance(present("06:00", "13:00"), morning)).toMatchObject({ workedMinutes: 420, overtimeMinutes: 0 })
+    expect(evaluateAttendance(present("06:00"), morning).workedMinutes).toBeNull()
+  })
+})
+
+describe("ShiftPolicyService", () => {
+  const store = useMemoryFirestore()
+
+  it("rejects invalid policies", async () => {
+    await expect(ShiftPolicyService.savePolicy({ ...morning, startTime: "6am" }, "hr-1"))
+      .rejects.toThrow("Start time must be HH:MM")
+    await expect(ShiftPolicyService.savePolicy({ ...morning, weeklyOffs: [0, 1, 2, 3, 4, 5, 6] }, "hr-1"))
+      .rejects.toThrow("At least one working day is required")
+  })
+
+  it("keeps a single default policy", async () => {
+    const first = await ShiftPolicyService.savePolicy({ ...morning, isDefault: true }, "hr-1")
+    const second = await ShiftPolicyService.savePolicy({ ...morning, name: "Evening", isDefault: true }, "hr-1")
+
+    const defaults = (await ShiftPolicyService.getPolicies()).filter(policy => policy.isDefault)
+    expect(defaults.map(policy => policy.id)).toEqual([second])
+    expect(first).not.toBe(second)
+  })
+
+  it("resolves the worker's policy before the feeder point's and the default", async () => {
+    const workerPolicy = await ShiftPolicyService.savePolicy({ ...morning, name: "Worker" }, "hr-1")
+    const pointPolicy = await ShiftPolicyService.savePolicy({ ...morning, name: "Point" }, "hr-1")
+    await ShiftPolicyService.assignPolicy("worker", "w1", workerPolicy, "hr-1")
+    await ShiftPolicyService.assignPolicy("feederPoint", "fp-1", pointPolicy, "hr-1")
+
+    const policyFor = await ShiftPolicyService.getPolicyResolver()
+    expect(policyFor({ workerId: "w1", feederPointId: "fp-1" }).name).toBe("Worker")
+    expect(policyFor({ workerId: "w2", feederPointId: "fp-1" }).name).toBe("Point")
+    expect(policyFor({ workerId: "w2" })).toBe(STANDARD_SHIFT_POLICY)
+
+    await ShiftPolicyService.deletePolicy(workerPolicy)
+    expect(store.list("shiftAssignments").map(assignment => assignment.targetId)).toEqual(["fp-1"])
+  })
+
+  it("records policy changes in the audit log", async () => {
+    const id = await ShiftPolicyService.savePolicy(morning, "hr-1")
+    await ShiftPolicyService.savePolicy({ ...morning, graceMinutes: 5 }, "hr-1", id)
+
+    const history = await AuditService.getEntityHistory("shiftPolicy", id)
+    const update = history.find(entry => entry.action === "update")
+    expect(update?.changes).toEqual({ graceMinutes: { from: 10, to: 5 } })
+  })
+
+  it("drives the late, early and half-day counts in a worker's profile", async () => {
+    const policyId = await ShiftPolicyService.savePolicy(morning, "hr-1")
+    await ShiftPolicyService.assignPolicy("worker", "w1", policyId, "hr-1")
+    const record = (id: string, day: string, checkIn: string, status = "present", checkOut?: string) =>
+      store.seed("workerAttendance", id, {
+        workerId: "w1", driverId: "d1", status, timestamp: at(checkIn, day), checkInTime: at(checkIn, day),
+        ...(checkOut ? { checkOutTime: at(checkOut, day) } : {}),
+      })
+    record("a1", "2024-05-01", "06:05")
+    record("a2", "2024-05-02", "06:30")
+    record("a3", "2024-05-03", "08:00", "present", "14:00")
+    record("a4", "2024-05-04", "06:00", "present", "12:00")
+    record("a5", "2024-05-05", "06:00", "absent") // Sunday off
+
+    const { statistics } = await WorkerAttendanceService.getWorkerAttendanceProfile("w1", {
+      startDate: at("00:00", "2024-05-01"),
+      endDate: at("23:59", "2024-05-05"),
+    })
+
+    expect(statistics).toMatchObject({
+      totalDays: 4,
+      presentDays: 4,
+      absentDays: 0,
+      lateArrivals: 2,
+      earlyDepartures: 1,
+      halfDays: 1,
+    })
+  })
+})
@@ -0,0 +1,188 @@
+import { TripRecordingService } from "../TripRecordingService"
+import { FeederPointService } from "../FeederPointService"
+import { collectionScheduleFromData, collectionScheduleProblem, nextTripNumberOf, parseTimeWindows, tripTransitionProblem } from "../domain"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+// A time today, so that the trips land in the "today" queries
+const todayAt = (hours: number, minutes: number = 0) => {
+  const date = new Date()
+  date.setHours(hours, minutes, 0, 0)
+  return date
+}
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6]
+
+describe("TripRecordingService", () => {
+  const store = useMemoryFirestore()
+
+  const seedFeederPoint = (collectionSchedule?: Record<string, any>) =>
+    store.seed("feederPoints", "fp-1", { feederPointName: "Gandhi Chowk", isActive: true, ...(collectionSchedule && { collectionSchedule }) })
+
+  const seedTrip = (id: string, tripNumber: number, status: string = "completed") => store.seed("tripRecords", id, {
+    driverId: "driver-1",
+    feederPointId: "fp-1",
+    tripNumber,
+    status,
+    createdAt: todayAt(0, 30),
+  })
+
+  const start = (tripNumber: number, startedAt: Date = todayAt(12)) => TripRecordingService.startTrip({
+    driverId: "driver-1",
+    vehicleId: "vehicle-1",
+    feederPointId: "fp-1",
+    contractorId: "contractor-1",
+    tripNumber,
+    startedAt,
+  })
+
+  it("keeps three trips a day at feeder points without a schedule", async () => {
+    seedFeederPoint()
+    seedTrip("t1", 1)
+    seedTrip("t2", 2)
+    seedTrip("t3", 3)
+
+    await expect(start(4)).rejects.toThrow("Maximum 3 trips per day allowed at this feeder point")
+  })
+
+  it("allows as many trips as the feeder point's schedule sets", async () => {
+    seedFeederPoint({ tripsPerDay: 5, timeWindows: [], collectionDays: EVERY_DAY })
+    ;[1, 2, 3, 4].forEach(tripNumber => seedTrip(`t${tripNumber}`, tripNumber))
+
+    await expect(start(5)).resolves.toMatchObject({ tripNumber: 5, status: "in_progress" })
+    await expect(TripRecordingService.validateTripConstraints("driver-1", "fp-1", 6)).resolves.toEqual({
+      isValid: false,
+      message: "Driver already has an active trip. Please complete it first.",
+    })
+  })
+
+  it("refuses trips on days the feeder point is not collected", async () => {
+    seedFeederPoint({ tripsPerDay: 1, timeWindows: [], collectionDays: [(new Date().getDay() + 1) % 7] })
+
+    await expect(start(1)).rejects.toThrow("No collection is scheduled at this feeder point on")
+    expect((await TripRecordingService.validateTripConstraints("driver-1", "fp-1", 1)).message).toMatch(/^No collection is scheduled/)
+  })
+
+  it("allows trips to start only inside the feeder point's time windows", async () => {
+    seedFeederPoint({ tripsPerDay: 2, timeWindows: [{ start: "06:00", end: "10:00" }, { start: "14:00", end: "18:00" }], collectionDays: EVERY_DAY })
+
+    await expect(start(1, todayAt(12))).rejects.toThrow("can start only between 06:00-10:00, 14:00-18:00")
+    await expect(start(1, todayAt(9, 59))).resolves.toMatchObject({ tripNumber: 1 })
+  })
+
+  describe("trip lifecycle", () => {
+    const at = { latitude: 28.61, longitude: 77.2 }
+    const advance = (tripId: string, ...stages: ("arrived" | "collecting" | "departed" | "aborted")[]) =>
+      stages.reduce<Promise<unknown>>((previous, to) =>
+        previous.then(() => TripRecordingService.advanceTrip(tripId, to, { actorId: "driver-1", location: at })), Promise.resolve())
+
+    beforeEach(() => seedFeederPoint())
+
+    it("walks a trip through its stages and logs who moved it, when and where", async () => {
+      const trip = await start(1)
+      expect(trip).toMatchObject({ stage: "en_route", status: "in_progress" })
+
+      await advance(trip.id!, "arrived", "collecting", "departed")
+      await TripRecordingService.endTrip(trip.id!, { wasteWeight: 80, endLocation: at })
+
+      expect(store.read(`tripRecords/${trip.id}`)).toMatchObject({ stage: "closed", status: "completed" })
+      const events = await TripRecordingService.getTripEvents(trip.id!)
+      expect(events.map(event => [event.from, event.to])).toEqual([
+        [null, "en_route"],
+        ["en_route", "arrived"],
+        ["arrived", "collecting"],
+        ["collecting", "departed"],
+        ["departed", "unloaded"],
+        ["unloaded", "closed"],
+      ])
+      expect(events[1]).toMatchObject({ actorId: "driver-1", location: at })
+      expect(events[4].note).toBe("80kg")
+    })
+
+    it("closes a trip once when it is ended twice at the same time", async () => {
+      const trip = await start(1)
+      await advance(trip.id!, "arrived", "collecting", "departed")
+
+      const results = await Promise.allSettled([
+        TripRecordingService.endTrip(trip.id!, { wasteWeight: 80 }),
+        TripRecordingService.endTrip(trip.id!, { wasteWeight: 90 }),
+      ])
+
+      expect(results.map(result => result.status).sort()).toEqual(["fulfilled", "rejected"])
+      expect(store.list("tripEvents").filter(event => event.to === "closed")).toHaveLength(1)
+    })
+
+    it("ignores a replayed end of the same trip", async () => {
+      const trip = await start(1)
+      await advance(trip.id!, "arrived", "collecting", "departed")
+      const endedAt = new Date()
+
+      await TripRecordingService.endTrip(trip.id!, { wasteWeight: 80, endedAt })
+      await TripRecordingService.endTrip(trip.id!, { wasteWeight: 80, endedAt })
+
+      expect(store.list("tripEvents").filter(event => event.to === "closed")).toHaveLength(1)
+    })
+
+    it("refuses stages out of order and does nothing when asked for the current stage", async () => {
+      const trip = await start(1)
+
+      await expect(advance(trip.id!, "collecting")).rejects.toThrow("A trip cannot go from En Route to Collecting")
+      await advance(trip.id!, "arrived", "arrived", "collecting")
+      await expect(TripRecordingService.endTrip(trip.id!, { wasteWeight: 80 })).rejects.toThrow("Depart from the feeder point before ending the trip")
+
+      expect(store.list("tripEvents")).toHaveLength(3)
+    })
+
+    it("aborts a trip under way so that it no longer counts or blocks the next one", async () => {
+      const trip = await start(1)
+      await advance(trip.id!, "arrived")
+
+      await expect(TripRecordingService.cancelTrip(trip.id!, "driver-1", "Vehicle breakdown")).resolves.toMatchObject({ stage: "aborted", status: "cancelled" })
+      await expect(advance(trip.id!, "collecting")).rejects.toThrow("This trip is already aborted")
+      await expect(start(1)).resolves.toMatchObject({ tripNumber: 1, stage: "en_route" })
+    })
+
+    it("numbers the next trip after trips under way and reuses an aborted trip's number", async () => {
+      const nextTripNumber = async () =>
+        nextTripNumberOf(await TripRecordingService.getTodayTripsForFeederPoint("driver-1", "fp-1"))
+
+      const first = await start(1)
+      expect(await nextTripNumber()).toBe(2)
+
+      await TripRecordingService.cancelTrip(first.id!, "driver-1", "Vehicle breakdown")
+      expect(await nextTripNumber()).toBe(1)
+    })
+
+    it("allows only the transitions in the lifecycle", () => {
+      expect(tripTransitionProblem("planned", "cancelled")).toBeNull()
+      expect(tripTransitionProblem("departed", "unloaded")).toBeNull()
+      expect(tripTransitionProblem("unloaded", "aborted")).toBe("A trip cannot go from Unloaded to Aborted")
+      expect(tripTransitionProblem("closed", "en_route")).toBe("This trip is already closed")
+    })
+  })
+
+  it("saves schedules that pass validation and audits the change", async () => {
+    seedFeederPoint()
+
+    await expect(FeederPointService.updateCollectionSchedule("fp-1", { tripsPerDay: 0, timeWindows: [], collectionDays: EVERY_DAY }, "admin-1"))
+      .rejects.toThrow("Trips per day must be between 1 and 10")
+
+    const schedule = { tripsPerDay: 1, timeWindows: parseTimeWindows("6:00-9:30")!, collectionDays: [1, 3, 5] }
+    await FeederPointService.updateCollectionSchedule("fp-1", schedule, "admin-1")
+
+    expect(store.read("feederPoints/fp-1")?.collectionSchedule).toEqual({ tripsPerDay: 1, timeWindows: [{ start: "06:00", end: "09:30" }], collectionDays: [1, 3, 5] })
+    expect(store.list("auditLog")).toEqual([expect.objectContaining({ entityType: "feederPoint", entityId: "fp-1", actorId: "admin-1" })])
+  })
+
+  it("reads and checks collection schedules", () => {
+    expect(collectionScheduleFromData(undefined)).toEqual({ tripsPerDay: 3, timeWindows: [], collectionDays: EVERY_DAY })
+    expect(collectionScheduleFromData({ tripsPerDay: "4", collectionDays: [1, 9] })).toEqual({ tripsPerDay: 4, timeWindows: [], collectionDays: [1] })
+
+    expect(parseTimeWindows("")).toEqual([])
+    expect(parseTimeWindows("morning")).toBeNull()
+    expect(collectionScheduleProblem({ tripsPerDay: 2, timeWindows: [{ start: "10:00", end: "08:00" }], collectionDays: [1] }))
+      .toBe("Each time window must end after it starts")
+    expect(collectionScheduleProblem({ tripsPerDay: 2, timeWindows: parseTimeWindows("06:00-10:00, 09:00-12:00")!, collectionDays: [1] }))
+      .toBe("Time windows must not overlap")
+    expect(collectionScheduleProblem({ tripsPerDay: 2, timeWindows: [], collectionDays: [] })).toBe("At least one collection day is required")
+  })
+})
@@ -0,0 +1,73 @@
+import { VehicleTrackingService, VehiclePosition } from "../VehicleTrackingService"
+import { VehicleLocation } from "../domain"
+import { flushListeners, useMemoryFirestore } from "./helpers/memoryFirestore"
+
+describe("VehicleTrackingService", () => {
+  const store = useMemoryFirestore()
+  const context = { vehicleId: "v1", driverId: "d1", tripId: "t1" }
+  const start = new Date("2024-05-01T07:00:00Z")
+  const at = (seconds: number) => new Date(start.getTime() + seconds * 1000)
+  // Roughly 111 m per 0.001 degrees of latitude
+  const sample = (seconds: number, latitudeOffset = 0) => ({
+    latitude: 19.07 + latitudeOffset,
+    longitude: 72.87,
+    accuracy: 8,
+    recordedAt: at(seconds),
+  })
+
+  beforeEach(() => {
+    VehicleTrackingService.resetThrottle()
+    store.seed("vehicles", "v1", { vehicleNumber: "MH-01-1234", driverName: "Ravi" })
+  })
+
+  it("throttles writes by time and movement and keeps a breadcrumb trail", async () => {
+    const written = [
+      await VehicleTrackingService.recordLocation(context, sample(0)),
+      await VehicleTrackingService.recordLocation(context, sample(10, 0.001)), // too soon
+      await VehicleTrackingService.recordLocation(context, sample(40, 0.001)), // moved 111 m
+      await VehicleTrackingService.recordLocation(context, sample(80, 0.001)), // parked
+      await VehicleTrackingService.recordLocation(context, sample(170, 0.001)), // still online
+    ]
+
+    expect(written).toEqual([true, false, true, false, true])
+
+    const vehicle = store.read("vehicles/v1")!
+    expect(vehicle.location).toMatchObject({ latitude: 19.071, longitude: 72.87, accuracy: 8, driverId: "d1", tripId: "t1" })
+    expect(vehicle.location.timestamp.toDate()).toEqual(at(170))
+
+    const trail = await VehicleTrackingService.getTripBreadcrumbs("t1")
+    expect(trail.map(point => point.recordedAt)).toEqual([at(0), at(40), at(170)])
+  })
+
+  it("only updates the latest position outside a trip", async () => {
+    await VehicleTrackingService.recordLocation({ vehicleId: "v1", driverId: "d1" }, sample(0))
+
+    expect(store.read("vehicles/v1")!.location.tripId).toBeNull()
+    expect(store.list("tripBreadcrumbs")).toHaveLength(0)
+  })
+
+  it("does not throttle the next sample after a failed write", async () => {
+    expect(await VehicleTrackingService.recordLocation({ ...context, vehicleId: "missing" }, sample(0))).toBe(false)
+    store.seed("vehicles", "missing", { vehicleNumber: "MH-01-9999" })
+    expect(await VehicleTrackingService.recordLocation({ ...context, vehicleId: "missing" }, sample(5))).toBe(true)
+  })
+
+  it("streams live positions to subscribers", async () => {
+    const locations: (VehicleLocation | null)[] = []
+    const fleets: VehiclePosition[][] = []
+    const stopVehicle = VehicleTrackingService.subscribeToVehicleLocation("v1", location => { locations.push(location) })
+    const stopFleet = VehicleTrackingService.subscribeToVehiclePositions(["v1"], positions => { fleets.push(positions) })
+    await flushListeners()
+
+    await VehicleTrackingService.recordLocation(context, sample(0))
+    await flushListeners()
+    stopVehicle()
+    stopFleet()
+
+    expect(locations[0]).toBeNull()
+    expect(locations[1]).toMatchObject({ latitude: 19.07, tripId: "t1", timestamp: at(0) })
+    expect(fleets[fleets.length - 1]).toMatchObject([{ vehicleId: "v1", vehicleNumber: "MH-01-1234", driverName: "Ravi" }])
+    expect(VehicleTrackingService.isStale(locations[1]!, at(5 * 60))).toBe(false)
+    expect(VehicleTrackingService.isStale(locations[1]!, at(15 * 60))).toBe(true)
+  })
+})
@@ -0,0 +1,284 @@
+import { LocationBasedTripService } from "../LocationBasedTripService"
+import { WorkerAttendanceService } from "../WorkerAttendanceService"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+jest.mock("expo-location", () => ({}))
+
+describe("WorkerAttendanceService", () => {
+  const store = useMemoryFirestore()
+
+  beforeEach(() => {
+    store.seed("users", "driver-1", { role: "driver", fullName: "Ravi", contractorId: "contractor-1" })
+  })
+
+  describe("markWorkerAttendance", () => {
+    it("creates one record per worker per day and updates it on re-mark", async () => {
+      const mark = (isPresent: boolean) => WorkerAttendanceService.markWorkerAttendance({
+        workerId: "worker-1",
+        workerName: "Sunita Devi",
+        driverId: "driver-1",
+        isPresent,
+        checkInTime: new Date(),
+      })
+
+      await mark(true)
+      await mark(false)
+
+      const records = store.list("workerAttendance")
+      expect(records).toHaveLength(1)
+      expect(records[0]).toMatchObject({ workerId: "worker-1", contractorId: "contractor-1", status: "absent", tripId: null })
+      expect(records[0].isPresent).toBeUndefined()
+    })
+
+    it("finds a reconciled legacy record for the same day instead of adding one", async () => {
+      const recordedAt = new Date("2024-05-01T09:00:00")
+      store.seed("workerAttendance", "legacy-1", {
+        workerId: "worker-1", driverId: "driver-1", isPresent: false, status: "absent",
+        timestamp: new Date("2024-05-01T07:00:00"), attendanceDate: "2024-05-01",
+      })
+
+      await WorkerAttendanceService.markWorkerAttendance({
+        workerId: "worker-1", workerName: "Sunita Devi", driverId: "driver-1",
+        isPresent: true, checkInTime: recordedAt, recordedAt,
+      })
+
+      expect(store.list("workerAttendance")).toEqual([expect.objectContaining({ id: "legacy-1", status: "present" })])
+    })
+
+    it("stores missing optional fields as null rather than undefined", async () => {
+      await WorkerAttendanceService.markWorkerAttendance({
+        workerId: "worker-1",
+        workerName: "Sunita Devi",
+        driverId: "driver-1",
+        isPresent: true,
+        checkInTime: new Date(),
+      })
+
+      expect(store.list("workerAttendance")[0]).toMatchObject({ vehicleId: null, photoUri: null, location: null, notes: "" })
+    })
+  })
+
+  describe("trip attendance", () => {
+    const location = { latitude: 28.61, longitude: 77.2, timestamp: new Date() }
+    const record = (status: "present" | "absent") => LocationBasedTripService.recordWorkerAttendance(
+      "trip-1", "worker-1", "Sunita Devi", "fp-1", "Sector 4", "driver-1", "Ravi", status, location
+    )
+
+    beforeEach(() => {
+      store.seed("tripRecords", "trip-1", { driverId: "driver-1", stage: "arrived", status: "in_progress", workerIds: [] })
+    })
+
+    it("writes the same record format as the daily flow", async () => {
+      const id = await record("present")
+
+      expect(store.read(`workerAttendance/${id}`)).toMatchObject({
+        workerId: "worker-1",
+        tripId: "trip-1",
+        feederPointId: "fp-1",
+        status: "present",
+        location: { latitude: 28.61, longitude: 77.2 },
+        photoUri: null,
+        notes: "",
+      })
+    })
+
+    it("keeps one record per worker and trip and takes a worker re-marked absent off the trip", async () => {
+      const first = await record("present")
+      expect(store.read("tripRecords/trip-1")?.workerIds).toEqual(["worker-1"])
+
+      const second = await record("absent")
+
+      expect(second).toBe(first)
+      expect(store.list("workerAttendance")).toHaveLength(1)
+      expect(store.read("tripRecords/trip-1")?.workerIds).toEqual([])
+    })
+
+    it("keeps trip marks separate from the worker's daily mark", async () => {
+      await record("present")
+      await WorkerAttendanceService.markWorkerAttendance({
+        workerId: "worker-1", workerName: "Sunita Devi", driverId: "driver-1", isPresent: true, checkInTime: new Date(),
+      })
+
+      expect(store.list("workerAttendance").map(r => r.tripId).sort()).toEqual([null, "trip-1"])
+    })
+  })
+
+  describe("recordCheckOut", () => {
+    const seed = (id: string, fields: Record<string, any>) => store.seed("workerAttendance", id, {
+      workerId: "worker-1", workerName: "Sunita Devi", driverId: "driver-1", status: "present", tripId: null, ...fields,
+    })
+
+    it("checks out the day's record with the location and keeps it when the worker is marked again", async () => {
+      const checkInTime = new Date("2024-05-01T06:00:00")
+      seed("a1", { timestamp: checkInTime, checkInTime, attendanceDate: "2024-05-01" })
+      seed("a2", { timestamp: new Date("2024-05-01T10:00:00"), attendanceDate: "2024-05-01", tripId: "trip-1" })
+
+      await WorkerAttendanceService.recordCheckOut({
+        driverId: "driver-1",
+        workerId: "worker-1",
+        checkOutTime: new Date("2024-05-01T14:30:00"),
+        location: { latitude: 28.61, longitude: 77.2 },
+      })
+      await WorkerAttendanceService.markWorkerAttendance({
+        workerId: "worker-1", workerName: "Sunita Devi", driverId: "driver-1",
+        isPresent: true, checkInTime, recordedAt: checkInTime,
+      })
+
+      const day = store.read("workerAttendance/a1")!
+      expect(day.checkOutTime.toDate()).toEqual(new Date("2024-05-01T14:30:00"))
+      expect(day.checkOutLocation).toEqual({ latitude: 28.61, longitude: 77.2 })
+      expect(store.read("workerAttendance/a2")!.checkOutTime).toBeUndefined()
+    })
+
+    it("closes the previous day's open record for a check-out after midnight", async () => {
+      seed("night", { timestamp: new Date("2024-05-01T22:00:00"), attendanceDate: "2024-05-01" })
+
+      await WorkerAttendanceService.recordCheckOut({
+        driverId: "driver-1", workerId: "worker-1", checkOutTime: new Date("2024-05-02T06:00:00"),
+      })
+
+      expect(store.read("workerAttendance/night")!.checkOutTime.toDate()).toEqual(new Date("2024-05-02T06:00:00"))
+    })
+
+    it("rejects a check-out for an absent worker or one before check-in", async () => {
+      seed("a1", { timestamp: new Date("2024-05-01T06:00:00"), attendanceDate: "2024-05-01" })
+      seed("b1", { workerId: "worker-2", workerName: "Meena", status: "absent", timestamp: new Date("2024-05-01T06:00:00"), attendanceDate: "2024-05-01" })
+
+      await expect(WorkerAttendanceService.recordCheckOut({
+        driverId: "driver-1", workerId: "worker-1", checkOutTime: new Date("2024-05-01T05:00:00"),
+      })).rejects.toThrow("before their check-in")
+      await expect(WorkerAttendanceService.recordCheckOut({
+        driverId: "driver-1", workerId: "worker-2", checkOutTime: new Date("2024-05-01T14:00:00"),
+      })).rejects.toThrow("Meena is not marked present")
+    })
+
+    it("checks out every worker still present on a trip", async () => {
+      const timestamp = new Date("2024-05-01T06:00:00")
+      seed("t1", { tripId: "trip-1", timestamp, attendanceDate: "2024-05-01" })
+      seed("t2", { tripId: "trip-1", workerId: "worker-2", timestamp, attendanceDate: "2024-05-01" })
+      seed("t3", { tripId: "trip-1", workerId: "worker-3", status: "absent", timestamp, attendanceDate: "2024-05-01" })
+
+      const count = await WorkerAttendanceService.recordCheckOut({
+        driverId: "driver-1", tripId: "trip-1", checkOutTime: new Date("2024-05-01T09:00:00"),
+      })
+
+      expect(count).toBe(2)
+      expect(store.list("workerAttendance").filter(r => r.checkOutTime).map(r => r.id).sort()).toEqual(["t1", "t2"])
+    })
+
+    it("adds up worked hours and overtime once per day across trip records", async () => {
+      const at = (time: string) => new Date(`2024-05-01T${time}:00`)
+      seed("t1", { tripId: "trip-1", timestamp: at("08:00"), checkInTime: at("08:00"), checkOutTime: at("12:00"), attendanceDate: "2024-05-01" })
+      seed("t2", { tripId: "trip-2", timestamp: at("13:00"), checkInTime: at("13:00"), checkOutTime: at("18:30"), attendanceDate: "2024-05-01" })
+
+      const { statistics, workedDays } = await WorkerAttendanceService.getWorkerAttendanceProfile("worker-1", {
+        startDate: at("00:00"),
+        endDate: at("23:59"),
+      })
+
+      // Standard 09:00-17:00 shift: 08:00 to 18:30 is 10.5 hours, 2.5 of them overtime
+      expect(statistics).toMatchObject({ totalDays: 1, presentDays: 1, totalWorkedHours: 10.5, averageWorkedHours: 10.5, overtimeHours: 2.5 })
+      expect(workedDays).toEqual([expect.objectContaining({ attendanceDate: "2024-05-01", workedMinutes: 630, overtimeMinutes: 150 })])
+    })
+  })
+
+  describe("reconcileAttendanceRecords", () => {
+    beforeEach(() => {
+      // A driver mark from before trip attendance existed, and the same mark replayed twice
+      store.seed("workerAttendance", "old-1", {
+        workerId: "worker-1", driverId: "driver-1", isPresent: true, date: new Date("2024-05-01T08:00:00"),
+      })
+      store.seed("workerAttendance", "old-2", {
+        workerId: "worker-2", driverId: "driver-1", isPresent: false, date: new Date("2024-05-01T08:00:00"),
+        updatedAt: new Date("2024-05-01T08:00:00"),
+      })
+      store.seed("workerAttendance", "old-3", {
+        workerId: "worker-2", driverId: "driver-1", isPresent: true, date: new Date("2024-05-01T08:05:00"),
+        updatedAt: new Date("2024-05-01T08:05:00"),
+      })
+    })
+
+    it("reports without writing on a dry run", async () => {
+      const report = await WorkerAttendanceService.reconcileAttendanceRecords({ dryRun: true })
+
+      expect(report).toEqual({ scanned: 3, rewritten: 2, duplicatesArchived: 1 })
+      expect(store.read("workerAttendance/old-1")!.status).toBeUndefined()
+      expect(store.list("workerAttendanceDuplicates")).toHaveLength(0)
+    })
+
+    it("rewrites legacy records so timestamp queries count them, keeping the latest duplicate", async () => {
+      await WorkerAttendanceService.reconcileAttendanceRecords()
+
+      expect(store.read("workerAttendance/old-1")).toMatchObject({ status: "present", attendanceDate: "2024-05-01" })
+      expect(store.read("workerAttendance/old-3")).toMatchObject({ status: "present", attendanceDate: "2024-05-01" })
+      expect(store.list("workerAttendanceDuplicates")).toEqual([
+        expect.objectContaining({ id: "old-2", duplicateOf: "old-3", isPresent: false }),
+      ])
+
+      const stats = await WorkerAttendanceService.getAttendanceStatisticsForHRAndAdmin(
+        "admin", new Date("2024-05-01T00:00:00"), new Date("2024-05-02T00:00:00")
+      )
+      expect(stats).toMatchObject({ totalRecords: 2, presentCount: 2 })
+    })
+
+    it("has nothing left to do on a second run", async () => {
+      await WorkerAttendanceService.reconcileAttendanceRecords()
+
+      expect(await WorkerAttendanceService.reconcileAttendanceRecords())
+        .toEqual({ scanned: 2, rewritten: 0, duplicatesArchived: 0 })
+    })
+  })
+
+  describe("HR and admin access", () => {
+    beforeEach(() => {
+      store.seed("workerAttendance", "a1", {
+        workerId: "worker-1", workerName: "Sunita Devi", driverId: "driver-1",
+        status: "present", timestamp: new Date("2024-05-01T08:00:00Z"),
+      })
+      store.seed("workerAttendance", "a2", {
+        workerId: "worker-2", workerName: "Amit Singh", driverId: "driver-1",
+        status: "absent", timestamp: new Date("2024-05-02T08:00:00Z"),
+      })
+    })
+
+    it("rejects roles other than admin and HR", async () => {
+      await expect(WorkerAttendanceService.getAttendanceForHRAndAdmin("driver"))
+        .rejects.toThrow("Insufficient permissions")
+    })
+
+    it("returns records newest first for HR", async () => {
+      const records = await WorkerAttendanceService.getAttendanceForHRAndAdmin("swachh_hr")
+      expect(records.map(r => r.id)).toEqual(["a2", "a1"])
+    })
+
+    it("filters by date range and employee name", async () => {
+      const byDate = await WorkerAttendanceService.getAttendanceForHRAndAdmin(
+        "admin",
+        new Date("2024-05-02T00:00:00Z"),
+        new Date("2024-05-03T00:00:00Z")
+      )
+      const byName = await WorkerAttendanceService.getAttendanceForHRAndAdmin("admin", undefined, undefined, "Sun")
+
+      expect(byDate.map(r => r.id)).toEqual(["a2"])
+      expect(byName.map(r => r.id)).toEqual(["a1"])
+    })
+
+    it("updates a single record and bulk updates status", async () => {
+      await WorkerAttendanceService.updateAttendanceRecord("a1", { status: "absent", notes: "Left early" })
+      expect(store.read("workerAttendance/a1")).toMatchObject({ status: "absent", notes: "Left early" })
+
+      await WorkerAttendanceService.bulkUpdateAttendanceStatus(["a1", "a2"], "present")
+      expect(store.list("workerAttendance").map(r => r.status)).toEqual(["present", "present"])
+    })
+
+    it("computes HR statistics from the status field", async () => {
+      const stats = await WorkerAttendanceService.getAttendanceStatisticsForHRAndAdmin(
+        "swachh_hr",
+        new Date("2024-05-01T00:00:00Z"),
+        new Date("2024-05-03T00:00:00Z")
+      )
+
+      expect(stats).toMatchObject({ totalRecords: 2, presentCount: 1, absentCount: 1, attendanceRate: 50 })
+    })
+  })
+})
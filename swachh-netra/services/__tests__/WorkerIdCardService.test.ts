@@ -0,0 +1,160 @@
+import { WorkerIdCardService } from "../WorkerIdCardService"
+import { DailyAssignmentService } from "../DailyAssignmentService"
+import { WorkerData } from "../WorkerService"
+import { idCardPayloadOf, parseIdCardPayload } from "../domain"
+import { useMemoryFirestore } from "./helpers/memoryFirestore"
+
+const mockShareAsync = jest.fn()
+const mockPrintToFileAsync = jest.fn()
+
+jest.mock("expo-crypto", () => {
+  const nodeCrypto = jest.requireActual("crypto")
+  return {
+    CryptoDigestAlgorithm: { SHA256: "SHA-256" },
+    getRandomBytes: (count: number) => new Uint8Array(nodeCrypto.randomBytes(count)),
+    digestStringAsync: async (_algorithm: string, value: string) =>
+      nodeCrypto.createHash("sha256").update(value).digest("hex"),
+  }
+})
+jest.mock("expo-sharing", () => ({
+  isAvailableAsync: async () => true,
+  shareAsync: (...args: any[]) => mockShareAsync(...args),
+}))
+jest.mock("expo-print", () => ({
+  printToFileAsync: (...args: any[]) => mockPrintToFileAsync(...args),
+}))
+
+const worker = (id: string, fields: Partial<WorkerData> = {}): WorkerData => ({
+  id,
+  fullName: `Worker ${id}`,
+  email: `${id}@example.com`,
+  phoneNumber: "9999999999",
+  aadhaarNumber: "1234 5678 9012",
+  employeeId: `EMP-${id}`,
+  zone: "North",
+  ward: "12",
+  kothiName: "",
+  feederPoint: "Gandhi Chowk",
+  shiftTiming: "06:00-14:00",
+  isActive: true,
+  createdAt: "2024-05-01T00:00:00.000Z",
+  updatedAt: "2024-05-01T00:00:00.000Z",
+  createdBy: "hr-1",
+  ...fields,
+} as WorkerData)
+
+describe("WorkerIdCardService", () => {
+  const store = useMemoryFirestore()
+
+  const issue = async (data: WorkerData, reissue = false) => {
+    const [card] = await WorkerIdCardService.issueCards([data], "hr-1", reissue)
+    return card
+  }
+
+  beforeEach(() => {
+    mockShareAsync.mockReset()
+    mockPrintToFileAsync.mockReset().mockResolvedValue({ uri: "file:///cache/cards.pdf" })
+    jest.spyOn(DailyAssignmentService, "getTodayAssignment").mockResolvedValue(null)
+    store.seed("feederPointAssignments", "fpa-1", { driverId: "driver-1", feederPointId: "fp-1", status: "active" })
+    store.seed("workerAssignments", "wa-1", { workerId: "w1", feederPointId: "fp-1", feederPointName: "Gandhi Chowk", status: "active" })
+    store.seed("workerAssignments", "wa-2", { workerId: "w2", feederPointId: "fp-2", status: "active" })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("issues a first card and keeps its serial until a reissue is asked for", async () => {
+    store.seed("workers", "w1", worker("w1"))
+
+    const first = await issue(worker("w1"))
+    expect(first).toMatchObject({ workerId: "w1", serial: 1, maskedAadhaar: "XXXX XXXX 9012" })
+    expect(store.read("workers/w1")).toMatchObject({ idCardSerial: 1, idCardSignatureHash: expect.stringMatching(/^[0-9a-f]{64}$/), updatedBy: "hr-1" })
+
+    const reprint = await issue(worker("w1", { idCardSerial: 1 }))
+    expect(reprint.payload).toBe(first.payload)
+
+    const replacement = await issue(worker("w1", { idCardSerial: 1 }), true)
+    expect(replacement.serial).toBe(2)
+    expect(store.list("auditLog").map(entry => [entry.entityType, entry.action, entry.summary])).toEqual([
+      ["workerIdCard", "create", "ID card 1 issued to Worker w1"],
+      ["workerIdCard", "update", "ID card 2 issued to Worker w1"],
+    ])
+  })
+
+  it("accepts the current card of a worker on the driver's feeder point without reading the signing key", async () => {
+    store.seed("workers", "w1", worker("w1"))
+    const card = await issue(worker("w1"))
+    // Drivers never read the key, so a scan does not depend on it
+    store.seed("idCardKeys", "current", { key: "not-the-signing-key" })
+
+    await expect(WorkerIdCardService.verifyCard(card.payload, "driver-1")).resolves.toEqual({
+      workerId: "w1",
+      workerName: "Worker w1",
+      feederPointId: "fp-1",
+      feederPointName: "Gandhi Chowk",
+    })
+  })
+
+  it("refuses codes that are not cards, forged cards and cards that were replaced", async () => {
+    store.seed("workers", "w1", worker("w1"))
+    store.seed("workers", "w2", worker("w2"))
+    const first = await issue(worker("w1"))
+    await issue(worker("w2"))
+    await issue(worker("w1", { idCardSerial: 1 }), true)
+
+    const forged = idCardPayloadOf({ ...parseIdCardPayload(first.payload)!, workerId: "w2" })
+
+    await expect(WorkerIdCardService.verifyCard("https://example.com", "driver-1")).rejects.toThrow("This is not a worker ID card")
+    await expect(WorkerIdCardService.verifyCard(forged, "driver-1")).rejects.toThrow("This card is not genuine")
+    await expect(WorkerIdCardService.verifyCard(first.payload, "driver-1")).rejects.toThrow("replaced by a newer card for Worker w1")
+  })
+
+  it("keeps the first signing key when two HR users issue cards at the same time", async () => {
+    store.seed("workers", "w1", worker("w1"))
+    store.seed("workers", "w3", worker("w3"))
+    store.seed("workerAssignments", "wa-3", { workerId: "w3", feederPointId: "fp-1", status: "active" })
+
+    const [[first], [second]] = await Promise.all([
+      WorkerIdCardService.issueCards([worker("w1")], "hr-1"),
+      WorkerIdCardService.issueCards([worker("w3")], "hr-2"),
+    ])
+
+    const reprints = await WorkerIdCardService.issueCards([worker("w1", { idCardSerial: 1 }), worker("w3", { idCardSerial: 1 })], "hr-1")
+    expect(reprints.map(card => card.payload)).toEqual([first.payload, second.payload])
+    await expect(WorkerIdCardService.verifyCard(second.payload, "driver-1")).resolves.toMatchObject({ workerId: "w3" })
+  })
+
+  it("asks for cards printed before scans were checked by hash to be printed again", async () => {
+    store.seed("workers", "w1", worker("w1"))
+    const card = await issue(worker("w1"))
+    store.seed("workers", "w1", worker("w1", { idCardSerial: 1 }))
+
+    await expect(WorkerIdCardService.verifyCard(card.payload, "driver-1")).rejects.toThrow("Worker w1's card must be printed again")
+    await issue(worker("w1", { idCardSerial: 1 }))
+    await expect(WorkerIdCardService.verifyCard(card.payload, "driver-1")).resolves.toMatchObject({ workerId: "w1" })
+  })
+
+  it("refuses workers assigned elsewhere unless today's assignment covers their feeder point", async () => {
+    store.seed("workers", "w2", worker("w2"))
+    const card = await issue(worker("w2"))
+
+    await expect(WorkerIdCardService.verifyCard(card.payload, "driver-1")).rejects.toThrow("Worker w2 is not assigned to your feeder points")
+
+    jest.spyOn(DailyAssignmentService, "getTodayAssignment").mockResolvedValue({ status: "active", feederPointIds: ["fp-2"] } as any)
+    await expect(WorkerIdCardService.verifyCard(card.payload, "driver-1")).resolves.toMatchObject({ workerId: "w2", feederPointId: "fp-2" })
+  })
+
+  it("prints the cards with a QR code and the masked Aadhaar number", async () => {
+    store.seed("workers", "w1", worker("w1"))
+    const card = await issue(worker("w1"))
+
+    await WorkerIdCardService.printCards([card])
+
+    const { html } = mockPrintToFileAsync.mock.calls[0][0]
+    expect(html).toContain("<svg")
+    expect(html).toContain("XXXX XXXX 9012")
+    expect(html).not.toContain("1234 5678")
+    expect(mockShareAsync).toHaveBeenCalledWith("file:///cache/cards.pdf", expect.objectContaining({ mimeType: "application/pdf" }))
+  })
+})
@@ -0,0 +1,56 @@
+import { MemoryTimestamp } from "../firestore/MemoryFirestore"
+import {
+  attendanceFromDoc,
+  feederPointFromDoc,
+  toDate,
+  tripFromDoc,
+  userFromDoc,
+  vehicleAssignmentFromDoc,
+} from "../domain"
+
+describe("domain converters", () => {
+  const may1 = new Date("2024-05-01T08:00:00Z")
+
+  it("accepts Timestamps, Dates, ISO strings and epoch millis as dates", () => {
+    expect(toDate(MemoryTimestamp.fromDate(may1))).toEqual(may1)
+    expect(toDate(may1)).toEqual(may1)
+    expect(toDate(may1.toISOString())).toEqual(may1)
+    expect(toDate(may1.getTime())).toEqual(may1)
+    expect(toDate("not a date", may1)).toBe(may1)
+  })
+
+  it("normalises legacy user fields", () => {
+    const user = userFromDoc("u1", { name: "Ravi", phone: "+91 90000 00000", role: "superuser", createdAt: may1.toISOString() })
+
+    expect(user).toMatchObject({ id: "u1", fullName: "Ravi", phoneNumber: "+91 90000 00000", role: "driver", isActive: true })
+    expect(user.createdAt).toEqual(may1)
+  })
+
+  it("reads feeder point coordinates from either field name", () => {
+    const current = feederPointFromDoc("fp1", { coordinates: { latitude: 19.07, longitude: 72.87 } })
+    const legacy = feederPointFromDoc("fp2", { gpsCoordinates: { latitude: "19.07", longitude: "72.87" } })
+
+    expect(current.coordinates).toEqual({ latitude: 19.07, longitude: 72.87 })
+    expect(legacy.coordinates).toEqual({ latitude: 19.07, longitude: 72.87 })
+  })
+
+  it("maps both attendance record formats onto status and timestamp", () => {
+    const driverMark = attendanceFromDoc("a1", { workerId: "w1", isPresent: true, date: MemoryTimestamp.fromDate(may1) })
+    const tripMark = attendanceFromDoc("a2", { workerId: "w1", status: "absent", timestamp: may1, isPresent: true })
+
+    expect(driverMark).toMatchObject({ status: "present", timestamp: may1 })
+    expect(tripMark).toMatchObject({ status: "absent", timestamp: may1 })
+  })
+
+  it("defaults unknown trip statuses and missing arrays", () => {
+    const trip = tripFromDoc("t1", { driverId: "d1", status: "finished", tripNumber: "2" })
+
+    expect(trip).toMatchObject({ id: "t1", status: "pending", tripNumber: 2, photos: [], workerIds: [] })
+  })
+
+  it("fills assignee and type on contractor-to-driver vehicle assignments written without them", () => {
+    const assignment = vehicleAssignmentFromDoc("va1", { vehicleId: "v1", driverId: "d1", contractorId: "c1", status: "active" })
+
+    expect(assignment).toMatchObject({ assignedTo: "d1", assignmentType: "contractor_to_driver", status: "active" })
+  })
+})
@@ -0,0 +1,26 @@
+import { resetFirestoreBackend, setFirestoreBackend } from "../../firestore"
+import { MemoryFirestore } from "../../firestore/MemoryFirestore"
+
+// Install a fresh in-memory backend around every test in the calling file.
+// Service logging is silenced so failures stay readable.
+export const useMemoryFirestore = (): MemoryFirestore => {
+  const store = new MemoryFirestore()
+
+  beforeEach(() => {
+    store.clear()
+    setFirestoreBackend(store.asBackend())
+    jest.spyOn(console, "log").mockImplementation(() => {})
+    jest.spyOn(console, "warn").mockImplementation(() => {})
+    jest.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    resetFirestoreBackend()
+    jest.restoreAllMocks()
+  })
+
+  return store
+}
+
+// Let queued snapshot listeners run
+export const flushListeners = () => new Promise(resolve => setTimeout(resolve, 0))
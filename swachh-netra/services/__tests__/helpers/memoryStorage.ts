@@ -0,0 +1,18 @@
+import { resetStorageBackend, setStorageBackend } from "../../storage"
+import { MemoryStorage } from "../../storage/MemoryStorage"
+
+// Install a fresh in-memory file store around every test in the calling file
+export const useMemoryStorage = (): MemoryStorage => {
+  const storage = new MemoryStorage()
+
+  beforeEach(() => {
+    storage.clear()
+    setStorageBackend(storage.asBackend())
+  })
+
+  afterEach(() => {
+    resetStorageBackend()
+  })
+
+  return storage
+}
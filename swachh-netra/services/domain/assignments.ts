@@ -0,0 +1,240 @@
+import { DocumentFields, toDate, toEnum, toStringArray, WithId } from "./shared"
+import { WEEKDAY_LABELS } from "./shifts"
+import { AssignmentRoute, assignmentRouteFromData } from "./routes"
+
+export const DAILY_ASSIGNMENT_STATUSES = ["active", "completed", "cancelled"] as const
+export type DailyAssignmentStatus = typeof DAILY_ASSIGNMENT_STATUSES[number]
+
+export type ShiftType = "morning" | "afternoon" | "evening" | "night"
+
+// A document in the dailyAssignments collection
+export interface DailyAssignment {
+  id?: string
+  driverId: string
+  contractorId: string
+  assignmentDate: string // YYYY-MM-DD format
+  feederPointIds: string[] // in route order once a route is accepted
+  route?: AssignmentRoute
+  templateId?: string // the roster template that generated it
+  isOverride?: boolean // edited for the day, so the template no longer updates it
+  vehicleId?: string
+  status: DailyAssignmentStatus
+  createdAt: Date
+  updatedAt: Date
+  assignedBy: string
+  notes?: string
+}
+
+// A document in the workerAssignments collection
+export interface WorkerAssignment {
+  id?: string
+  workerId: string
+  workerName: string
+  feederPointId: string
+  feederPointName: string
+  areaName: string
+  assignedBy: string
+  assignedAt: Date
+  status: "active" | "inactive"
+  shiftType: Exclude<ShiftType, "night">
+  notes?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const dailyAssignmentFromDoc = (id: string, data: DocumentFields): WithId<DailyAssignment> => ({
+  id,
+  driverId: data.driverId,
+  contractorId: data.contractorId,
+  assignmentDate: data.assignmentDate,
+  feederPointIds: toStringArray(data.feederPointIds),
+  route: assignmentRouteFromData(data.route),
+  templateId: data.templateId || undefined,
+  isOverride: data.isOverride === true,
+  vehicleId: data.vehicleId || undefined,
+  status: toEnum(data.status, DAILY_ASSIGNMENT_STATUSES, "active"),
+  createdAt: toDate(data.createdAt),
+  updatedAt: toDate(data.updatedAt),
+  assignedBy: data.assignedBy || data.contractorId || "",
+  notes: data.notes || undefined,
+})
+
+export const workerAssignmentFromDoc = (id: string, data: DocumentFields): WithId<WorkerAssignment> => ({
+  id,
+  workerId: data.workerId || "",
+  workerName: data.workerName || "Unknown Worker",
+  feederPointId: data.feederPointId || "",
+  feederPointName: data.feederPointName || "Unknown Point",
+  areaName: data.areaName || "",
+  assignedBy: data.assignedBy || "",
+  assignedAt: toDate(data.assignedAt),
+  status: toEnum(data.status, ["active", "inactive"] as const, "active"),
+  shiftType: toEnum(data.shiftType, ["morning", "afternoon", "evening"] as const, "morning"),
+  notes: data.notes || undefined,
+  createdAt: toDate(data.createdAt),
+  updatedAt: toDate(data.updatedAt),
+})
+
+// A document in the rosterTemplates collection: a driver's standing weekly assignment, which
+// becomes a dailyAssignment on each of its days between the effective dates
+export interface RosterTemplate {
+  id?: string
+  contractorId: string
+  driverId: string
+  vehicleId?: string
+  feederPointIds: string[]
+  daysOfWeek: number[] // 0 = Sunday
+  effectiveFrom: string // YYYY-MM-DD
+  effectiveTo?: string // YYYY-MM-DD, open-ended when unset
+  isActive: boolean
+  updatedBy: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const rosterTemplateFromDoc = (id: string, data: DocumentFields): WithId<RosterTemplate> => ({
+  id,
+  contractorId: data.contractorId || "",
+  driverId: data.driverId || "",
+  vehicleId: data.vehicleId || undefined,
+  feederPointIds: toStringArray(data.feederPointIds),
+  daysOfWeek: Array.isArray(data.daysOfWeek)
+    ? data.daysOfWeek.map(Number).filter((day: number) => Number.isInteger(day) && day >= 0 && day <= 6)
+    : [],
+  effectiveFrom: data.effectiveFrom || "",
+  effectiveTo: data.effectiveTo || undefined,
+  isActive: data.isActive !== false,
+  updatedBy: data.updatedBy || "",
+  createdAt: toDate(data.createdAt),
+  updatedAt: toDate(data.updatedAt),
+})
+
+const ASSIGNMENT_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+// Assignment dates are calendar days, so they are worked on in UTC to stay clear of time zones
+const utcDateOf = (date: string): Date => new Date(`${date}T00:00:00Z`)
+
+// The YYYY-MM-DD key dailyAssignments are stored under
+export const assignmentDateOf = (date: Date): string => date.toISOString().split("T")[0]
+
+export const isAssignmentDate = (value: string): boolean =>
+  ASSIGNMENT_DATE.test(value) && !isNaN(utcDateOf(value).getTime())
+
+export const addDaysToAssignmentDate = (date: string, days: number): string => {
+  const next = utcDateOf(date)
+  next.setUTCDate(next.getUTCDate() + days)
+  return assignmentDateOf(next)
+}
+
+export const weekdayOfAssignmentDate = (date: string): number => utcDateOf(date).getUTCDay()
+
+// Why a template cannot be saved, or null when it is valid
+export const rosterTemplateProblem = (template: Pick<RosterTemplate, "driverId" | "feederPointIds" | "daysOfWeek" | "effectiveFrom" | "effectiveTo">): string | null => {
+  if (!template.driverId) return "Choose a driver"
+  if (template.feederPointIds.length === 0) return "Choose at least one feeder point"
+  if (template.daysOfWeek.length === 0) return "Choose at least one day of the week"
+  if (!isAssignmentDate(template.effectiveFrom)) return "Start date must be YYYY-MM-DD"
+  if (template.effectiveTo !== undefined) {
+    if (!isAssignmentDate(template.effectiveTo)) return "End date must be YYYY-MM-DD"
+    if (template.effectiveTo < template.effectiveFrom) return "End date must not be before the start date"
+  }
+  return null
+}
+
+export const rosterTemplateAppliesOn = (template: RosterTemplate, date: string): boolean =>
+  template.isActive &&
+  date >= template.effectiveFrom &&
+  (!template.effectiveTo || date <= template.effectiveTo) &&
+  template.daysOfWeek.includes(weekdayOfAssignmentDate(date))
+
+// Whether two templates would both give the same driver an assignment on some day
+export const rosterTemplatesOverlap = (a: RosterTemplate, b: RosterTemplate): boolean =>
+  a.driverId === b.driverId &&
+  a.isActive && b.isActive &&
+  a.daysOfWeek.some(day => b.daysOfWeek.includes(day)) &&
+  a.effectiveFrom <= (b.effectiveTo ?? "9999-12-31") &&
+  b.effectiveFrom <= (a.effectiveTo ?? "9999-12-31")
+
+export const describeRosterDays = (daysOfWeek: number[]): string =>
+  daysOfWeek.length === 7 ? "Every day" : [...daysOfWeek].sort().map(day => WEEKDAY_LABELS[day]).join(", ")
+
+// What generating a day from the templates does to a driver's assignment:
+// create or update it from the template, leave it as it is, or remove one the template no
+// longer covers. Assignments made or edited by hand are kept, and so is everything on days
+// already under way, which are only filled in where nothing exists yet.
+export type RosterDayAction = "create" | "update" | "unchanged" | "kept" | "remove"
+
+export interface RosterDayPlan {
+  date: string
+  driverId: string
+  action: RosterDayAction
+  templateId?: string
+  assignmentId?: string
+  feederPointIds: string[]
+  vehicleId?: string
+  keepsRoute?: boolean // an update leaving the day's accepted route in place, as it still has the same vehicle and points
+}
+
+// A day generated from a template has a fixed id per driver and date, so the contractor and
+// the driver's device generating it at the same time write the same document
+export const rosterAssignmentIdOf = (driverId: string, date: string): string => `${driverId}_${date}`
+
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every((id, index) => id === b[index])
+
+const sameIdSet = (a: string[], b: string[]) => a.length === b.length && a.every(id => b.includes(id))
+
+export const planRosterDays = (
+  templates: WithId<RosterTemplate>[],
+  assignments: DailyAssignment[],
+  dates: string[],
+  today: string
+): RosterDayPlan[] => dates.flatMap(date => {
+  const settled = date <= today
+  const existingOn = assignments.filter(assignment => assignment.assignmentDate === date)
+  // A driver with overlapping templates gets the one that took effect first
+  const applying = templates
+    .filter(template => rosterTemplateAppliesOn(template, date))
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+    .filter((template, index, all) => all.findIndex(other => other.driverId === template.driverId) === index)
+
+  const fromTemplates = applying.map((template): RosterDayPlan => {
+    const existing = existingOn.find(assignment => assignment.driverId === template.driverId)
+    const plan = {
+      date,
+      driverId: template.driverId,
+      templateId: template.id,
+      assignmentId: existing?.id,
+      feederPointIds: template.feederPointIds,
+      vehicleId: template.vehicleId,
+    }
+    if (!existing) return { ...plan, action: "create" }
+    if (settled || !existing.templateId || existing.isOverride) {
+      return { ...plan, action: "kept", feederPointIds: existing.feederPointIds, vehicleId: existing.vehicleId }
+    }
+    // An accepted route has put the points in its own order, starting from the vehicle's depot;
+    // it stands while the template keeps the same vehicle and points
+    if (existing.route && existing.vehicleId === template.vehicleId && sameIdSet(existing.feederPointIds, template.feederPointIds)) {
+      const changed = existing.templateId !== template.id
+      return { ...plan, action: changed ? "update" : "unchanged", feederPointIds: existing.feederPointIds, keepsRoute: true }
+    }
+    const changed = existing.templateId !== template.id ||
+      existing.vehicleId !== template.vehicleId ||
+      !sameIds(existing.feederPointIds, template.feederPointIds)
+    return { ...plan, action: changed ? "update" : "unchanged" }
+  })
+
+  const orphaned = existingOn
+    .filter(assignment => assignment.templateId && !assignment.isOverride && !settled)
+    .filter(assignment => !applying.some(template => template.driverId === assignment.driverId))
+    .map((assignment): RosterDayPlan => ({
+      date,
+      driverId: assignment.driverId,
+      action: "remove",
+      templateId: assignment.templateId,
+      assignmentId: assignment.id,
+      feederPointIds: assignment.feederPointIds,
+      vehicleId: assignment.vehicleId,
+    }))
+
+  return [...fromTemplates, ...orphaned]
+})
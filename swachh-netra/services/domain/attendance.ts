@@ -0,0 +1,182 @@
+import { Coordinates, DocumentFields, toCoordinates, toDate, toOptionalDate, WithId } from "./shared"
+import { PhotoEvidence, photoEvidenceFromData, photoEvidenceToData } from "./photos"
+import { AttendanceCorrectionEntry, CorrectableAttendance, correctableFromData, correctionEntriesFromData } from "./corrections"
+import { AttendanceVerification, verificationFromData, verificationToData } from "./verification"
+
+export type AttendanceStatus = "present" | "absent"
+
+export interface AttendanceLocation extends Coordinates {
+  accuracy?: number
+}
+
+// A document in the workerAttendance collection.
+// Driver marks historically stored isPresent/date while trip marks stored
+// status/timestamp; the converter reads either into status/timestamp, and
+// attendanceToData is the only shape written today.
+export interface AttendanceRecord {
+  id?: string
+  workerId: string
+  workerName: string
+  driverId: string
+  driverName?: string
+  vehicleId?: string
+  contractorId?: string
+  feederPointId?: string
+  feederPointName?: string
+  tripId?: string
+  status: AttendanceStatus
+  timestamp: Date
+  attendanceDate: string // local calendar day of timestamp, see attendanceDayKey
+  checkInTime?: Date
+  checkOutTime?: Date
+  photoUri?: string
+  photo?: PhotoEvidence // uploaded copy of photoUri with capture metadata
+  photoHash?: string // perceptual hash of the photo, filled in by proxy detection
+  location?: AttendanceLocation
+  checkOutPhotoUri?: string
+  checkOutPhoto?: PhotoEvidence
+  checkOutLocation?: AttendanceLocation
+  notes?: string
+  verification?: AttendanceVerification // present marks only, checked against the feeder point when recorded
+  originalMark?: CorrectableAttendance // the mark as first recorded, kept once the record is corrected
+  corrections?: AttendanceCorrectionEntry[] // oldest first
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+// Local calendar day a record counts towards, e.g. "2024-05-01"
+export const attendanceDayKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// A worker has at most one record per day and trip; marks made outside a trip share the day's slot
+export const attendanceSlotKey = (workerId: string, attendanceDate: string, tripId?: string | null): string =>
+  `${workerId}_${attendanceDate}_${tripId || "day"}`
+
+export const attendanceStatusOf = (data: DocumentFields): AttendanceStatus => {
+  if (data.status === "present" || data.status === "absent") return data.status
+  return data.isPresent ? "present" : "absent"
+}
+
+const toAttendanceLocation = (value: any): AttendanceLocation | undefined => {
+  const location = toCoordinates(value)
+  return location
+    ? { ...location, accuracy: typeof value.accuracy === "number" ? value.accuracy : undefined }
+    : undefined
+}
+
+export const attendanceFromDoc = (id: string, data: DocumentFields): WithId<AttendanceRecord> => {
+  const timestamp = toDate(data.timestamp ?? data.date ?? data.checkInTime)
+  return {
+    id,
+    workerId: data.workerId,
+    workerName: data.workerName || "Unknown Worker",
+    driverId: data.driverId || "",
+    driverName: data.driverName || undefined,
+    vehicleId: data.vehicleId || undefined,
+    contractorId: data.contractorId || undefined,
+    feederPointId: data.feederPointId || undefined,
+    feederPointName: data.feederPointName || undefined,
+    tripId: data.tripId || undefined,
+    status: attendanceStatusOf(data),
+    timestamp,
+    attendanceDate: typeof data.attendanceDate === "string" ? data.attendanceDate : attendanceDayKey(timestamp),
+    checkInTime: toOptionalDate(data.checkInTime),
+    checkOutTime: toOptionalDate(data.checkOutTime),
+    photoUri: data.photoUri || undefined,
+    photo: photoEvidenceFromData(data.photo, data.photoUri || undefined),
+    photoHash: data.photoHash || undefined,
+    location: toAttendanceLocation(data.location),
+    checkOutPhotoUri: data.checkOutPhotoUri || undefined,
+    checkOutPhoto: photoEvidenceFromData(data.checkOutPhoto, data.checkOutPhotoUri || undefined),
+    checkOutLocation: toAttendanceLocation(data.checkOutLocation),
+    notes: data.notes || undefined,
+    verification: data.verification ? verificationFromData(data.verification) : undefined,
+    originalMark: data.originalMark ? correctableFromData(data.originalMark) : undefined,
+    corrections: Array.isArray(data.corrections) ? correctionEntriesFromData(data.corrections) : undefined,
+    createdAt: toOptionalDate(data.createdAt),
+    updatedAt: toOptionalDate(data.updatedAt),
+  }
+}
+
+// The stored form of a location; accuracy is left out rather than stored as undefined
+export const attendanceLocationToData = (location: AttendanceLocation): DocumentFields => ({
+  latitude: location.latitude,
+  longitude: location.longitude,
+  ...(typeof location.accuracy === "number" ? { accuracy: location.accuracy } : {}),
+})
+
+// The stored form of a mark. Optional fields are written as null, which Firestore accepts and
+// undefined it does not; createdAt/updatedAt are left to the writer, and the check-out
+// fields to recordCheckOut, so marking a worker again keeps their check-out.
+export const attendanceToData = (record: AttendanceRecord): DocumentFields => ({
+  workerId: record.workerId,
+  workerName: record.workerName,
+  driverId: record.driverId,
+  driverName: record.driverName || null,
+  vehicleId: record.vehicleId || null,
+  contractorId: record.contractorId || null,
+  feederPointId: record.feederPointId || null,
+  feederPointName: record.feederPointName || null,
+  tripId: record.tripId || null,
+  status: record.status,
+  timestamp: record.timestamp,
+  attendanceDate: record.attendanceDate,
+  checkInTime: record.checkInTime || null,
+  photoUri: record.photoUri || null,
+  photo: record.photo ? photoEvidenceToData(record.photo) : null,
+  photoHash: record.photoHash || null,
+  location: record.location ? attendanceLocationToData(record.location) : null,
+  notes: record.notes || "",
+  verification: record.verification ? verificationToData(record.verification) : null,
+})
+
+// One worker's attendance on one calendar day. A worker marked on several trips has a record
+// per trip; the day runs from the first check-in to the last check-out across them.
+export interface AttendanceDay {
+  workerId: string
+  workerName: string
+  attendanceDate: string
+  feederPointId?: string
+  status: AttendanceStatus // present when any of the day's records is
+  timestamp: Date
+  checkInTime?: Date
+  checkOutTime?: Date
+}
+
+export const attendanceDaysOf = (records: AttendanceRecord[]): AttendanceDay[] => {
+  const days = new Map<string, AttendanceDay>()
+
+  records.forEach(record => {
+    const key = `${record.workerId}_${record.attendanceDate}`
+    const day = days.get(key)
+    if (!day) {
+      days.set(key, {
+        workerId: record.workerId,
+        workerName: record.workerName,
+        attendanceDate: record.attendanceDate,
+        feederPointId: record.feederPointId,
+        status: record.status,
+        timestamp: record.timestamp,
+        checkInTime: record.status === "present" ? record.checkInTime ?? record.timestamp : undefined,
+        checkOutTime: record.status === "present" ? record.checkOutTime : undefined,
+      })
+      return
+    }
+
+    day.feederPointId = day.feederPointId ?? record.feederPointId
+    if (record.timestamp < day.timestamp) day.timestamp = record.timestamp
+    if (record.status !== "present") return
+
+    const checkIn = record.checkInTime ?? record.timestamp
+    day.status = "present"
+    if (!day.checkInTime || checkIn < day.checkInTime) day.checkInTime = checkIn
+    if (record.checkOutTime && (!day.checkOutTime || record.checkOutTime > day.checkOutTime)) {
+      day.checkOutTime = record.checkOutTime
+    }
+  })
+
+  return Array.from(days.values())
+}
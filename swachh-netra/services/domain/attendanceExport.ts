@@ -0,0 +1,144 @@
+import { AttendanceRecord, AttendanceStatus, attendanceDayKey, attendanceDaysOf } from "./attendance"
+import { daysBetween } from "./leave"
+import { toCsv } from "./shared"
+
+export const ATTENDANCE_EXPORT_FORMATS = ["csv", "xlsx", "pdf"] as const
+export type AttendanceExportFormat = typeof ATTENDANCE_EXPORT_FORMATS[number]
+
+export const ATTENDANCE_EXPORT_FORMAT_LABELS: Record<AttendanceExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel",
+  pdf: "PDF Muster Roll",
+}
+
+// What the exported records were narrowed to, printed at the top of every export
+export interface AttendanceExportScope {
+  startDate: Date
+  endDate: Date
+  employee?: string
+  feederPointName?: string
+  driverName?: string
+}
+
+// One worker's line on the muster roll: a mark per day of the period
+export interface MusterRollRow {
+  workerId: string
+  workerName: string
+  marks: { [date: string]: AttendanceStatus }
+  present: number
+  absent: number
+}
+
+export interface MusterRoll {
+  days: string[] // "YYYY-MM-DD", every day of the period
+  rows: MusterRollRow[] // by worker name
+}
+
+export const ATTENDANCE_EXPORT_HEADER = [
+  "Date", "Worker", "Worker ID", "Status", "Check In", "Check Out", "Feeder Point", "Driver", "Notes", "Corrected",
+]
+
+// 24-hour local time, e.g. "07:05"
+const clockTime = (date?: Date): string =>
+  date ? `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}` : ""
+
+// One line per record, oldest day first and by worker within a day
+export const attendanceExportRowsOf = (records: AttendanceRecord[]): string[][] =>
+  [...records]
+    .sort((a, b) => a.attendanceDate.localeCompare(b.attendanceDate) || a.workerName.localeCompare(b.workerName))
+    .map(record => [
+      record.attendanceDate,
+      record.workerName,
+      record.workerId,
+      record.status === "present" ? "Present" : "Absent",
+      record.status === "present" ? clockTime(record.checkInTime ?? record.timestamp) : "",
+      clockTime(record.checkOutTime),
+      record.feederPointName || "",
+      record.driverName || "",
+      record.notes || "",
+      record.corrections?.length ? "Yes" : "",
+    ])
+
+export const attendanceCsvOf = (records: AttendanceRecord[]): string =>
+  toCsv([ATTENDANCE_EXPORT_HEADER, ...attendanceExportRowsOf(records)])
+
+// A worker marked on several trips in a day gets one mark, present if any record is
+export const musterRollOf = (records: AttendanceRecord[], startDate: Date, endDate: Date): MusterRoll => {
+  const days = daysBetween(attendanceDayKey(startDate), attendanceDayKey(endDate))
+  const rows = new Map<string, MusterRollRow>()
+
+  attendanceDaysOf(records).forEach(day => {
+    if (!days.includes(day.attendanceDate)) return
+    const row = rows.get(day.workerId) ?? { workerId: day.workerId, workerName: day.workerName, marks: {}, present: 0, absent: 0 }
+    row.marks[day.attendanceDate] = day.status
+    if (day.status === "present") row.present++
+    else row.absent++
+    rows.set(day.workerId, row)
+  })
+
+  return { days, rows: Array.from(rows.values()).sort((a, b) => a.workerName.localeCompare(b.workerName)) }
+}
+
+// The muster roll as sheet rows: a P or A per day followed by the totals
+export const musterRollSheetOf = (roll: MusterRoll): string[][] => [
+  ["Worker", ...roll.days.map(day => day.slice(8)), "Present", "Absent"],
+  ...roll.rows.map(row => [
+    row.workerName,
+    ...roll.days.map(day => row.marks[day] === "present" ? "P" : row.marks[day] === "absent" ? "A" : ""),
+    String(row.present),
+    String(row.absent),
+  ]),
+]
+
+export const attendanceScopeText = (scope: AttendanceExportScope): string => {
+  const from = attendanceDayKey(scope.startDate)
+  const to = attendanceDayKey(scope.endDate)
+  return [
+    from === to ? from : `${from} to ${to}`,
+    ...(scope.employee ? [`Worker: ${scope.employee}`] : []),
+    ...(scope.feederPointName ? [`Feeder point: ${scope.feederPointName}`] : []),
+    ...(scope.driverName ? [`Driver: ${scope.driverName}`] : []),
+  ].join(" · ")
+}
+
+export const attendanceExportFileName = (scope: AttendanceExportScope, format: AttendanceExportFormat): string => {
+  const from = attendanceDayKey(scope.startDate)
+  const to = attendanceDayKey(scope.endDate)
+  return `attendance_${from}${from === to ? "" : `_to_${to}`}.${format}`
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+// A printable muster roll, one row per worker and one column per day
+export const musterRollHtml = (roll: MusterRoll, scope: AttendanceExportScope, generatedAt: Date = new Date()): string => {
+  const [header, ...rows] = musterRollSheetOf(roll)
+  const cell = (value: string, tag: "td" | "th" = "td") => {
+    const className = value === "A" ? " class=\"absent\"" : ""
+    return `<${tag}${className}>${escapeHtml(value)}</${tag}>`
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 9px; color: #111827; }
+  h1 { font-size: 16px; margin: 0; }
+  p { margin: 2px 0 10px; color: #4b5563; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #9ca3af; padding: 2px 3px; text-align: center; }
+  th:first-child, td:first-child { text-align: left; white-space: nowrap; }
+  .absent { color: #b91c1c; font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>Muster Roll</h1>
+<p>${escapeHtml(attendanceScopeText(scope))} · ${roll.rows.length} workers · generated ${escapeHtml(generatedAt.toLocaleString())}</p>
+<table>
+<tr>${header.map(value => cell(value, "th")).join("")}</tr>
+${rows.map(row => `<tr>${row.map(value => cell(value)).join("")}</tr>`).join("\n")}
+</table>
+</body>
+</html>`
+}
@@ -0,0 +1,96 @@
+import { DocumentFields, toDate, toEnum } from "./shared"
+
+export const AUDIT_ENTITY_TYPES = [
+  "user",
+  "vehicle",
+  "vehicleAssignment",
+  "feederPoint",
+  "feederPointAssignment",
+  "driverAssignment",
+  "rosterTemplate",
+  "attendance",
+  "attendanceCorrection",
+  "workerApproval",
+  "approvalRequest",
+  "shiftPolicy",
+  "holiday",
+  "leaveApplication",
+  "wageRate",
+  "payrollRun",
+  "payslip",
+  "workerIdCard",
+] as const
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number]
+
+export const AUDIT_ACTIONS = [
+  "create",
+  "update",
+  "delete",
+  "assign",
+  "unassign",
+  "transfer",
+  "approve",
+  "reject",
+  "role_change",
+  "status_change",
+] as const
+export type AuditAction = typeof AUDIT_ACTIONS[number]
+
+// Values are stored as JSON-friendly primitives so that any entry can be shown as-is
+export type AuditValue = string | number | boolean | null
+
+export type AuditChanges = { [field: string]: { from: AuditValue, to: AuditValue } }
+
+// One document in the auditLog collection
+export interface AuditEntry {
+  id: string
+  actorId: string
+  actorName: string
+  actorRole: string
+  action: AuditAction
+  entityType: AuditEntityType
+  entityId: string
+  changes: AuditChanges
+  summary: string
+  device: string
+  timestamp: Date
+}
+
+// Bookkeeping fields that change on every write and say nothing about what happened
+const IGNORED_FIELDS = ["updatedAt", "createdAt"]
+
+export const toAuditValue = (value: any): AuditValue => {
+  if (value === undefined || value === null) return null
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value.toDate === "function") return value.toDate().toISOString()
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value
+  return JSON.stringify(value)
+}
+
+// Field-level difference between two versions of a document; null stands for "did not exist"
+export const diffAuditFields = (before: DocumentFields | null, after: DocumentFields | null): AuditChanges => {
+  const changes: AuditChanges = {}
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})])
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field)) return
+    const from = toAuditValue(before?.[field])
+    const to = toAuditValue(after?.[field])
+    if (from !== to) changes[field] = { from, to }
+  })
+  return changes
+}
+
+export const auditEntryFromDoc = (id: string, data: DocumentFields): AuditEntry => ({
+  id,
+  actorId: data.actorId || "",
+  actorName: data.actorName || "",
+  actorRole: data.actorRole || "",
+  action: toEnum(data.action, AUDIT_ACTIONS, "update"),
+  entityType: toEnum(data.entityType, AUDIT_ENTITY_TYPES, "user"),
+  entityId: data.entityId || "",
+  changes: data.changes || {},
+  summary: data.summary || "",
+  device: data.device || "",
+  timestamp: toDate(data.timestamp, new Date(0)),
+})
@@ -0,0 +1,159 @@
+import type { AttendanceStatus } from "./attendance"
+import { AuditChanges } from "./audit"
+import { PhotoEvidence, photoEvidenceFromData } from "./photos"
+import { DocumentFields, toDate, toEnum, toOptionalDate, WithId } from "./shared"
+import { isContractorRole } from "./users"
+
+export const CORRECTION_STATUSES = ["pending", "approved", "rejected"] as const
+export type CorrectionStatus = typeof CORRECTION_STATUSES[number]
+
+// Roles that may ask HR to change a mark they, or their drivers, made
+export const CORRECTION_REQUESTER_ROLES = ["driver", "transport_contractor"] as const
+export type CorrectionRequesterRole = typeof CORRECTION_REQUESTER_ROLES[number]
+
+// Contractors stored under either spelling request as "transport_contractor"; null for
+// roles that may not request corrections
+export const correctionRequesterRoleOf = (role: string | undefined): CorrectionRequesterRole | null =>
+  role === "driver" ? "driver" : isContractorRole(role) ? "transport_contractor" : null
+
+// The parts of an attendance record a correction can change
+export interface CorrectableAttendance {
+  status: AttendanceStatus
+  checkInTime?: Date
+  checkOutTime?: Date
+}
+
+// A document in the attendanceCorrections collection. The record is left untouched
+// until HR approves; original is the record as it stood when the request was raised.
+export interface AttendanceCorrection {
+  id?: string
+  recordId: string
+  workerId: string
+  workerName: string
+  attendanceDate: string
+  driverId: string
+  contractorId?: string
+  original: CorrectableAttendance
+  requested: Partial<CorrectableAttendance>
+  reason: string
+  evidencePhoto?: PhotoEvidence
+  status: CorrectionStatus
+  requestedBy: string
+  requestedByName: string
+  requestedByRole: CorrectionRequesterRole
+  reviewedBy?: string
+  reviewedByName?: string
+  reviewNote?: string
+  reviewedAt?: Date
+  createdAt: Date
+}
+
+// One change applied to an attendance record, kept on the record in its corrections list.
+// Direct HR edits are listed too, without a correctionId.
+export interface AttendanceCorrectionEntry {
+  correctionId?: string
+  changes: AuditChanges
+  reason: string
+  requestedBy?: string
+  approvedBy: string
+  approvedAt: Date
+}
+
+const CORRECTABLE_FIELDS: (keyof CorrectableAttendance)[] = ["status", "checkInTime", "checkOutTime"]
+
+// Why a request cannot be raised, or null when it can
+export const correctionProblem = (
+  original: CorrectableAttendance,
+  requested: Partial<CorrectableAttendance>,
+  reason: string
+): string | null => {
+  if (!reason.trim()) return "A reason is required"
+
+  const changed = CORRECTABLE_FIELDS.some(field =>
+    requested[field] !== undefined && requested[field]?.valueOf() !== original[field]?.valueOf())
+  if (!changed) return "The requested change matches the current record"
+
+  const checkIn = requested.checkInTime ?? original.checkInTime
+  const checkOut = requested.checkOutTime ?? original.checkOutTime
+  if (checkIn && checkOut && checkOut <= checkIn) return "Check-out must be after check-in"
+  return null
+}
+
+// The fields to write for an approved request; only fields that actually change are included
+export const correctionFields = (
+  current: CorrectableAttendance,
+  requested: Partial<CorrectableAttendance>
+): Partial<CorrectableAttendance> => {
+  const fields: Partial<CorrectableAttendance> = {}
+  CORRECTABLE_FIELDS.forEach(field => {
+    const value = requested[field]
+    if (value !== undefined && value.valueOf() !== current[field]?.valueOf()) (fields as DocumentFields)[field] = value
+  })
+  return fields
+}
+
+export const correctableFromData = (value: any): CorrectableAttendance => ({
+  status: value?.status === "present" ? "present" : "absent",
+  checkInTime: toOptionalDate(value?.checkInTime),
+  checkOutTime: toOptionalDate(value?.checkOutTime),
+})
+
+// Optional fields are left out rather than written as undefined
+export const correctableToData = (value: Partial<CorrectableAttendance>): DocumentFields => {
+  const data: DocumentFields = {}
+  CORRECTABLE_FIELDS.forEach(field => {
+    if (value[field] !== undefined) data[field] = value[field]
+  })
+  return data
+}
+
+export const correctionFromDoc = (id: string, data: DocumentFields): WithId<AttendanceCorrection> => {
+  const requested = correctableFromData(data.requested)
+  return {
+    id,
+    recordId: data.recordId || "",
+    workerId: data.workerId || "",
+    workerName: data.workerName || "Unknown Worker",
+    attendanceDate: data.attendanceDate || "",
+    driverId: data.driverId || "",
+    contractorId: data.contractorId || undefined,
+    original: correctableFromData(data.original),
+    requested: {
+      status: data.requested?.status ? requested.status : undefined,
+      checkInTime: requested.checkInTime,
+      checkOutTime: requested.checkOutTime,
+    },
+    reason: data.reason || "",
+    evidencePhoto: photoEvidenceFromData(data.evidencePhoto),
+    status: toEnum(data.status, CORRECTION_STATUSES, "pending"),
+    requestedBy: data.requestedBy || "",
+    requestedByName: data.requestedByName || "",
+    requestedByRole: correctionRequesterRoleOf(data.requestedByRole) ?? "driver",
+    reviewedBy: data.reviewedBy || undefined,
+    reviewedByName: data.reviewedByName || undefined,
+    reviewNote: data.reviewNote || undefined,
+    reviewedAt: toOptionalDate(data.reviewedAt),
+    createdAt: toDate(data.createdAt),
+  }
+}
+
+export const correctionEntriesFromData = (value: any): AttendanceCorrectionEntry[] =>
+  Array.isArray(value)
+    ? value.map(entry => ({
+      correctionId: entry.correctionId || undefined,
+      changes: entry.changes || {},
+      reason: entry.reason || "",
+      requestedBy: entry.requestedBy || undefined,
+      approvedBy: entry.approvedBy || "",
+      approvedAt: toDate(entry.approvedAt),
+    }))
+    : []
+
+export const correctionEntryToData = (entry: AttendanceCorrectionEntry): DocumentFields => ({
+  correctionId: entry.correctionId || null,
+  changes: entry.changes,
+  reason: entry.reason,
+  requestedBy: entry.requestedBy || null,
+  approvedBy: entry.approvedBy,
+  approvedAt: entry.approvedAt,
+})
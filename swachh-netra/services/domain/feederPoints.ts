@@ -0,0 +1,168 @@
+import { AssignmentStatus } from "./vehicles"
+import { parseShiftTime, WEEKDAY_LABELS } from "./shifts"
+import { Coordinates, DocumentFields, toCoordinates, toDate, toEnum, toOptionalDate, WithId } from "./shared"
+
+// A span of the day as local "HH:MM" times; the end is after the start
+export interface TripTimeWindow {
+  start: string
+  end: string
+}
+
+// How often a feeder point is collected, stored with it as collectionSchedule
+export interface CollectionSchedule {
+  tripsPerDay: number
+  timeWindows: TripTimeWindow[] // trips may start only inside one of these; none means any time
+  collectionDays: number[] // days of the week, 0 = Sunday
+}
+
+// Used for feeder points saved before schedules existed: three trips, any time, every day
+export const DEFAULT_COLLECTION_SCHEDULE: Readonly<CollectionSchedule> = Object.freeze({
+  tripsPerDay: 3,
+  timeWindows: [],
+  collectionDays: [0, 1, 2, 3, 4, 5, 6],
+})
+
+export const MAX_TRIPS_PER_DAY = 10
+
+export interface FeederPoint {
+  id?: string
+  areaName: string
+  areaDescription: string
+  wardNumber: string
+  populationDensity: string
+  accessibility: string
+  additionalDetails: string
+  kothiName: string
+  feederPointName: string
+  nearestLandmark: string
+  approximateHouseholds: string
+  vehicleTypes: string
+  locationPhoto: string
+  coordinates?: Coordinates
+  createdAt: Date
+  createdBy: string
+  isActive: boolean
+  updatedAt?: Date
+  assignedWorkerIds?: string[]
+  collectionSchedule?: CollectionSchedule
+}
+
+export interface FeederPointAssignment {
+  id?: string
+  feederPointId: string
+  contractorId: string
+  driverId?: string
+  assignedAt: Date
+  assignedBy: string
+  status: AssignmentStatus
+  notes?: string
+}
+
+export const feederPointFromDoc = (id: string, data: DocumentFields): WithId<FeederPoint> => ({
+  ...data,
+  id,
+  areaName: data.areaName || "",
+  areaDescription: data.areaDescription || "",
+  wardNumber: data.wardNumber || "",
+  populationDensity: data.populationDensity || "",
+  accessibility: data.accessibility || "",
+  additionalDetails: data.additionalDetails || "",
+  kothiName: data.kothiName || "",
+  feederPointName: data.feederPointName || "",
+  nearestLandmark: data.nearestLandmark || "",
+  approximateHouseholds: data.approximateHouseholds || "",
+  vehicleTypes: data.vehicleTypes || "",
+  locationPhoto: data.locationPhoto || "",
+  coordinates: toCoordinates(data.coordinates ?? data.gpsCoordinates),
+  createdAt: toDate(data.createdAt),
+  createdBy: data.createdBy || "",
+  isActive: data.isActive !== false,
+  updatedAt: toOptionalDate(data.updatedAt),
+  collectionSchedule: collectionScheduleFromData(data.collectionSchedule),
+})
+
+export const feederPointAssignmentFromDoc = (id: string, data: DocumentFields): WithId<FeederPointAssignment> => ({
+  id,
+  feederPointId: data.feederPointId,
+  contractorId: data.contractorId || "",
+  driverId: data.driverId || undefined,
+  assignedAt: toDate(data.assignedAt),
+  assignedBy: data.assignedBy || "",
+  status: toEnum(data.status, ["active", "inactive"] as const, "inactive"),
+  notes: data.notes || undefined,
+})
+
+export const collectionScheduleFromData = (data: DocumentFields | null | undefined): CollectionSchedule => {
+  if (!data) return { ...DEFAULT_COLLECTION_SCHEDULE, collectionDays: [...DEFAULT_COLLECTION_SCHEDULE.collectionDays] }
+  const tripsPerDay = Number(data.tripsPerDay)
+  return {
+    tripsPerDay: Number.isInteger(tripsPerDay) && tripsPerDay > 0 ? tripsPerDay : DEFAULT_COLLECTION_SCHEDULE.tripsPerDay,
+    timeWindows: Array.isArray(data.timeWindows)
+      ? data.timeWindows.map((window: DocumentFields) => ({ start: String(window.start || ""), end: String(window.end || "") }))
+      : [],
+    collectionDays: Array.isArray(data.collectionDays)
+      ? data.collectionDays.map(Number).filter((day: number) => Number.isInteger(day) && day >= 0 && day <= 6)
+      : [...DEFAULT_COLLECTION_SCHEDULE.collectionDays],
+  }
+}
+
+// "06:00-10:00, 14:00-18:00"
+export const formatTimeWindows = (windows: TripTimeWindow[]): string =>
+  windows.map(window => `${window.start}-${window.end}`).join(", ")
+
+// The windows typed as "06:00-10:00, 14:00-18:00", or null when the text cannot be read
+export const parseTimeWindows = (text: string): TripTimeWindow[] | null => {
+  const parts = text.split(",").map(part => part.trim()).filter(Boolean)
+  const windows: TripTimeWindow[] = []
+  for (const part of parts) {
+    const match = /^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/.exec(part)
+    if (!match) return null
+    windows.push({ start: match[1].padStart(5, "0"), end: match[2].padStart(5, "0") })
+  }
+  return windows
+}
+
+// Why a schedule cannot be saved, or null when it is valid
+export const collectionScheduleProblem = (schedule: CollectionSchedule): string | null => {
+  if (!Number.isInteger(schedule.tripsPerDay) || schedule.tripsPerDay < 1 || schedule.tripsPerDay > MAX_TRIPS_PER_DAY) {
+    return `Trips per day must be between 1 and ${MAX_TRIPS_PER_DAY}`
+  }
+  if (schedule.collectionDays.length === 0) return "At least one collection day is required"
+  if (schedule.collectionDays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) return "Collection days must be days 0-6"
+
+  const spans = schedule.timeWindows.map(window => [parseShiftTime(window.start), parseShiftTime(window.end)])
+  if (spans.some(([start, end]) => start === null || end === null)) return "Time windows must be HH:MM-HH:MM"
+  if (spans.some(([start, end]) => end! <= start!)) return "Each time window must end after it starts"
+  const sorted = [...spans].sort((a, b) => a[0]! - b[0]!)
+  if (sorted.some(([start], index) => index > 0 && start! < sorted[index - 1][1]!)) return "Time windows must not overlap"
+  return null
+}
+
+// Trips due at the feeder point on the day of the given date; none on days it is not collected
+export const scheduledTripsOn = (schedule: CollectionSchedule, date: Date): number =>
+  schedule.collectionDays.includes(date.getDay()) ? schedule.tripsPerDay : 0
+
+// Why trip tripNumber cannot start at the given time, or null when the schedule allows it
+export const tripScheduleProblem = (schedule: CollectionSchedule, tripNumber: number, at: Date): string | null => {
+  if (!schedule.collectionDays.includes(at.getDay())) {
+    return `No collection is scheduled at this feeder point on ${WEEKDAY_LABELS[at.getDay()]}`
+  }
+  if (tripNumber > schedule.tripsPerDay) {
+    return `Maximum ${schedule.tripsPerDay} trip${schedule.tripsPerDay === 1 ? "" : "s"} per day allowed at this feeder point`
+  }
+
+  const minutes = at.getHours() * 60 + at.getMinutes()
+  const inWindow = schedule.timeWindows.length === 0 || schedule.timeWindows.some(window =>
+    minutes >= (parseShiftTime(window.start) ?? 0) && minutes < (parseShiftTime(window.end) ?? 0)
+  )
+  return inWindow ? null : `Trips at this feeder point can start only between ${formatTimeWindows(schedule.timeWindows)}`
+}
+
+// The time window the next trip should start in, from the given time on; undefined when the
+// schedule has no windows or none is left today
+export const nextTripWindowOf = (schedule: CollectionSchedule, at: Date): TripTimeWindow | undefined => {
+  const minutes = at.getHours() * 60 + at.getMinutes()
+  return [...schedule.timeWindows]
+    .sort((a, b) => (parseShiftTime(a.start) ?? 0) - (parseShiftTime(b.start) ?? 0))
+    .find(window => (parseShiftTime(window.end) ?? 0) > minutes)
+}
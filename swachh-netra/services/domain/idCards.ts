@@ -0,0 +1,100 @@
+// Worker ID cards carry a QR code of "SNW1.<workerId>.<serial>.<signature>". The signature is
+// the start of a SHA-256 over the fields and a key that only HR reads. The worker's record
+// keeps a SHA-256 of the current card's signature, so a driver's device checks a card without
+// the key and cannot make one up; the serial goes up when a card is reissued, which retires
+// the old card.
+export const ID_CARD_PREFIX = "SNW1"
+export const ID_CARD_SIGNATURE_LENGTH = 16
+
+export interface IdCardClaim {
+  workerId: string
+  serial: number
+  signature: string
+}
+
+// What is printed on one card
+export interface WorkerIdCard {
+  workerId: string
+  fullName: string
+  employeeId?: string
+  category?: string
+  zone: string
+  ward: string
+  feederPoint: string
+  maskedAadhaar: string
+  serial: number
+  payload: string // the QR code's content
+}
+
+// Only the last four digits stay readable, e.g. "XXXX XXXX 1234"
+export const maskAadhaar = (aadhaarNumber: string | undefined): string => {
+  const digits = (aadhaarNumber || "").replace(/\D/g, "")
+  return `XXXX XXXX ${digits.length >= 4 ? digits.slice(-4) : "XXXX"}`
+}
+
+// The text hashed for a card's signature
+export const idCardSigningInput = (key: string, workerId: string, serial: number): string =>
+  `${key}|${ID_CARD_PREFIX}|${workerId}|${serial}`
+
+export const idCardPayloadOf = (claim: IdCardClaim): string =>
+  [ID_CARD_PREFIX, claim.workerId, claim.serial, claim.signature].join(".")
+
+// The claim on a scanned code, or null when the code is not one of our cards
+export const parseIdCardPayload = (text: string): IdCardClaim | null => {
+  const parts = text.trim().split(".")
+  if (parts.length !== 4 || parts[0] !== ID_CARD_PREFIX) return null
+
+  const [, workerId, serialText, signature] = parts
+  const serial = Number(serialText)
+  if (!workerId || !Number.isInteger(serial) || serial < 1) return null
+  if (!new RegExp(`^[0-9a-f]{${ID_CARD_SIGNATURE_LENGTH}}$`).test(signature)) return null
+  return { workerId, serial, signature }
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+// Printable cards at ID-1 size (85.6 × 54 mm), as many to a page as fit. qrSvg is the
+// card's payload rendered as an SVG image.
+export const idCardsHtml = (cards: { card: WorkerIdCard, qrSvg: string }[], issuer: string): string => {
+  const field = (label: string, value: string | undefined) =>
+    value ? `<div class="field"><span>${escapeHtml(label)}</span>${escapeHtml(value)}</div>` : ""
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  @page { margin: 10mm; }
+  body { font-family: Helvetica, Arial, sans-serif; margin: 0; color: #111827; }
+  .card { display: inline-flex; width: 85.6mm; height: 54mm; box-sizing: border-box; margin: 0 4mm 4mm 0;
+    border: 1px solid #9ca3af; border-radius: 3mm; padding: 3mm; page-break-inside: avoid; vertical-align: top; }
+  .details { flex: 1; font-size: 8pt; overflow: hidden; }
+  .issuer { font-size: 7pt; font-weight: bold; color: #047857; text-transform: uppercase; }
+  .name { font-size: 11pt; font-weight: bold; margin: 1mm 0 2mm; }
+  .field { margin-bottom: 0.8mm; }
+  .field span { display: inline-block; width: 17mm; color: #6b7280; }
+  .qr { width: 30mm; height: 30mm; margin-left: 2mm; align-self: center; }
+  .qr svg { width: 100%; height: 100%; }
+  .serial { font-size: 6pt; color: #6b7280; text-align: center; }
+</style>
+</head>
+<body>
+${cards.map(({ card, qrSvg }) => `<div class="card">
+  <div class="details">
+    <div class="issuer">${escapeHtml(issuer)}</div>
+    <div class="name">${escapeHtml(card.fullName)}</div>
+    ${field("Employee ID", card.employeeId)}
+    ${field("Category", card.category)}
+    ${field("Zone / Ward", [card.zone, card.ward].filter(Boolean).join(" / "))}
+    ${field("Feeder Point", card.feederPoint)}
+    ${field("Aadhaar", card.maskedAadhaar)}
+  </div>
+  <div>
+    <div class="qr">${qrSvg}</div>
+    <div class="serial">Card ${card.serial}</div>
+  </div>
+</div>`).join("\n")}
+</body>
+</html>`
+}
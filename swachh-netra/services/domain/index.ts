@@ -0,0 +1,22 @@
+// Canonical domain model shared by every service and screen.
+// Each entity comes with a converter from its raw Firestore document.
+export * from "./shared"
+export * from "./photos"
+export * from "./users"
+export * from "./vehicles"
+export * from "./feederPoints"
+export * from "./trips"
+export * from "./attendance"
+export * from "./attendanceExport"
+export * from "./verification"
+export * from "./proxyDetection"
+export * from "./idCards"
+export * from "./corrections"
+export * from "./leave"
+export * from "./payroll"
+export * from "./assignments"
+export * from "./routes"
+export * from "./missedCollections"
+export * from "./settings"
+export * from "./audit"
+export * from "./shifts"
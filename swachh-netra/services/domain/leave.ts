@@ -0,0 +1,164 @@
+import { AttendanceStatus, attendanceDayKey } from "./attendance"
+import type { SystemSettings } from "./settings"
+import { DocumentFields, toDate, toEnum, toOptionalDate, WithId } from "./shared"
+
+export const LEAVE_TYPES = ["casual", "sick", "earned"] as const
+export type LeaveType = typeof LEAVE_TYPES[number]
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  casual: "Casual",
+  sick: "Sick",
+  earned: "Earned",
+}
+
+export const LEAVE_STATUSES = ["pending", "approved", "rejected", "cancelled"] as const
+export type LeaveStatus = typeof LEAVE_STATUSES[number]
+
+// A document in the holidays collection, stored under its date so a day holds one holiday
+export interface Holiday {
+  id?: string
+  date: string // "YYYY-MM-DD"
+  name: string
+  createdBy: string
+  createdAt?: Date
+}
+
+// A document in the leaveApplications collection. leaveDates lists the working days
+// the leave covers, worked out when it was applied for; holidays and weekly offs
+// inside the range are not charged against the worker's balance.
+export interface LeaveApplication {
+  id?: string
+  workerId: string
+  workerName: string
+  leaveType: LeaveType
+  startDate: string
+  endDate: string
+  leaveDates: string[]
+  reason: string
+  status: LeaveStatus
+  appliedBy: string
+  reviewedBy?: string
+  reviewNote?: string
+  reviewedAt?: Date
+  createdAt: Date
+}
+
+export type LeaveEntitlements = Record<LeaveType, number>
+
+export interface LeaveBalance {
+  entitled: number
+  used: number // approved days in the year
+  pending: number // days waiting for review
+  remaining: number
+}
+
+export type LeaveBalances = Record<LeaveType, LeaveBalance>
+
+// Why a day was not a working day for a worker
+export type NonWorkingReason = "holiday" | "leave" | "weeklyOff"
+
+// What the attendance calendar shows for one worker on one day
+export type CalendarDayStatus = "present" | "absent" | NonWorkingReason
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/
+
+export const isDayKey = (value: string): boolean =>
+  DAY_KEY.test(value) && attendanceDayKey(new Date(`${value}T00:00:00`)) === value
+
+// Every day from start to end inclusive, as "YYYY-MM-DD"
+export const daysBetween = (startDate: string, endDate: string): string[] => {
+  const days: string[] = []
+  const day = new Date(`${startDate}T00:00:00`)
+  const end = new Date(`${endDate}T00:00:00`)
+  while (day <= end) {
+    days.push(attendanceDayKey(day))
+    day.setDate(day.getDate() + 1)
+  }
+  return days
+}
+
+// Why a leave application cannot be made, or null when it can
+export const leaveApplicationProblem = (
+  application: Pick<LeaveApplication, "workerId" | "startDate" | "endDate" | "reason">,
+  leaveDates: string[]
+): string | null => {
+  if (!application.workerId) return "Choose a worker"
+  if (!isDayKey(application.startDate) || !isDayKey(application.endDate)) return "Dates must be YYYY-MM-DD"
+  if (application.endDate < application.startDate) return "Leave cannot end before it starts"
+  if (!application.reason.trim()) return "A reason is required"
+  if (leaveDates.length === 0) return "The selected days are all holidays or weekly offs"
+  return null
+}
+
+export const leaveEntitlementsOf = (settings: SystemSettings): LeaveEntitlements => ({
+  casual: settings.casualLeavePerYear,
+  sick: settings.sickLeavePerYear,
+  earned: settings.earnedLeavePerYear,
+})
+
+// Days taken and waiting per leave type in one calendar year
+export const leaveBalancesOf = (
+  applications: LeaveApplication[],
+  entitlements: LeaveEntitlements,
+  year: number
+): LeaveBalances => {
+  const inYear = (application: LeaveApplication) =>
+    application.leaveDates.filter(date => date.startsWith(`${year}-`)).length
+
+  const balances = {} as LeaveBalances
+  LEAVE_TYPES.forEach(leaveType => {
+    const ofType = applications.filter(application => application.leaveType === leaveType)
+    const used = ofType.filter(a => a.status === "approved").reduce((sum, a) => sum + inYear(a), 0)
+    const pending = ofType.filter(a => a.status === "pending").reduce((sum, a) => sum + inYear(a), 0)
+    balances[leaveType] = { entitled: entitlements[leaveType], used, pending, remaining: entitlements[leaveType] - used }
+  })
+  return balances
+}
+
+// Holidays win over leave, which wins over the weekly off
+export const nonWorkingReasonOf = (
+  date: string,
+  holidays: Set<string>,
+  leaveDates: Set<string>,
+  weeklyOffs: number[]
+): NonWorkingReason | null => {
+  if (holidays.has(date)) return "holiday"
+  if (leaveDates.has(date)) return "leave"
+  if (weeklyOffs.includes(new Date(`${date}T00:00:00`).getDay())) return "weeklyOff"
+  return null
+}
+
+// Turning up always shows as present; an absence on a non-working day shows the reason instead.
+// Null means there is nothing to show for the day.
+export const calendarDayStatusOf = (
+  marked: AttendanceStatus | undefined,
+  nonWorking: NonWorkingReason | null
+): CalendarDayStatus | null => {
+  if (marked === "present") return "present"
+  return nonWorking ?? marked ?? null
+}
+
+export const holidayFromDoc = (id: string, data: DocumentFields): WithId<Holiday> => ({
+  id,
+  date: data.date || id,
+  name: data.name || "Holiday",
+  createdBy: data.createdBy || "",
+  createdAt: toOptionalDate(data.createdAt),
+})
+
+export const leaveApplicationFromDoc = (id: string, data: DocumentFields): WithId<LeaveApplication> => ({
+  id,
+  workerId: data.workerId || "",
+  workerName: data.workerName || "Unknown Worker",
+  leaveType: toEnum(data.leaveType, LEAVE_TYPES, "casual"),
+  startDate: data.startDate || "",
+  endDate: data.endDate || data.startDate || "",
+  leaveDates: Array.isArray(data.leaveDates) ? data.leaveDates.filter((date: any) => typeof date === "string") : [],
+  reason: data.reason || "",
+  status: toEnum(data.status, LEAVE_STATUSES, "pending"),
+  appliedBy: data.appliedBy || "",
+  reviewedBy: data.reviewedBy || undefined,
+  reviewNote: data.reviewNote || undefined,
+  reviewedAt: toOptionalDate(data.reviewedAt),
+  createdAt: toDate(data.createdAt),
+})
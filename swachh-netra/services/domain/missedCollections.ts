@@ -0,0 +1,193 @@
+import { DocumentFields, toDate, toEnum, toOptionalDate, WithId } from "./shared"
+import { DailyAssignment, weekdayOfAssignmentDate } from "./assignments"
+import { DEFAULT_COLLECTION_SCHEDULE, FeederPoint } from "./feederPoints"
+import { parseShiftTime } from "./shifts"
+import { TripRecord } from "./trips"
+import { formatRouteTime } from "./routes"
+
+// open → escalated to admins once it has waited too long; either can be resolved
+export const MISSED_COLLECTION_STATUSES = ["open", "escalated", "resolved"] as const
+export type MissedCollectionStatus = typeof MISSED_COLLECTION_STATUSES[number]
+
+// A feeder point on a driver's daily assignment, and when it should have been collected by
+export interface CollectionDue {
+  assignmentId: string
+  assignmentDate: string // YYYY-MM-DD
+  feederPointId: string
+  feederPointName: string
+  wardNumber: string
+  driverId: string
+  contractorId: string
+  dueBy: Date
+}
+
+// A document in the missedCollections collection, keyed by missedCollectionIdOf so that
+// checking a day again finds the incidents it already raised
+export interface MissedCollection extends CollectionDue {
+  id?: string
+  driverName?: string
+  contractorName?: string
+  status: MissedCollectionStatus
+  detectedAt: Date
+  escalatedAt?: Date
+  resolvedAt?: Date
+  resolvedBy?: string
+  resolutionNote?: string
+}
+
+// One contractor's or ward's line on the missed-collection report
+export interface MissedCollectionRateRow {
+  id: string
+  name: string
+  due: number
+  missed: number
+  missedRate: number // 0..1
+}
+
+export interface MissedCollectionRates {
+  contractors: MissedCollectionRateRow[] // highest rate first
+  wards: MissedCollectionRateRow[]
+}
+
+export const missedCollectionIdOf = (due: Pick<CollectionDue, "assignmentId" | "feederPointId">): string =>
+  `${due.assignmentId}_${due.feederPointId}`
+
+// Local midnight at the start of an assignment date
+const startOfAssignmentDate = (date: string): Date => {
+  const [year, month, day] = date.split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+// When the feeder point's collection on the date is due: the end of its last time window, or
+// the end of the day when it has none. Null on days the point is not collected.
+export const collectionDeadlineOf = (feederPoint: FeederPoint, date: string): Date | null => {
+  const schedule = feederPoint.collectionSchedule ?? DEFAULT_COLLECTION_SCHEDULE
+  if (!schedule.collectionDays.includes(weekdayOfAssignmentDate(date))) return null
+
+  const ends = schedule.timeWindows.map(window => parseShiftTime(window.end) ?? 24 * 60)
+  const deadline = startOfAssignmentDate(date)
+  deadline.setMinutes(ends.length > 0 ? Math.max(...ends) : 24 * 60)
+  return deadline
+}
+
+// Every assigned feeder point whose collection was due by now. Cancelled assignments and
+// points that no longer exist are left out.
+export const collectionDuesOf = (
+  assignments: WithId<DailyAssignment>[],
+  feederPoints: { [feederPointId: string]: FeederPoint },
+  now: Date
+): CollectionDue[] => assignments
+  .filter(assignment => assignment.status !== "cancelled")
+  .flatMap(assignment => assignment.feederPointIds.flatMap(feederPointId => {
+    const feederPoint = feederPoints[feederPointId]
+    const dueBy = feederPoint && collectionDeadlineOf(feederPoint, assignment.assignmentDate)
+    if (!dueBy || dueBy > now) return []
+    return [{
+      assignmentId: assignment.id,
+      assignmentDate: assignment.assignmentDate,
+      feederPointId,
+      feederPointName: feederPoint.feederPointName || feederPointId,
+      wardNumber: feederPoint.wardNumber || "",
+      driverId: assignment.driverId,
+      contractorId: assignment.contractorId,
+      dueBy,
+    }]
+  }))
+
+// A point counts as collected when any trip there on the day was closed by its deadline
+export const wasCollected = (due: CollectionDue, trips: TripRecord[]): boolean => {
+  const dayStart = startOfAssignmentDate(due.assignmentDate)
+  return trips.some(trip =>
+    trip.feederPointId === due.feederPointId &&
+    trip.stage === "closed" &&
+    trip.startTime >= dayStart &&
+    (trip.endTime ?? trip.updatedAt) <= due.dueBy
+  )
+}
+
+export const findMissedCollections = (dues: CollectionDue[], trips: TripRecord[]): CollectionDue[] =>
+  dues.filter(due => !wasCollected(due, trips))
+
+// Open incidents that have waited escalationHours since they were raised; none when the
+// delay is 0, which turns escalation off
+export const missedCollectionsToEscalate = <T extends MissedCollection>(incidents: T[], now: Date, escalationHours: number): T[] =>
+  escalationHours > 0
+    ? incidents.filter(incident =>
+      incident.status === "open" && incident.detectedAt.getTime() + escalationHours * 60 * 60 * 1000 <= now.getTime()
+    )
+    : []
+
+// Missed share of the collections due, per contractor and per ward
+export const missedCollectionRatesOf = (
+  dues: CollectionDue[],
+  missedIds: Set<string>,
+  contractorNames: { [contractorId: string]: string } = {}
+): MissedCollectionRates => {
+  const rowsBy = (key: (due: CollectionDue) => string, name: (id: string) => string) => {
+    const rows = new Map<string, MissedCollectionRateRow>()
+    dues.forEach(due => {
+      const id = key(due)
+      const row = rows.get(id) ?? { id, name: name(id), due: 0, missed: 0, missedRate: 0 }
+      row.due++
+      if (missedIds.has(missedCollectionIdOf(due))) row.missed++
+      row.missedRate = row.missed / row.due
+      rows.set(id, row)
+    })
+    return Array.from(rows.values())
+      .sort((a, b) => b.missedRate - a.missedRate || b.missed - a.missed || a.name.localeCompare(b.name))
+  }
+
+  return {
+    contractors: rowsBy(due => due.contractorId, id => contractorNames[id] || id),
+    wards: rowsBy(due => due.wardNumber, id => id ? `Ward ${id}` : "No ward"),
+  }
+}
+
+const dueTimeOf = (due: CollectionDue) => formatRouteTime(due.dueBy.getHours() * 60 + due.dueBy.getMinutes())
+
+// The message sent to the driver and contractor when an incident is raised
+export const missedCollectionNoticeOf = (due: CollectionDue): string =>
+  `Missed collection: ${due.feederPointName} had no completed trip by ${dueTimeOf(due)} on ${due.assignmentDate}. ` +
+  "Please collect it or tell the contractor why it was missed."
+
+// The message sent to admins for the incidents escalated in one check
+export const missedCollectionEscalationOf = (incidents: MissedCollection[]): string =>
+  `${incidents.length} missed collection${incidents.length === 1 ? " has" : "s have"} not been resolved:\n` +
+  incidents
+    .map(incident => `• ${incident.feederPointName} on ${incident.assignmentDate} (${incident.contractorName || incident.contractorId})`)
+    .join("\n")
+
+// A newly raised incident; detectedAt is left to the writer
+export const missedCollectionToData = (incident: MissedCollection): DocumentFields => ({
+  assignmentId: incident.assignmentId,
+  assignmentDate: incident.assignmentDate,
+  feederPointId: incident.feederPointId,
+  feederPointName: incident.feederPointName,
+  wardNumber: incident.wardNumber,
+  driverId: incident.driverId,
+  driverName: incident.driverName || null,
+  contractorId: incident.contractorId,
+  contractorName: incident.contractorName || null,
+  dueBy: incident.dueBy,
+  status: "open",
+})
+
+export const missedCollectionFromDoc = (id: string, data: DocumentFields): WithId<MissedCollection> => ({
+  id,
+  assignmentId: data.assignmentId || "",
+  assignmentDate: data.assignmentDate || "",
+  feederPointId: data.feederPointId || "",
+  feederPointName: data.feederPointName || "Unknown Point",
+  wardNumber: data.wardNumber || "",
+  driverId: data.driverId || "",
+  driverName: data.driverName || undefined,
+  contractorId: data.contractorId || "",
+  contractorName: data.contractorName || undefined,
+  dueBy: toDate(data.dueBy),
+  status: toEnum(data.status, MISSED_COLLECTION_STATUSES, "open"),
+  detectedAt: toDate(data.detectedAt),
+  escalatedAt: toOptionalDate(data.escalatedAt),
+  resolvedAt: toOptionalDate(data.resolvedAt),
+  resolvedBy: data.resolvedBy || undefined,
+  resolutionNote: data.resolutionNote || undefined,
+})
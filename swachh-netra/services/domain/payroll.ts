@@ -0,0 +1,299 @@
+import { AttendanceDay, attendanceDayKey } from "./attendance"
+import { evaluateAttendance, ShiftPolicy } from "./shifts"
+import { DocumentFields, toCsv, toDate, toEnum, toOptionalDate, WithId } from "./shared"
+
+export const PAYROLL_RUN_STATUSES = ["draft", "approved"] as const
+export type PayrollRunStatus = typeof PAYROLL_RUN_STATUSES[number]
+
+// A document in the wageRates collection; one per worker category
+export interface WageRate {
+  id?: string
+  category: string
+  dailyRate: number
+  overtimeHourlyRate: number
+  deductionPercent: number // statutory share of gross pay withheld, e.g. PF and ESI
+  updatedBy: string
+  updatedAt?: Date
+}
+
+// A deduction HR adds to one payslip by hand, such as an advance being recovered
+export interface PayrollDeduction {
+  label: string
+  amount: number
+}
+
+// What one worker earned in a month, before deductions
+export interface PayslipEarnings {
+  presentDays: number // full days worked
+  halfDays: number // paid at half the daily rate
+  leaveDays: number // approved leave, paid at the daily rate
+  absentDays: number // marked absent on a working day, unpaid
+  overtimeHours: number
+  basePay: number
+  overtimePay: number
+  leavePay: number
+  grossPay: number
+}
+
+// A document in the payslips collection, stored as "{month}_{workerId}". The rates are
+// copied in so that a payslip still reads correctly after the wage rates change.
+export interface Payslip extends PayslipEarnings {
+  id?: string
+  month: string // "YYYY-MM"
+  workerId: string
+  workerName: string
+  employeeId?: string
+  category: string
+  bankAccountNumber?: string
+  ifscCode?: string
+  dailyRate: number
+  overtimeHourlyRate: number
+  deductionPercent: number
+  statutoryDeduction: number
+  deductions: PayrollDeduction[]
+  totalDeductions: number
+  netPay: number
+}
+
+// A worker left out of a run, and why
+export interface SkippedWorker {
+  workerId: string
+  workerName: string
+  reason: string
+}
+
+// A document in the payrollRuns collection, stored under its month. Once approved the run
+// and its payslips are locked and can no longer be regenerated or adjusted.
+export interface PayrollRun {
+  id?: string
+  month: string
+  status: PayrollRunStatus
+  workerCount: number
+  totalGross: number
+  totalDeductions: number
+  totalNet: number
+  skippedWorkers: SkippedWorker[]
+  generatedBy: string
+  generatedAt: Date
+  approvedBy?: string
+  approvedAt?: Date
+}
+
+const MONTH_KEY = /^\d{4}-(0[1-9]|1[0-2])$/
+
+export const isMonthKey = (value: string): boolean => MONTH_KEY.test(value)
+
+export const monthKeyOf = (date: Date): string => attendanceDayKey(date).slice(0, 7)
+
+// First and last moment of a "YYYY-MM" month
+export const monthRangeOf = (month: string): { startDate: Date, endDate: Date } => {
+  const [year, monthNumber] = month.split("-").map(Number)
+  return {
+    startDate: new Date(year, monthNumber - 1, 1),
+    endDate: new Date(year, monthNumber, 0, 23, 59, 59, 999),
+  }
+}
+
+// Wage rates are keyed by category so that "Sweeper" and " sweeper " share one rate
+export const wageRateId = (category: string): string =>
+  category.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")
+
+export const payslipId = (month: string, workerId: string): string => `${month}_${workerId}`
+
+export const roundMoney = (amount: number): number => Math.round(amount * 100) / 100
+
+// Why a wage rate cannot be saved, or null when it can
+export const wageRateProblem = (rate: Pick<WageRate, "category" | "dailyRate" | "overtimeHourlyRate" | "deductionPercent">): string | null => {
+  if (!wageRateId(rate.category)) return "Category is required"
+  if (!(rate.dailyRate > 0)) return "Daily rate must be more than zero"
+  if (!(rate.overtimeHourlyRate >= 0)) return "Overtime rate cannot be negative"
+  if (!(rate.deductionPercent >= 0 && rate.deductionPercent <= 100)) return "Deduction must be between 0 and 100 percent"
+  return null
+}
+
+export const deductionProblem = (deduction: PayrollDeduction): string | null => {
+  if (!deduction.label.trim()) return "A label is required"
+  if (!(deduction.amount > 0)) return "Amount must be more than zero"
+  return null
+}
+
+// Earnings for one worker from their attendance days in the month. Days on leave are paid
+// once even if the worker was also marked absent; days they turned up count as worked.
+export const payslipEarningsOf = (
+  days: AttendanceDay[],
+  leaveDates: string[],
+  isWorkingDay: (day: AttendanceDay) => boolean,
+  policyFor: (day: AttendanceDay) => ShiftPolicy,
+  rate: Pick<WageRate, "dailyRate" | "overtimeHourlyRate">
+): PayslipEarnings => {
+  const workedDates = new Set<string>()
+  let presentDays = 0
+  let halfDays = 0
+  let absentDays = 0
+  let overtimeMinutes = 0
+
+  days.forEach(day => {
+    if (day.status !== "present") {
+      if (!leaveDates.includes(day.attendanceDate) && isWorkingDay(day)) absentDays++
+      return
+    }
+    const evaluation = evaluateAttendance(day, policyFor(day))
+    workedDates.add(day.attendanceDate)
+    if (evaluation.halfDay) halfDays++
+    else presentDays++
+    overtimeMinutes += evaluation.overtimeMinutes
+  })
+
+  const leaveDays = leaveDates.filter(date => !workedDates.has(date)).length
+  const overtimeHours = roundMoney(overtimeMinutes / 60)
+  const basePay = roundMoney((presentDays + halfDays / 2) * rate.dailyRate)
+  const overtimePay = roundMoney(overtimeHours * rate.overtimeHourlyRate)
+  const leavePay = roundMoney(leaveDays * rate.dailyRate)
+
+  return {
+    presentDays,
+    halfDays,
+    leaveDays,
+    absentDays,
+    overtimeHours,
+    basePay,
+    overtimePay,
+    leavePay,
+    grossPay: roundMoney(basePay + overtimePay + leavePay),
+  }
+}
+
+// Deduction totals and net pay; net pay never goes below zero
+export const payslipTotalsOf = (
+  grossPay: number,
+  deductionPercent: number,
+  deductions: PayrollDeduction[]
+): Pick<Payslip, "statutoryDeduction" | "totalDeductions" | "netPay"> => {
+  const statutoryDeduction = roundMoney(grossPay * deductionPercent / 100)
+  const totalDeductions = roundMoney(deductions.reduce((sum, deduction) => sum + deduction.amount, statutoryDeduction))
+  return { statutoryDeduction, totalDeductions, netPay: Math.max(0, roundMoney(grossPay - totalDeductions)) }
+}
+
+export const payrollTotalsOf = (payslips: Payslip[]): Pick<PayrollRun, "workerCount" | "totalGross" | "totalDeductions" | "totalNet"> => ({
+  workerCount: payslips.length,
+  totalGross: roundMoney(payslips.reduce((sum, payslip) => sum + payslip.grossPay, 0)),
+  totalDeductions: roundMoney(payslips.reduce((sum, payslip) => sum + payslip.totalDeductions, 0)),
+  totalNet: roundMoney(payslips.reduce((sum, payslip) => sum + payslip.netPay, 0)),
+})
+
+export const formatMoney = (amount: number): string => `₹${amount.toFixed(2)}`
+
+// A plain-text payslip for sharing with the worker
+export const payslipText = (payslip: Payslip): string => {
+  const line = (label: string, value: string) => `${label.padEnd(24)}${value}`
+  return [
+    `PAYSLIP ${payslip.month}`,
+    `${payslip.workerName}${payslip.employeeId ? ` (${payslip.employeeId})` : ""} · ${payslip.category}`,
+    "",
+    line("Days present", String(payslip.presentDays)),
+    line("Half days", String(payslip.halfDays)),
+    line("Paid leave days", String(payslip.leaveDays)),
+    line("Absent days", String(payslip.absentDays)),
+    line("Overtime hours", String(payslip.overtimeHours)),
+    "",
+    line("Basic pay", formatMoney(payslip.basePay)),
+    line("Overtime pay", formatMoney(payslip.overtimePay)),
+    line("Leave pay", formatMoney(payslip.leavePay)),
+    line("Gross pay", formatMoney(payslip.grossPay)),
+    "",
+    line(`Statutory (${payslip.deductionPercent}%)`, formatMoney(payslip.statutoryDeduction)),
+    ...payslip.deductions.map(deduction => line(deduction.label, formatMoney(deduction.amount))),
+    line("Total deductions", formatMoney(payslip.totalDeductions)),
+    "",
+    line("NET PAY", formatMoney(payslip.netPay)),
+  ].join("\n")
+}
+
+// The bank's bulk transfer file: one row per worker with something to pay. Workers
+// without an account number or IFSC are left out and listed so HR can pay them by hand.
+export const bankTransferFileOf = (payslips: Payslip[]): { csv: string, missingBankDetails: Payslip[] } => {
+  const payable = payslips.filter(payslip => payslip.netPay > 0)
+  const missingBankDetails = payable.filter(payslip => !payslip.bankAccountNumber || !payslip.ifscCode)
+  const rows = payable
+    .filter(payslip => payslip.bankAccountNumber && payslip.ifscCode)
+    .map(payslip => [
+      payslip.employeeId || payslip.workerId,
+      payslip.workerName,
+      payslip.bankAccountNumber!,
+      payslip.ifscCode!,
+      payslip.netPay.toFixed(2),
+      `Wages ${payslip.month}`,
+    ])
+
+  return {
+    csv: toCsv([["Employee ID", "Beneficiary Name", "Account Number", "IFSC", "Amount", "Narration"], ...rows]),
+    missingBankDetails,
+  }
+}
+
+const toMoney = (value: any): number => typeof value === "number" && Number.isFinite(value) ? value : 0
+
+const toDeductions = (value: any): PayrollDeduction[] =>
+  Array.isArray(value)
+    ? value
+      .filter((item: any) => item && typeof item.label === "string")
+      .map((item: any) => ({ label: item.label, amount: toMoney(item.amount) }))
+    : []
+
+export const wageRateFromDoc = (id: string, data: DocumentFields): WithId<WageRate> => ({
+  id,
+  category: data.category || id,
+  dailyRate: toMoney(data.dailyRate),
+  overtimeHourlyRate: toMoney(data.overtimeHourlyRate),
+  deductionPercent: toMoney(data.deductionPercent),
+  updatedBy: data.updatedBy || "",
+  updatedAt: toOptionalDate(data.updatedAt),
+})
+
+export const payslipFromDoc = (id: string, data: DocumentFields): WithId<Payslip> => ({
+  id,
+  month: data.month || id.split("_")[0],
+  workerId: data.workerId || "",
+  workerName: data.workerName || "Unknown Worker",
+  employeeId: data.employeeId || undefined,
+  category: data.category || "",
+  bankAccountNumber: data.bankAccountNumber || undefined,
+  ifscCode: data.ifscCode || undefined,
+  dailyRate: toMoney(data.dailyRate),
+  overtimeHourlyRate: toMoney(data.overtimeHourlyRate),
+  deductionPercent: toMoney(data.deductionPercent),
+  presentDays: toMoney(data.presentDays),
+  halfDays: toMoney(data.halfDays),
+  leaveDays: toMoney(data.leaveDays),
+  absentDays: toMoney(data.absentDays),
+  overtimeHours: toMoney(data.overtimeHours),
+  basePay: toMoney(data.basePay),
+  overtimePay: toMoney(data.overtimePay),
+  leavePay: toMoney(data.leavePay),
+  grossPay: toMoney(data.grossPay),
+  statutoryDeduction: toMoney(data.statutoryDeduction),
+  deductions: toDeductions(data.deductions),
+  totalDeductions: toMoney(data.totalDeductions),
+  netPay: toMoney(data.netPay),
+})
+
+export const payrollRunFromDoc = (id: string, data: DocumentFields): WithId<PayrollRun> => ({
+  id,
+  month: data.month || id,
+  status: toEnum(data.status, PAYROLL_RUN_STATUSES, "draft"),
+  workerCount: toMoney(data.workerCount),
+  totalGross: toMoney(data.totalGross),
+  totalDeductions: toMoney(data.totalDeductions),
+  totalNet: toMoney(data.totalNet),
+  skippedWorkers: Array.isArray(data.skippedWorkers)
+    ? data.skippedWorkers.map((worker: any) => ({
+      workerId: worker?.workerId || "",
+      workerName: worker?.workerName || "Unknown Worker",
+      reason: worker?.reason || "",
+    }))
+    : [],
+  generatedBy: data.generatedBy || "",
+  generatedAt: toDate(data.generatedAt),
+  approvedBy: data.approvedBy || undefined,
+  approvedAt: toOptionalDate(data.approvedAt),
+})
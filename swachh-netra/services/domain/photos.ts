@@ -0,0 +1,44 @@
+import { Coordinates, DocumentFields, toCoordinates, toOptionalDate } from "./shared"
+
+// A photo kept as evidence on an attendance or trip record
+export interface PhotoEvidence {
+  url: string
+  storagePath?: string // absent for legacy photos that were never uploaded
+  capturedAt?: Date
+  location?: Coordinates
+  uploadedBy?: string
+  width?: number
+  height?: number
+}
+
+// Older records only hold the file path on the driver's phone
+export const isRemotePhotoUrl = (uri: string): boolean => /^https?:\/\//.test(uri)
+
+export const photoEvidenceFromData = (value: any, fallbackUrl?: string): PhotoEvidence | undefined => {
+  if (!value || typeof value.url !== "string") {
+    return fallbackUrl ? { url: fallbackUrl } : undefined
+  }
+  return {
+    url: value.url,
+    storagePath: value.storagePath || undefined,
+    capturedAt: toOptionalDate(value.capturedAt),
+    location: toCoordinates(value.location),
+    uploadedBy: value.uploadedBy || undefined,
+    width: typeof value.width === "number" ? value.width : undefined,
+    height: typeof value.height === "number" ? value.height : undefined,
+  }
+}
+
+export const photoEvidenceListFromData = (value: any): PhotoEvidence[] | undefined =>
+  Array.isArray(value)
+    ? value.map(photo => photoEvidenceFromData(photo)).filter((photo): photo is PhotoEvidence => !!photo)
+    : undefined
+
+// Firestore rejects undefined fields, so only the known metadata is written
+export const photoEvidenceToData = (photo: PhotoEvidence): DocumentFields => {
+  const data: DocumentFields = {}
+  Object.entries(photo).forEach(([field, value]) => {
+    if (value !== undefined) data[field] = value
+  })
+  return data
+}
@@ -0,0 +1,322 @@
+import type { AttendanceRecord } from "./attendance"
+import { Coordinates, DocumentFields, WithId, distanceInMeters, toCoordinates, toDate } from "./shared"
+
+// Thresholds for calling marks suspicious
+export interface ProxyDetectionRules {
+  maxHashDistance: number // bits out of 64 two photo hashes may differ by and still be the same photo
+  burstMinMarks: number
+  burstWindowSeconds: number
+  burstRadiusMeters: number
+}
+
+export const DEFAULT_PROXY_DETECTION_RULES: ProxyDetectionRules = {
+  maxHashDistance: 6,
+  burstMinMarks: 4,
+  burstWindowSeconds: 60,
+  burstRadiusMeters: 25,
+}
+
+// A present mark as the detection sees it
+export interface ProxyMark {
+  recordId: string
+  workerId: string
+  workerName: string
+  driverId: string
+  driverName?: string
+  contractorId?: string
+  attendanceDate: string
+  timestamp: Date
+  photoUrl?: string
+  photoHash?: string
+  location?: Coordinates
+}
+
+// Marks whose photos are the same picture, for more than one worker or day
+export interface DuplicatePhotoGroup {
+  hash: string
+  marks: ProxyMark[] // oldest first
+}
+
+// A driver marking several workers within seconds from one spot
+export interface MarkBurst {
+  driverId: string
+  driverName?: string
+  startedAt: Date
+  endedAt: Date
+  marks: ProxyMark[] // oldest first
+}
+
+// One driver's or contractor's line on the fraud report
+export interface FraudReportRow {
+  id: string
+  name: string
+  marks: number
+  duplicatePhotoMarks: number
+  burstMarks: number
+  suspiciousMarks: number // marks in a duplicate group, a burst or both
+  suspiciousRate: number // 0..1
+}
+
+export interface ProxyDetectionReport {
+  id?: string
+  startDate: Date
+  endDate: Date
+  recordsScanned: number
+  photosHashed: number
+  photosUnreadable: number
+  duplicateGroups: DuplicatePhotoGroup[]
+  bursts: MarkBurst[]
+  drivers: FraudReportRow[] // most suspicious first
+  contractors: FraudReportRow[]
+  runBy: string
+  createdAt: Date
+}
+
+// The width and height a photo is shrunk to before hashing: each row gives 8 bits
+export const PHOTO_HASH_SIZE = { width: 9, height: 8 }
+
+// Luminance of RGBA pixels
+export const grayscaleOf = (rgba: ArrayLike<number>): number[] => {
+  const gray: number[] = []
+  for (let i = 0; i + 3 < rgba.length; i += 4) {
+    gray.push(0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2])
+  }
+  return gray
+}
+
+// Difference hash of a 9x8 grayscale thumbnail: one bit per neighbouring pixel pair, set when
+// brightness falls to the right. Recompressed, resized or slightly re-lit copies of a photo
+// hash within a few bits of each other. Returned as 16 hex digits.
+export const differenceHashOf = (gray: ArrayLike<number>): string => {
+  const { width, height } = PHOTO_HASH_SIZE
+  if (gray.length !== width * height) throw new Error(`Expected ${width * height} pixels, got ${gray.length}`)
+
+  let hash = ""
+  for (let row = 0; row < height; row++) {
+    let byte = 0
+    for (let column = 0; column < width - 1; column++) {
+      const left = gray[row * width + column]
+      const right = gray[row * width + column + 1]
+      byte = (byte << 1) | (left > right ? 1 : 0)
+    }
+    hash += byte.toString(16).padStart(2, "0")
+  }
+  return hash
+}
+
+// Number of differing bits between two hashes of the same length
+export const hashDistance = (a: string, b: string): number => {
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (bits) {
+      distance += bits & 1
+      bits >>= 1
+    }
+  }
+  return distance
+}
+
+export const proxyMarkOf = (record: WithId<AttendanceRecord>): ProxyMark => ({
+  recordId: record.id,
+  workerId: record.workerId,
+  workerName: record.workerName,
+  driverId: record.driverId,
+  driverName: record.driverName,
+  contractorId: record.contractorId,
+  attendanceDate: record.attendanceDate,
+  timestamp: record.timestamp,
+  photoUrl: record.photo?.url ?? record.photoUri,
+  photoHash: record.photoHash,
+  location: record.location ? { latitude: record.location.latitude, longitude: record.location.longitude } : undefined,
+})
+
+const byTime = (a: ProxyMark, b: ProxyMark) => a.timestamp.getTime() - b.timestamp.getTime()
+
+// Photos within maxHashDistance of each other are grouped, transitively. A worker's own
+// photo on several trips of one day is expected, so a group needs a second worker or day.
+export const findDuplicatePhotos = (marks: ProxyMark[], maxHashDistance: number): DuplicatePhotoGroup[] => {
+  const hashed = marks.filter(mark => mark.photoHash)
+  const parent = hashed.map((_, index) => index)
+  const root = (index: number): number => parent[index] === index ? index : (parent[index] = root(parent[index]))
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      if (hashDistance(hashed[i].photoHash!, hashed[j].photoHash!) <= maxHashDistance) parent[root(j)] = root(i)
+    }
+  }
+
+  const groups = new Map<number, ProxyMark[]>()
+  hashed.forEach((mark, index) => groups.set(root(index), [...(groups.get(root(index)) ?? []), mark]))
+
+  return Array.from(groups.values())
+    .filter(group =>
+      new Set(group.map(mark => mark.workerId)).size > 1 || new Set(group.map(mark => mark.attendanceDate)).size > 1
+    )
+    .map(group => {
+      const sorted = [...group].sort(byTime)
+      return { hash: sorted[0].photoHash!, marks: sorted }
+    })
+    .sort((a, b) => b.marks.length - a.marks.length || byTime(a.marks[0], b.marks[0]))
+}
+
+// Runs of at least burstMinMarks marks by one driver inside burstWindowSeconds. Marks with a
+// location must be within burstRadiusMeters of the run's first located mark; marks without
+// one are counted on timing alone.
+export const findMarkBursts = (marks: ProxyMark[], rules: ProxyDetectionRules): MarkBurst[] => {
+  const byDriver = new Map<string, ProxyMark[]>()
+  marks.forEach(mark => byDriver.set(mark.driverId, [...(byDriver.get(mark.driverId) ?? []), mark]))
+
+  const bursts: MarkBurst[] = []
+  byDriver.forEach(driverMarks => {
+    const sorted = [...driverMarks].sort(byTime)
+    let start = 0
+    while (start < sorted.length) {
+      let end = start
+      while (
+        end + 1 < sorted.length &&
+        sorted[end + 1].timestamp.getTime() - sorted[start].timestamp.getTime() <= rules.burstWindowSeconds * 1000
+      ) end++
+
+      const window = sorted.slice(start, end + 1)
+      const anchor = window.find(mark => mark.location)?.location
+      const atSpot = window.filter(mark =>
+        !anchor || !mark.location || distanceInMeters(anchor, mark.location) <= rules.burstRadiusMeters
+      )
+
+      if (atSpot.length >= rules.burstMinMarks) {
+        bursts.push({
+          driverId: atSpot[0].driverId,
+          driverName: atSpot[0].driverName,
+          startedAt: atSpot[0].timestamp,
+          endedAt: atSpot[atSpot.length - 1].timestamp,
+          marks: atSpot,
+        })
+        start = end + 1
+      } else {
+        start++
+      }
+    }
+  })
+
+  return bursts.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+}
+
+// Suspicious marks per driver and per contractor, most suspicious first
+export const fraudReportOf = (
+  marks: ProxyMark[],
+  duplicateGroups: DuplicatePhotoGroup[],
+  bursts: MarkBurst[],
+  contractorNames: { [contractorId: string]: string } = {}
+): { drivers: FraudReportRow[], contractors: FraudReportRow[] } => {
+  const duplicated = new Set(duplicateGroups.flatMap(group => group.marks.map(mark => mark.recordId)))
+  const bursted = new Set(bursts.flatMap(burst => burst.marks.map(mark => mark.recordId)))
+
+  const rowsBy = (key: (mark: ProxyMark) => string | undefined, name: (mark: ProxyMark, id: string) => string) => {
+    const rows = new Map<string, FraudReportRow>()
+    marks.forEach(mark => {
+      const id = key(mark)
+      if (!id) return
+      const row = rows.get(id) ?? {
+        id, name: name(mark, id), marks: 0, duplicatePhotoMarks: 0, burstMarks: 0, suspiciousMarks: 0, suspiciousRate: 0,
+      }
+      row.marks++
+      if (duplicated.has(mark.recordId)) row.duplicatePhotoMarks++
+      if (bursted.has(mark.recordId)) row.burstMarks++
+      if (duplicated.has(mark.recordId) || bursted.has(mark.recordId)) row.suspiciousMarks++
+      row.suspiciousRate = row.suspiciousMarks / row.marks
+      rows.set(id, row)
+    })
+    return Array.from(rows.values())
+      .sort((a, b) => b.suspiciousMarks - a.suspiciousMarks || b.suspiciousRate - a.suspiciousRate || a.name.localeCompare(b.name))
+  }
+
+  return {
+    drivers: rowsBy(mark => mark.driverId, (mark, id) => mark.driverName || id),
+    contractors: rowsBy(mark => mark.contractorId, (_, id) => contractorNames[id] || id),
+  }
+}
+
+const proxyMarkToData = (mark: ProxyMark): DocumentFields => ({
+  recordId: mark.recordId,
+  workerId: mark.workerId,
+  workerName: mark.workerName,
+  driverId: mark.driverId,
+  driverName: mark.driverName || null,
+  contractorId: mark.contractorId || null,
+  attendanceDate: mark.attendanceDate,
+  timestamp: mark.timestamp,
+  photoUrl: mark.photoUrl || null,
+  photoHash: mark.photoHash || null,
+  location: mark.location ? { latitude: mark.location.latitude, longitude: mark.location.longitude } : null,
+})
+
+const proxyMarkFromData = (data: DocumentFields): ProxyMark => ({
+  recordId: data.recordId,
+  workerId: data.workerId,
+  workerName: data.workerName || "Unknown Worker",
+  driverId: data.driverId || "",
+  driverName: data.driverName || undefined,
+  contractorId: data.contractorId || undefined,
+  attendanceDate: data.attendanceDate || "",
+  timestamp: toDate(data.timestamp),
+  photoUrl: data.photoUrl || undefined,
+  photoHash: data.photoHash || undefined,
+  location: toCoordinates(data.location),
+})
+
+const fraudReportRowFromData = (data: DocumentFields): FraudReportRow => ({
+  id: data.id,
+  name: data.name || data.id,
+  marks: data.marks ?? 0,
+  duplicatePhotoMarks: data.duplicatePhotoMarks ?? 0,
+  burstMarks: data.burstMarks ?? 0,
+  suspiciousMarks: data.suspiciousMarks ?? 0,
+  suspiciousRate: data.suspiciousRate ?? 0,
+})
+
+const toArray = (value: any): DocumentFields[] => Array.isArray(value) ? value : []
+
+// createdAt is left to the writer
+export const proxyDetectionReportToData = (report: ProxyDetectionReport): DocumentFields => ({
+  startDate: report.startDate,
+  endDate: report.endDate,
+  recordsScanned: report.recordsScanned,
+  photosHashed: report.photosHashed,
+  photosUnreadable: report.photosUnreadable,
+  duplicateGroups: report.duplicateGroups.map(group => ({ hash: group.hash, marks: group.marks.map(proxyMarkToData) })),
+  bursts: report.bursts.map(burst => ({
+    driverId: burst.driverId,
+    driverName: burst.driverName || null,
+    startedAt: burst.startedAt,
+    endedAt: burst.endedAt,
+    marks: burst.marks.map(proxyMarkToData),
+  })),
+  drivers: report.drivers.map(row => ({ ...row })),
+  contractors: report.contractors.map(row => ({ ...row })),
+  runBy: report.runBy,
+})
+
+export const proxyDetectionReportFromDoc = (id: string, data: DocumentFields): WithId<ProxyDetectionReport> => ({
+  id,
+  startDate: toDate(data.startDate),
+  endDate: toDate(data.endDate),
+  recordsScanned: data.recordsScanned ?? 0,
+  photosHashed: data.photosHashed ?? 0,
+  photosUnreadable: data.photosUnreadable ?? 0,
+  duplicateGroups: toArray(data.duplicateGroups).map(group => ({
+    hash: group.hash || "",
+    marks: toArray(group.marks).map(proxyMarkFromData),
+  })),
+  bursts: toArray(data.bursts).map(burst => ({
+    driverId: burst.driverId || "",
+    driverName: burst.driverName || undefined,
+    startedAt: toDate(burst.startedAt),
+    endedAt: toDate(burst.endedAt),
+    marks: toArray(burst.marks).map(proxyMarkFromData),
+  })),
+  drivers: toArray(data.drivers).map(fraudReportRowFromData),
+  contractors: toArray(data.contractors).map(fraudReportRowFromData),
+  runBy: data.runBy || "",
+  createdAt: toDate(data.createdAt),
+})
@@ -0,0 +1,239 @@
+import { Coordinates, distanceInMeters, isKnownLocation, toDate, toOptionalDate, toStringArray } from "./shared"
+import { DEFAULT_COLLECTION_SCHEDULE, FeederPoint, TripTimeWindow } from "./feederPoints"
+import { parseShiftTime } from "./shifts"
+
+// What the planner assumes when turning straight-line distances into a day's estimate
+export interface RoutePlanningOptions {
+  startTime: string // HH:MM the vehicle leaves the depot, or reaches the first stop without one
+  averageSpeedKmh: number
+  serviceMinutes: number // spent collecting at each stop
+  roadFactor: number // road meters per straight-line meter
+}
+
+export const DEFAULT_ROUTE_OPTIONS: RoutePlanningOptions = {
+  startTime: "06:00",
+  averageSpeedKmh: 20,
+  serviceMinutes: 15,
+  roadFactor: 1.3,
+}
+
+// A feeder point to be put in order
+export interface RoutePoint {
+  feederPointId: string
+  coordinates?: Coordinates
+  timeWindows: TripTimeWindow[]
+}
+
+export const routePointOf = (feederPoint: FeederPoint): RoutePoint => ({
+  feederPointId: feederPoint.id || "",
+  coordinates: feederPoint.coordinates,
+  timeWindows: (feederPoint.collectionSchedule ?? DEFAULT_COLLECTION_SCHEDULE).timeWindows,
+})
+
+export interface RouteStop {
+  feederPointId: string
+  arrival: number // minutes after midnight
+  wait: number // minutes waiting for the point's window to open
+  late: number // minutes after the point's last window closed
+  distanceMeters: number // from the previous stop, or the depot
+}
+
+export interface RoutePlan {
+  stops: RouteStop[]
+  unlocatedIds: string[] // points without coordinates, kept at the end in their given order
+  distanceMeters: number
+  durationMinutes: number
+  lateStopCount: number
+}
+
+// The accepted route saved on a daily assignment, whose feederPointIds are then in route order
+export interface AssignmentRoute {
+  stopIds: string[] // feeder point ids in visiting order; empty on routes accepted before it was stored
+  distanceMeters: number
+  durationMinutes: number
+  lateStopCount: number
+  acceptedAt: Date
+  acceptedBy: string
+}
+
+// A minute late at a stop costs as much as this many minutes of driving
+const LATE_PENALTY = 60
+const MAX_IMPROVEMENT_PASSES = 50
+
+const isLocated = (point: RoutePoint): point is RoutePoint & { coordinates: Coordinates } =>
+  isKnownLocation(point.coordinates)
+
+const windowsInMinutes = (windows: TripTimeWindow[]) => windows
+  .map(window => ({ start: parseShiftTime(window.start) ?? 0, end: parseShiftTime(window.end) ?? 24 * 60 }))
+  .sort((a, b) => a.start - b.start)
+
+interface Leg {
+  distanceMeters: number
+  minutes: number
+}
+
+const legBetween = (from: Coordinates, to: Coordinates, options: RoutePlanningOptions): Leg => {
+  const distance = distanceInMeters(from, to) * options.roadFactor
+  return { distanceMeters: distance, minutes: distance / (options.averageSpeedKmh * 1000 / 60) }
+}
+
+// When a vehicle reaching a point at the given minute can collect there, and how late that is
+const collectionAt = (point: RoutePoint, arrival: number): { wait: number, late: number } => {
+  const windows = windowsInMinutes(point.timeWindows)
+  if (windows.length === 0) return { wait: 0, late: 0 }
+  const open = windows.find(window => window.end > arrival)
+  if (!open) return { wait: 0, late: arrival - windows[windows.length - 1].end }
+  return { wait: Math.max(0, open.start - arrival), late: 0 }
+}
+
+interface Simulation {
+  stops: RouteStop[]
+  distanceMeters: number
+  endTime: number
+  cost: number
+}
+
+const simulate = (
+  points: (RoutePoint & { coordinates: Coordinates })[],
+  depot: Coordinates | undefined,
+  options: RoutePlanningOptions
+): Simulation => {
+  const startTime = parseShiftTime(options.startTime) ?? 0
+  let time = startTime
+  let distance = 0
+  let position = depot ?? points[0]?.coordinates
+  let lateness = 0
+
+  const stops = points.map(point => {
+    const leg = position ? legBetween(position, point.coordinates, options) : { distanceMeters: 0, minutes: 0 }
+    const arrival = time + leg.minutes
+    const { wait, late } = collectionAt(point, arrival)
+
+    time = arrival + wait + options.serviceMinutes
+    distance += leg.distanceMeters
+    position = point.coordinates
+    lateness += late
+    return { feederPointId: point.feederPointId, arrival, wait, late, distanceMeters: leg.distanceMeters }
+  })
+
+  if (depot && position && points.length > 0) {
+    const back = legBetween(position, depot, options)
+    time += back.minutes
+    distance += back.distanceMeters
+  }
+  return { stops, distanceMeters: distance, endTime: time, cost: time - startTime + lateness * LATE_PENALTY }
+}
+
+const planOf = (simulation: Simulation, unlocatedIds: string[], options: RoutePlanningOptions): RoutePlan => ({
+  stops: simulation.stops.map(stop => ({
+    ...stop,
+    arrival: Math.round(stop.arrival),
+    wait: Math.round(stop.wait),
+    late: Math.round(stop.late),
+    distanceMeters: Math.round(stop.distanceMeters),
+  })),
+  unlocatedIds,
+  distanceMeters: Math.round(simulation.distanceMeters),
+  durationMinutes: Math.round(simulation.endTime - (parseShiftTime(options.startTime) ?? 0)),
+  lateStopCount: simulation.stops.filter(stop => stop.late > 0).length,
+})
+
+// Estimate the route that visits the points in the order given, starting and ending at the depot
+export const estimateRoute = (
+  points: RoutePoint[],
+  depot?: Coordinates,
+  options: RoutePlanningOptions = DEFAULT_ROUTE_OPTIONS
+): RoutePlan => {
+  const located = points.filter(isLocated)
+  const unlocatedIds = points.filter(point => !isLocated(point)).map(point => point.feederPointId)
+  return planOf(simulate(located, depot, options), unlocatedIds, options)
+}
+
+// Put the points in a good visiting order: build a route by always going to the stop that can be
+// collected soonest, then improve it with 2-opt, reversing any stretch of it that makes the day
+// shorter or gets the vehicle to a point inside its time window. Being late at a point outweighs
+// an hour of extra driving.
+export const planRoute = (
+  points: RoutePoint[],
+  depot?: Coordinates,
+  options: RoutePlanningOptions = DEFAULT_ROUTE_OPTIONS
+): RoutePlan => {
+  const remaining = points.filter(isLocated)
+  const unlocatedIds = points.filter(point => !isLocated(point)).map(point => point.feederPointId)
+
+  let route: typeof remaining = []
+  let time = parseShiftTime(options.startTime) ?? 0
+  let position = depot
+  while (remaining.length > 0) {
+    const ready = remaining.map(point => {
+      const arrival = time + (position ? legBetween(position, point.coordinates, options).minutes : 0)
+      const { wait, late } = collectionAt(point, arrival)
+      return { at: arrival + wait, cost: arrival + wait + late * LATE_PENALTY }
+    })
+    const next = ready.reduce((best, candidate, index) => candidate.cost < ready[best].cost ? index : best, 0)
+
+    time = ready[next].at + options.serviceMinutes
+    position = remaining[next].coordinates
+    route.push(...remaining.splice(next, 1))
+  }
+
+  let current = simulate(route, depot, options)
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false
+    for (let i = 0; i < route.length - 1; i++) {
+      for (let j = i + 1; j < route.length; j++) {
+        const candidate = [...route.slice(0, i), ...route.slice(i, j + 1).reverse(), ...route.slice(j + 1)]
+        const simulation = simulate(candidate, depot, options)
+        if (simulation.cost < current.cost - 1e-6) {
+          route = candidate
+          current = simulation
+          improved = true
+        }
+      }
+    }
+    if (!improved) break
+  }
+
+  return planOf(current, unlocatedIds, options)
+}
+
+// The feeder point ids of a plan in visiting order, points without coordinates last
+export const routeOrderOf = (plan: RoutePlan): string[] =>
+  [...plan.stops.map(stop => stop.feederPointId), ...plan.unlocatedIds]
+
+// A feeder point's stop number on the accepted route, counting from 1. Routes accepted before
+// their stops were stored follow the assignment's point order, which was saved in route order.
+export const routeStopNumberOf = (
+  route: AssignmentRoute | undefined,
+  feederPointIds: string[],
+  feederPointId: string
+): number | undefined => {
+  if (!route) return undefined
+  const index = (route.stopIds.length > 0 ? route.stopIds : feederPointIds).indexOf(feederPointId)
+  return index >= 0 ? index + 1 : undefined
+}
+
+// "1h 25m" for a number of minutes
+export const formatRouteDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60)
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`
+}
+
+export const formatRouteDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${meters} m`
+
+// "HH:MM" for minutes after midnight
+export const formatRouteTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60) % 24).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`
+
+export const assignmentRouteFromData = (data: any): AssignmentRoute | undefined => {
+  if (!data || !toOptionalDate(data.acceptedAt)) return undefined
+  return {
+    stopIds: toStringArray(data.stopIds),
+    distanceMeters: Number(data.distanceMeters) || 0,
+    durationMinutes: Number(data.durationMinutes) || 0,
+    lateStopCount: Number(data.lateStopCount) || 0,
+    acceptedAt: toDate(data.acceptedAt),
+    acceptedBy: data.acceptedBy || "",
+  }
+}
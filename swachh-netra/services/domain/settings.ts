@@ -0,0 +1,103 @@
+import { DocumentFields, toOptionalDate } from "./shared"
+
+export type SettingValue = boolean | number | string | Date | null
+
+// The single document at systemSettings/current
+export interface SystemSettings {
+  maintenanceMode: boolean
+  maintenanceMessage: string
+  maintenanceStartsAt: Date | null // start of a scheduled maintenance window
+  maintenanceEndsAt: Date | null // end of the window, shown to users as the ETA
+  allowNewRegistrations: boolean
+  requireApprovalForDrivers: boolean
+  requireApprovalForContractors: boolean
+  maxVehiclesPerContractor: number // 0 means no limit
+  maxFeederPointsPerContractor: number // 0 means no limit
+  casualLeavePerYear: number // days each worker may take per calendar year
+  sickLeavePerYear: number
+  earnedLeavePerYear: number
+  attendanceRadiusMeters: number // how far from the feeder point a present mark may be made; 0 turns the check off
+  attendanceMaxAccuracyMeters: number // GPS fixes less precise than this are flagged; 0 turns the check off
+  missedCollectionEscalationHours: number // how long a missed collection may stay unresolved before admins are told; 0 turns escalation off
+  systemNotifications: boolean
+  emailNotifications: boolean
+  smsNotifications: boolean
+  updatedAt?: Date
+  updatedBy?: string
+}
+
+export type SystemSettingKey = Exclude<keyof SystemSettings, "updatedAt" | "updatedBy">
+
+export type SystemSettingsUpdate = Partial<Pick<SystemSettings, SystemSettingKey>>
+
+export const DEFAULT_SYSTEM_SETTINGS: Readonly<SystemSettings> = Object.freeze({
+  maintenanceMode: false,
+  maintenanceMessage: "",
+  maintenanceStartsAt: null,
+  maintenanceEndsAt: null,
+  allowNewRegistrations: true,
+  requireApprovalForDrivers: true,
+  requireApprovalForContractors: true,
+  maxVehiclesPerContractor: 10,
+  maxFeederPointsPerContractor: 20,
+  casualLeavePerYear: 12,
+  sickLeavePerYear: 12,
+  earnedLeavePerYear: 15,
+  attendanceRadiusMeters: 200,
+  attendanceMaxAccuracyMeters: 100,
+  missedCollectionEscalationHours: 4,
+  systemNotifications: true,
+  emailNotifications: true,
+  smsNotifications: false,
+})
+
+export const SYSTEM_SETTING_KEYS = Object.keys(DEFAULT_SYSTEM_SETTINGS) as SystemSettingKey[]
+
+// Settings holding a Date (or null when unset) rather than a primitive
+export const DATE_SETTING_KEYS: readonly SystemSettingKey[] = ["maintenanceStartsAt", "maintenanceEndsAt"]
+
+// One entry in the systemSettingsHistory collection
+export interface SettingsChange {
+  id: string
+  changedBy: string
+  changedAt: Date
+  changes: { [key: string]: { from: SettingValue, to: SettingValue } }
+}
+
+export const isSameSettingValue = (a: SettingValue, b: SettingValue): boolean =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b
+
+// Missing or malformed fields fall back to their defaults
+export const systemSettingsFromData = (data: DocumentFields | undefined): SystemSettings => {
+  const settings: SystemSettings = { ...DEFAULT_SYSTEM_SETTINGS }
+  if (!data) return settings
+
+  SYSTEM_SETTING_KEYS.forEach(key => {
+    if (DATE_SETTING_KEYS.includes(key)) {
+      (settings as any)[key] = toOptionalDate(data[key]) ?? null
+    } else if (typeof data[key] === typeof DEFAULT_SYSTEM_SETTINGS[key]) {
+      (settings as any)[key] = data[key]
+    }
+  })
+  settings.updatedAt = toOptionalDate(data.updatedAt)
+  settings.updatedBy = data.updatedBy || undefined
+  return settings
+}
+
+// Timestamps recorded in the history come back as Dates
+const settingValueFromData = (value: any): SettingValue =>
+  value && typeof value.toDate === "function" ? value.toDate() : value ?? null
+
+export const settingsChangeFromDoc = (id: string, data: DocumentFields): SettingsChange => {
+  const changes: SettingsChange["changes"] = {}
+  Object.entries(data.changes || {}).forEach(([key, change]: [string, any]) => {
+    changes[key] = { from: settingValueFromData(change?.from), to: settingValueFromData(change?.to) }
+  })
+
+  return {
+    id,
+    changedBy: data.changedBy || "",
+    changedAt: toOptionalDate(data.changedAt) || new Date(0),
+    changes,
+  }
+}
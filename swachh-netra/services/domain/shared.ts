@@ -0,0 +1,74 @@
+// Raw Firestore document payload
+export type DocumentFields = { [field: string]: any }
+
+// Entities read back from Firestore always carry their document id
+export type WithId<T extends { id?: string }> = T & { id: string }
+
+export interface Coordinates {
+  latitude: number
+  longitude: number
+}
+
+// Convert Firestore Timestamps, ISO strings, epoch millis and Dates to a Date
+export const toOptionalDate = (value: any): Date | undefined => {
+  if (value === null || value === undefined || value === "") return undefined
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value
+  if (typeof value.toDate === "function") return value.toDate()
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? undefined : date
+  }
+  if (typeof value.seconds === "number") return new Date(value.seconds * 1000)
+  return undefined
+}
+
+export const toDate = (value: any, fallback: Date = new Date()): Date => toOptionalDate(value) ?? fallback
+
+const toNumber = (value: any): number =>
+  value === null || value === undefined || value === "" ? NaN : Number(value)
+
+export const toCoordinates = (value: any): Coordinates | undefined => {
+  if (!value) return undefined
+  const latitude = toNumber(value.latitude ?? value.lat)
+  const longitude = toNumber(value.longitude ?? value.lng)
+  if (!isFinite(latitude) || !isFinite(longitude)) return undefined
+  return { latitude, longitude }
+}
+
+// Coordinates typed as "19.0760, 72.8777", or null when the text cannot be read
+export const parseCoordinates = (text: string): Coordinates | null => {
+  const match = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/.exec(text)
+  if (!match) return null
+  const latitude = Number(match[1])
+  const longitude = Number(match[2])
+  return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 ? { latitude, longitude } : null
+}
+
+// Feeder points saved from an untouched form sit at 0,0, which counts as no location
+export const isKnownLocation = (coordinates: Coordinates | undefined): coordinates is Coordinates =>
+  !!coordinates && (coordinates.latitude !== 0 || coordinates.longitude !== 0)
+
+// Great-circle distance in meters (haversine formula)
+export const distanceInMeters = (from: Coordinates, to: Coordinates): number => {
+  const R = 6371e3 // Earth's radius in meters
+  const φ1 = from.latitude * Math.PI / 180
+  const φ2 = to.latitude * Math.PI / 180
+  const Δφ = (to.latitude - from.latitude) * Math.PI / 180
+  const Δλ = (to.longitude - from.longitude) * Math.PI / 180
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) *
+    Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+export const toStringArray = (value: any): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : []
+
+// Pick a value from a fixed set, falling back when a document carries something unexpected
+export const toEnum = <T extends string>(value: any, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value) ? value : fallback
+
+// Comma-separated text with quoting where a field needs it, one line per row
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(field => /[",\n]/.test(field) ? `"${field.replace(/"/g, "\"\"")}"` : field).join(",")).join("\n")
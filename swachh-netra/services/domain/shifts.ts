@@ -0,0 +1,165 @@
+import { AttendanceRecord } from "./attendance"
+import { DocumentFields, toDate, toOptionalDate, WithId } from "./shared"
+
+export const SHIFT_ASSIGNMENT_TARGETS = ["worker", "feederPoint"] as const
+export type ShiftAssignmentTarget = typeof SHIFT_ASSIGNMENT_TARGETS[number]
+
+// A document in the shiftPolicies collection. Times are local "HH:MM";
+// a shift whose end is not after its start runs past midnight.
+export interface ShiftPolicy {
+  id?: string
+  name: string
+  startTime: string
+  endTime: string
+  graceMinutes: number // arriving late or leaving early by up to this much is still on time
+  halfDayLateMinutes: number // arriving this many minutes late counts as a half day
+  halfDayMinimumHours: number // checking out with fewer hours worked counts as a half day
+  weeklyOffs: number[] // days of the week, 0 = Sunday
+  isDefault: boolean // applies to anyone without a worker or feeder point assignment
+  updatedBy?: string
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+// A document in the shiftAssignments collection, stored under shiftAssignmentId
+export interface ShiftAssignment {
+  id?: string
+  targetType: ShiftAssignmentTarget
+  targetId: string
+  policyId: string
+  assignedBy: string
+  assignedAt: Date
+}
+
+// Used until HR saves a default policy; keeps the 9 AM start the app always assumed
+export const STANDARD_SHIFT_POLICY: Readonly<ShiftPolicy> = Object.freeze({
+  name: "Standard Day Shift",
+  startTime: "09:00",
+  endTime: "17:00",
+  graceMinutes: 15,
+  halfDayLateMinutes: 120,
+  halfDayMinimumHours: 4,
+  weeklyOffs: [0],
+  isDefault: true,
+})
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const
+
+export const shiftAssignmentId = (targetType: ShiftAssignmentTarget, targetId: string): string =>
+  `${targetType}_${targetId}`
+
+// Minutes after midnight for "HH:MM", or null when the text is not a valid time
+export const parseShiftTime = (value: string): number | null => {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value.trim())
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+// Why a policy cannot be saved, or null when it is valid
+export const shiftPolicyProblem = (policy: ShiftPolicy): string | null => {
+  if (!policy.name.trim()) return "Shift name is required"
+  if (parseShiftTime(policy.startTime) === null) return "Start time must be HH:MM"
+  if (parseShiftTime(policy.endTime) === null) return "End time must be HH:MM"
+  if (policy.startTime === policy.endTime) return "Start and end time must differ"
+
+  const counts: [string, number][] = [
+    ["Grace minutes", policy.graceMinutes],
+    ["Half-day late minutes", policy.halfDayLateMinutes],
+    ["Half-day minimum hours", policy.halfDayMinimumHours],
+  ]
+  const invalid = counts.find(([, value]) => !Number.isFinite(value) || value < 0)
+  if (invalid) return `${invalid[0]} must be 0 or more`
+
+  if (policy.weeklyOffs.some(day => !Number.isInteger(day) || day < 0 || day > 6)) return "Weekly offs must be days 0-6"
+  if (policy.weeklyOffs.length >= 7) return "At least one working day is required"
+  return null
+}
+
+// How one attendance record measures up against the shift that applies to it
+export interface AttendanceEvaluation {
+  weeklyOff: boolean
+  late: boolean
+  lateMinutes: number
+  earlyDeparture: boolean
+  halfDay: boolean
+  workedMinutes: number | null // check-in to check-out; null until the worker checks out
+  overtimeMinutes: number // worked beyond the shift's length
+}
+
+const MINUTE = 60 * 1000
+
+const atMinutes = (day: Date, minutes: number, dayOffset: number = 0): Date => {
+  const result = new Date(day)
+  result.setHours(0, 0, 0, 0)
+  result.setDate(result.getDate() + dayOffset)
+  result.setMinutes(minutes)
+  return result
+}
+
+export const evaluateAttendance = (
+  record: Pick<AttendanceRecord, "status" | "timestamp" | "checkInTime" | "checkOutTime">,
+  policy: ShiftPolicy
+): AttendanceEvaluation => {
+  const arrival = record.checkInTime ?? record.timestamp
+  const startMinutes = parseShiftTime(policy.startTime) ?? 0
+  const endMinutes = parseShiftTime(policy.endTime) ?? 0
+  const arrivalMinutes = arrival.getHours() * 60 + arrival.getMinutes()
+
+  // For a shift past midnight, an arrival before its end belongs to the shift that began the day before
+  const overnight = endMinutes <= startMinutes
+  const startOffset = overnight && arrivalMinutes < endMinutes ? -1 : 0
+  const start = atMinutes(arrival, startMinutes, startOffset)
+  const end = atMinutes(arrival, endMinutes, startOffset + (overnight ? 1 : 0))
+
+  const weeklyOff = policy.weeklyOffs.includes(start.getDay())
+  if (record.status !== "present") {
+    return { weeklyOff, late: false, lateMinutes: 0, earlyDeparture: false, halfDay: false, workedMinutes: null, overtimeMinutes: 0 }
+  }
+
+  const lateMinutes = Math.max(0, Math.floor((arrival.getTime() - start.getTime()) / MINUTE))
+  const departure = record.checkOutTime && record.checkOutTime > arrival ? record.checkOutTime : undefined
+  const workedMinutes = departure ? Math.floor((departure.getTime() - arrival.getTime()) / MINUTE) : null
+  const shiftMinutes = (end.getTime() - start.getTime()) / MINUTE
+
+  return {
+    weeklyOff,
+    late: lateMinutes > policy.graceMinutes,
+    lateMinutes,
+    earlyDeparture: !!departure && departure.getTime() < end.getTime() - policy.graceMinutes * MINUTE,
+    halfDay: lateMinutes >= policy.halfDayLateMinutes || (workedMinutes !== null && workedMinutes < policy.halfDayMinimumHours * 60),
+    workedMinutes,
+    overtimeMinutes: workedMinutes !== null ? Math.max(0, workedMinutes - shiftMinutes) : 0,
+  }
+}
+
+const toCount = (value: any, fallback: number): number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : fallback
+
+export const shiftPolicyFromDoc = (id: string, data: DocumentFields): WithId<ShiftPolicy> => ({
+  id,
+  name: data.name || "Unnamed Shift",
+  startTime: typeof data.startTime === "string" && parseShiftTime(data.startTime) !== null
+    ? data.startTime
+    : STANDARD_SHIFT_POLICY.startTime,
+  endTime: typeof data.endTime === "string" && parseShiftTime(data.endTime) !== null
+    ? data.endTime
+    : STANDARD_SHIFT_POLICY.endTime,
+  graceMinutes: toCount(data.graceMinutes, STANDARD_SHIFT_POLICY.graceMinutes),
+  halfDayLateMinutes: toCount(data.halfDayLateMinutes, STANDARD_SHIFT_POLICY.halfDayLateMinutes),
+  halfDayMinimumHours: toCount(data.halfDayMinimumHours, STANDARD_SHIFT_POLICY.halfDayMinimumHours),
+  weeklyOffs: Array.isArray(data.weeklyOffs)
+    ? data.weeklyOffs.filter((day: any) => Number.isInteger(day) && day >= 0 && day <= 6)
+    : [...STANDARD_SHIFT_POLICY.weeklyOffs],
+  isDefault: data.isDefault === true,
+  updatedBy: data.updatedBy || undefined,
+  createdAt: toOptionalDate(data.createdAt),
+  updatedAt: toOptionalDate(data.updatedAt),
+})
+
+export const shiftAssignmentFromDoc = (id: string, data: DocumentFields): WithId<ShiftAssignment> => ({
+  id,
+  targetType: data.targetType === "feederPoint" ? "feederPoint" : "worker",
+  targetId: data.targetId || "",
+  policyId: data.policyId || "",
+  assignedBy: data.assignedBy || "",
+  assignedAt: toDate(data.assignedAt),
+})
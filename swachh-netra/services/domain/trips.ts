@@ -0,0 +1,153 @@
+import { Coordinates, DocumentFields, toCoordinates, toDate, toEnum, toOptionalDate, toStringArray, WithId } from "./shared"
+import { PhotoEvidence, photoEvidenceListFromData } from "./photos"
+
+export const TRIP_STATUSES = ["not_started", "pending", "in_progress", "completed", "cancelled"] as const
+export type TripStatus = typeof TRIP_STATUSES[number]
+
+// Every trip moves through one lifecycle: planned → en_route → arrived → collecting → departed
+// → unloaded → closed. A trip can be cancelled before it sets off and aborted while under way.
+export const TRIP_STAGES = ["planned", "en_route", "arrived", "collecting", "departed", "unloaded", "closed", "cancelled", "aborted"] as const
+export type TripStage = typeof TRIP_STAGES[number]
+
+export const TRIP_STAGE_LABELS: { [stage in TripStage]: string } = {
+  planned: "Planned",
+  en_route: "En Route",
+  arrived: "Arrived",
+  collecting: "Collecting",
+  departed: "Departed",
+  unloaded: "Unloaded",
+  closed: "Closed",
+  cancelled: "Cancelled",
+  aborted: "Aborted",
+}
+
+// The stages each stage may move on to; closed, cancelled and aborted trips are final
+export const TRIP_TRANSITIONS: { readonly [stage in TripStage]: readonly TripStage[] } = {
+  planned: ["en_route", "cancelled"],
+  en_route: ["arrived", "aborted"],
+  arrived: ["collecting", "aborted"],
+  collecting: ["departed", "aborted"],
+  departed: ["unloaded", "aborted"],
+  unloaded: ["closed"],
+  closed: [],
+  cancelled: [],
+  aborted: [],
+}
+
+// Why a trip cannot move from one stage to the other, or null when it can
+export const tripTransitionProblem = (from: TripStage, to: TripStage): string | null => {
+  if (TRIP_TRANSITIONS[from].includes(to)) return null
+  if (TRIP_TRANSITIONS[from].length === 0) return `This trip is already ${TRIP_STAGE_LABELS[from].toLowerCase()}`
+  return `A trip cannot go from ${TRIP_STAGE_LABELS[from]} to ${TRIP_STAGE_LABELS[to]}`
+}
+
+// The status stored next to the stage, which the dashboards and trip queries read
+export const tripStatusOf = (stage: TripStage): TripStatus => {
+  if (stage === "planned") return "pending"
+  if (stage === "closed") return "completed"
+  if (stage === "cancelled" || stage === "aborted") return "cancelled"
+  return "in_progress"
+}
+
+// The trip number the next trip at a feeder point takes: the lowest one no trip of the day
+// holds, counting trips under way but not cancelled or aborted ones
+export const nextTripNumberOf = (todayTrips: Pick<TripRecord, "tripNumber" | "status">[]): number => {
+  const taken = new Set(todayTrips.filter(trip => trip.status !== "cancelled").map(trip => trip.tripNumber))
+  let tripNumber = 1
+  while (taken.has(tripNumber)) tripNumber++
+  return tripNumber
+}
+
+// Trips saved before stages existed only have a status; one in progress could be ended
+// straight away then, so it is taken to have departed and can still be unloaded
+const legacyStageOf = (status: unknown): TripStage => {
+  if (status === "completed") return "closed"
+  if (status === "cancelled") return "cancelled"
+  if (status === "in_progress") return "departed"
+  return "planned"
+}
+
+// A document in the tripRecords collection
+export interface TripRecord {
+  id?: string
+  driverId: string
+  vehicleId: string
+  feederPointId: string
+  contractorId: string
+  tripNumber: number
+  stage: TripStage
+  status: TripStatus // follows the stage, see tripStatusOf
+  startTime: Date
+  endTime?: Date
+  startLocation?: Coordinates
+  endLocation?: Coordinates
+  wasteWeight?: number // in kg
+  photos: string[]
+  photoEvidence?: PhotoEvidence[] // uploaded photos with capture metadata, parallel to photos
+  notes?: string
+  workerIds: string[] // workers assigned to this trip
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const tripFromDoc = (id: string, data: DocumentFields): WithId<TripRecord> => ({
+  id,
+  driverId: data.driverId,
+  vehicleId: data.vehicleId,
+  feederPointId: data.feederPointId,
+  contractorId: data.contractorId,
+  tripNumber: Number(data.tripNumber) || 1,
+  stage: toEnum(data.stage, TRIP_STAGES, legacyStageOf(data.status)),
+  status: toEnum(data.status, TRIP_STATUSES, "pending"),
+  startTime: toDate(data.startTime),
+  endTime: toOptionalDate(data.endTime),
+  startLocation: toCoordinates(data.startLocation),
+  endLocation: toCoordinates(data.endLocation),
+  wasteWeight: typeof data.wasteWeight === "number" ? data.wasteWeight : undefined,
+  photos: toStringArray(data.photos),
+  photoEvidence: photoEvidenceListFromData(data.photoEvidence),
+  notes: data.notes || undefined,
+  workerIds: toStringArray(data.workerIds),
+  createdAt: toDate(data.createdAt),
+  updatedAt: toDate(data.updatedAt),
+})
+
+// A document in the tripEvents collection. Events are only ever added: one per stage change,
+// saying who moved the trip, when and where.
+export interface TripEvent {
+  id?: string
+  tripId: string
+  from: TripStage | null // null for the event that created the trip
+  to: TripStage
+  actorId: string
+  at: Date
+  location?: Coordinates
+  note?: string
+}
+
+export const tripEventToData = (event: TripEvent): DocumentFields => ({
+  tripId: event.tripId,
+  from: event.from,
+  to: event.to,
+  actorId: event.actorId,
+  at: event.at,
+  location: event.location ?? null,
+  note: event.note ?? null,
+})
+
+export const tripEventFromDoc = (id: string, data: DocumentFields): WithId<TripEvent> => ({
+  id,
+  tripId: data.tripId,
+  from: data.from ? toEnum(data.from, TRIP_STAGES, "planned") : null,
+  to: toEnum(data.to, TRIP_STAGES, "planned"),
+  actorId: data.actorId || "",
+  at: toDate(data.at),
+  location: toCoordinates(data.location),
+  note: data.note || undefined,
+})
+
+// Stages only ever move forward through TRIP_STAGES, so a trip's events sort by the stage they
+// reached. Timestamps alone cannot order them: the two events written when a trip ends share
+// one, and events replayed from the outbox carry the clock of the device that queued them.
+export const compareTripEvents = (a: TripEvent, b: TripEvent): number =>
+  TRIP_STAGES.indexOf(a.to) - TRIP_STAGES.indexOf(b.to)
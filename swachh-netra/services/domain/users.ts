@@ -0,0 +1,64 @@
+import { DocumentFields, toDate, toEnum, toOptionalDate, toStringArray, WithId } from "./shared"
+
+export const USER_ROLES = ["admin", "swachh_hr", "transport_contractor", "contractor", "driver", "worker"] as const
+export type UserRole = typeof USER_ROLES[number]
+
+export const isUserRole = (value: any): value is UserRole => USER_ROLES.includes(value)
+
+// Both spellings are in use for transport contractors
+export const isContractorRole = (role: string | undefined): boolean =>
+  role === "transport_contractor" || role === "contractor"
+
+export type RolePermissions = { [permission: string]: boolean }
+
+export interface User {
+  id: string
+  fullName: string
+  email: string
+  phoneNumber?: string
+  role: UserRole
+  isActive: boolean
+  createdAt: Date
+  updatedAt?: Date
+  lastLogin?: Date
+  address?: string
+  department?: string
+  permissions?: RolePermissions
+  approvedAt?: Date
+  approvedBy?: string
+  // Driver fields
+  contractorId?: string
+  assignedVehicleId?: string
+  assignedFeederPointIds?: string[]
+  // Contractor fields
+  companyName?: string
+  licenseNumber?: string
+  serviceAreas?: string[]
+}
+
+// Name shown for a user document, whichever field the signup path filled in
+export const displayNameOf = (data: DocumentFields | undefined, fallback: string = "Unknown User"): string =>
+  data?.fullName || data?.displayName || data?.name || fallback
+
+export const userFromDoc = (id: string, data: DocumentFields): WithId<User> => ({
+  id,
+  fullName: displayNameOf(data),
+  email: data.email || "",
+  phoneNumber: data.phoneNumber || data.phone || undefined,
+  role: toEnum(data.role, USER_ROLES, "driver"),
+  isActive: data.isActive !== false,
+  createdAt: toDate(data.createdAt),
+  updatedAt: toOptionalDate(data.updatedAt),
+  lastLogin: toOptionalDate(data.lastLogin),
+  address: data.address || undefined,
+  department: data.department || undefined,
+  permissions: data.permissions && !Array.isArray(data.permissions) ? data.permissions : undefined,
+  approvedAt: toOptionalDate(data.approvedAt),
+  approvedBy: data.approvedBy || undefined,
+  contractorId: data.contractorId || undefined,
+  assignedVehicleId: data.assignedVehicleId || undefined,
+  assignedFeederPointIds: toStringArray(data.assignedFeederPointIds),
+  companyName: data.companyName || undefined,
+  licenseNumber: data.licenseNumber || undefined,
+  serviceAreas: data.serviceAreas ? toStringArray(data.serviceAreas) : undefined,
+})
@@ -0,0 +1,103 @@
+import { Coordinates, DocumentFields, toCoordinates, toDate, toEnum, toOptionalDate, WithId } from "./shared"
+
+export const VEHICLE_STATUSES = ["active", "inactive", "maintenance", "assigned"] as const
+export type VehicleStatus = typeof VEHICLE_STATUSES[number]
+
+// Last position reported by the vehicle's driver app
+export interface VehicleLocation extends Coordinates {
+  timestamp: Date
+  accuracy?: number // meters
+  speed?: number // meters per second
+  heading?: number // degrees from north
+  driverId?: string
+  tripId?: string // set while the position was sampled during a trip
+}
+
+export interface Vehicle {
+  id?: string
+  vehicleNumber: string
+  vehicleName: string
+  capacity: number
+  vehicleType: string
+  registrationDate: Date
+  status: VehicleStatus
+  createdAt: Date
+  createdBy: string
+  isActive: boolean
+  updatedAt?: Date
+  manufacturer?: string
+  model?: string
+  year?: string
+  fuelType?: "diesel" | "petrol" | "electric" | "cng"
+  fuelLevel?: number
+  location?: VehicleLocation
+  depot?: Coordinates | null // where the vehicle starts and ends its daily route; null once cleared
+  // Assignment tracking
+  driverId?: string
+  assignedToContractor?: string
+  assignedToDriver?: string
+  contractorName?: string
+  driverName?: string
+}
+
+export type VehicleAssignmentType = "admin_to_contractor" | "contractor_to_driver"
+export type AssignmentStatus = "active" | "inactive"
+
+export interface VehicleAssignment {
+  id?: string
+  vehicleId: string
+  assignedTo: string // contractor or driver ID
+  assignedBy: string // admin or contractor ID
+  assignmentType: VehicleAssignmentType
+  assignedAt: Date
+  status: AssignmentStatus
+  contractorId?: string
+  driverId?: string
+  notes?: string
+}
+
+const optionalNumber = (value: any): number | undefined =>
+  typeof value === "number" && isFinite(value) ? value : undefined
+
+const vehicleLocationFromData = (coordinates: Coordinates, data: DocumentFields): VehicleLocation => ({
+  ...coordinates,
+  timestamp: toDate(data.timestamp),
+  accuracy: optionalNumber(data.accuracy),
+  speed: optionalNumber(data.speed),
+  heading: optionalNumber(data.heading),
+  driverId: data.driverId || undefined,
+  tripId: data.tripId || undefined,
+})
+
+export const vehicleFromDoc = (id: string, data: DocumentFields): WithId<Vehicle> => {
+  const location = toCoordinates(data.location)
+  return {
+    ...data,
+    id,
+    vehicleNumber: data.vehicleNumber || "",
+    vehicleName: data.vehicleName || "",
+    capacity: Number(data.capacity) || 0,
+    vehicleType: data.vehicleType || data.type || "",
+    registrationDate: toDate(data.registrationDate),
+    status: toEnum(data.status, VEHICLE_STATUSES, "active"),
+    createdAt: toDate(data.createdAt),
+    createdBy: data.createdBy || "",
+    isActive: data.isActive !== undefined ? data.isActive : true,
+    updatedAt: toOptionalDate(data.updatedAt),
+    location: location ? vehicleLocationFromData(location, data.location) : undefined,
+    depot: toCoordinates(data.depot),
+  }
+}
+
+export const vehicleAssignmentFromDoc = (id: string, data: DocumentFields): WithId<VehicleAssignment> => ({
+  id,
+  vehicleId: data.vehicleId,
+  assignedTo: data.assignedTo || data.driverId || data.contractorId || "",
+  assignedBy: data.assignedBy || "",
+  assignmentType: data.assignmentType || (data.driverId ? "contractor_to_driver" : "admin_to_contractor"),
+  assignedAt: toDate(data.assignedAt),
+  status: toEnum(data.status, ["active", "inactive"] as const, "inactive"),
+  contractorId: data.contractorId || undefined,
+  driverId: data.driverId || undefined,
+  notes: data.notes || undefined,
+})
@@ -0,0 +1,95 @@
+import type { SystemSettings } from "./settings"
+import { Coordinates, DocumentFields, distanceInMeters, isKnownLocation, toCoordinates, toEnum, toOptionalDate } from "./shared"
+
+export const ATTENDANCE_FLAGS = ["outOfRange", "missingLocation", "lowAccuracy", "unlocatedFeederPoint"] as const
+export type AttendanceFlag = typeof ATTENDANCE_FLAGS[number]
+
+export const ATTENDANCE_FLAG_LABELS: Record<AttendanceFlag, string> = {
+  outOfRange: "Away from feeder point",
+  missingLocation: "No GPS location",
+  lowAccuracy: "Low GPS accuracy",
+  unlocatedFeederPoint: "Feeder point has no location",
+}
+
+export const FLAG_REVIEW_STATUSES = ["pending", "accepted", "rejected"] as const
+export type FlagReviewStatus = typeof FLAG_REVIEW_STATUSES[number]
+
+export interface GeofenceRules {
+  radiusMeters: number // 0 turns the distance check off
+  maxAccuracyMeters: number // 0 turns the accuracy check off
+}
+
+// How a present mark's location compared with its feeder point when it was recorded.
+// Flagged marks are kept as marked and wait in HR's review queue.
+export interface AttendanceVerification {
+  flags: AttendanceFlag[]
+  distanceMeters?: number // missing without a location or a located feeder point
+  accuracyMeters?: number
+  radiusMeters: number
+  feederPointLocation?: Coordinates
+  reviewStatus?: FlagReviewStatus // only on flagged marks
+  reviewedBy?: string
+  reviewedByName?: string
+  reviewNote?: string
+  reviewedAt?: Date
+}
+
+export const geofenceRulesOf = (settings: SystemSettings): GeofenceRules => ({
+  radiusMeters: settings.attendanceRadiusMeters,
+  maxAccuracyMeters: settings.attendanceMaxAccuracyMeters,
+})
+
+export const verifyAttendanceLocation = (
+  location: (Coordinates & { accuracy?: number }) | undefined,
+  feederPointLocation: Coordinates | undefined,
+  rules: GeofenceRules
+): AttendanceVerification => {
+  const flags: AttendanceFlag[] = []
+  const pointLocation = isKnownLocation(feederPointLocation) ? feederPointLocation : undefined
+  const distanceMeters = location && pointLocation
+    ? Math.round(distanceInMeters(location, pointLocation))
+    : undefined
+
+  if (!location) flags.push("missingLocation")
+  // A feeder point saved at 0,0 cannot be checked against; HR sees why instead of a bogus distance
+  if (feederPointLocation && !pointLocation) flags.push("unlocatedFeederPoint")
+  if (distanceMeters !== undefined && rules.radiusMeters > 0 && distanceMeters > rules.radiusMeters) flags.push("outOfRange")
+  if (location?.accuracy !== undefined && rules.maxAccuracyMeters > 0 && location.accuracy > rules.maxAccuracyMeters) {
+    flags.push("lowAccuracy")
+  }
+
+  return {
+    flags,
+    ...(distanceMeters !== undefined ? { distanceMeters } : {}),
+    ...(location?.accuracy !== undefined ? { accuracyMeters: Math.round(location.accuracy) } : {}),
+    radiusMeters: rules.radiusMeters,
+    ...(pointLocation ? { feederPointLocation: pointLocation } : {}),
+    ...(flags.length > 0 ? { reviewStatus: "pending" as const } : {}),
+  }
+}
+
+export const verificationToData = (verification: AttendanceVerification): DocumentFields => ({
+  flags: verification.flags,
+  distanceMeters: verification.distanceMeters ?? null,
+  accuracyMeters: verification.accuracyMeters ?? null,
+  radiusMeters: verification.radiusMeters,
+  feederPointLocation: verification.feederPointLocation
+    ? { latitude: verification.feederPointLocation.latitude, longitude: verification.feederPointLocation.longitude }
+    : null,
+  reviewStatus: verification.reviewStatus ?? null,
+})
+
+export const verificationFromData = (data: DocumentFields): AttendanceVerification => ({
+  flags: Array.isArray(data.flags)
+    ? data.flags.filter((flag: any): flag is AttendanceFlag => ATTENDANCE_FLAGS.includes(flag))
+    : [],
+  distanceMeters: typeof data.distanceMeters === "number" ? data.distanceMeters : undefined,
+  accuracyMeters: typeof data.accuracyMeters === "number" ? data.accuracyMeters : undefined,
+  radiusMeters: typeof data.radiusMeters === "number" ? data.radiusMeters : 0,
+  feederPointLocation: toCoordinates(data.feederPointLocation),
+  reviewStatus: data.reviewStatus ? toEnum(data.reviewStatus, FLAG_REVIEW_STATUSES, "pending") : undefined,
+  reviewedBy: data.reviewedBy || undefined,
+  reviewedByName: data.reviewedByName || undefined,
+  reviewNote: data.reviewNote || undefined,
+  reviewedAt: toOptionalDate(data.reviewedAt),
+})
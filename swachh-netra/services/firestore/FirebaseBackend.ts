@@ -0,0 +1,28 @@
+import * as firestore from "firebase/firestore"
+import { FIRESTORE_DB } from "../../FirebaseConfig"
+import { FirestoreBackend } from "./FirestoreBackend"
+
+export const firebaseBackend: FirestoreBackend = {
+  db: FIRESTORE_DB,
+  collection: firestore.collection,
+  doc: firestore.doc,
+  getDoc: firestore.getDoc,
+  getDocs: firestore.getDocs,
+  setDoc: firestore.setDoc,
+  addDoc: firestore.addDoc,
+  updateDoc: firestore.updateDoc,
+  deleteDoc: firestore.deleteDoc,
+  query: firestore.query,
+  where: firestore.where,
+  orderBy: firestore.orderBy,
+  limit: firestore.limit,
+  onSnapshot: firestore.onSnapshot,
+  writeBatch: firestore.writeBatch,
+  runTransaction: firestore.runTransaction,
+  serverTimestamp: firestore.serverTimestamp,
+  increment: firestore.increment,
+  arrayUnion: firestore.arrayUnion,
+  arrayRemove: firestore.arrayRemove,
+  deleteField: firestore.deleteField,
+  Timestamp: firestore.Timestamp,
+}
@@ -0,0 +1,31 @@
+import type * as Firestore from "firebase/firestore"
+
+// Subset of the Timestamp class statics the services rely on
+export type TimestampFactory = Pick<typeof Firestore.Timestamp, "now" | "fromDate" | "fromMillis">
+
+// Everything the services layer needs from a Firestore implementation.
+// The live app uses the Firebase SDK; tests swap in MemoryFirestore.
+export interface FirestoreBackend {
+  db: Firestore.Firestore
+  collection: typeof Firestore.collection
+  doc: typeof Firestore.doc
+  getDoc: typeof Firestore.getDoc
+  getDocs: typeof Firestore.getDocs
+  setDoc: typeof Firestore.setDoc
+  addDoc: typeof Firestore.addDoc
+  updateDoc: typeof Firestore.updateDoc
+  deleteDoc: typeof Firestore.deleteDoc
+  query: typeof Firestore.query
+  where: typeof Firestore.where
+  orderBy: typeof Firestore.orderBy
+  limit: typeof Firestore.limit
+  onSnapshot: typeof Firestore.onSnapshot
+  writeBatch: typeof Firestore.writeBatch
+  runTransaction: typeof Firestore.runTransaction
+  serverTimestamp: typeof Firestore.serverTimestamp
+  increment: typeof Firestore.increment
+  arrayUnion: typeof Firestore.arrayUnion
+  arrayRemove: typeof Firestore.arrayRemove
+  deleteField: typeof Firestore.deleteField
+  Timestamp: TimestampFactory
+}
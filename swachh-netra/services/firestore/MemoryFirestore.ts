@@ -0,0 +1,657 @@
+import { FirestoreBackend } from "./FirestoreBackend"
+
+// In-memory stand-in for Firestore used by the test suite.
+// It mirrors the SDK semantics the services depend on: Dates are stored as
+// Timestamps, undefined values are rejected, documents missing a filtered or
+// ordered field are skipped, and listeners fire asynchronously after writes.
+
+type DocumentData = { [field: string]: any }
+type WhereOp = "==" | "!=" | "<" | "<=" | ">" | ">=" | "in" | "not-in" | "array-contains" | "array-contains-any"
+
+type Constraint =
+  | { type: "where"; field: string; op: WhereOp; value: any }
+  | { type: "orderBy"; field: string; direction: "asc" | "desc" }
+  | { type: "limit"; count: number }
+
+type WriteOp =
+  | { kind: "set"; path: string; data: DocumentData; merge: boolean }
+  | { kind: "update"; path: string; data: DocumentData }
+  | { kind: "delete"; path: string }
+
+interface StoredDocument {
+  data: DocumentData
+  version: number
+}
+
+interface Listener {
+  target: MemoryDocumentReference | MemoryQuery
+  onNext: (snapshot: any) => void
+  active: boolean
+}
+
+const AUTO_ID_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789"
+const MAX_TRANSACTION_ATTEMPTS = 5
+
+export class MemoryTimestamp {
+  constructor(readonly seconds: number, readonly nanoseconds: number) {}
+
+  static fromMillis(milliseconds: number): MemoryTimestamp {
+    const seconds = Math.floor(milliseconds / 1000)
+    return new MemoryTimestamp(seconds, Math.round((milliseconds - seconds * 1000) * 1e6))
+  }
+
+  static fromDate(date: Date): MemoryTimestamp {
+    return MemoryTimestamp.fromMillis(date.getTime())
+  }
+
+  static now(): MemoryTimestamp {
+    return MemoryTimestamp.fromMillis(Date.now())
+  }
+
+  toMillis(): number {
+    return this.seconds * 1000 + Math.floor(this.nanoseconds / 1e6)
+  }
+
+  toDate(): Date {
+    return new Date(this.toMillis())
+  }
+
+  isEqual(other: MemoryTimestamp): boolean {
+    return other instanceof MemoryTimestamp && other.seconds === this.seconds && other.nanoseconds === this.nanoseconds
+  }
+}
+
+class FieldTransform {
+  constructor(
+    readonly kind: "serverTimestamp" | "increment" | "arrayUnion" | "arrayRemove" | "delete",
+    readonly operand?: any
+  ) {}
+}
+
+export class MemoryCollectionReference {
+  readonly type = "collection"
+  constructor(readonly firestore: MemoryFirestore, readonly path: string) {}
+
+  get id(): string {
+    return this.path.split("/").pop()!
+  }
+}
+
+export class MemoryDocumentReference {
+  readonly type = "document"
+  constructor(readonly firestore: MemoryFirestore, readonly path: string) {}
+
+  get id(): string {
+    return this.path.split("/").pop()!
+  }
+
+  get parent(): MemoryCollectionReference {
+    return new MemoryCollectionReference(this.firestore, this.path.split("/").slice(0, -1).join("/"))
+  }
+}
+
+export class MemoryQuery {
+  readonly type = "query"
+  constructor(readonly collectionRef: MemoryCollectionReference, readonly constraints: Constraint[]) {}
+}
+
+export class MemoryDocumentSnapshot {
+  constructor(readonly ref: MemoryDocumentReference, private readonly stored: DocumentData | undefined) {}
+
+  get id(): string {
+    return this.ref.id
+  }
+
+  exists(): boolean {
+    return this.stored !== undefined
+  }
+
+  data(): DocumentData | undefined {
+    return this.stored === undefined ? undefined : cloneValue(this.stored)
+  }
+
+  get(field: string): any {
+    return this.stored === undefined ? undefined : cloneValue(getField(this.stored, field))
+  }
+}
+
+export class MemoryQuerySnapshot {
+  constructor(readonly query: MemoryQuery, readonly docs: MemoryDocumentSnapshot[]) {}
+
+  get size(): number {
+    return this.docs.length
+  }
+
+  get empty(): boolean {
+    return this.docs.length === 0
+  }
+
+  forEach(callback: (snapshot: MemoryDocumentSnapshot) => void): void {
+    this.docs.forEach(snapshot => callback(snapshot))
+  }
+}
+
+class MemoryWriteBatch {
+  private readonly ops: WriteOp[] = []
+  private committed = false
+
+  constructor(private readonly firestore: MemoryFirestore) {}
+
+  set(ref: MemoryDocumentReference, data: DocumentData, options?: { merge?: boolean }): this {
+    this.ops.push({ kind: "set", path: ref.path, data, merge: !!options?.merge })
+    return this
+  }
+
+  update(ref: MemoryDocumentReference, data: DocumentData): this {
+    this.ops.push({ kind: "update", path: ref.path, data })
+    return this
+  }
+
+  delete(ref: MemoryDocumentReference): this {
+    this.ops.push({ kind: "delete", path: ref.path })
+    return this
+  }
+
+  async commit(): Promise<void> {
+    if (this.committed) {
+      throw new Error("A write batch can no longer be used after commit() has been called.")
+    }
+    this.committed = true
+    this.firestore.commit(this.ops)
+  }
+}
+
+class MemoryTransaction {
+  readonly ops: WriteOp[] = []
+  readonly readVersions = new Map<string, number>()
+
+  constructor(private readonly firestore: MemoryFirestore) {}
+
+  async get(ref: MemoryDocumentReference): Promise<MemoryDocumentSnapshot> {
+    if (this.ops.length > 0) {
+      throw new Error("Firestore transactions require all reads to be executed before all writes.")
+    }
+    this.readVersions.set(ref.path, this.firestore.versionOf(ref.path))
+    return this.firestore.snapshotOf(ref)
+  }
+
+  set(ref: MemoryDocumentReference, data: DocumentData, options?: { merge?: boolean }): this {
+    this.ops.push({ kind: "set", path: ref.path, data, merge: !!options?.merge })
+    return this
+  }
+
+  update(ref: MemoryDocumentReference, data: DocumentData): this {
+    this.ops.push({ kind: "update", path: ref.path, data })
+    return this
+  }
+
+  delete(ref: MemoryDocumentReference): this {
+    this.ops.push({ kind: "delete", path: ref.path })
+    return this
+  }
+}
+
+export class MemoryFirestore {
+  private documents = new Map<string, StoredDocument>()
+  private listeners: Listener[] = []
+  private writeCount = 0
+
+  // Backend facade consumed by setFirestoreBackend()
+  asBackend(): FirestoreBackend {
+    return {
+      db: this as any,
+      collection: this.collection as any,
+      doc: this.doc as any,
+      getDoc: this.getDoc as any,
+      getDocs: this.getDocs as any,
+      setDoc: this.setDoc as any,
+      addDoc: this.addDoc as any,
+      updateDoc: this.updateDoc as any,
+      deleteDoc: this.deleteDoc as any,
+      query: this.query as any,
+      where: this.where as any,
+      orderBy: this.orderBy as any,
+      limit: this.limit as any,
+      onSnapshot: this.onSnapshot as any,
+      writeBatch: this.writeBatch as any,
+      runTransaction: this.runTransaction as any,
+      serverTimestamp: (() => new FieldTransform("serverTimestamp")) as any,
+      increment: ((n: number) => new FieldTransform("increment", n)) as any,
+      arrayUnion: ((...elements: any[]) => new FieldTransform("arrayUnion", elements)) as any,
+      arrayRemove: ((...elements: any[]) => new FieldTransform("arrayRemove", elements)) as any,
+      deleteField: (() => new FieldTransform("delete")) as any,
+      Timestamp: MemoryTimestamp as any,
+    }
+  }
+
+  // ---- Test helpers ----
+
+  // Write a document directly, converting Dates to Timestamps
+  seed(collectionPath: string, id: string, data: DocumentData): void {
+    this.commit([{ kind: "set", path: `${collectionPath}/${id}`, data, merge: false }])
+  }
+
+  // Read a stored document as plain data (undefined when missing)
+  read(documentPath: string): DocumentData | undefined {
+    const stored = this.documents.get(documentPath)
+    return stored ? cloneValue(stored.data) : undefined
+  }
+
+  // List every document in a collection with its id
+  list(collectionPath: string): (DocumentData & { id: string })[] {
+    return this.documentsIn(collectionPath).map(([path, stored]) => ({
+      id: path.split("/").pop()!,
+      ...cloneValue(stored.data),
+    }))
+  }
+
+  // Number of committed write operations, handy for asserting no-op paths
+  get writes(): number {
+    return this.writeCount
+  }
+
+  clear(): void {
+    this.documents.clear()
+    this.listeners = []
+    this.writeCount = 0
+  }
+
+  // ---- Firestore API ----
+
+  collection = (parent: any, path: string, ...segments: string[]): MemoryCollectionReference => {
+    const fullPath = joinPath(this.basePath(parent), path, ...segments)
+    if (fullPath.split("/").length % 2 !== 1) {
+      throw new Error(`Invalid collection reference. Collection references must have an odd number of segments, but ${fullPath} has ${fullPath.split("/").length}.`)
+    }
+    return new MemoryCollectionReference(this, fullPath)
+  }
+
+  doc = (parent: any, path?: string, ...segments: string[]): MemoryDocumentReference => {
+    const base = this.basePath(parent)
+    const fullPath = path === undefined ? joinPath(base, autoId()) : joinPath(base, path, ...segments)
+    if (fullPath.split("/").length % 2 !== 0) {
+      throw new Error(`Invalid document reference. Document references must have an even number of segments, but ${fullPath} has ${fullPath.split("/").length}.`)
+    }
+    return new MemoryDocumentReference(this, fullPath)
+  }
+
+  getDoc = async (ref: MemoryDocumentReference): Promise<MemoryDocumentSnapshot> => {
+    return this.snapshotOf(ref)
+  }
+
+  getDocs = async (target: MemoryQuery | MemoryCollectionReference): Promise<MemoryQuerySnapshot> => {
+    return this.runQuery(toQuery(target))
+  }
+
+  setDoc = async (ref: MemoryDocumentReference, data: DocumentData, options?: { merge?: boolean }): Promise<void> => {
+    this.commit([{ kind: "set", path: ref.path, data, merge: !!options?.merge }])
+  }
+
+  addDoc = async (ref: MemoryCollectionReference, data: DocumentData): Promise<MemoryDocumentReference> => {
+    const docRef = this.doc(ref)
+    this.commit([{ kind: "set", path: docRef.path, data, merge: false }])
+    return docRef
+  }
+
+  updateDoc = async (ref: MemoryDocumentReference, data: DocumentData): Promise<void> => {
+    this.commit([{ kind: "update", path: ref.path, data }])
+  }
+
+  deleteDoc = async (ref: MemoryDocumentReference): Promise<void> => {
+    this.commit([{ kind: "delete", path: ref.path }])
+  }
+
+  query = (target: MemoryQuery | MemoryCollectionReference, ...constraints: Constraint[]): MemoryQuery => {
+    const base = toQuery(target)
+    return new MemoryQuery(base.collectionRef, [...base.constraints, ...constraints])
+  }
+
+  where = (field: string, op: WhereOp, value: any): Constraint => ({ type: "where", field, op, value })
+
+  orderBy = (field: string, direction: "asc" | "desc" = "asc"): Constraint => ({ type: "orderBy", field, direction })
+
+  limit = (count: number): Constraint => ({ type: "limit", count })
+
+  onSnapshot = (target: MemoryDocumentReference | MemoryQuery | MemoryCollectionReference, ...args: any[]): (() => void) => {
+    // Accept (onNext, onError), ({ next, error }) and an optional leading options object
+    if (args[0] && typeof args[0] === "object" && typeof args[0].next !== "function") {
+      args = args.slice(1)
+    }
+    const observer = typeof args[0] === "function" ? { next: args[0] } : args[0]
+    const listener: Listener = {
+      target: target instanceof MemoryDocumentReference ? target : toQuery(target),
+      onNext: observer.next,
+      active: true,
+    }
+    this.listeners.push(listener)
+    this.notify(listener)
+
+    return () => {
+      listener.active = false
+      this.listeners = this.listeners.filter(l => l !== listener)
+    }
+  }
+
+  writeBatch = (): MemoryWriteBatch => new MemoryWriteBatch(this)
+
+  runTransaction = async <T>(_db: unknown, updateFunction: (transaction: MemoryTransaction) => Promise<T>): Promise<T> => {
+    for (let attempt = 1; attempt <= MAX_TRANSACTION_ATTEMPTS; attempt++) {
+      const transaction = new MemoryTransaction(this)
+      const result = await updateFunction(transaction)
+
+      const conflicted = Array.from(transaction.readVersions.entries())
+        .some(([path, version]) => this.versionOf(path) !== version)
+      if (!conflicted) {
+        this.commit(transaction.ops)
+        return result
+      }
+    }
+    throw new Error("Transaction failed: too much contention on the documents read")
+  }
+
+  // ---- Internals ----
+
+  versionOf(path: string): number {
+    return this.documents.get(path)?.version ?? 0
+  }
+
+  snapshotOf(ref: MemoryDocumentReference): MemoryDocumentSnapshot {
+    return new MemoryDocumentSnapshot(ref, this.documents.get(ref.path)?.data)
+  }
+
+  commit(ops: WriteOp[]): void {
+    // Validate every operation before applying any of them
+    const staged = new Map<string, DocumentData | undefined>()
+    const current = (path: string) => (staged.has(path) ? staged.get(path) : this.documents.get(path)?.data)
+
+    for (const op of ops) {
+      const existing = current(op.path)
+      if (op.kind === "delete") {
+        staged.set(op.path, undefined)
+      } else if (op.kind === "update") {
+        if (existing === undefined) {
+          throw new Error(`No document to update: ${op.path}`)
+        }
+        staged.set(op.path, applyUpdate(existing, op.data))
+      } else {
+        const data = op.merge && existing !== undefined
+          ? mergeValue(existing, op.data, "setDoc")
+          : encodeObject(op.data, undefined, "setDoc")
+        staged.set(op.path, data)
+      }
+    }
+
+    staged.forEach((data, path) => {
+      if (data === undefined) {
+        this.documents.delete(path)
+      } else {
+        this.documents.set(path, { data, version: this.versionOf(path) + 1 })
+      }
+    })
+    this.writeCount += ops.length
+
+    if (staged.size > 0) {
+      const touched = Array.from(staged.keys())
+      this.listeners
+        .filter(listener => touched.some(path => listenerWatches(listener, path)))
+        .forEach(listener => this.notify(listener))
+    }
+  }
+
+  private notify(listener: Listener): void {
+    Promise.resolve().then(() => {
+      if (!listener.active) return
+      const snapshot = listener.target instanceof MemoryDocumentReference
+        ? this.snapshotOf(listener.target)
+        : this.runQuery(listener.target)
+      listener.onNext(snapshot)
+    })
+  }
+
+  private basePath(parent: any): string {
+    if (parent instanceof MemoryCollectionReference || parent instanceof MemoryDocumentReference) {
+      return parent.path
+    }
+    return ""
+  }
+
+  private documentsIn(collectionPath: string): [string, StoredDocument][] {
+    const depth = collectionPath.split("/").length + 1
+    return Array.from(this.documents.entries())
+      .filter(([path]) => path.startsWith(`${collectionPath}/`) && path.split("/").length === depth)
+  }
+
+  private runQuery(query: MemoryQuery): MemoryQuerySnapshot {
+    const collectionPath = query.collectionRef.path
+    let rows = this.documentsIn(collectionPath)
+      .map(([path, stored]) => ({ id: path.split("/").pop()!, path, data: stored.data }))
+
+    const filters = query.constraints.filter(c => c.type === "where") as Extract<Constraint, { type: "where" }>[]
+    const orderings = query.constraints.filter(c => c.type === "orderBy") as Extract<Constraint, { type: "orderBy" }>[]
+    const limits = query.constraints.filter(c => c.type === "limit") as Extract<Constraint, { type: "limit" }>[]
+
+    rows = rows.filter(row => filters.every(filter => matchesFilter(fieldOf(row, filter.field), filter.op, filter.value)))
+    rows = rows.filter(row => orderings.every(ordering => fieldOf(row, ordering.field) !== undefined))
+
+    rows.sort((a, b) => {
+      for (const ordering of orderings) {
+        const result = compareValues(fieldOf(a, ordering.field), fieldOf(b, ordering.field))
+        if (result !== 0) return ordering.direction === "desc" ? -result : result
+      }
+      return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+    })
+
+    if (limits.length > 0) {
+      rows = rows.slice(0, limits[limits.length - 1].count)
+    }
+
+    return new MemoryQuerySnapshot(
+      query,
+      rows.map(row => new MemoryDocumentSnapshot(new MemoryDocumentReference(this, row.path), row.data))
+    )
+  }
+}
+
+// ---- Value helpers ----
+
+const toQuery = (target: MemoryQuery | MemoryCollectionReference): MemoryQuery =>
+  target instanceof MemoryQuery ? target : new MemoryQuery(target, [])
+
+const joinPath = (...segments: string[]): string =>
+  segments.filter(Boolean).join("/").split("/").filter(Boolean).join("/")
+
+const autoId = (): string => {
+  let id = ""
+  for (let i = 0; i < 20; i++) {
+    id += AUTO_ID_CHARS.charAt(Math.floor(Math.random() * AUTO_ID_CHARS.length))
+  }
+  return id
+}
+
+const isPlainObject = (value: any): value is DocumentData => {
+  if (value === null || typeof value !== "object") return false
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+const cloneValue = (value: any): any => {
+  if (Array.isArray(value)) return value.map(cloneValue)
+  if (isPlainObject(value)) {
+    const copy: DocumentData = {}
+    Object.keys(value).forEach(key => { copy[key] = cloneValue(value[key]) })
+    return copy
+  }
+  return value
+}
+
+const getField = (data: DocumentData, fieldPath: string): any =>
+  fieldPath.split(".").reduce((value, key) => (isPlainObject(value) ? value[key] : undefined), data as any)
+
+const fieldOf = (row: { id: string; data: DocumentData }, field: string): any =>
+  field === "__name__" ? row.id : getField(row.data, field)
+
+const encodeValue = (value: any, existing: any, method: string): any => {
+  if (value === undefined) {
+    throw new Error(`Function ${method}() called with invalid data. Unsupported field value: undefined`)
+  }
+  if (value instanceof FieldTransform) {
+    switch (value.kind) {
+      case "serverTimestamp":
+        return MemoryTimestamp.now()
+      case "increment":
+        return (typeof existing === "number" ? existing : 0) + value.operand
+      case "arrayUnion": {
+        const base: any[] = Array.isArray(existing) ? [...existing] : []
+        value.operand.forEach((element: any) => {
+          const encoded = encodeValue(element, undefined, method)
+          if (!base.some(item => valuesEqual(item, encoded))) base.push(encoded)
+        })
+        return base
+      }
+      case "arrayRemove": {
+        const base: any[] = Array.isArray(existing) ? existing : []
+        const removed = value.operand.map((element: any) => encodeValue(element, undefined, method))
+        return base.filter(item => !removed.some((r: any) => valuesEqual(item, r)))
+      }
+      case "delete":
+        return value
+    }
+  }
+  if (value instanceof Date) return MemoryTimestamp.fromDate(value)
+  if (Array.isArray(value)) return value.map(item => encodeValue(item, undefined, method))
+  if (isPlainObject(value)) return encodeObject(value, isPlainObject(existing) ? existing : undefined, method)
+  return value
+}
+
+const encodeObject = (data: DocumentData, existing: DocumentData | undefined, method: string): DocumentData => {
+  const encoded: DocumentData = {}
+  Object.keys(data).forEach(key => {
+    const value = encodeValue(data[key], existing?.[key], method)
+    if (!(value instanceof FieldTransform)) encoded[key] = value
+  })
+  return encoded
+}
+
+const mergeValue = (existing: DocumentData, data: DocumentData, method: string): DocumentData => {
+  const merged = cloneValue(existing)
+  Object.keys(data).forEach(key => {
+    const incoming = data[key]
+    if (isPlainObject(incoming) && isPlainObject(merged[key])) {
+      merged[key] = mergeValue(merged[key], incoming, method)
+      return
+    }
+    const value = encodeValue(incoming, merged[key], method)
+    if (value instanceof FieldTransform) {
+      delete merged[key]
+    } else {
+      merged[key] = value
+    }
+  })
+  return merged
+}
+
+const applyUpdate = (existing: DocumentData, data: DocumentData): DocumentData => {
+  const updated = cloneValue(existing)
+  Object.keys(data).forEach(fieldPath => {
+    const keys = fieldPath.split(".")
+    let container = updated
+    keys.slice(0, -1).forEach(key => {
+      if (!isPlainObject(container[key])) container[key] = {}
+      container = container[key]
+    })
+    const last = keys[keys.length - 1]
+    const value = encodeValue(data[fieldPath], container[last], "updateDoc")
+    if (value instanceof FieldTransform) {
+      delete container[last]
+    } else {
+      container[last] = value
+    }
+  })
+  return updated
+}
+
+// Firestore's cross-type ordering: null < boolean < number < timestamp < string < reference < array < map
+const typeRank = (value: any): number => {
+  if (value === null) return 0
+  if (typeof value === "boolean") return 1
+  if (typeof value === "number") return 2
+  if (value instanceof MemoryTimestamp || value instanceof Date) return 3
+  if (typeof value === "string") return 4
+  if (value instanceof MemoryDocumentReference) return 5
+  if (Array.isArray(value)) return 6
+  return 7
+}
+
+const compareValues = (a: any, b: any): number => {
+  const rankDifference = typeRank(a) - typeRank(b)
+  if (rankDifference !== 0) return rankDifference
+
+  switch (typeRank(a)) {
+    case 0:
+      return 0
+    case 1:
+    case 2:
+      return Number(a) - Number(b)
+    case 3:
+      return toMillis(a) - toMillis(b)
+    case 4:
+      return a < b ? -1 : a > b ? 1 : 0
+    case 5:
+      return a.path < b.path ? -1 : a.path > b.path ? 1 : 0
+    case 6: {
+      for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        const result = compareValues(a[i], b[i])
+        if (result !== 0) return result
+      }
+      return a.length - b.length
+    }
+    default:
+      return JSON.stringify(a) < JSON.stringify(b) ? -1 : JSON.stringify(a) > JSON.stringify(b) ? 1 : 0
+  }
+}
+
+const toMillis = (value: MemoryTimestamp | Date): number =>
+  value instanceof Date ? value.getTime() : value.toMillis()
+
+const valuesEqual = (a: any, b: any): boolean => compareValues(a, b) === 0
+
+const matchesFilter = (fieldValue: any, op: WhereOp, rawValue: any): boolean => {
+  if (fieldValue === undefined) return false
+  const value = Array.isArray(rawValue) ? rawValue.map(normalizeQueryValue) : normalizeQueryValue(rawValue)
+
+  switch (op) {
+    case "==":
+      return valuesEqual(fieldValue, value)
+    case "!=":
+      return fieldValue !== null && !valuesEqual(fieldValue, value)
+    case "<":
+    case "<=":
+    case ">":
+    case ">=": {
+      if (typeRank(fieldValue) !== typeRank(value)) return false
+      const result = compareValues(fieldValue, value)
+      return op === "<" ? result < 0 : op === "<=" ? result <= 0 : op === ">" ? result > 0 : result >= 0
+    }
+    case "in":
+      return value.some((candidate: any) => valuesEqual(fieldValue, candidate))
+    case "not-in":
+      return fieldValue !== null && !value.some((candidate: any) => valuesEqual(fieldValue, candidate))
+    case "array-contains":
+      return Array.isArray(fieldValue) && fieldValue.some(item => valuesEqual(item, value))
+    case "array-contains-any":
+      return Array.isArray(fieldValue) && fieldValue.some(item => value.some((candidate: any) => valuesEqual(item, candidate)))
+  }
+}
+
+const normalizeQueryValue = (value: any): any => {
+  if (value instanceof Date) return MemoryTimestamp.fromDate(value)
+  return value
+}
+
+const listenerWatches = (listener: Listener, path: string): boolean => {
+  if (listener.target instanceof MemoryDocumentReference) {
+    return listener.target.path === path
+  }
+  const collectionPath = listener.target.collectionRef.path
+  return path.startsWith(`${collectionPath}/`) && path.split("/").length === collectionPath.split("/").length + 1
+}
@@ -0,0 +1,97 @@
+import type * as Firestore from "firebase/firestore"
+import { FirestoreBackend, TimestampFactory } from "./FirestoreBackend"
+
+export type { FirestoreBackend, TimestampFactory } from "./FirestoreBackend"
+export type {
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  QuerySnapshot,
+  QueryConstraint,
+  Transaction,
+  WriteBatch,
+  Unsubscribe,
+} from "firebase/firestore"
+
+let activeBackend: FirestoreBackend | null = null
+
+const backend = (): FirestoreBackend => {
+  if (!activeBackend) {
+    // Loaded lazily so that tests never initialise the Firebase app
+    activeBackend = require("./FirebaseBackend").firebaseBackend as FirestoreBackend
+  }
+  return activeBackend
+}
+
+// Swap the data-access backend (used by the test suite)
+export const setFirestoreBackend = (nextBackend: FirestoreBackend): void => {
+  activeBackend = nextBackend
+}
+
+// Fall back to the Firebase SDK on next use
+export const resetFirestoreBackend = (): void => {
+  activeBackend = null
+}
+
+// Called before every write; throwing rejects the write (used for maintenance mode)
+export type WriteGuard = () => void
+
+let writeGuard: WriteGuard | null = null
+
+export const setWriteGuard = (guard: WriteGuard | null): void => {
+  writeGuard = guard
+}
+
+// Handle passed by services wherever the SDK expects a Firestore instance;
+// it is swapped for the active backend's database on every call.
+export const FIRESTORE_DB = Object.freeze({ type: "firestore" }) as unknown as Firestore.Firestore
+
+const resolveArgs = (args: any[]) => args.map(arg => (arg === FIRESTORE_DB ? backend().db : arg))
+
+type BackendFunction = Exclude<keyof FirestoreBackend, "db" | "Timestamp">
+
+const delegate = <K extends BackendFunction>(name: K): FirestoreBackend[K] =>
+  ((...args: any[]) => (backend()[name] as (...args: any[]) => any)(...resolveArgs(args))) as FirestoreBackend[K]
+
+// Writes consult the guard first. Everything but writeBatch returns a promise,
+// so a rejected write is reported the same way as a failed one.
+const guarded = <K extends BackendFunction>(name: K): FirestoreBackend[K] => {
+  const call = delegate(name) as (...args: any[]) => any
+  return ((...args: any[]) => {
+    try {
+      writeGuard?.()
+    } catch (error) {
+      if (name === "writeBatch") throw error
+      return Promise.reject(error)
+    }
+    return call(...args)
+  }) as FirestoreBackend[K]
+}
+
+export const collection = delegate("collection")
+export const doc = delegate("doc")
+export const getDoc = delegate("getDoc")
+export const getDocs = delegate("getDocs")
+export const setDoc = guarded("setDoc")
+export const addDoc = guarded("addDoc")
+export const updateDoc = guarded("updateDoc")
+export const deleteDoc = guarded("deleteDoc")
+export const query = delegate("query")
+export const where = delegate("where")
+export const orderBy = delegate("orderBy")
+export const limit = delegate("limit")
+export const onSnapshot = delegate("onSnapshot")
+export const writeBatch = guarded("writeBatch")
+export const runTransaction = guarded("runTransaction")
+export const serverTimestamp = delegate("serverTimestamp")
+export const increment = delegate("increment")
+export const arrayUnion = delegate("arrayUnion")
+export const arrayRemove = delegate("arrayRemove")
+export const deleteField = delegate("deleteField")
+
+export type Timestamp = Firestore.Timestamp
+export const Timestamp: TimestampFactory = {
+  now: () => backend().Timestamp.now(),
+  fromDate: (date: Date) => backend().Timestamp.fromDate(date),
+  fromMillis: (milliseconds: number) => backend().Timestamp.fromMillis(milliseconds),
+}
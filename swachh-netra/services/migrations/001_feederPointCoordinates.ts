@@ -0,0 +1,14 @@
+import { backfillMigration } from "./Migration"
+import { toCoordinates } from "../domain"
+
+// addGPSCoordinates.js wrote `gpsCoordinates` while FeederPointService writes `coordinates`
+export default backfillMigration({
+  version: 1,
+  name: "feederPointCoordinates",
+  description: "Copy legacy feeder point gpsCoordinates into coordinates",
+  collection: "feederPoints",
+  derive: data => {
+    const coordinates = toCoordinates(data.gpsCoordinates)
+    return coordinates ? { coordinates } : null
+  },
+})
@@ -0,0 +1,16 @@
+import { backfillMigration } from "./Migration"
+
+// Driver attendance marks stored isPresent/date, trip attendance stored status/timestamp.
+// Give every record both pairs so either query path finds it.
+export default backfillMigration({
+  version: 2,
+  name: "attendanceStatus",
+  description: "Backfill attendance status/timestamp from isPresent/date and vice versa",
+  collection: "workerAttendance",
+  derive: data => ({
+    status: typeof data.isPresent === "boolean" ? (data.isPresent ? "present" : "absent") : undefined,
+    isPresent: data.status === "present" || data.status === "absent" ? data.status === "present" : undefined,
+    timestamp: data.date,
+    date: data.timestamp,
+  }),
+})
@@ -0,0 +1,17 @@
+import { backfillMigration } from "./Migration"
+
+// ContractorService used to record driver vehicle assignments without the
+// assignee fields that VehicleService queries on
+export default backfillMigration({
+  version: 3,
+  name: "vehicleAssignmentFields",
+  description: "Add assignedTo, assignedBy and assignmentType to contractor-to-driver vehicle assignments",
+  collection: "vehicleAssignments",
+  derive: data => data.driverId
+    ? {
+      assignedTo: data.driverId,
+      assignedBy: data.contractorId,
+      assignmentType: "contractor_to_driver",
+    }
+    : null,
+})
@@ -0,0 +1,20 @@
+import { deleteField } from "../firestore"
+import { Migration, updateDocuments } from "./Migration"
+
+// Sign-up used to store the applicant's plaintext password on the approval request
+// so that the approver could create the account. Activation codes replaced that;
+// this removes every password still on file. Deleted passwords cannot be restored,
+// so rolling back only lowers the schema version.
+const purgeApprovalPasswords: Migration = {
+  version: 4,
+  name: "purgeApprovalPasswords",
+  description: "Delete plaintext passwords stored on approval requests",
+
+  up: context => updateDocuments("approvalRequests", context, data =>
+    data.password !== undefined ? { password: deleteField() } : null
+  ),
+
+  down: async () => ({ scanned: 0, affected: 0 }),
+}
+
+export default purgeApprovalPasswords
@@ -0,0 +1,93 @@
+import { collection, deleteField, getDocs, writeBatch, FIRESTORE_DB } from "../firestore"
+import { DocumentFields } from "../domain"
+
+// Firestore caps a write batch at 500 operations
+const BATCH_SIZE = 450
+
+// Per-document record of the fields each backfill migration added,
+// so that rolling back removes exactly what the migration wrote.
+export const BACKFILL_FIELD = "schemaBackfills"
+
+export interface MigrationContext {
+  dryRun: boolean
+}
+
+export interface MigrationStepResult {
+  scanned: number
+  affected: number
+}
+
+export interface Migration {
+  version: number
+  name: string
+  description: string
+  up(context: MigrationContext): Promise<MigrationStepResult>
+  down(context: MigrationContext): Promise<MigrationStepResult>
+}
+
+// Apply a patch to every document in a collection for which `patchFor` returns one
+export const updateDocuments = async (
+  collectionName: string,
+  context: MigrationContext,
+  patchFor: (data: DocumentFields) => DocumentFields | null
+): Promise<MigrationStepResult> => {
+  const snapshot = await getDocs(collection(FIRESTORE_DB, collectionName))
+  const updates = snapshot.docs
+    .map(docSnapshot => ({ ref: docSnapshot.ref, patch: patchFor(docSnapshot.data()) }))
+    .filter((update): update is { ref: typeof update.ref; patch: DocumentFields } => update.patch !== null)
+
+  if (!context.dryRun) {
+    for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+      const batch = writeBatch(FIRESTORE_DB)
+      updates.slice(i, i + BATCH_SIZE).forEach(({ ref, patch }) => batch.update(ref, patch))
+      await batch.commit()
+    }
+  }
+
+  return { scanned: snapshot.size, affected: updates.length }
+}
+
+interface BackfillOptions {
+  version: number
+  name: string
+  description: string
+  collection: string
+  // Canonical fields derivable from a document; fields it already has are left alone
+  derive: (data: DocumentFields) => DocumentFields | null
+}
+
+// A migration that adds missing canonical fields next to their legacy counterparts
+export const backfillMigration = (options: BackfillOptions): Migration => {
+  const marker = `v${options.version}`
+
+  return {
+    version: options.version,
+    name: options.name,
+    description: options.description,
+
+    up: context => updateDocuments(options.collection, context, data => {
+      if (data[BACKFILL_FIELD]?.[marker]) return null
+
+      const derived = options.derive(data) || {}
+      const added = Object.keys(derived).filter(field => data[field] === undefined && derived[field] !== undefined)
+      if (added.length === 0) return null
+
+      const patch: DocumentFields = { [`${BACKFILL_FIELD}.${marker}`]: added }
+      added.forEach(field => { patch[field] = derived[field] })
+      return patch
+    }),
+
+    down: context => updateDocuments(options.collection, context, data => {
+      const added = data[BACKFILL_FIELD]?.[marker]
+      if (!Array.isArray(added)) return null
+
+      // Drop the whole map once its last marker goes, rather than leaving it empty
+      const otherMarkers = Object.keys(data[BACKFILL_FIELD]).filter(key => key !== marker)
+      const patch: DocumentFields = {
+        [otherMarkers.length > 0 ? `${BACKFILL_FIELD}.${marker}` : BACKFILL_FIELD]: deleteField(),
+      }
+      added.forEach((field: string) => { patch[field] = deleteField() })
+      return patch
+    }),
+  }
+}
@@ -0,0 +1,15 @@
+import { Migration } from "./Migration"
+import feederPointCoordinates from "./001_feederPointCoordinates"
+import attendanceStatus from "./002_attendanceStatus"
+import vehicleAssignmentFields from "./003_vehicleAssignmentFields"
+import purgeApprovalPasswords from "./004_purgeApprovalPasswords"
+
+export * from "./Migration"
+
+// Every schema migration, in the order they must run. Append new ones with the next version number.
+export const MIGRATIONS: Migration[] = [
+  feederPointCoordinates,
+  attendanceStatus,
+  vehicleAssignmentFields,
+  purgeApprovalPasswords,
+]
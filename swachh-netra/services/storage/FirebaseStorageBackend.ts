@@ -0,0 +1,29 @@
+import { ref, uploadBytesResumable, getDownloadURL, deleteObject } from "firebase/storage"
+import { FIREBASE_STORAGE } from "../../FirebaseConfig"
+import { StorageBackend } from "./StorageBackend"
+
+export const firebaseStorageBackend: StorageBackend = {
+  upload: async (path, localUri, options) => {
+    const blob = await (await fetch(localUri)).blob()
+    const storageRef = ref(FIREBASE_STORAGE, path)
+    const task = uploadBytesResumable(storageRef, blob, {
+      contentType: options.contentType,
+      customMetadata: options.customMetadata,
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      task.on(
+        "state_changed",
+        snapshot => options.onProgress?.(snapshot.totalBytes > 0 ? snapshot.bytesTransferred / snapshot.totalBytes : 0),
+        reject,
+        () => resolve()
+      )
+    })
+
+    return getDownloadURL(task.snapshot.ref)
+  },
+
+  remove: async path => {
+    await deleteObject(ref(FIREBASE_STORAGE, path))
+  },
+}
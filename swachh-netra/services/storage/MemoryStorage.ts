@@ -0,0 +1,44 @@
+import { StorageBackend, UploadOptions } from "./StorageBackend"
+
+interface StoredFile {
+  localUri: string
+  contentType: string
+  customMetadata: { [key: string]: string }
+}
+
+// In-memory stand-in for Firebase Storage used by the test suite
+export class MemoryStorage {
+  private files = new Map<string, StoredFile>()
+
+  static urlFor(path: string): string {
+    return `https://storage.test/${encodeURIComponent(path)}`
+  }
+
+  read(path: string): StoredFile | undefined {
+    return this.files.get(path)
+  }
+
+  paths(): string[] {
+    return [...this.files.keys()].sort()
+  }
+
+  clear(): void {
+    this.files.clear()
+  }
+
+  asBackend(): StorageBackend {
+    return {
+      upload: async (path: string, localUri: string, options: UploadOptions) => {
+        options.onProgress?.(0.5)
+        this.files.set(path, { localUri, contentType: options.contentType, customMetadata: options.customMetadata || {} })
+        options.onProgress?.(1)
+        return MemoryStorage.urlFor(path)
+      },
+      remove: async (path: string) => {
+        if (!this.files.delete(path)) {
+          throw new Error(`Object '${path}' does not exist. (storage/object-not-found)`)
+        }
+      },
+    }
+  }
+}
@@ -0,0 +1,13 @@
+export interface UploadOptions {
+  contentType: string
+  customMetadata?: { [key: string]: string }
+  onProgress?: (fraction: number) => void
+}
+
+// Everything the services layer needs from file storage.
+// The live app uses Firebase Storage; tests swap in MemoryStorage.
+export interface StorageBackend {
+  // Upload a local file (file:// or content:// URI) and resolve with its download URL
+  upload(path: string, localUri: string, options: UploadOptions): Promise<string>
+  remove(path: string): Promise<void>
+}
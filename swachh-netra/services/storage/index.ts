@@ -0,0 +1,28 @@
+import { StorageBackend, UploadOptions } from "./StorageBackend"
+
+export type { StorageBackend, UploadOptions } from "./StorageBackend"
+
+let activeBackend: StorageBackend | null = null
+
+const backend = (): StorageBackend => {
+  if (!activeBackend) {
+    // Loaded lazily so that tests never initialise the Firebase app
+    activeBackend = require("./FirebaseStorageBackend").firebaseStorageBackend as StorageBackend
+  }
+  return activeBackend
+}
+
+// Swap the file storage backend (used by the test suite)
+export const setStorageBackend = (nextBackend: StorageBackend): void => {
+  activeBackend = nextBackend
+}
+
+// Fall back to Firebase Storage on next use
+export const resetStorageBackend = (): void => {
+  activeBackend = null
+}
+
+export const uploadFile = (path: string, localUri: string, options: UploadOptions): Promise<string> =>
+  backend().upload(path, localUri, options)
+
+export const deleteFile = (path: string): Promise<void> => backend().remove(path)